@@ -0,0 +1,118 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import { parseForecastArgs, runForecastCli, USAGE, type CliIO } from './forecast-cli'
+
+const TIMESTAMP = '2026-01-01T00:00:00Z'
+
+const EXPORT = {
+  version: '0.34.0',
+  exportedAt: TIMESTAMP,
+  projects: [
+    {
+      id: 'p1', name: 'Alpha', unitOfMeasure: 'points', sprintCadenceWeeks: 2,
+      firstSprintStartDate: '2026-06-01', createdAt: TIMESTAMP, updatedAt: TIMESTAMP,
+    },
+    { id: 'p2', name: 'Beta', unitOfMeasure: 'items', createdAt: TIMESTAMP, updatedAt: TIMESTAMP },
+  ],
+  sprints: [18, 22, 20, 15, 25].map((doneValue, i) => ({
+    id: `s${i + 1}`, projectId: 'p1', sprintNumber: i + 1,
+    sprintStartDate: '2026-06-01', sprintFinishDate: '2026-06-12',
+    doneValue, backlogAtSprintEnd: 180 - 15 * i, includedInForecast: true,
+    createdAt: TIMESTAMP, updatedAt: TIMESTAMP,
+  })),
+}
+
+function run(argv: string[], files: Record<string, string> = { 'export.json': JSON.stringify(EXPORT) }) {
+  let stdout = ''
+  let stderr = ''
+  const io: CliIO = {
+    readFile: (path) => {
+      if (!(path in files)) throw new Error(`ENOENT: no such file '${path}'`)
+      return files[path]
+    },
+    stdout: (text) => { stdout += text },
+    stderr: (text) => { stderr += text },
+  }
+  const code = runForecastCli(argv, io)
+  return { code, stdout, stderr }
+}
+
+describe('parseForecastArgs', () => {
+  it('maps flags to forecast options', () => {
+    const args = parseForecastArgs([
+      'export.json', '-p', 'Alpha', '--project', 'p3', '-f', 'csv', '--percentiles', '50, 85',
+      '--distributions', 'lognormal,bootstrap', '--mode', 'history', '--backlog', '90',
+      '--trials', '2000', '--adaptive', '--seed', '42', '--throughput',
+    ])
+    expect(args).toEqual({
+      file: 'export.json',
+      projects: ['Alpha', 'p3'],
+      format: 'csv',
+      options: {
+        percentiles: [50, 85],
+        distributions: ['lognormal', 'bootstrap'],
+        forecastMode: 'history',
+        remainingBacklog: 90,
+        trialCount: 2000,
+        adaptiveTrials: true,
+        seed: 42,
+        throughputMode: true,
+      },
+    })
+  })
+
+  it('returns null for --help', () => {
+    expect(parseForecastArgs(['-h'])).toBeNull()
+  })
+
+  it('rejects bad values with a user-facing message', () => {
+    expect(() => parseForecastArgs([])).toThrow('Expected exactly one export file.')
+    expect(() => parseForecastArgs(['a.json', '-f', 'xml'])).toThrow('--format must be one of: table, json, csv.')
+    expect(() => parseForecastArgs(['a.json', '--percentiles', '50,100'])).toThrow('--percentiles must be a number from 1 to 99.')
+    expect(() => parseForecastArgs(['a.json', '--distributions', 'weibull'])).toThrow('--distributions must be one of')
+    expect(() => parseForecastArgs(['a.json', '--percentiles', '10,,90'])).toThrow('--percentiles must be a number from 1 to 99.')
+    expect(() => parseForecastArgs(['a.json', '--distributions', 'lognormal,'])).toThrow('--distributions must be one of')
+    expect(() => parseForecastArgs(['a.json', '--trials', 'many'])).toThrow('--trials must be a number')
+  })
+})
+
+describe('runForecastCli', () => {
+  it('prints a table and exits 1 when a project could not be forecast', () => {
+    const { code, stdout } = run(['export.json', '--seed', '7', '--trials', '300'])
+    expect(code).toBe(1)
+    expect(stdout).toContain('Alpha — history mode, 300 trials, seed 7')
+    expect(stdout).toContain('Percentile  Lognormal')
+    expect(stdout).toContain('Beta — not forecast: Set sprint cadence on the Sprint History tab.')
+  })
+
+  it('filters projects by name or id and exits 0 when all succeed', () => {
+    const { code, stdout } = run(['export.json', '-p', 'p1', '--seed', '7', '--trials', '300', '-f', 'csv'])
+    expect(code).toBe(0)
+    expect(stdout.split('\n')[0]).toBe('Project,Milestone,Percentile,Distribution,Finish Date,Sprints Required,Seed')
+    expect(stdout).not.toContain('Beta')
+  })
+
+  it('prints JSON outcomes and reports failures on stderr', () => {
+    const { code, stdout, stderr } = run(['export.json', '--seed', '7', '--trials', '300', '-f', 'json'])
+    expect(code).toBe(1)
+    const outcomes = JSON.parse(stdout)
+    expect(outcomes).toHaveLength(2)
+    expect(outcomes[0].forecast.scopes[0].rows[1].percentile).toBe(50)
+    expect(stderr).toBe('Beta: Set sprint cadence on the Sprint History tab.\n')
+  })
+
+  it('exits 2 on usage, file, and validation errors', () => {
+    expect(run(['--bogus']).code).toBe(2)
+    expect(run(['missing.json']).stderr).toContain('Cannot read missing.json')
+    expect(run(['bad.json'], { 'bad.json': '{"projects": 1}' }).stderr)
+      .toBe('Cannot read bad.json: Import data is missing a valid "projects" array.\n')
+    expect(run(['export.json', '-p', 'Gamma']).stderr).toBe('No project matches Gamma.\n')
+  })
+
+  it('prints usage for --help', () => {
+    expect(run(['--help'])).toEqual({ code: 0, stdout: USAGE, stderr: '' })
+  })
+})
@@ -0,0 +1,181 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * `spert-forecast`: forecast the projects in a Forecaster JSON export and print
+ * their percentile finish dates as a table, JSON, or CSV.
+ *
+ * Argument handling and output live here, behind a small I/O interface, so the
+ * command can be tested without touching the file system or the process.
+ */
+
+import { parseArgs } from 'node:util'
+import {
+  forecastExportData,
+  formatForecastTable,
+  formatForecastCsv,
+  validateImportData,
+  DISTRIBUTION_TYPES,
+  type ForecastProjectOptions,
+  type ExportData,
+} from '@/features/forecast/headless'
+import type { ForecastMode } from '@/shared/types'
+
+export const USAGE = `Usage: spert-forecast <export.json> [options]
+
+Forecasts every project in a SPERT Forecaster JSON export.
+
+Options:
+  -p, --project <id|name>     Only forecast this project (repeatable)
+  -f, --format <format>       table (default), json, or csv
+      --percentiles <list>    Comma-separated percentiles (default 10,50,90)
+      --distributions <list>  Comma-separated distributions (default: all the mode shows)
+      --mode <mode>           history, subjective, or capacity (default: auto-detect)
+      --backlog <n>           Remaining backlog (default: latest sprint's backlog)
+      --trials <n>            Trials per distribution (default 10000)
+      --adaptive              Choose the trial count by P85 convergence
+      --seed <n>              Fixed random seed for reproducible output
+      --throughput            Treat backlog and velocity as whole item counts
+  -h, --help                  Show this help
+`
+
+export type OutputFormat = 'table' | 'json' | 'csv'
+
+export interface ForecastCliArgs {
+  file: string
+  projects: string[]
+  format: OutputFormat
+  options: ForecastProjectOptions
+}
+
+/**
+ * What the command needs from its environment
+ */
+export interface CliIO {
+  readFile: (path: string) => string
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+const FORECAST_MODES: readonly ForecastMode[] = ['history', 'subjective', 'capacity']
+const OUTPUT_FORMATS: readonly OutputFormat[] = ['table', 'json', 'csv']
+
+function parseNumber(flag: string, value: string, min: number, max: number): number
+function parseNumber(flag: string, value: string | undefined, min: number, max: number): number | undefined
+function parseNumber(flag: string, value: string | undefined, min: number, max: number): number | undefined {
+  if (value === undefined) return undefined
+  const n = Number(value)
+  if (value.trim() === '' || !Number.isFinite(n) || n < min || n > max) {
+    throw new Error(`--${flag} must be a number from ${min} to ${max}.`)
+  }
+  return n
+}
+
+/** Split a comma-separated flag value; empty entries are kept so the item parser rejects them */
+function parseList(value: string | undefined): string[] | undefined {
+  return value?.split(',').map((item) => item.trim())
+}
+
+function parseChoice<T extends string>(flag: string, value: string, choices: readonly T[]): T
+function parseChoice<T extends string>(flag: string, value: string | undefined, choices: readonly T[]): T | undefined
+function parseChoice<T extends string>(flag: string, value: string | undefined, choices: readonly T[]): T | undefined {
+  if (value === undefined) return undefined
+  if (!choices.includes(value as T)) throw new Error(`--${flag} must be one of: ${choices.join(', ')}.`)
+  return value as T
+}
+
+/**
+ * Parse command-line arguments (without the node / script prefix).
+ * Returns null when help was requested; throws a user-facing Error on bad input.
+ */
+export function parseForecastArgs(argv: string[]): ForecastCliArgs | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      project: { type: 'string', short: 'p', multiple: true },
+      format: { type: 'string', short: 'f' },
+      percentiles: { type: 'string' },
+      distributions: { type: 'string' },
+      mode: { type: 'string' },
+      backlog: { type: 'string' },
+      trials: { type: 'string' },
+      adaptive: { type: 'boolean' },
+      seed: { type: 'string' },
+      throughput: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+  if (values.help) return null
+  if (positionals.length !== 1) throw new Error('Expected exactly one export file.')
+
+  const percentiles = parseList(values.percentiles)?.map((p) => parseNumber('percentiles', p, 1, 99))
+  const distributions = parseList(values.distributions)?.map((d) => parseChoice('distributions', d, DISTRIBUTION_TYPES))
+  const trialCount = parseNumber('trials', values.trials, 1, 1_000_000)
+  const seed = parseNumber('seed', values.seed, 0, 2 ** 32 - 1)
+
+  return {
+    file: positionals[0],
+    projects: values.project ?? [],
+    format: parseChoice('format', values.format, OUTPUT_FORMATS) ?? 'table',
+    options: {
+      percentiles,
+      distributions,
+      forecastMode: parseChoice('mode', values.mode, FORECAST_MODES),
+      remainingBacklog: parseNumber('backlog', values.backlog, 0, Number.MAX_SAFE_INTEGER),
+      trialCount: trialCount !== undefined ? Math.round(trialCount) : undefined,
+      adaptiveTrials: values.adaptive,
+      seed: seed !== undefined ? Math.floor(seed) : undefined,
+      throughputMode: values.throughput,
+    },
+  }
+}
+
+/**
+ * Run the command. Returns the process exit code: 0 when every selected project
+ * was forecast, 1 when any could not be, 2 for usage or input-file errors.
+ */
+export function runForecastCli(argv: string[], io: CliIO): number {
+  let args: ForecastCliArgs | null
+  try {
+    args = parseForecastArgs(argv)
+  } catch (err) {
+    io.stderr(`${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`)
+    return 2
+  }
+  if (!args) {
+    io.stdout(USAGE)
+    return 0
+  }
+
+  let exportData: ExportData
+  try {
+    const raw: unknown = JSON.parse(io.readFile(args.file))
+    if (!validateImportData(raw)) throw new Error('Invalid import data')
+    exportData = raw
+  } catch (err) {
+    io.stderr(`Cannot read ${args.file}: ${err instanceof Error ? err.message : String(err)}\n`)
+    return 2
+  }
+
+  const selected = args.projects
+  const projects = selected.length > 0
+    ? exportData.projects.filter((p) => selected.includes(p.id) || selected.includes(p.name))
+    : exportData.projects
+  if (projects.length === 0) {
+    io.stderr(selected.length > 0 ? `No project matches ${selected.join(', ')}.\n` : 'The export has no projects.\n')
+    return 2
+  }
+
+  const outcomes = forecastExportData({ ...exportData, projects }, args.options)
+  if (args.format === 'json') io.stdout(JSON.stringify(outcomes, null, 2) + '\n')
+  else if (args.format === 'csv') io.stdout(formatForecastCsv(outcomes))
+  else io.stdout(formatForecastTable(outcomes))
+
+  const failed = outcomes.filter((o) => o.error !== undefined)
+  if (args.format !== 'table') {
+    for (const outcome of failed) io.stderr(`${outcome.projectName}: ${outcome.error}\n`)
+  }
+  return failed.length > 0 ? 1 : 0
+}
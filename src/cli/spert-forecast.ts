@@ -0,0 +1,16 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Node entry point for `spert-forecast` (bundled by `npm run build:cli`).
+ */
+
+import { readFileSync } from 'node:fs'
+import { runForecastCli } from './forecast-cli'
+
+process.exitCode = runForecastCli(process.argv.slice(2), {
+  readFile: (path) => readFileSync(path, 'utf8'),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+})
@@ -0,0 +1,104 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { cn } from '@/lib/utils'
+import { calculatePercentileResult, type QuadSimulationData } from '../lib/monte-carlo'
+import { formatDate, type NonWorkingDays, type WorkWeek } from '@/shared/lib/dates'
+import { DISTRIBUTION_LABELS, type DistributionType } from '../types'
+
+interface AutocorrelationComparisonProps {
+  /** Sorted sprints-required with correlated sprint draws (the displayed forecast) */
+  correlatedData: QuadSimulationData
+  /** Same-seed run with independent sprint draws */
+  independentData: QuadSimulationData
+  autocorrelation: number
+  distributions: DistributionType[]
+  percentiles: number[]
+  startDate: string
+  sprintCadenceWeeks: number
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
+}
+
+/**
+ * Side-by-side percentiles for independent vs autocorrelated sprint draws, so the
+ * effect of modeling autocorrelation is visible rather than silently baked in.
+ */
+export function AutocorrelationComparison({
+  correlatedData,
+  independentData,
+  autocorrelation,
+  distributions,
+  percentiles,
+  startDate,
+  sprintCadenceWeeks,
+  nonWorkingDays,
+  workWeek,
+}: AutocorrelationComparisonProps) {
+  const rows = distributions.flatMap((dist) => {
+    const correlated = correlatedData[dist]
+    const independent = independentData[dist]
+    if (!correlated || !independent) return []
+    return [{
+      dist,
+      cells: percentiles.map((p) => ({
+        percentile: p,
+        independent: calculatePercentileResult(independent, p, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek),
+        correlated: calculatePercentileResult(correlated, p, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek),
+      })),
+    }]
+  })
+
+  if (rows.length === 0) return null
+
+  return (
+    <div className="mt-6 rounded-lg border border-border dark:border-gray-700 p-4">
+      <h3 className="text-sm font-semibold text-spert-text-secondary dark:text-gray-300">
+        Independent vs correlated sprints{' '}
+        <span className="font-normal text-spert-text-muted">
+          (ρ = {autocorrelation.toFixed(2)}, same random seed)
+        </span>
+      </h3>
+      <div className="mt-2 overflow-x-auto">
+        <table className="w-full text-sm tabular-nums">
+          <thead>
+            <tr className="text-left text-xs text-spert-text-muted">
+              <th className="py-1 pr-4 font-medium">Method</th>
+              {percentiles.map((p) => (
+                <th key={p} className="py-1 pr-4 font-medium">P{p}: independent → correlated</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ dist, cells }) => (
+              <tr key={dist} className="border-t border-border dark:border-gray-700">
+                <td className="py-1 pr-4 text-spert-text-secondary dark:text-gray-300">{DISTRIBUTION_LABELS[dist]}</td>
+                {cells.map(({ percentile, independent, correlated }) => {
+                  const delta = correlated.sprintsRequired - independent.sprintsRequired
+                  return (
+                    <td key={percentile} className="py-1 pr-4 text-spert-text dark:text-gray-100">
+                      {formatDate(independent.finishDate)} → {formatDate(correlated.finishDate)}{' '}
+                      <span className={cn(
+                        'text-xs',
+                        delta > 0
+                          ? 'text-amber-600 dark:text-amber-400'
+                          : delta < 0
+                            ? 'text-emerald-600 dark:text-emerald-400'
+                            : 'text-spert-text-muted'
+                      )}>
+                        ({delta > 0 ? '+' : ''}{delta} sprint{Math.abs(delta) === 1 ? '' : 's'})
+                      </span>
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
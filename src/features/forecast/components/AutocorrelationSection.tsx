@@ -0,0 +1,70 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { cn } from '@/lib/utils'
+import { HelpTooltip } from '@/shared/components/HelpTooltip'
+import { MAX_AUTOCORRELATION } from '../constants'
+
+interface AutocorrelationSectionProps {
+  estimatedAutocorrelation: number
+  includedSprintCount: number
+  modelAutocorrelation: boolean
+  onModelAutocorrelationChange: (value: boolean) => void
+}
+
+/**
+ * Velocity autocorrelation toggle (history mode only).
+ *
+ * Shows the lag-1 autocorrelation estimated from included sprints and lets the user
+ * simulate correlated sprints instead of independent draws.
+ */
+export function AutocorrelationSection({
+  estimatedAutocorrelation,
+  includedSprintCount,
+  modelAutocorrelation,
+  onModelAutocorrelationChange,
+}: AutocorrelationSectionProps) {
+  const rho = estimatedAutocorrelation
+  const isCapped = Math.abs(rho) > MAX_AUTOCORRELATION
+
+  return (
+    <div className="mt-3 rounded-md border border-border dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2">
+      <label htmlFor="modelAutocorrelation" className="flex items-center gap-2 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          id="modelAutocorrelation"
+          checked={modelAutocorrelation}
+          onChange={(e) => onModelAutocorrelationChange(e.target.checked)}
+          className="rounded border-gray-300 dark:border-gray-500"
+        />
+        <span className="text-sm font-medium text-spert-text-secondary dark:text-gray-300">
+          Model velocity autocorrelation{' '}
+          <span className="text-xs font-normal text-spert-text-muted">
+            (if slow sprints tend to follow slow sprints)
+          </span>
+        </span>
+        <HelpTooltip content="Lag-1 autocorrelation (ρ) measures how strongly each sprint's velocity tracks the previous one. Positive ρ makes runs of good or bad sprints more likely, widening the forecast range. Parametric distributions use an AR(1) process; Bootstrap resamples runs of consecutive historical sprints." />
+      </label>
+      <div className="mt-1 ml-6 flex items-center gap-2">
+        <span className="text-sm text-spert-text-secondary dark:text-gray-300">Estimated ρ:</span>
+        <span className={cn(
+          'text-sm font-semibold tabular-nums',
+          rho > 0.1
+            ? 'text-amber-600 dark:text-amber-400'
+            : rho < -0.1
+              ? 'text-emerald-600 dark:text-emerald-400'
+              : 'text-spert-text-muted'
+        )}>
+          {rho > 0 ? '+' : ''}{rho.toFixed(2)}
+        </span>
+        <span className="text-xs text-spert-text-muted dark:text-gray-400">
+          from {includedSprintCount} sprints
+          {isCapped && ` · capped at ±${MAX_AUTOCORRELATION} in simulation`}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+
+import { BacktestPanel } from './BacktestPanel'
+import type { BacktestResult } from '../lib/backtest'
+
+const RESULT: BacktestResult = {
+  endSprintNumber: 10,
+  endReason: 'backlogZero',
+  trialCount: 5000,
+  seed: 7,
+  percentiles: [50, 85],
+  cutoffs: [
+    { sprintNumber: 5, remainingBacklog: 100, actualSprintsRemaining: 5, predicted: {}, actualCumulative: {} },
+    { sprintNumber: 9, remainingBacklog: 20, actualSprintsRemaining: 1, predicted: {}, actualCumulative: {} },
+  ],
+  scores: [
+    { distribution: 'lognormal', cutoffCount: 2, hitRates: [0.5, 1], meanAbsoluteErrorP50: 0.5, calibrationError: 0.075 },
+    { distribution: 'gamma', cutoffCount: 2, hitRates: [0, 0.5], meanAbsoluteErrorP50: 1.5, calibrationError: 0.425 },
+  ],
+  skipped: [],
+}
+
+type Props = Parameters<typeof BacktestPanel>[0]
+function renderPanel(overrides: Partial<Props> = {}) {
+  const defaults: Props = {
+    backtestResult: null,
+    canRun: true,
+    isSimulating: false,
+    onRun: () => {},
+  }
+  render(<BacktestPanel {...defaults} {...overrides} />)
+  fireEvent.click(screen.getByRole('button', { name: /Backtest/ }))
+}
+
+describe('BacktestPanel', () => {
+  it('disables the run button without enough history', () => {
+    renderPanel({ canRun: false })
+    expect((screen.getByRole('button', { name: 'Run Backtest' }) as HTMLButtonElement).disabled).toBe(true)
+    expect(screen.getByText(/Record a few more sprints/)).toBeTruthy()
+  })
+
+  it('runs on request', () => {
+    const onRun = vi.fn()
+    renderPanel({ onRun })
+    fireEvent.click(screen.getByRole('button', { name: 'Run Backtest' }))
+    expect(onRun).toHaveBeenCalled()
+  })
+
+  it('reports hit rates per distribution and the best calibrated', () => {
+    renderPanel({ backtestResult: RESULT })
+    expect(screen.getByText(/Sprint 10, when the backlog reached zero/)).toBeTruthy()
+    expect(screen.getByText('Lognormal', { selector: 'strong' })).toBeTruthy()
+    const row = screen.getByText('Gamma', { selector: 'td' }).closest('tr')!
+    expect(row.textContent).toContain('0%')
+    expect(row.textContent).toContain('50%')
+    expect(row.textContent).toContain('1.5')
+    expect(screen.getByRole('button', { name: 'Re-run Backtest' })).toBeTruthy()
+  })
+
+  it('explains why nothing could be backtested', () => {
+    renderPanel({
+      backtestResult: {
+        ...RESULT,
+        cutoffs: [],
+        scores: [],
+        skipped: [{ sprintNumber: 3, reason: 'Set sprint cadence on the Sprint History tab.' }],
+      },
+    })
+    expect(screen.getByText(/No sprint could be backtested: Set sprint cadence/)).toBeTruthy()
+  })
+})
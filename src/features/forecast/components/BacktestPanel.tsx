@@ -0,0 +1,228 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts'
+import { cn } from '@/lib/utils'
+import { COLORS, DISTRIBUTION_COLORS } from '@/shared/lib/colors'
+import { DISTRIBUTION_LABELS } from '../types'
+import {
+  bestCalibratedDistribution,
+  buildBacktestCalibrationData,
+  type BacktestResult,
+} from '../lib/backtest'
+
+interface BacktestPanelProps {
+  /** Null until a backtest has run for the current project */
+  backtestResult: BacktestResult | null
+  /** The project has enough sprint history to replay */
+  canRun: boolean
+  isSimulating: boolean
+  onRun: () => void
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`
+}
+
+function formatSprints(value: number): string {
+  return Number.isNaN(value) ? '—' : value.toFixed(1)
+}
+
+export function BacktestPanel({ backtestResult, canRun, isSimulating, onRun }: BacktestPanelProps) {
+  // Collapsed by default, like the other post-results panels.
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  // Every distribution is scored, not just those enabled in Settings — choosing
+  // between them is the point of a backtest.
+  const scores = backtestResult?.scores ?? []
+  const calibrationData = useMemo(
+    () => (backtestResult ? buildBacktestCalibrationData(backtestResult) : []),
+    [backtestResult],
+  )
+  const best = backtestResult ? bestCalibratedDistribution(backtestResult) : null
+  const cutoffs = backtestResult?.cutoffs ?? []
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 flex items-center gap-2 text-left hover:bg-muted/50 transition-colors"
+        aria-expanded={isExpanded}
+        aria-controls="backtest-panel"
+      >
+        <span
+          className={cn(
+            'inline-block text-[10px] text-muted-foreground transition-transform duration-200',
+            isExpanded && 'rotate-90',
+          )}
+          aria-hidden="true"
+        >
+          ▶
+        </span>
+        <h3 className="text-sm font-medium text-muted-foreground">Backtest</h3>
+      </button>
+
+      {isExpanded && (
+        <div id="backtest-panel" className="px-4 pb-4 space-y-4">
+          <div>
+            <button
+              type="button"
+              onClick={onRun}
+              disabled={!canRun || isSimulating}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-spert-blue rounded cursor-pointer hover:opacity-90 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {backtestResult ? 'Re-run Backtest' : 'Run Backtest'}
+            </button>
+          </div>
+
+          {/* Narrative */}
+          {!backtestResult && (
+            <p className="text-sm text-muted-foreground italic">
+              {!canRun
+                ? 'Record a few more sprints, then see how each distribution would have forecast this project.'
+                : isSimulating
+                  ? 'Simulating…'
+                  : 'Re-forecasts the project from each past sprint, using only the history known then, and scores how often the actual finish fell within each percentile.'}
+            </p>
+          )}
+
+          {backtestResult && cutoffs.length === 0 && (
+            <p className="text-sm italic text-spert-text-muted">
+              No sprint could be backtested{backtestResult.skipped[0] ? `: ${backtestResult.skipped[0].reason}` : '.'}
+            </p>
+          )}
+
+          {backtestResult && cutoffs.length > 0 && (
+            <p aria-live="polite" className="text-sm text-spert-text dark:text-gray-100 leading-relaxed">
+              Forecast from{' '}
+              <strong className="text-spert-blue">
+                {cutoffs.length} past sprint{cutoffs.length === 1 ? '' : 's'}
+              </strong>{' '}
+              (Sprints {cutoffs[0].sprintNumber}–{cutoffs[cutoffs.length - 1].sprintNumber}) against{' '}
+              {backtestResult.endReason === 'backlogZero'
+                ? `Sprint ${backtestResult.endSprintNumber}, when the backlog reached zero`
+                : `Sprint ${backtestResult.endSprintNumber}, the latest recorded sprint`}
+              .
+              {best && (
+                <>
+                  {' '}
+                  <strong className="text-spert-blue">{DISTRIBUTION_LABELS[best]}</strong> was the best calibrated.
+                </>
+              )}
+            </p>
+          )}
+
+          {/* Hit rates: share of cutoffs that finished within each percentile's forecast */}
+          {scores.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm tabular-nums">
+                <thead>
+                  <tr className="text-left text-xs text-spert-text-muted">
+                    <th className="py-1 pr-4 font-medium">Distribution</th>
+                    <th className="py-1 pr-4 font-medium">Cutoffs</th>
+                    {backtestResult!.percentiles.map((p) => (
+                      <th key={p} className="py-1 pr-4 font-medium">P{p}</th>
+                    ))}
+                    <th className="py-1 pr-4 font-medium">P50 error (sprints)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {scores.map((score) => (
+                    <tr key={score.distribution} className="border-t border-border dark:border-gray-700">
+                      <td className="py-1 pr-4 text-spert-text-secondary dark:text-gray-300">
+                        {DISTRIBUTION_LABELS[score.distribution]}
+                      </td>
+                      <td className="py-1 pr-4">{score.cutoffCount}</td>
+                      {score.hitRates.map((rate, j) => (
+                        <td key={backtestResult!.percentiles[j]} className="py-1 pr-4">{formatRate(rate)}</td>
+                      ))}
+                      <td className="py-1 pr-4">{formatSprints(score.meanAbsoluteErrorP50)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Calibration chart: observed hit rate against the nominal percentile */}
+          {scores.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 p-2">
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={calibrationData} margin={{ top: 5, right: 30, left: 10, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={COLORS.border.light} />
+                  <XAxis
+                    dataKey="percentile"
+                    type="number"
+                    domain={[0, 100]}
+                    tickFormatter={(p: number) => `P${p}`}
+                    tick={{ fontSize: 11, fill: COLORS.text.muted }}
+                    axisLine={{ stroke: '#e5e7eb' }}
+                    label={{ value: 'Forecast percentile', position: 'insideBottom', offset: -12, fontSize: 12 }}
+                  />
+                  <YAxis
+                    type="number"
+                    domain={[0, 100]}
+                    tickFormatter={(v: number) => `${v}%`}
+                    tick={{ fontSize: 11 }}
+                    width={50}
+                  />
+                  <Tooltip
+                    formatter={(value) => (typeof value === 'number' ? `${value}%` : value)}
+                    labelFormatter={(p) => `P${p}`}
+                    contentStyle={{ fontSize: 11 }}
+                  />
+                  <Legend verticalAlign="top" wrapperStyle={{ fontSize: 11 }} />
+                  <Line
+                    type="linear"
+                    dataKey="ideal"
+                    name="Perfect calibration"
+                    stroke={COLORS.text.light}
+                    strokeDasharray="5 3"
+                    dot={false}
+                  />
+                  {scores.map((score) => (
+                    <Line
+                      key={score.distribution}
+                      type="linear"
+                      dataKey={score.distribution}
+                      name={DISTRIBUTION_LABELS[score.distribution]}
+                      stroke={DISTRIBUTION_COLORS[score.distribution]}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {backtestResult && cutoffs.length > 0 && (
+            <p className="text-xs text-spert-text-muted dark:text-gray-400 italic">
+              Each past sprint is forecast in History mode from the sprints up to it and the backlog
+              recorded at its end, with {backtestResult.trialCount.toLocaleString()} trials per sprint.
+              Lines above the diagonal mean the forecasts were padded; below it, optimistic.
+              {backtestResult.endReason === 'lastSprint' &&
+                ' The backlog has not reached zero yet, so the latest sprint stands in for the finish and hit rates run high.'}
+              {backtestResult.skipped.length > 0 &&
+                ` ${backtestResult.skipped.length} sprint${backtestResult.skipped.length === 1 ? ' was' : 's were'} skipped: ${backtestResult.skipped[0].reason}`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
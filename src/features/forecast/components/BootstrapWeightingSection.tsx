@@ -0,0 +1,108 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { HelpTooltip } from '@/shared/components/HelpTooltip'
+import type { BootstrapWeightingMode } from '../lib/bootstrap-weighting'
+import { MIN_BOOTSTRAP_WINDOW } from '../constants'
+
+interface BootstrapWeightingSectionProps {
+  mode: BootstrapWeightingMode
+  halfLife: number
+  window: number
+  includedSprintCount: number
+  onModeChange: (mode: BootstrapWeightingMode) => void
+  onHalfLifeChange: (value: number) => void
+  onWindowChange: (value: number) => void
+}
+
+const numberInputClass =
+  'w-16 p-1 text-sm border border-spert-border dark:border-gray-500 rounded bg-white dark:bg-gray-600 text-spert-text dark:text-gray-100 tabular-nums'
+
+/**
+ * Bootstrap sprint weighting (history mode only): all sprints equally, recency-weighted
+ * with an exponential half-life, or only the last N sprints.
+ */
+export function BootstrapWeightingSection({
+  mode,
+  halfLife,
+  window,
+  includedSprintCount,
+  onModeChange,
+  onHalfLifeChange,
+  onWindowChange,
+}: BootstrapWeightingSectionProps) {
+  return (
+    <div className="mt-3 rounded-md border border-border dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-spert-text-secondary dark:text-gray-300">
+          Bootstrap history{' '}
+          <span className="text-xs font-normal text-spert-text-muted">
+            (if the team has changed, favor recent sprints)
+          </span>
+        </span>
+        <HelpTooltip content="Controls which past sprints the Bootstrap method resamples. Recency weighting halves a sprint's chance of being picked for every half-life of sprints it lies in the past. Other methods are unaffected." />
+      </div>
+      <div className="mt-2 ml-6 space-y-1.5">
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input
+            type="radio"
+            name="bootstrapWeightingMode"
+            checked={mode === 'uniform'}
+            onChange={() => onModeChange('uniform')}
+            className="border-gray-300 dark:border-gray-500"
+          />
+          <span className="text-sm text-spert-text-secondary dark:text-gray-300">
+            All {includedSprintCount} sprints equally
+          </span>
+        </label>
+
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input
+            type="radio"
+            name="bootstrapWeightingMode"
+            checked={mode === 'recency'}
+            onChange={() => onModeChange('recency')}
+            className="border-gray-300 dark:border-gray-500"
+          />
+          <span className="text-sm text-spert-text-secondary dark:text-gray-300">Recency-weighted, half-life</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={halfLife}
+            aria-label="Recency half-life in sprints"
+            onChange={(e) => onHalfLifeChange(parseInt(e.target.value, 10))}
+            onFocus={() => onModeChange('recency')}
+            className={numberInputClass}
+          />
+          <span className="text-sm text-spert-text-muted dark:text-gray-400">sprints</span>
+        </label>
+
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input
+            type="radio"
+            name="bootstrapWeightingMode"
+            checked={mode === 'window'}
+            onChange={() => onModeChange('window')}
+            className="border-gray-300 dark:border-gray-500"
+          />
+          <span className="text-sm text-spert-text-secondary dark:text-gray-300">Last</span>
+          <input
+            type="number"
+            min={MIN_BOOTSTRAP_WINDOW}
+            step={1}
+            value={window}
+            aria-label="Number of most recent sprints"
+            onChange={(e) => onWindowChange(parseInt(e.target.value, 10))}
+            onFocus={() => onModeChange('window')}
+            className={numberInputClass}
+          />
+          <span className="text-sm text-spert-text-muted dark:text-gray-400">sprints only</span>
+        </label>
+      </div>
+    </div>
+  )
+}
@@ -7,10 +7,12 @@
 import { useMemo, useState, type RefObject } from 'react'
 import { cn } from '@/lib/utils'
 import type { Sprint, Milestone } from '@/shared/types'
+import type { NonWorkingDays, WorkWeek } from '@/shared/lib/dates'
 import type { QuadSimulationData } from '../lib/monte-carlo'
 import type { BurnUpConfig, ChartFontSize } from '../types'
 import { CHART_FONT_SIZES } from '../types'
 import { calculateBurnUpData, isBootstrapAvailable } from '../lib/burn-up'
+import { describeDependencyDelay, type DependencyDelay } from '../lib/dependencies'
 import { BurnUpConfigUI } from './BurnUpConfig'
 import { BurnUpChartCanvas } from './BurnUpChartCanvas'
 
@@ -40,6 +42,13 @@ interface BurnUpChartProps {
   cumulativeThresholds?: number[]
   forecastStartDate?: string
   resolvedSprintDates?: Map<number, { startDate: string; finishDate: string }>
+  /** The project's holidays; projected finish dates step back from them */
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
+  /** Description of the projected velocity trend, when one was applied */
+  trendNote?: string | null
+  /** Delay from milestones waiting on other projects, when any wait */
+  dependencyDelay?: DependencyDelay | null
 }
 
 export function BurnUpChart({
@@ -58,11 +67,17 @@ export function BurnUpChart({
   cumulativeThresholds = [],
   forecastStartDate,
   resolvedSprintDates,
+  nonWorkingDays,
+  workWeek,
+  trendNote,
+  dependencyDelay,
 }: BurnUpChartProps) {
   const [isExpanded, setIsExpanded] = useState(false)
   const fontSizes = CHART_FONT_SIZES[fontSize]
 
   const hasBootstrap = isBootstrapAvailable(simulationData)
+  // The forecast lines already include the wait; the note says how much it adds.
+  const dependencyNote = dependencyDelay ? describeDependencyDelay(dependencyDelay, config.distribution) : null
 
   // Total work delivered, used to anchor milestone reference lines in chart space.
   const totalDone = useMemo(
@@ -100,8 +115,10 @@ export function BurnUpChart({
         completedSprintCount,
         forecastStartDate,
         resolvedSprintDates,
+        nonWorkingDays,
+        workWeek,
       }),
-    [sprints, forecastBacklog, simulationData, config, sprintCadenceWeeks, firstSprintStartDate, completedSprintCount, forecastStartDate, resolvedSprintDates]
+    [sprints, forecastBacklog, simulationData, config, sprintCadenceWeeks, firstSprintStartDate, completedSprintCount, forecastStartDate, resolvedSprintDates, nonWorkingDays, workWeek]
   )
 
   // Calculate Y-axis domain based on data
@@ -155,6 +172,8 @@ export function BurnUpChart({
             <p className="text-xs text-muted-foreground mb-4">
               Shows cumulative work completed (Done) vs total product scope (Scope). Forecast lines
               show projected completion at different confidence levels.
+              {trendNote && <> {trendNote}.</>}
+              {dependencyNote && <> {dependencyNote}.</>}
             </p>
             <BurnUpChartCanvas
               chartData={chartData}
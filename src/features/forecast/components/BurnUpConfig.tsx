@@ -27,7 +27,7 @@ interface BurnUpConfigProps {
 
 export function BurnUpConfigUI({ config, hasBootstrap, onChange, fontSize = 'small', onFontSizeChange, chartRef }: BurnUpConfigProps) {
   // Distribution availability is intentionally hardcoded here (not derived from
-  // getVisibleDistributions) to preserve Triangular/Uniform visibility in BOTH forecast modes.
+  // getVisibleDistributions) to preserve Triangular/PERT/Uniform visibility in BOTH forecast modes.
   // The Settings "Statistical methods to show" checkboxes further filter this list.
   // If you add a distribution, update this list AND the forecastMode matrix in
   // getVisibleDistributions AND DISTRIBUTION_TYPES in src/shared/types/burn-up.ts.
@@ -49,8 +49,8 @@ export function BurnUpConfigUI({ config, hasBootstrap, onChange, fontSize = 'sma
   // infinite loop. Do not drop deps — array reference stability is load-bearing.
   const availableDistributions = useMemo<DistributionType[]>(() => {
     const base: DistributionType[] = hasBootstrap
-      ? ['truncatedNormal', 'lognormal', 'gamma', 'bootstrap', 'triangular', 'uniform']
-      : ['truncatedNormal', 'lognormal', 'gamma', 'triangular', 'uniform']
+      ? ['truncatedNormal', 'lognormal', 'gamma', 'bootstrap', 'triangular', 'pert', 'uniform']
+      : ['truncatedNormal', 'lognormal', 'gamma', 'triangular', 'pert', 'uniform']
     return base.filter((d) => distributionsEnabled.includes(d))
   }, [hasBootstrap, distributionsEnabled])
 
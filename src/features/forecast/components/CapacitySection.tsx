@@ -0,0 +1,65 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { HelpTooltip } from '@/shared/components/HelpTooltip'
+import type { CapacityBaseline } from '../lib/capacity'
+
+interface CapacitySectionProps {
+  capacityBaseline: CapacityBaseline
+  plannedCapacity: number[] | null
+  unitOfMeasure: string
+}
+
+/**
+ * Capacity mode summary: per-person throughput derived from history and the planned
+ * team capacity it will be multiplied by.
+ */
+export function CapacitySection({ capacityBaseline, plannedCapacity, unitOfMeasure }: CapacitySectionProps) {
+  const { stats, averageCapacity, uncoveredSprintCount } = capacityBaseline
+  const nextCapacity = plannedCapacity?.[0]
+  const steadyCapacity = plannedCapacity?.[plannedCapacity.length - 1]
+
+  return (
+    <div className="mt-3 rounded-md border border-border dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-spert-text-secondary dark:text-gray-300">
+          Team capacity{' '}
+          <span className="text-xs font-normal text-spert-text-muted">
+            (from the roster in Team Capacity below)
+          </span>
+        </span>
+        <HelpTooltip content="Each sprint's velocity is simulated as throughput per full-time person × that sprint's planned capacity. Throughput comes from past sprints: total velocity divided by total roster capacity." />
+      </div>
+      <div className="mt-1 ml-6 space-y-0.5 text-sm text-spert-text-secondary dark:text-gray-300">
+        <div>
+          Throughput:{' '}
+          <span className="font-semibold tabular-nums">{stats.mean.toFixed(2)} {unitOfMeasure}</span> per person per sprint{' '}
+          <span className="text-xs text-spert-text-muted dark:text-gray-400">
+            (SD {stats.standardDeviation.toFixed(2)}, from {stats.count} sprints averaging {averageCapacity.toFixed(1)} FTE)
+          </span>
+        </div>
+        {nextCapacity !== undefined && (
+          <div>
+            Next sprint:{' '}
+            <span className="font-semibold tabular-nums">{nextCapacity.toFixed(1)} FTE</span>
+            {' → '}
+            <span className="tabular-nums">~{(stats.mean * nextCapacity).toFixed(1)} {unitOfMeasure}</span>
+            {steadyCapacity !== undefined && steadyCapacity !== nextCapacity && (
+              <span className="text-xs text-spert-text-muted dark:text-gray-400">
+                {' '}(later sprints: {steadyCapacity.toFixed(1)} FTE)
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+      {uncoveredSprintCount > 0 && (
+        <span className="text-xs text-amber-600 dark:text-amber-400 font-medium block ml-6 mt-1">
+          {uncoveredSprintCount} included sprint{uncoveredSprintCount === 1 ? ' has' : 's have'} no one on the roster and {uncoveredSprintCount === 1 ? 'is' : 'are'} left out.
+        </span>
+      )}
+    </div>
+  )
+}
@@ -9,6 +9,7 @@ import type { Milestone } from '@/shared/types'
 import {
   type MilestoneCompletionInfo,
   computeVisibleForecastMilestones,
+  finalMilestoneAmong,
 } from '../lib/milestones'
 import { type ChartFontSize, CHART_FONT_SIZE_LABELS } from '../types'
 
@@ -49,9 +50,10 @@ export function ChartToolbar({
     }
   }, [visibleMilestones, selectedMilestoneIndex, onMilestoneIndexChange])
 
-  const lastVisibleIdx = visibleMilestones.length > 0
-    ? visibleMilestones[visibleMilestones.length - 1].originalIndex
-    : -1
+  const lastVisibleIdx = useMemo(
+    () => finalMilestoneAmong(milestones, visibleMilestones.map((v) => v.originalIndex)),
+    [milestones, visibleMilestones]
+  )
 
   const showMilestoneSelector = visibleMilestones.length > 0 && onMilestoneIndexChange
   const showFontSize = !!onFontSizeChange
@@ -0,0 +1,49 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { HelpTooltip } from '@/shared/components/HelpTooltip'
+
+interface DayLevelDatesSectionProps {
+  dayLevelDates: boolean
+  hasMilestones: boolean
+  onDayLevelDatesChange: (value: boolean) => void
+}
+
+/**
+ * Day-level dates toggle: date each trial's finish at the working day its backlog
+ * ran out, instead of at its final sprint's finish date.
+ */
+export function DayLevelDatesSection({
+  dayLevelDates,
+  hasMilestones,
+  onDayLevelDatesChange,
+}: DayLevelDatesSectionProps) {
+  return (
+    <div className="mt-3 rounded-md border border-border dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2">
+      <label htmlFor="dayLevelDates" className="flex items-center gap-2 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          id="dayLevelDates"
+          checked={dayLevelDates}
+          onChange={(e) => onDayLevelDatesChange(e.target.checked)}
+          className="rounded border-gray-300 dark:border-gray-500"
+        />
+        <span className="text-sm font-medium text-spert-text-secondary dark:text-gray-300">
+          Day-level dates{' '}
+          <span className="text-xs font-normal text-spert-text-muted">
+            (for short releases where sprint-end dates are too coarse)
+          </span>
+        </span>
+        <HelpTooltip content="Each trial records how far into its final sprint the backlog ran out, assuming the sprint's work is done evenly, and finishes on that working day. The probability chart, histogram and Deadline Probability then show day-level dates. Percentile results still report whole sprints." />
+      </label>
+      {dayLevelDates && hasMilestones && (
+        <span className="text-xs text-amber-600 dark:text-amber-400 font-medium block ml-6 mt-1">
+          Milestone forecasts stay at sprint level; remove milestones to see day-level dates.
+        </span>
+      )}
+    </div>
+  )
+}
@@ -8,7 +8,7 @@ import { render, screen, fireEvent } from '@testing-library/react'
 import { DeadlineProbabilityPanel } from './DeadlineProbabilityPanel'
 import { useSettingsStore } from '@/shared/state/settings-store'
 import type { Milestone } from '@/shared/types'
-import type { QuadSimulationData } from '../lib/monte-carlo'
+import type { QuadSimulationData, QuadInterpolatedData } from '../lib/monte-carlo'
 import type { MilestoneResults } from '../hooks/useForecastState'
 import type { MilestoneCompletionInfo } from '../lib/milestones'
 import {
@@ -33,19 +33,20 @@ function finishOf(n: number): string {
 
 /** A sortedSprintsRequired array of length 100 where K values are ≤ N. With K
  *  values landing at exactly N, the CDF at N is K%. */
-function simArrayWithKLessOrEqual(n: number, k: number): number[] {
+function simArrayWithKLessOrEqual(n: number, k: number): Uint16Array {
   const ks = Array.from({ length: k }, () => n)
   const rest = Array.from({ length: 100 - k }, () => n + 50)
-  return [...ks, ...rest].sort((a, b) => a - b)
+  return Uint16Array.from([...ks, ...rest].sort((a, b) => a - b))
 }
 
-function makeSimulationData(arr: number[]): QuadSimulationData {
+function makeSimulationData(arr: Uint16Array): QuadSimulationData {
   return {
     truncatedNormal: arr,
     lognormal: arr,
     gamma: arr,
     bootstrap: null,
     triangular: arr,
+    pert: arr,
     uniform: arr,
   }
 }
@@ -73,7 +74,7 @@ const SAMPLE_COMPLETION: MilestoneCompletionInfo[] = [
   { completed: false },
 ]
 
-function makeMilestoneResults(arr: number[]): MilestoneResults {
+function makeMilestoneResults(arr: Uint16Array): MilestoneResults {
   // Same shape for both milestones — tests only need *something*.
   return {
     milestoneResults: [
@@ -312,6 +313,7 @@ describe('DeadlineProbabilityPanel', () => {
       gamma: simArrayWithKLessOrEqual(3, 100), // 100%, will cap
       bootstrap: null,
       triangular: simArrayWithKLessOrEqual(3, 50),
+      pert: simArrayWithKLessOrEqual(3, 50),
       uniform: simArrayWithKLessOrEqual(3, 50),
     }
     renderPanel({ simulationData: sim, targetDate: '2026-07-05' })
@@ -323,6 +325,37 @@ describe('DeadlineProbabilityPanel', () => {
     ).toBeTruthy()
   })
 
+  describe('day-level data', () => {
+    // 30 of 100 trials run out on the fourth working day of sprint 1 (Thu May 21)
+    const fractional = Float64Array.from([
+      ...Array.from({ length: 30 }, () => 0.35),
+      ...Array.from({ length: 70 }, () => 1.5),
+    ])
+    const interpolatedData: QuadInterpolatedData = {
+      truncatedNormal: fractional,
+      lognormal: fractional,
+      gamma: fractional,
+      bootstrap: null,
+      triangular: fractional,
+      pert: fractional,
+      uniform: fractional,
+    }
+
+    it('evaluates the target date itself, even inside the first forecast sprint', () => {
+      renderPanel({ interpolatedData, targetDate: '2026-05-21' })
+      expandPanel()
+      expect(screen.queryByText(/before any sprint can complete/)).toBeNull()
+      expect(screen.getByRole('cell', { name: '30%' })).toBeTruthy()
+      expect(screen.getByText(/Day-level dates: probability counts/)).toBeTruthy()
+    })
+
+    it('does not count trials finishing after the target day', () => {
+      renderPanel({ interpolatedData, targetDate: '2026-05-20' })
+      expandPanel()
+      expect(screen.getByRole('cell', { name: '0%' })).toBeTruthy()
+    })
+  })
+
   it('renders empty state without throwing when forecastStartDate is invalid', () => {
     renderPanel({ forecastStartDate: '', targetDate: '2026-07-05' })
     expandPanel()
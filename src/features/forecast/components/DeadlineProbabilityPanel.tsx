@@ -6,17 +6,18 @@
 
 import { useId, useMemo, useState } from 'react'
 import { cn } from '@/lib/utils'
-import { formatDateLong, isValidDateRange } from '@/shared/lib/dates'
+import { formatDateLong, isValidDateRange, type NonWorkingDays, type WorkWeek } from '@/shared/lib/dates'
 import { indefiniteArticle } from '@/shared/lib/grammar'
 import { useSettingsStore } from '@/shared/state/settings-store'
 import type { Milestone, ForecastMode } from '@/shared/types'
 import { DISTRIBUTION_LABELS, getVisibleDistributions, type DistributionType } from '../types'
-import type { QuadSimulationData } from '../lib/monte-carlo'
+import type { QuadSimulationData, QuadInterpolatedData } from '../lib/monte-carlo'
 import type { MilestoneResults } from '../hooks/useForecastState'
 import type { MilestoneCompletionInfo } from '../lib/milestones'
 import { PROJECT_SCOPE, type ScopeSelection } from '../lib/scope'
 import {
   targetDateToSprintCount,
+  targetDateToFractionalSprints,
   calculateDeadlineProbability,
   type SprintAtDate,
   type DeadlineProbabilityResult,
@@ -29,6 +30,9 @@ interface DeadlineProbabilityPanelProps {
    *  this panel when results+simulationData are available, so this prop is
    *  non-nullable at the type level. */
   simulationData: QuadSimulationData
+  /** Project-scope fractional sprints required from a day-level run; when present the
+   *  project scope is evaluated at the target date itself. Milestones stay sprint-level. */
+  interpolatedData?: QuadInterpolatedData | null
   /** Per-milestone results+sim-data. Null when the project has no milestones or
    *  when sim hasn't run yet — milestone scope falls back to the empty state. */
   milestoneResultsState: MilestoneResults | null
@@ -37,6 +41,10 @@ interface DeadlineProbabilityPanelProps {
   milestoneCompletionInfo: MilestoneCompletionInfo[]
   forecastStartDate: string
   sprintCadenceWeeks: number
+  /** The project's holidays; sprint finish dates step back from them */
+  nonWorkingDays?: NonWorkingDays
+  /** The project's working days of the week; omitted for Mon-Fri */
+  workWeek?: WorkWeek
   completedSprintCount: number
   unitOfMeasure: string
   projectName: string
@@ -49,21 +57,24 @@ interface DeadlineProbabilityPanelProps {
 const labelClass =
   'flex items-end mb-1 text-sm font-semibold text-spert-text-secondary min-h-[1.75rem]'
 
-/** Narrative routing. Cases 1 + 2 require a non-null `selectedProbability`;
- *  cases 3 + 4 ignore it and display 0% deterministically. */
-type NarrativeCase = 'empty' | 'case1' | 'case2' | 'case3' | 'case4'
+/** Narrative routing. Cases 1 + 2 and the day-level case require a non-null
+ *  `selectedProbability`; cases 3 + 4 ignore it and display 0% deterministically. */
+type NarrativeCase = 'empty' | 'case1' | 'case2' | 'case3' | 'case4' | 'dayLevel'
 
 function determineNarrativeCase(
   targetDate: string,
   forecastStartDate: string,
   sprintAtDate: SprintAtDate | null,
   selectedProbability: number | null,
+  isDayLevel: boolean,
 ): NarrativeCase {
   if (!isValidDateRange(targetDate, false)) return 'empty'
   if (!isValidDateRange(forecastStartDate, false)) return 'empty'
   // Resolve cases 3 + 4 BEFORE the probability check — they display 0%
   // regardless of whether simulation data is present for the current scope.
   if (targetDate < forecastStartDate) return 'case3'
+  // Day-level trials can finish inside the first forecast sprint, so case 4 never applies
+  if (isDayLevel) return selectedProbability === null ? 'empty' : 'dayLevel'
   if (!sprintAtDate || sprintAtDate.sprintCount === 0) return 'case4'
   // Cases 1 + 2 require simulation data for the active scope. The milestone-
   // deletion race frame and the "milestone sim not yet computed" frame both
@@ -76,11 +87,14 @@ export function DeadlineProbabilityPanel({
   targetDate,
   onTargetDateChange,
   simulationData,
+  interpolatedData,
   milestoneResultsState,
   milestones,
   milestoneCompletionInfo,
   forecastStartDate,
   sprintCadenceWeeks,
+  nonWorkingDays,
+  workWeek,
   completedSprintCount,
   unitOfMeasure,
   projectName,
@@ -146,6 +160,9 @@ export function DeadlineProbabilityPanel({
     return milestones.findIndex((m) => m.id === effectiveScope)
   }, [effectiveScope, milestones])
 
+  // Day-level data covers the project scope only
+  const dayLevelData = effectiveScope === PROJECT_SCOPE ? (interpolatedData ?? null) : null
+
   // Per-distribution sortedSprintsRequired arrays for the active scope.
   // Project-scope reads from `simulationData` directly; milestone-scope reads
   // from `milestoneResultsState.milestoneSimulationData[milestoneIdx]`.
@@ -153,15 +170,17 @@ export function DeadlineProbabilityPanel({
   // Staleness note: these arrays only update on Run Forecast. The panel reads
   // them as-is, matching PercentileSelector and ForecastSummary's behavior —
   // the date input is reactive but the underlying distribution is not.
-  const activeSortedData = useMemo((): Partial<Record<DistributionType, number[]>> => {
+  const activeSortedData = useMemo((): Partial<Record<DistributionType, ArrayLike<number>>> => {
     if (effectiveScope === PROJECT_SCOPE) {
+      const data = dayLevelData ?? simulationData
       return {
-        truncatedNormal: simulationData.truncatedNormal,
-        lognormal: simulationData.lognormal,
-        gamma: simulationData.gamma,
-        bootstrap: simulationData.bootstrap ?? undefined,
-        triangular: simulationData.triangular,
-        uniform: simulationData.uniform,
+        truncatedNormal: data.truncatedNormal,
+        lognormal: data.lognormal,
+        gamma: data.gamma,
+        bootstrap: data.bootstrap ?? undefined,
+        triangular: data.triangular,
+        pert: data.pert,
+        uniform: data.uniform,
       }
     }
     if (milestoneIdx < 0) return {}
@@ -173,29 +192,40 @@ export function DeadlineProbabilityPanel({
       gamma: msData.gamma,
       bootstrap: msData.bootstrap ?? undefined,
       triangular: msData.triangular,
+      pert: msData.pert,
       uniform: msData.uniform,
     }
-  }, [effectiveScope, simulationData, milestoneResultsState, milestoneIdx])
+  }, [effectiveScope, simulationData, dayLevelData, milestoneResultsState, milestoneIdx])
 
   const sprintAtDate = useMemo((): SprintAtDate | null => {
     if (!isValidDateRange(targetDate, false)) return null
     if (!isValidDateRange(forecastStartDate, false)) return null
-    return targetDateToSprintCount(targetDate, forecastStartDate, sprintCadenceWeeks)
-  }, [targetDate, forecastStartDate, sprintCadenceWeeks])
+    return targetDateToSprintCount(targetDate, forecastStartDate, sprintCadenceWeeks, nonWorkingDays, workWeek)
+  }, [targetDate, forecastStartDate, sprintCadenceWeeks, nonWorkingDays, workWeek])
+
+  // The sprint count trials must finish within: whole sprints, or at day level the
+  // fractional count reaching the target date itself
+  const isDayLevel = dayLevelData !== null
+  const deadlineSprints = useMemo((): number | null => {
+    if (!sprintAtDate) return null
+    return isDayLevel
+      ? targetDateToFractionalSprints(targetDate, forecastStartDate, sprintCadenceWeeks, nonWorkingDays, workWeek)
+      : sprintAtDate.sprintCount
+  }, [sprintAtDate, isDayLevel, targetDate, forecastStartDate, sprintCadenceWeeks, nonWorkingDays, workWeek])
 
   const perDistributionProbabilities = useMemo((): Partial<
     Record<DistributionType, DeadlineProbabilityResult>
   > => {
-    if (!sprintAtDate) return {}
+    if (deadlineSprints === null) return {}
     const result: Partial<Record<DistributionType, DeadlineProbabilityResult>> = {}
     for (const dist of visibleDistributions) {
       const sorted = activeSortedData[dist]
       if (sorted) {
-        result[dist] = calculateDeadlineProbability(sorted, sprintAtDate.sprintCount)
+        result[dist] = calculateDeadlineProbability(sorted, deadlineSprints)
       }
     }
     return result
-  }, [sprintAtDate, visibleDistributions, activeSortedData])
+  }, [deadlineSprints, visibleDistributions, activeSortedData])
 
   // Cap footnote is shown when ANY distribution capped — not just the selected
   // one — because the footnote explains a property of the methodology, not of
@@ -231,6 +261,7 @@ export function DeadlineProbabilityPanel({
     forecastStartDate,
     sprintAtDate,
     selectedProbability,
+    isDayLevel,
   )
 
   // Absolute sprint number for display. Hero callout shows date only; this
@@ -386,6 +417,16 @@ export function DeadlineProbabilityPanel({
             </p>
           )}
 
+          {narrativeCase === 'dayLevel' && (
+            <p aria-live="polite" className="text-sm text-spert-text dark:text-gray-100 leading-relaxed">
+              There is {indefiniteArticle(selectedProbability!)}{' '}
+              <strong className="text-spert-blue">{selectedProbability!}%</strong>{' '}
+              probability that <strong>{displayName}</strong> will finish the{' '}
+              {backlogForScope.toLocaleString()} {unitOfMeasure} backlog by{' '}
+              <strong className="text-spert-blue">{formatDateLong(targetDate)}</strong>.
+            </p>
+          )}
+
           {narrativeCase === 'case3' && (
             <p aria-live="polite" className="text-sm text-spert-text dark:text-gray-100 leading-relaxed">
               Your{' '}
@@ -405,8 +446,8 @@ export function DeadlineProbabilityPanel({
             </p>
           )}
 
-          {/* Per-distribution probability table — only for cases 1 + 2 */}
-          {(narrativeCase === 'case1' || narrativeCase === 'case2') && (
+          {/* Per-distribution probability table — only for cases 1 + 2 and day level */}
+          {(narrativeCase === 'case1' || narrativeCase === 'case2' || narrativeCase === 'dayLevel') && (
             <div className="overflow-x-auto">
               <table className="text-sm border-collapse" style={{ tableLayout: 'fixed' }}>
                 <colgroup>
@@ -455,6 +496,13 @@ export function DeadlineProbabilityPanel({
             </p>
           )}
 
+          {narrativeCase === 'dayLevel' && (
+            <p className="text-xs text-spert-text-muted dark:text-gray-400 italic">
+              Day-level dates: probability counts the trials whose backlog runs out on a
+              working day on or before your target.
+            </p>
+          )}
+
           {anyWasCapped && (
             <p className="text-xs text-spert-text-muted dark:text-gray-400 italic">
               Forecast caps probability at 99% — no completion date can be predicted with
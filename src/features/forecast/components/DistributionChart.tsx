@@ -22,23 +22,29 @@ import { COLORS } from '@/shared/lib/colors'
 import { type ChartFontSize, CHART_FONT_SIZES } from '../types'
 import { mergeDistributions } from '../lib/cdf'
 import type { Milestone, ForecastMode } from '@/shared/types'
+import type { NonWorkingDays, WorkWeek } from '@/shared/lib/dates'
 import type { MilestoneCompletionInfo } from '../lib/milestones'
 import { ChartToolbar } from './ChartToolbar'
 
 interface DistributionChartProps {
   // null when the user has disabled the distribution via Settings ("Statistical methods to show").
   // The chart silently drops the corresponding <Line> in that case.
-  truncatedNormal: number[] | null
-  lognormal: number[] | null
-  gamma: number[] | null
-  bootstrap: number[] | null
-  triangular: number[] | null
-  uniform: number[] | null
+  truncatedNormal: ArrayLike<number> | null
+  lognormal: ArrayLike<number> | null
+  gamma: ArrayLike<number> | null
+  bootstrap: ArrayLike<number> | null
+  triangular: ArrayLike<number> | null
+  pert: ArrayLike<number> | null
+  uniform: ArrayLike<number> | null
   forecastMode: ForecastMode
   customPercentile: number
   startDate: string
   sprintCadenceWeeks: number
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
   completedSprintCount: number
+  /** The series are fractional sprint counts from a day-level run */
+  interpolated?: boolean
   chartRef?: RefObject<HTMLDivElement | null>
   fontSize?: ChartFontSize
   onFontSizeChange?: (size: ChartFontSize) => void
@@ -56,12 +62,16 @@ export function DistributionChart({
   gamma,
   bootstrap,
   triangular,
+  pert,
   uniform,
   forecastMode,
   customPercentile,
   startDate,
   sprintCadenceWeeks,
+  nonWorkingDays,
+  workWeek,
   completedSprintCount,
+  interpolated = false,
   chartRef,
   fontSize = 'small',
   onFontSizeChange,
@@ -82,11 +92,14 @@ export function DistributionChart({
       bootstrap,
       startDate,
       sprintCadenceWeeks,
-      // triangular/uniform are optional (undefined) in mergeDistributions; coerce null to undefined
+      // triangular/uniform/pert are optional (undefined) in mergeDistributions; coerce null to undefined
       triangular ?? undefined,
       uniform ?? undefined,
+      pert ?? undefined,
+      nonWorkingDays,
+      workWeek,
     ),
-    [truncatedNormal, lognormal, gamma, bootstrap, triangular, uniform, startDate, sprintCadenceWeeks]
+    [truncatedNormal, lognormal, gamma, bootstrap, triangular, pert, uniform, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek]
   )
 
   const hasBootstrap = bootstrap !== null
@@ -137,7 +150,9 @@ export function DistributionChart({
 
           <div ref={chartRef} className="bg-white dark:bg-gray-800 p-2">
             <p className="text-xs text-muted-foreground mb-4">
-              Shows the probability of completing the backlog within a given number of sprints.
+              {interpolated
+                ? 'Shows the probability of completing the backlog by each working day.'
+                : 'Shows the probability of completing the backlog within a given number of sprints.'}{' '}
               The dashed line marks your selected P{customPercentile} confidence level.
             </p>
             <ResponsiveContainer width="100%" height={340}>
@@ -148,7 +163,8 @@ export function DistributionChart({
                 tick={(props) => {
                   const { x, y, payload } = props
                   const dateLabel = sprintToDate.get(payload.value) || ''
-                  const absoluteSprint = payload.value + completedSprintCount
+                  // Fractional (day-level) counts fall inside sprint ⌈x⌉
+                  const absoluteSprint = Math.ceil(payload.value) + completedSprintCount
                   return (
                     <g transform={`translate(${x},${y})`}>
                       <text x={0} y={0} dy={12} textAnchor="middle" fontSize={fontSizes.axisTick} fill={COLORS.text.muted}>
@@ -173,7 +189,7 @@ export function DistributionChart({
                 formatter={(value) => [typeof value === 'number' ? `${value.toFixed(1)}%` : value, '']}
                 labelFormatter={(sprints) => {
                   const dateLabel = sprintToDate.get(sprints as number) || ''
-                  const absoluteSprint = (sprints as number) + completedSprintCount
+                  const absoluteSprint = Math.ceil(sprints as number) + completedSprintCount
                   return `Sprint ${absoluteSprint} (${dateLabel})`
                 }}
                 contentStyle={{ fontSize: fontSizes.axisTick }}
@@ -241,6 +257,16 @@ export function DistributionChart({
                   strokeWidth={2.5}
                 />
               )}
+              {pert != null && (
+                <Line
+                  type="stepAfter"
+                  dataKey="pert"
+                  name="PERT"
+                  stroke={CHART_COLORS.pert}
+                  dot={false}
+                  strokeWidth={2.5}
+                />
+              )}
               {isSubjective && uniform != null && (
                 <Line
                   type="stepAfter"
@@ -0,0 +1,86 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+
+import { ForecastAccuracyPanel } from './ForecastAccuracyPanel'
+import type { ForecastSnapshot } from '@/shared/types'
+
+const TIMESTAMP = '2026-01-01T00:00:00Z'
+
+function makeSnapshot(id: string, snapshotDate: string, p50: string, p85: string, p95: string): ForecastSnapshot {
+  return {
+    id,
+    snapshotDate,
+    completedSprintCount: 4,
+    inputs: {
+      forecastMode: 'history', remainingBacklog: 100, velocityMean: 20, velocityStdDev: 4,
+      startDate: '2026-03-02', sprintCadenceWeeks: 2, trialCount: 10000, adjustmentNames: [],
+    },
+    finishDates: { lognormal: { p50, p85, p95 } },
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+  }
+}
+
+const SNAPSHOTS = [
+  { ...makeSnapshot('a', '2026-03-02', '2026-06-12', '2026-06-26', '2026-07-10'), note: 'Kickoff' },
+  makeSnapshot('b', '2026-03-16', '2026-06-19', '2026-07-10', '2026-07-24'),
+]
+
+type Props = Parameters<typeof ForecastAccuracyPanel>[0]
+function renderPanel(overrides: Partial<Props> = {}) {
+  const defaults: Props = {
+    snapshots: SNAPSHOTS,
+    actualCompletion: null,
+    canSave: true,
+    isSimulating: false,
+    onSave: () => {},
+    onDelete: () => {},
+  }
+  render(<ForecastAccuracyPanel {...defaults} {...overrides} />)
+  fireEvent.click(screen.getByRole('button', { name: /Forecast Accuracy/ }))
+}
+
+describe('ForecastAccuracyPanel', () => {
+  it('saves a snapshot with a note once a forecast has run', () => {
+    const onSave = vi.fn()
+    renderPanel({ onSave })
+    fireEvent.change(screen.getByLabelText('Snapshot note'), { target: { value: 'Sprint review' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Save Snapshot' }))
+    expect(onSave).toHaveBeenCalledWith('Sprint review')
+  })
+
+  it('disables saving without a forecast', () => {
+    renderPanel({ canSave: false, snapshots: [] })
+    expect((screen.getByRole('button', { name: 'Save Snapshot' }) as HTMLButtonElement).disabled).toBe(true)
+    expect(screen.getByText('No snapshots saved.')).toBeTruthy()
+  })
+
+  it('lists snapshots with the P85 slip since the previous one', () => {
+    renderPanel()
+    expect(screen.getByText('Kickoff')).toBeTruthy()
+    expect(screen.getByText('(+14 days)')).toBeTruthy()
+    expect(screen.getByText(/Calibration is scored once/)).toBeTruthy()
+  })
+
+  it('scores calibration once the project has finished', () => {
+    renderPanel({ actualCompletion: { sprintNumber: 9, finishDate: '2026-07-03' } })
+    expect(screen.getByText(/Finished .* \(Sprint 9\)/)).toBeTruthy()
+    const row = screen.getAllByText('Lognormal').find((el) => el.tagName === 'TD')!.closest('tr')!
+    // P50 held for neither snapshot, P85 for the second only, P95 for both
+    expect(row.textContent).toContain('0%')
+    expect(row.textContent).toContain('50%')
+    expect(row.textContent).toContain('100%')
+  })
+
+  it('confirms before deleting a snapshot', () => {
+    const onDelete = vi.fn()
+    renderPanel({ onDelete })
+    fireEvent.click(screen.getAllByRole('button', { name: /Delete snapshot from/ })[0])
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }))
+    expect(onDelete).toHaveBeenCalledWith('a')
+  })
+})
@@ -0,0 +1,408 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useId, useMemo, useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts'
+import { cn } from '@/lib/utils'
+import { COLORS } from '@/shared/lib/colors'
+import { formatDate, formatDateCompact } from '@/shared/lib/dates'
+import { ConfirmDialog } from '@/shared/components/ConfirmDialog'
+import { TrashIconButton } from '@/shared/components/TrashIconButton'
+import { useSettingsStore } from '@/shared/state/settings-store'
+import type { ForecastSnapshot } from '@/shared/types'
+import { DISTRIBUTION_LABELS, type DistributionType } from '../types'
+import {
+  buildSlipChartData,
+  dateToDayNumber,
+  dayNumberToDate,
+  scoreCalibration,
+  snapshotDistributions,
+  snapshotMilestoneNames,
+  type ActualCompletion,
+  type SnapshotPercentileKey,
+} from '../lib/forecast-accuracy'
+
+interface ForecastAccuracyPanelProps {
+  snapshots: ForecastSnapshot[]
+  /** Null while the project has work remaining */
+  actualCompletion: ActualCompletion | null
+  /** A forecast is on screen to snapshot */
+  canSave: boolean
+  isSimulating: boolean
+  onSave: (note: string) => void
+  onDelete: (snapshotId: string) => void
+}
+
+// Same label style as WorkByDatePanel / ForecastForm.
+const labelClass =
+  'flex items-end mb-1 text-sm font-semibold text-spert-text-secondary min-h-[1.75rem]'
+
+const selectClass =
+  'text-sm border border-spert-border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 dark:text-gray-100'
+
+const primaryButtonClass =
+  'px-3 py-1.5 text-sm font-medium text-white bg-spert-blue rounded cursor-pointer hover:opacity-90 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed'
+
+const PERCENTILE_LINES: { key: SnapshotPercentileKey; name: string; color: string; dashed?: boolean }[] = [
+  { key: 'p50', name: 'P50', color: COLORS.brand.blue },
+  { key: 'p85', name: 'P85', color: COLORS.status.warningDark },
+  { key: 'p95', name: 'P95', color: COLORS.text.light, dashed: true },
+]
+
+// Select value for the whole-backlog scope (milestone scopes use the milestone name)
+const OVERALL_SCOPE = ''
+
+function formatSlip(days: number): string {
+  if (days === 0) return 'no change'
+  return `${days > 0 ? '+' : '−'}${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'}`
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`
+}
+
+export function ForecastAccuracyPanel({
+  snapshots,
+  actualCompletion,
+  canSave,
+  isSimulating,
+  onSave,
+  onDelete,
+}: ForecastAccuracyPanelProps) {
+  // Collapsed by default, like the other forecast panels.
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [note, setNote] = useState('')
+  const [pendingDelete, setPendingDelete] = useState<ForecastSnapshot | null>(null)
+
+  const distributionsEnabled = useSettingsStore((s) => s.distributionsEnabled)
+  const distributions = useMemo(() => {
+    const enabled = snapshotDistributions(snapshots, distributionsEnabled)
+    return enabled.length > 0 ? enabled : snapshotDistributions(snapshots)
+  }, [snapshots, distributionsEnabled])
+  const [selectedDistribution, setSelectedDistribution] = useState<DistributionType>('lognormal')
+  const effectiveDistribution: DistributionType = distributions.includes(selectedDistribution)
+    ? selectedDistribution
+    : (distributions[0] ?? selectedDistribution)
+
+  const milestoneNames = useMemo(() => snapshotMilestoneNames(snapshots), [snapshots])
+  const [selectedScope, setSelectedScope] = useState(OVERALL_SCOPE)
+  const effectiveScope = milestoneNames.includes(selectedScope) ? selectedScope : OVERALL_SCOPE
+
+  const formId = useId()
+  const noteInputId = `${formId}-note`
+  const distSelectId = `${formId}-dist`
+  const scopeSelectId = `${formId}-scope`
+
+  const slipData = useMemo(
+    () => buildSlipChartData(snapshots, effectiveDistribution, effectiveScope || null),
+    [snapshots, effectiveDistribution, effectiveScope]
+  )
+  const calibration = useMemo(
+    () => actualCompletion ? scoreCalibration(snapshots, actualCompletion.finishDate, distributions) : [],
+    [snapshots, actualCompletion, distributions]
+  )
+  // The actual finish is a whole-project date; it only belongs on the overall chart.
+  const actualDay = actualCompletion && effectiveScope === OVERALL_SCOPE
+    ? dateToDayNumber(actualCompletion.finishDate)
+    : null
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSave || isSimulating) return
+    onSave(note)
+    setNote('')
+  }
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 flex items-center gap-2 text-left hover:bg-muted/50 transition-colors"
+        aria-expanded={isExpanded}
+        aria-controls="forecast-accuracy-panel"
+      >
+        <span
+          className={cn(
+            'inline-block text-[10px] text-muted-foreground transition-transform duration-200',
+            isExpanded && 'rotate-90',
+          )}
+          aria-hidden="true"
+        >
+          ▶
+        </span>
+        <h3 className="text-sm font-medium text-muted-foreground">Forecast Accuracy</h3>
+      </button>
+
+      {isExpanded && (
+        <div id="forecast-accuracy-panel" className="px-4 pb-4 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Snapshot each forecast you publish. Snapshots show how the P50/P85 dates drifted
+            sprint over sprint and, once a sprint records zero remaining backlog, how often the
+            actual finish came in on or before each percentile.
+          </p>
+
+          {/* Save row */}
+          <form onSubmit={handleSave} className="flex flex-wrap gap-4 items-end">
+            <div className="min-w-[220px]">
+              <label htmlFor={noteInputId} className={labelClass}>
+                Snapshot note
+              </label>
+              <input
+                id={noteInputId}
+                name="snapshotNote"
+                type="text"
+                value={note}
+                maxLength={200}
+                placeholder="e.g., Steering committee update"
+                onChange={(e) => setNote(e.target.value)}
+                className="w-full text-sm border border-spert-border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 dark:text-gray-100"
+              />
+            </div>
+            <div>
+              <button type="submit" disabled={!canSave || isSimulating} className={primaryButtonClass}>
+                Save Snapshot
+              </button>
+            </div>
+            {!canSave && (
+              <span className="text-xs text-spert-text-muted self-center">
+                Run a forecast to snapshot it.
+              </span>
+            )}
+          </form>
+
+          {snapshots.length === 0 ? (
+            <p className="text-sm italic text-spert-text-muted">No snapshots saved.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-4 items-end">
+                <div className="min-w-[160px]">
+                  <label htmlFor={distSelectId} className={labelClass}>
+                    Distribution
+                  </label>
+                  <select
+                    id={distSelectId}
+                    name="accuracyDistribution"
+                    value={effectiveDistribution}
+                    onChange={(e) => setSelectedDistribution(e.target.value as DistributionType)}
+                    className={selectClass}
+                  >
+                    {distributions.map((d) => (
+                      <option key={d} value={d}>
+                        {DISTRIBUTION_LABELS[d]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {milestoneNames.length > 0 && (
+                  <div className="min-w-[160px]">
+                    <label htmlFor={scopeSelectId} className={labelClass}>
+                      Scope
+                    </label>
+                    <select
+                      id={scopeSelectId}
+                      name="accuracyScope"
+                      value={effectiveScope}
+                      onChange={(e) => setSelectedScope(e.target.value)}
+                      className={selectClass}
+                    >
+                      <option value={OVERALL_SCOPE}>Whole backlog</option>
+                      {milestoneNames.map((name) => (
+                        <option key={name} value={name}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              {/* Slip chart: forecast finish dates by snapshot */}
+              {slipData.length > 1 && (
+                <div className="bg-white dark:bg-gray-800 p-2">
+                  <ResponsiveContainer width="100%" height={300}>
+                    <LineChart data={slipData} margin={{ top: 5, right: 30, left: 10, bottom: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke={COLORS.border.light} />
+                      <XAxis
+                        dataKey="snapshotDate"
+                        tickFormatter={(date: string) => formatDateCompact(date)}
+                        tick={{ fontSize: 11, fill: COLORS.text.muted }}
+                        axisLine={{ stroke: '#e5e7eb' }}
+                        interval="preserveStartEnd"
+                        label={{ value: 'Snapshot taken', position: 'insideBottom', offset: -12, fontSize: 12 }}
+                      />
+                      <YAxis
+                        type="number"
+                        domain={['dataMin - 7', 'dataMax + 7']}
+                        tickFormatter={(day: number) => formatDateCompact(dayNumberToDate(day))}
+                        tick={{ fontSize: 11 }}
+                        width={60}
+                      />
+                      <Tooltip
+                        formatter={(value) => (typeof value === 'number' ? formatDate(dayNumberToDate(value)) : value)}
+                        labelFormatter={(date) => `Snapshot ${formatDate(date as string)}`}
+                        contentStyle={{ fontSize: 11 }}
+                      />
+                      <Legend verticalAlign="top" wrapperStyle={{ fontSize: 11 }} />
+                      {PERCENTILE_LINES.map((line) => (
+                        <Line
+                          key={line.key}
+                          type="linear"
+                          dataKey={line.key}
+                          name={line.name}
+                          stroke={line.color}
+                          strokeWidth={2}
+                          strokeDasharray={line.dashed ? '5 3' : undefined}
+                          dot={{ r: 3 }}
+                          connectNulls
+                        />
+                      ))}
+                      {actualDay !== null && (
+                        <ReferenceLine
+                          y={actualDay}
+                          stroke={COLORS.status.successDark}
+                          strokeDasharray="4 4"
+                          label={{ value: 'Actual', position: 'right', fontSize: 11, fill: COLORS.status.successDark }}
+                        />
+                      )}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+
+              {/* Snapshot list */}
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse text-sm tabular-nums">
+                  <thead>
+                    <tr className="border-b-2 border-spert-border-light">
+                      <th className="p-2 text-left font-semibold text-spert-text-secondary">Taken</th>
+                      <th className="p-2 text-left font-semibold text-spert-text-secondary">Sprints done</th>
+                      <th className="p-2 text-left font-semibold text-spert-text-secondary">P50</th>
+                      <th className="p-2 text-left font-semibold text-spert-text-secondary">P85</th>
+                      <th className="p-2 text-left font-semibold text-spert-text-secondary">P95</th>
+                      <th className="p-2 text-left font-semibold text-spert-text-secondary">Note</th>
+                      <th className="p-2 text-right font-semibold text-spert-text-secondary">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {snapshots.map((snapshot, i) => {
+                      const point = slipData[i]
+                      return (
+                        <tr key={snapshot.id} className="border-b border-spert-border-light">
+                          <td className="p-2">{formatDate(snapshot.snapshotDate)}</td>
+                          <td className="p-2">{snapshot.completedSprintCount}</td>
+                          <td className="p-2">{point?.p50 != null ? formatDate(dayNumberToDate(point.p50)) : '—'}</td>
+                          <td className="p-2">
+                            {point?.p85 != null ? formatDate(dayNumberToDate(point.p85)) : '—'}
+                            {point?.p85SlipDays != null && (
+                              <span
+                                className={cn(
+                                  'ml-1 text-xs',
+                                  point.p85SlipDays > 0
+                                    ? 'text-amber-600 dark:text-amber-400'
+                                    : point.p85SlipDays < 0
+                                      ? 'text-emerald-600 dark:text-emerald-400'
+                                      : 'text-spert-text-muted',
+                                )}
+                              >
+                                ({formatSlip(point.p85SlipDays)})
+                              </span>
+                            )}
+                          </td>
+                          <td className="p-2">{point?.p95 != null ? formatDate(dayNumberToDate(point.p95)) : '—'}</td>
+                          <td className="p-2 text-[0.8rem] text-spert-text-secondary">{snapshot.note ?? ''}</td>
+                          <td className="whitespace-nowrap p-2 text-right">
+                            <TrashIconButton
+                              onClick={() => setPendingDelete(snapshot)}
+                              ariaLabel={`Delete snapshot from ${formatDate(snapshot.snapshotDate)}`}
+                              title="Delete snapshot"
+                            />
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Calibration: scored once the project has finished */}
+              {actualCompletion ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-spert-text dark:text-gray-100">
+                    Finished {formatDate(actualCompletion.finishDate)} (Sprint {actualCompletion.sprintNumber}).
+                  </p>
+                  {calibration.length === 0 ? (
+                    <p className="text-sm italic text-spert-text-muted">
+                      No snapshot was taken before the project finished.
+                    </p>
+                  ) : (
+                    <table className="w-full text-sm tabular-nums">
+                      <thead>
+                        <tr className="text-left text-xs text-spert-text-muted">
+                          <th className="py-1 pr-4 font-medium">Distribution</th>
+                          <th className="py-1 pr-4 font-medium">Snapshots</th>
+                          <th className="py-1 pr-4 font-medium">Finished by P50</th>
+                          <th className="py-1 pr-4 font-medium">Finished by P85</th>
+                          <th className="py-1 pr-4 font-medium">Finished by P95</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {calibration.map((row) => (
+                          <tr key={row.distribution} className="border-t border-border dark:border-gray-700">
+                            <td className="py-1 pr-4 text-spert-text-secondary dark:text-gray-300">
+                              {DISTRIBUTION_LABELS[row.distribution]}
+                            </td>
+                            <td className="py-1 pr-4">{row.snapshotCount}</td>
+                            <td className="py-1 pr-4">{formatRate(row.hitRates.p50)}</td>
+                            <td className="py-1 pr-4">{formatRate(row.hitRates.p85)}</td>
+                            <td className="py-1 pr-4">{formatRate(row.hitRates.p95)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  <p className="text-xs text-spert-text-muted dark:text-gray-400 italic">
+                    A well-calibrated forecast finishes by its P85 date in about 85% of snapshots.
+                    Much lower means the forecasts were optimistic; close to 100% at P50 means they
+                    were padded. Snapshots taken after the finish are not scored.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-xs text-spert-text-muted dark:text-gray-400 italic">
+                  Calibration is scored once a sprint records a remaining backlog of 0.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={pendingDelete !== null}
+        title="Delete Snapshot"
+        message={`Delete the snapshot from ${pendingDelete ? formatDate(pendingDelete.snapshotDate) : ''}?`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onConfirm={() => {
+          if (pendingDelete) onDelete(pendingDelete.id)
+          setPendingDelete(null)
+        }}
+        onCancel={() => setPendingDelete(null)}
+        variant="danger"
+      />
+    </div>
+  )
+}
@@ -9,12 +9,26 @@ import { cn } from '@/lib/utils'
 import { HelpTooltip } from '@/shared/components/HelpTooltip'
 import type { ScopeChangeStats } from '../lib/statistics'
 import type { Sprint, ForecastMode } from '@/shared/types'
+import type { CadenceChanges } from '@/shared/lib/dates'
 import { VelocitySparkline } from './VelocitySparkline'
 import { ScopeGrowthSection } from './ScopeGrowthSection'
 import { ForecastModeToggle } from './ForecastModeToggle'
 import { SubjectiveInputs } from './SubjectiveInputs'
 import { VolatilityAdjuster } from './VolatilityAdjuster'
-import { DEFAULT_VOLATILITY_MULTIPLIER } from '../constants'
+import { AutocorrelationSection } from './AutocorrelationSection'
+import { VelocityTrendSection } from './VelocityTrendSection'
+import { BootstrapWeightingSection } from './BootstrapWeightingSection'
+import { CapacitySection } from './CapacitySection'
+import { ThroughputSection } from './ThroughputSection'
+import { DayLevelDatesSection } from './DayLevelDatesSection'
+import { PertSection } from './PertSection'
+import type { CapacityBaseline } from '../lib/capacity'
+import type { VelocityTrendAssessment } from '../lib/velocity-trend'
+import type { BootstrapWeightingMode } from '../lib/bootstrap-weighting'
+import type { ScopeGrowthSampling } from '../lib/scope-growth'
+import type { PertInputs } from '../lib/pert'
+import type { SimulationProgress } from '../hooks/useSimulationWorker'
+import { DEFAULT_VOLATILITY_MULTIPLIER, MIN_SPRINTS_FOR_BOOTSTRAP } from '../constants'
 
 interface ForecastFormProps {
   remainingBacklog: string
@@ -22,6 +36,8 @@ interface ForecastFormProps {
   velocityStdDev: string
   startDate: string
   sprintCadenceWeeks: number | undefined
+  /** Cadence changes after the next sprint, which forecast sprints don't follow */
+  laterCadenceChanges?: CadenceChanges
   calculatedMean: number
   calculatedStdDev: number
   effectiveMean: number
@@ -36,6 +52,7 @@ interface ForecastFormProps {
   modelScopeGrowth: boolean
   scopeGrowthMode: 'calculated' | 'custom'
   customScopeGrowth: string
+  scopeGrowthSampling: ScopeGrowthSampling
   forecastMode: ForecastMode
   includedSprintCount: number
   velocityEstimate: string
@@ -46,11 +63,38 @@ interface ForecastFormProps {
   onModelScopeGrowthChange: (value: boolean) => void
   onScopeGrowthModeChange: (mode: 'calculated' | 'custom') => void
   onCustomScopeGrowthChange: (value: string) => void
+  onScopeGrowthSamplingChange: (sampling: ScopeGrowthSampling) => void
   onRemainingBacklogChange: (value: string) => void
   onVelocityMeanChange: (value: string) => void
   onVelocityStdDevChange: (value: string) => void
   volatilityMultiplier: number
   onVolatilityMultiplierChange: (multiplier: number) => void
+  estimatedAutocorrelation: number
+  canModelAutocorrelation: boolean
+  modelAutocorrelation: boolean
+  onModelAutocorrelationChange: (value: boolean) => void
+  velocityTrend: VelocityTrendAssessment
+  projectVelocityTrend: boolean
+  onProjectVelocityTrendChange: (value: boolean) => void
+  bootstrapWeightingMode: BootstrapWeightingMode
+  bootstrapHalfLife: number
+  bootstrapWindow: number
+  onBootstrapWeightingModeChange: (mode: BootstrapWeightingMode) => void
+  onBootstrapHalfLifeChange: (value: number) => void
+  onBootstrapWindowChange: (value: number) => void
+  capacityBaseline: CapacityBaseline | null
+  plannedCapacity: number[] | null
+  throughputMode: boolean
+  fractionalSprintCount: number
+  onThroughputModeChange: (value: boolean) => void
+  dayLevelDates: boolean
+  hasMilestones: boolean
+  onDayLevelDatesChange: (value: boolean) => void
+  showPertEstimate: boolean
+  pertInputs: PertInputs
+  pertEstimateError: string | null
+  empiricalPert: PertInputs | null
+  onPertInputsChange: (next: Partial<PertInputs>) => void
   onRunForecast: () => void
   canRun: boolean
   /**
@@ -61,6 +105,9 @@ interface ForecastFormProps {
    */
   runForecastBlockedReason: string | null
   isSimulating: boolean
+  /** Progress of the running simulation; null when idle */
+  simulationProgress: SimulationProgress | null
+  onCancelSimulation: () => void
 }
 
 // Shared label style: fixed height for consistent alignment, text pinned to bottom
@@ -68,12 +115,21 @@ const labelClass = 'flex items-end mb-1 text-sm font-semibold text-spert-text-se
 // Shared helper text style: fixed height for consistent bottom alignment
 const helperClass = 'text-xs text-spert-text-muted mt-1 h-4'
 
+/** Run button label while simulating: percent done, or trials so far while converging */
+function simulationProgressLabel(progress: SimulationProgress | null): string {
+  if (!progress) return 'Running…'
+  if (progress.phase === 'converging') return `Converging… ${(progress.completedTrials / 1000).toFixed(0)}k`
+  const percent = progress.totalTrials > 0 ? Math.floor((progress.completedTrials / progress.totalTrials) * 100) : 0
+  return `Running… ${percent}%`
+}
+
 export function ForecastForm({
   remainingBacklog,
   velocityMean,
   velocityStdDev,
   startDate,
   sprintCadenceWeeks,
+  laterCadenceChanges = [],
   calculatedMean,
   calculatedStdDev,
   effectiveMean,
@@ -88,6 +144,7 @@ export function ForecastForm({
   modelScopeGrowth,
   scopeGrowthMode,
   customScopeGrowth,
+  scopeGrowthSampling,
   forecastMode,
   includedSprintCount,
   velocityEstimate,
@@ -98,19 +155,55 @@ export function ForecastForm({
   onModelScopeGrowthChange,
   onScopeGrowthModeChange,
   onCustomScopeGrowthChange,
+  onScopeGrowthSamplingChange,
   onRemainingBacklogChange,
   onVelocityMeanChange,
   onVelocityStdDevChange,
   volatilityMultiplier,
   onVolatilityMultiplierChange,
+  estimatedAutocorrelation,
+  canModelAutocorrelation,
+  modelAutocorrelation,
+  onModelAutocorrelationChange,
+  velocityTrend,
+  projectVelocityTrend,
+  onProjectVelocityTrendChange,
+  bootstrapWeightingMode,
+  bootstrapHalfLife,
+  bootstrapWindow,
+  onBootstrapWeightingModeChange,
+  onBootstrapHalfLifeChange,
+  onBootstrapWindowChange,
+  capacityBaseline,
+  plannedCapacity,
+  throughputMode,
+  fractionalSprintCount,
+  onThroughputModeChange,
+  dayLevelDates,
+  hasMilestones,
+  onDayLevelDatesChange,
+  showPertEstimate,
+  pertInputs,
+  pertEstimateError,
+  empiricalPert,
+  onPertInputsChange,
   onRunForecast,
   canRun,
   runForecastBlockedReason,
   isSimulating,
+  simulationProgress,
+  onCancelSimulation,
 }: ForecastFormProps) {
   const isSubjective = forecastMode === 'subjective'
+  const isHistory = forecastMode === 'history'
+  // Capacity mode derives mean/SD per person from the roster, so the fields are read-only
+  const isCapacity = forecastMode === 'capacity'
+  const isDerived = isSubjective || isCapacity
   const [adjusterOpen, setAdjusterOpen] = useState(false)
-  const isAdjusterActive = !isSubjective && adjusterOpen && calculatedStdDev > 0
+  const isAdjusterActive = isHistory && adjusterOpen && calculatedStdDev > 0
+  // Scope growth compares against team velocity: next sprint's expected velocity in capacity mode
+  const nextSprintCapacity = plannedCapacity?.[0]
+  const teamMean = isCapacity && nextSprintCapacity !== undefined ? effectiveMean * nextSprintCapacity : effectiveMean
 
   const handleToggleAdjuster = () => {
     if (adjusterOpen) {
@@ -143,6 +236,7 @@ export function ForecastForm({
         onModeChange={onForecastModeChange}
         includedSprintCount={includedSprintCount}
         calculatedStdDev={calculatedStdDev}
+        canSelectCapacity={capacityBaseline !== null}
       />
       <div className="flex gap-4 items-end flex-wrap">
         {/* Remaining Backlog */}
@@ -198,26 +292,28 @@ export function ForecastForm({
             max="999999"
             step="any"
             value={
-              isSubjective
+              isDerived
                 ? (effectiveMean > 0 ? effectiveMean.toFixed(1) : '')
                 : velocityMean || (calculatedMean > 0 ? calculatedMean.toFixed(1) : '')
             }
             onChange={(e) => onVelocityMeanChange(e.target.value)}
-            disabled={isSubjective}
+            disabled={isDerived}
             className={cn(
               'p-2 text-[0.9rem] border border-spert-border dark:border-gray-600 rounded w-full text-spert-text dark:text-gray-100',
-              isSubjective
+              isDerived
                 ? 'bg-spert-bg-disabled dark:bg-gray-700 cursor-not-allowed'
                 : 'bg-white dark:bg-gray-700'
             )}
             placeholder={isSubjective ? 'From estimate' : (calculatedMean > 0 ? '' : 'No data')}
           />
           <p className={helperClass}>
-            {isSubjective
-              ? (calculatedMean > 0 ? `Calc: ${calculatedMean.toFixed(1)}` : '\u00A0')
-              : calculatedMean > 0
-                ? `Calc: ${calculatedMean.toFixed(1)}`
-                : 'Add sprints to calculate'}
+            {isCapacity
+              ? 'Per person'
+              : isSubjective
+                ? (calculatedMean > 0 ? `Calc: ${calculatedMean.toFixed(1)}` : '\u00A0')
+                : calculatedMean > 0
+                  ? `Calc: ${calculatedMean.toFixed(1)}`
+                  : 'Add sprints to calculate'}
           </p>
         </div>
 
@@ -236,29 +332,31 @@ export function ForecastForm({
             value={
               isAdjusterActive
                 ? effectiveStdDev.toFixed(1)
-                : isSubjective
+                : isDerived
                   ? (effectiveMean > 0 ? effectiveStdDev.toFixed(1) : '')
                   : velocityStdDev || (calculatedStdDev > 0 ? calculatedStdDev.toFixed(1) : '')
             }
             onChange={(e) => onVelocityStdDevChange(e.target.value)}
-            disabled={isSubjective || isAdjusterActive}
+            disabled={isDerived || isAdjusterActive}
             className={cn(
               'p-2 text-[0.9rem] border border-spert-border dark:border-gray-600 rounded w-full text-spert-text dark:text-gray-100',
-              (isSubjective || isAdjusterActive)
+              (isDerived || isAdjusterActive)
                 ? 'bg-spert-bg-disabled dark:bg-gray-700 cursor-not-allowed'
                 : 'bg-white dark:bg-gray-700'
             )}
             placeholder={isSubjective ? (effectiveMean > 0 ? '' : 'From CV') : (calculatedStdDev > 0 ? '' : 'No data')}
           />
           <p className={helperClass}>
-            {isSubjective
-              ? (effectiveMean > 0 ? `From CV: ${effectiveStdDev.toFixed(1)}` : '\u00A0')
-              : isAdjusterActive && volatilityMultiplier !== DEFAULT_VOLATILITY_MULTIPLIER
-                ? `Adj: ${effectiveStdDev.toFixed(1)} (\u00D7${volatilityMultiplier})`
-                : calculatedStdDev > 0
-                  ? `Calc: ${calculatedStdDev.toFixed(1)}`
-                  : 'Need 2+ sprints'}
-            {!isSubjective && calculatedStdDev > 0 && (
+            {isCapacity
+              ? 'Per person'
+              : isSubjective
+                ? (effectiveMean > 0 ? `From CV: ${effectiveStdDev.toFixed(1)}` : '\u00A0')
+                : isAdjusterActive && volatilityMultiplier !== DEFAULT_VOLATILITY_MULTIPLIER
+                  ? `Adj: ${effectiveStdDev.toFixed(1)} (\u00D7${volatilityMultiplier})`
+                  : calculatedStdDev > 0
+                    ? `Calc: ${calculatedStdDev.toFixed(1)}`
+                    : 'Need 2+ sprints'}
+            {isHistory && calculatedStdDev > 0 && (
               <>
                 {' · '}
                 <button
@@ -270,7 +368,7 @@ export function ForecastForm({
                 </button>
               </>
             )}
-            {!isSubjective && hasOverrides && (
+            {isHistory && hasOverrides && (
               <>
                 {' · '}
                 <button
@@ -341,19 +439,35 @@ export function ForecastForm({
                   : 'bg-gray-400 dark:bg-gray-600 cursor-not-allowed scale-100'
             )}
           >
-            {isSimulating ? 'Running…' : 'Run Forecast'}
+            {isSimulating ? simulationProgressLabel(simulationProgress) : 'Run Forecast'}
           </button>
           <p className="h-4 mt-1">
-            {runForecastBlockedReason && (
+            {isSimulating && (
+              <button
+                type="button"
+                onClick={onCancelSimulation}
+                className="text-xs text-spert-text-muted hover:underline"
+              >
+                Cancel
+              </button>
+            )}
+            {!isSimulating && runForecastBlockedReason && (
               <span className="text-xs text-spert-error">
                 {runForecastBlockedReason}
               </span>
             )}
-            {!runForecastBlockedReason && '\u00A0'}
+            {!isSimulating && !runForecastBlockedReason && '\u00A0'}
           </p>
         </div>
       </div>
 
+      {laterCadenceChanges.length > 0 && sprintCadenceWeeks && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 font-medium">
+          Every forecast sprint runs {sprintCadenceWeeks} week{sprintCadenceWeeks > 1 ? 's' : ''}: cadence
+          changes from sprint {laterCadenceChanges[0].fromSprintNumber} on aren&apos;t applied until that sprint is next.
+        </p>
+      )}
+
       {/* Subjective Inputs — shown in subjective mode */}
       {isSubjective && (
         <SubjectiveInputs
@@ -367,6 +481,15 @@ export function ForecastForm({
         />
       )}
 
+      {/* Capacity summary — shown in capacity mode */}
+      {isCapacity && capacityBaseline && (
+        <CapacitySection
+          capacityBaseline={capacityBaseline}
+          plannedCapacity={plannedCapacity}
+          unitOfMeasure={unitOfMeasure}
+        />
+      )}
+
       {/* Volatility Adjuster panel — shown when toggle is open in history mode */}
       {isAdjusterActive && (
         <VolatilityAdjuster
@@ -377,6 +500,68 @@ export function ForecastForm({
         />
       )}
 
+      {/* Bootstrap weighting — history mode once Bootstrap is available */}
+      {isHistory && includedSprintCount >= MIN_SPRINTS_FOR_BOOTSTRAP && (
+        <BootstrapWeightingSection
+          mode={bootstrapWeightingMode}
+          halfLife={bootstrapHalfLife}
+          window={bootstrapWindow}
+          includedSprintCount={includedSprintCount}
+          onModeChange={onBootstrapWeightingModeChange}
+          onHalfLifeChange={onBootstrapHalfLifeChange}
+          onWindowChange={onBootstrapWindowChange}
+        />
+      )}
+
+      {/* Velocity autocorrelation — history mode with enough sprints to estimate ρ */}
+      {isHistory && canModelAutocorrelation && (
+        <AutocorrelationSection
+          estimatedAutocorrelation={estimatedAutocorrelation}
+          includedSprintCount={includedSprintCount}
+          modelAutocorrelation={modelAutocorrelation}
+          onModelAutocorrelationChange={onModelAutocorrelationChange}
+        />
+      )}
+
+      {/* Velocity trend projection — history mode */}
+      {isHistory && (
+        <VelocityTrendSection
+          velocityTrend={velocityTrend}
+          projectVelocityTrend={projectVelocityTrend}
+          unitOfMeasure={unitOfMeasure}
+          onProjectVelocityTrendChange={onProjectVelocityTrendChange}
+        />
+      )}
+
+      {/* Throughput (item count) mode — all forecast modes */}
+      <ThroughputSection
+        throughputMode={throughputMode}
+        effectiveMean={effectiveMean}
+        effectiveStdDev={effectiveStdDev}
+        fractionalSprintCount={fractionalSprintCount}
+        onThroughputModeChange={onThroughputModeChange}
+      />
+
+      {/* Day-level finish dates — all forecast modes */}
+      <DayLevelDatesSection
+        dayLevelDates={dayLevelDates}
+        hasMilestones={hasMilestones}
+        onDayLevelDatesChange={onDayLevelDatesChange}
+      />
+
+      {/* PERT three-point estimate — when PERT is shown, outside capacity mode */}
+      {showPertEstimate && (
+        <PertSection
+          pertInputs={pertInputs}
+          effectiveMean={effectiveMean}
+          effectiveStdDev={effectiveStdDev}
+          unitOfMeasure={unitOfMeasure}
+          error={pertEstimateError}
+          empiricalPert={empiricalPert}
+          onPertInputsChange={onPertInputsChange}
+        />
+      )}
+
       {/* Scope Growth Modeling */}
       {scopeChangeStats && (
         <ScopeGrowthSection
@@ -384,11 +569,13 @@ export function ForecastForm({
           modelScopeGrowth={modelScopeGrowth}
           scopeGrowthMode={scopeGrowthMode}
           customScopeGrowth={customScopeGrowth}
-          effectiveMean={effectiveMean}
+          scopeGrowthSampling={scopeGrowthSampling}
+          effectiveMean={teamMean}
           unitOfMeasure={unitOfMeasure}
           onModelScopeGrowthChange={onModelScopeGrowthChange}
           onScopeGrowthModeChange={onScopeGrowthModeChange}
           onCustomScopeGrowthChange={onCustomScopeGrowthChange}
+          onScopeGrowthSamplingChange={onScopeGrowthSamplingChange}
         />
       )}
     </div>
@@ -13,6 +13,7 @@ interface ForecastModeToggleProps {
   onModeChange: (mode: ForecastMode) => void
   includedSprintCount: number
   calculatedStdDev: number
+  canSelectCapacity: boolean
 }
 
 export function ForecastModeToggle({
@@ -20,6 +21,7 @@ export function ForecastModeToggle({
   onModeChange,
   includedSprintCount,
   calculatedStdDev,
+  canSelectCapacity,
 }: ForecastModeToggleProps) {
   // Need 2+ sprints AND non-zero SD (identical velocities → SD=0 → false certainty)
   const canSelectHistory = includedSprintCount >= 2 && calculatedStdDev > 0
@@ -28,7 +30,7 @@ export function ForecastModeToggle({
     <div className="flex items-center gap-2 mb-3">
       <span className="text-xs font-medium text-spert-text-muted inline-flex items-center">
         Mode:
-        <HelpTooltip content="History uses your sprint data; Subjective uses your judgment." />
+        <HelpTooltip content="History uses your sprint data; Subjective uses your judgment; Capacity scales per-person throughput by your team roster." />
       </span>
       <div className="inline-flex rounded-full border border-spert-border dark:border-gray-600 overflow-hidden">
         <button
@@ -65,6 +67,26 @@ export function ForecastModeToggle({
         >
           Subjective
         </button>
+        <button
+          type="button"
+          onClick={() => onModeChange('capacity')}
+          disabled={!canSelectCapacity}
+          title={
+            canSelectCapacity
+              ? 'Forecast from per-person throughput and planned team capacity'
+              : 'Add team members under Team Capacity covering 2+ included sprints'
+          }
+          className={cn(
+            'px-3 py-1 text-xs font-medium transition-colors duration-150',
+            mode === 'capacity'
+              ? 'bg-spert-blue text-white'
+              : canSelectCapacity
+                ? 'bg-transparent text-spert-text-muted dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                : 'bg-transparent text-gray-300 dark:text-gray-600 cursor-not-allowed'
+          )}
+        >
+          Capacity
+        </button>
       </div>
     </div>
   )
@@ -8,7 +8,7 @@ import type { QuadSimulationData } from '../lib/monte-carlo'
 
 describe('buildDynamicPercentileRows', () => {
   // Create deterministic sorted arrays — all identical values so percentile results are predictable
-  const makeArray = (value: number) => Array(100).fill(value) as number[]
+  const makeArray = (value: number) => new Uint16Array(100).fill(value)
 
   const simulationData: QuadSimulationData = {
     truncatedNormal: makeArray(10),
@@ -16,6 +16,7 @@ describe('buildDynamicPercentileRows', () => {
     gamma: makeArray(14),
     bootstrap: null,
     triangular: makeArray(8),
+    pert: makeArray(8),
     uniform: makeArray(16),
   }
 
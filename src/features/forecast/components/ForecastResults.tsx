@@ -6,8 +6,9 @@
 
 import { useState, useMemo, type RefObject } from 'react'
 import { cn } from '@/lib/utils'
-import type { QuadResults, QuadSimulationData } from '../lib/monte-carlo'
+import type { QuadResults, QuadSimulationData, AdaptiveTrialResult } from '../lib/monte-carlo'
 import type { MilestoneResults } from '../hooks/useForecastState'
+import type { NonWorkingDays, WorkWeek } from '@/shared/lib/dates'
 import type { Milestone, ForecastMode } from '@/shared/types'
 import type { MilestoneCompletionInfo } from '../lib/milestones'
 import { SELECTABLE_PERCENTILES, MIN_SPRINTS_FOR_BOOTSTRAP } from '../constants'
@@ -49,6 +50,8 @@ interface ForecastResultsProps {
   onSelectedPercentilesChange?: (percentiles: number[]) => void
   startDate?: string
   sprintCadenceWeeks?: number
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
   // Report generation props
   forecastResultsRef?: RefObject<HTMLDivElement | null>
   burnUpChartRef?: RefObject<HTMLDivElement | null>
@@ -56,6 +59,14 @@ interface ForecastResultsProps {
   histogramChartRef?: RefObject<HTMLDivElement | null>
   projectName?: string
   summaryText?: string
+  /** PRNG seed used by the displayed run (shown so the forecast can be regenerated) */
+  seed?: number | null
+  /** Trials per distribution in the displayed run */
+  trialCount?: number | null
+  /** Convergence outcome when the trial count was chosen adaptively */
+  adaptiveResult?: AdaptiveTrialResult | null
+  /** Description of the projected velocity trend, when one was applied */
+  trendNote?: string | null
 }
 
 function PercentileChips({
@@ -117,6 +128,15 @@ function buildModeContext(
     )
   }
 
+  if (forecastMode === 'capacity') {
+    return (
+      <>
+        Forecast based on team capacity: <strong>{mean}</strong> per person per sprint,
+        SD <strong>{sd}</strong>, scaled by each sprint&apos;s planned capacity.
+      </>
+    )
+  }
+
   const hasOverrides = !!(velocityMean || velocityStdDev)
 
   if (hasOverrides) {
@@ -161,12 +181,18 @@ export function ForecastResults({
   onSelectedPercentilesChange,
   startDate,
   sprintCadenceWeeks,
+  nonWorkingDays,
+  workWeek,
   forecastResultsRef,
   burnUpChartRef,
   distributionChartRef,
   histogramChartRef,
   projectName,
   summaryText,
+  seed,
+  trialCount,
+  adaptiveResult,
+  trendNote,
 }: ForecastResultsProps) {
   const [isExpanded, setIsExpanded] = useState(false)
   const distributionsEnabled = useSettingsStore((s) => s.distributionsEnabled)
@@ -205,7 +231,9 @@ export function ForecastResults({
 
   const buildRows = (resultsForRows: QuadResults, simDataForRows?: QuadSimulationData | null) => {
     if (useDynamic && simDataForRows) {
-      return buildDynamicPercentileRows(simDataForRows, selectedPercentiles!, columns, startDate!, sprintCadenceWeeks!)
+      return buildDynamicPercentileRows(
+        simDataForRows, selectedPercentiles!, columns, startDate!, sprintCadenceWeeks!, nonWorkingDays, workWeek
+      )
     }
     return buildPercentileRows(resultsForRows, columns)
   }
@@ -238,6 +266,8 @@ export function ForecastResults({
                 histogramChartRef={histogramChartRef}
                 projectName={projectName}
                 summaryText={summaryText}
+                trialCount={trialCount}
+                seed={seed}
               />
             )}
             {onExport && (
@@ -348,6 +378,23 @@ export function ForecastResults({
               </p>
             )}
             {modeContext && <p>{modeContext}</p>}
+            {trendNote && <p>{trendNote}.</p>}
+            {trialCount != null && (
+              <p>
+                {trialCount.toLocaleString()} trials per distribution
+                {adaptiveResult && (adaptiveResult.converged
+                  ? ' (adaptive — P85 stabilized)'
+                  : ' (adaptive — cap reached before P85 stabilized)')}
+                . Small ranges under sprint numbers are 95% confidence bands from simulation noise; hover for the
+                standard error.
+              </p>
+            )}
+            {seed != null && (
+              <p>
+                Random seed: <span className="font-mono">{seed}</span> — enter it under Settings → Simulation to
+                regenerate these results exactly.
+              </p>
+            )}
             <p>
               P<em>X</em> means there is an <em>X</em>% chance of finishing by that date <em>or sooner</em>. Higher
               percentiles are more conservative.
@@ -359,6 +406,7 @@ export function ForecastResults({
                   <strong>Lognormal</strong>: right-skewed.{' '}
                   <strong>Gamma</strong>: flexible shape.{' '}
                   <strong>Triangular</strong>: peak at estimate.{' '}
+                  <strong>PERT</strong>: smooth curve over min / most likely / max.{' '}
                   <strong>Uniform</strong>: equal probability across range.
                 </>
               ) : (
@@ -366,7 +414,8 @@ export function ForecastResults({
                   <strong>T-Normal</strong>: symmetric, bounded at zero.{' '}
                   <strong>Lognormal</strong>: right-skewed.{' '}
                   <strong>Gamma</strong>: flexible shape.{' '}
-                  <strong>Triangular</strong>: peak at mean.
+                  <strong>Triangular</strong>: peak at mean.{' '}
+                  <strong>PERT</strong>: smooth curve over min / most likely / max.
                   {hasBootstrap && (
                     <>
                       {' '}<strong>Bootstrap</strong>: samples from actual sprint history (#NoEstimates).
@@ -8,7 +8,7 @@ import { useState, useMemo } from 'react'
 import { toast } from 'sonner'
 import { calculatePercentileResult, cumulativeProbabilityAtSprint, type PercentileResults, type QuadResults, type QuadSimulationData } from '../lib/monte-carlo'
 import type { MilestoneResults } from '../hooks/useForecastState'
-import { formatDateLong } from '@/shared/lib/dates'
+import { formatDateLong, type NonWorkingDays, type WorkWeek } from '@/shared/lib/dates'
 import type { Milestone, ForecastMode } from '@/shared/types'
 import { type DistributionType, DISTRIBUTION_LABELS, getVisibleDistributions } from '../types'
 import { useSettingsStore } from '@/shared/state/settings-store'
@@ -16,6 +16,7 @@ import { indefiniteArticle } from '@/shared/lib/grammar'
 import { HelpTooltip } from '@/shared/components/HelpTooltip'
 import type { MilestoneCompletionInfo } from '../lib/milestones'
 import { PROJECT_SCOPE, type ScopeSelection } from '../lib/scope'
+import { describeDependencyDelay, type DependencyDelay } from '../lib/dependencies'
 
 interface ForecastSummaryProps {
   results: QuadResults
@@ -26,6 +27,9 @@ interface ForecastSummaryProps {
   projectName: string
   sprintCadenceWeeks: number
   startDate: string
+  /** The project's holidays; finish dates step back from them */
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
   milestones?: Milestone[]
   milestoneResultsState?: MilestoneResults | null
   /**
@@ -42,6 +46,8 @@ interface ForecastSummaryProps {
   velocityMean?: string
   velocityStdDev?: string
   volatilityMultiplier?: number
+  /** Delay from milestones waiting on other projects, when any wait */
+  dependencyDelay?: DependencyDelay | null
 }
 
 // Lower percentiles (10/20/30/40) added in v0.31.2 to support optimistic forecasting alongside
@@ -58,10 +64,12 @@ const PERCENTILE_OPTIONS = [10, 20, 30, 40, 50, 60, 70, 80, 85, 90, 95] as const
 
 function getResultForPercentile(
   results: PercentileResults,
-  simulationData: number[],
+  simulationData: Uint16Array,
   percentile: number,
   startDate: string,
-  sprintCadenceWeeks: number
+  sprintCadenceWeeks: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
 ): { sprintsRequired: number; finishDate: string } {
   const standardKeys: Record<number, keyof PercentileResults> = {
     50: 'p50', 60: 'p60', 70: 'p70', 80: 'p80', 90: 'p90',
@@ -71,7 +79,7 @@ function getResultForPercentile(
     return results[key]
   }
   // For non-standard percentiles, calculate from simulation data
-  const result = calculatePercentileResult(simulationData, percentile, startDate, sprintCadenceWeeks)
+  const result = calculatePercentileResult(simulationData, percentile, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek)
   return result
 }
 
@@ -142,6 +150,8 @@ export function ForecastSummary({
   projectName,
   sprintCadenceWeeks,
   startDate,
+  nonWorkingDays,
+  workWeek,
   milestones = [],
   milestoneResultsState,
   milestoneCompletionInfo: completionInfo = [],
@@ -153,6 +163,7 @@ export function ForecastSummary({
   velocityMean,
   velocityStdDev,
   volatilityMultiplier,
+  dependencyDelay,
 }: ForecastSummaryProps) {
   // Initial value aligned with the v0.32.0 Settings default. The actual rendered selection is
   // `effectiveDistribution` below, which falls back to the first enabled distribution if this
@@ -215,7 +226,7 @@ export function ForecastSummary({
     return milestoneResultsState.milestoneResults[effectiveMilestoneIndex]?.[effectiveDistribution] ?? null
   }, [effectiveMilestoneIndex, results, milestoneResultsState, effectiveDistribution])
 
-  const activeSimData = useMemo<number[] | null>(() => {
+  const activeSimData = useMemo<Uint16Array | null>(() => {
     if (effectiveMilestoneIndex === null) {
       return simulationData[effectiveDistribution] ?? null
     }
@@ -226,8 +237,10 @@ export function ForecastSummary({
   // The sprintsRequired + finishDate for the user-selected percentile under the effective scope.
   const selectedResult = useMemo(() => {
     if (!activeResults || !activeSimData) return null
-    return getResultForPercentile(activeResults, activeSimData, selectedPercentile, startDate, sprintCadenceWeeks)
-  }, [activeResults, activeSimData, selectedPercentile, startDate, sprintCadenceWeeks])
+    return getResultForPercentile(
+      activeResults, activeSimData, selectedPercentile, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek
+    )
+  }, [activeResults, activeSimData, selectedPercentile, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek])
 
   // True cumulative probability at the displayed date. Because dates round up to sprint-end,
   // the actual CDF here is ≥ selectedPercentile — and may be quite a bit higher when the
@@ -298,7 +311,9 @@ export function ForecastSummary({
       const distResults = msResults[effectiveDistribution]
       const distSimData = msSimData[effectiveDistribution]
       if (!distResults || !distSimData) return null
-      const result = getResultForPercentile(distResults, distSimData, selectedPercentile, startDate, sprintCadenceWeeks)
+      const result = getResultForPercentile(
+        distResults, distSimData, selectedPercentile, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek
+      )
       return buildMilestoneSummaryText(
         milestone.name,
         result.sprintsRequired,
@@ -306,10 +321,15 @@ export function ForecastSummary({
         completedSprintCount
       )
     }).filter(Boolean) as string[]
-  }, [milestoneResultsState, visibleMilestones, completionInfo, effectiveDistribution, selectedPercentile, startDate, sprintCadenceWeeks, completedSprintCount])
+  }, [milestoneResultsState, visibleMilestones, completionInfo, effectiveDistribution, selectedPercentile, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek, completedSprintCount])
+
+  // Reported on the overall scope at P85, for the distribution the summary shows.
+  const dependencyText = dependencyDelay ? describeDependencyDelay(dependencyDelay, effectiveDistribution) : null
+  const skippedDependencies = dependencyDelay?.skipped ?? []
 
   const handleCopy = () => {
     let fullText = summaryText
+    if (dependencyText) fullText += ` ${dependencyText}.`
     if (milestoneTexts.length > 0) {
       fullText += '\n\nMilestones:\n' + milestoneTexts.map((t) => `  - ${t}`).join('\n')
     }
@@ -430,12 +450,26 @@ export function ForecastSummary({
       <p className="text-xs text-spert-text-muted dark:text-gray-400 mt-1 italic">
         {forecastMode === 'subjective'
           ? 'Based on subjective judgment.'
-          : velocityMean || velocityStdDev
-            ? 'Based on sprint history with manual overrides.'
-            : volatilityMultiplier !== undefined && volatilityMultiplier !== 1
-              ? `Based on sprint history (×${volatilityMultiplier} volatility).`
-              : 'Based on sprint history.'}
+          : forecastMode === 'capacity'
+            ? 'Based on per-person throughput and planned team capacity.'
+            : velocityMean || velocityStdDev
+              ? 'Based on sprint history with manual overrides.'
+              : volatilityMultiplier !== undefined && volatilityMultiplier !== 1
+                ? `Based on sprint history (×${volatilityMultiplier} volatility).`
+                : 'Based on sprint history.'}
       </p>
+      {dependencyText && (
+        <p className="text-xs text-spert-text-muted dark:text-gray-400 mt-1">
+          {dependencyText}.
+        </p>
+      )}
+      {skippedDependencies.length > 0 && (
+        <p className="text-xs text-spert-text-muted dark:text-gray-400 mt-1 italic">
+          {skippedDependencies.length === 1
+            ? `A dependency of ${skippedDependencies[0].milestoneName} was left out: ${skippedDependencies[0].reason}`
+            : `${skippedDependencies.length} cross-project dependencies were left out, e.g. ${skippedDependencies[0].milestoneName}: ${skippedDependencies[0].reason}`}
+        </p>
+      )}
       {milestoneTexts.length > 0 && (
         <div className="mt-2 pl-3 border-l-2 border-blue-200 dark:border-blue-700">
           {visibleMilestones.map(({ milestone, originalIndex }, visIdx) => {
@@ -9,11 +9,18 @@ import { useForecastState } from '../hooks/useForecastState'
 import { ForecastForm } from './ForecastForm'
 import { ForecastSummary } from './ForecastSummary'
 import { ForecastResults } from './ForecastResults'
+import { AutocorrelationComparison } from './AutocorrelationComparison'
 import { DeadlineProbabilityPanel } from './DeadlineProbabilityPanel'
+import { WorkByDatePanel } from './WorkByDatePanel'
+import { SensitivityPanel } from './SensitivityPanel'
+import { ScenarioPanel } from './ScenarioPanel'
+import { ForecastAccuracyPanel } from './ForecastAccuracyPanel'
+import { BacktestPanel } from './BacktestPanel'
 import { DistributionChart } from './DistributionChart'
 import { HistogramChart } from './HistogramChart'
 import { PercentileSelector } from './PercentileSelector'
 import { ProductivityAdjustments } from './ProductivityAdjustments'
+import { TeamRoster } from './TeamRoster'
 import { Milestones } from './Milestones'
 import { BurnUpChart } from './BurnUpChart'
 import { CopyImageButton } from '@/shared/components/CopyImageButton'
@@ -21,6 +28,9 @@ import { useSettingsStore } from '@/shared/state/settings-store'
 import { useProjectStore } from '@/shared/state/project-store'
 import { useCallback, useMemo, useState } from 'react'
 import type { DistributionType } from '@/shared/types/burn-up'
+import { getVisibleDistributions } from '../types'
+import { describeVelocityTrend } from '../lib/velocity-trend'
+import { describeBootstrapWeighting } from '../lib/bootstrap-weighting'
 import { ProjectsEmptyState } from '@/shared/components/ProjectsEmptyState'
 import { loadSampleProject } from '@/features/projects/lib/sample-project'
 import type { TabId } from '@/shell/components/TabNavigation'
@@ -37,7 +47,11 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
     selectedProject,
     projectSprints,
     completedSprintCount,
+    sprintCadenceWeeks,
+    laterCadenceChanges,
     forecastStartDate,
+    nonWorkingDays,
+    workWeek,
     resolvedSprintDates,
     calculatedStats,
     milestones,
@@ -45,6 +59,18 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
     milestoneCompletionInfo,
     forecastMode,
     setForecastMode,
+    capacityBaseline,
+    plannedCapacity,
+    throughputMode,
+    setThroughputMode,
+    fractionalSprintCount,
+    dayLevelDates,
+    setDayLevelDates,
+    showPertEstimate,
+    pertInputs,
+    setPertInputs,
+    pertEstimateError,
+    empiricalPert,
     includedSprintCount,
     lastSprintBacklog,
     derivedBacklogFromIncluded,
@@ -64,6 +90,22 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
     setSelectedCV,
     volatilityMultiplier,
     setVolatilityMultiplier,
+    modelAutocorrelation,
+    setModelAutocorrelation,
+    estimatedAutocorrelation,
+    canModelAutocorrelation,
+    activeAutocorrelation,
+    projectVelocityTrend,
+    setProjectVelocityTrend,
+    velocityTrend,
+    appliedTrend,
+    bootstrapWeightingMode,
+    bootstrapHalfLife,
+    bootstrapWindow,
+    setBootstrapWeightingMode,
+    setBootstrapHalfLife,
+    setBootstrapWindow,
+    activeBootstrapWeighting,
     scopeChangeStats,
     modelScopeGrowth,
     setModelScopeGrowth,
@@ -71,12 +113,22 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
     setScopeGrowthMode,
     customScopeGrowth,
     setCustomScopeGrowth,
+    scopeGrowthSampling,
+    setScopeGrowthSampling,
     scopeGrowthPerSprint,
     isSimulating,
+    simulationProgress,
+    cancelSimulation,
+    lastSeed,
+    lastTrialCount,
+    lastAdaptiveResult,
     results,
     simulationData,
+    interpolatedSimulationData,
     overallSimulationData,
     milestoneResultsState,
+    independentSimulationData,
+    dependencyDelay,
     customPercentile,
     customResults,
     customPercentile2,
@@ -86,6 +138,27 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
     selectedMilestoneIndex,
     targetDate,
     setTargetDate,
+    workTargetDate,
+    setWorkTargetDate,
+    sensitivityAnalysis,
+    canRunSensitivity,
+    handleRunSensitivity,
+    scenarios,
+    scenarioComparison,
+    handleSaveScenario,
+    handleUpdateScenario,
+    handleDeleteScenario,
+    handleApplyScenario,
+    handleCompareScenarios,
+    forecastSnapshots,
+    actualCompletion,
+    canSaveSnapshot,
+    handleSaveSnapshot,
+    handleDeleteSnapshot,
+    backtestResult,
+    canRunBacktest,
+    handleRunBacktest,
+    workByDateResults,
     burnUpConfig,
     handleBurnUpConfigChange,
     burnUpFontSize,
@@ -133,18 +206,22 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
   // the corresponding <Line>/<Bar>, and mergeDistributions/buildHistogramBins skip null inputs.
   // Bootstrap is also gated on having a non-null simulation result (per-project ≥5-sprint guard).
   //
+  // A day-level run charts its fractional sprint counts in place of whole sprints.
+  //
   // Hook must be called before any early return below — React requires unconditional hook order.
   const chartSeries = useMemo(() => {
     const has = (d: DistributionType) => distributionsEnabled.includes(d)
+    const data = interpolatedSimulationData ?? simulationData
     return {
-      truncatedNormal: has('truncatedNormal') ? simulationData?.truncatedNormal ?? null : null,
-      lognormal: has('lognormal') ? simulationData?.lognormal ?? null : null,
-      gamma: has('gamma') ? simulationData?.gamma ?? null : null,
-      bootstrap: has('bootstrap') ? simulationData?.bootstrap ?? null : null,
-      triangular: has('triangular') ? simulationData?.triangular ?? null : null,
-      uniform: has('uniform') ? simulationData?.uniform ?? null : null,
+      truncatedNormal: has('truncatedNormal') ? data?.truncatedNormal ?? null : null,
+      lognormal: has('lognormal') ? data?.lognormal ?? null : null,
+      gamma: has('gamma') ? data?.gamma ?? null : null,
+      bootstrap: has('bootstrap') ? data?.bootstrap ?? null : null,
+      triangular: has('triangular') ? data?.triangular ?? null : null,
+      pert: has('pert') ? data?.pert ?? null : null,
+      uniform: has('uniform') ? data?.uniform ?? null : null,
     }
-  }, [distributionsEnabled, simulationData])
+  }, [distributionsEnabled, simulationData, interpolatedSimulationData])
 
   if (!isClient) {
     return <div className="text-muted-foreground">Loading...</div>
@@ -160,7 +237,11 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
     )
   }
 
-  const hasResults = selectedProject?.sprintCadenceWeeks && results && simulationData
+  const hasResults = sprintCadenceWeeks && results && simulationData
+  const trendNote = appliedTrend && selectedProject
+    ? describeVelocityTrend(appliedTrend, selectedProject.unitOfMeasure)
+    : null
+  const bootstrapWeightingNote = results?.bootstrap ? describeBootstrapWeighting(activeBootstrapWeighting) : null
 
   return (
     <div className="space-y-6">
@@ -197,7 +278,8 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
               velocityMean={velocityMean}
               velocityStdDev={velocityStdDev}
               startDate={forecastStartDate}
-              sprintCadenceWeeks={selectedProject.sprintCadenceWeeks}
+              sprintCadenceWeeks={sprintCadenceWeeks}
+              laterCadenceChanges={laterCadenceChanges}
               calculatedMean={calculatedStats.mean}
               calculatedStdDev={calculatedStats.standardDeviation}
               effectiveMean={effectiveMean}
@@ -212,6 +294,7 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
               modelScopeGrowth={modelScopeGrowth}
               scopeGrowthMode={scopeGrowthMode}
               customScopeGrowth={customScopeGrowth}
+              scopeGrowthSampling={scopeGrowthSampling}
               forecastMode={forecastMode}
               includedSprintCount={includedSprintCount}
               velocityEstimate={velocityEstimate}
@@ -222,15 +305,44 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
               onModelScopeGrowthChange={setModelScopeGrowth}
               onScopeGrowthModeChange={setScopeGrowthMode}
               onCustomScopeGrowthChange={setCustomScopeGrowth}
+              onScopeGrowthSamplingChange={setScopeGrowthSampling}
               onRemainingBacklogChange={setRemainingBacklog}
               onVelocityMeanChange={setVelocityMean}
               onVelocityStdDevChange={setVelocityStdDev}
               volatilityMultiplier={volatilityMultiplier}
               onVolatilityMultiplierChange={setVolatilityMultiplier}
+              estimatedAutocorrelation={estimatedAutocorrelation}
+              canModelAutocorrelation={canModelAutocorrelation}
+              modelAutocorrelation={modelAutocorrelation}
+              onModelAutocorrelationChange={setModelAutocorrelation}
+              velocityTrend={velocityTrend}
+              projectVelocityTrend={projectVelocityTrend}
+              onProjectVelocityTrendChange={setProjectVelocityTrend}
+              bootstrapWeightingMode={bootstrapWeightingMode}
+              bootstrapHalfLife={bootstrapHalfLife}
+              bootstrapWindow={bootstrapWindow}
+              onBootstrapWeightingModeChange={setBootstrapWeightingMode}
+              onBootstrapHalfLifeChange={setBootstrapHalfLife}
+              onBootstrapWindowChange={setBootstrapWindow}
+              capacityBaseline={capacityBaseline}
+              plannedCapacity={plannedCapacity}
+              throughputMode={throughputMode}
+              fractionalSprintCount={fractionalSprintCount}
+              onThroughputModeChange={setThroughputMode}
+              dayLevelDates={dayLevelDates}
+              hasMilestones={milestones.length > 0}
+              onDayLevelDatesChange={setDayLevelDates}
+              showPertEstimate={showPertEstimate}
+              pertInputs={pertInputs}
+              pertEstimateError={pertEstimateError}
+              empiricalPert={empiricalPert}
+              onPertInputsChange={setPertInputs}
               onRunForecast={handleRunForecast}
               canRun={canRun}
               runForecastBlockedReason={runForecastBlockedReason}
               isSimulating={isSimulating}
+              simulationProgress={simulationProgress}
+              onCancelSimulation={cancelSimulation}
             />
             {hasResults && (
               <div className={cn('mt-6 transition-opacity duration-300', isSimulating && 'opacity-50')}>
@@ -241,7 +353,9 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
                   remainingBacklog={Number(remainingBacklog) || 0}
                   unitOfMeasure={selectedProject.unitOfMeasure}
                   projectName={selectedProject.name}
-                  sprintCadenceWeeks={selectedProject.sprintCadenceWeeks!}
+                  sprintCadenceWeeks={sprintCadenceWeeks!}
+                  nonWorkingDays={nonWorkingDays}
+                  workWeek={workWeek}
                   startDate={forecastStartDate}
                   milestones={milestones}
                   milestoneResultsState={milestoneResultsState}
@@ -254,6 +368,7 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
                   velocityMean={velocityMean}
                   velocityStdDev={velocityStdDev}
                   volatilityMultiplier={volatilityMultiplier}
+                  dependencyDelay={dependencyDelay}
                 />
                 <div className="mt-8">
                   <div ref={forecastResultsRef} className="bg-white dark:bg-gray-900">
@@ -278,16 +393,35 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
                       selectedPercentiles={selectedResultsPercentiles}
                       onSelectedPercentilesChange={setSelectedResultsPercentiles}
                       startDate={forecastStartDate}
-                      sprintCadenceWeeks={selectedProject.sprintCadenceWeeks}
+                      sprintCadenceWeeks={sprintCadenceWeeks}
+                      nonWorkingDays={nonWorkingDays}
+                      workWeek={workWeek}
                       forecastResultsRef={forecastResultsRef}
                       burnUpChartRef={burnUpChartRef}
                       distributionChartRef={distributionChartRef}
                       histogramChartRef={histogramChartRef}
                       projectName={selectedProject.name}
-                      summaryText={`Monte Carlo forecast for ${selectedProject.name}: ${remainingBacklog} ${selectedProject.unitOfMeasure} remaining backlog.`}
+                      summaryText={`Monte Carlo forecast for ${selectedProject.name}: ${remainingBacklog} ${selectedProject.unitOfMeasure} remaining backlog.${trendNote ? ` ${trendNote}.` : ''}${bootstrapWeightingNote ? ` Bootstrap: ${bootstrapWeightingNote}.` : ''}`}
+                      seed={lastSeed}
+                      trialCount={lastTrialCount}
+                      adaptiveResult={lastAdaptiveResult}
+                      trendNote={trendNote}
                     />
                   </div>
                 </div>
+                {independentSimulationData && activeAutocorrelation !== undefined && (
+                  <AutocorrelationComparison
+                    correlatedData={overallSimulationData ?? simulationData}
+                    independentData={independentSimulationData}
+                    autocorrelation={activeAutocorrelation}
+                    distributions={getVisibleDistributions(forecastMode, results.bootstrap !== null, distributionsEnabled)}
+                    percentiles={selectedResultsPercentiles}
+                    startDate={forecastStartDate}
+                    sprintCadenceWeeks={sprintCadenceWeeks!}
+                    nonWorkingDays={nonWorkingDays}
+                    workWeek={workWeek}
+                  />
+                )}
               </div>
             )}
           </div>
@@ -309,11 +443,14 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
             targetDate={targetDate}
             onTargetDateChange={setTargetDate}
             simulationData={simulationData}
+            interpolatedData={interpolatedSimulationData}
             milestoneResultsState={milestoneResultsState}
             milestones={milestones}
             milestoneCompletionInfo={milestoneCompletionInfo}
             forecastStartDate={forecastStartDate}
-            sprintCadenceWeeks={selectedProject!.sprintCadenceWeeks!}
+            sprintCadenceWeeks={sprintCadenceWeeks!}
+            nonWorkingDays={nonWorkingDays}
+            workWeek={workWeek}
             completedSprintCount={completedSprintCount}
             unitOfMeasure={selectedProject!.unitOfMeasure}
             projectName={selectedProject!.name}
@@ -321,6 +458,31 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
             forecastMode={forecastMode}
           />
 
+          {/* Work by Date — fixed-date counterpart to Deadline Probability. Collapsed by default. */}
+          <WorkByDatePanel
+            targetDate={workTargetDate}
+            onTargetDateChange={setWorkTargetDate}
+            workByDateResults={workByDateResults}
+            isSimulating={isSimulating}
+            milestones={milestones}
+            milestoneCompletionInfo={milestoneCompletionInfo}
+            cumulativeThresholds={cumulativeThresholds}
+            forecastStartDate={forecastStartDate}
+            completedSprintCount={completedSprintCount}
+            unitOfMeasure={selectedProject!.unitOfMeasure}
+            remainingBacklog={Number(remainingBacklog) || 0}
+            forecastMode={forecastMode}
+          />
+
+          {/* Sensitivity — tornado of P85 shifts, run on request. Collapsed by default. */}
+          <SensitivityPanel
+            sensitivityAnalysis={sensitivityAnalysis}
+            canRun={canRunSensitivity}
+            isSimulating={isSimulating}
+            onRun={handleRunSensitivity}
+            forecastMode={forecastMode}
+          />
+
           {/* Custom Percentile — collapsed by default (v0.31.1). */}
           <div className="rounded-lg border bg-card">
             <button
@@ -352,6 +514,7 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
                   gammaResult={customResults.gamma}
                   bootstrapResult={customResults.bootstrap}
                   triangularResult={customResults.triangular}
+                  pertResult={customResults.pert}
                   uniformResult={customResults.uniform}
                   percentile2={customPercentile2}
                   truncatedNormalResult2={customResults2.truncatedNormal}
@@ -359,6 +522,7 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
                   gammaResult2={customResults2.gamma}
                   bootstrapResult2={customResults2.bootstrap}
                   triangularResult2={customResults2.triangular}
+                  pertResult2={customResults2.pert}
                   uniformResult2={customResults2.uniform}
                   onPercentile2Change={handleCustomPercentile2Change}
                   forecastMode={forecastMode}
@@ -378,7 +542,9 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
             sprints={projectSprints}
             forecastBacklog={Number(remainingBacklog) || 0}
             simulationData={overallSimulationData ?? simulationData}
-            sprintCadenceWeeks={selectedProject!.sprintCadenceWeeks!}
+            sprintCadenceWeeks={sprintCadenceWeeks!}
+            nonWorkingDays={nonWorkingDays}
+            workWeek={workWeek}
             firstSprintStartDate={selectedProject!.firstSprintStartDate!}
             completedSprintCount={completedSprintCount}
             config={burnUpConfig}
@@ -390,6 +556,8 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
             cumulativeThresholds={cumulativeThresholds}
             forecastStartDate={forecastStartDate}
             resolvedSprintDates={resolvedSprintDates}
+            trendNote={trendNote}
+            dependencyDelay={dependencyDelay}
           />
 
           {/* Cumulative Probability Distribution */}
@@ -399,12 +567,16 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
             gamma={chartSeries.gamma}
             bootstrap={chartSeries.bootstrap}
             triangular={chartSeries.triangular}
+            pert={chartSeries.pert}
             uniform={chartSeries.uniform}
             forecastMode={forecastMode}
             customPercentile={customPercentile}
             startDate={forecastStartDate}
-            sprintCadenceWeeks={selectedProject!.sprintCadenceWeeks!}
+            sprintCadenceWeeks={sprintCadenceWeeks!}
+            nonWorkingDays={nonWorkingDays}
+            workWeek={workWeek}
             completedSprintCount={completedSprintCount}
+            interpolated={interpolatedSimulationData !== null}
             chartRef={distributionChartRef}
             fontSize={distributionFontSize}
             onFontSizeChange={setDistributionFontSize}
@@ -421,11 +593,15 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
             gamma={chartSeries.gamma}
             bootstrap={chartSeries.bootstrap}
             triangular={chartSeries.triangular}
+            pert={chartSeries.pert}
             uniform={chartSeries.uniform}
             forecastMode={forecastMode}
             startDate={forecastStartDate}
-            sprintCadenceWeeks={selectedProject!.sprintCadenceWeeks!}
+            sprintCadenceWeeks={sprintCadenceWeeks!}
+            nonWorkingDays={nonWorkingDays}
+            workWeek={workWeek}
             completedSprintCount={completedSprintCount}
+            interpolated={interpolatedSimulationData !== null}
             chartRef={histogramChartRef}
             fontSize={histogramFontSize}
             onFontSizeChange={setHistogramFontSize}
@@ -437,10 +613,54 @@ export function ForecastTab({ onTabChange }: ForecastTabProps = {}) {
         </>
       )}
 
+      {/* Scenarios — saved what-if inputs, compared on demand. Collapsed by default. */}
+      {selectedProject && (
+        <ScenarioPanel
+          scenarios={scenarios}
+          scenarioComparison={scenarioComparison}
+          unitOfMeasure={selectedProject.unitOfMeasure}
+          productivityAdjustments={selectedProject.productivityAdjustments ?? []}
+          completedSprintCount={completedSprintCount}
+          isSimulating={isSimulating}
+          onSave={handleSaveScenario}
+          onUpdate={handleUpdateScenario}
+          onDelete={handleDeleteScenario}
+          onApply={handleApplyScenario}
+          onCompare={handleCompareScenarios}
+        />
+      )}
+
+      {/* Forecast Accuracy — published snapshots vs. actual. Collapsed by default. */}
+      {selectedProject && (
+        <ForecastAccuracyPanel
+          snapshots={forecastSnapshots}
+          actualCompletion={actualCompletion}
+          canSave={canSaveSnapshot}
+          isSimulating={isSimulating}
+          onSave={handleSaveSnapshot}
+          onDelete={handleDeleteSnapshot}
+        />
+      )}
+
+      {/* Backtest — distributions scored against the project's own history. Collapsed by default. */}
+      {selectedProject && (
+        <BacktestPanel
+          backtestResult={backtestResult}
+          canRun={canRunBacktest}
+          isSimulating={isSimulating}
+          onRun={handleRunBacktest}
+        />
+      )}
+
       {/* Productivity Adjustments - bottom of page, set-and-forget */}
       {selectedProject && (
         <ProductivityAdjustments projectId={selectedProject.id} />
       )}
+
+      {/* Team roster for capacity mode - also set-and-forget */}
+      {selectedProject && (
+        <TeamRoster projectId={selectedProject.id} />
+      )}
     </div>
   )
 }
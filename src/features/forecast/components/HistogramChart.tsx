@@ -21,22 +21,28 @@ import { COLORS } from '@/shared/lib/colors'
 import { type ChartFontSize, CHART_FONT_SIZES } from '../types'
 import { buildHistogramBins } from '../lib/cdf'
 import type { Milestone, ForecastMode } from '@/shared/types'
+import type { NonWorkingDays, WorkWeek } from '@/shared/lib/dates'
 import type { MilestoneCompletionInfo } from '../lib/milestones'
 import { ChartToolbar } from './ChartToolbar'
 
 interface HistogramChartProps {
   // null when the user has disabled the distribution via Settings ("Statistical methods to show").
   // The chart silently drops the corresponding <Bar> in that case.
-  truncatedNormal: number[] | null
-  lognormal: number[] | null
-  gamma: number[] | null
-  bootstrap: number[] | null
-  triangular: number[] | null
-  uniform: number[] | null
+  truncatedNormal: ArrayLike<number> | null
+  lognormal: ArrayLike<number> | null
+  gamma: ArrayLike<number> | null
+  bootstrap: ArrayLike<number> | null
+  triangular: ArrayLike<number> | null
+  pert: ArrayLike<number> | null
+  uniform: ArrayLike<number> | null
   forecastMode: ForecastMode
   startDate: string
   sprintCadenceWeeks: number
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
   completedSprintCount: number
+  /** The series are fractional sprint counts from a day-level run: bins are continuous */
+  interpolated?: boolean
   chartRef?: RefObject<HTMLDivElement | null>
   fontSize?: ChartFontSize
   onFontSizeChange?: (size: ChartFontSize) => void
@@ -54,11 +60,15 @@ export function HistogramChart({
   gamma,
   bootstrap,
   triangular,
+  pert,
   uniform,
   forecastMode,
   startDate,
   sprintCadenceWeeks,
+  nonWorkingDays,
+  workWeek,
   completedSprintCount,
+  interpolated = false,
   chartRef,
   fontSize = 'small',
   onFontSizeChange,
@@ -80,11 +90,15 @@ export function HistogramChart({
       startDate,
       sprintCadenceWeeks,
       15,
-      // triangular/uniform are optional (undefined) in buildHistogramBins; coerce null to undefined
+      // triangular/uniform/pert are optional (undefined) in buildHistogramBins; coerce null to undefined
       triangular ?? undefined,
       uniform ?? undefined,
+      pert ?? undefined,
+      interpolated,
+      nonWorkingDays,
+      workWeek,
     ),
-    [truncatedNormal, lognormal, gamma, bootstrap, triangular, uniform, startDate, sprintCadenceWeeks]
+    [truncatedNormal, lognormal, gamma, bootstrap, triangular, pert, uniform, startDate, sprintCadenceWeeks, interpolated, nonWorkingDays, workWeek]
   )
 
   const hasBootstrap = bootstrap !== null
@@ -128,7 +142,9 @@ export function HistogramChart({
 
           <div ref={chartRef} className="bg-white dark:bg-gray-800 p-2">
             <p className="text-xs text-muted-foreground mb-4">
-              Shows the probability density of completion at each sprint range.
+              {interpolated
+                ? 'Shows the probability density of completion across working days, dated at the middle of each bar.'
+                : 'Shows the probability density of completion at each sprint range.'}{' '}
               Higher bars indicate more likely outcomes.
             </p>
             <ResponsiveContainer width="100%" height={340}>
@@ -141,9 +157,9 @@ export function HistogramChart({
                     const dataIndex = chartData.findIndex(d => d.sprintLabel === payload.value)
                     const dataPoint = chartData[dataIndex]
                     const dateLabel = dataPoint?.dateLabel || ''
-                    // Calculate absolute sprint range
-                    const absoluteMin = dataPoint ? dataPoint.sprintMin + completedSprintCount : 0
-                    const absoluteMax = dataPoint ? dataPoint.sprintMax + completedSprintCount : 0
+                    // Calculate absolute sprint range (fractional bounds fall inside sprint ⌈x⌉)
+                    const absoluteMin = dataPoint ? Math.ceil(dataPoint.sprintMin) + completedSprintCount : 0
+                    const absoluteMax = dataPoint ? Math.ceil(dataPoint.sprintMax) + completedSprintCount : 0
                     const absoluteLabel = absoluteMin === absoluteMax
                       ? `${absoluteMin}`
                       : `${absoluteMin}-${absoluteMax}`
@@ -171,8 +187,8 @@ export function HistogramChart({
                   labelFormatter={(label) => {
                     const dataPoint = chartData.find(d => d.sprintLabel === label)
                     if (!dataPoint) return label
-                    const absoluteMin = dataPoint.sprintMin + completedSprintCount
-                    const absoluteMax = dataPoint.sprintMax + completedSprintCount
+                    const absoluteMin = Math.ceil(dataPoint.sprintMin) + completedSprintCount
+                    const absoluteMax = Math.ceil(dataPoint.sprintMax) + completedSprintCount
                     const rangeLabel = absoluteMin === absoluteMax
                       ? `Sprint ${absoluteMin}`
                       : `Sprints ${absoluteMin}-${absoluteMax}`
@@ -227,6 +243,14 @@ export function HistogramChart({
                     opacity={0.8}
                   />
                 )}
+                {pert != null && (
+                  <Bar
+                    dataKey="pert"
+                    name="PERT"
+                    fill={CHART_COLORS.pert}
+                    opacity={0.8}
+                  />
+                )}
                 {isSubjective && uniform != null && (
                   <Bar
                     dataKey="uniform"
@@ -6,21 +6,31 @@
 
 import { useState } from 'react'
 import { cn } from '@/lib/utils'
-import type { Milestone } from '@/shared/types'
+import type { Milestone, MilestoneDependency } from '@/shared/types'
 import { DEFAULT_MILESTONE_COLORS } from '../constants'
 
+/** Another project's milestone a milestone can wait on */
+export interface UpstreamMilestoneOption extends MilestoneDependency {
+  label: string // "Project — Milestone"
+}
+
 interface MilestoneFormProps {
   milestone: Milestone | null
   existingCount: number // Used to pick default color
   unitOfMeasure: string
+  upstreamOptions?: UpstreamMilestoneOption[]
   onSubmit: (data: Omit<Milestone, 'id' | 'createdAt' | 'updatedAt'>) => void
   onCancel: () => void
 }
 
+const sameDependency = (a: MilestoneDependency, b: MilestoneDependency) =>
+  a.projectId === b.projectId && a.milestoneId === b.milestoneId
+
 export function MilestoneForm({
   milestone,
   existingCount,
   unitOfMeasure,
+  upstreamOptions = [],
   onSubmit,
   onCancel,
 }: MilestoneFormProps) {
@@ -28,6 +38,19 @@ export function MilestoneForm({
   const [name, setName] = useState(milestone?.name ?? '')
   const [backlogSize, setBacklogSize] = useState(milestone ? String(milestone.backlogSize) : '')
   const [color, setColor] = useState(milestone?.color ?? defaultColor)
+  const [dependsOn, setDependsOn] = useState<MilestoneDependency[]>(milestone?.dependsOn ?? [])
+  // Entered as a percentage; blank keeps the milestone in the stream before it
+  const [capacityShare, setCapacityShare] = useState(
+    milestone?.capacityShare !== undefined ? String(Math.round(milestone.capacityShare * 100)) : ''
+  )
+
+  const toggleDependency = (dep: MilestoneDependency) => {
+    setDependsOn((current) =>
+      current.some((d) => sameDependency(d, dep))
+        ? current.filter((d) => !sameDependency(d, dep))
+        : [...current, { projectId: dep.projectId, milestoneId: dep.milestoneId }]
+    )
+  }
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
@@ -36,15 +59,19 @@ export function MilestoneForm({
       name: name.trim(),
       backlogSize: Number(backlogSize),
       color,
+      dependsOn,
+      capacityShare: capacityShare ? Number(capacityShare) / 100 : undefined,
     })
   }
 
   const parsedBacklog = Number(backlogSize)
+  const parsedShare = Number(capacityShare)
   const isValid =
     name.trim().length > 0 &&
     backlogSize.length > 0 &&
     !isNaN(parsedBacklog) &&
-    parsedBacklog >= 0
+    parsedBacklog >= 0 &&
+    (capacityShare.length === 0 || (parsedShare > 0 && parsedShare <= 100))
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-border dark:border-gray-700 p-4 bg-white dark:bg-gray-800">
@@ -108,6 +135,30 @@ export function MilestoneForm({
           </div>
         </div>
 
+        {/* Capacity Share */}
+        <div className="flex-[1_1_120px]">
+          <label
+            htmlFor="milestoneCapacityShare"
+            className="mb-1 block text-[0.8rem] font-semibold text-spert-text-secondary"
+          >
+            Capacity Share (%)
+          </label>
+          <input
+            id="milestoneCapacityShare"
+            type="number"
+            value={capacityShare}
+            onChange={(e) => setCapacityShare(e.target.value)}
+            placeholder="Sequential"
+            min="1"
+            max="100"
+            step="any"
+            className="w-full rounded border border-spert-border dark:border-gray-600 bg-white dark:bg-gray-700 p-[0.4rem] text-[0.85rem] dark:text-gray-100"
+          />
+          <div className="mt-[0.2rem] text-[0.65rem] text-spert-text-helper">
+            Starts a parallel stream; blank follows the milestone above
+          </div>
+        </div>
+
         {/* Color */}
         <div className="flex-[0_0_auto]">
           <span className="mb-1 block text-[0.8rem] font-semibold text-spert-text-secondary">
@@ -154,6 +205,35 @@ export function MilestoneForm({
         </div>
       </div>
 
+      {/* Cross-project dependencies */}
+      {upstreamOptions.length > 0 && (
+        <fieldset>
+          <legend className="mb-1 text-[0.8rem] font-semibold text-spert-text-secondary">
+            Waits on
+          </legend>
+          <div className="max-h-32 overflow-y-auto space-y-1 rounded border border-spert-border dark:border-gray-600 p-2">
+            {upstreamOptions.map((option) => (
+              <label
+                key={`${option.projectId}:${option.milestoneId}`}
+                className="flex items-center gap-2 text-[0.85rem] cursor-pointer dark:text-gray-100"
+              >
+                <input
+                  type="checkbox"
+                  name="milestoneDependsOn"
+                  checked={dependsOn.some((d) => sameDependency(d, option))}
+                  onChange={() => toggleDependency(option)}
+                  className="cursor-pointer accent-blue-600"
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          <div className="mt-[0.2rem] text-[0.65rem] text-spert-text-helper">
+            Work on this milestone starts once these milestones in other projects are done
+          </div>
+        </fieldset>
+      )}
+
       {/* Buttons */}
       <div className="flex justify-end gap-2 pt-2">
         <button
@@ -231,3 +231,43 @@ describe('MilestoneList — inline rename (v0.33.5)', () => {
     expect(idA).not.toBe(idB)
   })
 })
+
+describe('MilestoneList — cross-project dependencies', () => {
+  it('lists the milestones each one waits on, flagging removed ones', () => {
+    render(
+      <MilestoneList
+        milestones={[makeMilestone({
+          dependsOn: [
+            { projectId: 'p-2', milestoneId: 'm-9' },
+            { projectId: 'p-3', milestoneId: 'gone' },
+          ],
+        })]}
+        unitOfMeasure="story points"
+        upstreamOptions={[{ projectId: 'p-2', milestoneId: 'm-9', label: 'Platform — Auth API' }]}
+        onEdit={NOOP}
+        onDelete={NOOP}
+      />,
+    )
+    expect(screen.getByText('Waits on Platform — Auth API, a removed milestone')).toBeTruthy()
+  })
+})
+
+describe('MilestoneList — parallel work streams', () => {
+  it('marks stream starts and shows cumulative work at which each is reached', () => {
+    render(
+      <MilestoneList
+        milestones={[
+          makeMilestone({ backlogSize: 140 }),
+          makeMilestone({ id: 'm-2', name: 'Platform', backlogSize: 30, capacityShare: 0.3 }),
+        ]}
+        unitOfMeasure="story points"
+        onEdit={NOOP}
+        onDelete={NOOP}
+      />,
+    )
+    expect(screen.getByText('Parallel stream · 30% of capacity')).toBeTruthy()
+    // Platform is reached after 100 of total work; MVP, and the total, at 170
+    expect(screen.getByText('100 story points')).toBeTruthy()
+    expect(screen.getAllByText('170 story points')).toHaveLength(2)
+  })
+})
@@ -8,10 +8,14 @@ import { useId, useState } from 'react'
 import { cn } from '@/lib/utils'
 import type { Milestone } from '@/shared/types'
 import { ListRowActions } from '@/shared/components/ListRowActions'
+import { computeCumulativeScope } from '../lib/milestones'
+import type { UpstreamMilestoneOption } from './MilestoneForm'
 
 interface MilestoneListProps {
   milestones: Milestone[]
   unitOfMeasure: string
+  /** Labels for milestone dependencies; ones not listed show as removed */
+  upstreamOptions?: UpstreamMilestoneOption[]
   onEdit: (milestone: Milestone) => void
   onDelete: (id: string) => void
   onToggleChart?: (id: string, showOnChart: boolean) => void
@@ -23,6 +27,7 @@ interface MilestoneListProps {
 export function MilestoneList({
   milestones,
   unitOfMeasure,
+  upstreamOptions = [],
   onEdit,
   onDelete,
   onToggleChart,
@@ -119,15 +124,16 @@ export function MilestoneList({
     setDragOverIndex(null)
   }
 
-  // Compute cumulative backlog for display
-  type Row = { milestone: Milestone; index: number; cumulative: number }
-  const rows = milestones.reduce<Row[]>((acc, m, idx) => {
-    const prev = acc[acc.length - 1]?.cumulative ?? 0
-    acc.push({ milestone: m, index: idx + 1, cumulative: prev + m.backlogSize })
-    return acc
-  }, [])
+  const dependencyLabel = (dep: { projectId: string; milestoneId: string }) =>
+    upstreamOptions.find((o) => o.projectId === dep.projectId && o.milestoneId === dep.milestoneId)?.label
+      ?? 'a removed milestone'
 
-  const total = rows[rows.length - 1]?.cumulative ?? 0
+  // Cumulative backlog for display: total work delivered when each milestone is
+  // reached, parallel work streams included
+  const cumulativeScope = computeCumulativeScope(milestones)
+  const rows = milestones.map((m, idx) => ({ milestone: m, index: idx + 1, cumulative: cumulativeScope[idx] }))
+
+  const total = milestones.reduce((sum, m) => sum + m.backlogSize, 0)
 
   return (
     <div className="overflow-x-auto">
@@ -233,6 +239,16 @@ export function MilestoneList({
                 ) : (
                   m.name
                 )}
+                {(m.dependsOn?.length ?? 0) > 0 && (
+                  <div className="text-xs font-normal text-spert-text-muted dark:text-gray-400">
+                    Waits on {m.dependsOn!.map(dependencyLabel).join(', ')}
+                  </div>
+                )}
+                {m.capacityShare !== undefined && (
+                  <div className="text-xs font-normal text-spert-text-muted dark:text-gray-400">
+                    Parallel stream · {Math.round(m.capacityShare * 100)}% of capacity
+                  </div>
+                )}
               </td>
               <td className="whitespace-nowrap p-2 text-right dark:text-gray-100">
                 {m.backlogSize.toLocaleString()} {unitOfMeasure}
@@ -8,7 +8,7 @@ import { useMemo, useCallback } from 'react'
 import { useProjectStore } from '@/shared/state/project-store'
 import { CollapsibleCrudPanel } from '@/shared/components/CollapsibleCrudPanel'
 import type { Milestone } from '@/shared/types'
-import { MilestoneForm } from './MilestoneForm'
+import { MilestoneForm, type UpstreamMilestoneOption } from './MilestoneForm'
 import { MilestoneList } from './MilestoneList'
 import { MAX_MILESTONES, MILESTONE_SOFT_LIMIT } from '../constants'
 
@@ -23,6 +23,17 @@ export function Milestones({ projectId, unitOfMeasure }: MilestonesProps) {
     const project = projects.find((p) => p.id === projectId)
     return project?.milestones ?? []
   }, [projects, projectId])
+  // Other projects' open milestones this project's milestones can wait on.
+  const upstreamOptions = useMemo<UpstreamMilestoneOption[]>(
+    () => projects
+      .filter((p) => p.id !== projectId)
+      .flatMap((p) => (p.milestones ?? []).map((m) => ({
+        projectId: p.id,
+        milestoneId: m.id,
+        label: `${p.name} — ${m.name}`,
+      }))),
+    [projects, projectId]
+  )
   const addMilestone = useProjectStore((state) => state.addMilestone)
   const updateMilestone = useProjectStore((state) => state.updateMilestone)
   const deleteMilestone = useProjectStore((state) => state.deleteMilestone)
@@ -63,6 +74,7 @@ export function Milestones({ projectId, unitOfMeasure }: MilestonesProps) {
           milestone={editingItem}
           existingCount={milestones.length}
           unitOfMeasure={unitOfMeasure}
+          upstreamOptions={upstreamOptions}
           onSubmit={(data) => {
             if (editingItem) {
               updateMilestone(projectId, editingItem.id, data)
@@ -78,6 +90,7 @@ export function Milestones({ projectId, unitOfMeasure }: MilestonesProps) {
         <MilestoneList
           milestones={items}
           unitOfMeasure={unitOfMeasure}
+          upstreamOptions={upstreamOptions}
           onEdit={onEdit}
           onDelete={onDelete}
           onToggleChart={handleToggleChart}
@@ -12,6 +12,7 @@ import { CopyImageButton } from '@/shared/components/CopyImageButton'
 import { formatDate } from '@/shared/lib/dates'
 import { getVisibleDistributions, DISTRIBUTION_LABELS, type DistributionType } from '../types'
 import { useSettingsStore } from '@/shared/state/settings-store'
+import { finalMilestoneAmong } from '../lib/milestones'
 
 interface PercentileSelectorProps {
   percentile: number
@@ -20,6 +21,7 @@ interface PercentileSelectorProps {
   gammaResult: ForecastResult | null
   bootstrapResult: ForecastResult | null
   triangularResult: ForecastResult | null
+  pertResult: ForecastResult | null
   uniformResult: ForecastResult | null
   forecastMode: ForecastMode
   completedSprintCount: number
@@ -35,6 +37,7 @@ interface PercentileSelectorProps {
   gammaResult2?: ForecastResult | null
   bootstrapResult2?: ForecastResult | null
   triangularResult2?: ForecastResult | null
+  pertResult2?: ForecastResult | null
   uniformResult2?: ForecastResult | null
   onPercentile2Change?: (percentile: number) => void
 }
@@ -50,6 +53,7 @@ const RESULT_PROP_MAP: Record<DistributionType, keyof PercentileSelectorProps> =
   gamma: 'gammaResult',
   bootstrap: 'bootstrapResult',
   triangular: 'triangularResult',
+  pert: 'pertResult',
   uniform: 'uniformResult',
 }
 
@@ -59,6 +63,7 @@ const RESULT_PROP_MAP_2: Record<DistributionType, keyof PercentileSelectorProps>
   gamma: 'gammaResult2',
   bootstrap: 'bootstrapResult2',
   triangular: 'triangularResult2',
+  pert: 'pertResult2',
   uniform: 'uniformResult2',
 }
 
@@ -119,6 +124,7 @@ function PercentileSliderRow({
           'sm:grid-cols-3': cards.length === 3,
           'sm:grid-cols-4': cards.length === 4,
           'sm:grid-cols-5': cards.length === 5,
+          'sm:grid-cols-6': cards.length === 6,
         })}>
           {cards.map((card, idx) => {
             const result = card.result!
@@ -194,9 +200,10 @@ export function PercentileSelector(props: PercentileSelectorProps) {
     }
   }, [visibleMilestones, selectedMilestoneIndex, onMilestoneIndexChange])
 
-  const lastVisibleIdx = visibleMilestones.length > 0
-    ? visibleMilestones[visibleMilestones.length - 1].originalIndex
-    : -1
+  const lastVisibleIdx = useMemo(
+    () => finalMilestoneAmong(milestones, visibleMilestones.map((v) => v.originalIndex)),
+    [milestones, visibleMilestones]
+  )
 
   return (
     <div className="relative">
@@ -0,0 +1,103 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { HelpTooltip } from '@/shared/components/HelpTooltip'
+import { pertBounds } from '../lib/monte-carlo'
+import { EMPTY_PERT_INPUTS, type PertInputs } from '../lib/pert'
+
+interface PertSectionProps {
+  pertInputs: PertInputs
+  effectiveMean: number
+  effectiveStdDev: number
+  unitOfMeasure: string
+  error: string | null
+  /** Slowest / median / fastest included sprint; null without enough history */
+  empiricalPert: PertInputs | null
+  onPertInputsChange: (next: Partial<PertInputs>) => void
+}
+
+const numberInputClass =
+  'w-20 p-1 text-sm border border-spert-border dark:border-gray-500 rounded bg-white dark:bg-gray-600 text-spert-text dark:text-gray-100 tabular-nums'
+
+const FIELDS: { key: keyof PertInputs; label: string }[] = [
+  { key: 'min', label: 'Min' },
+  { key: 'mostLikely', label: 'Most likely' },
+  { key: 'max', label: 'Max' },
+]
+
+/**
+ * Three-point velocity estimate for the PERT distribution. Blank fields show
+ * (as placeholders) the default range the engine will use in their place.
+ */
+export function PertSection({
+  pertInputs,
+  effectiveMean,
+  effectiveStdDev,
+  unitOfMeasure,
+  error,
+  empiricalPert,
+  onPertInputsChange,
+}: PertSectionProps) {
+  const defaults = pertBounds(effectiveMean, effectiveStdDev)
+  const placeholders: Record<keyof PertInputs, number> = {
+    min: defaults.lower,
+    mostLikely: defaults.mode,
+    max: defaults.upper,
+  }
+  const hasInputs = pertInputs.min !== '' || pertInputs.mostLikely !== '' || pertInputs.max !== ''
+
+  return (
+    <div className="mt-3 rounded-md border border-border dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-spert-text-secondary dark:text-gray-300">
+          PERT estimate{' '}
+          <span className="text-xs font-normal text-spert-text-muted">
+            ({unitOfMeasure} per sprint; blank uses the mean ± about 2.6 SD)
+          </span>
+        </span>
+        <HelpTooltip content="The PERT method samples a smooth Beta-PERT curve between your minimum and maximum sprint velocity, peaking at the most likely value. It weights the most likely value four times as heavily as either extreme. Other methods are unaffected." />
+      </div>
+      <div className="mt-2 ml-6 flex flex-wrap items-center gap-3">
+        {FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-1.5">
+            <span className="text-sm text-spert-text-secondary dark:text-gray-300">{label}</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={pertInputs[key]}
+              placeholder={effectiveMean > 0 ? placeholders[key].toFixed(1) : ''}
+              aria-label={`PERT ${label.toLowerCase()} velocity`}
+              onChange={(e) => onPertInputsChange({ [key]: e.target.value })}
+              className={numberInputClass}
+            />
+          </label>
+        ))}
+        {empiricalPert && (
+          <button
+            type="button"
+            onClick={() => onPertInputsChange(empiricalPert)}
+            className="text-xs text-spert-blue hover:underline"
+          >
+            Use sprint history ({empiricalPert.min} / {empiricalPert.mostLikely} / {empiricalPert.max})
+          </button>
+        )}
+        {hasInputs && (
+          <button
+            type="button"
+            onClick={() => onPertInputsChange(EMPTY_PERT_INPUTS)}
+            className="text-xs text-spert-text-muted hover:underline"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {error && (
+        <p className="ml-6 mt-1 text-xs text-spert-error">{error}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+
+import { PortfolioResults } from './PortfolioResults'
+import { formatDate } from '@/shared/lib/dates'
+import type { PortfolioResult, PortfolioTeamResult } from '../lib/portfolio'
+
+function makeTeam(
+  projectId: string,
+  projectName: string,
+  finishDates: string[],
+  lastToFinish: number,
+  sprintCadenceWeeks = 2
+): PortfolioTeamResult {
+  return {
+    projectId,
+    projectName,
+    forecastMode: 'history',
+    remainingBacklog: 100,
+    startDate: '2026-03-02',
+    sprintCadenceWeeks,
+    forecasts: { lognormal: { finishDates } },
+    lastToFinish: { lognormal: lastToFinish },
+  }
+}
+
+const RESULT: PortfolioResult = {
+  trialCount: 10000,
+  seed: 7,
+  percentiles: [50, 85],
+  distributions: ['lognormal'],
+  teams: [
+    makeTeam('a', 'Payments', ['2026-06-12', '2026-06-26'], 0.7),
+    makeTeam('b', 'Mobile', ['2026-06-05', '2026-06-19'], 0.35, 3),
+  ],
+  combined: { lognormal: { finishDates: ['2026-06-19', '2026-07-03'] } },
+  skipped: [{ projectId: 'c', projectName: 'Platform', reason: 'Set sprint cadence on the Sprint History tab.' }],
+}
+
+describe('PortfolioResults', () => {
+  it('shows when every team finishes and which team drives the date', () => {
+    render(<PortfolioResults result={RESULT} />)
+    expect(screen.getByText(/With 85% confidence, all 2 teams finish by/)).toBeTruthy()
+    expect(screen.getByText('Payments', { selector: 'strong' })).toBeTruthy()
+    expect(screen.getByText(/finishes last in 70% of trials/)).toBeTruthy()
+  })
+
+  it('lists per-team and combined P50/P85 dates', () => {
+    render(<PortfolioResults result={RESULT} />)
+    const mobile = screen.getByText('Mobile', { selector: 'td' }).closest('tr')!
+    expect(mobile.textContent).toContain('3 wk')
+    expect(mobile.textContent).toContain('35%')
+    const combined = screen.getByText('All teams').closest('tr')!
+    expect(combined.textContent).toContain(formatDate('2026-06-19'))
+    expect(combined.textContent).toContain(formatDate('2026-07-03'))
+  })
+
+  it('names teams that were left out', () => {
+    render(<PortfolioResults result={RESULT} />)
+    expect(screen.getByText(/Platform was left out: Set sprint cadence/)).toBeTruthy()
+  })
+
+  it('explains when no team could be forecast', () => {
+    render(<PortfolioResults result={{ ...RESULT, teams: [], combined: {}, distributions: [] }} />)
+    expect(screen.getByText('None of the selected projects could be forecast.')).toBeTruthy()
+  })
+})
@@ -0,0 +1,157 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useId, useMemo, useState } from 'react'
+import { formatDate, formatDateLong } from '@/shared/lib/dates'
+import { useSettingsStore } from '@/shared/state/settings-store'
+import { DISTRIBUTION_LABELS, type DistributionType } from '../types'
+import type { PortfolioResult } from '../lib/portfolio'
+
+interface PortfolioResultsProps {
+  result: PortfolioResult
+}
+
+// Same label style as the Forecast tab panels.
+const labelClass =
+  'flex items-end mb-1 text-sm font-semibold text-spert-text-secondary min-h-[1.75rem]'
+
+function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`
+}
+
+export function PortfolioResults({ result }: PortfolioResultsProps) {
+  const distributionsEnabled = useSettingsStore((s) => s.distributionsEnabled)
+  // Settings "Statistical methods to show" narrows the choice, but never to nothing
+  const distributions = useMemo(() => {
+    const enabled = result.distributions.filter((d) => distributionsEnabled.includes(d))
+    return enabled.length > 0 ? enabled : result.distributions
+  }, [result.distributions, distributionsEnabled])
+
+  const [selectedDistribution, setSelectedDistribution] = useState<DistributionType>(
+    () => distributions[0] ?? 'lognormal',
+  )
+  const effectiveDistribution: DistributionType = distributions.includes(selectedDistribution)
+    ? selectedDistribution
+    : (distributions[0] ?? selectedDistribution)
+
+  const formId = useId()
+  const distSelectId = `${formId}-dist`
+
+  const combined = result.combined[effectiveDistribution]
+  const confidentIndex = result.percentiles.length - 1
+  const driver = [...result.teams].sort(
+    (a, b) => (b.lastToFinish[effectiveDistribution] ?? 0) - (a.lastToFinish[effectiveDistribution] ?? 0),
+  )[0]
+
+  if (result.teams.length === 0) {
+    return (
+      <p className="text-sm italic text-spert-text-muted">
+        None of the selected projects could be forecast.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {distributions.length > 1 && (
+        <div className="min-w-[160px]">
+          <label htmlFor={distSelectId} className={labelClass}>
+            Distribution
+          </label>
+          <select
+            id={distSelectId}
+            name="portfolioDistribution"
+            value={effectiveDistribution}
+            onChange={(e) => setSelectedDistribution(e.target.value as DistributionType)}
+            className="text-sm border border-spert-border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 dark:text-gray-100"
+          >
+            {distributions.map((d) => (
+              <option key={d} value={d}>
+                {DISTRIBUTION_LABELS[d]}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {combined && (
+        <p aria-live="polite" className="text-sm text-spert-text dark:text-gray-100 leading-relaxed">
+          With {result.percentiles[confidentIndex]}% confidence, all {result.teams.length} team
+          {result.teams.length === 1 ? '' : 's'} finish by{' '}
+          <strong className="text-spert-blue">{formatDateLong(combined.finishDates[confidentIndex])}</strong>.
+          {result.teams.length > 1 && driver && (
+            <>
+              {' '}
+              <strong className="text-spert-blue">{driver.projectName}</strong> finishes last in{' '}
+              {formatShare(driver.lastToFinish[effectiveDistribution] ?? 0)} of trials.
+            </>
+          )}
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse text-sm tabular-nums">
+          <thead>
+            <tr className="border-b-2 border-spert-border-light text-left">
+              <th className="p-2 font-semibold text-spert-text-secondary">Team</th>
+              <th className="p-2 font-semibold text-spert-text-secondary">Cadence</th>
+              <th className="p-2 font-semibold text-spert-text-secondary">First sprint</th>
+              {result.percentiles.map((p) => (
+                <th key={p} className="p-2 font-semibold text-spert-text-secondary">P{p}</th>
+              ))}
+              <th className="p-2 font-semibold text-spert-text-secondary">Finishes last</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.teams.map((team) => {
+              const forecast = team.forecasts[effectiveDistribution]
+              return (
+                <tr key={team.projectId} className="border-b border-spert-border-light dark:border-gray-700">
+                  <td className="p-2 font-medium text-spert-text dark:text-gray-100">{team.projectName}</td>
+                  <td className="p-2">{team.sprintCadenceWeeks} wk</td>
+                  <td className="p-2">{formatDate(team.startDate)}</td>
+                  {result.percentiles.map((p, j) => (
+                    <td key={p} className="p-2">{forecast ? formatDate(forecast.finishDates[j]) : '—'}</td>
+                  ))}
+                  <td className="p-2">{formatShare(team.lastToFinish[effectiveDistribution] ?? 0)}</td>
+                </tr>
+              )
+            })}
+            {combined && (
+              <tr className="font-semibold bg-spert-bg-highlight dark:bg-gray-800">
+                <td className="p-2 text-spert-text dark:text-gray-100">All teams</td>
+                <td className="p-2" />
+                <td className="p-2" />
+                {result.percentiles.map((p, j) => (
+                  <td key={p} className="p-2">{formatDate(combined.finishDates[j])}</td>
+                ))}
+                <td className="p-2" />
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {result.skipped.length > 0 && (
+        <ul className="text-sm text-spert-error space-y-1">
+          {result.skipped.map((team) => (
+            <li key={team.projectId}>
+              {team.projectName} was left out: {team.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-xs text-spert-text-muted dark:text-gray-400 italic">
+        Each team is forecast from its own sprint history, as the headless forecast does it, with{' '}
+        {result.trialCount.toLocaleString()} trials. Every combined trial takes one trial from each
+        team, converts it to a calendar date on that team&apos;s cadence, and keeps the latest — so
+        the portfolio finishes later than any single team&apos;s forecast suggests. Teams are treated
+        as independent.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { cn } from '@/lib/utils'
+import { useIsClient } from '@/shared/hooks'
+import { usePortfolioForecast } from '../hooks/usePortfolioForecast'
+import { PortfolioResults } from './PortfolioResults'
+
+export function PortfolioTab() {
+  const isClient = useIsClient()
+  const {
+    projects,
+    sprintCounts,
+    selectedIds,
+    toggleProject,
+    result,
+    isSimulating,
+    cancelSimulation,
+    handleRun,
+  } = usePortfolioForecast()
+
+  if (!isClient) {
+    return <div className="text-muted-foreground">Loading...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl text-spert-text-muted">Portfolio forecast</h2>
+        <p className="text-sm text-spert-text-muted dark:text-gray-400 mt-1">
+          Select the teams a release depends on to forecast when the last of them finishes.
+        </p>
+      </div>
+
+      {projects.length === 0 ? (
+        <p className="text-sm text-spert-text-muted dark:text-gray-400 italic">
+          Create projects on the Projects tab to build a portfolio.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="border border-spert-border dark:border-gray-600 rounded-md max-h-60 overflow-y-auto">
+            {projects.map((project, i) => {
+              const count = sprintCounts.get(project.id) ?? 0
+              return (
+                <label
+                  key={project.id}
+                  className={`flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50 ${
+                    i > 0 ? 'border-t border-spert-border-light dark:border-gray-700' : ''
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    name="portfolioProjectSelection"
+                    aria-label={`Include ${project.name} in the portfolio`}
+                    checked={selectedIds.has(project.id)}
+                    onChange={() => toggleProject(project.id)}
+                    className="rounded border-gray-300 dark:border-gray-500 cursor-pointer"
+                  />
+                  <span className="flex-1 text-sm font-medium text-spert-text dark:text-gray-100">
+                    {project.name}
+                  </span>
+                  <span className="text-xs text-spert-text-muted dark:text-gray-400">
+                    {project.sprintCadenceWeeks ? `${project.sprintCadenceWeeks}-week sprints · ` : ''}
+                    {count} sprint{count === 1 ? '' : 's'}
+                  </span>
+                </label>
+              )
+            })}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={handleRun}
+              disabled={selectedIds.size === 0 || isSimulating}
+              className="px-5 py-2 text-sm font-semibold rounded bg-spert-blue text-white cursor-pointer hover:bg-spert-blue-dark transition-colors disabled:opacity-60 disabled:cursor-not-allowed disabled:bg-gray-400 dark:disabled:bg-gray-600"
+            >
+              {isSimulating
+                ? 'Running…'
+                : `Run Portfolio Forecast${selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}`}
+            </button>
+            {isSimulating && (
+              <button
+                type="button"
+                onClick={cancelSimulation}
+                className="text-xs text-spert-text-muted hover:underline"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className={cn('transition-opacity duration-300', isSimulating && 'opacity-50')}>
+          <PortfolioResults result={result} />
+        </div>
+      )}
+    </div>
+  )
+}
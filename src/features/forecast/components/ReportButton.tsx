@@ -23,6 +23,8 @@ interface ReportButtonProps {
   histogramChartRef?: RefObject<HTMLDivElement | null>
   projectName: string
   summaryText: string
+  trialCount?: number | null
+  seed?: number | null
 }
 
 export function ReportButton({
@@ -32,6 +34,8 @@ export function ReportButton({
   histogramChartRef,
   projectName,
   summaryText,
+  trialCount,
+  seed,
 }: ReportButtonProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [isGenerating, setIsGenerating] = useState(false)
@@ -75,7 +79,7 @@ export function ReportButton({
         return
       }
 
-      openForecastReport(sections, { projectName, generationDate: today(), summaryText })
+      openForecastReport(sections, { projectName, generationDate: today(), summaryText, trialCount, seed })
       toast.success('Report opened in new tab')
       setIsOpen(false)
     } catch (err) {
@@ -83,7 +87,7 @@ export function ReportButton({
     } finally {
       setIsGenerating(false)
     }
-  }, [includeResults, forecastResultsRef, chartRefs, projectName, summaryText])
+  }, [includeResults, forecastResultsRef, chartRefs, projectName, summaryText, trialCount, seed])
 
   return (
     <div className="relative" ref={popoverRef}>
@@ -3,12 +3,12 @@
 // See LICENSE file in the project root for full license text.
 
 import { describe, it, expect } from 'vitest'
-import { buildDynamicPercentileRows } from './ResultsTable'
+import { buildDynamicPercentileRows, bandTitle } from './ResultsTable'
 import type { QuadSimulationData } from '../lib/monte-carlo'
 
 describe('buildDynamicPercentileRows', () => {
   // Create deterministic sorted arrays — all identical values so percentile results are predictable
-  const makeArray = (value: number) => Array(100).fill(value) as number[]
+  const makeArray = (value: number) => new Uint16Array(100).fill(value)
 
   const simulationData: QuadSimulationData = {
     truncatedNormal: makeArray(10),
@@ -16,6 +16,7 @@ describe('buildDynamicPercentileRows', () => {
     gamma: makeArray(14),
     bootstrap: null,
     triangular: makeArray(8),
+    pert: makeArray(8),
     uniform: makeArray(16),
   }
 
@@ -97,4 +98,36 @@ describe('buildDynamicPercentileRows', () => {
       }
     }
   })
+
+  it('attaches a zero-width confidence band to constant data', () => {
+    const rows = buildDynamicPercentileRows(
+      simulationData, [85], columns, startDate, sprintCadenceWeeks
+    )
+    expect(rows[0].values[0]?.band).toEqual({ lower: 10, upper: 10, standardError: 0 })
+  })
+
+  it('attaches a band that brackets the percentile for spread data', () => {
+    const spread: QuadSimulationData = {
+      ...simulationData,
+      lognormal: Uint16Array.from({ length: 1000 }, (_, i) => 5 + Math.floor(i / 25)),
+    }
+    const rows = buildDynamicPercentileRows(
+      spread, [85], [{ key: 'lognormal' as const, label: 'Lognormal' }], startDate, sprintCadenceWeeks
+    )
+    const value = rows[0].values[0]!
+    expect(value.band!.lower).toBeLessThanOrEqual(value.sprintsRequired)
+    expect(value.band!.upper).toBeGreaterThanOrEqual(value.sprintsRequired)
+    expect(value.band!.upper - value.band!.lower).toBe(1)
+  })
+})
+
+describe('bandTitle', () => {
+  it('labels the band in absolute sprints with the standard error', () => {
+    expect(bandTitle({ lower: 10, upper: 12, standardError: 0.51 }, 7)).toBe(
+      '95% confidence band: Sprints 17–19 (Monte Carlo standard error 0.51 sprints)'
+    )
+    expect(bandTitle({ lower: 10, upper: 10, standardError: 0 }, 0)).toBe(
+      '95% confidence band: Sprint 10 (Monte Carlo standard error 0.00 sprints)'
+    )
+  })
 })
@@ -7,7 +7,8 @@
 import { cn } from '@/lib/utils'
 import type { PercentileResults, QuadResults, QuadSimulationData } from '../lib/monte-carlo'
 import { calculatePercentileResult } from '../lib/monte-carlo'
-import { formatDate } from '@/shared/lib/dates'
+import { formatDate, type NonWorkingDays, type WorkWeek } from '@/shared/lib/dates'
+import { percentileConfidenceInterval, type PercentileConfidenceInterval } from '@/shared/lib/math'
 import type { DistributionType } from '../types'
 import { getVisibleDistributions, DISTRIBUTION_LABELS } from '../types'
 import type { ForecastMode } from '@/shared/types'
@@ -31,7 +32,7 @@ export function getDistributionColumns(
 export interface PercentileRow {
   key: string
   label: string
-  values: ({ sprintsRequired: number; finishDate: string } | null)[]
+  values: ({ sprintsRequired: number; finishDate: string; band?: PercentileConfidenceInterval } | null)[]
 }
 
 /** Build rows dynamically from simulation data for any set of percentiles */
@@ -41,6 +42,8 @@ export function buildDynamicPercentileRows(
   columns: DistColumn[],
   startDate: string,
   sprintCadenceWeeks: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek,
 ): PercentileRow[] {
   return percentiles.map((p) => ({
     key: `p${p}`,
@@ -48,8 +51,12 @@ export function buildDynamicPercentileRows(
     values: columns.map((col) => {
       const sprintsArray = simulationData[col.key]
       if (!sprintsArray) return null
-      const result = calculatePercentileResult(sprintsArray, p, startDate, sprintCadenceWeeks)
-      return { sprintsRequired: result.sprintsRequired, finishDate: result.finishDate }
+      const result = calculatePercentileResult(sprintsArray, p, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek)
+      return {
+        sprintsRequired: result.sprintsRequired,
+        finishDate: result.finishDate,
+        band: percentileConfidenceInterval(sprintsArray, p),
+      }
     }),
   }))
 }
@@ -79,6 +86,14 @@ export function buildPercentileRows(
   }))
 }
 
+/** Tooltip for a percentile's Monte Carlo confidence band, in absolute sprint numbers */
+export function bandTitle(band: PercentileConfidenceInterval, completedSprintCount: number): string {
+  const lower = band.lower + completedSprintCount
+  const upper = band.upper + completedSprintCount
+  const range = lower === upper ? `Sprint ${lower}` : `Sprints ${lower}–${upper}`
+  return `95% confidence band: ${range} (Monte Carlo standard error ${band.standardError.toFixed(2)} sprints)`
+}
+
 export function ResultsTable({
   rows,
   columns,
@@ -131,8 +146,18 @@ export function ResultsTable({
                 const diffSprints = colIdx > 0 && baseResult && result.sprintsRequired !== baseResult.sprintsRequired
                 const diffDate = colIdx > 0 && baseResult && result.finishDate !== baseResult.finishDate
                 return [
-                  <td key={`${col.key}-sprint`} className={cn('px-2 py-3 text-right text-sm dark:text-gray-100', diffSprints && 'text-spert-blue font-medium')}>
+                  <td
+                    key={`${col.key}-sprint`}
+                    className={cn('px-2 py-3 text-right text-sm dark:text-gray-100', diffSprints && 'text-spert-blue font-medium')}
+                    title={result.band ? bandTitle(result.band, completedSprintCount) : undefined}
+                  >
                     {result.sprintsRequired + completedSprintCount}
+                    {/* Only a band that spans sprints is worth the extra line */}
+                    {result.band && result.band.upper > result.band.lower && (
+                      <span className="block text-[10px] font-normal text-muted-foreground">
+                        {result.band.lower + completedSprintCount}–{result.band.upper + completedSprintCount}
+                      </span>
+                    )}
                   </td>,
                   <td key={`${col.key}-date`} className={cn('px-2 py-3 text-sm dark:text-gray-100', diffDate && 'text-spert-blue font-medium')}>
                     {formatDate(result.finishDate)}
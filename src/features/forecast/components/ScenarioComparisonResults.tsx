@@ -0,0 +1,197 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useId, useMemo, useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts'
+import { cn } from '@/lib/utils'
+import { COLORS } from '@/shared/lib/colors'
+import { formatDate } from '@/shared/lib/dates'
+import { useSettingsStore } from '@/shared/state/settings-store'
+import { DISTRIBUTION_LABELS, type DistributionType } from '../types'
+import {
+  buildScenarioCdfData,
+  buildScenarioPercentileRows,
+  comparisonDistributions,
+  scenarioDataKey,
+  type ScenarioComparison,
+} from '../lib/scenarios'
+
+interface ScenarioComparisonResultsProps {
+  comparison: ScenarioComparison
+  completedSprintCount: number
+}
+
+// Same label style as the other forecast panels.
+const labelClass =
+  'flex items-end mb-1 text-sm font-semibold text-spert-text-secondary min-h-[1.75rem]'
+
+// One color per compared scenario (MAX_COMPARED_SCENARIOS); the baseline is brand blue.
+const SCENARIO_COLORS = [
+  COLORS.brand.blue,
+  COLORS.status.warningDark,
+  COLORS.status.successGreen,
+  COLORS.chart.bootstrap,
+]
+
+function formatDelta(days: number): string {
+  if (days === 0) return 'same'
+  return `${days > 0 ? '+' : '−'}${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'}`
+}
+
+export function ScenarioComparisonResults({ comparison, completedSprintCount }: ScenarioComparisonResultsProps) {
+  const distributionsEnabled = useSettingsStore((s) => s.distributionsEnabled)
+  const distributions = useMemo(
+    () => comparisonDistributions(comparison, distributionsEnabled),
+    [comparison, distributionsEnabled],
+  )
+  const [selectedDistribution, setSelectedDistribution] = useState<DistributionType>(
+    () => distributions[0] ?? 'lognormal',
+  )
+  const effectiveDistribution: DistributionType = distributions.includes(selectedDistribution)
+    ? selectedDistribution
+    : (distributions[0] ?? selectedDistribution)
+
+  const formId = useId()
+  const distSelectId = `${formId}-dist`
+
+  const chartData = useMemo(
+    () => buildScenarioCdfData(comparison, effectiveDistribution),
+    [comparison, effectiveDistribution],
+  )
+  const rows = useMemo(
+    () => buildScenarioPercentileRows(comparison, effectiveDistribution),
+    [comparison, effectiveDistribution],
+  )
+  const sprintToDate = useMemo(
+    () => new Map(chartData.map((point) => [point.sprints, point.dateLabel])),
+    [chartData],
+  )
+  const [baseline] = comparison.runs
+
+  return (
+    <div className="space-y-4">
+      <div className="min-w-[160px]">
+        <label htmlFor={distSelectId} className={labelClass}>
+          Distribution
+        </label>
+        <select
+          id={distSelectId}
+          name="scenarioDistribution"
+          value={effectiveDistribution}
+          onChange={(e) => setSelectedDistribution(e.target.value as DistributionType)}
+          className="text-sm border border-spert-border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 dark:text-gray-100"
+        >
+          {distributions.map((d) => (
+            <option key={d} value={d}>
+              {DISTRIBUTION_LABELS[d]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* CDF overlay */}
+      <div className="bg-white dark:bg-gray-800 p-2">
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={chartData} margin={{ top: 5, right: 30, left: 0, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={COLORS.border.light} />
+            <XAxis
+              dataKey="sprints"
+              tickFormatter={(sprints: number) => String(sprints + completedSprintCount)}
+              tick={{ fontSize: 11, fill: COLORS.text.muted }}
+              axisLine={{ stroke: '#e5e7eb' }}
+              interval="preserveStartEnd"
+              label={{ value: 'Sprint', position: 'insideBottom', offset: -12, fontSize: 12 }}
+            />
+            <YAxis
+              domain={[0, 100]}
+              label={{ value: 'Probability (%)', angle: -90, position: 'insideLeft', fontSize: 12 }}
+              tick={{ fontSize: 11 }}
+            />
+            <Tooltip
+              formatter={(value) => (typeof value === 'number' ? `${value.toFixed(1)}%` : value)}
+              labelFormatter={(sprints) =>
+                `Sprint ${(sprints as number) + completedSprintCount} (${sprintToDate.get(sprints as number) ?? ''})`
+              }
+              contentStyle={{ fontSize: 11 }}
+            />
+            <Legend verticalAlign="top" wrapperStyle={{ fontSize: 11 }} />
+            {comparison.runs.map((run, i) => (
+              <Line
+                key={run.scenarioId}
+                type="stepAfter"
+                dataKey={scenarioDataKey(i)}
+                name={run.name}
+                stroke={SCENARIO_COLORS[i % SCENARIO_COLORS.length]}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Side-by-side percentiles, deltas against the baseline */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm tabular-nums">
+          <thead>
+            <tr className="text-left text-xs text-spert-text-muted">
+              <th className="py-1 pr-4 font-medium">Percentile</th>
+              {comparison.runs.map((run, i) => (
+                <th key={run.scenarioId} className="py-1 pr-4 font-medium">
+                  {run.name}
+                  {i === 0 && ' (baseline)'}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ percentile, cells }) => (
+              <tr key={percentile} className="border-t border-border dark:border-gray-700">
+                <td className="py-1 pr-4 text-spert-text-secondary dark:text-gray-300">P{percentile}</td>
+                {cells.map((cell, i) => (
+                  <td key={comparison.runs[i].scenarioId} className="py-1 pr-4 text-spert-text dark:text-gray-100">
+                    {cell ? formatDate(cell.finishDate) : '—'}
+                    {cell?.deltaDays != null && (
+                      <span
+                        className={cn(
+                          'ml-1 text-xs',
+                          cell.deltaDays > 0
+                            ? 'text-amber-600 dark:text-amber-400'
+                            : cell.deltaDays < 0
+                              ? 'text-emerald-600 dark:text-emerald-400'
+                              : 'text-spert-text-muted',
+                        )}
+                      >
+                        ({formatDelta(cell.deltaDays)})
+                      </span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-spert-text-muted dark:text-gray-400 italic">
+        All scenarios ran with the same random seed ({comparison.seed}) and{' '}
+        {comparison.trialCount.toLocaleString()} trials each, through their whole remaining backlog,
+        so differences come from the inputs rather than sampling noise. Autocorrelation, trend,
+        Bootstrap weighting, throughput, and PERT settings are the current ones. Deltas are against{' '}
+        {baseline?.name ?? 'the first scenario'}.
+      </p>
+    </div>
+  )
+}
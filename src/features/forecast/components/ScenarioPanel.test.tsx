@@ -0,0 +1,107 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+
+import { ScenarioPanel } from './ScenarioPanel'
+import type { ForecastScenario } from '@/shared/types'
+import type { ScenarioComparison } from '../lib/scenarios'
+import type { QuadSimulationData } from '../lib/monte-carlo'
+
+const TIMESTAMP = '2026-01-01T00:00:00Z'
+
+function makeScenario(id: string, name: string, remainingBacklog: number): ForecastScenario {
+  return {
+    id, name, remainingBacklog, forecastMode: 'history', enabledAdjustmentIds: [],
+    createdAt: TIMESTAMP, updatedAt: TIMESTAMP,
+  }
+}
+
+const SCENARIOS = [
+  makeScenario('a', 'Current plan', 120),
+  makeScenario('b', 'Descope reporting', 90),
+  makeScenario('c', 'Add two devs', 120),
+]
+
+function quad(values: number[]): QuadSimulationData {
+  const sorted = Uint16Array.from(values).sort()
+  return {
+    truncatedNormal: sorted, lognormal: sorted, gamma: sorted, bootstrap: null,
+    triangular: sorted, pert: sorted, uniform: sorted,
+  }
+}
+
+const COMPARISON: ScenarioComparison = {
+  startDate: '2026-06-01',
+  sprintCadenceWeeks: 2,
+  trialCount: 1000,
+  seed: 42,
+  runs: [
+    { scenarioId: 'a', name: 'Current plan', forecastMode: 'history', remainingBacklog: 120, data: quad([6, 6, 7, 7]) },
+    { scenarioId: 'b', name: 'Descope reporting', forecastMode: 'history', remainingBacklog: 90, data: quad([4, 5, 5, 6]) },
+  ],
+}
+
+type Props = Parameters<typeof ScenarioPanel>[0]
+function renderPanel(overrides: Partial<Props> = {}) {
+  const defaults: Props = {
+    scenarios: SCENARIOS,
+    scenarioComparison: null,
+    unitOfMeasure: 'points',
+    productivityAdjustments: [],
+    completedSprintCount: 5,
+    isSimulating: false,
+    onSave: () => {},
+    onUpdate: () => {},
+    onDelete: () => {},
+    onApply: () => {},
+    onCompare: () => {},
+  }
+  render(<ScenarioPanel {...defaults} {...overrides} />)
+  fireEvent.click(screen.getByRole('button', { name: /Scenarios/ }))
+}
+
+describe('ScenarioPanel', () => {
+  it('saves the current inputs under a name', () => {
+    const onSave = vi.fn()
+    renderPanel({ onSave })
+    const save = screen.getByRole('button', { name: 'Save Current Inputs' }) as HTMLButtonElement
+    expect(save.disabled).toBe(true)
+    fireEvent.change(screen.getByLabelText('Scenario name'), { target: { value: 'Hire contractor' } })
+    fireEvent.click(save)
+    expect(onSave).toHaveBeenCalledWith('Hire contractor')
+  })
+
+  it('compares the ticked scenarios in the order they were ticked', () => {
+    const onCompare = vi.fn()
+    renderPanel({ onCompare })
+    const compare = screen.getByRole('button', { name: 'Compare Selected' }) as HTMLButtonElement
+    fireEvent.click(screen.getByLabelText('Compare Add two devs'))
+    expect(compare.disabled).toBe(true)
+    fireEvent.click(screen.getByLabelText('Compare Current plan'))
+    expect(screen.getByText('baseline')).toBeTruthy()
+    fireEvent.click(compare)
+    expect(onCompare).toHaveBeenCalledWith(['c', 'a'])
+  })
+
+  it('applies a scenario and confirms before deleting one', () => {
+    const onApply = vi.fn()
+    const onDelete = vi.fn()
+    renderPanel({ onApply, onDelete })
+    fireEvent.click(screen.getAllByRole('button', { name: 'Apply' })[1])
+    expect(onApply).toHaveBeenCalledWith('b')
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Descope reporting' }))
+    expect(onDelete).not.toHaveBeenCalled()
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }))
+    expect(onDelete).toHaveBeenCalledWith('b')
+  })
+
+  it('shows the comparison table with deltas against the baseline', () => {
+    renderPanel({ scenarioComparison: COMPARISON })
+    expect(screen.getByText('Current plan (baseline)')).toBeTruthy()
+    expect(screen.getAllByText('(−14 days)').length).toBeGreaterThan(0)
+    expect(screen.getByText(/same random seed \(42\)/)).toBeTruthy()
+  })
+})
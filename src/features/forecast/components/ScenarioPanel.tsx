@@ -0,0 +1,242 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useId, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { ConfirmDialog } from '@/shared/components/ConfirmDialog'
+import { TrashIconButton } from '@/shared/components/TrashIconButton'
+import type { ForecastScenario, ProductivityAdjustment } from '@/shared/types'
+import { describeScenario, MAX_COMPARED_SCENARIOS, type ScenarioComparison } from '../lib/scenarios'
+import { ScenarioComparisonResults } from './ScenarioComparisonResults'
+
+interface ScenarioPanelProps {
+  scenarios: ForecastScenario[]
+  /** Null until scenarios have been compared */
+  scenarioComparison: ScenarioComparison | null
+  unitOfMeasure: string
+  productivityAdjustments: ProductivityAdjustment[]
+  completedSprintCount: number
+  isSimulating: boolean
+  onSave: (name: string) => void
+  onUpdate: (scenarioId: string) => void
+  onDelete: (scenarioId: string) => void
+  onApply: (scenarioId: string) => void
+  /** Scenario ids in comparison order — the first is the baseline */
+  onCompare: (scenarioIds: string[]) => void
+}
+
+// Same label style as WorkByDatePanel / ForecastForm.
+const labelClass =
+  'flex items-end mb-1 text-sm font-semibold text-spert-text-secondary min-h-[1.75rem]'
+
+const primaryButtonClass =
+  'px-3 py-1.5 text-sm font-medium text-white bg-spert-blue rounded cursor-pointer hover:opacity-90 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed'
+
+const rowButtonClass =
+  'px-2 py-1 text-xs font-medium text-spert-blue border border-spert-border dark:border-gray-600 rounded cursor-pointer hover:bg-muted/50 transition-colors'
+
+export function ScenarioPanel({
+  scenarios,
+  scenarioComparison,
+  unitOfMeasure,
+  productivityAdjustments,
+  completedSprintCount,
+  isSimulating,
+  onSave,
+  onUpdate,
+  onDelete,
+  onApply,
+  onCompare,
+}: ScenarioPanelProps) {
+  // Collapsed by default, like the other forecast panels.
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [name, setName] = useState('')
+  // Selection order matters: the first scenario ticked is the comparison baseline.
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [pendingDelete, setPendingDelete] = useState<ForecastScenario | null>(null)
+
+  const formId = useId()
+  const nameInputId = `${formId}-name`
+
+  // Drop selections whose scenario has since been deleted
+  const compareIds = selectedIds.filter((id) => scenarios.some((sc) => sc.id === id))
+  const canCompare = compareIds.length >= 2 && !isSimulating
+
+  const toggleSelected = (scenarioId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(scenarioId)
+        ? ids.filter((id) => id !== scenarioId)
+        : ids.length < MAX_COMPARED_SCENARIOS ? [...ids, scenarioId] : ids
+    )
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+    onSave(name)
+    setName('')
+  }
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 flex items-center gap-2 text-left hover:bg-muted/50 transition-colors"
+        aria-expanded={isExpanded}
+        aria-controls="scenario-panel"
+      >
+        <span
+          className={cn(
+            'inline-block text-[10px] text-muted-foreground transition-transform duration-200',
+            isExpanded && 'rotate-90',
+          )}
+          aria-hidden="true"
+        >
+          ▶
+        </span>
+        <h3 className="text-sm font-medium text-muted-foreground">Scenarios</h3>
+      </button>
+
+      {isExpanded && (
+        <div id="scenario-panel" className="px-4 pb-4 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Save the current inputs — backlog, velocity, mode, volatility, scope growth, and enabled
+            adjustments — as a named scenario, then compare scenarios side by side.
+          </p>
+
+          {/* Save row */}
+          <form onSubmit={handleSave} className="flex flex-wrap gap-4 items-end">
+            <div className="min-w-[220px]">
+              <label htmlFor={nameInputId} className={labelClass}>
+                Scenario name
+              </label>
+              <input
+                id={nameInputId}
+                name="scenarioName"
+                type="text"
+                value={name}
+                maxLength={200}
+                placeholder="e.g., Descope reporting"
+                onChange={(e) => setName(e.target.value)}
+                className="w-full text-sm border border-spert-border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 dark:text-gray-100"
+              />
+            </div>
+            <div>
+              <button type="submit" disabled={!name.trim()} className={primaryButtonClass}>
+                Save Current Inputs
+              </button>
+            </div>
+          </form>
+
+          {scenarios.length === 0 ? (
+            <p className="text-sm italic text-spert-text-muted">No scenarios saved.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="border-b-2 border-spert-border-light">
+                    <th className="p-2 text-left font-semibold text-spert-text-secondary">Compare</th>
+                    <th className="p-2 text-left font-semibold text-spert-text-secondary">Name</th>
+                    <th className="p-2 text-left font-semibold text-spert-text-secondary">Inputs</th>
+                    <th className="p-2 text-right font-semibold text-spert-text-secondary">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {scenarios.map((scenario) => {
+                    const order = compareIds.indexOf(scenario.id)
+                    return (
+                      <tr key={scenario.id} className="border-b border-spert-border-light">
+                        <td className="p-2">
+                          <input
+                            type="checkbox"
+                            checked={order >= 0}
+                            disabled={order < 0 && compareIds.length >= MAX_COMPARED_SCENARIOS}
+                            onChange={() => toggleSelected(scenario.id)}
+                            aria-label={`Compare ${scenario.name}`}
+                          />
+                          {order === 0 && (
+                            <span className="ml-1 text-xs text-spert-text-muted">baseline</span>
+                          )}
+                        </td>
+                        <td className="p-2 font-medium">{scenario.name}</td>
+                        <td className="p-2 text-[0.8rem] text-spert-text-secondary">
+                          {describeScenario(scenario, unitOfMeasure, productivityAdjustments)}
+                        </td>
+                        <td className="whitespace-nowrap p-2 text-right">
+                          <div className="inline-flex items-center gap-1">
+                            <button
+                              type="button"
+                              onClick={() => onApply(scenario.id)}
+                              className={rowButtonClass}
+                              title="Load this scenario's inputs into the forecast form"
+                            >
+                              Apply
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => onUpdate(scenario.id)}
+                              className={rowButtonClass}
+                              title="Replace this scenario's inputs with the current ones"
+                            >
+                              Update
+                            </button>
+                            <TrashIconButton
+                              onClick={() => setPendingDelete(scenario)}
+                              ariaLabel={`Delete ${scenario.name}`}
+                              title={`Delete ${scenario.name}`}
+                            />
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {scenarios.length > 1 && (
+            <div className="flex flex-wrap gap-4 items-center">
+              <button
+                type="button"
+                onClick={() => onCompare(compareIds)}
+                disabled={!canCompare}
+                className={primaryButtonClass}
+              >
+                Compare Selected
+              </button>
+              <span className="text-xs text-spert-text-muted">
+                Tick 2–{MAX_COMPARED_SCENARIOS} scenarios; the first ticked is the baseline.
+              </span>
+            </div>
+          )}
+
+          {scenarioComparison && (
+            <ScenarioComparisonResults
+              comparison={scenarioComparison}
+              completedSprintCount={completedSprintCount}
+            />
+          )}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={pendingDelete !== null}
+        title="Delete Scenario"
+        message={`Delete "${pendingDelete?.name ?? ''}"?`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onConfirm={() => {
+          if (pendingDelete) onDelete(pendingDelete.id)
+          setPendingDelete(null)
+        }}
+        onCancel={() => setPendingDelete(null)}
+        variant="danger"
+      />
+    </div>
+  )
+}
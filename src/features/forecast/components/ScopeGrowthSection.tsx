@@ -6,21 +6,25 @@
 
 import { cn } from '@/lib/utils'
 import type { ScopeChangeStats } from '../lib/statistics'
+import type { ScopeGrowthSampling } from '../lib/scope-growth'
+import { MIN_SPRINTS_FOR_BOOTSTRAP } from '../constants'
 
 interface ScopeGrowthSectionProps {
   scopeChangeStats: ScopeChangeStats
   modelScopeGrowth: boolean
   scopeGrowthMode: 'calculated' | 'custom'
   customScopeGrowth: string
+  scopeGrowthSampling: ScopeGrowthSampling
   effectiveMean: number
   unitOfMeasure: string
   onModelScopeGrowthChange: (value: boolean) => void
   onScopeGrowthModeChange: (mode: 'calculated' | 'custom') => void
   onCustomScopeGrowthChange: (value: string) => void
+  onScopeGrowthSamplingChange: (sampling: ScopeGrowthSampling) => void
 }
 
 /**
- * Scope growth modeling controls (checkbox + radio options).
+ * Scope growth modeling controls (checkbox + radio options + per-sprint sampling).
  *
  * Extracted from ForecastForm to keep it under the ~300 LOC guideline.
  */
@@ -29,15 +33,20 @@ export function ScopeGrowthSection({
   modelScopeGrowth,
   scopeGrowthMode,
   customScopeGrowth,
+  scopeGrowthSampling,
   effectiveMean,
   unitOfMeasure,
   onModelScopeGrowthChange,
   onScopeGrowthModeChange,
   onCustomScopeGrowthChange,
+  onScopeGrowthSamplingChange,
 }: ScopeGrowthSectionProps) {
   const activeScopeGrowth = scopeGrowthMode === 'custom'
     ? parseFloat(customScopeGrowth) || 0
     : scopeChangeStats.averageScopeInjection
+  const { injections, injectionVolatility } = scopeChangeStats
+  const hasSpread = injectionVolatility > 0
+  const canBootstrap = injections.length >= MIN_SPRINTS_FOR_BOOTSTRAP
 
   return (
     <div className="mt-3 rounded-md border border-border dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2">
@@ -109,6 +118,32 @@ export function ScopeGrowthSection({
             <span className="text-sm text-spert-text-muted dark:text-gray-400">{unitOfMeasure}/sprint</span>
           </label>
 
+          {/* Per-sprint sampling — fixed ignores scope uncertainty in the percentiles */}
+          <div className="flex items-center gap-2 pt-1">
+            <label htmlFor="scopeGrowthSampling" className="text-sm text-spert-text-secondary dark:text-gray-300">
+              Each sprint:
+            </label>
+            <select
+              id="scopeGrowthSampling"
+              name="scopeGrowthSampling"
+              value={scopeGrowthSampling}
+              onChange={(e) => onScopeGrowthSamplingChange(e.target.value as ScopeGrowthSampling)}
+              className="text-sm border border-spert-border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 dark:text-gray-100"
+            >
+              <option value="fixed">Fixed (same amount)</option>
+              <option value="normal" disabled={!hasSpread}>Varies — Normal</option>
+              <option value="lognormal" disabled={!hasSpread}>Varies — Lognormal</option>
+              <option value="bootstrap" disabled={!canBootstrap}>Varies — Bootstrap past sprints</option>
+            </select>
+            {scopeGrowthSampling !== 'fixed' && (
+              <span className="text-xs text-spert-text-muted dark:text-gray-400 tabular-nums">
+                {scopeGrowthSampling === 'bootstrap'
+                  ? `resamples ${injections.length} sprints`
+                  : `SD ${injectionVolatility.toFixed(1)} ${unitOfMeasure}`}
+              </span>
+            )}
+          </div>
+
           {/* Warning — applies to whichever mode is active */}
           {activeScopeGrowth >= effectiveMean && effectiveMean > 0 && (
             <span className="text-xs text-spert-error dark:text-red-400 font-medium block ml-5">
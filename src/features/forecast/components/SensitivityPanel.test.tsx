@@ -0,0 +1,66 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+
+import { SensitivityPanel } from './SensitivityPanel'
+import type { SensitivityAnalysis } from '../lib/sensitivity'
+
+const ANALYSIS: SensitivityAnalysis = {
+  sprintCadenceWeeks: 2,
+  trialCount: 5000,
+  baseline: { lognormal: { sprints: 6, finishDate: '2026-08-21' } },
+  factors: [
+    {
+      id: 'velocityMean',
+      name: 'Velocity mean',
+      low: { label: '−10% (18)', points: { lognormal: { sprints: 6.7, finishDate: '2026-09-04' } } },
+      high: { label: '+10% (22)', points: { lognormal: { sprints: 5.4, finishDate: '2026-08-21' } } },
+    },
+    {
+      id: 'backlog',
+      name: 'Remaining backlog',
+      low: { label: '−10% (90)', points: { lognormal: { sprints: 5.8, finishDate: '2026-08-21' } } },
+      high: { label: '+10% (110)', points: { lognormal: { sprints: 6.2, finishDate: '2026-09-04' } } },
+    },
+  ],
+}
+
+type Props = Parameters<typeof SensitivityPanel>[0]
+function renderPanel(overrides: Partial<Props> = {}) {
+  const defaults: Props = {
+    sensitivityAnalysis: null,
+    canRun: true,
+    isSimulating: false,
+    onRun: () => {},
+    forecastMode: 'subjective',
+  }
+  render(<SensitivityPanel {...defaults} {...overrides} />)
+  fireEvent.click(screen.getByRole('button', { name: /Sensitivity/i }))
+}
+
+describe('SensitivityPanel', () => {
+  it('disables the run button until a forecast has run', () => {
+    renderPanel({ canRun: false })
+    expect((screen.getByRole('button', { name: 'Run Sensitivity' }) as HTMLButtonElement).disabled).toBe(true)
+    expect(screen.getByText(/Run the forecast first/)).toBeTruthy()
+  })
+
+  it('starts an analysis on request', () => {
+    const onRun = vi.fn()
+    renderPanel({ onRun })
+    fireEvent.click(screen.getByRole('button', { name: 'Run Sensitivity' }))
+    expect(onRun).toHaveBeenCalledOnce()
+  })
+
+  it('names the input with the widest swing', () => {
+    renderPanel({ sensitivityAnalysis: ANALYSIS })
+    expect((screen.getByRole('button', { name: 'Re-run Sensitivity' }) as HTMLButtonElement).disabled).toBe(false)
+    const narrative = screen.getByText(/moves the date the most/)
+    expect(narrative.textContent).toContain('Velocity mean')
+    expect(narrative.textContent).toContain('a swing of 18 days')
+    expect(screen.getByText(/5,000 trials per run/)).toBeTruthy()
+  })
+})
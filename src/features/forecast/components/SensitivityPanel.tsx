@@ -0,0 +1,228 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useId, useMemo, useState } from 'react'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts'
+import { cn } from '@/lib/utils'
+import { COLORS } from '@/shared/lib/colors'
+import { formatDateLong } from '@/shared/lib/dates'
+import { useSettingsStore } from '@/shared/state/settings-store'
+import type { ForecastMode } from '@/shared/types'
+import { DISTRIBUTION_LABELS, getVisibleDistributions, type DistributionType } from '../types'
+import {
+  buildTornadoRows,
+  SENSITIVITY_PERCENTILE,
+  type SensitivityAnalysis,
+  type TornadoRow,
+} from '../lib/sensitivity'
+
+interface SensitivityPanelProps {
+  /** Null until an analysis has run for the current forecast */
+  sensitivityAnalysis: SensitivityAnalysis | null
+  /** A forecast has run, so there are inputs to perturb */
+  canRun: boolean
+  isSimulating: boolean
+  onRun: () => void
+  forecastMode: ForecastMode
+}
+
+// Same label style as WorkByDatePanel / ForecastForm.
+const labelClass =
+  'flex items-end mb-1 text-sm font-semibold text-spert-text-secondary min-h-[1.75rem]'
+
+// Neutral pair: lowering an input can pull the date in or push it out.
+const LOW_COLOR = COLORS.brand.blue
+const HIGH_COLOR = COLORS.status.warningDark
+
+function formatShift(days: number): string {
+  if (days === 0) return 'no change'
+  return `${days > 0 ? '+' : '−'}${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'}`
+}
+
+function describeScenario(label: string | null, shift: number | null, finishDate: string | null): string {
+  if (label === null || shift === null) return ''
+  return `${label}: ${formatShift(shift)}${finishDate ? ` (P${SENSITIVITY_PERCENTILE} ${formatDateLong(finishDate)})` : ''}`
+}
+
+export function SensitivityPanel({
+  sensitivityAnalysis,
+  canRun,
+  isSimulating,
+  onRun,
+  forecastMode,
+}: SensitivityPanelProps) {
+  // Collapsed by default, like the other post-results panels.
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  const distributionsEnabled = useSettingsStore((s) => s.distributionsEnabled)
+  const hasBootstrap = sensitivityAnalysis?.baseline.bootstrap !== undefined
+  const visibleDistributions = useMemo(
+    () => getVisibleDistributions(forecastMode, hasBootstrap, distributionsEnabled),
+    [forecastMode, hasBootstrap, distributionsEnabled],
+  )
+
+  const [selectedDistribution, setSelectedDistribution] = useState<DistributionType>(
+    () => visibleDistributions[0] ?? 'lognormal',
+  )
+
+  const formId = useId()
+  const distSelectId = `${formId}-dist`
+
+  // Drift protection — same fallback as WorkByDatePanel.
+  const effectiveDistribution: DistributionType = visibleDistributions.includes(selectedDistribution)
+    ? selectedDistribution
+    : (visibleDistributions[0] ?? selectedDistribution)
+
+  const rows = useMemo(
+    () => (sensitivityAnalysis ? buildTornadoRows(sensitivityAnalysis, effectiveDistribution) : []),
+    [sensitivityAnalysis, effectiveDistribution],
+  )
+  const baseline = sensitivityAnalysis?.baseline[effectiveDistribution] ?? null
+  const widest = rows[0]
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 flex items-center gap-2 text-left hover:bg-muted/50 transition-colors"
+        aria-expanded={isExpanded}
+        aria-controls="sensitivity-panel"
+      >
+        <span
+          className={cn(
+            'inline-block text-[10px] text-muted-foreground transition-transform duration-200',
+            isExpanded && 'rotate-90',
+          )}
+          aria-hidden="true"
+        >
+          ▶
+        </span>
+        <h3 className="text-sm font-medium text-muted-foreground">Sensitivity</h3>
+      </button>
+
+      {isExpanded && (
+        <div id="sensitivity-panel" className="px-4 pb-4 space-y-4">
+          {/* Control row */}
+          <div className="flex flex-wrap gap-4 items-end">
+            <div>
+              <button
+                type="button"
+                onClick={onRun}
+                disabled={!canRun || isSimulating}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-spert-blue rounded cursor-pointer hover:opacity-90 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {sensitivityAnalysis ? 'Re-run Sensitivity' : 'Run Sensitivity'}
+              </button>
+            </div>
+
+            {sensitivityAnalysis && (
+              <div className="min-w-[160px]">
+                <label htmlFor={distSelectId} className={labelClass}>
+                  Distribution
+                </label>
+                <select
+                  id={distSelectId}
+                  name="sensitivityDistribution"
+                  value={effectiveDistribution}
+                  onChange={(e) => setSelectedDistribution(e.target.value as DistributionType)}
+                  className="text-sm border border-spert-border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 dark:text-gray-100"
+                >
+                  {visibleDistributions.map((d) => (
+                    <option key={d} value={d}>
+                      {DISTRIBUTION_LABELS[d]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {/* Narrative */}
+          {!sensitivityAnalysis && (
+            <p className="text-sm text-muted-foreground italic">
+              {!canRun
+                ? 'Run the forecast first, then see which input moves the finish date the most.'
+                : isSimulating
+                  ? 'Simulating…'
+                  : `Re-runs the forecast with one input nudged at a time and charts how far the P${SENSITIVITY_PERCENTILE} finish date moves.`}
+            </p>
+          )}
+
+          {baseline && widest && (
+            <p aria-live="polite" className="text-sm text-spert-text dark:text-gray-100 leading-relaxed">
+              Against a P{SENSITIVITY_PERCENTILE} finish of{' '}
+              <strong className="text-spert-blue">{formatDateLong(baseline.finishDate)}</strong>,{' '}
+              <strong className="text-spert-blue">{widest.name}</strong> moves the date the most — a swing of{' '}
+              <strong className="text-spert-blue">{widest.swingDays} days</strong>.
+            </p>
+          )}
+
+          {/* Tornado chart: widest swing on top */}
+          {baseline && rows.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 p-2">
+              <ResponsiveContainer width="100%" height={Math.max(160, rows.length * 44 + 70)}>
+                <BarChart
+                  data={rows}
+                  layout="vertical"
+                  margin={{ top: 5, right: 30, left: 10, bottom: 20 }}
+                  barGap={0}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke={COLORS.border.light} horizontal={false} />
+                  <XAxis
+                    type="number"
+                    tick={{ fontSize: 11, fill: COLORS.text.muted }}
+                    axisLine={{ stroke: '#e5e7eb' }}
+                    label={{ value: `P${SENSITIVITY_PERCENTILE} shift (days)`, position: 'insideBottom', offset: -12, fontSize: 12 }}
+                  />
+                  <YAxis
+                    type="category"
+                    dataKey="name"
+                    width={150}
+                    tick={{ fontSize: 11, fill: COLORS.text.secondary }}
+                  />
+                  <ReferenceLine x={0} stroke={COLORS.text.light} />
+                  <Tooltip
+                    formatter={(_value, _name, item) => {
+                      const row = item.payload as TornadoRow
+                      return item.dataKey === 'lowShiftDays'
+                        ? [describeScenario(row.lowLabel, row.lowShiftDays, row.lowFinishDate), 'Lower']
+                        : [describeScenario(row.highLabel, row.highShiftDays, row.highFinishDate), 'Higher']
+                    }}
+                    contentStyle={{ fontSize: 11 }}
+                  />
+                  <Legend verticalAlign="top" wrapperStyle={{ fontSize: 11 }} />
+                  <Bar dataKey="lowShiftDays" name="Input lowered" fill={LOW_COLOR} opacity={0.8} />
+                  <Bar dataKey="highShiftDays" name="Input raised" fill={HIGH_COLOR} opacity={0.8} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {sensitivityAnalysis && (
+            <p className="text-xs text-spert-text-muted dark:text-gray-400 italic">
+              Each input is nudged on its own while the rest of the forecast — random seed included —
+              stays as last run, with {sensitivityAnalysis.trialCount.toLocaleString()} trials per run.
+              Shifts compare the interpolated P{SENSITIVITY_PERCENTILE}, so changes smaller than a sprint
+              still show; productivity adjustments are compared by removing them. Milestone projects
+              are analysed through the final milestone.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
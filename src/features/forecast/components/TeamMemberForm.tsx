@@ -0,0 +1,168 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useState } from 'react'
+import { cn } from '@/lib/utils'
+import type { TeamMember } from '@/shared/types'
+import { isValidDateRange } from '@/shared/lib/dates'
+
+interface TeamMemberFormProps {
+  member: TeamMember | null
+  onSubmit: (data: Omit<TeamMember, 'id' | 'createdAt' | 'updatedAt'>) => void
+  onCancel: () => void
+}
+
+const fieldLabelClass = 'mb-1 block text-[0.8rem] font-semibold text-spert-text-secondary'
+
+function inputClass(value: string, hasError = false) {
+  return cn(
+    'w-full rounded p-[0.4rem] text-[0.85rem] dark:text-gray-100',
+    hasError
+      ? 'border border-spert-error bg-white dark:bg-gray-700'
+      : value
+        ? 'border border-spert-border dark:border-gray-600 bg-white dark:bg-gray-700'
+        : 'border-2 border-spert-blue bg-spert-bg-highlight dark:bg-gray-700'
+  )
+}
+
+export function TeamMemberForm({ member, onSubmit, onCancel }: TeamMemberFormProps) {
+  const [name, setName] = useState(member?.name ?? '')
+  const [startDate, setStartDate] = useState(member?.startDate ?? '')
+  const [endDate, setEndDate] = useState(member?.endDate ?? '')
+  const [availabilityPercent, setAvailabilityPercent] = useState(
+    member ? Math.round(member.availability * 100) : 100
+  )
+
+  const endDateError =
+    endDate && !isValidDateRange(endDate)
+      ? 'Date must be between 2000 and 2050'
+      : endDate && startDate && endDate < startDate
+        ? 'End date must be on or after start date'
+        : ''
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    onSubmit({
+      name: name.trim(),
+      startDate,
+      endDate: endDate || undefined,
+      availability: availabilityPercent / 100,
+    })
+  }
+
+  const isValid =
+    name.trim().length > 0 &&
+    startDate.length === 10 &&
+    isValidDateRange(startDate) &&
+    !endDateError
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-border dark:border-gray-700 p-4 bg-white dark:bg-gray-800">
+      <h4 className="font-medium text-[0.9rem] dark:text-gray-100">
+        {member ? 'Edit Team Member' : 'Add Team Member'}
+      </h4>
+
+      <div className="flex flex-wrap items-start gap-3">
+        <div className="min-w-[120px] flex-[1_1_160px]">
+          <label htmlFor="memberName" className={fieldLabelClass}>
+            Name <span className="text-spert-error">*</span>
+          </label>
+          <input
+            id="memberName"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Alex"
+            autoFocus
+            className={inputClass(name)}
+            required
+          />
+        </div>
+
+        <div className="flex-[0_0_130px]">
+          <label htmlFor="memberStartDate" className={fieldLabelClass}>
+            From <span className="text-spert-error">*</span>
+          </label>
+          <input
+            id="memberStartDate"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            min="2000-01-01"
+            max="2050-12-31"
+            className={inputClass(startDate)}
+            required
+          />
+        </div>
+
+        <div className="flex-[0_0_130px]">
+          <label htmlFor="memberEndDate" className={fieldLabelClass}>
+            Until
+          </label>
+          <input
+            id="memberEndDate"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            min="2000-01-01"
+            max="2050-12-31"
+            className={cn(
+              'w-full rounded p-[0.4rem] text-[0.85rem] dark:text-gray-100 bg-white dark:bg-gray-700 border',
+              endDateError ? 'border-spert-error' : 'border-spert-border dark:border-gray-600'
+            )}
+          />
+          <div className="mt-[0.2rem] text-[0.7rem] text-spert-error">
+            {endDateError || <span className="text-spert-text-helper dark:text-gray-400">Blank = ongoing</span>}
+          </div>
+        </div>
+
+        <div className="flex-[0_0_220px]">
+          <label htmlFor="memberAvailability" className={fieldLabelClass}>
+            Availability: {availabilityPercent}%
+          </label>
+          <input
+            id="memberAvailability"
+            type="range"
+            min="0"
+            max="100"
+            step="5"
+            value={availabilityPercent}
+            onChange={(e) => setAvailabilityPercent(Number(e.target.value))}
+            className="mt-[0.3rem] w-full"
+          />
+          <div className="grid grid-cols-3 text-[0.65rem] text-spert-text-helper">
+            <span className="text-left">0% (away)</span>
+            <span className="text-center">50% (half time)</span>
+            <span className="text-right">100% (full time)</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="cursor-pointer rounded border-none bg-spert-text-light px-4 py-2 text-[0.9rem] text-white"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!isValid}
+          className={cn(
+            'rounded border-none px-4 py-2 text-[0.9rem] font-semibold text-white',
+            isValid
+              ? 'cursor-pointer bg-spert-blue'
+              : 'cursor-not-allowed bg-spert-border-medium'
+          )}
+        >
+          {member ? 'Update' : 'Add'}
+        </button>
+      </div>
+    </form>
+  )
+}
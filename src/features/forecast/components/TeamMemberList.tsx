@@ -0,0 +1,72 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import type { TeamMember } from '@/shared/types'
+import { formatDate } from '@/shared/lib/dates'
+import { ListRowActions } from '@/shared/components/ListRowActions'
+
+interface TeamMemberListProps {
+  members: TeamMember[]
+  onEdit: (member: TeamMember) => void
+  onDelete: (id: string) => void
+  editingId?: string | null
+}
+
+export function TeamMemberList({ members, onEdit, onDelete, editingId }: TeamMemberListProps) {
+  if (members.length === 0) {
+    return (
+      <p className="text-sm italic text-spert-text-muted">
+        No team members defined.
+      </p>
+    )
+  }
+
+  // Group a person's availability periods together, earliest first
+  const sortedMembers = [...members].sort(
+    (a, b) => a.name.localeCompare(b.name) || a.startDate.localeCompare(b.startDate)
+  )
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse text-sm">
+        <thead>
+          <tr className="border-b-2 border-spert-border-light">
+            <th className="p-2 text-left font-semibold text-spert-text-secondary">
+              Name
+            </th>
+            <th className="p-2 text-left font-semibold text-spert-text-secondary">
+              Date Range
+            </th>
+            <th className="p-2 text-center font-semibold text-spert-text-secondary">
+              Availability
+            </th>
+            <th className="p-2 text-right font-semibold text-spert-text-secondary">
+              Actions
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {sortedMembers.map((member) => (
+            <tr key={member.id} className="border-b border-spert-border-light">
+              <td className="p-2 font-medium">{member.name}</td>
+              <td className="p-2 text-[0.8rem]">
+                {formatDate(member.startDate)} – {member.endDate ? formatDate(member.endDate) : 'ongoing'}
+              </td>
+              <td className="p-2 text-center tabular-nums">{Math.round(member.availability * 100)}%</td>
+              <ListRowActions
+                onEdit={() => onEdit(member)}
+                onDelete={() => onDelete(member.id)}
+                isEditing={member.id === editingId}
+                editLabel={`Edit ${member.name}`}
+                deleteLabel={`Delete ${member.name}`}
+              />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
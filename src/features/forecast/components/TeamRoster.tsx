@@ -0,0 +1,66 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useMemo, useCallback } from 'react'
+import { useProjectStore } from '@/shared/state/project-store'
+import { CollapsibleCrudPanel } from '@/shared/components/CollapsibleCrudPanel'
+import type { TeamMember } from '@/shared/types'
+import { TeamMemberForm } from './TeamMemberForm'
+import { TeamMemberList } from './TeamMemberList'
+
+interface TeamRosterProps {
+  projectId: string
+}
+
+export function TeamRoster({ projectId }: TeamRosterProps) {
+  const projects = useProjectStore((state) => state.projects)
+  const members = useMemo(() => {
+    const project = projects.find((p) => p.id === projectId)
+    return project?.teamMembers ?? []
+  }, [projects, projectId])
+  const addTeamMember = useProjectStore((state) => state.addTeamMember)
+  const updateTeamMember = useProjectStore((state) => state.updateTeamMember)
+  const deleteTeamMember = useProjectStore((state) => state.deleteTeamMember)
+
+  const handleDelete = useCallback(
+    (id: string) => deleteTeamMember(projectId, id),
+    [deleteTeamMember, projectId]
+  )
+
+  return (
+    <CollapsibleCrudPanel<TeamMember>
+      title="Team Capacity (Capacity Mode)"
+      description="List who works on this project and how much of their time is available. When someone's availability changes (parental leave, moving to half time, joining or leaving), add another entry for the same person with the new date range. Capacity mode divides past velocity by the capacity the roster shows for each past sprint, then multiplies that per-person throughput by the planned capacity of each future sprint."
+      items={members}
+      onDelete={handleDelete}
+      renderForm={({ editingItem, onSubmitDone, onCancel }) => (
+        <TeamMemberForm
+          member={editingItem}
+          onSubmit={(data) => {
+            if (editingItem) {
+              updateTeamMember(projectId, editingItem.id, data)
+            } else {
+              addTeamMember(projectId, data)
+            }
+            onSubmitDone()
+          }}
+          onCancel={onCancel}
+        />
+      )}
+      renderList={({ items, onEdit, onDelete, editingItem }) => (
+        <TeamMemberList
+          members={items}
+          onEdit={onEdit}
+          onDelete={onDelete}
+          editingId={editingItem?.id ?? null}
+        />
+      )}
+      addButtonLabel="+ Add Team Member"
+      deleteDialogTitle="Delete Team Member"
+      panelId={`team-roster-panel-${projectId}`}
+    />
+  )
+}
@@ -0,0 +1,66 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { HelpTooltip } from '@/shared/components/HelpTooltip'
+import { COUNT_MODEL_LABELS, dispersionIndex, selectCountModel } from '../lib/throughput'
+
+interface ThroughputSectionProps {
+  throughputMode: boolean
+  effectiveMean: number
+  effectiveStdDev: number
+  fractionalSprintCount: number
+  onThroughputModeChange: (value: boolean) => void
+}
+
+/**
+ * Throughput (item count) toggle: simulate whole items per sprint instead of
+ * continuous velocities. Shows which count model the Gamma slot will fit.
+ */
+export function ThroughputSection({
+  throughputMode,
+  effectiveMean,
+  effectiveStdDev,
+  fractionalSprintCount,
+  onThroughputModeChange,
+}: ThroughputSectionProps) {
+  const model = selectCountModel(effectiveMean, effectiveStdDev)
+  const dispersion = dispersionIndex(effectiveMean, effectiveStdDev)
+
+  return (
+    <div className="mt-3 rounded-md border border-border dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2">
+      <label htmlFor="throughputMode" className="flex items-center gap-2 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          id="throughputMode"
+          checked={throughputMode}
+          onChange={(e) => onThroughputModeChange(e.target.checked)}
+          className="rounded border-gray-300 dark:border-gray-500"
+        />
+        <span className="text-sm font-medium text-spert-text-secondary dark:text-gray-300">
+          Count items (throughput){' '}
+          <span className="text-xs font-normal text-spert-text-muted">
+            (if the backlog is a number of stories, not points)
+          </span>
+        </span>
+        <HelpTooltip content="Each simulated sprint finishes a whole number of items, and a sprint may finish none. Gamma becomes its count counterpart: a negative binomial when sprint counts vary more than their average, otherwise Poisson. Other distributions round their draws to whole items without changing the average. Bootstrap resamples your recorded counts." />
+      </label>
+      {throughputMode && effectiveMean > 0 && (
+        <div className="mt-1 ml-6 flex items-center gap-2">
+          <span className="text-sm text-spert-text-secondary dark:text-gray-300">Gamma count model:</span>
+          <span className="text-sm font-semibold">{COUNT_MODEL_LABELS[model]}</span>
+          <span className="text-xs text-spert-text-muted dark:text-gray-400 tabular-nums">
+            variance {dispersion.toFixed(1)}× the mean
+          </span>
+        </div>
+      )}
+      {throughputMode && fractionalSprintCount > 0 && (
+        <span className="text-xs text-amber-600 dark:text-amber-400 font-medium block ml-6 mt-1">
+          {fractionalSprintCount} included sprint{fractionalSprintCount === 1 ? ' has' : 's have'} a fractional done value; the simulation rounds resampled values to whole items.
+        </span>
+      )}
+    </div>
+  )
+}
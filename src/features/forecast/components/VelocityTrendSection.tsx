@@ -0,0 +1,72 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { cn } from '@/lib/utils'
+import { HelpTooltip } from '@/shared/components/HelpTooltip'
+import type { VelocityTrendAssessment } from '../lib/velocity-trend'
+
+interface VelocityTrendSectionProps {
+  velocityTrend: VelocityTrendAssessment
+  projectVelocityTrend: boolean
+  unitOfMeasure: string
+  onProjectVelocityTrendChange: (value: boolean) => void
+}
+
+/**
+ * Velocity trend projection toggle (history mode only).
+ *
+ * Shows the fitted slope and R², and explains when a weak fit is refused.
+ */
+export function VelocityTrendSection({
+  velocityTrend,
+  projectVelocityTrend,
+  unitOfMeasure,
+  onProjectVelocityTrendChange,
+}: VelocityTrendSectionProps) {
+  const { fit, trend, refusedReason } = velocityTrend
+
+  return (
+    <div className="mt-3 rounded-md border border-border dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2">
+      <label htmlFor="projectVelocityTrend" className="flex items-center gap-2 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          id="projectVelocityTrend"
+          checked={projectVelocityTrend}
+          onChange={(e) => onProjectVelocityTrendChange(e.target.checked)}
+          className="rounded border-gray-300 dark:border-gray-500"
+        />
+        <span className="text-sm font-medium text-spert-text-secondary dark:text-gray-300">
+          Project velocity trend{' '}
+          <span className="text-xs font-normal text-spert-text-muted">
+            (if velocity is steadily rising or falling)
+          </span>
+        </span>
+        <HelpTooltip content="Shifts each future sprint's mean velocity along the regression line from Sprint History, capped at a plateau (1.5× current velocity) and floored at a minimum (0.5×). Weak fits below the R² threshold in Settings are not applied." />
+      </label>
+      <div className="mt-1 ml-6 flex flex-wrap items-center gap-x-2">
+        <span className="text-sm text-spert-text-secondary dark:text-gray-300">Slope:</span>
+        <span className={cn(
+          'text-sm font-semibold tabular-nums',
+          fit.slope > 0
+            ? 'text-emerald-600 dark:text-emerald-400'
+            : fit.slope < 0
+              ? 'text-amber-600 dark:text-amber-400'
+              : 'text-spert-text-muted'
+        )}>
+          {fit.slope > 0 ? '+' : ''}{fit.slope.toFixed(2)} {unitOfMeasure}/sprint
+        </span>
+        <span className="text-xs text-spert-text-muted dark:text-gray-400">
+          R² {fit.rSquared.toFixed(2)} from {velocityTrend.sprintCount} sprints
+        </span>
+      </div>
+      {projectVelocityTrend && !trend && refusedReason && (
+        <span className="text-xs text-amber-600 dark:text-amber-400 font-medium block ml-6 mt-1">
+          Not applied: {refusedReason}
+        </span>
+      )}
+    </div>
+  )
+}
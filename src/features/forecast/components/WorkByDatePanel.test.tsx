@@ -0,0 +1,138 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+
+import { WorkByDatePanel } from './WorkByDatePanel'
+import { useSettingsStore } from '@/shared/state/settings-store'
+import type { Milestone } from '@/shared/types'
+import type { QuadWorkData } from '../lib/monte-carlo'
+import type { WorkByDateResults } from '../hooks/useForecastState'
+
+// ---------- Fixtures ----------
+//
+// 2-week cadence, completedSprintCount = 7 so forecast sprint 3 displays as "Sprint 10".
+const FORECAST_START = '2026-05-18'
+const COMPLETED = 7
+
+// 100 trials: 0, 1, ..., 99 points completed
+const WORK = Array.from({ length: 100 }, (_, i) => i)
+
+function makeWorkData(values: number[]): QuadWorkData {
+  const arr = Float64Array.from(values)
+  return {
+    truncatedNormal: arr,
+    lognormal: arr,
+    gamma: arr,
+    bootstrap: null,
+    triangular: arr,
+    pert: arr,
+    uniform: arr,
+  }
+}
+
+const RESULTS: WorkByDateResults = {
+  sprintAtDate: { sprintCount: 3, sprintFinishDate: '2026-06-26', isExactMatch: true },
+  workData: makeWorkData(WORK),
+}
+
+const SAMPLE_MILESTONES: Milestone[] = [
+  { id: 'ms-alpha', name: 'Alpha Release', backlogSize: 10, color: '#10b981', createdAt: 't', updatedAt: 't' },
+  { id: 'ms-beta', name: 'Beta Release', backlogSize: 40, color: '#3b82f6', createdAt: 't', updatedAt: 't' },
+  { id: 'ms-ga', name: 'GA Release', backlogSize: 50, color: '#f59e0b', createdAt: 't', updatedAt: 't' },
+]
+
+type Props = Parameters<typeof WorkByDatePanel>[0]
+function renderPanel(overrides: Partial<Props> = {}) {
+  const defaults: Props = {
+    targetDate: '',
+    onTargetDateChange: () => {},
+    workByDateResults: null,
+    isSimulating: false,
+    milestones: [],
+    milestoneCompletionInfo: [],
+    cumulativeThresholds: [],
+    forecastStartDate: FORECAST_START,
+    completedSprintCount: COMPLETED,
+    unitOfMeasure: 'points',
+    remainingBacklog: 100,
+    forecastMode: 'history',
+  }
+  return render(<WorkByDatePanel {...defaults} {...overrides} />)
+}
+
+function expandPanel() {
+  fireEvent.click(screen.getByRole('button', { name: /Work by Date/i }))
+}
+
+beforeEach(() => {
+  useSettingsStore.setState({ distributionsEnabled: ['lognormal'] })
+})
+
+describe('WorkByDatePanel', () => {
+  it('renders collapsed by default', () => {
+    renderPanel()
+    expect(screen.getByText('Work by Date')).toBeTruthy()
+    expect(screen.queryByLabelText('Target Date')).toBeNull()
+  })
+
+  it('shows helper text when expanded with empty targetDate', () => {
+    renderPanel()
+    expandPanel()
+    expect(screen.getByText(/Enter a target date to see how much work/)).toBeTruthy()
+  })
+
+  it('forwards date input changes', () => {
+    let received = ''
+    renderPanel({ onTargetDateChange: (d) => { received = d } })
+    expandPanel()
+    fireEvent.change(screen.getByLabelText('Target Date'), { target: { value: '2026-06-26' } })
+    expect(received).toBe('2026-06-26')
+  })
+
+  it('reports zero work for a target before the forecast window', () => {
+    renderPanel({ targetDate: '2026-05-01' })
+    expandPanel()
+    expect(screen.getByText(/falls before any forecast sprint can complete/)).toBeTruthy()
+  })
+
+  it('narrates P50 and P85 work for the simulated sprint', () => {
+    renderPanel({ targetDate: '2026-06-26', workByDateResults: RESULTS })
+    expandPanel()
+    const narrative = screen.getByText(/most likely \(P50\)/)
+    expect(narrative.textContent).toContain('Sprint 10')
+    expect(narrative.textContent).toContain('49.5 points')
+    expect(narrative.textContent).toContain('14.9 points')
+    expect(screen.getByRole('rowheader', { name: 'P95' })).toBeTruthy()
+  })
+
+  it('classifies open milestones against their cumulative scope', () => {
+    renderPanel({
+      targetDate: '2026-06-26',
+      workByDateResults: RESULTS,
+      milestones: SAMPLE_MILESTONES,
+      milestoneCompletionInfo: [{ completed: false }, { completed: false }, { completed: false }],
+      cumulativeThresholds: [10, 50, 100],
+    })
+    expandPanel()
+    const items = screen.getAllByRole('listitem').map((li) => li.textContent)
+    expect(items[0]).toMatch(/^Likely.*Alpha Release.*90%/)
+    expect(items[1]).toMatch(/^Possible.*Beta Release.*50%/)
+    expect(items[2]).toMatch(/^Unlikely.*GA Release.*0%/)
+  })
+
+  it('leaves completed milestones out of the cut list', () => {
+    renderPanel({
+      targetDate: '2026-06-26',
+      workByDateResults: RESULTS,
+      milestones: SAMPLE_MILESTONES,
+      milestoneCompletionInfo: [{ completed: true }, { completed: false }, { completed: false }],
+      cumulativeThresholds: [0, 40, 90],
+    })
+    expandPanel()
+    expect(screen.queryByText('Alpha Release')).toBeNull()
+    expect(screen.getAllByRole('listitem')).toHaveLength(2)
+  })
+})
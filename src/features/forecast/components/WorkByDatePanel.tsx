@@ -0,0 +1,371 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useId, useMemo, useState } from 'react'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts'
+import { cn } from '@/lib/utils'
+import { COLORS, DISTRIBUTION_COLORS } from '@/shared/lib/colors'
+import { formatDateLong, isValidDateRange } from '@/shared/lib/dates'
+import { useSettingsStore } from '@/shared/state/settings-store'
+import type { Milestone, ForecastMode } from '@/shared/types'
+import { DISTRIBUTION_LABELS, getVisibleDistributions, type DistributionType } from '../types'
+import type { WorkByDateResults } from '../hooks/useForecastState'
+import type { MilestoneCompletionInfo } from '../lib/milestones'
+import {
+  WORK_CONFIDENCE_LEVELS,
+  workAtConfidence,
+  probabilityOfCompleting,
+  classifyMilestoneCut,
+  buildWorkHistogramBins,
+  type MilestoneCutStatus,
+} from '../lib/work-by-date'
+
+interface WorkByDatePanelProps {
+  targetDate: string
+  onTargetDateChange: (date: string) => void
+  /** Null until a target date has been simulated (or after it is cleared). */
+  workByDateResults: WorkByDateResults | null
+  isSimulating: boolean
+  milestones: Milestone[]
+  /** 1:1 with `milestones`. Completed milestones are left out of the cut list. */
+  milestoneCompletionInfo: MilestoneCompletionInfo[]
+  /** 1:1 with `milestones` — remaining work to reach each milestone. */
+  cumulativeThresholds: number[]
+  forecastStartDate: string
+  completedSprintCount: number
+  unitOfMeasure: string
+  remainingBacklog: number
+  forecastMode: ForecastMode
+}
+
+// Same label style as DeadlineProbabilityPanel / ForecastForm.
+const labelClass =
+  'flex items-end mb-1 text-sm font-semibold text-spert-text-secondary min-h-[1.75rem]'
+
+const CUT_LABELS: Record<MilestoneCutStatus, string> = {
+  likely: 'Likely',
+  possible: 'Possible',
+  unlikely: 'Unlikely',
+}
+
+const CUT_CLASSES: Record<MilestoneCutStatus, string> = {
+  likely: 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  possible: 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  unlikely: 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+}
+
+function formatWork(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 })
+}
+
+export function WorkByDatePanel({
+  targetDate,
+  onTargetDateChange,
+  workByDateResults,
+  isSimulating,
+  milestones,
+  milestoneCompletionInfo,
+  cumulativeThresholds,
+  forecastStartDate,
+  completedSprintCount,
+  unitOfMeasure,
+  remainingBacklog,
+  forecastMode,
+}: WorkByDatePanelProps) {
+  // Collapsed by default, like the other post-results panels.
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  const distributionsEnabled = useSettingsStore((s) => s.distributionsEnabled)
+  const workData = workByDateResults?.workData ?? null
+  const hasBootstrap = workData ? workData.bootstrap !== null : false
+  const visibleDistributions = useMemo(
+    () => getVisibleDistributions(forecastMode, hasBootstrap, distributionsEnabled),
+    [forecastMode, hasBootstrap, distributionsEnabled],
+  )
+
+  const [selectedDistribution, setSelectedDistribution] = useState<DistributionType>(
+    () => visibleDistributions[0] ?? 'lognormal',
+  )
+
+  const formId = useId()
+  const dateInputId = `${formId}-date`
+  const distSelectId = `${formId}-dist`
+
+  // Drift protection — same fallback as DeadlineProbabilityPanel.
+  const effectiveDistribution: DistributionType = visibleDistributions.includes(selectedDistribution)
+    ? selectedDistribution
+    : (visibleDistributions[0] ?? selectedDistribution)
+
+  const selectedSorted = workData?.[effectiveDistribution] ?? null
+
+  const sprintAtDate = workByDateResults?.sprintAtDate ?? null
+  const hasValidDate = isValidDateRange(targetDate, false)
+  // Mirrors runWorkByDate's short-circuit so the "nothing completes yet" message
+  // shows immediately rather than after the debounce.
+  const isBeforeWindow =
+    hasValidDate && (targetDate < forecastStartDate || sprintAtDate?.sprintCount === 0)
+  const hasDistribution =
+    hasValidDate && !isBeforeWindow && selectedSorted !== null && selectedSorted.length > 0
+
+  const histogramData = useMemo(
+    () => (hasDistribution ? buildWorkHistogramBins(selectedSorted!) : []),
+    [hasDistribution, selectedSorted],
+  )
+
+  // Milestones not yet completed, with the probability that the cumulative work
+  // to reach each is done by the target date.
+  const milestoneCuts = useMemo(() => {
+    if (!hasDistribution) return []
+    return milestones
+      .map((m, idx) => ({ milestone: m, idx }))
+      .filter(({ idx }) => !milestoneCompletionInfo[idx]?.completed && cumulativeThresholds[idx] !== undefined)
+      .map(({ milestone, idx }) => {
+        const probability = probabilityOfCompleting(selectedSorted!, cumulativeThresholds[idx])
+        return {
+          id: milestone.id,
+          name: milestone.name,
+          threshold: cumulativeThresholds[idx],
+          probability,
+          status: classifyMilestoneCut(probability),
+        }
+      })
+  }, [hasDistribution, selectedSorted, milestones, milestoneCompletionInfo, cumulativeThresholds])
+
+  const absoluteSprint = sprintAtDate ? sprintAtDate.sprintCount + completedSprintCount : 0
+  const median = hasDistribution ? workAtConfidence(selectedSorted!, 50) : 0
+  const conservative = hasDistribution ? workAtConfidence(selectedSorted!, 85) : 0
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 flex items-center gap-2 text-left hover:bg-muted/50 transition-colors"
+        aria-expanded={isExpanded}
+        aria-controls="work-by-date-panel"
+      >
+        <span
+          className={cn(
+            'inline-block text-[10px] text-muted-foreground transition-transform duration-200',
+            isExpanded && 'rotate-90',
+          )}
+          aria-hidden="true"
+        >
+          ▶
+        </span>
+        <h3 className="text-sm font-medium text-muted-foreground">Work by Date</h3>
+      </button>
+
+      {isExpanded && (
+        <div id="work-by-date-panel" className="px-4 pb-4 space-y-4">
+          {/* Control row */}
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="min-w-[170px]">
+              <label htmlFor={dateInputId} className={labelClass}>
+                Target Date
+              </label>
+              <input
+                id={dateInputId}
+                name="workTargetDate"
+                type="date"
+                value={targetDate}
+                min={forecastStartDate}
+                max="2050-12-31"
+                aria-invalid={
+                  targetDate !== '' && !hasValidDate ? 'true' : undefined
+                }
+                onChange={(e) => onTargetDateChange(e.target.value)}
+                className="text-sm border border-spert-border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 dark:text-gray-100"
+              />
+            </div>
+
+            <div className="min-w-[160px]">
+              <label htmlFor={distSelectId} className={labelClass}>
+                Distribution
+              </label>
+              <select
+                id={distSelectId}
+                name="workDistribution"
+                value={effectiveDistribution}
+                onChange={(e) => setSelectedDistribution(e.target.value as DistributionType)}
+                className="text-sm border border-spert-border dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 dark:text-gray-100"
+              >
+                {visibleDistributions.map((d) => (
+                  <option key={d} value={d}>
+                    {DISTRIBUTION_LABELS[d]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Narrative */}
+          {!hasValidDate && (
+            <p className="text-sm text-muted-foreground italic">
+              Enter a target date to see how much work is likely to be completed by then.
+            </p>
+          )}
+
+          {hasValidDate && isBeforeWindow && (
+            <p aria-live="polite" className="text-sm text-spert-text dark:text-gray-100 leading-relaxed">
+              Your <strong className="text-spert-blue">{formatDateLong(targetDate)}</strong> target
+              falls before any forecast sprint can complete. Work completed:{' '}
+              <strong className="text-spert-blue">0 {unitOfMeasure}</strong>.
+            </p>
+          )}
+
+          {hasValidDate && !isBeforeWindow && !hasDistribution && (
+            <p className="text-sm text-muted-foreground italic">
+              {isSimulating ? 'Simulating…' : 'Run the forecast to see work completed by this date.'}
+            </p>
+          )}
+
+          {hasDistribution && (
+            <p aria-live="polite" className="text-sm text-spert-text dark:text-gray-100 leading-relaxed">
+              By{' '}
+              <strong className="text-spert-blue">
+                {formatDateLong(sprintAtDate!.sprintFinishDate)}
+              </strong>{' '}
+              (Sprint {absoluteSprint}), the team will most likely (P50) have completed{' '}
+              <strong className="text-spert-blue">
+                {formatWork(median)} {unitOfMeasure}
+              </strong>{' '}
+              of the {remainingBacklog.toLocaleString()} {unitOfMeasure} backlog, and at least{' '}
+              <strong className="text-spert-blue">
+                {formatWork(conservative)} {unitOfMeasure}
+              </strong>{' '}
+              with 85% confidence.
+            </p>
+          )}
+
+          {/* Per-distribution work at each confidence level */}
+          {hasDistribution && (
+            <div className="overflow-x-auto">
+              <table className="text-sm border-collapse">
+                <thead>
+                  <tr>
+                    <th
+                      scope="col"
+                      className="text-left px-2 py-1 font-medium text-spert-text-secondary dark:text-gray-300 border-b border-spert-border dark:border-gray-700"
+                    >
+                      Confidence
+                    </th>
+                    {visibleDistributions.map((d) => (
+                      <th
+                        key={d}
+                        scope="col"
+                        className="text-left px-2 py-1 font-medium text-spert-text-secondary dark:text-gray-300 border-b border-spert-border dark:border-gray-700"
+                      >
+                        {DISTRIBUTION_LABELS[d]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {WORK_CONFIDENCE_LEVELS.map((level) => (
+                    <tr key={level}>
+                      <th
+                        scope="row"
+                        className="text-left px-2 py-1 font-medium text-spert-text-secondary dark:text-gray-300"
+                      >
+                        P{level}
+                      </th>
+                      {visibleDistributions.map((d) => {
+                        const sorted = workData?.[d]
+                        return (
+                          <td key={d} className="px-2 py-1 text-spert-text dark:text-gray-100">
+                            {sorted && sorted.length > 0 ? formatWork(workAtConfidence(sorted, level)) : '—'}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Histogram of completed work for the selected distribution */}
+          {hasDistribution && (
+            <div className="bg-white dark:bg-gray-800 p-2">
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={histogramData} margin={{ top: 5, right: 30, left: 0, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={COLORS.border.light} />
+                  <XAxis
+                    dataKey="label"
+                    tick={{ fontSize: 11, fill: COLORS.text.muted }}
+                    axisLine={{ stroke: '#e5e7eb' }}
+                    label={{ value: `Work completed (${unitOfMeasure})`, position: 'insideBottom', offset: -12, fontSize: 12 }}
+                  />
+                  <YAxis
+                    label={{ value: 'Probability (%)', angle: -90, position: 'insideLeft', fontSize: 12 }}
+                    tick={{ fontSize: 11 }}
+                  />
+                  <Tooltip
+                    formatter={(value) => [typeof value === 'number' ? `${value.toFixed(1)}%` : value, '']}
+                    labelFormatter={(_label, payload) => {
+                      const bin = payload?.[0]?.payload
+                      if (!bin) return ''
+                      return `${formatWork(bin.binStart)}–${formatWork(bin.binEnd)} ${unitOfMeasure}`
+                    }}
+                    contentStyle={{ fontSize: 11 }}
+                  />
+                  <Bar
+                    dataKey="percentage"
+                    name={DISTRIBUTION_LABELS[effectiveDistribution]}
+                    fill={DISTRIBUTION_COLORS[effectiveDistribution]}
+                    opacity={0.8}
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {/* Milestones that make the cut */}
+          {hasDistribution && milestoneCuts.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-spert-text-secondary mb-1">
+                Milestones by this date
+              </h4>
+              <ul className="space-y-1">
+                {milestoneCuts.map((cut) => (
+                  <li key={cut.id} className="flex items-center gap-2 text-sm text-spert-text dark:text-gray-100">
+                    <span
+                      className={cn('inline-block min-w-[4.5rem] text-center rounded px-1.5 py-0.5 text-xs font-medium', CUT_CLASSES[cut.status])}
+                    >
+                      {CUT_LABELS[cut.status]}
+                    </span>
+                    <span>
+                      <strong>{cut.name}</strong> — {Math.round(cut.probability)}% of trials complete its{' '}
+                      {formatWork(cut.threshold)} {unitOfMeasure}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {hasDistribution && (
+            <p className="text-xs text-spert-text-muted dark:text-gray-400 italic">
+              Work is simulated through the end of Sprint {absoluteSprint} (
+              {formatDateLong(sprintAtDate!.sprintFinishDate)}), the last complete sprint on or
+              before your target. With scope growth modeled, work is counted net of the scope
+              added, so finishing everything means burning down the grown backlog.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
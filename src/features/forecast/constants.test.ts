@@ -175,28 +175,28 @@ describe('DEFAULT_CV', () => {
 })
 
 describe('getVisibleDistributions', () => {
-  it('returns 5 distributions in subjective mode', () => {
+  it('returns 6 distributions in subjective mode', () => {
     const dists = getVisibleDistributions('subjective', false)
-    expect(dists).toHaveLength(5)
-    expect(dists).toEqual(['lognormal', 'truncatedNormal', 'gamma', 'triangular', 'uniform'])
+    expect(dists).toHaveLength(6)
+    expect(dists).toEqual(['lognormal', 'truncatedNormal', 'gamma', 'triangular', 'pert', 'uniform'])
   })
 
   it('subjective mode never includes bootstrap regardless of hasBootstrap', () => {
     const dists = getVisibleDistributions('subjective', true)
     expect(dists).not.toContain('bootstrap')
-    expect(dists).toHaveLength(5)
+    expect(dists).toHaveLength(6)
   })
 
-  it('returns 4 distributions in history mode without bootstrap', () => {
+  it('returns 5 distributions in history mode without bootstrap', () => {
     const dists = getVisibleDistributions('history', false)
-    expect(dists).toHaveLength(4)
-    expect(dists).toEqual(['lognormal', 'truncatedNormal', 'gamma', 'triangular'])
+    expect(dists).toHaveLength(5)
+    expect(dists).toEqual(['lognormal', 'truncatedNormal', 'gamma', 'triangular', 'pert'])
   })
 
-  it('returns 5 distributions in history mode with bootstrap', () => {
+  it('returns 6 distributions in history mode with bootstrap', () => {
     const dists = getVisibleDistributions('history', true)
-    expect(dists).toHaveLength(5)
-    expect(dists).toEqual(['lognormal', 'truncatedNormal', 'gamma', 'triangular', 'bootstrap'])
+    expect(dists).toHaveLength(6)
+    expect(dists).toEqual(['lognormal', 'truncatedNormal', 'gamma', 'triangular', 'pert', 'bootstrap'])
   })
 
   it('history mode never includes uniform', () => {
@@ -205,23 +205,24 @@ describe('getVisibleDistributions', () => {
     expect(dists).not.toContain('uniform')
   })
 
-  it('both modes always include T-Normal, Lognormal, Gamma, and Triangular', () => {
+  it('both modes always include T-Normal, Lognormal, Gamma, Triangular, and PERT', () => {
     for (const mode of ['history', 'subjective'] as const) {
       const dists = getVisibleDistributions(mode, false)
       expect(dists).toContain('truncatedNormal')
       expect(dists).toContain('lognormal')
       expect(dists).toContain('gamma')
       expect(dists).toContain('triangular')
+      expect(dists).toContain('pert')
     }
   })
 
   describe('enabledDistributions intersection (v0.31.0)', () => {
     it('returns the mode-visible set unchanged when third argument is omitted', () => {
       expect(getVisibleDistributions('subjective', false)).toEqual([
-        'lognormal', 'truncatedNormal', 'gamma', 'triangular', 'uniform',
+        'lognormal', 'truncatedNormal', 'gamma', 'triangular', 'pert', 'uniform',
       ])
       expect(getVisibleDistributions('history', true)).toEqual([
-        'lognormal', 'truncatedNormal', 'gamma', 'triangular', 'bootstrap',
+        'lognormal', 'truncatedNormal', 'gamma', 'triangular', 'pert', 'bootstrap',
       ])
     })
 
@@ -252,7 +253,7 @@ describe('getVisibleDistributions', () => {
     })
 
     it('returns empty array when no overlap', () => {
-      // history mode without bootstrap has [tNormal, lognormal, gamma, triangular]; enabled only has uniform
+      // history mode without bootstrap has [lognormal, tNormal, gamma, triangular, pert]; enabled only has uniform
       expect(getVisibleDistributions('history', false, ['uniform'])).toEqual([])
     })
   })
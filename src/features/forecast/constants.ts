@@ -19,6 +19,21 @@ export const SELECTABLE_PERCENTILES = [5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55
  *  Forecast Results pill selector. */
 export const DEFAULT_SELECTED_PERCENTILES: readonly number[] = [10, 50, 90] as const
 
+// Trials per simulation chunk — the unit of progress reporting, cancellation and
+// worker sharding. Each chunk draws from its own seed stream (see monte-carlo.ts)
+export const SIMULATION_CHUNK_SIZE = 1000
+
+// Upper bound on the simulation worker pool; the pool is sized from
+// navigator.hardwareConcurrency, leaving one core for the page
+export const MAX_SIMULATION_WORKERS = 4
+
+// Adaptive trial count (Settings): trials run in batches until every distribution's
+// P85 sprint count has a 95% confidence band no wider than the tolerance.
+// Batches are whole chunks, so replaying the settled count redraws the same trials
+export const ADAPTIVE_TRIAL_BATCH_SIZE = SIMULATION_CHUNK_SIZE
+export const ADAPTIVE_MAX_TRIALS = 50000
+export const ADAPTIVE_P85_TOLERANCE_SPRINTS = 1
+
 // Minimum number of included sprints required for bootstrap simulation
 export const MIN_SPRINTS_FOR_BOOTSTRAP = 5
 
@@ -26,6 +41,27 @@ export const MIN_SPRINTS_FOR_BOOTSTRAP = 5
 // Prevents infinite loops when velocity is near zero
 export const MAX_TRIAL_SPRINTS = 1000
 
+// Cap on |lag-1 autocorrelation| used by the correlated samplers — ρ near ±1
+// would lock a trial's velocity to its first draw
+export const MAX_AUTOCORRELATION = 0.95
+
+// Minimum included sprints before a lag-1 autocorrelation estimate is shown/used
+export const MIN_SPRINTS_FOR_AUTOCORRELATION = 3
+
+// Bootstrap sprint weighting (History mode)
+export const DEFAULT_BOOTSTRAP_HALF_LIFE = 6 // sprints; recency decay half-life
+export const DEFAULT_BOOTSTRAP_WINDOW = 8 // sprints; "last N sprints" window
+export const MIN_BOOTSTRAP_WINDOW = 3
+
+// Velocity trend projection (History mode, opt-in)
+export const MIN_SPRINTS_FOR_TREND = 4 // fewer points make the regression slope meaningless
+export const DEFAULT_TREND_MIN_R_SQUARED = 0.3 // refuse to project weaker fits (Settings)
+export const TREND_PLATEAU_MULTIPLIER = 1.5 // projected mean capped at 1.5× current mean
+export const TREND_FLOOR_MULTIPLIER = 0.5 // projected mean floored at 0.5× current mean
+
+// Capacity mode (team roster × per-person throughput)
+export const MIN_SPRINTS_FOR_CAPACITY = 2 // roster-covered sprints needed for a throughput SD
+
 // Milestone limits
 export const MAX_MILESTONES = 10
 export const MILESTONE_SOFT_LIMIT = 5
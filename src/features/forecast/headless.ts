@@ -0,0 +1,36 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Framework-free forecasting entry point for scripts and the CLI.
+ *
+ * Nothing reachable from here imports React, the stores, or browser APIs, so it
+ * runs under Node. The app's Forecast tab is exported from ./index instead.
+ */
+
+export {
+  forecastProject,
+  forecastExportData,
+  type ForecastProjectOptions,
+  type ProjectForecast,
+  type ProjectForecastOutcome,
+  type ScopeForecast,
+  type PercentileForecastRow,
+} from './lib/forecast-project'
+export { formatForecastTable, formatForecastCsv } from './lib/forecast-project-output'
+export {
+  runBacktest,
+  bestCalibratedDistribution,
+  type BacktestOptions,
+  type BacktestResult,
+  type BacktestDistributionScore,
+} from './lib/backtest'
+export {
+  runPortfolioForecast,
+  type PortfolioOptions,
+  type PortfolioResult,
+  type PortfolioTeamResult,
+} from './lib/portfolio'
+export { validateImportData, type ExportData } from '@/shared/state/import-validation'
+export { DISTRIBUTION_TYPES, type DistributionType } from '@/shared/types/burn-up'
@@ -6,25 +6,22 @@
 
 import { useMemo } from 'react'
 import { useProjectStore, selectViewingProject } from '@/shared/state/project-store'
+import type { NonWorkingDays, WorkWeek } from '@/shared/lib/dates'
 import type { VelocityStats, ForecastMode, Sprint } from '@/shared/types'
-import { DEFAULT_CV, DEFAULT_VOLATILITY_MULTIPLIER, MIN_SPRINTS_FOR_HISTORY } from '../constants'
-
-/**
- * Find the most recent defined backlog-at-end value from the given sprint list.
- * Walks back from the highest sprintNumber so sprints without a recorded backlog
- * are skipped. Returns undefined when no sprint in the list has a backlog value.
- *
- * The caller is responsible for pre-filtering to the relevant scope (e.g., the
- * included-in-forecast subset), since this function picks from whatever it's given.
- */
-export function getLastSprintBacklog(sprints: Sprint[]): number | undefined {
-  if (sprints.length === 0) return undefined
-  const descending = [...sprints].sort((a, b) => b.sprintNumber - a.sprintNumber)
-  for (const s of descending) {
-    if (s.backlogAtSprintEnd !== undefined) return s.backlogAtSprintEnd
-  }
-  return undefined
-}
+import {
+  DEFAULT_CV,
+  DEFAULT_VOLATILITY_MULTIPLIER,
+  DEFAULT_BOOTSTRAP_HALF_LIFE,
+  DEFAULT_BOOTSTRAP_WINDOW,
+  MIN_BOOTSTRAP_WINDOW,
+} from '../constants'
+import type { BootstrapWeighting, BootstrapWeightingMode } from '../lib/bootstrap-weighting'
+import { calculateCapacityBaseline } from '../lib/capacity'
+import { computeCumulativeScope, computeStreamPredecessors, finalMilestoneIndex } from '../lib/milestones'
+import type { PertInputs } from '../lib/pert'
+import { getLastSprintBacklog, resolveForecastMode, resolveEffectiveVelocity } from '../lib/forecast-inputs'
+
+export { getLastSprintBacklog }
 
 /**
  * Form state for the forecast: backlog, velocity overrides, subjective inputs,
@@ -33,7 +30,13 @@ export function getLastSprintBacklog(sprints: Sprint[]): number | undefined {
  * The `sprints` parameter should be the *included-in-forecast* subset so that
  * excluding a sprint correctly updates the derived backlog value.
  */
-export function useForecastInputs(calculatedStats: VelocityStats, includedSprintCount: number, sprints: Sprint[]) {
+export function useForecastInputs(
+  calculatedStats: VelocityStats,
+  includedSprintCount: number,
+  sprints: Sprint[],
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+) {
   const selectedProject = useProjectStore(selectViewingProject)
   const setForecastInput = useProjectStore((state) => state.setForecastInput)
   const forecastInputs = useProjectStore((state) =>
@@ -48,6 +51,16 @@ export function useForecastInputs(calculatedStats: VelocityStats, includedSprint
 
   const hasMilestones = milestones.length > 0
 
+  // Team roster (capacity mode): per-person throughput from the included sprints it covers
+  const teamMembers = useMemo(
+    () => selectedProject?.teamMembers ?? [],
+    [selectedProject?.teamMembers]
+  )
+  const capacityBaseline = useMemo(
+    () => calculateCapacityBaseline(sprints, teamMembers, nonWorkingDays, workWeek),
+    [sprints, teamMembers, nonWorkingDays, workWeek]
+  )
+
   // Cumulative "remaining work to reach milestone i" — the running sum of user-
   // maintained backlogSize values. milestone.backlogSize is the work the user knows
   // remains for that release; the user updates it as work progresses, as scope is
@@ -55,15 +68,11 @@ export function useForecastInputs(calculatedStats: VelocityStats, includedSprint
   // "delivered-in-trial ≥ threshold" → "have we delivered enough to cross milestone i?"
   // which is exactly what we want under this model. Shipped milestones (backlogSize=0)
   // contribute no increment, so their cumulative equals the preceding milestone's.
-  const cumulativeThresholds = useMemo(
-    () =>
-      milestones.reduce<number[]>((acc, m) => {
-        const prev = acc[acc.length - 1] ?? 0
-        acc.push(prev + m.backlogSize)
-        return acc
-      }, []),
-    [milestones]
-  )
+  // Milestones with a capacity share run in parallel streams, so the thresholds need
+  // not ascend — see computeCumulativeScope.
+  const cumulativeThresholds = useMemo(() => computeCumulativeScope(milestones), [milestones])
+  const milestonePredecessors = useMemo(() => computeStreamPredecessors(milestones), [milestones])
+  const finalMilestoneIdx = useMemo(() => finalMilestoneIndex(cumulativeThresholds), [cumulativeThresholds])
 
   // Form values — derive backlog from the most recent *included* sprint that has a value recorded.
   // `derivedBacklogFromIncluded` powers both the pre-fill and the "Reset to N" drift action.
@@ -88,6 +97,26 @@ export function useForecastInputs(calculatedStats: VelocityStats, includedSprint
   // History mode volatility adjustment
   const volatilityMultiplier = forecastInputs?.volatilityMultiplier ?? DEFAULT_VOLATILITY_MULTIPLIER
 
+  // History mode sprint-to-sprint velocity autocorrelation (off = independent draws)
+  const modelAutocorrelation = forecastInputs?.modelAutocorrelation ?? false
+
+  // History mode velocity trend projection (off = stationary mean)
+  const projectVelocityTrend = forecastInputs?.projectVelocityTrend ?? false
+
+  // History mode bootstrap weighting (uniform = classic bootstrap)
+  const bootstrapWeightingMode: BootstrapWeightingMode = forecastInputs?.bootstrapWeightingMode ?? 'uniform'
+  const bootstrapHalfLife = forecastInputs?.bootstrapHalfLife ?? DEFAULT_BOOTSTRAP_HALF_LIFE
+  const bootstrapWindow = forecastInputs?.bootstrapWindow ?? DEFAULT_BOOTSTRAP_WINDOW
+  const bootstrapWeighting = useMemo<BootstrapWeighting>(
+    () =>
+      bootstrapWeightingMode === 'recency'
+        ? { mode: 'recency', halfLife: bootstrapHalfLife }
+        : bootstrapWeightingMode === 'window'
+          ? { mode: 'window', lastN: bootstrapWindow }
+          : { mode: 'uniform' },
+    [bootstrapWeightingMode, bootstrapHalfLife, bootstrapWindow]
+  )
+
   const setRemainingBacklog = (value: string) => {
     if (selectedProject) setForecastInput(selectedProject.id, 'remainingBacklog', value)
   }
@@ -113,39 +142,68 @@ export function useForecastInputs(calculatedStats: VelocityStats, includedSprint
   const setVolatilityMultiplier = (multiplier: number) => {
     if (selectedProject) setForecastInput(selectedProject.id, 'volatilityMultiplier', multiplier)
   }
+  const setModelAutocorrelation = (value: boolean) => {
+    if (selectedProject) setForecastInput(selectedProject.id, 'modelAutocorrelation', value)
+  }
+  const setProjectVelocityTrend = (value: boolean) => {
+    if (selectedProject) setForecastInput(selectedProject.id, 'projectVelocityTrend', value)
+  }
+  const setBootstrapWeightingMode = (mode: BootstrapWeightingMode) => {
+    if (selectedProject) setForecastInput(selectedProject.id, 'bootstrapWeightingMode', mode)
+  }
+  const setBootstrapHalfLife = (value: number) => {
+    if (selectedProject && Number.isFinite(value)) {
+      setForecastInput(selectedProject.id, 'bootstrapHalfLife', Math.max(1, Math.round(value)))
+    }
+  }
+  const setBootstrapWindow = (value: number) => {
+    if (selectedProject && Number.isFinite(value)) {
+      setForecastInput(selectedProject.id, 'bootstrapWindow', Math.max(MIN_BOOTSTRAP_WINDOW, Math.round(value)))
+    }
+  }
 
-  // Resolve effective forecast mode: stored value or auto-detect from sprint count
-  const canUseHistory = includedSprintCount >= MIN_SPRINTS_FOR_HISTORY
-  const resolvedMode: ForecastMode = forecastMode
-    ? forecastMode
-    : (canUseHistory ? 'history' : 'subjective')
-
-  // Effective values depend on forecast mode
-  // In subjective mode: derived entirely from velocity estimate + CV (no fallthrough to calc stats)
-  // In history mode: use calculated stats, manual overrides, or volatility multiplier
-  const velocityEstimateNum = Number(velocityEstimate) || 0
+  // Throughput (item count) mode — applies to every forecast mode
+  const throughputMode = forecastInputs?.throughputMode ?? false
+  const setThroughputMode = (value: boolean) => {
+    if (selectedProject) setForecastInput(selectedProject.id, 'throughputMode', value)
+  }
 
-  // In subjective mode, prefer the user's estimate; fall back to calculated mean if available
-  const subjectiveMean = velocityEstimateNum > 0
-    ? velocityEstimateNum
-    : calculatedStats.mean                                       // pre-seed from history if available
+  // Day-level finish dates — interpolated inside each trial's final sprint
+  const dayLevelDates = forecastInputs?.dayLevelDates ?? false
+  const setDayLevelDates = (value: boolean) => {
+    if (selectedProject) setForecastInput(selectedProject.id, 'dayLevelDates', value)
+  }
 
-  const effectiveMean = velocityMean
-    ? Number(velocityMean)
-    : resolvedMode === 'subjective'
-      ? subjectiveMean
-      : calculatedStats.mean
+  // PERT three-point estimate (blank fields use the default range)
+  const pertMin = forecastInputs?.pertMin ?? ''
+  const pertMostLikely = forecastInputs?.pertMostLikely ?? ''
+  const pertMax = forecastInputs?.pertMax ?? ''
+  const pertInputs = useMemo<PertInputs>(
+    () => ({ min: pertMin, mostLikely: pertMostLikely, max: pertMax }),
+    [pertMin, pertMostLikely, pertMax]
+  )
+  const setPertInputs = (next: Partial<PertInputs>) => {
+    if (!selectedProject) return
+    if (next.min !== undefined) setForecastInput(selectedProject.id, 'pertMin', next.min)
+    if (next.mostLikely !== undefined) setForecastInput(selectedProject.id, 'pertMostLikely', next.mostLikely)
+    if (next.max !== undefined) setForecastInput(selectedProject.id, 'pertMax', next.max)
+  }
 
-  const effectiveStdDev = velocityStdDev
-    ? Number(velocityStdDev)
-    : resolvedMode === 'subjective'
-      ? subjectiveMean * selectedCV
-      : calculatedStats.standardDeviation * volatilityMultiplier
+  // Resolve effective forecast mode (stored value or auto-detect) and the velocity it implies
+  const resolvedMode = resolveForecastMode(forecastMode, includedSprintCount, capacityBaseline !== null)
+  const { mean: effectiveMean, stdDev: effectiveStdDev } = resolveEffectiveVelocity(
+    resolvedMode,
+    calculatedStats,
+    { velocityMean, velocityStdDev, velocityEstimate, selectedCV, volatilityMultiplier },
+    capacityBaseline
+  )
 
   return {
     milestones,
     hasMilestones,
     cumulativeThresholds,
+    milestonePredecessors,
+    finalMilestoneIdx,
     remainingBacklog,
     lastSprintBacklog,
     derivedBacklogFromIncluded,
@@ -155,6 +213,9 @@ export function useForecastInputs(calculatedStats: VelocityStats, includedSprint
     effectiveMean,
     effectiveStdDev,
     forecastMode,
+    resolvedMode,
+    teamMembers,
+    capacityBaseline,
     velocityEstimate,
     selectedCV,
     setRemainingBacklog,
@@ -166,5 +227,22 @@ export function useForecastInputs(calculatedStats: VelocityStats, includedSprint
     setSelectedCV,
     volatilityMultiplier,
     setVolatilityMultiplier,
+    modelAutocorrelation,
+    setModelAutocorrelation,
+    projectVelocityTrend,
+    setProjectVelocityTrend,
+    bootstrapWeightingMode,
+    bootstrapHalfLife,
+    bootstrapWindow,
+    bootstrapWeighting,
+    setBootstrapWeightingMode,
+    setBootstrapHalfLife,
+    setBootstrapWindow,
+    throughputMode,
+    setThroughputMode,
+    dayLevelDates,
+    setDayLevelDates,
+    pertInputs,
+    setPertInputs,
   }
 }
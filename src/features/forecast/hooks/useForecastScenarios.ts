@@ -0,0 +1,184 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useState, useCallback, useMemo } from 'react'
+import { toast } from 'sonner'
+import { useProjectStore } from '@/shared/state/project-store'
+import type { Project, Sprint } from '@/shared/types'
+import { generateRandomSeed } from '@/shared/lib/math'
+import type { NonWorkingDays, WorkWeek } from '@/shared/lib/dates'
+import type { QuadSimulationData, SimulationContext } from '../lib/monte-carlo'
+import { resolveProjectSimulation, type ForecastProjectOptions } from '../lib/forecast-project'
+import {
+  captureScenario,
+  scenarioFormState,
+  scenarioForecastOptions,
+  type ScenarioComparison,
+  type ScenarioFormState,
+  type ScenarioRun,
+} from '../lib/scenarios'
+import type { ScopeGrowthSampling } from '../lib/scope-growth'
+
+interface UseForecastScenariosArgs {
+  selectedProject: Project | undefined
+  /** Every sprint of the selected project */
+  projectSprints: Sprint[]
+  /** The form as it stands — what Save captures */
+  formState: ScenarioFormState
+  /** Options every compared scenario shares: trials and the session's modeling settings */
+  sharedOptions: ForecastProjectOptions
+  /** Fixed seed from Settings; null → a fresh seed per comparison */
+  simulationSeed: number | null
+  scopeGrowthSetters: {
+    setModelScopeGrowth: (value: boolean) => void
+    setScopeGrowthMode: (mode: 'calculated' | 'custom') => void
+    setCustomScopeGrowth: (value: string) => void
+    setScopeGrowthSampling: (sampling: ScopeGrowthSampling) => void
+  }
+  runSimulationBatch: (contexts: SimulationContext[]) => Promise<QuadSimulationData[]>
+}
+
+/**
+ * Saved what-if scenarios for the selected project: save the current inputs under
+ * a name, apply a saved scenario back to the form, and compare scenarios side by side.
+ *
+ * Scenarios persist with the project; the comparison is session-only and resets
+ * when the project changes.
+ */
+export function useForecastScenarios({
+  selectedProject,
+  projectSprints,
+  formState,
+  sharedOptions,
+  simulationSeed,
+  scopeGrowthSetters,
+  runSimulationBatch,
+}: UseForecastScenariosArgs) {
+  const addForecastScenario = useProjectStore((state) => state.addForecastScenario)
+  const updateForecastScenario = useProjectStore((state) => state.updateForecastScenario)
+  const deleteForecastScenario = useProjectStore((state) => state.deleteForecastScenario)
+  const updateProductivityAdjustment = useProjectStore((state) => state.updateProductivityAdjustment)
+  const setForecastInput = useProjectStore((state) => state.setForecastInput)
+
+  const scenarios = useMemo(
+    () => selectedProject?.forecastScenarios ?? [],
+    [selectedProject?.forecastScenarios]
+  )
+
+  const [scenarioComparison, setScenarioComparison] = useState<ScenarioComparison | null>(null)
+
+  const saveScenario = (name: string) => {
+    if (!selectedProject || !name.trim()) return
+    addForecastScenario(selectedProject.id, { name: name.trim(), ...captureScenario(formState) })
+    toast.success(`Scenario "${name.trim()}" saved`)
+  }
+
+  /** Overwrite a scenario's inputs with the current form */
+  const updateScenario = (scenarioId: string) => {
+    if (!selectedProject) return
+    updateForecastScenario(selectedProject.id, scenarioId, captureScenario(formState))
+  }
+
+  const deleteScenario = (scenarioId: string) => {
+    if (selectedProject) deleteForecastScenario(selectedProject.id, scenarioId)
+  }
+
+  /** Load a scenario into the form: inputs, scope growth, and which adjustments are enabled */
+  const applyScenario = (scenarioId: string) => {
+    const scenario = scenarios.find((sc) => sc.id === scenarioId)
+    if (!selectedProject || !scenario) return
+    const form = scenarioFormState(scenario)
+    const projectId = selectedProject.id
+    setForecastInput(projectId, 'remainingBacklog', form.remainingBacklog)
+    setForecastInput(projectId, 'forecastMode', form.forecastMode)
+    setForecastInput(projectId, 'velocityMean', form.velocityMean)
+    setForecastInput(projectId, 'velocityStdDev', form.velocityStdDev)
+    setForecastInput(projectId, 'velocityEstimate', form.velocityEstimate)
+    setForecastInput(projectId, 'selectedCV', form.selectedCV)
+    setForecastInput(projectId, 'volatilityMultiplier', form.volatilityMultiplier)
+    scopeGrowthSetters.setModelScopeGrowth(form.modelScopeGrowth)
+    scopeGrowthSetters.setScopeGrowthMode(form.scopeGrowthMode)
+    scopeGrowthSetters.setCustomScopeGrowth(form.customScopeGrowth)
+    scopeGrowthSetters.setScopeGrowthSampling(form.scopeGrowthSampling)
+    for (const adjustment of selectedProject.productivityAdjustments ?? []) {
+      const enabled = form.enabledAdjustmentIds.includes(adjustment.id)
+      if ((adjustment.enabled !== false) !== enabled) {
+        updateProductivityAdjustment(projectId, adjustment.id, { enabled })
+      }
+    }
+    toast.success(`Applied scenario "${scenario.name}"`)
+  }
+
+  /**
+   * Simulate the chosen scenarios (in the given order, first = baseline) with one
+   * shared seed. A scenario that can't be forecast stops the comparison with its reason.
+   */
+  const compareScenarios = async (scenarioIds: string[]) => {
+    if (!selectedProject) return
+    const chosen = scenarioIds
+      .map((id) => scenarios.find((sc) => sc.id === id))
+      .filter((sc) => sc !== undefined)
+    if (chosen.length < 2) return
+
+    const seed = simulationSeed ?? generateRandomSeed()
+    const runs: Omit<ScenarioRun, 'data'>[] = []
+    const contexts: SimulationContext[] = []
+    let startDate = ''
+    let sprintCadenceWeeks = 0
+    let nonWorkingDays: NonWorkingDays | undefined
+    let workWeek: WorkWeek | undefined
+    for (const scenario of chosen) {
+      try {
+        const resolved = resolveProjectSimulation(
+          selectedProject, projectSprints, scenarioForecastOptions(scenario, { ...sharedOptions, seed })
+        )
+        runs.push({
+          scenarioId: scenario.id,
+          name: scenario.name,
+          forecastMode: resolved.forecastMode,
+          remainingBacklog: resolved.remainingBacklog,
+        })
+        contexts.push(resolved.context)
+        startDate = resolved.startDate
+        sprintCadenceWeeks = resolved.sprintCadenceWeeks
+        nonWorkingDays = resolved.nonWorkingDays
+        workWeek = resolved.workWeek
+      } catch (err) {
+        toast.error(`${scenario.name}: ${err instanceof Error ? err.message : String(err)}`)
+        return
+      }
+    }
+
+    try {
+      const results = await runSimulationBatch(contexts)
+      setScenarioComparison({
+        startDate,
+        sprintCadenceWeeks,
+        nonWorkingDays,
+        workWeek,
+        trialCount: contexts[0].config.trialCount,
+        seed,
+        runs: runs.map((run, i) => ({ ...run, data: results[i] })),
+      })
+    } catch {
+      // Aborted (new run started) or cancelled simulation — ignore
+    }
+  }
+
+  /** Clear the comparison (called on project change) */
+  const resetScenarioComparison = useCallback(() => setScenarioComparison(null), [])
+
+  return {
+    scenarios,
+    scenarioComparison,
+    saveScenario,
+    updateScenario,
+    deleteScenario,
+    applyScenario,
+    compareScenarios,
+    resetScenarioComparison,
+  }
+}
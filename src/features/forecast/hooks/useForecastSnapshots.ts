@@ -0,0 +1,71 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useMemo } from 'react'
+import { toast } from 'sonner'
+import { useProjectStore } from '@/shared/state/project-store'
+import type { Project, Sprint } from '@/shared/types'
+import type { NonWorkingDays, WorkWeek } from '@/shared/lib/dates'
+import {
+  buildForecastSnapshot,
+  findActualCompletion,
+  sortSnapshots,
+  type SnapshotSource,
+} from '../lib/forecast-accuracy'
+
+interface UseForecastSnapshotsArgs {
+  selectedProject: Project | undefined
+  /** Every sprint of the selected project */
+  projectSprints: Sprint[]
+  /** The project's holidays and work week, which sprint finish dates step back from */
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
+}
+
+/**
+ * Published forecast snapshots for the selected project, and the project's actual
+ * completion (once a sprint records zero backlog) to score them against.
+ */
+export function useForecastSnapshots({ selectedProject, projectSprints, nonWorkingDays, workWeek }: UseForecastSnapshotsArgs) {
+  const addForecastSnapshot = useProjectStore((state) => state.addForecastSnapshot)
+  const deleteForecastSnapshot = useProjectStore((state) => state.deleteForecastSnapshot)
+
+  const snapshots = useMemo(
+    () => sortSnapshots(selectedProject?.forecastSnapshots ?? []),
+    [selectedProject?.forecastSnapshots]
+  )
+
+  const actualCompletion = useMemo(
+    () => findActualCompletion(
+      projectSprints,
+      selectedProject?.firstSprintStartDate,
+      selectedProject?.sprintCadenceWeeks,
+      selectedProject?.cadenceChanges,
+      nonWorkingDays,
+      workWeek
+    ),
+    [
+      projectSprints,
+      selectedProject?.firstSprintStartDate,
+      selectedProject?.sprintCadenceWeeks,
+      selectedProject?.cadenceChanges,
+      nonWorkingDays,
+      workWeek,
+    ]
+  )
+
+  const saveSnapshot = (source: SnapshotSource) => {
+    if (!selectedProject) return
+    addForecastSnapshot(selectedProject.id, buildForecastSnapshot(source))
+    toast.success('Forecast snapshot saved')
+  }
+
+  const deleteSnapshot = (snapshotId: string) => {
+    if (selectedProject) deleteForecastSnapshot(selectedProject.id, snapshotId)
+  }
+
+  return { snapshots, actualCompletion, saveSnapshot, deleteSnapshot }
+}
@@ -19,18 +19,54 @@ import {
   calculateAllCustomPercentiles,
   type QuadResults,
   type QuadSimulationData,
+  type QuadInterpolatedData,
+  type QuadWorkData,
   type QuadCustomResults,
   type QuadMilestoneForecastResult,
+  type MilestoneGate,
+  type SimulationContext,
+  type AdaptiveTrialResult,
 } from '../lib/monte-carlo'
 import { useSimulationWorker, type QuadForecastResult } from './useSimulationWorker'
 import { useScopeGrowthState } from './useScopeGrowthState'
+import { useForecastScenarios } from './useForecastScenarios'
+import { useForecastSnapshots } from './useForecastSnapshots'
 import { preCalculateSprintFactors } from '../lib/productivity'
+import { preCalculateSprintCapacity, combineCapacityFactors } from '../lib/capacity'
+import { countFractionalValues } from '../lib/throughput'
+import { resolvePertEstimate, empiricalPertInputs, type PertEstimateResolution } from '../lib/pert'
 import { generateForecastCsv, downloadCsv, generateFilename } from '../lib/export-csv'
 import { safeParseNumber } from '@/shared/lib/validation'
-import { MIN_SPRINTS_FOR_HISTORY, DEFAULT_SELECTED_PERCENTILES } from '../constants'
-import type { ForecastMode } from '@/shared/types'
+import { generateRandomSeed } from '@/shared/lib/math'
+import { MIN_SPRINTS_FOR_AUTOCORRELATION, MIN_SPRINTS_FOR_BOOTSTRAP, DEFAULT_SELECTED_PERCENTILES } from '../constants'
 import { computeMilestoneCompletionInfo } from '../lib/milestones'
+import { assessVelocityTrend, type VelocityTrendAssessment } from '../lib/velocity-trend'
 import { canRunForecast, getRunForecastBlockedReason } from '../lib/run-forecast-prereqs'
+import { targetDateToSprintCount, type SprintAtDate } from '../lib/deadline'
+import { isValidDateRange, today } from '@/shared/lib/dates'
+import type { ForecastSnapshotInputs, ProductivityAdjustment } from '@/shared/types'
+import {
+  buildSensitivityPlan,
+  sensitivityContexts,
+  summarizeSensitivity,
+  type SensitivityAnalysis,
+  type SensitivityInputs,
+} from '../lib/sensitivity'
+import {
+  buildBacktestPlan,
+  backtestContexts,
+  scoreBacktest,
+  BACKTEST_MIN_HISTORY,
+  BACKTEST_TRIAL_COUNT,
+  type BacktestResult,
+} from '../lib/backtest'
+import {
+  buildDependencyPlan,
+  dependencyContexts,
+  buildMilestoneGates,
+  summarizeDependencyDelay,
+  type DependencyDelay,
+} from '../lib/dependencies'
 
 /** Per-milestone QuadResults and QuadSimulationData */
 export interface MilestoneResults {
@@ -38,9 +74,22 @@ export interface MilestoneResults {
   milestoneSimulationData: QuadSimulationData[]
 }
 
+/** Fixed-horizon ("how much by date") forecast: the sprint the target date
+ *  quantizes to, and per-distribution sorted work completed by its end. */
+export interface WorkByDateResults {
+  sprintAtDate: SprintAtDate
+  workData: QuadWorkData
+}
+
 const EMPTY_CUSTOM_RESULTS: QuadCustomResults = {
   truncatedNormal: null, lognormal: null, gamma: null, bootstrap: null,
-  triangular: null, uniform: null,
+  triangular: null, pert: null, uniform: null,
+}
+
+/** Placeholder work distribution for target dates before any forecast sprint completes */
+const EMPTY_WORK_DATA: QuadWorkData = {
+  truncatedNormal: new Float64Array(0), lognormal: new Float64Array(0), gamma: new Float64Array(0), bootstrap: null,
+  triangular: new Float64Array(0), pert: new Float64Array(0), uniform: new Float64Array(0),
 }
 
 /** Extract QuadResults + QuadSimulationData from a QuadForecastResult */
@@ -52,6 +101,7 @@ function extractQuadData(raw: QuadForecastResult): { results: QuadResults; simDa
       gamma: raw.gamma.results,
       bootstrap: raw.bootstrap?.results ?? null,
       triangular: raw.triangular.results,
+      pert: raw.pert.results,
       uniform: raw.uniform.results,
     },
     simData: {
@@ -60,6 +110,7 @@ function extractQuadData(raw: QuadForecastResult): { results: QuadResults; simDa
       gamma: raw.gamma.sprintsRequired,
       bootstrap: raw.bootstrap?.sprintsRequired ?? null,
       triangular: raw.triangular.sprintsRequired,
+      pert: raw.pert.sprintsRequired,
       uniform: raw.uniform.sprintsRequired,
     },
   }
@@ -79,6 +130,7 @@ function extractMilestoneData(
       gamma: raw.gamma.milestoneResults[m].results,
       bootstrap: raw.bootstrap?.milestoneResults[m].results ?? null,
       triangular: raw.triangular.milestoneResults[m].results,
+      pert: raw.pert.milestoneResults[m].results,
       uniform: raw.uniform.milestoneResults[m].results,
     })
     perMilestoneSimData.push({
@@ -87,6 +139,7 @@ function extractMilestoneData(
       gamma: raw.gamma.milestoneResults[m].sprintsRequired,
       bootstrap: raw.bootstrap?.milestoneResults[m].sprintsRequired ?? null,
       triangular: raw.triangular.milestoneResults[m].sprintsRequired,
+      pert: raw.pert.milestoneResults[m].sprintsRequired,
       uniform: raw.uniform.milestoneResults[m].sprintsRequired,
     })
   }
@@ -95,27 +148,97 @@ function extractMilestoneData(
 
 export function useForecastState() {
   const isClient = useIsClient()
-  const { runSimulation, runMilestoneSimulation, isSimulating } = useSimulationWorker()
+  const {
+    runSimulation, runMilestoneSimulation, runWorkSimulation, runSimulationBatch, cancelSimulation, isSimulating,
+    progress: simulationProgress,
+  } = useSimulationWorker()
   const projects = useProjectStore((state) => state.projects)
+  const allSprints = useProjectStore((state) => state.sprints)
   const selectedProject = useProjectStore(selectViewingProject)
   const setViewingProjectId = useProjectStore((state) => state.setViewingProjectId)
 
   // Global settings
   const trialCount = useSettingsStore((s) => s.trialCount)
+  const adaptiveTrialCount = useSettingsStore((s) => s.adaptiveTrialCount)
+  const simulationSeed = useSettingsStore((s) => s.simulationSeed)
+  const trendMinRSquared = useSettingsStore((s) => s.trendMinRSquared)
   const autoRecalculate = useSettingsStore((s) => s.autoRecalculate)
+  const distributionsEnabled = useSettingsStore((s) => s.distributionsEnabled)
 
   // Composed hooks
   const sprintData = useSprintData()
   // Use the *included* sprint subset so that toggling a sprint's inclusion updates the
   // derived backlog value for the Forecast tab's Remaining Backlog field (Item 2 fix).
-  const inputs = useForecastInputs(sprintData.calculatedStats, sprintData.includedSprintCount, sprintData.includedSprints)
+  const inputs = useForecastInputs(
+    sprintData.calculatedStats, sprintData.includedSprintCount, sprintData.includedSprints,
+    sprintData.nonWorkingDays, sprintData.workWeek
+  )
   const charts = useChartSettings()
 
-  // Forecast mode: auto-detect or user override
-  const canUseHistory = sprintData.includedSprintCount >= MIN_SPRINTS_FOR_HISTORY
-  const effectiveForecastMode: ForecastMode = inputs.forecastMode
-    ? inputs.forecastMode
-    : (canUseHistory ? 'history' : 'subjective')
+  // Forecast mode: auto-detect or user override (resolved in useForecastInputs)
+  const effectiveForecastMode = inputs.resolvedMode
+
+  // Lag-1 velocity autocorrelation: estimated from included sprints, applied only in
+  // history mode when the user opts in. Undefined → independent sprint draws.
+  const estimatedAutocorrelation = sprintData.calculatedStats.lag1Autocorrelation ?? 0
+  const canModelAutocorrelation = sprintData.includedSprintCount >= MIN_SPRINTS_FOR_AUTOCORRELATION
+  const activeAutocorrelation =
+    effectiveForecastMode === 'history' && inputs.modelAutocorrelation && canModelAutocorrelation
+      ? estimatedAutocorrelation
+      : undefined
+
+  // Velocity trend: fitted from included sprints; projected only in history mode when the
+  // user opts in AND the fit clears the Settings R² threshold.
+  const velocityTrend = useMemo(
+    () => assessVelocityTrend(
+      sprintData.includedSprints, inputs.effectiveMean, trendMinRSquared, sprintData.completedSprintCount
+    ),
+    [sprintData.includedSprints, inputs.effectiveMean, trendMinRSquared, sprintData.completedSprintCount]
+  )
+  const activeTrend =
+    effectiveForecastMode === 'history' && inputs.projectVelocityTrend
+      ? velocityTrend.trend ?? undefined
+      : undefined
+
+  // Bootstrap weighting only matters when Bootstrap runs (history mode, enough sprints)
+  const activeBootstrapWeighting =
+    effectiveForecastMode === 'history' && sprintData.canUseBootstrap && inputs.bootstrapWeighting.mode !== 'uniform'
+      ? inputs.bootstrapWeighting
+      : undefined
+
+  // Throughput mode expects whole-item done values; flag sprints that break that
+  const fractionalSprintCount = useMemo(
+    () => countFractionalValues(sprintData.includedSprints.map((s) => s.doneValue)),
+    [sprintData.includedSprints]
+  )
+
+  // Capacity mode: planned team FTE per future sprint from the roster (index 0 = next sprint)
+  const isCapacityMode = effectiveForecastMode === 'capacity'
+  const sprintCadenceWeeks = sprintData.sprintCadenceWeeks
+  const plannedCapacity = useMemo(
+    () => isCapacityMode && sprintCadenceWeeks
+      ? preCalculateSprintCapacity(
+          sprintData.forecastStartDate, sprintCadenceWeeks, 1, inputs.teamMembers, undefined,
+          sprintData.nonWorkingDays, sprintData.workWeek
+        )
+      : null,
+    [isCapacityMode, sprintData.forecastStartDate, sprintCadenceWeeks, inputs.teamMembers,
+      sprintData.nonWorkingDays, sprintData.workWeek]
+  )
+
+  // PERT three-point estimate is in team-velocity units, so capacity mode (per-person
+  // throughput) keeps the default range; it is also ignored while PERT is hidden.
+  const showPertEstimate = !isCapacityMode && distributionsEnabled.includes('pert')
+  const pertResolution = useMemo<PertEstimateResolution>(
+    () => showPertEstimate
+      ? resolvePertEstimate(inputs.pertInputs, inputs.effectiveMean, inputs.effectiveStdDev)
+      : { error: null },
+    [showPertEstimate, inputs.pertInputs, inputs.effectiveMean, inputs.effectiveStdDev]
+  )
+  const empiricalPert = useMemo(
+    () => empiricalPertInputs(sprintData.historicalVelocities),
+    [sprintData.historicalVelocities]
+  )
 
   // Productivity adjustments for the selected project
   const productivityAdjustments = useMemo(
@@ -141,9 +264,25 @@ export function useForecastState() {
   // Results state
   const [results, setResults] = useState<QuadResults | null>(null)
   const [simulationData, setSimulationData] = useState<QuadSimulationData | null>(null)
+  // Fractional sprints required from a day-level run; null for sprint-level or milestone runs
+  const [interpolatedSimulationData, setInterpolatedSimulationData] = useState<QuadInterpolatedData | null>(null)
   // Overall (total backlog) simulation data — used by burn-up chart; not swapped by milestone dropdown
   const [overallSimulationData, setOverallSimulationData] = useState<QuadSimulationData | null>(null)
   const [milestoneResultsState, setMilestoneResultsState] = useState<MilestoneResults | null>(null)
+  // Same-seed run with independent sprint draws, kept only while autocorrelation is
+  // modeled — lets the results compare correlated vs independent percentiles.
+  const [independentSimulationData, setIndependentSimulationData] = useState<QuadSimulationData | null>(null)
+  // Delay from milestones waiting on other projects' milestones; null when none wait.
+  const [dependencyDelay, setDependencyDelay] = useState<DependencyDelay | null>(null)
+  // Seed actually used by the latest run — the fixed Settings seed, or the fresh one drawn
+  // for this run. Surfaced in results and exports so any forecast can be regenerated.
+  const [lastSeed, setLastSeed] = useState<number | null>(null)
+  // Trials per distribution in the latest run, and the convergence outcome when the
+  // count was chosen adaptively (null = fixed count from Settings).
+  const [lastTrialCount, setLastTrialCount] = useState<number | null>(null)
+  const [lastAdaptiveResult, setLastAdaptiveResult] = useState<AdaptiveTrialResult | null>(null)
+  // Trend projected by the latest run (null = stationary mean), for result/chart/export notes
+  const [appliedTrend, setAppliedTrend] = useState<VelocityTrendAssessment | null>(null)
   const defaultPercentile = useSettingsStore((s) => s.defaultCustomPercentile)
   const [customPercentile, setCustomPercentile] = useState(defaultPercentile)
   const [customResults, setCustomResults] = useState<QuadCustomResults>(EMPTY_CUSTOM_RESULTS)
@@ -160,7 +299,61 @@ export function useForecastState() {
   )
 
   // Scope growth modeling (session only, extracted hook)
-  const scopeGrowth = useScopeGrowthState(sprintData.scopeChangeStats?.averageScopeInjection)
+  const scopeGrowth = useScopeGrowthState(sprintData.scopeChangeStats)
+
+  // Saved what-if scenarios: captured from, and applied back to, the form above.
+  // Compared scenarios share the session's modeling options and one seed.
+  const enabledAdjustmentIds = useMemo(
+    () => productivityAdjustments.filter((a) => a.enabled !== false).map((a) => a.id),
+    [productivityAdjustments]
+  )
+  const scenarioPertEstimate = useMemo(
+    () => showPertEstimate
+      ? {
+          min: safeParseNumber(inputs.pertInputs.min) ?? undefined,
+          mostLikely: safeParseNumber(inputs.pertInputs.mostLikely) ?? undefined,
+          max: safeParseNumber(inputs.pertInputs.max) ?? undefined,
+        }
+      : undefined,
+    [showPertEstimate, inputs.pertInputs]
+  )
+  const scenarioState = useForecastScenarios({
+    selectedProject,
+    projectSprints: sprintData.projectSprints,
+    formState: {
+      remainingBacklog: inputs.remainingBacklog,
+      forecastMode: effectiveForecastMode,
+      velocityMean: inputs.velocityMean,
+      velocityStdDev: inputs.velocityStdDev,
+      velocityEstimate: inputs.velocityEstimate,
+      selectedCV: inputs.selectedCV,
+      volatilityMultiplier: inputs.volatilityMultiplier,
+      modelScopeGrowth: scopeGrowth.modelScopeGrowth,
+      scopeGrowthMode: scopeGrowth.scopeGrowthMode,
+      customScopeGrowth: scopeGrowth.customScopeGrowth,
+      scopeGrowthSampling: scopeGrowth.scopeGrowthSampling,
+      enabledAdjustmentIds,
+    },
+    sharedOptions: {
+      trialCount,
+      modelAutocorrelation: inputs.modelAutocorrelation,
+      projectVelocityTrend: inputs.projectVelocityTrend,
+      trendMinRSquared,
+      bootstrapWeighting: inputs.bootstrapWeighting,
+      throughputMode: inputs.throughputMode,
+      pertEstimate: scenarioPertEstimate,
+    },
+    simulationSeed,
+    scopeGrowthSetters: scopeGrowth,
+    runSimulationBatch,
+  })
+
+  const snapshotState = useForecastSnapshots({
+    selectedProject,
+    projectSprints: sprintData.projectSprints,
+    nonWorkingDays: sprintData.nonWorkingDays,
+    workWeek: sprintData.workWeek,
+  })
 
   // Milestone chart selector (which milestone to show on CDF/histogram)
   const [selectedMilestoneIndex, setSelectedMilestoneIndex] = useState(0)
@@ -172,6 +365,35 @@ export function useForecastState() {
   // switches.
   const [targetDate, setTargetDate] = useState<string>('')
 
+  // Work by Date panel: its own target date (same reset rationale as above) and the
+  // fixed-horizon results. Unlike Deadline Probability this needs its own simulation
+  // run, so the inputs of the latest forecast are kept to re-run it when the date
+  // changes — same seed and options, so both panels describe the same forecast.
+  const [workTargetDate, setWorkTargetDate] = useState<string>('')
+  const [workByDateResults, setWorkByDateResults] = useState<WorkByDateResults | null>(null)
+  const lastSimulationInputRef = useRef<SimulationContext | null>(null)
+  const workTargetDateRef = useRef(workTargetDate)
+  useEffect(() => {
+    workTargetDateRef.current = workTargetDate
+  })
+
+  // Sensitivity panel: runs on request against the inputs of the latest forecast,
+  // and is cleared whenever a new forecast replaces them.
+  const [sensitivityAnalysis, setSensitivityAnalysis] = useState<SensitivityAnalysis | null>(null)
+  const lastSensitivityInputsRef = useRef<SensitivityInputs | null>(null)
+
+  // Backtest panel: replays the project's own sprint history, so it needs no
+  // forecast run first — only the modeling options in effect when it starts.
+  const [backtestResult, setBacktestResult] = useState<BacktestResult | null>(null)
+
+  // Forecast snapshots freeze the latest run as it ran, so its inputs (and the
+  // milestones it forecast) are recorded when it finishes, not read from the form
+  // at save time.
+  const lastSnapshotInputsRef = useRef<{
+    inputs: ForecastSnapshotInputs
+    milestones: { name: string; cumulativeBacklog: number }[]
+  } | null>(null)
+
   // Centralized prerequisite check shared by:
   //  - the auto-recalculate effect below (silent-path gate)
   //  - handleRunForecast (manual-path guard — defense in depth)
@@ -187,16 +409,20 @@ export function useForecastState() {
   // bailing with no UI feedback.
   const prereqInputs = useMemo(
     () => ({
-      sprintCadenceWeeks: selectedProject?.sprintCadenceWeeks,
+      sprintCadenceWeeks,
       firstSprintStartDate: selectedProject?.firstSprintStartDate,
       remainingBacklog: inputs.remainingBacklog,
       effectiveMean: inputs.effectiveMean,
+      steadyStateCapacity: plannedCapacity?.[plannedCapacity.length - 1],
+      pertEstimateError: pertResolution.error,
     }),
     [
-      selectedProject?.sprintCadenceWeeks,
+      sprintCadenceWeeks,
       selectedProject?.firstSprintStartDate,
       inputs.remainingBacklog,
       inputs.effectiveMean,
+      plannedCapacity,
+      pertResolution.error,
     ]
   )
   const canRun = useMemo(() => canRunForecast(prereqInputs), [prereqInputs])
@@ -212,6 +438,7 @@ export function useForecastState() {
   // be a dep). The function has stable identity (wrapped in `useCallback([])`
   // inside useScopeGrowthState), so listing it does not cause re-runs.
   const { resetScopeGrowth } = scopeGrowth
+  const { resetScenarioComparison } = scenarioState
   // Reset all results state when the selected project changes. React's
   // react-hooks/set-state-in-effect rule flags setState-in-useEffect as an
   // anti-pattern, with the recommended alternative being a `key` prop on the
@@ -224,18 +451,54 @@ export function useForecastState() {
       /* eslint-disable react-hooks/set-state-in-effect */
       setResults(null)
       setSimulationData(null)
+      setInterpolatedSimulationData(null)
       setOverallSimulationData(null)
       setMilestoneResultsState(null)
+      setIndependentSimulationData(null)
+      setDependencyDelay(null)
+      setLastSeed(null)
+      setLastTrialCount(null)
+      setLastAdaptiveResult(null)
+      setAppliedTrend(null)
       setCustomResults(EMPTY_CUSTOM_RESULTS)
       setCustomResults2(EMPTY_CUSTOM_RESULTS)
       setSelectedMilestoneIndex(0)
       setTargetDate('')
+      setWorkTargetDate('')
+      setWorkByDateResults(null)
+      setSensitivityAnalysis(null)
+      setBacktestResult(null)
       /* eslint-enable react-hooks/set-state-in-effect */
       resetScopeGrowth()
+      resetScenarioComparison()
+      lastSimulationInputRef.current = null
+      lastSensitivityInputsRef.current = null
+      lastSnapshotInputsRef.current = null
       hasRunOnceRef.current = false
       prevProjectIdRef.current = selectedProject?.id
     }
-  }, [selectedProject?.id, resetScopeGrowth])
+  }, [selectedProject?.id, resetScopeGrowth, resetScenarioComparison])
+
+  // Fixed-horizon run for the Work by Date panel. Quantizes the target date to the
+  // last complete forecast sprint (as Deadline Probability does) and simulates
+  // exactly that many sprints. Dates before the first forecast sprint finishes
+  // skip the simulation — nothing can be completed yet.
+  const runWorkByDate = async (simulationInput: SimulationContext, date: string) => {
+    if (!isValidDateRange(date, false) || !isValidDateRange(sprintData.forecastStartDate, false)) {
+      setWorkByDateResults(null)
+      return
+    }
+    const sprintAtDate = targetDateToSprintCount(
+      date, sprintData.forecastStartDate, simulationInput.config.sprintCadenceWeeks,
+      sprintData.nonWorkingDays, sprintData.workWeek
+    )
+    if (date < sprintData.forecastStartDate || sprintAtDate.sprintCount === 0) {
+      setWorkByDateResults({ sprintAtDate, workData: EMPTY_WORK_DATA })
+      return
+    }
+    const workData = await runWorkSimulation({ ...simulationInput, workSprintCount: sprintAtDate.sprintCount })
+    setWorkByDateResults({ sprintAtDate, workData })
+  }
 
   const handleRunForecast = async () => {
     // Belt-and-braces: same prereq check used by the UI's button-disabled state.
@@ -248,7 +511,7 @@ export function useForecastState() {
     // type system can't see that narrowing across a helper boundary. Re-check
     // here so TypeScript can narrow `number | undefined` → `number` at every
     // downstream use site. Runtime-redundant, type-system-essential.
-    if (!selectedProject.sprintCadenceWeeks || !selectedProject.firstSprintStartDate) return
+    if (!sprintCadenceWeeks || !selectedProject.firstSprintStartDate) return
 
     const parsedBacklog = safeParseNumber(inputs.remainingBacklog)
     if (parsedBacklog === null || parsedBacklog <= 0) return
@@ -261,61 +524,118 @@ export function useForecastState() {
       velocityStdDev: inputs.effectiveStdDev,
       startDate: sprintData.forecastStartDate,
       trialCount,
-      sprintCadenceWeeks: selectedProject.sprintCadenceWeeks,
+      sprintCadenceWeeks,
+      nonWorkingDays: sprintData.nonWorkingDays,
+      workWeek: sprintData.workWeek,
     }
 
-    // Pre-calculate productivity factors if enabled adjustments exist
+    // Pre-calculate productivity factors if enabled adjustments or working-calendar holidays exist
     // Use the cascade-resolved forecastStartDate as anchor, with sprint index 1,
     // so future sprint date ranges align with any custom finish date shifts
+    //
+    // Capacity mode: the velocity config is per-person throughput, so each sprint's
+    // multiplier is its planned FTE (times any productivity adjustment), and Bootstrap
+    // resamples per-person throughput rather than raw team velocity.
+    const cadenceWeeks = sprintCadenceWeeks
+    const capacityBaseline = isCapacityMode && plannedCapacity ? inputs.capacityBaseline : null
+    const buildProductivityFactors = (adjustments: ProductivityAdjustment[]): number[] | undefined => {
+      const factors = adjustments.length > 0 || sprintData.nonWorkingDays
+        ? preCalculateSprintFactors(
+            sprintData.forecastStartDate, cadenceWeeks, 1, adjustments, undefined,
+            sprintData.nonWorkingDays, sprintData.workWeek
+          ).factors
+        : undefined
+      return capacityBaseline && plannedCapacity ? combineCapacityFactors(plannedCapacity, factors) : factors
+    }
     const enabledAdjustments = productivityAdjustments.filter((a) => a.enabled !== false)
-    let productivityFactors: number[] | undefined
-    if (enabledAdjustments.length > 0) {
-      const { factors } = preCalculateSprintFactors(
-        sprintData.forecastStartDate,
-        selectedProject.sprintCadenceWeeks,
-        1,
-        enabledAdjustments
-      )
-      productivityFactors = factors
+    const productivityFactors = buildProductivityFactors(enabledAdjustments)
+
+    let historicalVelocities = sprintData.canUseBootstrap ? sprintData.historicalVelocities : undefined
+    if (capacityBaseline) {
+      const perPerson = capacityBaseline.perPersonVelocities
+      historicalVelocities = perPerson.length >= MIN_SPRINTS_FOR_BOOTSTRAP ? perPerson : undefined
     }
 
+    // Fixed seed from Settings reproduces a prior run; otherwise draw a fresh one and
+    // record it so this run can be reproduced later.
+    const seed = simulationSeed ?? generateRandomSeed()
+    const simulationInput = {
+      config,
+      historicalVelocities,
+      productivityFactors,
+      scopeGrowthPerSprint: scopeGrowth.scopeGrowthPerSprint,
+      scopeGrowthVariability: scopeGrowth.scopeGrowthVariability,
+      throughputMode: inputs.throughputMode || undefined,
+      seed,
+      trend: activeTrend,
+      bootstrapWeighting: activeBootstrapWeighting,
+      pertEstimate: pertResolution.estimate,
+    }
+    const useMilestones = inputs.hasMilestones && inputs.cumulativeThresholds.length > 0
+    const adaptiveTrials = adaptiveTrialCount || undefined
+
+    // Milestones waiting on other projects: forecast each upstream milestone first,
+    // then hold the gated milestones back per trial.
+    const dependencyPlan = useMilestones
+      ? buildDependencyPlan(selectedProject, projects, allSprints, { trialCount, seed })
+      : null
+
     try {
-      if (inputs.hasMilestones && inputs.cumulativeThresholds.length > 0) {
+      setIndependentSimulationData(null)
+      setDependencyDelay(null)
+      let milestoneGates: MilestoneGate[] | undefined
+      if (dependencyPlan && dependencyPlan.upstreams.length > 0) {
+        const upstreamRuns = await runSimulationBatch(dependencyContexts(dependencyPlan))
+        milestoneGates = buildMilestoneGates(
+          dependencyPlan, upstreamRuns, sprintData.forecastStartDate, sprintCadenceWeeks
+        )
+      }
+      let adaptive: AdaptiveTrialResult | undefined
+      let gatedSimData: QuadSimulationData[] | null = null
+      if (useMilestones) {
         const milestoneResult = await runMilestoneSimulation({
-          config,
-          historicalVelocities: sprintData.canUseBootstrap ? sprintData.historicalVelocities : undefined,
-          productivityFactors,
+          ...simulationInput,
           milestoneThresholds: inputs.cumulativeThresholds,
-          scopeGrowthPerSprint: scopeGrowth.scopeGrowthPerSprint,
+          milestoneGates,
+          milestonePredecessors: inputs.milestonePredecessors,
+          autocorrelation: activeAutocorrelation,
+          adaptiveTrials,
         })
+        adaptive = milestoneResult.adaptive
 
         const { perMilestoneResults, perMilestoneSimData } = extractMilestoneData(
           milestoneResult, inputs.cumulativeThresholds.length
         )
         setMilestoneResultsState({ milestoneResults: perMilestoneResults, milestoneSimulationData: perMilestoneSimData })
+        setInterpolatedSimulationData(null)
+        gatedSimData = perMilestoneSimData
 
-        const lastIdx = perMilestoneResults.length - 1
-        setOverallSimulationData(perMilestoneSimData[lastIdx])
-        setSimulationData(perMilestoneSimData[lastIdx])
-        setResults(perMilestoneResults[lastIdx])
-        setSelectedMilestoneIndex(lastIdx)
+        // The overall forecast is the milestone reached last — with parallel work
+        // streams, not necessarily the last in the list.
+        const finalIdx = inputs.finalMilestoneIdx
+        setOverallSimulationData(perMilestoneSimData[finalIdx])
+        setSimulationData(perMilestoneSimData[finalIdx])
+        setResults(perMilestoneResults[finalIdx])
+        setSelectedMilestoneIndex(finalIdx)
         setCustomResults(calculateAllCustomPercentiles(
-          perMilestoneSimData[lastIdx], customPercentile,
-          sprintData.forecastStartDate, selectedProject.sprintCadenceWeeks
+          perMilestoneSimData[finalIdx], customPercentile,
+          sprintData.forecastStartDate, sprintCadenceWeeks, sprintData.nonWorkingDays, sprintData.workWeek
         ))
         setCustomResults2(calculateAllCustomPercentiles(
-          perMilestoneSimData[lastIdx], customPercentile2,
-          sprintData.forecastStartDate, selectedProject.sprintCadenceWeeks
+          perMilestoneSimData[finalIdx], customPercentile2,
+          sprintData.forecastStartDate, sprintCadenceWeeks, sprintData.nonWorkingDays, sprintData.workWeek
         ))
       } else {
         const quadResults = await runSimulation({
-          config,
-          historicalVelocities: sprintData.canUseBootstrap ? sprintData.historicalVelocities : undefined,
-          productivityFactors,
-          scopeGrowthPerSprint: scopeGrowth.scopeGrowthPerSprint,
+          ...simulationInput,
+          autocorrelation: activeAutocorrelation,
+          adaptiveTrials,
+          interpolate: inputs.dayLevelDates || undefined,
         })
+        adaptive = quadResults.adaptive
 
         setMilestoneResultsState(null)
+        setInterpolatedSimulationData(quadResults.interpolated ?? null)
 
         const { results: quadResultsMapped, simData } = extractQuadData(quadResults)
         setOverallSimulationData(simData)
@@ -323,17 +643,169 @@ export function useForecastState() {
         setResults(quadResultsMapped)
         setCustomResults(calculateAllCustomPercentiles(
           simData, customPercentile,
-          sprintData.forecastStartDate, selectedProject.sprintCadenceWeeks
+          sprintData.forecastStartDate, sprintCadenceWeeks, sprintData.nonWorkingDays, sprintData.workWeek
         ))
         setCustomResults2(calculateAllCustomPercentiles(
           simData, customPercentile2,
-          sprintData.forecastStartDate, selectedProject.sprintCadenceWeeks
+          sprintData.forecastStartDate, sprintCadenceWeeks, sprintData.nonWorkingDays, sprintData.workWeek
         ))
       }
+      setLastSeed(seed)
+      setLastTrialCount(adaptive?.trialCount ?? trialCount)
+      setLastAdaptiveResult(adaptive ?? null)
+      setAppliedTrend(activeTrend ? velocityTrend : null)
       hasRunOnceRef.current = true
+
+      // Follow-up runs (independent baseline, Work by Date) reuse the trial count the
+      // main run settled on rather than re-running the convergence pass.
+      const settledInput = adaptive
+        ? { ...simulationInput, config: { ...config, trialCount: adaptive.trialCount } }
+        : simulationInput
+      // Work by Date re-runs against the same inputs as the forecast the rest of the tab
+      // shows, autocorrelation included.
+      const workInput: SimulationContext = { ...settledInput, autocorrelation: activeAutocorrelation }
+      lastSimulationInputRef.current = workInput
+      // Sensitivity analyses the overall scope: with milestones, through the final one.
+      lastSensitivityInputsRef.current = {
+        context: useMilestones
+          ? { ...workInput, config: { ...workInput.config, remainingBacklog: inputs.cumulativeThresholds[inputs.finalMilestoneIdx] } }
+          : workInput,
+        volatilityMultiplier: effectiveForecastMode === 'history' ? inputs.volatilityMultiplier : 1,
+        adjustments: enabledAdjustments,
+        productivityFactorsWithout: (id) => buildProductivityFactors(enabledAdjustments.filter((a) => a.id !== id)),
+      }
+      setSensitivityAnalysis(null)
+      lastSnapshotInputsRef.current = {
+        inputs: {
+          forecastMode: effectiveForecastMode,
+          remainingBacklog: parsedBacklog,
+          velocityMean: inputs.effectiveMean,
+          velocityStdDev: inputs.effectiveStdDev,
+          startDate: sprintData.forecastStartDate,
+          sprintCadenceWeeks: cadenceWeeks,
+          trialCount: adaptive?.trialCount ?? trialCount,
+          seed,
+          ...(scopeGrowth.scopeGrowthPerSprint !== undefined
+            ? { scopeGrowthPerSprint: scopeGrowth.scopeGrowthPerSprint }
+            : {}),
+          adjustmentNames: enabledAdjustments.map((a) => a.name),
+        },
+        milestones: useMilestones
+          ? inputs.milestones.map((m, i) => ({ name: m.name, cumulativeBacklog: inputs.cumulativeThresholds[i] }))
+          : [],
+      }
+
+      // Same-seed run without waiting on other projects: its own trials match the
+      // gated run's, so the difference is the delay the dependencies propagate.
+      // With every dependency skipped or already met, nothing waited: the run is its own baseline.
+      if (dependencyPlan && gatedSimData) {
+        const ungatedSimData = milestoneGates
+          ? extractMilestoneData(
+              await runMilestoneSimulation({ ...workInput, milestoneThresholds: inputs.cumulativeThresholds }),
+              inputs.cumulativeThresholds.length
+            ).perMilestoneSimData
+          : gatedSimData
+        setDependencyDelay(summarizeDependencyDelay(
+          dependencyPlan,
+          milestoneGates ?? [],
+          gatedSimData,
+          ungatedSimData,
+          sprintData.forecastStartDate,
+          sprintCadenceWeeks,
+          {
+            finalIndex: inputs.finalMilestoneIdx,
+            predecessors: inputs.milestonePredecessors,
+            nonWorkingDays: sprintData.nonWorkingDays,
+            workWeek: sprintData.workWeek,
+          }
+        ))
+      }
+
+      // Independent-draw baseline with the same seed, for the correlated-vs-independent
+      // comparison. Compared on the overall (final milestone / total backlog) scope.
+      if (activeAutocorrelation !== undefined) {
+        if (useMilestones) {
+          const baseline = await runMilestoneSimulation({
+            ...settledInput,
+            milestoneThresholds: inputs.cumulativeThresholds,
+            milestoneGates,
+            milestonePredecessors: inputs.milestonePredecessors,
+          })
+          const { perMilestoneSimData } = extractMilestoneData(baseline, inputs.cumulativeThresholds.length)
+          setIndependentSimulationData(perMilestoneSimData[inputs.finalMilestoneIdx])
+        } else {
+          setIndependentSimulationData(extractQuadData(await runSimulation(settledInput)).simData)
+        }
+      }
+
+      // Last, so it never aborts the main run: the worker pool serves one run at a time.
+      if (workTargetDateRef.current) {
+        await runWorkByDate(workInput, workTargetDateRef.current)
+      } else {
+        setWorkByDateResults(null)
+      }
     } catch {
-      // Aborted simulation (new run started) — ignore
+      // Aborted (new run started) or cancelled simulation — ignore
+    }
+  }
+
+  // One-at-a-time sensitivity of the latest forecast. Started from the panel, not
+  // automatically: it is several full runs and would hold the pool on every edit.
+  const handleRunSensitivity = async () => {
+    const sensitivityInputs = lastSensitivityInputsRef.current
+    if (!sensitivityInputs || isSimulating) return
+    const plan = buildSensitivityPlan(sensitivityInputs)
+    try {
+      const runs = await runSimulationBatch(sensitivityContexts(plan))
+      setSensitivityAnalysis(summarizeSensitivity(plan, runs))
+    } catch {
+      // Aborted (new run started) or cancelled simulation — ignore
+    }
+  }
+
+  // Backtest every historical cutoff of the project, capped like sensitivity runs
+  // since each cutoff is a full run of every distribution.
+  const handleRunBacktest = async () => {
+    if (!selectedProject || isSimulating) return
+    const plan = buildBacktestPlan(selectedProject, sprintData.projectSprints, {
+      modelAutocorrelation: inputs.modelAutocorrelation,
+      projectVelocityTrend: inputs.projectVelocityTrend,
+      trendMinRSquared,
+      bootstrapWeighting: inputs.bootstrapWeighting,
+      throughputMode: inputs.throughputMode,
+      trialCount: Math.min(trialCount, BACKTEST_TRIAL_COUNT),
+      seed: simulationSeed ?? undefined,
+    })
+    if (!plan) {
+      toast.error('Not enough sprint history to backtest')
+      return
     }
+    try {
+      const runs = await runSimulationBatch(backtestContexts(plan))
+      setBacktestResult(scoreBacktest(plan, runs))
+    } catch {
+      // Aborted (new run started) or cancelled simulation — ignore
+    }
+  }
+
+  // Freeze the forecast on screen as a snapshot: the overall scope plus, with
+  // milestones, each milestone's forecast.
+  const handleSaveSnapshot = (note: string) => {
+    const snapshotInputs = lastSnapshotInputsRef.current
+    if (!snapshotInputs || !overallSimulationData) return
+    const milestoneData = milestoneResultsState?.milestoneSimulationData ?? []
+    snapshotState.saveSnapshot({
+      snapshotDate: today(),
+      completedSprintCount: sprintData.completedSprintCount,
+      note,
+      inputs: snapshotInputs.inputs,
+      overallData: overallSimulationData,
+      nonWorkingDays: sprintData.nonWorkingDays,
+      workWeek: sprintData.workWeek,
+      milestones: snapshotInputs.milestones.flatMap((m, i) =>
+        milestoneData[i] ? [{ ...m, data: milestoneData[i] }] : []
+      ),
+    })
   }
 
   // Auto-recalculation: re-run forecast when inputs change. Keep an always-fresh
@@ -347,11 +819,30 @@ export function useForecastState() {
     runForecastRef.current = handleRunForecast
   })
 
+  // Work by Date: re-run the fixed-horizon simulation when its target date changes.
+  // Skipped while a forecast is running — handleRunForecast picks up the latest date
+  // when it finishes — and before the first forecast, which has no inputs to reuse.
+  const debouncedWorkTargetDate = useDebounce(workTargetDate, 400)
+  const runWorkByDateRef = useRef(runWorkByDate)
+  const isSimulatingRef = useRef(isSimulating)
+  useEffect(() => {
+    runWorkByDateRef.current = runWorkByDate
+    isSimulatingRef.current = isSimulating
+  })
+  useEffect(() => {
+    const simulationInput = lastSimulationInputRef.current
+    if (!simulationInput || isSimulatingRef.current) return
+    runWorkByDateRef.current(simulationInput, debouncedWorkTargetDate).catch(() => {
+      // Aborted simulation (new run started) — ignore
+    })
+  }, [debouncedWorkTargetDate])
+
   const debouncedBacklog = useDebounce(inputs.remainingBacklog, 400)
   const debouncedMean = useDebounce(inputs.velocityMean, 400)
   const debouncedStdDev = useDebounce(inputs.velocityStdDev, 400)
   const debouncedCustomGrowth = useDebounce(scopeGrowth.customScopeGrowth, 400)
   const debouncedEstimate = useDebounce(inputs.velocityEstimate, 400)
+  const debouncedPertInputs = useDebounce(inputs.pertInputs, 400)
 
   useEffect(() => {
     if (!autoRecalculate) return
@@ -377,13 +868,26 @@ export function useForecastState() {
     scopeGrowth.modelScopeGrowth,
     scopeGrowth.scopeGrowthMode,
     debouncedCustomGrowth,
+    scopeGrowth.scopeGrowthSampling,
     productivityAdjustments,
     inputs.cumulativeThresholds,
     trialCount,
+    adaptiveTrialCount,
+    simulationSeed,
     effectiveForecastMode,
     debouncedEstimate,
     inputs.selectedCV,
     inputs.volatilityMultiplier,
+    inputs.modelAutocorrelation,
+    inputs.projectVelocityTrend,
+    trendMinRSquared,
+    inputs.bootstrapWeighting,
+    inputs.throughputMode,
+    inputs.dayLevelDates,
+    plannedCapacity,
+    inputs.capacityBaseline,
+    debouncedPertInputs,
+    showPertEstimate,
   ])
 
   const handleCustomPercentileChange = (percentile: number) => {
@@ -393,10 +897,10 @@ export function useForecastState() {
       ? milestoneResultsState.milestoneSimulationData[selectedMilestoneIndex]
       : simulationData
 
-    if (activeSimData && selectedProject?.sprintCadenceWeeks) {
+    if (activeSimData && sprintCadenceWeeks) {
       setCustomResults(calculateAllCustomPercentiles(
         activeSimData, percentile,
-        sprintData.forecastStartDate, selectedProject.sprintCadenceWeeks
+        sprintData.forecastStartDate, sprintCadenceWeeks, sprintData.nonWorkingDays, sprintData.workWeek
       ))
     }
   }
@@ -408,10 +912,10 @@ export function useForecastState() {
       ? milestoneResultsState.milestoneSimulationData[selectedMilestoneIndex]
       : simulationData
 
-    if (activeSimData && selectedProject?.sprintCadenceWeeks) {
+    if (activeSimData && sprintCadenceWeeks) {
       setCustomResults2(calculateAllCustomPercentiles(
         activeSimData, percentile,
-        sprintData.forecastStartDate, selectedProject.sprintCadenceWeeks
+        sprintData.forecastStartDate, sprintCadenceWeeks, sprintData.nonWorkingDays, sprintData.workWeek
       ))
     }
   }
@@ -424,21 +928,21 @@ export function useForecastState() {
       setSimulationData(simData)
       setResults(milestoneResultsState.milestoneResults[index])
 
-      if (selectedProject?.sprintCadenceWeeks) {
+      if (sprintCadenceWeeks) {
         setCustomResults(calculateAllCustomPercentiles(
           simData, customPercentile,
-          sprintData.forecastStartDate, selectedProject.sprintCadenceWeeks
+          sprintData.forecastStartDate, sprintCadenceWeeks, sprintData.nonWorkingDays, sprintData.workWeek
         ))
         setCustomResults2(calculateAllCustomPercentiles(
           simData, customPercentile2,
-          sprintData.forecastStartDate, selectedProject.sprintCadenceWeeks
+          sprintData.forecastStartDate, sprintCadenceWeeks, sprintData.nonWorkingDays, sprintData.workWeek
         ))
       }
     }
   }
 
   const handleExportCsv = () => {
-    if (!selectedProject || !results || !simulationData || !selectedProject.sprintCadenceWeeks) return
+    if (!selectedProject || !results || !simulationData || !sprintCadenceWeeks) return
 
     let milestoneExportData: Parameters<typeof generateForecastCsv>[0]['milestoneData']
     if (inputs.hasMilestones && milestoneResultsState) {
@@ -457,6 +961,7 @@ export function useForecastState() {
             ? milestoneResultsState.milestoneResults.map((r) => r.bootstrap!)
             : null,
           triangular: milestoneResultsState.milestoneResults.map((r) => r.triangular),
+          pert: milestoneResultsState.milestoneResults.map((r) => r.pert),
           uniform: milestoneResultsState.milestoneResults.map((r) => r.uniform),
         },
       }
@@ -469,27 +974,46 @@ export function useForecastState() {
         velocityMean: inputs.effectiveMean,
         velocityStdDev: inputs.effectiveStdDev,
         startDate: sprintData.forecastStartDate,
-        sprintCadenceWeeks: selectedProject.sprintCadenceWeeks,
-        trialCount,
+        sprintCadenceWeeks,
+        trialCount: lastTrialCount ?? trialCount,
+        adaptiveTrials: lastAdaptiveResult ? { converged: lastAdaptiveResult.converged } : undefined,
+        seed: lastSeed ?? undefined,
         productivityAdjustments: productivityAdjustments.filter((a) => a.enabled !== false),
         milestones: inputs.hasMilestones ? inputs.milestones : undefined,
         scopeGrowthPerSprint: scopeGrowth.scopeGrowthPerSprint,
+        scopeGrowthVariability: scopeGrowth.scopeGrowthVariability,
+        throughputMode: inputs.throughputMode || undefined,
         forecastMode: effectiveForecastMode,
         velocityEstimate: effectiveForecastMode === 'subjective' ? (Number(inputs.velocityEstimate) || undefined) : undefined,
         selectedCV: effectiveForecastMode === 'subjective' ? inputs.selectedCV : undefined,
-        volatilityMultiplier: effectiveForecastMode !== 'subjective' ? inputs.volatilityMultiplier : undefined,
+        volatilityMultiplier: effectiveForecastMode === 'history' ? inputs.volatilityMultiplier : undefined,
+        autocorrelation: activeAutocorrelation,
+        velocityTrend: appliedTrend?.trend
+          ? { ...appliedTrend.trend, rSquared: appliedTrend.fit.rSquared }
+          : undefined,
+        bootstrapWeighting: activeBootstrapWeighting,
+        pertEstimate: pertResolution.estimate,
+        capacity: isCapacityMode && inputs.capacityBaseline && plannedCapacity
+          ? {
+              throughputPerPerson: inputs.capacityBaseline.stats.mean,
+              nextSprintCapacity: plannedCapacity[0],
+              coveredSprintCount: inputs.capacityBaseline.stats.count,
+            }
+          : undefined,
       },
       truncatedNormalResults: results.truncatedNormal,
       lognormalResults: results.lognormal,
       gammaResults: results.gamma,
       bootstrapResults: results.bootstrap,
       triangularResults: results.triangular,
+      pertResults: results.pert,
       uniformResults: results.uniform,
       truncatedNormalSprintsRequired: simulationData.truncatedNormal,
       lognormalSprintsRequired: simulationData.lognormal,
       gammaSprintsRequired: simulationData.gamma,
       bootstrapSprintsRequired: simulationData.bootstrap,
       triangularSprintsRequired: simulationData.triangular,
+      pertSprintsRequired: simulationData.pert,
       uniformSprintsRequired: simulationData.uniform,
       milestoneData: milestoneExportData,
     })
@@ -512,7 +1036,11 @@ export function useForecastState() {
     projectSprints: sprintData.projectSprints,
     includedSprints: sprintData.includedSprints,
     completedSprintCount: sprintData.completedSprintCount,
+    sprintCadenceWeeks,
+    laterCadenceChanges: sprintData.laterCadenceChanges,
     forecastStartDate: sprintData.forecastStartDate,
+    nonWorkingDays: sprintData.nonWorkingDays,
+    workWeek: sprintData.workWeek,
     resolvedSprintDates: sprintData.resolvedSprintDates,
     calculatedStats: sprintData.calculatedStats,
 
@@ -526,6 +1054,11 @@ export function useForecastState() {
     forecastMode: effectiveForecastMode,
     setForecastMode: inputs.setForecastMode,
 
+    // Capacity mode (team roster)
+    teamMembers: inputs.teamMembers,
+    capacityBaseline: inputs.capacityBaseline,
+    plannedCapacity,
+
     // Form state (from useForecastInputs)
     lastSprintBacklog: inputs.lastSprintBacklog,
     remainingBacklog: inputs.remainingBacklog,
@@ -551,18 +1084,64 @@ export function useForecastState() {
     volatilityMultiplier: inputs.volatilityMultiplier,
     setVolatilityMultiplier: inputs.setVolatilityMultiplier,
 
+    // History mode velocity autocorrelation
+    modelAutocorrelation: inputs.modelAutocorrelation,
+    setModelAutocorrelation: inputs.setModelAutocorrelation,
+    estimatedAutocorrelation,
+    canModelAutocorrelation,
+    activeAutocorrelation,
+
+    // History mode velocity trend projection
+    projectVelocityTrend: inputs.projectVelocityTrend,
+    setProjectVelocityTrend: inputs.setProjectVelocityTrend,
+    velocityTrend,
+    appliedTrend,
+
+    // History mode bootstrap weighting
+    bootstrapWeightingMode: inputs.bootstrapWeightingMode,
+    bootstrapHalfLife: inputs.bootstrapHalfLife,
+    bootstrapWindow: inputs.bootstrapWindow,
+    setBootstrapWeightingMode: inputs.setBootstrapWeightingMode,
+    setBootstrapHalfLife: inputs.setBootstrapHalfLife,
+    setBootstrapWindow: inputs.setBootstrapWindow,
+    activeBootstrapWeighting,
+
+    // Throughput (item count) mode
+    throughputMode: inputs.throughputMode,
+    setThroughputMode: inputs.setThroughputMode,
+    fractionalSprintCount,
+
+    // Day-level finish dates
+    dayLevelDates: inputs.dayLevelDates,
+    setDayLevelDates: inputs.setDayLevelDates,
+
+    // PERT three-point estimate
+    showPertEstimate,
+    pertInputs: inputs.pertInputs,
+    setPertInputs: inputs.setPertInputs,
+    pertEstimateError: pertResolution.error,
+    empiricalPert,
+
     // Scope growth modeling (from useScopeGrowthState)
     scopeChangeStats: sprintData.scopeChangeStats,
     ...scopeGrowth,
 
     // Simulation state
     isSimulating,
+    simulationProgress,
+    cancelSimulation,
+    lastSeed,
+    lastTrialCount,
+    lastAdaptiveResult,
 
     // Results
     results,
     simulationData,
+    interpolatedSimulationData,
     overallSimulationData,
     milestoneResultsState,
+    independentSimulationData,
+    dependencyDelay,
     customPercentile,
     customResults,
     customPercentile2,
@@ -575,6 +1154,28 @@ export function useForecastState() {
     targetDate,
     setTargetDate,
 
+    // Work by Date panel
+    workTargetDate,
+    setWorkTargetDate,
+    workByDateResults,
+
+    // Sensitivity panel
+    sensitivityAnalysis,
+    canRunSensitivity: results !== null,
+
+    // Backtest panel (distributions scored against the project's own history)
+    backtestResult,
+    canRunBacktest: sprintData.projectSprints.length > BACKTEST_MIN_HISTORY,
+
+    // Scenarios panel (saved what-if forecasts)
+    scenarios: scenarioState.scenarios,
+    scenarioComparison: scenarioState.scenarioComparison,
+
+    // Forecast Accuracy panel (published snapshots vs. actual)
+    forecastSnapshots: snapshotState.snapshots,
+    actualCompletion: snapshotState.actualCompletion,
+    canSaveSnapshot: results !== null && overallSimulationData !== null,
+
     // Chart settings (from useChartSettings)
     ...charts,
 
@@ -584,6 +1185,15 @@ export function useForecastState() {
 
     // Handlers
     handleRunForecast,
+    handleRunSensitivity,
+    handleRunBacktest,
+    handleSaveScenario: scenarioState.saveScenario,
+    handleUpdateScenario: scenarioState.updateScenario,
+    handleDeleteScenario: scenarioState.deleteScenario,
+    handleApplyScenario: scenarioState.applyScenario,
+    handleCompareScenarios: scenarioState.compareScenarios,
+    handleSaveSnapshot,
+    handleDeleteSnapshot: snapshotState.deleteSnapshot,
     handleCustomPercentileChange,
     handleCustomPercentile2Change,
     handleMilestoneIndexChange,
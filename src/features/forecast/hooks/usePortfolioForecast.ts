@@ -0,0 +1,76 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useProjectStore } from '@/shared/state/project-store'
+import { useSettingsStore } from '@/shared/state/settings-store'
+import { useSimulationWorker } from './useSimulationWorker'
+import {
+  buildPortfolioPlan,
+  portfolioContexts,
+  combinePortfolio,
+  type PortfolioResult,
+} from '../lib/portfolio'
+
+/**
+ * Portfolio tab state: which projects (teams) are in the portfolio, and the
+ * latest combined forecast. Session only — the selection isn't saved.
+ */
+export function usePortfolioForecast() {
+  const projects = useProjectStore((state) => state.projects)
+  const sprints = useProjectStore((state) => state.sprints)
+  const trialCount = useSettingsStore((s) => s.trialCount)
+  const simulationSeed = useSettingsStore((s) => s.simulationSeed)
+  const { runSimulationBatch, cancelSimulation, isSimulating } = useSimulationWorker()
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [result, setResult] = useState<PortfolioResult | null>(null)
+
+  const sprintCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const s of sprints) {
+      counts.set(s.projectId, (counts.get(s.projectId) ?? 0) + 1)
+    }
+    return counts
+  }, [sprints])
+
+  // A forecast describes the teams it ran for, so changing the selection clears it
+  const toggleProject = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+    setResult(null)
+  }
+
+  const handleRun = async () => {
+    const selected = projects.filter((p) => selectedIds.has(p.id))
+    if (selected.length === 0 || isSimulating) return
+    const plan = buildPortfolioPlan(selected, sprints, {
+      trialCount,
+      seed: simulationSeed ?? undefined,
+    })
+    try {
+      const runs = await runSimulationBatch(portfolioContexts(plan))
+      setResult(combinePortfolio(plan, runs))
+    } catch {
+      // Aborted (new run started) or cancelled simulation — ignore
+    }
+  }
+
+  return {
+    projects,
+    sprintCounts,
+    selectedIds,
+    toggleProject,
+    result,
+    isSimulating,
+    cancelSimulation,
+    handleRun,
+  }
+}
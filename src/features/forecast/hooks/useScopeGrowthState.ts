@@ -4,8 +4,13 @@
 
 'use client'
 
-import { useState, useCallback } from 'react'
-import { resolveScopeGrowthPerSprint } from '../lib/scope-growth'
+import { useState, useCallback, useMemo } from 'react'
+import type { ScopeChangeStats } from '../lib/statistics'
+import {
+  resolveScopeGrowthPerSprint,
+  resolveScopeGrowthVariability,
+  type ScopeGrowthSampling,
+} from '../lib/scope-growth'
 
 /**
  * Manages scope growth modeling state and resolution.
@@ -13,20 +18,31 @@ import { resolveScopeGrowthPerSprint } from '../lib/scope-growth'
  * Extracted from useForecastState to isolate this independent concern.
  * State is session-only (not persisted) and resets when the project changes.
  */
-export function useScopeGrowthState(averageScopeInjection: number | undefined) {
+export function useScopeGrowthState(scopeChangeStats: ScopeChangeStats | null) {
   const [modelScopeGrowth, setModelScopeGrowth] = useState(false)
   const [scopeGrowthMode, setScopeGrowthMode] = useState<'calculated' | 'custom'>('calculated')
   const [customScopeGrowth, setCustomScopeGrowth] = useState('')
+  const [scopeGrowthSampling, setScopeGrowthSampling] = useState<ScopeGrowthSampling>('fixed')
 
   /** Resolved value ready for the simulation engine */
   const scopeGrowthPerSprint = resolveScopeGrowthPerSprint(
-    modelScopeGrowth, scopeGrowthMode, customScopeGrowth, averageScopeInjection
+    modelScopeGrowth, scopeGrowthMode, customScopeGrowth, scopeChangeStats?.averageScopeInjection
+  )
+
+  /** Per-sprint sampling spread; undefined → the same growth every sprint */
+  const scopeGrowthVariability = useMemo(
+    () => resolveScopeGrowthVariability(
+      scopeGrowthPerSprint, scopeGrowthSampling,
+      scopeChangeStats?.injections, scopeChangeStats?.injectionVolatility
+    ),
+    [scopeGrowthPerSprint, scopeGrowthSampling, scopeChangeStats]
   )
 
   /** Reset to defaults (called on project change) */
   const resetScopeGrowth = useCallback(() => {
     setScopeGrowthMode('calculated')
     setCustomScopeGrowth('')
+    setScopeGrowthSampling('fixed')
   }, [])
 
   return {
@@ -36,7 +52,10 @@ export function useScopeGrowthState(averageScopeInjection: number | undefined) {
     setScopeGrowthMode,
     customScopeGrowth,
     setCustomScopeGrowth,
+    scopeGrowthSampling,
+    setScopeGrowthSampling,
     scopeGrowthPerSprint,
+    scopeGrowthVariability,
     resetScopeGrowth,
   }
 }
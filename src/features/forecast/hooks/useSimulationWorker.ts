@@ -5,109 +5,285 @@
 'use client'
 
 import { useRef, useEffect, useCallback, useState } from 'react'
-import type { ForecastConfig } from '@/shared/types'
-import type { PercentileResults, QuadMilestoneForecastResult } from '../lib/monte-carlo'
-
-export type QuadForecastResult = {
-  truncatedNormal: { results: PercentileResults; sprintsRequired: number[] }
-  lognormal: { results: PercentileResults; sprintsRequired: number[] }
-  gamma: { results: PercentileResults; sprintsRequired: number[] }
-  bootstrap: { results: PercentileResults; sprintsRequired: number[] } | null
-  triangular: { results: PercentileResults; sprintsRequired: number[] }
-  uniform: { results: PercentileResults; sprintsRequired: number[] }
+import {
+  planSimulationChunks,
+  mergeSimulationChunks,
+  buildQuadForecast,
+  buildQuadMilestoneForecast,
+  quantizeInterpolatedData,
+  type DistributionMap,
+  type DistributionForecast,
+  type QuadMilestoneForecastResult,
+  type MilestoneGate,
+  type QuadSimulationData,
+  type QuadWorkData,
+  type QuadInterpolatedData,
+  type SimulationContext,
+  type SimulationTarget,
+  type TargetSimulationData,
+  type AdaptiveTrialResult,
+} from '../lib/monte-carlo'
+import { simulationWorkerCount, shardChunks } from '../lib/simulation-pool'
+import type { WorkerRequest, WorkerResponse } from '../lib/monte-carlo.worker'
+import { ADAPTIVE_MAX_TRIALS } from '../constants'
+
+export type QuadForecastResult = DistributionMap<DistributionForecast> & {
+  /** Present when the run used an adaptive trial count */
+  adaptive?: AdaptiveTrialResult
+  /** Fractional sprints required, present when the run was asked for day-level dates */
+  interpolated?: QuadInterpolatedData
+}
+
+export type MilestoneForecastResult = QuadMilestoneForecastResult & { adaptive?: AdaptiveTrialResult }
+
+/** Forecast runs may ask the worker to settle the trial count adaptively */
+type ForecastInput = SimulationContext & { adaptiveTrials?: boolean }
+
+/**
+ * Progress of the current run, summed across workers
+ */
+export interface SimulationProgress {
+  /** 'converging' while the adaptive pass settles the trial count, then 'simulating' */
+  phase: 'converging' | 'simulating'
+  /** Trials per distribution completed so far */
+  completedTrials: number
+  /** Trials per distribution in this phase (the trial cap while converging, the sum over a batch's runs) */
+  totalTrials: number
 }
 
-type WorkerResult = QuadForecastResult | QuadMilestoneForecastResult
+type PendingRequest = {
+  resolve: (value: WorkerResponse) => void
+  reject: (reason: Error) => void
+}
+
+function expectResponse<T extends WorkerResponse['type']>(
+  response: WorkerResponse,
+  type: T
+): Extract<WorkerResponse, { type: T }> {
+  if (response.type !== type) throw new Error(`Unexpected worker response: ${response.type}`)
+  return response as Extract<WorkerResponse, { type: T }>
+}
 
 export function useSimulationWorker() {
-  const workerRef = useRef<Worker | null>(null)
+  const workersRef = useRef<Worker[]>([])
   const messageIdRef = useRef(0)
-  const pendingRef = useRef<{
-    _messageId: number
-    resolve: (value: WorkerResult) => void
-    reject: (reason: Error) => void
-  } | null>(null)
+  // Outstanding requests of the current run, keyed by worker index
+  const pendingRef = useRef(new Map<number, PendingRequest>())
+  // Completed trials reported by each worker in the current phase
+  const workerProgressRef = useRef<number[]>([])
+  // Trials completed by earlier runs of a batch
+  const batchProgressRef = useRef(0)
   const [isSimulating, setIsSimulating] = useState(false)
+  const [progress, setProgress] = useState<SimulationProgress | null>(null)
+
+  // Reject the current run's outstanding requests and tell their workers to stop
+  const abortPending = useCallback((reason: string) => {
+    const pending = pendingRef.current
+    for (const [index, request] of pending) {
+      workersRef.current[index]?.postMessage({ type: 'cancel', _messageId: messageIdRef.current } satisfies WorkerRequest)
+      request.reject(new Error(reason))
+    }
+    pending.clear()
+  }, [])
 
   useEffect(() => {
-    workerRef.current = new Worker(
-      new URL('../lib/monte-carlo.worker.ts', import.meta.url)
-    )
+    const pending = pendingRef.current
+    const workers = Array.from({ length: simulationWorkerCount(navigator.hardwareConcurrency) }, (_, index) => {
+      const worker = new Worker(
+        new URL('../lib/monte-carlo.worker.ts', import.meta.url)
+      )
 
-    workerRef.current.onmessage = (e: MessageEvent<WorkerResult & { _messageId?: number }>) => {
-      // Drop stale responses from superseded simulations
-      if (pendingRef.current && e.data._messageId !== pendingRef.current._messageId) return
-      setIsSimulating(false)
-      pendingRef.current?.resolve(e.data)
-      pendingRef.current = null
-    }
+      worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        // Drop stale messages from superseded simulations
+        if (e.data._messageId !== messageIdRef.current) return
+        if (e.data.type === 'progress') {
+          workerProgressRef.current[index] = e.data.completedTrials
+          const completedTrials = workerProgressRef.current.reduce((sum, n) => sum + n, batchProgressRef.current)
+          setProgress((prev) => (prev ? { ...prev, completedTrials } : prev))
+          return
+        }
+        const request = pending.get(index)
+        pending.delete(index)
+        if (e.data.type === 'error') request?.reject(new Error(e.data.message))
+        else if (e.data.type === 'cancelled') request?.reject(new Error('Simulation aborted'))
+        else request?.resolve(e.data)
+      }
 
-    workerRef.current.onerror = (e: ErrorEvent) => {
-      setIsSimulating(false)
-      pendingRef.current?.reject(new Error(e.message))
-      pendingRef.current = null
-    }
+      worker.onerror = (e: ErrorEvent) => {
+        pending.get(index)?.reject(new Error(e.message))
+        pending.delete(index)
+      }
+
+      return worker
+    })
+    workersRef.current = workers
 
     return () => {
-      workerRef.current?.terminate()
-      workerRef.current = null
-      if (pendingRef.current) {
-        pendingRef.current.reject(new Error('Worker terminated'))
-        pendingRef.current = null
-      }
+      for (const worker of workers) worker.terminate()
+      workersRef.current = []
+      for (const request of pending.values()) request.reject(new Error('Worker terminated'))
+      pending.clear()
     }
   }, [])
 
-  const runSimulation = useCallback((input: {
-    config: ForecastConfig & { sprintCadenceWeeks: number }
-    historicalVelocities?: number[]
-    productivityFactors?: number[]
-    scopeGrowthPerSprint?: number
-  }): Promise<QuadForecastResult> => {
-    // Abort any pending simulation
-    if (pendingRef.current) {
-      pendingRef.current.reject(new Error('Simulation aborted'))
-      pendingRef.current = null
-    }
+  const request = useCallback((index: number, message: WorkerRequest): Promise<WorkerResponse> => {
+    return new Promise<WorkerResponse>((resolve, reject) => {
+      const worker = workersRef.current[index]
+      if (!worker) {
+        reject(new Error('Worker terminated'))
+        return
+      }
+      pendingRef.current.set(index, { resolve, reject })
+      worker.postMessage(message)
+    })
+  }, [])
+
+  /** Shard one run's chunks across the pool and merge the workers' sorted results */
+  const runShards = useCallback(async <T extends SimulationTarget>(
+    id: number,
+    context: SimulationContext,
+    target: T
+  ): Promise<TargetSimulationData<T>[]> => {
+    const shards = shardChunks(planSimulationChunks(context.config.trialCount), workersRef.current.length)
+    workerProgressRef.current = shards.map(() => 0)
+    const responses = await Promise.all(shards.map((chunks, index) =>
+      request(index, { type: 'run', _messageId: id, context, target, chunks })
+    ))
+    return mergeSimulationChunks(
+      responses.map((response) => expectResponse(response, 'result').series as TargetSimulationData<T>[])
+    )
+  }, [request])
 
+  /**
+   * Run `target` across the worker pool: optionally settle the trial count first
+   * (on one worker), then shard the chunks and merge the workers' sorted results.
+   * Starting a run aborts and cancels the previous one.
+   */
+  const simulate = useCallback(async <T extends SimulationTarget>(
+    context: SimulationContext,
+    target: T,
+    adaptiveTrials?: boolean
+  ): Promise<{ series: TargetSimulationData<T>[]; config: SimulationContext['config']; adaptive?: AdaptiveTrialResult }> => {
+    abortPending('Simulation aborted')
     const id = ++messageIdRef.current
+    batchProgressRef.current = 0
     setIsSimulating(true)
 
-    return new Promise<QuadForecastResult>((resolve, reject) => {
-      pendingRef.current = {
-        _messageId: id,
-        resolve: resolve as (value: WorkerResult) => void,
-        reject,
+    try {
+      let config = context.config
+      let adaptive: AdaptiveTrialResult | undefined
+      if (adaptiveTrials) {
+        workerProgressRef.current = [0]
+        setProgress({ phase: 'converging', completedTrials: 0, totalTrials: ADAPTIVE_MAX_TRIALS })
+        const response = await request(0, { type: 'adaptive', _messageId: id, context })
+        adaptive = expectResponse(response, 'adaptive').adaptive
+        config = { ...config, trialCount: adaptive.trialCount }
       }
-      workerRef.current?.postMessage({ ...input, _messageId: id })
-    })
-  }, [])
 
-  const runMilestoneSimulation = useCallback((input: {
-    config: ForecastConfig & { sprintCadenceWeeks: number }
-    historicalVelocities?: number[]
-    productivityFactors?: number[]
-    milestoneThresholds: number[]
-    scopeGrowthPerSprint?: number
-  }): Promise<QuadMilestoneForecastResult> => {
-    // Abort any pending simulation
-    if (pendingRef.current) {
-      pendingRef.current.reject(new Error('Simulation aborted'))
-      pendingRef.current = null
+      setProgress({ phase: 'simulating', completedTrials: 0, totalTrials: config.trialCount })
+      const series = await runShards(id, { ...context, config }, target)
+      return { series, config, adaptive }
+    } catch (err) {
+      // One failed shard stops the rest
+      if (id === messageIdRef.current) abortPending('Simulation aborted')
+      throw err
+    } finally {
+      if (id === messageIdRef.current) {
+        setIsSimulating(false)
+        setProgress(null)
+      }
     }
+  }, [abortPending, request, runShards])
 
+  /**
+   * Run several backlog simulations back to back as one run: progress spans the
+   * whole batch and starting another run (or cancelling) stops what is left.
+   */
+  const runSimulationBatch = useCallback(async (contexts: SimulationContext[]): Promise<QuadSimulationData[]> => {
+    abortPending('Simulation aborted')
     const id = ++messageIdRef.current
+    batchProgressRef.current = 0
     setIsSimulating(true)
+    setProgress({
+      phase: 'simulating',
+      completedTrials: 0,
+      totalTrials: contexts.reduce((sum, context) => sum + context.config.trialCount, 0),
+    })
 
-    return new Promise<QuadMilestoneForecastResult>((resolve, reject) => {
-      pendingRef.current = {
-        _messageId: id,
-        resolve: resolve as (value: WorkerResult) => void,
-        reject,
+    try {
+      const results: QuadSimulationData[] = []
+      for (const context of contexts) {
+        const [data] = await runShards(id, context, { kind: 'backlog' })
+        results.push(data)
+        batchProgressRef.current += context.config.trialCount
       }
-      workerRef.current?.postMessage({ ...input, _messageId: id })
-    })
-  }, [])
+      return results
+    } catch (err) {
+      if (id === messageIdRef.current) abortPending('Simulation aborted')
+      throw err
+    } finally {
+      if (id === messageIdRef.current) {
+        setIsSimulating(false)
+        setProgress(null)
+      }
+    }
+  }, [abortPending, runShards])
+
+  /**
+   * Backlog forecast. With `interpolate`, trials also record where in their final
+   * sprint the backlog ran out; the percentile results are the same whole sprints
+   * either way.
+   */
+  const runSimulation = useCallback(async (
+    { adaptiveTrials, interpolate, ...context }: ForecastInput & { interpolate?: boolean }
+  ): Promise<QuadForecastResult> => {
+    if (interpolate) {
+      const { series, config, adaptive } = await simulate(context, { kind: 'interpolatedBacklog' }, adaptiveTrials)
+      return { ...buildQuadForecast(quantizeInterpolatedData(series[0]), config), adaptive, interpolated: series[0] }
+    }
+    const { series, config, adaptive } = await simulate(context, { kind: 'backlog' }, adaptiveTrials)
+    return { ...buildQuadForecast(series[0], config), adaptive }
+  }, [simulate])
+
+  const runMilestoneSimulation = useCallback(async (
+    { adaptiveTrials, milestoneThresholds, milestoneGates, milestonePredecessors, ...context }:
+      ForecastInput & { milestoneThresholds: number[]; milestoneGates?: MilestoneGate[]; milestonePredecessors?: number[] }
+  ): Promise<MilestoneForecastResult> => {
+    const { series, config, adaptive } = await simulate(
+      context,
+      {
+        kind: 'milestones',
+        cumulativeThresholds: milestoneThresholds,
+        gates: milestoneGates,
+        predecessors: milestonePredecessors,
+      },
+      adaptiveTrials
+    )
+    return { ...buildQuadMilestoneForecast(series, config), adaptive }
+  }, [simulate])
+
+  const runWorkSimulation = useCallback(async (
+    { workSprintCount, ...context }: SimulationContext & { workSprintCount: number }
+  ): Promise<QuadWorkData> => {
+    const { series } = await simulate(context, { kind: 'work', sprintCount: workSprintCount })
+    return series[0]
+  }, [simulate])
+
+  /** Stop the current run; its promise rejects and earlier results stay on screen */
+  const cancelSimulation = useCallback(() => {
+    abortPending('Simulation cancelled')
+    messageIdRef.current++
+    setIsSimulating(false)
+    setProgress(null)
+  }, [abortPending])
 
-  return { runSimulation, runMilestoneSimulation, isSimulating }
+  return {
+    runSimulation,
+    runMilestoneSimulation,
+    runWorkSimulation,
+    runSimulationBatch,
+    cancelSimulation,
+    isSimulating,
+    progress,
+  }
 }
@@ -6,8 +6,21 @@
 
 import { useMemo } from 'react'
 import { useProjectStore, selectViewingProject } from '@/shared/state/project-store'
-import { calculateVelocityStats, calculateScopeChangeStats } from '../lib/statistics'
-import { today, resolveAnchorDate, resolveAllSprintDates } from '@/shared/lib/dates'
+import {
+  calculateVelocityStats,
+  calculateScopeChangeStats,
+  normalizedVelocity,
+  resolveVelocityNormalization,
+} from '../lib/statistics'
+import {
+  today,
+  resolveAnchorDate,
+  resolveAllSprintDates,
+  resolveWorkWeek,
+  cadenceWeeksForSprint,
+  laterCadenceChanges,
+} from '@/shared/lib/dates'
+import { resolveNonWorkingDays } from '@/shared/lib/holidays'
 import { MIN_SPRINTS_FOR_BOOTSTRAP } from '../constants'
 
 /**
@@ -25,16 +38,14 @@ export function useSprintData() {
     [allSprints, selectedProject]
   )
 
+  // Chronological order — the block bootstrap resamples runs of consecutive sprints
   const includedSprints = useMemo(
-    () => projectSprints.filter((s) => s.includedInForecast),
+    () => projectSprints
+      .filter((s) => s.includedInForecast)
+      .sort((a, b) => a.sprintNumber - b.sprintNumber),
     [projectSprints]
   )
 
-  const calculatedStats = useMemo(
-    () => calculateVelocityStats(includedSprints),
-    [includedSprints]
-  )
-
   const scopeChangeStats = useMemo(
     () => calculateScopeChangeStats(projectSprints),
     [projectSprints]
@@ -45,6 +56,58 @@ export function useSprintData() {
     return Math.max(...projectSprints.map((s) => s.sprintNumber))
   }, [projectSprints])
 
+  // Forecast sprints run the cadence in effect for the next sprint
+  const cadenceChanges = selectedProject?.cadenceChanges
+  const sprintCadenceWeeks = selectedProject?.sprintCadenceWeeks
+    ? cadenceWeeksForSprint(completedSprintCount + 1, selectedProject.sprintCadenceWeeks, cadenceChanges)
+    : undefined
+  // Changes after the next sprint don't reach the forecast, which flags them instead
+  const forecastLaterCadenceChanges = useMemo(
+    () => laterCadenceChanges(completedSprintCount + 1, cadenceChanges),
+    [completedSprintCount, cadenceChanges]
+  )
+
+  // The project's working days of the week; undefined for Mon-Fri
+  const workWeek = useMemo(
+    () => resolveWorkWeek(selectedProject?.workWeek),
+    [selectedProject?.workWeek]
+  )
+
+  // Holidays and shutdowns from the project's working calendar
+  const nonWorkingDays = useMemo(
+    () => resolveNonWorkingDays(selectedProject?.holidaySets),
+    [selectedProject?.holidaySets]
+  )
+
+  // Pool sprints per working day of their resolved dates, in forecast-sprint units
+  const velocityNormalization = useMemo(
+    () => resolveVelocityNormalization(
+      {
+        sprintCadenceWeeks: selectedProject?.sprintCadenceWeeks,
+        firstSprintStartDate: selectedProject?.firstSprintStartDate,
+        cadenceChanges,
+      },
+      projectSprints,
+      completedSprintCount + 1,
+      nonWorkingDays,
+      workWeek
+    ),
+    [
+      selectedProject?.sprintCadenceWeeks,
+      selectedProject?.firstSprintStartDate,
+      cadenceChanges,
+      projectSprints,
+      completedSprintCount,
+      nonWorkingDays,
+      workWeek,
+    ]
+  )
+
+  const calculatedStats = useMemo(
+    () => calculateVelocityStats(includedSprints, velocityNormalization),
+    [includedSprints, velocityNormalization]
+  )
+
   const forecastStartDate = useMemo(() => {
     if (!selectedProject?.firstSprintStartDate || !selectedProject?.sprintCadenceWeeks) return today()
     if (projectSprints.length === 0) return today()
@@ -52,9 +115,11 @@ export function useSprintData() {
     return resolveAnchorDate(
       selectedProject.firstSprintStartDate,
       selectedProject.sprintCadenceWeeks,
-      projectSprints.map(s => ({ sprintNumber: s.sprintNumber, customFinishDate: s.customFinishDate }))
+      projectSprints.map(s => ({ sprintNumber: s.sprintNumber, customFinishDate: s.customFinishDate })),
+      workWeek,
+      selectedProject.cadenceChanges
     )
-  }, [selectedProject, projectSprints])
+  }, [selectedProject, projectSprints, workWeek])
 
   // Resolved sprint dates map for burn-up chart historical points
   const resolvedSprintDates = useMemo(() => {
@@ -64,15 +129,18 @@ export function useSprintData() {
     return resolveAllSprintDates(
       selectedProject.firstSprintStartDate,
       selectedProject.sprintCadenceWeeks,
-      projectSprints.map(s => ({ sprintNumber: s.sprintNumber, customFinishDate: s.customFinishDate }))
+      projectSprints.map(s => ({ sprintNumber: s.sprintNumber, customFinishDate: s.customFinishDate })),
+      nonWorkingDays,
+      workWeek,
+      selectedProject.cadenceChanges
     )
-  }, [selectedProject, projectSprints])
+  }, [selectedProject, projectSprints, nonWorkingDays, workWeek])
 
   const canUseBootstrap = includedSprints.length >= MIN_SPRINTS_FOR_BOOTSTRAP
 
   const historicalVelocities = useMemo(
-    () => includedSprints.map((s) => s.doneValue),
-    [includedSprints]
+    () => includedSprints.map((s) => normalizedVelocity(s, velocityNormalization)),
+    [includedSprints, velocityNormalization]
   )
 
   return {
@@ -82,8 +150,13 @@ export function useSprintData() {
     calculatedStats,
     scopeChangeStats,
     completedSprintCount,
+    sprintCadenceWeeks,
+    laterCadenceChanges: forecastLaterCadenceChanges,
+    velocityNormalization,
     forecastStartDate,
     resolvedSprintDates,
+    nonWorkingDays,
+    workWeek,
     canUseBootstrap,
     historicalVelocities,
   }
@@ -3,3 +3,4 @@
 // See LICENSE file in the project root for full license text.
 
 export { ForecastTab } from './components/ForecastTab'
+export { PortfolioTab } from './components/PortfolioTab'
@@ -0,0 +1,165 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildBacktestPlan,
+  backtestContexts,
+  scoreBacktest,
+  runBacktest,
+  bestCalibratedDistribution,
+  buildBacktestCalibrationData,
+  type BacktestPlan,
+} from './backtest'
+import type { QuadSimulationData } from './monte-carlo'
+import type { Project, Sprint } from '@/shared/types'
+
+const TIMESTAMP = '2026-01-01T00:00:00Z'
+
+function makeProject(overrides: Partial<Project> = {}): Project {
+  return {
+    id: 'p1',
+    name: 'Alpha',
+    unitOfMeasure: 'points',
+    sprintCadenceWeeks: 2,
+    firstSprintStartDate: '2026-01-05',
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    ...overrides,
+  }
+}
+
+function makeSprint(sprintNumber: number, doneValue: number, backlogAtSprintEnd?: number, projectId = 'p1'): Sprint {
+  return {
+    id: `${projectId}-s${sprintNumber}`,
+    projectId,
+    sprintNumber,
+    sprintStartDate: '',
+    sprintFinishDate: '',
+    doneValue,
+    backlogAtSprintEnd,
+    includedInForecast: true,
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+  }
+}
+
+// Ten sprints burning 200 points to zero at sprint 10
+const VELOCITIES = [18, 22, 20, 15, 25, 19, 21, 20, 23, 17]
+const FINISHED = VELOCITIES.map((v, i) => {
+  const burned = VELOCITIES.slice(0, i + 1).reduce((sum, x) => sum + x, 0)
+  return makeSprint(i + 1, v, Math.max(0, 200 - burned))
+})
+
+function quad(values: number[]): QuadSimulationData {
+  const sorted = Uint16Array.from(values).sort()
+  return {
+    truncatedNormal: sorted, lognormal: sorted, gamma: sorted, bootstrap: null,
+    triangular: sorted, pert: sorted, uniform: sorted,
+  }
+}
+
+describe('buildBacktestPlan', () => {
+  it('forecasts each cutoff from its own history against the sprint the backlog hit zero', () => {
+    const plan = buildBacktestPlan(makeProject(), FINISHED, { seed: 7, trialCount: 100 })!
+    expect(plan.endReason).toBe('backlogZero')
+    expect(plan.endSprintNumber).toBe(10)
+    // Three sprints of history are needed, so cutoffs run from sprint 3 to sprint 9
+    expect(plan.cutoffs.map((c) => c.sprintNumber)).toEqual([3, 4, 5, 6, 7, 8, 9])
+    const [first] = plan.cutoffs
+    expect(first.remainingBacklog).toBe(140)
+    expect(first.actualSprintsRemaining).toBe(7)
+    expect(first.context.config.remainingBacklog).toBe(140)
+    expect(first.context.config.velocityMean).toBe(20)
+    expect(first.context.config.trialCount).toBe(100)
+    expect(backtestContexts(plan)).toHaveLength(7)
+  })
+
+  it('falls back to the last sprint when the backlog never reached zero', () => {
+    const plan = buildBacktestPlan(makeProject(), FINISHED.slice(0, 6), { minHistorySprints: 2 })!
+    expect(plan.endReason).toBe('lastSprint')
+    expect(plan.endSprintNumber).toBe(6)
+    expect(plan.cutoffs.map((c) => c.sprintNumber)).toEqual([2, 3, 4, 5])
+  })
+
+  it('skips cutoffs without a recorded backlog and ignores other projects', () => {
+    const sprints = FINISHED.map((s) => (s.sprintNumber === 5 ? { ...s, backlogAtSprintEnd: undefined } : s))
+    const plan = buildBacktestPlan(makeProject(), [...sprints, makeSprint(11, 5, 50, 'p2')])!
+    expect(plan.cutoffs.map((c) => c.sprintNumber)).not.toContain(5)
+    expect(plan.endSprintNumber).toBe(10)
+  })
+
+  it('records why a cutoff could not be forecast', () => {
+    const plan = buildBacktestPlan(makeProject({ firstSprintStartDate: undefined }), FINISHED)!
+    expect(plan.cutoffs).toEqual([])
+    expect(plan.skipped[0]).toEqual({
+      sprintNumber: 3,
+      reason: 'Set the first sprint start date on the Sprint History tab.',
+    })
+  })
+
+  it('is null with nothing to backtest', () => {
+    expect(buildBacktestPlan(makeProject(), FINISHED.slice(0, 1))).toBeNull()
+    expect(buildBacktestPlan(makeProject(), FINISHED.slice(0, 3))).toBeNull()
+  })
+})
+
+describe('scoreBacktest', () => {
+  const plan = {
+    endSprintNumber: 10,
+    endReason: 'backlogZero',
+    trialCount: 10,
+    seed: 1,
+    percentiles: [50, 90],
+    cutoffs: [
+      { sprintNumber: 6, remainingBacklog: 80, actualSprintsRemaining: 4, context: { config: { startDate: '2026-03-30' } } },
+      { sprintNumber: 8, remainingBacklog: 40, actualSprintsRemaining: 2, context: { config: { startDate: '2026-04-27' } } },
+    ],
+    skipped: [],
+  } as unknown as BacktestPlan
+
+  it('scores hit rates and P50 error per distribution', () => {
+    const result = scoreBacktest(plan, [
+      quad([2, 3, 3, 3, 3, 3, 3, 4, 5, 5]),
+      quad([1, 1, 2, 2, 2, 2, 3, 3, 3, 3]),
+    ])
+    expect(result.cutoffs[0].predicted.lognormal).toEqual([3, 5])
+    expect(result.cutoffs[0].actualCumulative.lognormal).toBe(80)
+    // Sprint 6: P50 3 < actual 4 (miss), P90 5 ≥ 4 (hit); sprint 8: P50 2 ≥ 2, P90 3 ≥ 2
+    const lognormal = result.scores.find((s) => s.distribution === 'lognormal')!
+    expect(lognormal.cutoffCount).toBe(2)
+    expect(lognormal.hitRates).toEqual([0.5, 1])
+    expect(lognormal.meanAbsoluteErrorP50).toBe(0.5)
+    expect(lognormal.calibrationError).toBeCloseTo(0.05)
+    expect(result.scores.map((s) => s.distribution)).not.toContain('bootstrap')
+    expect(result.scores.map((s) => s.distribution)).not.toContain('uniform')
+  })
+
+  it('builds calibration chart points as percentages against the ideal diagonal', () => {
+    const result = scoreBacktest(plan, [quad([2, 3, 3, 5]), quad([1, 2, 2, 3])])
+    const points = buildBacktestCalibrationData(result)
+    expect(points.map((p) => p.ideal)).toEqual([50, 90])
+    expect(points[0].lognormal).toBe(50)
+    expect(points[1].gamma).toBe(100)
+  })
+})
+
+describe('runBacktest', () => {
+  it('backtests a finished project end to end, reproducibly for a seed', () => {
+    const options = { seed: 42, trialCount: 500 }
+    const result = runBacktest(makeProject(), FINISHED, options)!
+    expect(result.cutoffs).toHaveLength(7)
+    // Bootstrap joins once five sprints are behind a cutoff
+    const bootstrap = result.scores.find((s) => s.distribution === 'bootstrap')
+    expect(bootstrap?.cutoffCount).toBe(5)
+    for (const score of result.scores) {
+      for (const rate of score.hitRates) {
+        expect(rate).toBeGreaterThanOrEqual(0)
+        expect(rate).toBeLessThanOrEqual(1)
+      }
+    }
+    expect(bestCalibratedDistribution(result)).not.toBeNull()
+    expect(runBacktest(makeProject(), FINISHED, options)).toEqual(result)
+  })
+})
@@ -0,0 +1,295 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+// Backtesting: which distribution would have forecast this project best?
+//
+// For each historical cutoff sprint k, forecast as if it were the end of sprint k —
+// only sprints 1..k, and the backlog recorded at the end of sprint k — then compare
+// the predicted sprints-to-finish with what actually happened: the sprint at which
+// the backlog hit zero (or, if it never did, the last recorded sprint). A
+// distribution is well calibrated when the actual finish falls within its Pn
+// forecast about n% of the time.
+//
+// Cutoffs are forecast in History mode, so every distribution History shows is
+// scored; Bootstrap joins once a cutoff has enough sprints behind it.
+
+import type { Project, Sprint } from '@/shared/types'
+import { generateRandomSeed } from '@/shared/lib/math'
+import { getVisibleDistributions, type DistributionType } from '../types'
+import { MIN_SPRINTS_FOR_AUTOCORRELATION } from '../constants'
+import { simulateTrials, calculatePercentileResult, type QuadSimulationData, type SimulationContext } from './monte-carlo'
+import { calculateCumulativePercentage } from './cdf'
+import { resolveProjectSimulation, type ForecastProjectOptions } from './forecast-project'
+
+/** Percentiles scored by default (the calibration chart's x axis) */
+export const BACKTEST_PERCENTILES: readonly number[] = [10, 25, 50, 70, 85, 90, 95]
+
+/** Trials per cutoff; several cutoffs run back to back, so fewer than a full forecast */
+export const BACKTEST_TRIAL_COUNT = 5000
+
+/** Fewest included sprints behind a cutoff (a standard deviation needs a few) */
+export const BACKTEST_MIN_HISTORY = MIN_SPRINTS_FOR_AUTOCORRELATION
+
+/** Every distribution a backtest scores, in display order */
+export const BACKTEST_DISTRIBUTIONS: readonly DistributionType[] = getVisibleDistributions('history', true)
+
+/**
+ * Backtest settings. Backlog, mode and velocity come from each cutoff's history,
+ * so only the modeling options of a forecast apply.
+ */
+export interface BacktestOptions extends Pick<
+  ForecastProjectOptions,
+  | 'modelAutocorrelation'
+  | 'projectVelocityTrend'
+  | 'trendMinRSquared'
+  | 'bootstrapWeighting'
+  | 'throughputMode'
+  | 'seed'
+> {
+  /** Trials per cutoff (default 5,000) */
+  trialCount?: number
+  /** Fewest included sprints behind a cutoff (default 3) */
+  minHistorySprints?: number
+  /** Percentiles to score (default BACKTEST_PERCENTILES) */
+  percentiles?: readonly number[]
+}
+
+/** How the project's actual end was determined */
+export type BacktestEndReason = 'backlogZero' | 'lastSprint'
+
+/** One cutoff ready to simulate */
+export interface BacktestCutoff {
+  sprintNumber: number
+  remainingBacklog: number
+  /** Sprints from the end of the cutoff sprint to the actual end */
+  actualSprintsRemaining: number
+  context: SimulationContext
+}
+
+/** A cutoff that couldn't be forecast, and why */
+export interface SkippedCutoff {
+  sprintNumber: number
+  reason: string
+}
+
+/** Every cutoff's simulation inputs, before any trials run */
+export interface BacktestPlan {
+  endSprintNumber: number
+  endReason: BacktestEndReason
+  trialCount: number
+  seed: number
+  percentiles: readonly number[]
+  cutoffs: BacktestCutoff[]
+  skipped: SkippedCutoff[]
+}
+
+/**
+ * Plan a backtest of the project's own history. Null when there is nothing to
+ * backtest (fewer than two sprints, or no cutoff with a recorded backlog).
+ */
+export function buildBacktestPlan(
+  project: Project,
+  sprints: Sprint[],
+  options: BacktestOptions = {}
+): BacktestPlan | null {
+  const projectSprints = sprints
+    .filter((s) => s.projectId === project.id)
+    .sort((a, b) => a.sprintNumber - b.sprintNumber)
+  if (projectSprints.length < 2) return null
+
+  const finished = projectSprints.find((s) => s.backlogAtSprintEnd !== undefined && s.backlogAtSprintEnd <= 0)
+  const endSprintNumber = finished?.sprintNumber ?? projectSprints[projectSprints.length - 1].sprintNumber
+  const endReason: BacktestEndReason = finished ? 'backlogZero' : 'lastSprint'
+
+  const trialCount = options.trialCount ?? BACKTEST_TRIAL_COUNT
+  const seed = options.seed ?? generateRandomSeed()
+  const minHistory = options.minHistorySprints ?? BACKTEST_MIN_HISTORY
+  const cutoffs: BacktestCutoff[] = []
+  const skipped: SkippedCutoff[] = []
+
+  for (const cutoff of projectSprints) {
+    if (cutoff.sprintNumber >= endSprintNumber) break
+    const backlog = cutoff.backlogAtSprintEnd
+    if (backlog === undefined || !(backlog > 0)) continue
+    const history = projectSprints.filter((s) => s.sprintNumber <= cutoff.sprintNumber)
+    if (history.filter((s) => s.includedInForecast).length < minHistory) continue
+    try {
+      const resolved = resolveProjectSimulation(project, history, {
+        modelAutocorrelation: options.modelAutocorrelation,
+        projectVelocityTrend: options.projectVelocityTrend,
+        trendMinRSquared: options.trendMinRSquared,
+        bootstrapWeighting: options.bootstrapWeighting,
+        throughputMode: options.throughputMode,
+        forecastMode: 'history',
+        remainingBacklog: backlog,
+        trialCount,
+        seed,
+      })
+      cutoffs.push({
+        sprintNumber: cutoff.sprintNumber,
+        remainingBacklog: backlog,
+        actualSprintsRemaining: endSprintNumber - cutoff.sprintNumber,
+        context: resolved.context,
+      })
+    } catch (err) {
+      skipped.push({ sprintNumber: cutoff.sprintNumber, reason: err instanceof Error ? err.message : String(err) })
+    }
+  }
+
+  if (cutoffs.length === 0 && skipped.length === 0) return null
+  return {
+    endSprintNumber,
+    endReason,
+    trialCount,
+    seed,
+    percentiles: options.percentiles ?? BACKTEST_PERCENTILES,
+    cutoffs,
+    skipped,
+  }
+}
+
+/** The simulation contexts a plan runs, one per cutoff */
+export function backtestContexts(plan: BacktestPlan): SimulationContext[] {
+  return plan.cutoffs.map((cutoff) => cutoff.context)
+}
+
+/** One cutoff's forecast against what happened */
+export interface BacktestCutoffResult {
+  sprintNumber: number
+  remainingBacklog: number
+  actualSprintsRemaining: number
+  /** Predicted sprints-to-finish at each scored percentile, per distribution */
+  predicted: Partial<Record<DistributionType, number[]>>
+  /** Share of trials (0-100) that finished within the actual sprint count */
+  actualCumulative: Partial<Record<DistributionType, number>>
+}
+
+/** One distribution's record across every cutoff */
+export interface BacktestDistributionScore {
+  distribution: DistributionType
+  cutoffCount: number
+  /** Share (0-1) of cutoffs whose actual finish fell within each percentile's forecast */
+  hitRates: number[]
+  /** Mean |P50 − actual| in sprints (NaN when P50 isn't scored) */
+  meanAbsoluteErrorP50: number
+  /** Mean |hit rate − nominal| across percentiles (0 = perfectly calibrated) */
+  calibrationError: number
+}
+
+export interface BacktestResult {
+  endSprintNumber: number
+  endReason: BacktestEndReason
+  trialCount: number
+  seed: number
+  percentiles: readonly number[]
+  cutoffs: BacktestCutoffResult[]
+  scores: BacktestDistributionScore[]
+  skipped: SkippedCutoff[]
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+/** Score a plan's simulated runs (one per cutoff, in plan order) */
+export function scoreBacktest(plan: BacktestPlan, runs: QuadSimulationData[]): BacktestResult {
+  const { percentiles } = plan
+  const cutoffs: BacktestCutoffResult[] = plan.cutoffs.map((cutoff, i) => {
+    const data = runs[i]
+    const predicted: BacktestCutoffResult['predicted'] = {}
+    const actualCumulative: BacktestCutoffResult['actualCumulative'] = {}
+    for (const d of BACKTEST_DISTRIBUTIONS) {
+      const sorted = data[d]
+      if (!sorted || sorted.length === 0) continue
+      // Only the sprint count matters here; the start date is a placeholder
+      predicted[d] = percentiles.map(
+        (p) => calculatePercentileResult(sorted, p, cutoff.context.config.startDate, 1).sprintsRequired
+      )
+      actualCumulative[d] = calculateCumulativePercentage(sorted, cutoff.actualSprintsRemaining)
+    }
+    return {
+      sprintNumber: cutoff.sprintNumber,
+      remainingBacklog: cutoff.remainingBacklog,
+      actualSprintsRemaining: cutoff.actualSprintsRemaining,
+      predicted,
+      actualCumulative,
+    }
+  })
+
+  const medianIndex = percentiles.indexOf(50)
+  const scores: BacktestDistributionScore[] = []
+  for (const distribution of BACKTEST_DISTRIBUTIONS) {
+    const scored = cutoffs.flatMap((c) => {
+      const predicted = c.predicted[distribution]
+      return predicted ? [{ predicted, actual: c.actualSprintsRemaining }] : []
+    })
+    if (scored.length === 0) continue
+    const hitRates = percentiles.map(
+      (_, j) => scored.filter((c) => c.actual <= c.predicted[j]).length / scored.length
+    )
+    // Custom percentile lists may leave out P50
+    const p50Error = medianIndex >= 0
+      ? mean(scored.map((c) => Math.abs(c.predicted[medianIndex] - c.actual)))
+      : NaN
+    scores.push({
+      distribution,
+      cutoffCount: scored.length,
+      hitRates,
+      meanAbsoluteErrorP50: p50Error,
+      calibrationError: mean(hitRates.map((rate, j) => Math.abs(rate - percentiles[j] / 100))),
+    })
+  }
+
+  return {
+    endSprintNumber: plan.endSprintNumber,
+    endReason: plan.endReason,
+    trialCount: plan.trialCount,
+    seed: plan.seed,
+    percentiles,
+    cutoffs,
+    scores,
+    skipped: plan.skipped,
+  }
+}
+
+/**
+ * Backtest a project in the calling thread (scripts, tests). The Forecast tab
+ * runs the same plan on the worker pool instead.
+ */
+export function runBacktest(
+  project: Project,
+  sprints: Sprint[],
+  options: BacktestOptions = {}
+): BacktestResult | null {
+  const plan = buildBacktestPlan(project, sprints, options)
+  if (!plan) return null
+  const runs = plan.cutoffs.map((cutoff) => simulateTrials(cutoff.context, { kind: 'backlog' })[0])
+  return scoreBacktest(plan, runs)
+}
+
+/** The distribution with the lowest calibration error (ties → lower P50 error) */
+export function bestCalibratedDistribution(result: BacktestResult): DistributionType | null {
+  const [best] = [...result.scores].sort(
+    (a, b) => a.calibrationError - b.calibrationError || a.meanAbsoluteErrorP50 - b.meanAbsoluteErrorP50
+  )
+  return best?.distribution ?? null
+}
+
+/** Calibration chart point: observed hit rate (%) per distribution at one nominal percentile */
+export interface BacktestCalibrationPoint {
+  percentile: number
+  /** The perfectly calibrated line: observed = nominal */
+  ideal: number
+  [distribution: string]: number
+}
+
+export function buildBacktestCalibrationData(result: BacktestResult): BacktestCalibrationPoint[] {
+  return result.percentiles.map((percentile, j) => {
+    const point: BacktestCalibrationPoint = { percentile, ideal: percentile }
+    for (const score of result.scores) {
+      point[score.distribution] = Math.round(score.hitRates[j] * 1000) / 10
+    }
+    return point
+  })
+}
@@ -0,0 +1,67 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import {
+  applyBootstrapWeighting,
+  createIndexPicker,
+  describeBootstrapWeighting,
+} from './bootstrap-weighting'
+import { createSeededRandom } from '@/shared/lib/math'
+
+describe('applyBootstrapWeighting', () => {
+  const history = [10, 12, 14, 16, 18, 20]
+
+  it('leaves history unweighted for uniform or missing weighting', () => {
+    expect(applyBootstrapWeighting(history)).toEqual({ velocities: history, weights: null })
+    expect(applyBootstrapWeighting(history, { mode: 'uniform' })).toEqual({ velocities: history, weights: null })
+  })
+
+  it('keeps only the last N sprints for a window', () => {
+    expect(applyBootstrapWeighting(history, { mode: 'window', lastN: 3 })).toEqual({
+      velocities: [16, 18, 20],
+      weights: null,
+    })
+  })
+
+  it('returns all sprints when the window exceeds history', () => {
+    expect(applyBootstrapWeighting(history, { mode: 'window', lastN: 50 }).velocities).toEqual(history)
+  })
+
+  it('halves the weight every half-life sprints back from the latest', () => {
+    const { weights } = applyBootstrapWeighting(history, { mode: 'recency', halfLife: 2 })
+    expect(weights![5]).toBe(1)
+    expect(weights![3]).toBeCloseTo(0.5, 10)
+    expect(weights![1]).toBeCloseTo(0.25, 10)
+  })
+})
+
+describe('createIndexPicker', () => {
+  it('picks indices in proportion to their weights', () => {
+    const pick = createIndexPicker(3, [1, 0, 3], createSeededRandom(9))
+    const counts = [0, 0, 0]
+    for (let i = 0; i < 8000; i++) counts[pick()]++
+    expect(counts[1]).toBe(0)
+    expect(counts[2] / counts[0]).toBeGreaterThan(2.6)
+    expect(counts[2] / counts[0]).toBeLessThan(3.4)
+  })
+
+  it('matches plain uniform indexing when unweighted', () => {
+    const a = createSeededRandom(4)
+    const b = createSeededRandom(4)
+    const pick = createIndexPicker(7, null, a)
+    for (let i = 0; i < 20; i++) {
+      expect(pick()).toBe(Math.floor(b() * 7))
+    }
+  })
+})
+
+describe('describeBootstrapWeighting', () => {
+  it('describes recency and window weightings and omits uniform', () => {
+    expect(describeBootstrapWeighting({ mode: 'recency', halfLife: 6 })).toBe('Recency-weighted (half-life 6 sprints)')
+    expect(describeBootstrapWeighting({ mode: 'window', lastN: 8 })).toBe('Last 8 sprints only')
+    expect(describeBootstrapWeighting({ mode: 'uniform' })).toBeNull()
+    expect(describeBootstrapWeighting()).toBeNull()
+  })
+})
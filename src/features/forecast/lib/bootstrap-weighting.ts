@@ -0,0 +1,90 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { RandomSource } from '@/shared/lib/math'
+
+/**
+ * How the Bootstrap method weights historical sprints.
+ * - uniform: every included sprint equally likely (classic bootstrap)
+ * - recency: exponential decay — a sprint `halfLife` sprints older counts half as much
+ * - window: only the most recent `lastN` sprints are resampled
+ */
+export type BootstrapWeighting =
+  | { mode: 'uniform' }
+  | { mode: 'recency'; halfLife: number }
+  | { mode: 'window'; lastN: number }
+
+export type BootstrapWeightingMode = BootstrapWeighting['mode']
+
+/**
+ * Historical velocities plus optional per-sprint sampling weights.
+ * `weights` is null when every sprint is equally likely.
+ */
+export interface WeightedHistory {
+  velocities: number[]
+  weights: number[] | null
+}
+
+/**
+ * Apply a weighting to chronologically ordered velocities (oldest first).
+ * The window variant trims to the last N sprints; recency attaches decay weights
+ * (the latest sprint has weight 1).
+ */
+export function applyBootstrapWeighting(
+  velocities: number[],
+  weighting?: BootstrapWeighting
+): WeightedHistory {
+  if (!weighting || weighting.mode === 'uniform') return { velocities, weights: null }
+  if (weighting.mode === 'window') {
+    const n = Math.max(1, Math.floor(weighting.lastN))
+    return { velocities: velocities.slice(-n), weights: null }
+  }
+  const halfLife = Math.max(Number.EPSILON, weighting.halfLife)
+  const last = velocities.length - 1
+  return {
+    velocities,
+    weights: velocities.map((_, i) => Math.pow(0.5, (last - i) / halfLife)),
+  }
+}
+
+/**
+ * Build an index picker for the given weights: returns i with probability
+ * weights[i] / Σweights (uniform when weights is null). Uses a cumulative
+ * table with binary search, so each draw is O(log n).
+ */
+export function createIndexPicker(
+  count: number,
+  weights: number[] | null,
+  rng: RandomSource
+): () => number {
+  if (!weights) return () => Math.floor(rng() * count)
+  const cumulative = new Array<number>(count)
+  let total = 0
+  for (let i = 0; i < count; i++) {
+    total += weights[i]
+    cumulative[i] = total
+  }
+  return () => {
+    const u = rng() * total
+    let lo = 0
+    let hi = count - 1
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1
+      if (cumulative[mid] > u) hi = mid
+      else lo = mid + 1
+    }
+    return lo
+  }
+}
+
+/**
+ * Human-readable description for exports and report text; null for uniform.
+ */
+export function describeBootstrapWeighting(weighting?: BootstrapWeighting): string | null {
+  if (!weighting || weighting.mode === 'uniform') return null
+  if (weighting.mode === 'recency') {
+    return `Recency-weighted (half-life ${weighting.halfLife} sprint${weighting.halfLife === 1 ? '' : 's'})`
+  }
+  return `Last ${weighting.lastN} sprints only`
+}
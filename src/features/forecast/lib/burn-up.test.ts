@@ -33,13 +33,16 @@ function makeSprint(num: number, done: number, backlog?: number): Sprint {
 }
 
 // Sorted simulation data for 10 trials
+const SORTED_SPRINTS = Uint16Array.from([3, 4, 4, 5, 5, 5, 6, 6, 7, 8])
+
 const simData: QuadSimulationData = {
-  truncatedNormal: [3, 4, 4, 5, 5, 5, 6, 6, 7, 8],
-  lognormal: [3, 4, 4, 5, 5, 5, 6, 6, 7, 8],
-  gamma: [3, 4, 4, 5, 5, 5, 6, 6, 7, 8],
+  truncatedNormal: SORTED_SPRINTS,
+  lognormal: SORTED_SPRINTS,
+  gamma: SORTED_SPRINTS,
   bootstrap: null,
-  triangular: [3, 4, 4, 5, 5, 5, 6, 6, 7, 8],
-  uniform: [3, 4, 4, 5, 5, 5, 6, 6, 7, 8],
+  triangular: SORTED_SPRINTS,
+  pert: SORTED_SPRINTS,
+  uniform: SORTED_SPRINTS,
 }
 
 describe('calculateBurnUpData', () => {
@@ -201,7 +204,7 @@ describe('calculateBurnUpData', () => {
 
 describe('isBootstrapAvailable', () => {
   it('returns true when bootstrap data is present', () => {
-    expect(isBootstrapAvailable({ ...simData, bootstrap: [3, 4, 5] })).toBe(true)
+    expect(isBootstrapAvailable({ ...simData, bootstrap: Uint16Array.from([3, 4, 5]) })).toBe(true)
   })
 
   it('returns false when bootstrap is null', () => {
@@ -209,7 +212,7 @@ describe('isBootstrapAvailable', () => {
   })
 
   it('returns false when bootstrap is empty array', () => {
-    expect(isBootstrapAvailable({ ...simData, bootstrap: [] })).toBe(false)
+    expect(isBootstrapAvailable({ ...simData, bootstrap: new Uint16Array(0) })).toBe(false)
   })
 })
 
@@ -6,7 +6,13 @@ import type { Sprint } from '@/shared/types'
 import type { QuadSimulationData } from './monte-carlo'
 import type { BurnUpConfig, DistributionType } from '../types'
 import { percentileFromSorted } from '@/shared/lib/math'
-import { calculateSprintStartDate, calculateSprintFinishDate, formatDateCompact } from '@/shared/lib/dates'
+import {
+  calculateSprintStartDate,
+  calculateSprintFinishDate,
+  formatDateCompact,
+  type NonWorkingDays,
+  type WorkWeek,
+} from '@/shared/lib/dates'
 
 const MAX_FORECAST_SPRINTS = 200
 
@@ -31,31 +37,39 @@ export interface BurnUpCalculationInput {
   completedSprintCount: number
   forecastStartDate?: string // Cascade-resolved anchor for forecast projections
   resolvedSprintDates?: Map<number, { startDate: string; finishDate: string }> // Cascade-aware historical dates
+  nonWorkingDays?: NonWorkingDays // Holidays: finish dates step back to the last working day
+  workWeek?: WorkWeek // Project work week for finish dates (Mon-Fri when undefined)
 }
 
-function getDistributionData(sim: QuadSimulationData, dist: DistributionType): number[] | null {
+function getDistributionData(sim: QuadSimulationData, dist: DistributionType): Uint16Array | null {
   return sim[dist]
 }
 
-function getSprintFinishDate(firstStart: string, sprintNum: number, cadence: number): string {
+function getSprintFinishDate(
+  firstStart: string,
+  sprintNum: number,
+  cadence: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+): string {
   const start = calculateSprintStartDate(firstStart, sprintNum, cadence)
-  return calculateSprintFinishDate(start, cadence)
+  return calculateSprintFinishDate(start, cadence, nonWorkingDays, workWeek)
 }
 
-function calculateIntersectionSprint(sorted: number[], percentile: number, completed: number): number {
+function calculateIntersectionSprint(sorted: ArrayLike<number>, percentile: number, completed: number): number {
   if (sorted.length === 0) return completed + 1
   const needed = percentileFromSorted(sorted, percentile)
   if (!Number.isFinite(needed) || needed < 0) return completed + 1
   return completed + Math.ceil(needed)
 }
 
-function calculateImpliedVelocity(sorted: number[], percentile: number, backlog: number): number {
+function calculateImpliedVelocity(sorted: ArrayLike<number>, percentile: number, backlog: number): number {
   const needed = percentileFromSorted(sorted, percentile)
   return needed <= 0 ? backlog : backlog / needed
 }
 
 export function calculateBurnUpData(input: BurnUpCalculationInput): BurnUpDataPoint[] {
-  const { sprints, forecastBacklog, simulationData, config, sprintCadenceWeeks, firstSprintStartDate, completedSprintCount, forecastStartDate, resolvedSprintDates } = input
+  const { sprints, forecastBacklog, simulationData, config, sprintCadenceWeeks, firstSprintStartDate, completedSprintCount, forecastStartDate, resolvedSprintDates, nonWorkingDays, workWeek } = input
 
   const sortedSprints = [...sprints].sort((a, b) => a.sprintNumber - b.sprintNumber)
   const totalDone = sortedSprints.reduce((sum, s) => sum + s.doneValue, 0)
@@ -77,13 +91,15 @@ export function calculateBurnUpData(input: BurnUpCalculationInput): BurnUpDataPo
     syntheticBacklog,
     forecastStartDate,
     resolvedSprintDates,
+    nonWorkingDays,
+    workWeek,
   })
 }
 
 interface BuildChartDataInput {
   sortedSprints: Sprint[]
   forecastBacklog: number
-  distData: number[]
+  distData: ArrayLike<number>
   config: BurnUpConfig
   sprintCadenceWeeks: number
   firstSprintStartDate: string
@@ -93,10 +109,12 @@ interface BuildChartDataInput {
   syntheticBacklog: number
   forecastStartDate?: string
   resolvedSprintDates?: Map<number, { startDate: string; finishDate: string }>
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
 }
 
 function buildChartData(input: BuildChartDataInput): BurnUpDataPoint[] {
-  const { sortedSprints, forecastBacklog, distData, config, sprintCadenceWeeks, firstSprintStartDate, completedSprintCount, totalDone, hasBacklogHistory, syntheticBacklog, forecastStartDate, resolvedSprintDates } = input
+  const { sortedSprints, forecastBacklog, distData, config, sprintCadenceWeeks, firstSprintStartDate, completedSprintCount, totalDone, hasBacklogHistory, syntheticBacklog, forecastStartDate, resolvedSprintDates, nonWorkingDays, workWeek } = input
 
   const intersections = config.lines.map((l) => calculateIntersectionSprint(distData, l.percentile, completedSprintCount))
   const velocities = config.lines.map((l) => calculateImpliedVelocity(distData, l.percentile, forecastBacklog))
@@ -112,7 +130,8 @@ function buildChartData(input: BuildChartDataInput): BurnUpDataPoint[] {
   for (const sprint of sortedSprints) {
     cumDone += sprint.doneValue
     const resolved = resolvedSprintDates?.get(sprint.sprintNumber)
-    const finishDate = resolved?.finishDate ?? getSprintFinishDate(firstSprintStartDate, sprint.sprintNumber, sprintCadenceWeeks)
+    const finishDate = resolved?.finishDate
+      ?? getSprintFinishDate(firstSprintStartDate, sprint.sprintNumber, sprintCadenceWeeks, nonWorkingDays, workWeek)
     const rawScope = hasBacklogHistory && sprint.backlogAtSprintEnd !== undefined
       ? cumDone + sprint.backlogAtSprintEnd
       : syntheticBacklog
@@ -134,7 +153,7 @@ function buildChartData(input: BuildChartDataInput): BurnUpDataPoint[] {
     const sprintsIn = num - completedSprintCount
     // Project from anchor: sprint 1 from anchor = anchor + 0 cadence, sprint 2 = anchor + 1 cadence, etc.
     const sprintStart = calculateSprintStartDate(projectionAnchor, sprintsIn, sprintCadenceWeeks)
-    const finishDate = calculateSprintFinishDate(sprintStart, sprintCadenceWeeks)
+    const finishDate = calculateSprintFinishDate(sprintStart, sprintCadenceWeeks, nonWorkingDays, workWeek)
 
     const lines = config.lines.map((_, i) => {
       if (num > intersections[i]) return undefined
@@ -0,0 +1,144 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import {
+  calculateSprintCapacity,
+  calculateCapacityBaseline,
+  preCalculateSprintCapacity,
+  combineCapacityFactors,
+} from './capacity'
+import type { Sprint, TeamMember } from '@/shared/types'
+
+const member = (
+  name: string,
+  startDate: string,
+  endDate: string | undefined,
+  availability: number
+): TeamMember => ({
+  id: `${name}-${startDate}`,
+  name,
+  startDate,
+  endDate,
+  availability,
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+})
+
+// Two-week sprints starting Monday 2025-01-06
+const sprint = (sprintNumber: number, doneValue: number, start: string, finish: string): Sprint => ({
+  id: `s${sprintNumber}`,
+  projectId: 'p',
+  sprintNumber,
+  sprintStartDate: start,
+  sprintFinishDate: finish,
+  doneValue,
+  includedInForecast: true,
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+})
+
+describe('calculateSprintCapacity', () => {
+  it('sums availability of members on the roster for the whole sprint', () => {
+    const roster = [member('A', '2024-01-01', undefined, 1), member('B', '2024-01-01', undefined, 0.5)]
+    expect(calculateSprintCapacity('2025-01-06', '2025-01-17', roster)).toBeCloseTo(1.5, 10)
+  })
+
+  it('weights partial coverage by working days', () => {
+    // B leaves after the first week (5 of 10 working days)
+    const roster = [member('A', '2024-01-01', undefined, 1), member('B', '2024-01-01', '2025-01-10', 1)]
+    expect(calculateSprintCapacity('2025-01-06', '2025-01-17', roster)).toBeCloseTo(1.5, 10)
+  })
+
+  it('returns 0 when nobody is on the roster', () => {
+    expect(calculateSprintCapacity('2025-01-06', '2025-01-17', [])).toBe(0)
+    expect(calculateSprintCapacity('2025-01-06', '2025-01-17', [member('A', '2025-02-01', undefined, 1)])).toBe(0)
+  })
+})
+
+describe('calculateCapacityBaseline', () => {
+  const sprints = [
+    sprint(1, 20, '2025-01-06', '2025-01-17'),
+    sprint(2, 30, '2025-01-20', '2025-01-31'),
+    sprint(3, 40, '2025-02-03', '2025-02-14'),
+  ]
+
+  it('divides total velocity by total capacity', () => {
+    // Two people, then a third joins for sprint 3: capacities 2, 2, 3
+    const roster = [
+      member('A', '2024-01-01', undefined, 1),
+      member('B', '2024-01-01', undefined, 1),
+      member('C', '2025-02-03', undefined, 1),
+    ]
+    const baseline = calculateCapacityBaseline(sprints, roster)!
+    expect(baseline.stats.mean).toBeCloseTo(90 / 7, 10)
+    expect(baseline.stats.count).toBe(3)
+    expect(baseline.perPersonVelocities).toEqual([10, 15, 40 / 3])
+    expect(baseline.averageCapacity).toBeCloseTo(7 / 3, 10)
+    expect(baseline.uncoveredSprintCount).toBe(0)
+  })
+
+  it('skips sprints the roster does not cover', () => {
+    const roster = [member('A', '2025-01-20', undefined, 1)]
+    const baseline = calculateCapacityBaseline(sprints, roster)!
+    expect(baseline.stats.count).toBe(2)
+    expect(baseline.uncoveredSprintCount).toBe(1)
+    expect(baseline.stats.mean).toBeCloseTo(35, 10)
+  })
+
+  it('returns null without a roster or with too few covered sprints', () => {
+    expect(calculateCapacityBaseline(sprints, [])).toBeNull()
+    expect(calculateCapacityBaseline(sprints, [member('A', '2025-02-03', undefined, 1)])).toBeNull()
+  })
+})
+
+describe('preCalculateSprintCapacity', () => {
+  it('follows roster changes and then holds the final capacity', () => {
+    const roster = [
+      member('A', '2024-01-01', undefined, 1),
+      member('B', '2024-01-01', '2025-01-17', 1), // leaves after the first sprint
+      member('C', '2025-02-03', undefined, 0.5), // joins for the third sprint
+    ]
+    const capacities = preCalculateSprintCapacity('2025-01-06', 2, 1, roster, 6)
+    expect(capacities).toHaveLength(6)
+    expect(capacities[0]).toBeCloseTo(2, 10)
+    expect(capacities[1]).toBeCloseTo(1, 10)
+    expect(capacities.slice(2).every((c) => Math.abs(c - 1.5) < 1e-10)).toBe(true)
+  })
+
+  it('returns zeros for an empty roster', () => {
+    expect(preCalculateSprintCapacity('2025-01-06', 2, 1, [], 3)).toEqual([0, 0, 0])
+  })
+
+  it('follows roster changes on a Sunday–Thursday work week', () => {
+    const SUN_THU = [0, 1, 2, 3, 4]
+    const roster = [
+      member('A', '2024-01-01', undefined, 1),
+      member('B', '2024-01-01', '2025-01-12', 1), // last day is the second sprint's Sunday
+    ]
+    // One-week sprints starting Sunday 2025-01-05: Sun–Thu gives five working days each
+    const capacities = preCalculateSprintCapacity('2025-01-05', 1, 1, roster, 3, undefined, SUN_THU)
+    expect(capacities[0]).toBeCloseTo(2, 10)
+    expect(capacities[1]).toBeCloseTo(1.2, 10)
+    expect(capacities[2]).toBeCloseTo(1, 10)
+    // A Mon–Fri calendar never sees B's Sunday
+    expect(preCalculateSprintCapacity('2025-01-05', 1, 1, roster, 3)[1]).toBeCloseTo(1, 10)
+  })
+
+  it('leaves holidays out of a sprint\'s working days', () => {
+    const roster = [
+      member('A', '2024-01-01', undefined, 1),
+      member('B', '2024-01-01', '2025-01-13', 1), // last day is the holiday
+    ]
+    const capacities = preCalculateSprintCapacity('2025-01-13', 1, 1, roster, 1, new Set(['2025-01-13']))
+    expect(capacities[0]).toBeCloseTo(1, 10)
+  })
+})
+
+describe('combineCapacityFactors', () => {
+  it('multiplies planned capacity by productivity factors', () => {
+    expect(combineCapacityFactors([2, 3, 3], [1, 0.5])).toEqual([2, 1.5, 3])
+    expect(combineCapacityFactors([2, 3])).toEqual([2, 3])
+  })
+})
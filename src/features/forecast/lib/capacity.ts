@@ -0,0 +1,185 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import {
+  calculateSprintStartDate,
+  calculateSprintFinishDate,
+  countWorkingDays,
+  getWorkingDaysInRange,
+  type NonWorkingDays,
+  type WorkWeek,
+} from '@/shared/lib/dates'
+import { mean, standardDeviation } from '@/shared/lib/math'
+import type { Sprint, TeamMember, VelocityStats } from '@/shared/types'
+import { MAX_TRIAL_SPRINTS, MIN_SPRINTS_FOR_CAPACITY } from '../constants'
+
+/**
+ * Per-person throughput derived from sprint history and the team roster.
+ */
+export interface CapacityBaseline {
+  /** Throughput per full-time person per sprint (mean = Σvelocity / Σcapacity) */
+  stats: VelocityStats
+  /** Per-sprint velocity ÷ capacity, chronological — the Bootstrap pool in capacity mode */
+  perPersonVelocities: number[]
+  /** Mean team capacity (full-time equivalents) over the roster-covered sprints */
+  averageCapacity: number
+  /** Included sprints with no roster coverage (zero capacity); left out of the baseline */
+  uncoveredSprintCount: number
+}
+
+/**
+ * Calculate a sprint's team capacity in full-time equivalents (FTE).
+ *
+ * For each working day, sums the availability of every roster entry whose date range
+ * contains that day, then averages over the sprint's working days — the same
+ * working-day weighting as calculateSprintProductivityFactor, summing instead of
+ * taking the minimum.
+ *
+ * @param nonWorkingDays - Holidays excluded from the working days
+ * @param workWeek - Project work week (defaults to Monday–Friday)
+ * @returns Average FTE over the sprint, or 0 if no working days
+ */
+export function calculateSprintCapacity(
+  sprintStart: string,
+  sprintEnd: string,
+  members: Array<Pick<TeamMember, 'startDate' | 'endDate' | 'availability'>>,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+): number {
+  if (countWorkingDays(sprintStart, sprintEnd, nonWorkingDays, workWeek) === 0) return 0
+
+  const relevantMembers = members.filter(
+    (m) => (m.endDate === undefined || m.endDate >= sprintStart) && m.startDate <= sprintEnd
+  )
+  if (relevantMembers.length === 0) return 0
+
+  const workingDays = getWorkingDaysInRange(sprintStart, sprintEnd, nonWorkingDays, workWeek)
+  let total = 0
+  for (const day of workingDays) {
+    for (const m of relevantMembers) {
+      if (day >= m.startDate && (m.endDate === undefined || day <= m.endDate)) {
+        total += m.availability
+      }
+    }
+  }
+  return total / workingDays.length
+}
+
+/**
+ * Derive per-person throughput from completed sprints and the roster.
+ *
+ * Sprints the roster does not cover (zero capacity) are skipped. Returns null when
+ * fewer than MIN_SPRINTS_FOR_CAPACITY sprints are covered.
+ *
+ * @param sprints - Included sprints (any order; sorted by sprint number internally)
+ * @param members - Team roster
+ * @param nonWorkingDays - Holidays excluded from each sprint's working days
+ * @param workWeek - Project work week (defaults to Monday–Friday)
+ */
+export function calculateCapacityBaseline(
+  sprints: Sprint[],
+  members: TeamMember[],
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+): CapacityBaseline | null {
+  if (members.length === 0) return null
+
+  const sorted = [...sprints].sort((a, b) => a.sprintNumber - b.sprintNumber)
+  const perPersonVelocities: number[] = []
+  const capacities: number[] = []
+  let totalVelocity = 0
+  let uncoveredSprintCount = 0
+
+  for (const sprint of sorted) {
+    const finish = sprint.customFinishDate ?? sprint.sprintFinishDate
+    const capacity = calculateSprintCapacity(sprint.sprintStartDate, finish, members, nonWorkingDays, workWeek)
+    if (capacity <= 0) {
+      uncoveredSprintCount++
+      continue
+    }
+    capacities.push(capacity)
+    perPersonVelocities.push(sprint.doneValue / capacity)
+    totalVelocity += sprint.doneValue
+  }
+
+  if (capacities.length < MIN_SPRINTS_FOR_CAPACITY) return null
+
+  const totalCapacity = capacities.reduce((sum, c) => sum + c, 0)
+  return {
+    stats: {
+      count: capacities.length,
+      mean: totalVelocity / totalCapacity,
+      standardDeviation: standardDeviation(perPersonVelocities),
+    },
+    perPersonVelocities,
+    averageCapacity: mean(capacities),
+    uncoveredSprintCount,
+  }
+}
+
+/**
+ * Pre-calculate planned team capacity (FTE) for upcoming sprints.
+ *
+ * Mirrors preCalculateSprintFactors: indexed by relative sprint (0 = first forecast
+ * sprint), and once a sprint starts after the last roster change the remaining
+ * sprints repeat that sprint's capacity.
+ *
+ * @param firstSprintStartDate - Anchor date for sprint `startingSprintNumber`
+ * @param sprintCadenceWeeks - Sprint length in weeks
+ * @param startingSprintNumber - First sprint to calculate
+ * @param members - Team roster
+ * @param maxSprintsToCalculate - Maximum number of future sprints to pre-calculate
+ * @param nonWorkingDays - Holidays excluded from each sprint's working days
+ * @param workWeek - Project work week (defaults to Monday–Friday)
+ */
+export function preCalculateSprintCapacity(
+  firstSprintStartDate: string,
+  sprintCadenceWeeks: number,
+  startingSprintNumber: number,
+  members: TeamMember[],
+  maxSprintsToCalculate: number = MAX_TRIAL_SPRINTS,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+): number[] {
+  if (members.length === 0) return new Array(maxSprintsToCalculate).fill(0)
+
+  // Open-ended entries never change again, so only dated boundaries matter
+  const lastChange = members.reduce(
+    (latest, m) => {
+      const boundary = m.endDate ?? m.startDate
+      return boundary > latest ? boundary : latest
+    },
+    members[0].endDate ?? members[0].startDate
+  )
+
+  const capacities: number[] = []
+  for (let i = 0; i < maxSprintsToCalculate; i++) {
+    const sprintStart = calculateSprintStartDate(
+      firstSprintStartDate,
+      startingSprintNumber + i,
+      sprintCadenceWeeks
+    )
+    const sprintEnd = calculateSprintFinishDate(sprintStart, sprintCadenceWeeks, nonWorkingDays, workWeek)
+    const capacity = calculateSprintCapacity(sprintStart, sprintEnd, members, nonWorkingDays, workWeek)
+    capacities.push(capacity)
+
+    // Past every roster change: this sprint's capacity holds for the rest
+    if (sprintStart > lastChange) {
+      while (capacities.length < maxSprintsToCalculate) capacities.push(capacity)
+      break
+    }
+  }
+  return capacities
+}
+
+/**
+ * Combine planned capacity with productivity factors into the per-sprint
+ * multipliers the simulation applies to sampled per-person throughput.
+ */
+export function combineCapacityFactors(
+  capacities: number[],
+  productivityFactors?: number[]
+): number[] {
+  return capacities.map((c, i) => c * (productivityFactors?.[i] ?? 1.0))
+}
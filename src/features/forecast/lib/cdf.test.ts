@@ -166,9 +166,59 @@ describe('buildHistogramBins', () => {
       })
     })
 
+    it('includes PERT points and bins when PERT data is passed', () => {
+      const points = mergeDistributions(null, null, null, null, '2025-01-06', 2, undefined, undefined, data)
+      expect(points.length).toBeGreaterThan(0)
+      expect(points[points.length - 1].pert).toBe(100)
+      const bins = buildHistogramBins(null, null, null, null, '2025-01-06', 2, 5, undefined, undefined, data)
+      expect(bins.reduce((sum, b) => sum + (b.pert ?? 0), 0)).toBeCloseTo(100)
+    })
+
     it('mergeDistributions returns empty array when all inputs are null', () => {
       const points = mergeDistributions(null, null, null, null, '2025-01-06', 2)
       expect(points).toEqual([])
     })
   })
 })
+
+describe('interpolated (day-level) data', () => {
+  // Fractional sprints required: half finish in sprint 1, half late in sprint 2
+  const data = Float64Array.from([0.15, 0.25, 0.35, 0.45, 0.5, 1.55, 1.65, 1.75, 1.85, 1.95])
+
+  it('mergeDistributions dates fractional points at working days inside the sprint', () => {
+    const points = mergeDistributions(null, data, null, null, '2025-01-06', 2)
+    // 0.5 of sprint 1 (Jan 6-17) is its fifth working day, Friday Jan 10
+    expect(points.find((p) => p.sprints === 0.5)?.dateLabel).toBe('Jan 10')
+    expect(points.find((p) => p.sprints === 1.95)?.dateLabel).toBe('Jan 31')
+  })
+
+  it('buildHistogramBins splits the range into continuous bins covering every trial', () => {
+    const bins = buildHistogramBins(null, data, null, null, '2025-01-06', 2, 4, undefined, undefined, undefined, true)
+    expect(bins).toHaveLength(4)
+    expect(bins[0].sprintMin).toBeCloseTo(0.15)
+    expect(bins[3].sprintMax).toBeCloseTo(1.95)
+    expect(bins.map((b) => b.lognormal)).toEqual([50, 0, 0, 50])
+  })
+
+  it('puts a zero-range distribution in one bin', () => {
+    const flat = Float64Array.from([1.5, 1.5, 1.5])
+    const bins = buildHistogramBins(null, flat, null, null, '2025-01-06', 2, 5, undefined, undefined, undefined, true)
+    expect(bins).toHaveLength(1)
+    expect(bins[0].lognormal).toBe(100)
+  })
+
+  it('dates fractional points on the project work week and holidays', () => {
+    // Sun-Thu sprint 1 from Sunday Jan 5 works Jan 5-9 and 12-16: 0.5 lands on Thursday Jan 9
+    const sunThu = [0, 1, 2, 3, 4]
+    const points = mergeDistributions(
+      null, data, null, null, '2025-01-05', 2, undefined, undefined, undefined, undefined, sunThu
+    )
+    expect(points.find((p) => p.sprints === 0.5)?.dateLabel).toBe('Jan 9')
+    // A Jan 7 holiday leaves nine working days, so 0.5 moves on to the fifth, Sunday Jan 12
+    const flat = Float64Array.from([0.5, 0.5])
+    const bins = buildHistogramBins(
+      null, flat, null, null, '2025-01-05', 2, 5, undefined, undefined, undefined, true, new Set(['2025-01-07']), sunThu
+    )
+    expect(bins[0].dateLabel).toBe('Jan 12')
+  })
+})
@@ -2,7 +2,14 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import { calculateSprintStartDate, calculateSprintFinishDate, formatDateCompact } from '@/shared/lib/dates'
+import {
+  calculateSprintStartDate,
+  calculateSprintFinishDate,
+  calculateFractionalSprintDate,
+  formatDateCompact,
+  type NonWorkingDays,
+  type WorkWeek,
+} from '@/shared/lib/dates'
 
 export interface CdfDataPoint {
   sprints: number
@@ -15,6 +22,7 @@ export interface CdfDataPoint {
   gamma?: number
   bootstrap?: number
   triangular?: number
+  pert?: number
   uniform?: number
 }
 
@@ -29,14 +37,15 @@ export interface HistogramBin {
   gamma?: number
   bootstrap?: number
   triangular?: number
+  pert?: number
   uniform?: number
 }
 
 /**
- * Build CDF points from sorted simulation data.
+ * Build CDF points from sorted simulation data (a plain or typed array).
  * Returns ~100 points for smooth curves without overwhelming the chart.
  */
-export function buildCdfPoints(sortedData: number[]): Map<number, number> {
+export function buildCdfPoints(sortedData: ArrayLike<number>): Map<number, number> {
   const n = sortedData.length
   const cdf = new Map<number, number>()
 
@@ -54,7 +63,7 @@ export function buildCdfPoints(sortedData: number[]): Map<number, number> {
  * Calculate cumulative percentage: what % of trials finished in <= sprints
  * Uses binary search for efficiency on sorted data.
  */
-export function calculateCumulativePercentage(sortedData: number[], sprints: number): number {
+export function calculateCumulativePercentage(sortedData: ArrayLike<number>, sprints: number): number {
   // Binary search for the last index where value <= sprints
   let low = 0
   let high = sortedData.length
@@ -69,22 +78,44 @@ export function calculateCumulativePercentage(sortedData: number[], sprints: num
   return (low / sortedData.length) * 100
 }
 
+/**
+ * Date a sprint count lands on: the sprint's finish date, or for fractional
+ * (interpolated) counts the working day inside the final sprint, on the same
+ * calendar.
+ */
+function sprintCountDate(
+  startDate: string,
+  sprints: number,
+  sprintCadenceWeeks: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+): string {
+  if (!Number.isInteger(sprints)) {
+    return calculateFractionalSprintDate(startDate, sprints, sprintCadenceWeeks, nonWorkingDays, workWeek)
+  }
+  const sprintStart = calculateSprintStartDate(startDate, sprints, sprintCadenceWeeks)
+  return calculateSprintFinishDate(sprintStart, sprintCadenceWeeks, nonWorkingDays, workWeek)
+}
+
 /**
  * Merge CDF data from all distributions into unified chart data.
  *
- * Any of the six distribution inputs may be null/undefined when the user has disabled
+ * Any of the seven distribution inputs may be null/undefined when the user has disabled
  * the distribution via Settings ("Statistical methods to show") — the corresponding field
  * is omitted from each CdfDataPoint and Recharts naturally skips the missing dataKey.
  */
 export function mergeDistributions(
-  tNormal: number[] | null,
-  lognormal: number[] | null,
-  gamma: number[] | null,
-  bootstrap: number[] | null,
+  tNormal: ArrayLike<number> | null,
+  lognormal: ArrayLike<number> | null,
+  gamma: ArrayLike<number> | null,
+  bootstrap: ArrayLike<number> | null,
   startDate: string,
   sprintCadenceWeeks: number,
-  triangular?: number[],
-  uniform?: number[]
+  triangular?: ArrayLike<number>,
+  uniform?: ArrayLike<number>,
+  pert?: ArrayLike<number>,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
 ): CdfDataPoint[] {
   const tNormalCdf = tNormal ? buildCdfPoints(tNormal) : null
   const lognormalCdf = lognormal ? buildCdfPoints(lognormal) : null
@@ -92,6 +123,7 @@ export function mergeDistributions(
   const bootstrapCdf = bootstrap ? buildCdfPoints(bootstrap) : null
   const triangularCdf = triangular ? buildCdfPoints(triangular) : null
   const uniformCdf = uniform ? buildCdfPoints(uniform) : null
+  const pertCdf = pert ? buildCdfPoints(pert) : null
 
   // Get all unique sprint values
   const allSprints = new Set<number>()
@@ -101,15 +133,14 @@ export function mergeDistributions(
   if (bootstrapCdf) bootstrapCdf.forEach((_, sprints) => allSprints.add(sprints))
   if (triangularCdf) triangularCdf.forEach((_, sprints) => allSprints.add(sprints))
   if (uniformCdf) uniformCdf.forEach((_, sprints) => allSprints.add(sprints))
+  if (pertCdf) pertCdf.forEach((_, sprints) => allSprints.add(sprints))
 
   const sortedSprints = Array.from(allSprints).sort((a, b) => a - b)
 
   return sortedSprints.map((sprints) => {
-    const sprintStart = calculateSprintStartDate(startDate, sprints, sprintCadenceWeeks)
-    const finishDate = calculateSprintFinishDate(sprintStart, sprintCadenceWeeks)
     const point: CdfDataPoint = {
       sprints,
-      dateLabel: formatDateCompact(finishDate),
+      dateLabel: formatDateCompact(sprintCountDate(startDate, sprints, sprintCadenceWeeks, nonWorkingDays, workWeek)),
     }
     if (tNormal) point.tNormal = calculateCumulativePercentage(tNormal, sprints)
     if (lognormal) point.lognormal = calculateCumulativePercentage(lognormal, sprints)
@@ -117,6 +148,7 @@ export function mergeDistributions(
     if (bootstrap) point.bootstrap = calculateCumulativePercentage(bootstrap, sprints)
     if (triangular) point.triangular = calculateCumulativePercentage(triangular, sprints)
     if (uniform) point.uniform = calculateCumulativePercentage(uniform, sprints)
+    if (pert) point.pert = calculateCumulativePercentage(pert, sprints)
     return point
   })
 }
@@ -125,7 +157,7 @@ export function mergeDistributions(
  * Count how many values fall within the given range [min, max]
  * Uses binary search for efficiency on sorted data.
  */
-function countInRange(sortedData: number[], min: number, max: number): number {
+function countInRange(sortedData: ArrayLike<number>, min: number, max: number): number {
   // Find first index where value >= min
   let low = 0
   let high = sortedData.length
@@ -155,30 +187,55 @@ function countInRange(sortedData: number[], min: number, max: number): number {
   return endIndex - startIndex
 }
 
+/**
+ * Count how many values fall below `value`. Uses binary search on sorted data.
+ */
+function countBelow(sortedData: ArrayLike<number>, value: number): number {
+  let low = 0
+  let high = sortedData.length
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    if (sortedData[mid] < value) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
+
 /**
  * Build histogram bins from sorted simulation data.
  * Bins are calculated as equal-width intervals across the range of sprints.
+ * With `interpolated` (fractional sprint counts), bins split the range into
+ * `binCount` continuous intervals, each half-open except the last, and are dated
+ * by the working day their midpoint lands on.
  */
 export function buildHistogramBins(
-  tNormal: number[] | null,
-  lognormal: number[] | null,
-  gamma: number[] | null,
-  bootstrap: number[] | null,
+  tNormal: ArrayLike<number> | null,
+  lognormal: ArrayLike<number> | null,
+  gamma: ArrayLike<number> | null,
+  bootstrap: ArrayLike<number> | null,
   startDate: string,
   sprintCadenceWeeks: number,
   binCount: number = 15,
-  triangular?: number[],
-  uniform?: number[]
+  triangular?: ArrayLike<number>,
+  uniform?: ArrayLike<number>,
+  pert?: ArrayLike<number>,
+  interpolated = false,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
 ): HistogramBin[] {
   // Find global min and max across all enabled distributions. When a distribution is null
   // (user disabled in Settings), it's excluded from the range calculation.
-  const allData: number[][] = []
+  const allData: ArrayLike<number>[] = []
   if (tNormal) allData.push(tNormal)
   if (lognormal) allData.push(lognormal)
   if (gamma) allData.push(gamma)
   if (bootstrap) allData.push(bootstrap)
   if (triangular) allData.push(triangular)
   if (uniform) allData.push(uniform)
+  if (pert) allData.push(pert)
 
   // No enabled distributions — return empty bins. Caller (HistogramChart) should
   // also gate rendering on this case, but defensive empty return prevents NaN propagation.
@@ -187,8 +244,20 @@ export function buildHistogramBins(
   const globalMin = Math.min(...allData.map((d) => d[0]))
   const globalMax = Math.max(...allData.map((d) => d[d.length - 1]))
 
-  // Calculate bin width (minimum 1 sprint per bin)
   const range = globalMax - globalMin
+  // Trial count derived from the first available distribution (all distributions are
+  // simulated with the same trial count, so this is safe regardless of which is enabled).
+  const trialCount = allData[0].length
+
+  if (interpolated) {
+    return buildInterpolatedBins(
+      { tNormal, lognormal, gamma, bootstrap, triangular, uniform, pert },
+      globalMin, globalMax, trialCount, startDate, sprintCadenceWeeks, range === 0 ? 1 : binCount,
+      nonWorkingDays, workWeek
+    )
+  }
+
+  // Calculate bin width (minimum 1 sprint per bin)
   const rawBinWidth = Math.ceil(range / binCount)
   const binWidth = Math.max(1, rawBinWidth)
 
@@ -196,9 +265,6 @@ export function buildHistogramBins(
   const actualBinCount = range === 0 ? 1 : Math.ceil(range / binWidth)
 
   const bins: HistogramBin[] = []
-  // Trial count derived from the first available distribution (all distributions are
-  // simulated with the same trial count, so this is safe regardless of which is enabled).
-  const trialCount = allData[0].length
 
   for (let i = 0; i < actualBinCount; i++) {
     const sprintMin = globalMin + i * binWidth
@@ -207,7 +273,7 @@ export function buildHistogramBins(
     // Calculate date label for bin midpoint
     const midSprint = Math.round((sprintMin + sprintMax) / 2)
     const sprintStart = calculateSprintStartDate(startDate, midSprint, sprintCadenceWeeks)
-    const finishDate = calculateSprintFinishDate(sprintStart, sprintCadenceWeeks)
+    const finishDate = calculateSprintFinishDate(sprintStart, sprintCadenceWeeks, nonWorkingDays, workWeek)
 
     const bin: HistogramBin = {
       sprintMin,
@@ -222,6 +288,58 @@ export function buildHistogramBins(
     if (bootstrap) bin.bootstrap = (countInRange(bootstrap, sprintMin, sprintMax) / trialCount) * 100
     if (triangular) bin.triangular = (countInRange(triangular, sprintMin, sprintMax) / trialCount) * 100
     if (uniform) bin.uniform = (countInRange(uniform, sprintMin, sprintMax) / trialCount) * 100
+    if (pert) bin.pert = (countInRange(pert, sprintMin, sprintMax) / trialCount) * 100
+
+    bins.push(bin)
+  }
+
+  return bins
+}
+
+type HistogramSeriesKey = 'tNormal' | 'lognormal' | 'gamma' | 'bootstrap' | 'triangular' | 'uniform' | 'pert'
+type HistogramSeries = Partial<Record<HistogramSeriesKey, ArrayLike<number> | null>>
+
+/**
+ * Continuous bins for interpolated data: `binCount` equal intervals over
+ * [globalMin, globalMax], half-open except the last.
+ */
+function buildInterpolatedBins(
+  series: HistogramSeries,
+  globalMin: number,
+  globalMax: number,
+  trialCount: number,
+  startDate: string,
+  sprintCadenceWeeks: number,
+  binCount: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+): HistogramBin[] {
+  const binWidth = (globalMax - globalMin) / binCount
+  const bins: HistogramBin[] = []
+
+  for (let i = 0; i < binCount; i++) {
+    const isLast = i === binCount - 1
+    const sprintMin = globalMin + i * binWidth
+    const sprintMax = isLast ? globalMax : globalMin + (i + 1) * binWidth
+    const midpoint = (sprintMin + sprintMax) / 2
+
+    const bin: HistogramBin = {
+      sprintMin,
+      sprintMax,
+      sprintLabel: `${sprintMin.toFixed(2)}-${sprintMax.toFixed(2)}`,
+      dateLabel: formatDateCompact(
+        calculateFractionalSprintDate(startDate, midpoint, sprintCadenceWeeks, nonWorkingDays, workWeek)
+      ),
+    }
+
+    for (const key of Object.keys(series) as HistogramSeriesKey[]) {
+      const data = series[key]
+      if (!data) continue
+      const count = isLast
+        ? countInRange(data, sprintMin, sprintMax)
+        : countBelow(data, sprintMax) - countBelow(data, sprintMin)
+      bin[key] = (count / trialCount) * 100
+    }
 
     bins.push(bin)
   }
@@ -5,11 +5,13 @@
 import { describe, it, expect } from 'vitest'
 import {
   targetDateToSprintCount,
+  targetDateToFractionalSprints,
   calculateDeadlineProbability,
 } from './deadline'
 import {
   calculateSprintStartDate,
   calculateSprintFinishDate,
+  calculateFractionalSprintDate,
 } from '@/shared/lib/dates'
 import { MAX_TRIAL_SPRINTS } from '../constants'
 
@@ -96,6 +98,15 @@ describe('targetDateToSprintCount', () => {
     expect(dow).toBeLessThanOrEqual(5)
   })
 
+  it('quantizes against the project work week', () => {
+    // Sun-Thu sprints from Sunday May 17: sprint 1 finishes Thursday May 28
+    const sunThu = [0, 1, 2, 3, 4]
+    expect(targetDateToSprintCount('2026-05-28', '2026-05-17', CADENCE, undefined, sunThu)).toEqual({
+      sprintCount: 1, sprintFinishDate: '2026-05-28', isExactMatch: true,
+    })
+    expect(targetDateToSprintCount('2026-05-28', '2026-05-17', CADENCE).sprintCount).toBe(0)
+  })
+
   it('clamps at MAX_TRIAL_SPRINTS for target dates far beyond the forecast horizon', () => {
     // At 1-week cadence from 2026-05-18, sprint 1000 lands at ~2045. A
     // target of 2050-12-31 is well past that, so the binary search must
@@ -107,6 +118,26 @@ describe('targetDateToSprintCount', () => {
   })
 })
 
+describe('targetDateToFractionalSprints', () => {
+  // Sprint 1 runs Mon May 18 - Fri May 29: ten working days
+  it('counts the working days of the target’s sprint on or before the target', () => {
+    expect(targetDateToFractionalSprints('2026-05-10', FORECAST_START, CADENCE)).toBe(0)
+    expect(targetDateToFractionalSprints('2026-05-18', FORECAST_START, CADENCE)).toBeCloseTo(0.1)
+    expect(targetDateToFractionalSprints('2026-05-24', FORECAST_START, CADENCE)).toBeCloseTo(0.5) // Sunday
+    expect(targetDateToFractionalSprints(finishOf(1), FORECAST_START, CADENCE)).toBe(1)
+    expect(targetDateToFractionalSprints('2026-06-03', FORECAST_START, CADENCE)).toBeCloseTo(1.3)
+  })
+
+  it('inverts calculateFractionalSprintDate: a trial counts exactly when it is dated by the target', () => {
+    const target = '2026-06-10'
+    const threshold = targetDateToFractionalSprints(target, FORECAST_START, CADENCE)
+    for (const sprints of [1.55, 1.6, 1.65, 1.7, 1.75, 2]) {
+      const finishDate = calculateFractionalSprintDate(FORECAST_START, sprints, CADENCE)
+      expect(sprints <= threshold).toBe(finishDate <= target)
+    }
+  })
+})
+
 describe('calculateDeadlineProbability', () => {
   // Use a simulated array where we can predict the CDF exactly.
   // sortedSprintsRequired = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
@@ -11,12 +11,17 @@
 //
 // The implementation is intentionally light — no new simulation runs. Both
 // functions are pure reads against the already-computed `sortedSprintsRequired`
-// array (one of `QuadSimulationData`'s six per-distribution arrays) plus a date
+// array (one of `QuadSimulationData`'s seven per-distribution arrays) plus a date
 // → sprint quantization step.
 
 import {
+  addDays,
+  addWeeks,
   calculateSprintStartDate,
   calculateSprintFinishDate,
+  getWorkingDaysInRange,
+  type NonWorkingDays,
+  type WorkWeek,
 } from '@/shared/lib/dates'
 import { MAX_TRIAL_SPRINTS } from '../constants'
 import { calculateCumulativePercentage } from './cdf'
@@ -70,11 +75,15 @@ export interface DeadlineProbabilityResult {
  * cadence boundary lands on, so the sprint-finish-date sequence is not a
  * perfectly arithmetic progression. Binary search is exact and costs only
  * ⌈log₂(MAX_TRIAL_SPRINTS)⌉ ≈ 10 calls to the date helpers for any input.
+ * Finish dates land on the project's `workWeek` (Mon-Fri by default) and step
+ * back from `nonWorkingDays`, as the forecast's percentile dates do.
  */
 export function targetDateToSprintCount(
   targetDate: string,
   forecastStartDate: string,
   sprintCadenceWeeks: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek,
 ): SprintAtDate {
   let lo = 0
   let hi = MAX_TRIAL_SPRINTS
@@ -84,6 +93,8 @@ export function targetDateToSprintCount(
     const finishDate = calculateSprintFinishDate(
       calculateSprintStartDate(forecastStartDate, mid, sprintCadenceWeeks),
       sprintCadenceWeeks,
+      nonWorkingDays,
+      workWeek,
     )
     if (finishDate <= targetDate) {
       lo = mid
@@ -95,6 +106,8 @@ export function targetDateToSprintCount(
   const sprintFinishDate = calculateSprintFinishDate(
     calculateSprintStartDate(forecastStartDate, lo, sprintCadenceWeeks),
     sprintCadenceWeeks,
+    nonWorkingDays,
+    workWeek,
   )
 
   return {
@@ -104,6 +117,36 @@ export function targetDateToSprintCount(
   }
 }
 
+/**
+ * Day-level counterpart of `targetDateToSprintCount`, for interpolated (fractional)
+ * sprint counts: the largest count a trial can have and still finish on or before
+ * `targetDate`. The sprint the target falls in contributes the share of its working
+ * days on or before the target — the inverse of `calculateFractionalSprintDate`, so
+ * passing the result to `calculateDeadlineProbability` counts exactly the trials
+ * dated on or before the target.
+ */
+export function targetDateToFractionalSprints(
+  targetDate: string,
+  forecastStartDate: string,
+  sprintCadenceWeeks: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek,
+): number {
+  const { sprintCount } = targetDateToSprintCount(
+    targetDate, forecastStartDate, sprintCadenceWeeks, nonWorkingDays, workWeek
+  )
+  const nextSprintStart = calculateSprintStartDate(forecastStartDate, sprintCount + 1, sprintCadenceWeeks)
+  const workingDays = getWorkingDaysInRange(
+    nextSprintStart,
+    addDays(addWeeks(nextSprintStart, sprintCadenceWeeks), -1),
+    nonWorkingDays,
+    workWeek,
+  )
+  if (workingDays.length === 0) return sprintCount
+  const daysByTarget = workingDays.filter((day) => day <= targetDate).length
+  return sprintCount + daysByTarget / workingDays.length
+}
+
 /**
  * Probability of completing within `sprintCount` sprints under the given
  * simulation distribution, returned as a display-ready integer percentage in
@@ -121,7 +164,7 @@ export function targetDateToSprintCount(
  *     Returning 0 here keeps the UI numeric.
  */
 export function calculateDeadlineProbability(
-  sortedSprintsRequired: number[],
+  sortedSprintsRequired: ArrayLike<number>,
   sprintCount: number,
 ): DeadlineProbabilityResult {
   if (sprintCount <= 0 || sortedSprintsRequired.length === 0) {
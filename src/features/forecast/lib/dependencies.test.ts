@@ -0,0 +1,177 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildDependencyPlan,
+  dependencyContexts,
+  readySprintCounts,
+  buildMilestoneGates,
+  summarizeDependencyDelay,
+  describeDependencyDelay,
+  type DependencyPlan,
+  type UpstreamMilestonePlan,
+} from './dependencies'
+import type { QuadSimulationData } from './monte-carlo'
+import type { Milestone, Project, Sprint } from '@/shared/types'
+
+const TIMESTAMP = '2026-01-01T00:00:00Z'
+
+function makeMilestone(id: string, backlogSize: number, dependsOn?: Milestone['dependsOn']): Milestone {
+  return { id, name: `M ${id}`, backlogSize, color: '#000000', dependsOn, createdAt: TIMESTAMP, updatedAt: TIMESTAMP }
+}
+
+function makeProject(id: string, overrides: Partial<Project> = {}): Project {
+  return {
+    id,
+    name: `Team ${id}`,
+    unitOfMeasure: 'points',
+    sprintCadenceWeeks: 2,
+    firstSprintStartDate: '2026-01-05',
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    ...overrides,
+  }
+}
+
+function history(projectId: string, velocities: number[], backlog: number): Sprint[] {
+  return velocities.map((v, i) => ({
+    id: `${projectId}-s${i + 1}`,
+    projectId,
+    sprintNumber: i + 1,
+    sprintStartDate: '',
+    sprintFinishDate: '',
+    doneValue: v,
+    backlogAtSprintEnd: i === velocities.length - 1 ? backlog : undefined,
+    includedInForecast: true,
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+  }))
+}
+
+function quad(values: number[]): QuadSimulationData {
+  const sorted = Uint16Array.from(values).sort()
+  return {
+    truncatedNormal: sorted, lognormal: sorted, gamma: sorted, bootstrap: null,
+    triangular: sorted, pert: sorted, uniform: sorted,
+  }
+}
+
+function upstreamPlan(milestoneName: string, startDate: string): UpstreamMilestonePlan {
+  return {
+    projectId: 'a',
+    projectName: 'Platform',
+    milestoneId: milestoneName,
+    milestoneName,
+    remainingBacklog: 50,
+    startDate,
+    sprintCadenceWeeks: 1,
+    context: {} as UpstreamMilestonePlan['context'],
+  }
+}
+
+describe('buildDependencyPlan', () => {
+  const upstream = makeProject('a', {
+    milestones: [makeMilestone('a1', 30), makeMilestone('a2', 50), makeMilestone('a3', 0)],
+  })
+  const sprints = history('a', [18, 22, 20, 15, 25], 80)
+
+  it('returns null when no open milestone waits on another project', () => {
+    const project = makeProject('b', {
+      milestones: [makeMilestone('b1', 0, [{ projectId: 'a', milestoneId: 'a1' }]), makeMilestone('b2', 20)],
+    })
+    expect(buildDependencyPlan(project, [upstream, project], sprints)).toBeNull()
+  })
+
+  it('forecasts each upstream milestone once, to its cumulative scope', () => {
+    const project = makeProject('b', {
+      milestones: [
+        makeMilestone('b1', 20, [{ projectId: 'a', milestoneId: 'a2' }]),
+        makeMilestone('b2', 20, [{ projectId: 'a', milestoneId: 'a2' }, { projectId: 'a', milestoneId: 'a3' }]),
+      ],
+    })
+    const plan = buildDependencyPlan(project, [upstream, project], sprints, { trialCount: 100, seed: 3 })!
+    expect(plan.upstreams).toHaveLength(1)
+    expect(plan.upstreams[0]).toMatchObject({ projectName: 'Team a', milestoneName: 'M a2', remainingBacklog: 80 })
+    expect(plan.upstreams[0].context.config.remainingBacklog).toBe(80)
+    expect(dependencyContexts(plan)).toHaveLength(1)
+    // The completed upstream milestone a3 is already satisfied
+    expect(plan.links).toEqual([
+      { milestoneIndex: 0, milestoneName: 'M b1', upstreamIndex: 0 },
+      { milestoneIndex: 1, milestoneName: 'M b2', upstreamIndex: 0 },
+    ])
+    expect(plan.skipped).toEqual([])
+  })
+
+  it('skips dependencies whose upstream is missing or cannot be forecast', () => {
+    const unscheduled = makeProject('c', { firstSprintStartDate: undefined, milestones: [makeMilestone('c1', 10)] })
+    const project = makeProject('b', {
+      milestones: [makeMilestone('b1', 20, [
+        { projectId: 'gone', milestoneId: 'x' },
+        { projectId: 'a', milestoneId: 'gone' },
+        { projectId: 'c', milestoneId: 'c1' },
+      ])],
+    })
+    const plan = buildDependencyPlan(project, [upstream, unscheduled, project], sprints, { trialCount: 100, seed: 3 })!
+    expect(plan.links).toEqual([])
+    expect(plan.skipped.map((s) => s.reason)).toEqual([
+      'its upstream project no longer exists.',
+      'its upstream milestone no longer exists in Team a.',
+      "Team c can't be forecast. Set the first sprint start date on the Sprint History tab.",
+    ])
+  })
+})
+
+describe('readySprintCounts', () => {
+  // One upstream sprint from Mon 2026-01-05 on a 2-week cadence finishes Fri 2026-01-16
+  const upstream = { startDate: '2026-01-05', sprintCadenceWeeks: 2 }
+
+  it('counts the sprints that start on or before the upstream finish', () => {
+    expect(Array.from(readySprintCounts([1, 2], upstream, '2026-01-05', 1))).toEqual([2, 4])
+    expect(Array.from(readySprintCounts([1], upstream, '2026-01-12', 2))).toEqual([1])
+  })
+
+  it('waits nothing for an upstream that finishes before the first forecast sprint', () => {
+    expect(Array.from(readySprintCounts([1], upstream, '2026-01-19', 2))).toEqual([0])
+  })
+})
+
+describe('summarizeDependencyDelay', () => {
+  const plan: DependencyPlan = {
+    upstreams: [upstreamPlan('Auth API', '2026-01-05'), upstreamPlan('Billing', '2026-01-05')],
+    links: [
+      { milestoneIndex: 0, milestoneName: 'Beta', upstreamIndex: 0 },
+      { milestoneIndex: 1, milestoneName: 'GA', upstreamIndex: 1 },
+    ],
+    skipped: [],
+  }
+  // Weekly upstream sprints on the same grid: ready sprints equal upstream sprint counts
+  const gates = buildMilestoneGates(plan, [quad([3, 3, 3, 3, 3]), quad([9, 9, 9, 9, 9])], '2026-01-05', 1)
+
+  it('reports the final milestone with and without waiting and the dependency holding it back', () => {
+    const gated = [quad([4, 4, 5, 5, 5]), quad([10, 11, 11, 12, 12])]
+    const independent = [quad([1, 1, 2, 2, 2]), quad([6, 7, 7, 8, 8])]
+    const delay = summarizeDependencyDelay(plan, gates, gated, independent, '2026-01-05', 1)
+    const forecast = delay.forecasts.lognormal!
+    expect(forecast.sprintsRequired).toBe(12)
+    expect(forecast.independentSprintsRequired).toBe(8)
+    // Auth API ready at 3 before Beta's start at 0; Billing ready at 9 after Beta at 5
+    expect(forecast.linkDelays).toEqual([3, 4])
+    expect(forecast.dominantLink).toBe(1)
+    expect(delay.forecasts.bootstrap).toBeUndefined()
+
+    const text = describeDependencyDelay(delay, 'lognormal')!
+    expect(text).toContain('Waiting on 2 cross-project dependencies adds 4 sprints at P85')
+    expect(text).toContain('mostly Platform — Billing ahead of GA')
+  })
+
+  it('says so when waiting does not move the finish', () => {
+    const same = [quad([4, 4, 5, 5, 5]), quad([10, 10, 10, 10, 10])]
+    const delay = summarizeDependencyDelay(plan, gates, same, same, '2026-01-05', 1)
+    expect(describeDependencyDelay(delay, 'gamma')).toBe(
+      "Waiting on 2 cross-project dependencies doesn't move the P85 finish"
+    )
+    expect(describeDependencyDelay(delay, 'bootstrap')).toBeNull()
+  })
+})
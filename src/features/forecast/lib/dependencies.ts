@@ -0,0 +1,350 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+// Cross-project milestone dependencies.
+//
+// A milestone can wait on another project's milestone: its work can't start until
+// the upstream milestone is done. Each upstream milestone is forecast the way the
+// headless forecastProject() forecasts a project (auto-detected mode, its own start
+// date and cadence), to the upstream project's cumulative scope through that
+// milestone. Every upstream trial's finish date is converted to the number of this
+// project's forecast sprints that start on or before it — the sprints this project
+// must wait — and the milestone simulation draws one such value per trial (see
+// MilestoneGate). Projects are forecast independently, so drawing the upstream
+// trial at random is the same as simulating both projects in one loop.
+//
+// Only direct dependencies are modeled: an upstream milestone's own dependencies
+// don't delay it here.
+
+import type { Milestone, Project, Sprint } from '@/shared/types'
+import { DISTRIBUTION_TYPES, type DistributionType } from '@/shared/types/burn-up'
+import { generateRandomSeed, percentileFromSorted } from '@/shared/lib/math'
+import {
+  calculateSprintStartDate,
+  calculateSprintFinishDate,
+  formatDateLong,
+  type NonWorkingDays,
+  type WorkWeek,
+} from '@/shared/lib/dates'
+import {
+  calculatePercentileResult,
+  type DistributionMap,
+  type MilestoneGate,
+  type QuadSimulationData,
+  type SimulationContext,
+} from './monte-carlo'
+import { resolveProjectSimulation } from './forecast-project'
+import { computeCumulativeScope } from './milestones'
+import { dateToDayNumber } from './forecast-accuracy'
+import { DEFAULT_TRIAL_COUNT, MAX_TRIAL_SPRINTS } from '../constants'
+
+/** Percentile at which the propagated delay and the dominant dependency are reported */
+export const DEPENDENCY_PERCENTILE = 85
+
+export interface DependencyOptions {
+  /** Trials per upstream milestone (default 10,000) */
+  trialCount?: number
+  /** Shared by every upstream run (default random) */
+  seed?: number
+}
+
+/** One upstream milestone resolved and ready to simulate */
+export interface UpstreamMilestonePlan {
+  projectId: string
+  projectName: string
+  milestoneId: string
+  milestoneName: string
+  /** Upstream work remaining through this milestone */
+  remainingBacklog: number
+  /** Upstream first forecast sprint's start date */
+  startDate: string
+  sprintCadenceWeeks: number
+  /** Upstream working calendar, for its finish dates */
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
+  context: SimulationContext
+}
+
+/** A milestone of this project waiting on an upstream milestone */
+export interface DependencyLink {
+  milestoneIndex: number
+  milestoneName: string
+  /** Index into `DependencyPlan.upstreams` */
+  upstreamIndex: number
+}
+
+/** A dependency left out of the forecast, and why */
+export interface SkippedDependency {
+  milestoneName: string
+  reason: string
+}
+
+export interface DependencyPlan {
+  upstreams: UpstreamMilestonePlan[]
+  links: DependencyLink[]
+  skipped: SkippedDependency[]
+}
+
+/** Whether any not-yet-completed milestone waits on another project */
+export function hasMilestoneDependencies(milestones: Milestone[]): boolean {
+  return milestones.some((m) => m.backlogSize > 0 && (m.dependsOn?.length ?? 0) > 0)
+}
+
+/**
+ * Resolve every dependency of `project`'s milestones. Completed milestones don't
+ * wait, and a completed upstream milestone is already satisfied. Dependencies
+ * whose upstream is missing or can't be forecast are listed in `skipped` rather
+ * than failing the forecast. Returns null when no milestone has dependencies.
+ */
+export function buildDependencyPlan(
+  project: Project,
+  projects: Project[],
+  sprints: Sprint[],
+  options: DependencyOptions = {}
+): DependencyPlan | null {
+  const milestones = project.milestones ?? []
+  if (!hasMilestoneDependencies(milestones)) return null
+
+  const trialCount = options.trialCount ?? DEFAULT_TRIAL_COUNT
+  const seed = options.seed ?? generateRandomSeed()
+  const upstreams: UpstreamMilestonePlan[] = []
+  const upstreamIndex = new Map<string, number>()
+  const links: DependencyLink[] = []
+  const skipped: SkippedDependency[] = []
+
+  milestones.forEach((milestone, milestoneIndex) => {
+    if (milestone.backlogSize <= 0) return
+    for (const dep of milestone.dependsOn ?? []) {
+      const skip = (reason: string) => skipped.push({ milestoneName: milestone.name, reason })
+      const upstreamProject = projects.find((p) => p.id === dep.projectId)
+      if (!upstreamProject || upstreamProject.id === project.id) {
+        skip('its upstream project no longer exists.')
+        continue
+      }
+      const upstreamMilestones = upstreamProject.milestones ?? []
+      const idx = upstreamMilestones.findIndex((m) => m.id === dep.milestoneId)
+      if (idx === -1) {
+        skip(`its upstream milestone no longer exists in ${upstreamProject.name}.`)
+        continue
+      }
+      const upstreamMilestone = upstreamMilestones[idx]
+      if (upstreamMilestone.backlogSize <= 0) continue
+
+      const key = `${upstreamProject.id}:${upstreamMilestone.id}`
+      let index = upstreamIndex.get(key)
+      if (index === undefined) {
+        try {
+          const remainingBacklog = computeCumulativeScope(upstreamMilestones)[idx]
+          const resolved = resolveProjectSimulation(upstreamProject, sprints, { remainingBacklog, trialCount, seed })
+          index = upstreams.length
+          upstreams.push({
+            projectId: upstreamProject.id,
+            projectName: upstreamProject.name,
+            milestoneId: upstreamMilestone.id,
+            milestoneName: upstreamMilestone.name,
+            remainingBacklog,
+            startDate: resolved.startDate,
+            sprintCadenceWeeks: resolved.sprintCadenceWeeks,
+            nonWorkingDays: resolved.nonWorkingDays,
+            workWeek: resolved.workWeek,
+            context: resolved.context,
+          })
+          upstreamIndex.set(key, index)
+        } catch (err) {
+          skip(`${upstreamProject.name} can't be forecast. ${err instanceof Error ? err.message : String(err)}`)
+          continue
+        }
+      }
+      links.push({ milestoneIndex, milestoneName: milestone.name, upstreamIndex: index })
+    }
+  })
+
+  return { upstreams, links, skipped }
+}
+
+/** The simulation contexts a plan runs, one per upstream milestone */
+export function dependencyContexts(plan: DependencyPlan): SimulationContext[] {
+  return plan.upstreams.map((upstream) => upstream.context)
+}
+
+/**
+ * Convert sorted upstream sprint counts to sorted wait counts: how many of this
+ * project's forecast sprints (from `startDate`) start on or before the upstream
+ * finish date. Upstream finishes before this project's first forecast sprint
+ * starts wait nothing.
+ */
+export function readySprintCounts(
+  upstreamSprints: ArrayLike<number>,
+  upstream: Pick<UpstreamMilestonePlan, 'startDate' | 'sprintCadenceWeeks' | 'nonWorkingDays' | 'workWeek'>,
+  startDate: string,
+  sprintCadenceWeeks: number
+): Uint16Array {
+  const startDay = dateToDayNumber(startDate)
+  const sprintDays = sprintCadenceWeeks * 7
+  const lookup = new Map<number, number>()
+  const ready = new Uint16Array(upstreamSprints.length)
+  for (let i = 0; i < upstreamSprints.length; i++) {
+    const sprints = upstreamSprints[i]
+    let wait = lookup.get(sprints)
+    if (wait === undefined) {
+      const finalSprintStart = calculateSprintStartDate(upstream.startDate, sprints, upstream.sprintCadenceWeeks)
+      const finishDay = dateToDayNumber(
+        calculateSprintFinishDate(finalSprintStart, upstream.sprintCadenceWeeks, upstream.nonWorkingDays, upstream.workWeek)
+      )
+      wait = finishDay < startDay ? 0 : Math.min(MAX_TRIAL_SPRINTS, Math.floor((finishDay - startDay) / sprintDays) + 1)
+      lookup.set(sprints, wait)
+    }
+    ready[i] = wait
+  }
+  return ready
+}
+
+/**
+ * Milestone gates for the milestone simulation, one per link, from the upstream
+ * runs (one per upstream milestone, in plan order).
+ */
+export function buildMilestoneGates(
+  plan: DependencyPlan,
+  runs: QuadSimulationData[],
+  startDate: string,
+  sprintCadenceWeeks: number
+): MilestoneGate[] {
+  const readyByUpstream = plan.upstreams.map((upstream, i) => {
+    const data = runs[i]
+    const ready = (d: DistributionType) => readySprintCounts(data[d]!, upstream, startDate, sprintCadenceWeeks)
+    const readySprints: DistributionMap<Uint16Array> = {
+      truncatedNormal: ready('truncatedNormal'),
+      lognormal: ready('lognormal'),
+      gamma: ready('gamma'),
+      bootstrap: data.bootstrap ? ready('bootstrap') : null,
+      triangular: ready('triangular'),
+      pert: ready('pert'),
+      uniform: ready('uniform'),
+    }
+    return readySprints
+  })
+  return plan.links.map((link) => ({
+    milestoneIndex: link.milestoneIndex,
+    readySprints: readyByUpstream[link.upstreamIndex],
+  }))
+}
+
+/** One distribution's propagated delay on the final milestone */
+export interface DependencyDelayForecast {
+  /** Final milestone at the reported percentile, waiting on upstream milestones */
+  sprintsRequired: number
+  finishDate: string
+  /** The same forecast if nothing waited */
+  independentSprintsRequired: number
+  independentFinishDate: string
+  /** Sprints each link holds its milestone back at the percentile (aligned with `links`) */
+  linkDelays: number[]
+  /** Index into `links` of the dependency holding work back the most, or null when none does */
+  dominantLink: number | null
+}
+
+export interface DependencyDelayLink extends DependencyLink {
+  upstreamProjectName: string
+  upstreamMilestoneName: string
+}
+
+export interface DependencyDelay {
+  percentile: number
+  links: DependencyDelayLink[]
+  forecasts: Partial<Record<DistributionType, DependencyDelayForecast>>
+  skipped: SkippedDependency[]
+}
+
+export interface DependencyDelayOptions {
+  /** Defaults to DEPENDENCY_PERCENTILE */
+  percentile?: number
+  /** Milestone reached last (see finalMilestoneIndex); defaults to the last one */
+  finalIndex?: number
+  /** Each milestone's predecessor in its work stream (see computeStreamPredecessors); defaults to serial */
+  predecessors?: number[]
+  /** This project's working calendar, for its finish dates */
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
+}
+
+/**
+ * Compare the gated milestone run with an ungated run of the same seed (its own
+ * trials match trial for trial) on the final milestone, and attribute the delay.
+ * A link holds its milestone back by how far its ready sprint at the percentile
+ * lies past the gated forecast of the milestone before it in its work stream; the
+ * dependency holding back the most dominates.
+ */
+export function summarizeDependencyDelay(
+  plan: DependencyPlan,
+  gates: MilestoneGate[],
+  gated: QuadSimulationData[],
+  independent: QuadSimulationData[],
+  startDate: string,
+  sprintCadenceWeeks: number,
+  options: DependencyDelayOptions = {}
+): DependencyDelay {
+  const { percentile = DEPENDENCY_PERCENTILE, finalIndex = gated.length - 1, predecessors, nonWorkingDays, workWeek } = options
+  const links = plan.links.map((link) => ({
+    ...link,
+    upstreamProjectName: plan.upstreams[link.upstreamIndex].projectName,
+    upstreamMilestoneName: plan.upstreams[link.upstreamIndex].milestoneName,
+  }))
+  const forecasts: DependencyDelay['forecasts'] = {}
+
+  if (finalIndex >= 0) {
+    for (const d of DISTRIBUTION_TYPES) {
+      const final = gated[finalIndex][d]
+      const independentFinal = independent[finalIndex]?.[d]
+      if (!final || !independentFinal) continue
+      const withWaits = calculatePercentileResult(final, percentile, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek)
+      const withoutWaits = calculatePercentileResult(
+        independentFinal, percentile, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek
+      )
+      const linkDelays = gates.map((gate) => {
+        const ready = Math.ceil(percentileFromSorted(gate.readySprints[d] ?? gate.readySprints.lognormal, percentile))
+        const pred = predecessors ? predecessors[gate.milestoneIndex] : gate.milestoneIndex - 1
+        const prior = pred < 0 ? 0 : Math.ceil(percentileFromSorted(gated[pred][d]!, percentile))
+        return Math.max(0, ready - prior)
+      })
+      let dominantLink: number | null = null
+      linkDelays.forEach((delay, i) => {
+        if (delay > 0 && (dominantLink === null || delay > linkDelays[dominantLink])) dominantLink = i
+      })
+      forecasts[d] = {
+        sprintsRequired: withWaits.sprintsRequired,
+        finishDate: withWaits.finishDate,
+        independentSprintsRequired: withoutWaits.sprintsRequired,
+        independentFinishDate: withoutWaits.finishDate,
+        linkDelays,
+        dominantLink,
+      }
+    }
+  }
+
+  return { percentile, links, forecasts, skipped: plan.skipped }
+}
+
+/** "Platform — Auth API" */
+export function describeDependencyLink(link: DependencyDelayLink): string {
+  return `${link.upstreamProjectName} — ${link.upstreamMilestoneName}`
+}
+
+/**
+ * One-sentence account of the propagated delay for a distribution, or null when
+ * it wasn't forecast or nothing waited.
+ */
+export function describeDependencyDelay(delay: DependencyDelay, distribution: DistributionType): string | null {
+  const forecast = delay.forecasts[distribution]
+  if (!forecast || delay.links.length === 0) return null
+  const added = forecast.sprintsRequired - forecast.independentSprintsRequired
+  const count = delay.links.length
+  const dependencies = `${count} cross-project ${count === 1 ? 'dependency' : 'dependencies'}`
+  if (added <= 0) {
+    return `Waiting on ${dependencies} doesn't move the P${delay.percentile} finish`
+  }
+  const dominant = forecast.dominantLink !== null ? delay.links[forecast.dominantLink] : null
+  return `Waiting on ${dependencies} adds ${added} sprint${added === 1 ? '' : 's'} at P${delay.percentile} ` +
+    `(${formatDateLong(forecast.independentFinishDate)} → ${formatDateLong(forecast.finishDate)})` +
+    (dominant ? `, mostly ${describeDependencyLink(dominant)} ahead of ${dominant.milestoneName}` : '')
+}
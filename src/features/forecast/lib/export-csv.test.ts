@@ -31,12 +31,14 @@ const baseExportData = {
   gammaResults: makePercentileResults(5),
   bootstrapResults: null,
   triangularResults: makePercentileResults(5),
+  pertResults: makePercentileResults(5),
   uniformResults: makePercentileResults(5),
   truncatedNormalSprintsRequired: [4, 5, 5, 6, 7],
   lognormalSprintsRequired: [4, 5, 5, 6, 7],
   gammaSprintsRequired: [4, 5, 5, 6, 7],
   bootstrapSprintsRequired: null,
   triangularSprintsRequired: [4, 5, 5, 6, 7],
+  pertSprintsRequired: [4, 5, 5, 6, 7],
   uniformSprintsRequired: [4, 5, 5, 6, 7],
 }
 
@@ -60,6 +62,29 @@ describe('generateForecastCsv', () => {
     expect(csv).toContain('Trial Count,5')
   })
 
+  it('includes the random seed when provided and omits it otherwise', () => {
+    expect(generateForecastCsv(baseExportData)).not.toContain('Random Seed')
+    const csv = generateForecastCsv({
+      ...baseExportData,
+      config: { ...baseExportData.config, seed: 987654 },
+    })
+    expect(csv).toContain('Random Seed,987654')
+  })
+
+  it('notes an adaptive trial count and whether it converged', () => {
+    expect(generateForecastCsv(baseExportData)).not.toContain('Trial Count Mode')
+    const converged = generateForecastCsv({
+      ...baseExportData,
+      config: { ...baseExportData.config, adaptiveTrials: { converged: true } },
+    })
+    expect(converged).toContain('Trial Count Mode,Adaptive (P85 converged)')
+    const capped = generateForecastCsv({
+      ...baseExportData,
+      config: { ...baseExportData.config, adaptiveTrials: { converged: false } },
+    })
+    expect(capped).toContain('Trial Count Mode,Adaptive (cap reached)')
+  })
+
   it('shows "None" when no productivity adjustments', () => {
     const csv = generateForecastCsv(baseExportData)
     expect(csv).toContain('None')
@@ -150,8 +175,8 @@ describe('generateForecastCsv', () => {
     const csv = generateForecastCsv(baseExportData)
     const lines = csv.split('\n')
     const percentileHeader = lines.find((l) => l.startsWith('Percentile,'))!
-    // 11 columns: Percentile, T-Normal Sprints/Date, Lognormal Sprints/Date, Gamma Sprints/Date, Triangular Sprints/Date, Uniform Sprints/Date
-    expect(percentileHeader.split(',').length).toBe(11)
+    // 13 columns: Percentile, then Sprints/Date for T-Normal, Lognormal, Gamma, Triangular, PERT, Uniform
+    expect(percentileHeader.split(',').length).toBe(13)
     expect(csv).toContain('Bootstrap Enabled,No')
   })
 
@@ -164,8 +189,8 @@ describe('generateForecastCsv', () => {
     const csv = generateForecastCsv(data)
     const lines = csv.split('\n')
     const percentileHeader = lines.find((l) => l.startsWith('Percentile,'))!
-    // 13 columns: +2 for Bootstrap Sprints and Bootstrap Date
-    expect(percentileHeader.split(',').length).toBe(13)
+    // 15 columns: +2 for Bootstrap Sprints and Bootstrap Date
+    expect(percentileHeader.split(',').length).toBe(15)
     expect(csv).toContain('Bootstrap Enabled,Yes')
   })
 
@@ -244,6 +269,73 @@ describe('generateForecastCsv', () => {
     expect(csv).not.toContain('Volatility Adjustment')
   })
 
+  it('includes velocity autocorrelation only when it was modeled', () => {
+    const csv = generateForecastCsv({
+      ...baseExportData,
+      config: { ...baseExportData.config, autocorrelation: 0.4321 },
+    })
+    expect(csv).toContain('Velocity Autocorrelation (lag-1),0.43')
+    expect(generateForecastCsv(baseExportData)).not.toContain('Velocity Autocorrelation')
+  })
+
+  it('includes capacity parameters in capacity mode', () => {
+    const csv = generateForecastCsv({
+      ...baseExportData,
+      config: {
+        ...baseExportData.config,
+        forecastMode: 'capacity',
+        capacity: { throughputPerPerson: 4.125, nextSprintCapacity: 3.5, coveredSprintCount: 6 },
+      },
+    })
+    expect(csv).toContain('Forecast Mode,capacity')
+    expect(csv).toContain('Throughput per Person,4.13')
+    expect(csv).toContain('Next Sprint Capacity (FTE),3.50')
+    expect(csv).toContain('Roster-Covered Sprints,6')
+    expect(generateForecastCsv(baseExportData)).not.toContain('Throughput per Person')
+  })
+
+  it('includes the count model in throughput mode', () => {
+    const csv = generateForecastCsv({
+      ...baseExportData,
+      config: { ...baseExportData.config, throughputMode: true },
+    })
+    expect(csv).toContain('Throughput Mode,Yes (whole items per sprint)')
+    expect(csv).toContain('Gamma Count Model,Negative binomial') // SD² 25 > mean 20
+    expect(generateForecastCsv(baseExportData)).not.toContain('Throughput Mode')
+  })
+
+  it('includes velocity trend parameters only when a trend was projected', () => {
+    const csv = generateForecastCsv({
+      ...baseExportData,
+      config: {
+        ...baseExportData.config,
+        velocityTrend: { slope: 0.75, startOffset: 2, plateau: 30, floor: 10, rSquared: 0.612 },
+      },
+    })
+    expect(csv).toContain('Velocity Trend (per sprint),0.75')
+    expect(csv).toContain('Velocity Trend R²,0.61')
+    expect(csv).toContain('Velocity Trend Plateau,30.0')
+    expect(csv).toContain('Velocity Trend Floor,10.0')
+    expect(generateForecastCsv(baseExportData)).not.toContain('Velocity Trend')
+  })
+
+  it('records bootstrap weighting when bootstrap ran with a non-uniform weighting', () => {
+    const withBootstrap = {
+      ...baseExportData,
+      bootstrapResults: makePercentileResults(5),
+      bootstrapSprintsRequired: [4, 5, 5, 6, 7],
+    }
+    const csv = generateForecastCsv({
+      ...withBootstrap,
+      config: { ...baseExportData.config, bootstrapWeighting: { mode: 'window', lastN: 8 } },
+    })
+    expect(csv).toContain('Bootstrap Weighting,Last 8 sprints only')
+    expect(generateForecastCsv({
+      ...withBootstrap,
+      config: { ...baseExportData.config, bootstrapWeighting: { mode: 'uniform' } },
+    })).not.toContain('Bootstrap Weighting')
+  })
+
   it('includes per-milestone percentile results when milestoneData provided', () => {
     const data = {
       ...baseExportData,
@@ -265,6 +357,7 @@ describe('generateForecastCsv', () => {
           gamma: [makePercentileResults(3), makePercentileResults(5)],
           bootstrap: null,
           triangular: [makePercentileResults(3), makePercentileResults(5)],
+          pert: [makePercentileResults(3), makePercentileResults(5)],
           uniform: [makePercentileResults(3), makePercentileResults(5)],
         },
       },
@@ -280,6 +373,15 @@ describe('generateForecastCsv', () => {
     expect(milestoneSection).toHaveLength(2)
   })
 
+  it('records the three-point PERT estimate when one was given', () => {
+    expect(generateForecastCsv(baseExportData)).not.toContain('PERT Estimate')
+    const csv = generateForecastCsv({
+      ...baseExportData,
+      config: { ...baseExportData.config, pertEstimate: { lower: 12, mode: 20, upper: 35 } },
+    })
+    expect(csv).toContain('PERT Estimate (min / most likely / max),12 / 20 / 35')
+  })
+
   it('includes scope growth info when provided', () => {
     const data = {
       ...baseExportData,
@@ -292,6 +394,24 @@ describe('generateForecastCsv', () => {
     expect(csv).toContain('Scope Growth Modeling,Yes')
     expect(csv).toContain('Scope Growth Per Sprint,3.5')
   })
+
+  it('reports how scope growth varies per sprint', () => {
+    const fixed = generateForecastCsv({
+      ...baseExportData,
+      config: { ...baseExportData.config, scopeGrowthPerSprint: 3.5 },
+    })
+    expect(fixed).toContain('Scope Growth Variability,Fixed')
+
+    const sampled = generateForecastCsv({
+      ...baseExportData,
+      config: {
+        ...baseExportData.config,
+        scopeGrowthPerSprint: 3.5,
+        scopeGrowthVariability: { mode: 'lognormal' as const, stdDev: 4.25 },
+      },
+    })
+    expect(sampled).toContain('Scope Growth Variability,Lognormal (SD 4.3)')
+  })
 })
 
 // v0.28.3 L4 — CSV formula injection prevention. Cells whose first character
@@ -2,9 +2,12 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { PercentileResults } from './monte-carlo'
+import type { DistributionBounds, PercentileResults, VelocityTrend } from './monte-carlo'
 import type { ProductivityAdjustment, Milestone, ForecastMode } from '@/shared/types'
 import { today } from '@/shared/lib/dates'
+import { describeBootstrapWeighting, type BootstrapWeighting } from './bootstrap-weighting'
+import { describeScopeGrowthVariability, type ScopeGrowthVariability } from './scope-growth'
+import { selectCountModel, COUNT_MODEL_LABELS } from './throughput'
 
 /**
  * Escape a string for CSV: double quotes, collapse newlines, and prefix any
@@ -14,7 +17,7 @@ import { today } from '@/shared/lib/dates'
  * a formula when the exported file is opened in Excel and the macro warning
  * is dismissed.
  */
-function escCsv(s: string): string {
+export function escCsv(s: string): string {
   const cleaned = s.replace(/"/g, '""').replace(/[\r\n]+/g, ' ')
   return /^[=+\-@\t]/.test(cleaned) ? `'${cleaned}` : cleaned
 }
@@ -27,13 +30,23 @@ interface ExportConfig {
   startDate: string
   sprintCadenceWeeks: number
   trialCount: number
+  adaptiveTrials?: { converged: boolean } // trial count was chosen by the convergence pass
+  seed?: number
   productivityAdjustments?: ProductivityAdjustment[]
   milestones?: Milestone[]
   scopeGrowthPerSprint?: number
+  scopeGrowthVariability?: ScopeGrowthVariability // when scope growth was sampled per sprint
+  throughputMode?: boolean // backlog and velocity are whole item counts
   forecastMode?: ForecastMode
   velocityEstimate?: number
   selectedCV?: number
   volatilityMultiplier?: number
+  autocorrelation?: number // lag-1 ρ when velocity autocorrelation was modeled
+  velocityTrend?: VelocityTrend & { rSquared: number } // when a velocity trend was projected
+  bootstrapWeighting?: BootstrapWeighting
+  pertEstimate?: DistributionBounds // user's three-point PERT velocity estimate, when given
+  /** Capacity mode: velocity mean/SD above are per person; sprints scale them by planned FTE */
+  capacity?: { throughputPerPerson: number; nextSprintCapacity: number; coveredSprintCount: number }
 }
 
 interface MilestoneExportData {
@@ -49,13 +62,15 @@ interface ExportData {
   gammaResults: PercentileResults
   bootstrapResults: PercentileResults | null
   triangularResults: PercentileResults
+  pertResults: PercentileResults
   uniformResults: PercentileResults
-  truncatedNormalSprintsRequired: number[]
-  lognormalSprintsRequired: number[]
-  gammaSprintsRequired: number[]
-  bootstrapSprintsRequired: number[] | null
-  triangularSprintsRequired: number[]
-  uniformSprintsRequired: number[]
+  truncatedNormalSprintsRequired: ArrayLike<number>
+  lognormalSprintsRequired: ArrayLike<number>
+  gammaSprintsRequired: ArrayLike<number>
+  bootstrapSprintsRequired: ArrayLike<number> | null
+  triangularSprintsRequired: ArrayLike<number>
+  pertSprintsRequired: ArrayLike<number>
+  uniformSprintsRequired: ArrayLike<number>
   /** Per-milestone results when milestones are defined */
   milestoneData?: {
     milestones: MilestoneExportData[]
@@ -65,6 +80,7 @@ interface ExportData {
       gamma: PercentileResults[]
       bootstrap: PercentileResults[] | null
       triangular: PercentileResults[]
+      pert: PercentileResults[]
       uniform: PercentileResults[]
     }
   }
@@ -76,6 +92,7 @@ interface FrequencyCount {
   gamma: number
   bootstrap: number
   triangular: number
+  pert: number
   uniform: number
 }
 
@@ -83,12 +100,15 @@ interface FrequencyCount {
  * Count occurrences of each sprint value and add to frequency map
  */
 function countDistribution(
-  sprints: number[],
+  sprints: ArrayLike<number>,
   freq: Map<number, FrequencyCount>,
   key: keyof FrequencyCount
 ): void {
-  for (const sprint of sprints) {
-    const existing = freq.get(sprint) || { truncatedNormal: 0, lognormal: 0, gamma: 0, bootstrap: 0, triangular: 0, uniform: 0 }
+  for (let i = 0; i < sprints.length; i++) {
+    const sprint = sprints[i]
+    const existing = freq.get(sprint) || {
+      truncatedNormal: 0, lognormal: 0, gamma: 0, bootstrap: 0, triangular: 0, pert: 0, uniform: 0,
+    }
     existing[key]++
     freq.set(sprint, existing)
   }
@@ -98,12 +118,13 @@ function countDistribution(
  * Build frequency distribution from sorted sprint data
  */
 function buildFrequencyDistribution(
-  truncatedNormalSprints: number[],
-  lognormalSprints: number[],
-  gammaSprints: number[],
-  bootstrapSprints: number[] | null,
-  triangularSprints: number[],
-  uniformSprints: number[]
+  truncatedNormalSprints: ArrayLike<number>,
+  lognormalSprints: ArrayLike<number>,
+  gammaSprints: ArrayLike<number>,
+  bootstrapSprints: ArrayLike<number> | null,
+  triangularSprints: ArrayLike<number>,
+  pertSprints: ArrayLike<number>,
+  uniformSprints: ArrayLike<number>
 ): Map<number, FrequencyCount> {
   const freq = new Map<number, FrequencyCount>()
 
@@ -112,6 +133,7 @@ function buildFrequencyDistribution(
   countDistribution(gammaSprints, freq, 'gamma')
   if (bootstrapSprints) countDistribution(bootstrapSprints, freq, 'bootstrap')
   countDistribution(triangularSprints, freq, 'triangular')
+  countDistribution(pertSprints, freq, 'pert')
   countDistribution(uniformSprints, freq, 'uniform')
 
   return freq
@@ -135,18 +157,50 @@ export function generateForecastCsv(data: ExportData): string {
   lines.push(`Start Date,${data.config.startDate}`)
   lines.push(`Sprint Cadence (weeks),${data.config.sprintCadenceWeeks}`)
   lines.push(`Trial Count,${totalTrials}`)
+  if (data.config.adaptiveTrials) {
+    lines.push(`Trial Count Mode,${data.config.adaptiveTrials.converged ? 'Adaptive (P85 converged)' : 'Adaptive (cap reached)'}`)
+  }
+  if (data.config.seed !== undefined) lines.push(`Random Seed,${data.config.seed}`)
   lines.push(`Forecast Mode,${data.config.forecastMode ?? 'history'}`)
   if (data.config.forecastMode === 'subjective') {
     if (data.config.velocityEstimate !== undefined) lines.push(`Velocity Estimate,${data.config.velocityEstimate}`)
     if (data.config.selectedCV !== undefined) lines.push(`Selected CV,${data.config.selectedCV}`)
   }
+  if (data.config.capacity) {
+    const c = data.config.capacity
+    lines.push(`Throughput per Person,${c.throughputPerPerson.toFixed(2)}`)
+    lines.push(`Next Sprint Capacity (FTE),${c.nextSprintCapacity.toFixed(2)}`)
+    lines.push(`Roster-Covered Sprints,${c.coveredSprintCount}`)
+  }
+  if (data.config.throughputMode) {
+    const model = selectCountModel(data.config.velocityMean, data.config.velocityStdDev)
+    lines.push('Throughput Mode,Yes (whole items per sprint)')
+    lines.push(`Gamma Count Model,${COUNT_MODEL_LABELS[model]}`)
+  }
   if (data.config.volatilityMultiplier !== undefined && data.config.volatilityMultiplier !== 1.0) {
     lines.push(`Volatility Adjustment,${data.config.volatilityMultiplier}x`)
   }
+  if (data.config.autocorrelation !== undefined) {
+    lines.push(`Velocity Autocorrelation (lag-1),${data.config.autocorrelation.toFixed(2)}`)
+  }
+  if (data.config.velocityTrend) {
+    const t = data.config.velocityTrend
+    lines.push(`Velocity Trend (per sprint),${t.slope.toFixed(2)}`)
+    lines.push(`Velocity Trend R²,${t.rSquared.toFixed(2)}`)
+    lines.push(`Velocity Trend Plateau,${t.plateau.toFixed(1)}`)
+    lines.push(`Velocity Trend Floor,${t.floor.toFixed(1)}`)
+  }
+  if (data.config.pertEstimate) {
+    const { lower, mode, upper } = data.config.pertEstimate
+    lines.push(`PERT Estimate (min / most likely / max),${lower} / ${mode} / ${upper}`)
+  }
   lines.push(`Bootstrap Enabled,${hasBootstrap ? 'Yes' : 'No'}`)
+  const weightingLabel = hasBootstrap ? describeBootstrapWeighting(data.config.bootstrapWeighting) : null
+  if (weightingLabel) lines.push(`Bootstrap Weighting,${weightingLabel}`)
   lines.push(`Scope Growth Modeling,${data.config.scopeGrowthPerSprint !== undefined ? 'Yes' : 'No'}`)
   if (data.config.scopeGrowthPerSprint !== undefined) {
     lines.push(`Scope Growth Per Sprint,${data.config.scopeGrowthPerSprint}`)
+    lines.push(`Scope Growth Variability,${describeScopeGrowthVariability(data.config.scopeGrowthVariability)}`)
   }
   lines.push('')
 
@@ -182,7 +236,7 @@ export function generateForecastCsv(data: ExportData): string {
   lines.push('PERCENTILE RESULTS')
   let percentileHeader = 'Percentile,T-Normal Sprints,T-Normal Finish Date,Lognormal Sprints,Lognormal Finish Date,Gamma Sprints,Gamma Finish Date'
   if (hasBootstrap) percentileHeader += ',Bootstrap Sprints,Bootstrap Finish Date'
-  percentileHeader += ',Triangular Sprints,Triangular Finish Date,Uniform Sprints,Uniform Finish Date'
+  percentileHeader += ',Triangular Sprints,Triangular Finish Date,PERT Sprints,PERT Finish Date,Uniform Sprints,Uniform Finish Date'
   lines.push(percentileHeader)
 
   const percentiles = [
@@ -198,13 +252,15 @@ export function generateForecastCsv(data: ExportData): string {
     const lognormal = data.lognormalResults[p.key]
     const gamma = data.gammaResults[p.key]
     const triangular = data.triangularResults[p.key]
+    const pert = data.pertResults[p.key]
     const uniform = data.uniformResults[p.key]
     let line = `P${p.label},${truncatedNormal.sprintsRequired},${truncatedNormal.finishDate},${lognormal.sprintsRequired},${lognormal.finishDate},${gamma.sprintsRequired},${gamma.finishDate}`
     if (hasBootstrap && data.bootstrapResults) {
       const bootstrap = data.bootstrapResults[p.key]
       line += `,${bootstrap.sprintsRequired},${bootstrap.finishDate}`
     }
-    line += `,${triangular.sprintsRequired},${triangular.finishDate},${uniform.sprintsRequired},${uniform.finishDate}`
+    line += `,${triangular.sprintsRequired},${triangular.finishDate},${pert.sprintsRequired},${pert.finishDate}`
+    line += `,${uniform.sprintsRequired},${uniform.finishDate}`
     lines.push(line)
   }
   lines.push('')
@@ -223,6 +279,7 @@ export function generateForecastCsv(data: ExportData): string {
       const gaResults = data.milestoneData.distributions.gamma[mi]
       const bsResults = data.milestoneData.distributions.bootstrap?.[mi] ?? null
       const triResults = data.milestoneData.distributions.triangular[mi]
+      const pertResults = data.milestoneData.distributions.pert[mi]
       const uniResults = data.milestoneData.distributions.uniform[mi]
 
       for (const p of percentiles) {
@@ -230,13 +287,15 @@ export function generateForecastCsv(data: ExportData): string {
         const ln = lnResults[p.key]
         const ga = gaResults[p.key]
         const tri = triResults[p.key]
+        const pert = pertResults[p.key]
         const uni = uniResults[p.key]
         let line = `P${p.label},${tn.sprintsRequired},${tn.finishDate},${ln.sprintsRequired},${ln.finishDate},${ga.sprintsRequired},${ga.finishDate}`
         if (hasBootstrap && bsResults) {
           const bs = bsResults[p.key]
           line += `,${bs.sprintsRequired},${bs.finishDate}`
         }
-        line += `,${tri.sprintsRequired},${tri.finishDate},${uni.sprintsRequired},${uni.finishDate}`
+        line += `,${tri.sprintsRequired},${tri.finishDate},${pert.sprintsRequired},${pert.finishDate}`
+        line += `,${uni.sprintsRequired},${uni.finishDate}`
         lines.push(line)
       }
       lines.push('')
@@ -247,7 +306,8 @@ export function generateForecastCsv(data: ExportData): string {
   lines.push('FREQUENCY DISTRIBUTION')
   let freqHeader = 'Sprints,T-Normal Count,T-Normal %,T-Normal Cumul %,Lognormal Count,Lognormal %,Lognormal Cumul %,Gamma Count,Gamma %,Gamma Cumul %'
   if (hasBootstrap) freqHeader += ',Bootstrap Count,Bootstrap %,Bootstrap Cumul %'
-  freqHeader += ',Triangular Count,Triangular %,Triangular Cumul %,Uniform Count,Uniform %,Uniform Cumul %'
+  freqHeader += ',Triangular Count,Triangular %,Triangular Cumul %,PERT Count,PERT %,PERT Cumul %'
+  freqHeader += ',Uniform Count,Uniform %,Uniform Cumul %'
   lines.push(freqHeader)
 
   const freq = buildFrequencyDistribution(
@@ -256,6 +316,7 @@ export function generateForecastCsv(data: ExportData): string {
     data.gammaSprintsRequired,
     data.bootstrapSprintsRequired,
     data.triangularSprintsRequired,
+    data.pertSprintsRequired,
     data.uniformSprintsRequired
   )
 
@@ -267,6 +328,7 @@ export function generateForecastCsv(data: ExportData): string {
   let gammaCumulative = 0
   let bootstrapCumulative = 0
   let triangularCumulative = 0
+  let pertCumulative = 0
   let uniformCumulative = 0
 
   for (const sprints of sortedSprints) {
@@ -275,11 +337,13 @@ export function generateForecastCsv(data: ExportData): string {
     const lognormalPct = (counts.lognormal / totalTrials) * 100
     const gammaPct = (counts.gamma / totalTrials) * 100
     const triangularPct = (counts.triangular / totalTrials) * 100
+    const pertPct = (counts.pert / totalTrials) * 100
     const uniformPct = (counts.uniform / totalTrials) * 100
     truncatedNormalCumulative += truncatedNormalPct
     lognormalCumulative += lognormalPct
     gammaCumulative += gammaPct
     triangularCumulative += triangularPct
+    pertCumulative += pertPct
     uniformCumulative += uniformPct
 
     let line = `${sprints},${counts.truncatedNormal},${truncatedNormalPct.toFixed(2)}%,${truncatedNormalCumulative.toFixed(2)}%,${counts.lognormal},${lognormalPct.toFixed(2)}%,${lognormalCumulative.toFixed(2)}%,${counts.gamma},${gammaPct.toFixed(2)}%,${gammaCumulative.toFixed(2)}%`
@@ -290,7 +354,9 @@ export function generateForecastCsv(data: ExportData): string {
       line += `,${counts.bootstrap},${bootstrapPct.toFixed(2)}%,${bootstrapCumulative.toFixed(2)}%`
     }
 
-    line += `,${counts.triangular},${triangularPct.toFixed(2)}%,${triangularCumulative.toFixed(2)}%,${counts.uniform},${uniformPct.toFixed(2)}%,${uniformCumulative.toFixed(2)}%`
+    line += `,${counts.triangular},${triangularPct.toFixed(2)}%,${triangularCumulative.toFixed(2)}%`
+    line += `,${counts.pert},${pertPct.toFixed(2)}%,${pertCumulative.toFixed(2)}%`
+    line += `,${counts.uniform},${uniformPct.toFixed(2)}%,${uniformCumulative.toFixed(2)}%`
 
     lines.push(line)
   }
@@ -300,7 +366,7 @@ export function generateForecastCsv(data: ExportData): string {
   lines.push('RAW TRIAL DATA (sorted)')
   let rawHeader = 'Trial,T-Normal Sprints,Lognormal Sprints,Gamma Sprints'
   if (hasBootstrap) rawHeader += ',Bootstrap Sprints'
-  rawHeader += ',Triangular Sprints,Uniform Sprints'
+  rawHeader += ',Triangular Sprints,PERT Sprints,Uniform Sprints'
   lines.push(rawHeader)
 
   for (let i = 0; i < totalTrials; i++) {
@@ -308,7 +374,7 @@ export function generateForecastCsv(data: ExportData): string {
     if (hasBootstrap && data.bootstrapSprintsRequired) {
       line += `,${data.bootstrapSprintsRequired[i]}`
     }
-    line += `,${data.triangularSprintsRequired[i]},${data.uniformSprintsRequired[i]}`
+    line += `,${data.triangularSprintsRequired[i]},${data.pertSprintsRequired[i]},${data.uniformSprintsRequired[i]}`
     lines.push(line)
   }
 
@@ -0,0 +1,191 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import {
+  snapshotFinishDates,
+  buildForecastSnapshot,
+  findActualCompletion,
+  snapshotDistributions,
+  dateToDayNumber,
+  dayNumberToDate,
+  snapshotMilestoneNames,
+  buildSlipChartData,
+  scoreCalibration,
+} from './forecast-accuracy'
+import { calculatePercentileResult, type QuadSimulationData } from './monte-carlo'
+import type { ForecastSnapshot, ForecastSnapshotInputs, Sprint } from '@/shared/types'
+
+const TIMESTAMP = '2026-01-01T00:00:00Z'
+
+const INPUTS: ForecastSnapshotInputs = {
+  forecastMode: 'history',
+  remainingBacklog: 120,
+  velocityMean: 20,
+  velocityStdDev: 4,
+  startDate: '2026-03-02',
+  sprintCadenceWeeks: 2,
+  trialCount: 4,
+  seed: 7,
+  adjustmentNames: ['Holidays'],
+}
+
+function quad(values: number[], bootstrap = false): QuadSimulationData {
+  const sorted = Uint16Array.from(values).sort()
+  return {
+    truncatedNormal: sorted, lognormal: sorted, gamma: sorted, bootstrap: bootstrap ? sorted : null,
+    triangular: sorted, pert: sorted, uniform: sorted,
+  }
+}
+
+function makeSnapshot(
+  id: string,
+  snapshotDate: string,
+  lognormal: [string, string, string],
+  overrides: Partial<ForecastSnapshot> = {}
+): ForecastSnapshot {
+  const [p50, p85, p95] = lognormal
+  return {
+    id, snapshotDate, completedSprintCount: 4, inputs: INPUTS,
+    finishDates: { lognormal: { p50, p85, p95 } },
+    createdAt: TIMESTAMP, updatedAt: TIMESTAMP,
+    ...overrides,
+  }
+}
+
+function makeSprint(sprintNumber: number, backlogAtSprintEnd?: number): Sprint {
+  return {
+    id: `s${sprintNumber}`, projectId: 'p1', sprintNumber,
+    sprintStartDate: '', sprintFinishDate: '', doneValue: 10, backlogAtSprintEnd,
+    includedInForecast: true, createdAt: TIMESTAMP, updatedAt: TIMESTAMP,
+  }
+}
+
+describe('snapshotFinishDates', () => {
+  it('records P50/P85/P95 for the distributions the mode shows', () => {
+    const data = quad([4, 5, 5, 6, 6, 6, 7, 8])
+    const dates = snapshotFinishDates(data, INPUTS)
+    expect(Object.keys(dates)).not.toContain('uniform')
+    expect(Object.keys(dates)).not.toContain('bootstrap')
+    expect(dates.lognormal).toEqual({
+      p50: calculatePercentileResult(data.lognormal, 50, INPUTS.startDate, 2).finishDate,
+      p85: calculatePercentileResult(data.lognormal, 85, INPUTS.startDate, 2).finishDate,
+      p95: calculatePercentileResult(data.lognormal, 95, INPUTS.startDate, 2).finishDate,
+    })
+  })
+})
+
+describe('buildForecastSnapshot', () => {
+  it('freezes the run with milestone forecasts and a trimmed note', () => {
+    const snapshot = buildForecastSnapshot({
+      snapshotDate: '2026-02-27',
+      completedSprintCount: 6,
+      note: '  Steering committee  ',
+      inputs: INPUTS,
+      overallData: quad([6, 7, 8], true),
+      milestones: [{ name: 'MVP', cumulativeBacklog: 60, data: quad([3, 4, 4]) }],
+    })
+    expect(snapshot.note).toBe('Steering committee')
+    expect(snapshot.finishDates.bootstrap).toBeDefined()
+    expect(snapshot.milestones).toHaveLength(1)
+    expect(snapshot.milestones![0].finishDates.lognormal?.p50).toBe(
+      calculatePercentileResult(Uint16Array.from([3, 4, 4]), 50, INPUTS.startDate, 2).finishDate
+    )
+  })
+
+  it('omits an empty note and milestone list', () => {
+    const snapshot = buildForecastSnapshot({
+      snapshotDate: '2026-02-27', completedSprintCount: 6, note: ' ', inputs: INPUTS, overallData: quad([6]), milestones: [],
+    })
+    expect(snapshot).not.toHaveProperty('note')
+    expect(snapshot).not.toHaveProperty('milestones')
+  })
+})
+
+describe('findActualCompletion', () => {
+  it('finds the first sprint that burned the backlog to zero', () => {
+    const sprints = [makeSprint(3, 0), makeSprint(1, 40), makeSprint(2, 10), makeSprint(4, 0)]
+    expect(findActualCompletion(sprints, '2026-01-05', 2)).toEqual({ sprintNumber: 3, finishDate: '2026-02-13' })
+  })
+
+  it('is null while work remains or without a configured cadence', () => {
+    expect(findActualCompletion([makeSprint(1, 40), makeSprint(2)], '2026-01-05', 2)).toBeNull()
+    expect(findActualCompletion([makeSprint(1, 0)], undefined, 2)).toBeNull()
+  })
+})
+
+describe('dateToDayNumber / dayNumberToDate', () => {
+  it('round-trips a date', () => {
+    expect(dayNumberToDate(dateToDayNumber('2026-03-29'))).toBe('2026-03-29')
+    expect(dateToDayNumber('2026-03-30') - dateToDayNumber('2026-03-29')).toBe(1)
+  })
+})
+
+describe('snapshotDistributions', () => {
+  it('lists every recorded distribution in display order', () => {
+    const snapshots = [
+      makeSnapshot('a', '2026-02-01', ['2026-06-01', '2026-06-15', '2026-06-29']),
+      makeSnapshot('b', '2026-02-15', ['2026-06-01', '2026-06-15', '2026-06-29'], {
+        finishDates: { gamma: { p50: '2026-06-01', p85: '2026-06-15', p95: '2026-06-29' } },
+      }),
+    ]
+    expect(snapshotDistributions(snapshots)).toEqual(['lognormal', 'gamma'])
+    expect(snapshotDistributions(snapshots, ['gamma'])).toEqual(['gamma'])
+  })
+})
+
+describe('buildSlipChartData', () => {
+  it('orders snapshots by date and measures P85 slip', () => {
+    const points = buildSlipChartData([
+      makeSnapshot('later', '2026-02-15', ['2026-06-05', '2026-06-26', '2026-07-10']),
+      makeSnapshot('first', '2026-02-01', ['2026-06-01', '2026-06-12', '2026-06-26']),
+    ], 'lognormal')
+    expect(points.map((p) => p.snapshotId)).toEqual(['first', 'later'])
+    expect(points[0].p85SlipDays).toBeNull()
+    expect(points[1].p85SlipDays).toBe(14)
+    expect(points[1].p50).toBe(dateToDayNumber('2026-06-05'))
+  })
+
+  it('follows a milestone across snapshots', () => {
+    const mvp = (p85: string) => ({
+      name: 'MVP', cumulativeBacklog: 60, finishDates: { lognormal: { p50: '2026-05-01', p85, p95: '2026-06-01' } },
+    })
+    const snapshots = [
+      makeSnapshot('a', '2026-02-01', ['2026-06-01', '2026-06-12', '2026-06-26'], { milestones: [mvp('2026-05-15')] }),
+      makeSnapshot('b', '2026-02-15', ['2026-06-01', '2026-06-12', '2026-06-26']),
+      makeSnapshot('c', '2026-03-01', ['2026-06-01', '2026-06-12', '2026-06-26'], { milestones: [mvp('2026-05-22')] }),
+    ]
+    expect(snapshotMilestoneNames(snapshots)).toEqual(['MVP'])
+    const points = buildSlipChartData(snapshots, 'lognormal', 'MVP')
+    expect(points.map((p) => p.p85)).toEqual([dateToDayNumber('2026-05-15'), null, dateToDayNumber('2026-05-22')])
+    expect(points[2].p85SlipDays).toBeNull()
+  })
+
+  it('leaves gaps where a snapshot lacks the distribution', () => {
+    const [point] = buildSlipChartData([makeSnapshot('a', '2026-02-01', ['2026-06-01', '2026-06-12', '2026-06-26'])], 'gamma')
+    expect(point).toMatchObject({ p50: null, p85: null, p95: null })
+  })
+})
+
+describe('scoreCalibration', () => {
+  const snapshots = [
+    makeSnapshot('a', '2026-02-01', ['2026-05-29', '2026-06-12', '2026-06-26']),
+    makeSnapshot('b', '2026-03-01', ['2026-06-12', '2026-06-26', '2026-07-10']),
+    makeSnapshot('c', '2026-04-01', ['2026-06-26', '2026-07-10', '2026-07-24']),
+    // Taken after the finish — not a forecast
+    makeSnapshot('d', '2026-07-01', ['2026-05-01', '2026-05-01', '2026-05-01']),
+  ]
+
+  it('scores how often the actual finish fell on or before each percentile', () => {
+    const [row] = scoreCalibration(snapshots, '2026-06-26', ['lognormal'])
+    expect(row.snapshotCount).toBe(3)
+    expect(row.hitRates.p50).toBeCloseTo(1 / 3)
+    expect(row.hitRates.p85).toBeCloseTo(2 / 3)
+    expect(row.hitRates.p95).toBe(1)
+  })
+
+  it('skips distributions no scored snapshot recorded', () => {
+    expect(scoreCalibration(snapshots, '2026-06-26', ['gamma'])).toEqual([])
+  })
+})
@@ -0,0 +1,239 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+// Forecast snapshots and "forecast vs. actual" accuracy.
+//
+// A snapshot freezes a published forecast with the project: its inputs and the
+// P50/P85/P95 finish dates per distribution, for the whole backlog and each
+// milestone. Snapshots taken sprint over sprint show how the forecast drifted
+// (the slip chart); once the project finishes they score calibration — how often
+// the actual finish fell on or before each percentile's date. A well-calibrated
+// forecast lands under its P85 about 85% of the time.
+
+import type {
+  ForecastSnapshot,
+  ForecastSnapshotInputs,
+  SnapshotFinishDates,
+  Sprint,
+} from '@/shared/types'
+import { DISTRIBUTION_TYPES } from '@/shared/types/burn-up'
+import { addDays, resolveAllSprintDates, type CadenceChanges, type NonWorkingDays, type WorkWeek } from '@/shared/lib/dates'
+import { getVisibleDistributions, type DistributionType } from '../types'
+import { calculatePercentileResult, type QuadSimulationData } from './monte-carlo'
+
+/** Percentiles a snapshot records, as `SnapshotFinishDates` keys */
+export const SNAPSHOT_PERCENTILES = [50, 85, 95] as const
+
+export type SnapshotPercentileKey = keyof SnapshotFinishDates
+
+/** What a snapshot records, without its identity */
+export type ForecastSnapshotData = Omit<ForecastSnapshot, 'id' | 'createdAt' | 'updatedAt'>
+
+/** A finished forecast run, as the Forecast tab holds it */
+export interface SnapshotSource {
+  snapshotDate: string
+  completedSprintCount: number
+  note?: string
+  inputs: ForecastSnapshotInputs
+  /** Sorted sprints-to-finish for the whole remaining backlog */
+  overallData: QuadSimulationData
+  /** Per-milestone sprints-to-finish, first ships first (milestone forecasts only) */
+  milestones?: { name: string; cumulativeBacklog: number; data: QuadSimulationData }[]
+  /** The project's holidays and work week, which finish dates step back from */
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
+}
+
+/** P50/P85/P95 finish dates for each distribution the forecast mode shows */
+export function snapshotFinishDates(
+  data: QuadSimulationData,
+  inputs: Pick<ForecastSnapshotInputs, 'forecastMode' | 'startDate' | 'sprintCadenceWeeks'>,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+): Partial<Record<DistributionType, SnapshotFinishDates>> {
+  const out: Partial<Record<DistributionType, SnapshotFinishDates>> = {}
+  for (const d of getVisibleDistributions(inputs.forecastMode, data.bootstrap !== null)) {
+    const sorted = data[d]
+    if (!sorted || sorted.length === 0) continue
+    const [p50, p85, p95] = SNAPSHOT_PERCENTILES.map(
+      (p) => calculatePercentileResult(sorted, p, inputs.startDate, inputs.sprintCadenceWeeks, nonWorkingDays, workWeek).finishDate
+    )
+    out[d] = { p50, p85, p95 }
+  }
+  return out
+}
+
+/** Freeze a forecast run as snapshot data */
+export function buildForecastSnapshot(source: SnapshotSource): ForecastSnapshotData {
+  const note = source.note?.trim()
+  return {
+    snapshotDate: source.snapshotDate,
+    completedSprintCount: source.completedSprintCount,
+    ...(note ? { note } : {}),
+    inputs: { ...source.inputs, adjustmentNames: [...source.inputs.adjustmentNames] },
+    finishDates: snapshotFinishDates(source.overallData, source.inputs, source.nonWorkingDays, source.workWeek),
+    ...(source.milestones && source.milestones.length > 0
+      ? {
+          milestones: source.milestones.map((m) => ({
+            name: m.name,
+            cumulativeBacklog: m.cumulativeBacklog,
+            finishDates: snapshotFinishDates(m.data, source.inputs, source.nonWorkingDays, source.workWeek),
+          })),
+        }
+      : {}),
+  }
+}
+
+/** When the project actually finished */
+export interface ActualCompletion {
+  sprintNumber: number
+  finishDate: string
+}
+
+/**
+ * The project's actual completion: the first sprint whose recorded backlog at
+ * sprint end reached zero. Null while work remains (or the backlog isn't tracked).
+ */
+export function findActualCompletion(
+  sprints: Sprint[],
+  firstSprintStartDate: string | undefined,
+  sprintCadenceWeeks: number | undefined,
+  cadenceChanges?: CadenceChanges,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+): ActualCompletion | null {
+  if (!firstSprintStartDate || !sprintCadenceWeeks) return null
+  const done = [...sprints]
+    .sort((a, b) => a.sprintNumber - b.sprintNumber)
+    .find((s) => s.backlogAtSprintEnd !== undefined && s.backlogAtSprintEnd <= 0)
+  if (!done) return null
+  const resolved = resolveAllSprintDates(
+    firstSprintStartDate, sprintCadenceWeeks, sprints, nonWorkingDays, workWeek, cadenceChanges
+  )
+  const finishDate = resolved.get(done.sprintNumber)?.finishDate ?? done.sprintFinishDate
+  return { sprintNumber: done.sprintNumber, finishDate }
+}
+
+/** Snapshots oldest first (by date taken, then creation) */
+export function sortSnapshots(snapshots: readonly ForecastSnapshot[]): ForecastSnapshot[] {
+  return [...snapshots].sort(
+    (a, b) => a.snapshotDate.localeCompare(b.snapshotDate) || a.createdAt.localeCompare(b.createdAt)
+  )
+}
+
+/** Distributions recorded by any snapshot (in display order) */
+export function snapshotDistributions(
+  snapshots: readonly ForecastSnapshot[],
+  enabledDistributions?: readonly DistributionType[]
+): DistributionType[] {
+  return DISTRIBUTION_TYPES.filter(
+    (d) =>
+      (!enabledDistributions || enabledDistributions.includes(d)) &&
+      snapshots.some((s) => s.finishDates[d] !== undefined)
+  )
+}
+
+const EPOCH = '1970-01-01'
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/** Days since 1970-01-01 — a numeric axis for dates */
+export function dateToDayNumber(dateStr: string): number {
+  return Math.round(new Date(dateStr + 'T00:00:00Z').getTime() / MS_PER_DAY)
+}
+
+/** Inverse of `dateToDayNumber` */
+export function dayNumberToDate(dayNumber: number): string {
+  return addDays(EPOCH, dayNumber)
+}
+
+/**
+ * Slip chart point: one snapshot's forecast finish dates as day numbers, plus
+ * how far its P85 moved since the previous snapshot (null for the first, or
+ * when either lacks the distribution)
+ */
+export interface SlipChartPoint {
+  snapshotId: string
+  snapshotDate: string
+  p50: number | null
+  p85: number | null
+  p95: number | null
+  p85SlipDays: number | null
+}
+
+/** Milestone names forecast by any snapshot, in the order they were first seen */
+export function snapshotMilestoneNames(snapshots: readonly ForecastSnapshot[]): string[] {
+  const names = new Set<string>()
+  for (const snapshot of sortSnapshots(snapshots)) {
+    for (const m of snapshot.milestones ?? []) names.add(m.name)
+  }
+  return [...names]
+}
+
+/**
+ * Forecast drift for one distribution, oldest snapshot first. `milestone` names
+ * a milestone to follow instead of the whole backlog; snapshots that didn't
+ * forecast it leave gaps.
+ */
+export function buildSlipChartData(
+  snapshots: readonly ForecastSnapshot[],
+  distribution: DistributionType,
+  milestone: string | null = null
+): SlipChartPoint[] {
+  let previousP85: number | null = null
+  return sortSnapshots(snapshots).map((snapshot) => {
+    const finishDates = milestone === null
+      ? snapshot.finishDates
+      : snapshot.milestones?.find((m) => m.name === milestone)?.finishDates
+    const dates = finishDates?.[distribution]
+    const p85 = dates ? dateToDayNumber(dates.p85) : null
+    const point: SlipChartPoint = {
+      snapshotId: snapshot.id,
+      snapshotDate: snapshot.snapshotDate,
+      p50: dates ? dateToDayNumber(dates.p50) : null,
+      p85,
+      p95: dates ? dateToDayNumber(dates.p95) : null,
+      p85SlipDays: p85 !== null && previousP85 !== null ? p85 - previousP85 : null,
+    }
+    previousP85 = p85
+    return point
+  })
+}
+
+/** Calibration of one distribution: snapshots scored and the share that held */
+export interface CalibrationRow {
+  distribution: DistributionType
+  /** Snapshots taken on or before the actual finish that record this distribution */
+  snapshotCount: number
+  /** Share (0-1) of those whose forecast date was on or after the actual finish */
+  hitRates: Record<SnapshotPercentileKey, number>
+}
+
+/**
+ * Score each distribution's snapshots against the actual finish. Snapshots taken
+ * after the project finished aren't forecasts, so they don't count; distributions
+ * no scored snapshot recorded are left out.
+ */
+export function scoreCalibration(
+  snapshots: readonly ForecastSnapshot[],
+  actualFinishDate: string,
+  distributions: readonly DistributionType[]
+): CalibrationRow[] {
+  const scored = snapshots.filter((s) => s.snapshotDate <= actualFinishDate)
+  const rows: CalibrationRow[] = []
+  for (const distribution of distributions) {
+    const forecasts = scored.flatMap((s) => {
+      const dates = s.finishDates[distribution]
+      return dates ? [dates] : []
+    })
+    if (forecasts.length === 0) continue
+    const hitRate = (key: SnapshotPercentileKey) =>
+      forecasts.filter((dates) => actualFinishDate <= dates[key]).length / forecasts.length
+    rows.push({
+      distribution,
+      snapshotCount: forecasts.length,
+      hitRates: { p50: hitRate('p50'), p85: hitRate('p85'), p95: hitRate('p95') },
+    })
+  }
+  return rows
+}
@@ -0,0 +1,66 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import { resolveForecastMode, resolveEffectiveVelocity, type VelocityInputs } from './forecast-inputs'
+import type { CapacityBaseline } from './capacity'
+
+const stats = { count: 6, mean: 20, standardDeviation: 4 }
+
+const blankInputs: VelocityInputs = {
+  velocityMean: '',
+  velocityStdDev: '',
+  velocityEstimate: '',
+  selectedCV: 0.35,
+  volatilityMultiplier: 1,
+}
+
+const baseline: CapacityBaseline = {
+  stats: { count: 4, mean: 5, standardDeviation: 1 },
+  perPersonVelocities: [4, 5, 6, 5],
+  averageCapacity: 4,
+  uncoveredSprintCount: 0,
+}
+
+describe('resolveForecastMode', () => {
+  it('auto-detects history with enough included sprints, else subjective', () => {
+    expect(resolveForecastMode(undefined, 5, false)).toBe('history')
+    expect(resolveForecastMode(undefined, 4, false)).toBe('subjective')
+  })
+
+  it('keeps a stored mode', () => {
+    expect(resolveForecastMode('subjective', 10, false)).toBe('subjective')
+    expect(resolveForecastMode('capacity', 10, true)).toBe('capacity')
+  })
+
+  it('falls back to auto-detect for capacity mode without a roster baseline', () => {
+    expect(resolveForecastMode('capacity', 10, false)).toBe('history')
+  })
+})
+
+describe('resolveEffectiveVelocity', () => {
+  it('uses calculated stats in history mode, scaled by the volatility multiplier', () => {
+    expect(resolveEffectiveVelocity('history', stats, blankInputs, null)).toEqual({ mean: 20, stdDev: 4 })
+    expect(
+      resolveEffectiveVelocity('history', stats, { ...blankInputs, volatilityMultiplier: 1.5 }, null)
+    ).toEqual({ mean: 20, stdDev: 6 })
+  })
+
+  it('applies manual overrides', () => {
+    const inputs = { ...blankInputs, velocityMean: '30', velocityStdDev: '2' }
+    expect(resolveEffectiveVelocity('history', stats, inputs, null)).toEqual({ mean: 30, stdDev: 2 })
+  })
+
+  it('derives subjective velocity from the estimate and CV, falling back to the calculated mean', () => {
+    const inputs = { ...blankInputs, velocityEstimate: '10', selectedCV: 0.2 }
+    expect(resolveEffectiveVelocity('subjective', stats, inputs, null)).toEqual({ mean: 10, stdDev: 2 })
+    expect(resolveEffectiveVelocity('subjective', stats, { ...blankInputs, selectedCV: 0.5 }, null))
+      .toEqual({ mean: 20, stdDev: 10 })
+  })
+
+  it('uses per-person throughput in capacity mode, ignoring overrides', () => {
+    const inputs = { ...blankInputs, velocityMean: '30' }
+    expect(resolveEffectiveVelocity('capacity', stats, inputs, baseline)).toEqual({ mean: 5, stdDev: 1 })
+  })
+})
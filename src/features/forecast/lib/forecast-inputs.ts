@@ -0,0 +1,96 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Pure resolution of forecast form inputs (backlog, mode, effective velocity).
+ *
+ * Shared by useForecastInputs and the headless forecastProject() API so the app
+ * and scripted forecasts read the same project data the same way.
+ */
+
+import type { VelocityStats, ForecastMode, Sprint } from '@/shared/types'
+import type { CapacityBaseline } from './capacity'
+import { MIN_SPRINTS_FOR_HISTORY } from '../constants'
+
+/**
+ * Find the most recent defined backlog-at-end value from the given sprint list.
+ * Walks back from the highest sprintNumber so sprints without a recorded backlog
+ * are skipped. Returns undefined when no sprint in the list has a backlog value.
+ *
+ * The caller is responsible for pre-filtering to the relevant scope (e.g., the
+ * included-in-forecast subset), since this function picks from whatever it's given.
+ */
+export function getLastSprintBacklog(sprints: Sprint[]): number | undefined {
+  if (sprints.length === 0) return undefined
+  const descending = [...sprints].sort((a, b) => b.sprintNumber - a.sprintNumber)
+  for (const s of descending) {
+    if (s.backlogAtSprintEnd !== undefined) return s.backlogAtSprintEnd
+  }
+  return undefined
+}
+
+/**
+ * Resolve the effective forecast mode: the stored mode, or auto-detect from the
+ * included sprint count. A stored capacity mode falls back to auto-detect while
+ * the roster covers too few sprints (no capacity baseline).
+ */
+export function resolveForecastMode(
+  storedMode: ForecastMode | undefined,
+  includedSprintCount: number,
+  hasCapacityBaseline: boolean
+): ForecastMode {
+  if (storedMode && (storedMode !== 'capacity' || hasCapacityBaseline)) return storedMode
+  return includedSprintCount >= MIN_SPRINTS_FOR_HISTORY ? 'history' : 'subjective'
+}
+
+/**
+ * Velocity inputs as the forecast form holds them ('' = not overridden)
+ */
+export interface VelocityInputs {
+  velocityMean: string
+  velocityStdDev: string
+  velocityEstimate: string
+  selectedCV: number
+  volatilityMultiplier: number
+}
+
+/**
+ * Effective velocity mean / SD for the simulation.
+ *
+ * - Capacity mode: per-person throughput from the roster; planned capacity scales it per sprint
+ * - Subjective mode: derived entirely from the velocity estimate + CV (falling back to the
+ *   calculated mean when no estimate is typed)
+ * - History mode: calculated stats, manual overrides, or the volatility multiplier
+ *
+ * Manual mean / SD overrides apply in history and subjective modes.
+ */
+export function resolveEffectiveVelocity(
+  mode: ForecastMode,
+  calculatedStats: VelocityStats,
+  inputs: VelocityInputs,
+  capacityBaseline: CapacityBaseline | null
+): { mean: number; stdDev: number } {
+  const velocityEstimateNum = Number(inputs.velocityEstimate) || 0
+
+  // In subjective mode, prefer the user's estimate; fall back to calculated mean if available
+  const subjectiveMean = velocityEstimateNum > 0 ? velocityEstimateNum : calculatedStats.mean
+
+  const mean = mode === 'capacity' && capacityBaseline
+    ? capacityBaseline.stats.mean
+    : inputs.velocityMean
+      ? Number(inputs.velocityMean)
+      : mode === 'subjective'
+        ? subjectiveMean
+        : calculatedStats.mean
+
+  const stdDev = mode === 'capacity' && capacityBaseline
+    ? capacityBaseline.stats.standardDeviation
+    : inputs.velocityStdDev
+      ? Number(inputs.velocityStdDev)
+      : mode === 'subjective'
+        ? subjectiveMean * inputs.selectedCV
+        : calculatedStats.standardDeviation * inputs.volatilityMultiplier
+
+  return { mean, stdDev }
+}
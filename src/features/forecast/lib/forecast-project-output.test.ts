@@ -0,0 +1,87 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import { formatForecastTable, formatForecastCsv } from './forecast-project-output'
+import type { ProjectForecast, ProjectForecastOutcome } from './forecast-project'
+
+const FORECAST: ProjectForecast = {
+  projectId: 'p1',
+  projectName: 'Alpha',
+  unitOfMeasure: 'points',
+  forecastMode: 'history',
+  startDate: '2026-08-10',
+  sprintCadenceWeeks: 2,
+  remainingBacklog: 120,
+  velocityMean: 20,
+  velocityStdDev: 3.8,
+  trialCount: 10000,
+  seed: 7,
+  distributions: ['lognormal', 'gamma'],
+  scopes: [{
+    milestone: null,
+    backlog: 120,
+    rows: [
+      {
+        percentile: 50,
+        results: {
+          lognormal: { percentile: 50, finishDate: '2026-10-30', sprintsRequired: 6 },
+          gamma: { percentile: 50, finishDate: '2026-11-13', sprintsRequired: 7 },
+        },
+      },
+      {
+        percentile: 90,
+        results: {
+          lognormal: { percentile: 90, finishDate: '2026-11-13', sprintsRequired: 7 },
+          gamma: { percentile: 90, finishDate: '2026-11-13', sprintsRequired: 7 },
+        },
+      },
+    ],
+  }],
+}
+
+const OUTCOMES: ProjectForecastOutcome[] = [
+  { projectId: 'p1', projectName: 'Alpha', forecast: FORECAST },
+  { projectId: 'p2', projectName: 'Beta', error: 'Set sprint cadence on the Sprint History tab.' },
+]
+
+describe('formatForecastTable', () => {
+  it('prints a summary and an aligned percentile table per project', () => {
+    expect(formatForecastTable(OUTCOMES)).toBe([
+      'Alpha — history mode, 10,000 trials, seed 7',
+      'Start 2026-08-10 · backlog 120 points · velocity 20.0 ± 3.8 per sprint',
+      '',
+      'Percentile  Lognormal   Gamma',
+      'P50         2026-10-30  2026-11-13',
+      'P90         2026-11-13  2026-11-13',
+      '',
+      'Beta — not forecast: Set sprint cadence on the Sprint History tab.',
+      '',
+    ].join('\n'))
+  })
+
+  it('heads each milestone table with its name and cumulative backlog', () => {
+    const forecast = { ...FORECAST, scopes: [{ ...FORECAST.scopes[0], milestone: 'MVP', backlog: 60 }] }
+    const table = formatForecastTable([{ projectId: 'p1', projectName: 'Alpha', forecast }])
+    expect(table).toContain('\nMVP (60 points)\nPercentile')
+  })
+})
+
+describe('formatForecastCsv', () => {
+  it('writes one row per percentile and distribution, skipping failed projects', () => {
+    expect(formatForecastCsv(OUTCOMES).trim().split('\n')).toEqual([
+      'Project,Milestone,Percentile,Distribution,Finish Date,Sprints Required,Seed',
+      '"Alpha",,P50,Lognormal,2026-10-30,6,7',
+      '"Alpha",,P50,Gamma,2026-11-13,7,7',
+      '"Alpha",,P90,Lognormal,2026-11-13,7,7',
+      '"Alpha",,P90,Gamma,2026-11-13,7,7',
+    ])
+  })
+
+  it('escapes names against CSV injection', () => {
+    const forecast = { ...FORECAST, projectName: '=cmd', scopes: [{ ...FORECAST.scopes[0], milestone: 'GA "final"' }] }
+    const csv = formatForecastCsv([{ projectId: 'p1', projectName: '=cmd', forecast }])
+    expect(csv.split('\n')[1]).toBe(`"'=cmd","GA ""final""",P50,Lognormal,2026-10-30,6,7`)
+  })
+})
@@ -0,0 +1,85 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Plain-text renderings of headless forecasts (see forecast-project.ts): an aligned
+ * percentile-date table for terminals and a flat CSV for spreadsheets and scripts.
+ */
+
+import { DISTRIBUTION_LABELS } from '../types'
+import { escCsv } from './export-csv'
+import type { ProjectForecast, ProjectForecastOutcome, ScopeForecast } from './forecast-project'
+
+/** Left-align every column to its widest cell */
+function alignColumns(rows: string[][]): string[] {
+  const widths = rows[0].map((_, col) => Math.max(...rows.map((row) => row[col].length)))
+  return rows.map((row) => row.map((cell, col) => cell.padEnd(widths[col])).join('  ').trimEnd())
+}
+
+function scopeTable(forecast: ProjectForecast, scope: ScopeForecast): string[] {
+  const header = ['Percentile', ...forecast.distributions.map((d) => DISTRIBUTION_LABELS[d])]
+  const body = scope.rows.map((row) => [
+    `P${row.percentile}`,
+    ...forecast.distributions.map((d) => row.results[d]?.finishDate ?? '—'),
+  ])
+  return alignColumns([header, ...body])
+}
+
+function projectSummary(forecast: ProjectForecast): string[] {
+  const trials = `${forecast.trialCount.toLocaleString('en-US')} trials${forecast.adaptive ? ' (adaptive)' : ''}`
+  return [
+    `${forecast.projectName} — ${forecast.forecastMode} mode, ${trials}, seed ${forecast.seed}`,
+    `Start ${forecast.startDate} · backlog ${forecast.remainingBacklog} ${forecast.unitOfMeasure} · ` +
+      `velocity ${forecast.velocityMean.toFixed(1)} ± ${forecast.velocityStdDev.toFixed(1)} per sprint`,
+  ]
+}
+
+/**
+ * Percentile finish dates as aligned text tables: one block per project, with a
+ * table per milestone when the project has milestones. Projects that couldn't be
+ * forecast show their reason instead.
+ */
+export function formatForecastTable(outcomes: ProjectForecastOutcome[]): string {
+  const blocks = outcomes.map((outcome) => {
+    if (!outcome.forecast) return `${outcome.projectName} — not forecast: ${outcome.error}`
+    const forecast = outcome.forecast
+    const lines = projectSummary(forecast)
+    for (const scope of forecast.scopes) {
+      lines.push('')
+      if (scope.milestone !== null) lines.push(`${scope.milestone} (${scope.backlog} ${forecast.unitOfMeasure})`)
+      lines.push(...scopeTable(forecast, scope))
+    }
+    return lines.join('\n')
+  })
+  return blocks.join('\n\n') + '\n'
+}
+
+/**
+ * One CSV row per project, scope, percentile and distribution. Projects that
+ * couldn't be forecast are left out.
+ */
+export function formatForecastCsv(outcomes: ProjectForecastOutcome[]): string {
+  const lines = ['Project,Milestone,Percentile,Distribution,Finish Date,Sprints Required,Seed']
+  for (const { forecast } of outcomes) {
+    if (!forecast) continue
+    for (const scope of forecast.scopes) {
+      for (const row of scope.rows) {
+        for (const d of forecast.distributions) {
+          const result = row.results[d]
+          if (!result) continue
+          lines.push([
+            `"${escCsv(forecast.projectName)}"`,
+            scope.milestone !== null ? `"${escCsv(scope.milestone)}"` : '',
+            `P${row.percentile}`,
+            DISTRIBUTION_LABELS[d],
+            result.finishDate,
+            result.sprintsRequired,
+            forecast.seed,
+          ].join(','))
+        }
+      }
+    }
+  }
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,207 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import { forecastProject, forecastExportData, resolveProjectSimulation } from './forecast-project'
+import { runQuadrupleForecast, calculatePercentileResult } from './monte-carlo'
+import type { Project, Sprint, Milestone, ProductivityAdjustment } from '@/shared/types'
+import type { ExportData } from '@/shared/state/import-validation'
+
+const TIMESTAMP = '2026-01-01T00:00:00Z'
+
+function makeProject(overrides: Partial<Project> = {}): Project {
+  return {
+    id: 'p1',
+    name: 'Alpha',
+    unitOfMeasure: 'points',
+    sprintCadenceWeeks: 2,
+    firstSprintStartDate: '2026-06-01',
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    ...overrides,
+  }
+}
+
+function makeSprint(sprintNumber: number, doneValue: number, backlogAtSprintEnd?: number, projectId = 'p1'): Sprint {
+  return {
+    id: `${projectId}-s${sprintNumber}`,
+    projectId,
+    sprintNumber,
+    sprintStartDate: '2026-06-01',
+    sprintFinishDate: '2026-06-12',
+    doneValue,
+    backlogAtSprintEnd,
+    includedInForecast: true,
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+  }
+}
+
+function makeMilestone(name: string, backlogSize: number): Milestone {
+  return { id: name, name, backlogSize, color: '#000000', createdAt: TIMESTAMP, updatedAt: TIMESTAMP }
+}
+
+// Five included sprints → history mode with Bootstrap; latest recorded backlog is 120
+const SPRINTS = [
+  makeSprint(1, 18, 180),
+  makeSprint(2, 22, 160),
+  makeSprint(3, 20, 140),
+  makeSprint(4, 15, 130),
+  makeSprint(5, 25, 120),
+]
+
+describe('forecastProject', () => {
+  it('resolves inputs the way the Forecast tab does', () => {
+    const forecast = forecastProject(makeProject(), SPRINTS, { seed: 7, trialCount: 500 })
+    expect(forecast.forecastMode).toBe('history')
+    expect(forecast.remainingBacklog).toBe(120)
+    expect(forecast.velocityMean).toBe(20)
+    expect(forecast.startDate).toBe('2026-08-10') // sprint 6 starts after five 2-week sprints
+    expect(forecast.distributions).toEqual(['lognormal', 'truncatedNormal', 'gamma', 'triangular', 'pert', 'bootstrap'])
+    expect(forecast.scopes).toHaveLength(1)
+    expect(forecast.scopes[0]).toMatchObject({ milestone: null, backlog: 120 })
+    expect(forecast.scopes[0].rows.map((r) => r.percentile)).toEqual([10, 50, 90])
+  })
+
+  it('matches the engine run with the same inputs and seed', () => {
+    const forecast = forecastProject(makeProject(), SPRINTS, { seed: 7, trialCount: 500, percentiles: [85] })
+    const engine = runQuadrupleForecast(
+      {
+        remainingBacklog: 120,
+        velocityMean: forecast.velocityMean,
+        velocityStdDev: forecast.velocityStdDev,
+        startDate: forecast.startDate,
+        trialCount: 500,
+        sprintCadenceWeeks: 2,
+      },
+      SPRINTS.map((s) => s.doneValue),
+      undefined,
+      undefined,
+      { seed: 7 }
+    )
+    const row = forecast.scopes[0].rows[0]
+    expect(row.results.gamma).toEqual(
+      calculatePercentileResult(engine.gamma.sprintsRequired, 85, forecast.startDate, 2)
+    )
+    expect(row.results.bootstrap).toEqual(
+      calculatePercentileResult(engine.bootstrap!.sprintsRequired, 85, forecast.startDate, 2)
+    )
+  })
+
+  it('is reproducible for a fixed seed', () => {
+    const options = { seed: 11, trialCount: 300 }
+    expect(forecastProject(makeProject(), SPRINTS, options)).toEqual(forecastProject(makeProject(), SPRINTS, options))
+  })
+
+  it('reports one scope per milestone with cumulative backlog', () => {
+    const project = makeProject({ milestones: [makeMilestone('MVP', 60), makeMilestone('GA', 60)] })
+    const forecast = forecastProject(project, SPRINTS, { seed: 3, trialCount: 300, percentiles: [50] })
+    expect(forecast.scopes.map((s) => [s.milestone, s.backlog])).toEqual([['MVP', 60], ['GA', 120]])
+    const mvp = forecast.scopes[0].rows[0].results.lognormal!
+    const ga = forecast.scopes[1].rows[0].results.lognormal!
+    expect(ga.sprintsRequired).toBeGreaterThan(mvp.sprintsRequired)
+  })
+
+  it('honours option overrides', () => {
+    const forecast = forecastProject(makeProject(), SPRINTS, {
+      seed: 5,
+      trialCount: 200,
+      remainingBacklog: 40,
+      forecastMode: 'subjective',
+      velocityEstimate: 10,
+      selectedCV: 0.2,
+      distributions: ['uniform', 'lognormal'],
+    })
+    expect(forecast).toMatchObject({ forecastMode: 'subjective', remainingBacklog: 40, velocityMean: 10, velocityStdDev: 2 })
+    expect(forecast.distributions).toEqual(['lognormal', 'uniform'])
+    expect(Object.keys(forecast.scopes[0].rows[0].results).sort()).toEqual(['lognormal', 'uniform'])
+  })
+
+  it('only uses the project’s own sprints', () => {
+    const others = [makeSprint(1, 500, 9000, 'p2'), makeSprint(9, 500, 9000, 'p2')]
+    const options = { seed: 2, trialCount: 200 }
+    expect(forecastProject(makeProject(), [...SPRINTS, ...others], options))
+      .toEqual(forecastProject(makeProject(), SPRINTS, options))
+  })
+
+  it('forecasts at the current cadence, pooling earlier sprints per working day', () => {
+    // Sprints 1-3 ran 2 weeks, sprints 4-5 one week
+    const project = makeProject({ cadenceChanges: [{ fromSprintNumber: 4, cadenceWeeks: 1 }] })
+    const forecast = forecastProject(project, SPRINTS, { seed: 7, trialCount: 200 })
+    expect(forecast.sprintCadenceWeeks).toBe(1)
+    expect(forecast.startDate).toBe('2026-07-27')
+    expect(forecast.velocityMean).toBeCloseTo((9 + 11 + 10 + 15 + 25) / 5)
+    expect(forecast.laterCadenceChanges).toBeUndefined()
+  })
+
+  it('flags cadence changes after the next sprint, which it does not apply', () => {
+    const later = [{ fromSprintNumber: 9, cadenceWeeks: 1 as const }]
+    const forecast = forecastProject(makeProject({ cadenceChanges: later }), SPRINTS, { seed: 7, trialCount: 200 })
+    expect(forecast.sprintCadenceWeeks).toBe(2)
+    expect(forecast.laterCadenceChanges).toEqual(later)
+  })
+
+  it('dates every finish on the project work week', () => {
+    const project = makeProject({ firstSprintStartDate: '2026-05-31', workWeek: [0, 1, 2, 3, 4] })
+    const forecast = forecastProject(project, SPRINTS, { seed: 7, trialCount: 200 })
+    const weekdays = forecast.scopes[0].rows.flatMap((row) =>
+      Object.values(row.results).map((r) => new Date(r!.finishDate + 'T00:00:00').getDay())
+    )
+    expect(weekdays.length).toBeGreaterThan(0)
+    expect(weekdays.every((d) => d === 4)).toBe(true) // Sun-Thu sprints finish on Thursday
+  })
+
+  it('throws the Forecast tab’s blocked reason', () => {
+    expect(() => forecastProject(makeProject({ sprintCadenceWeeks: undefined }), SPRINTS))
+      .toThrow('Set sprint cadence on the Sprint History tab.')
+    expect(() => forecastProject(makeProject(), SPRINTS, { velocityMean: 0 }))
+      .toThrow('Velocity must be greater than 0.')
+  })
+
+  it('throws without a remaining backlog', () => {
+    const sprints = SPRINTS.map((s) => ({ ...s, backlogAtSprintEnd: undefined }))
+    expect(() => forecastProject(makeProject(), sprints)).toThrow('Enter a remaining backlog greater than 0.')
+  })
+})
+
+describe('resolveProjectSimulation', () => {
+  const holidays: ProductivityAdjustment = {
+    id: 'pa1', name: 'Holidays', startDate: '2026-08-10', endDate: '2026-08-21', factor: 0.5,
+    enabled: false, createdAt: TIMESTAMP, updatedAt: TIMESTAMP,
+  }
+
+  it('applies the listed adjustments in place of the enabled ones', () => {
+    const project = makeProject({ productivityAdjustments: [holidays] })
+    expect(resolveProjectSimulation(project, SPRINTS, { seed: 1 }).context.productivityFactors).toBeUndefined()
+    const { context } = resolveProjectSimulation(project, SPRINTS, { seed: 1, enabledAdjustmentIds: ['pa1'] })
+    expect(context.productivityFactors?.[0]).toBeCloseTo(0.5)
+  })
+
+  it('samples scope growth when asked', () => {
+    const { context } = resolveProjectSimulation(makeProject(), SPRINTS, {
+      seed: 1, scopeGrowthPerSprint: 4, scopeGrowthSampling: 'bootstrap',
+    })
+    expect(context.scopeGrowthPerSprint).toBe(4)
+    expect(context.scopeGrowthVariability?.mode).toBe('bootstrap')
+  })
+})
+
+describe('forecastExportData', () => {
+  it('forecasts every project and records why any could not be', () => {
+    const data: ExportData = {
+      version: '0.34.0',
+      exportedAt: TIMESTAMP,
+      projects: [makeProject(), makeProject({ id: 'p2', name: 'Beta', sprintCadenceWeeks: undefined })],
+      sprints: SPRINTS,
+    }
+    const [alpha, beta] = forecastExportData(data, { seed: 1, trialCount: 200 })
+    expect(alpha.projectName).toBe('Alpha')
+    expect(alpha.forecast?.seed).toBe(1)
+    expect(beta).toEqual({
+      projectId: 'p2',
+      projectName: 'Beta',
+      error: 'Set sprint cadence on the Sprint History tab.',
+    })
+  })
+})
@@ -0,0 +1,445 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Headless forecasting: run a project's forecast straight from its data, without
+ * the React hooks or stores.
+ *
+ * Mirrors what the Forecast tab does on Run Forecast — the same mode and velocity
+ * resolution, productivity and capacity factors, Bootstrap history, and optional
+ * autocorrelation / trend / PERT settings — but simulates in the calling thread.
+ * Options stand in for the session-only form inputs and global settings.
+ */
+
+import type { Project, Sprint, ForecastMode, ForecastResult } from '@/shared/types'
+import type { ExportData } from '@/shared/state/import-validation'
+import {
+  today,
+  resolveAnchorDate,
+  resolveWorkWeek,
+  cadenceWeeksForSprint,
+  laterCadenceChanges,
+  type CadenceChanges,
+  type NonWorkingDays,
+  type WorkWeek,
+} from '@/shared/lib/dates'
+import { resolveNonWorkingDays } from '@/shared/lib/holidays'
+import { generateRandomSeed } from '@/shared/lib/math'
+import { getVisibleDistributions, type DistributionType } from '../types'
+import {
+  DEFAULT_TRIAL_COUNT,
+  DEFAULT_SELECTED_PERCENTILES,
+  DEFAULT_CV,
+  DEFAULT_VOLATILITY_MULTIPLIER,
+  DEFAULT_TREND_MIN_R_SQUARED,
+  MIN_SPRINTS_FOR_BOOTSTRAP,
+  MIN_SPRINTS_FOR_AUTOCORRELATION,
+} from '../constants'
+import {
+  simulateTrials,
+  findAdaptiveTrialCount,
+  calculatePercentileResult,
+  type SimulationContext,
+  type AdaptiveTrialResult,
+  type QuadSimulationData,
+} from './monte-carlo'
+import { getLastSprintBacklog, resolveForecastMode, resolveEffectiveVelocity } from './forecast-inputs'
+import {
+  calculateVelocityStats,
+  calculateScopeChangeStats,
+  normalizedVelocity,
+  resolveVelocityNormalization,
+} from './statistics'
+import { preCalculateSprintFactors } from './productivity'
+import { calculateCapacityBaseline, preCalculateSprintCapacity, combineCapacityFactors } from './capacity'
+import { assessVelocityTrend } from './velocity-trend'
+import { resolvePertEstimate } from './pert'
+import { resolveScopeGrowthVariability, type ScopeGrowthSampling } from './scope-growth'
+import { getRunForecastBlockedReason } from './run-forecast-prereqs'
+import { computeCumulativeScope } from './milestones'
+import type { BootstrapWeighting } from './bootstrap-weighting'
+
+/**
+ * Form inputs and settings for a headless forecast. Everything is optional;
+ * omitted values fall back to what a fresh Forecast tab would use.
+ */
+export interface ForecastProjectOptions {
+  /** Remaining backlog; omitted → the latest included sprint's backlog-at-end */
+  remainingBacklog?: number
+  /** Omitted → auto-detect (history with enough included sprints, else subjective) */
+  forecastMode?: ForecastMode
+  /** Velocity mean / SD overrides (history and subjective modes) */
+  velocityMean?: number
+  velocityStdDev?: number
+  /** Subjective mode: velocity guess and coefficient of variation */
+  velocityEstimate?: number
+  selectedCV?: number
+  /** History mode: SD multiplier (1.0 = match history) */
+  volatilityMultiplier?: number
+  /** History mode: correlate consecutive sprint velocities (lag-1) */
+  modelAutocorrelation?: boolean
+  /** History mode: project the fitted velocity trend forward */
+  projectVelocityTrend?: boolean
+  /** Minimum R² for the trend projection (Settings default when omitted) */
+  trendMinRSquared?: number
+  /** History mode: how Bootstrap weights past sprints */
+  bootstrapWeighting?: BootstrapWeighting
+  /** Backlog and velocity are item counts: simulate whole items per sprint */
+  throughputMode?: boolean
+  /** PERT three-point estimate; missing fields use the default range */
+  pertEstimate?: { min?: number; mostLikely?: number; max?: number }
+  /** Scope growth per sprint; 'calculated' uses the average historical injection */
+  scopeGrowthPerSprint?: number | 'calculated'
+  /** How per-sprint scope growth is drawn (default fixed) */
+  scopeGrowthSampling?: ScopeGrowthSampling
+  /** Productivity adjustments to apply; omitted → the project's enabled adjustments */
+  enabledAdjustmentIds?: readonly string[]
+  /** Trials per distribution (default 10,000) */
+  trialCount?: number
+  /** Settle the trial count on P85 convergence instead of using `trialCount` */
+  adaptiveTrials?: boolean
+  /** Fixed seed; omitted → a fresh seed, reported in the result */
+  seed?: number
+  /** Percentiles to report (default P10 / P50 / P90, as in the results table) */
+  percentiles?: readonly number[]
+  /** Distributions to report; omitted → every distribution the mode shows */
+  distributions?: readonly DistributionType[]
+}
+
+/**
+ * Finish dates at one percentile, per reported distribution
+ */
+export interface PercentileForecastRow {
+  percentile: number
+  results: Partial<Record<DistributionType, ForecastResult>>
+}
+
+/**
+ * Percentile rows for one scope: a milestone, or the whole remaining backlog
+ */
+export interface ScopeForecast {
+  /** Milestone name; null for the whole remaining backlog */
+  milestone: string | null
+  /** Cumulative work that must be done to reach this scope */
+  backlog: number
+  rows: PercentileForecastRow[]
+}
+
+/**
+ * A project's forecast, with the inputs it resolved so the run can be reproduced
+ */
+export interface ProjectForecast {
+  projectId: string
+  projectName: string
+  unitOfMeasure: string
+  forecastMode: ForecastMode
+  startDate: string
+  sprintCadenceWeeks: number
+  remainingBacklog: number
+  velocityMean: number
+  velocityStdDev: number
+  trialCount: number
+  seed: number
+  /** Present when the trial count was chosen adaptively */
+  adaptive?: AdaptiveTrialResult
+  distributions: DistributionType[]
+  /** One scope per milestone when the project has milestones, else the whole backlog */
+  scopes: ScopeForecast[]
+  /** Cadence changes after the first forecast sprint, which the forecast doesn't apply */
+  laterCadenceChanges?: CadenceChanges
+}
+
+/**
+ * Simulation inputs resolved from a project and its options, before any trials run
+ */
+export interface ResolvedProjectSimulation {
+  context: SimulationContext
+  /** Seed in the context: the fixed seed, or a fresh one */
+  seed: number
+  forecastMode: ForecastMode
+  startDate: string
+  sprintCadenceWeeks: number
+  /** The project's holidays and work week, which finish dates step back from */
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
+  /** Cadence changes after the first forecast sprint: every forecast sprint runs `sprintCadenceWeeks` */
+  laterCadenceChanges: CadenceChanges
+  remainingBacklog: number
+  velocityMean: number
+  velocityStdDev: number
+  /** Bootstrap resamples history in this run */
+  hasBootstrap: boolean
+}
+
+/**
+ * Resolve a project's forecast inputs into an engine context, as `forecastProject`
+ * does before simulating. For callers that simulate elsewhere (e.g., the worker pool).
+ *
+ * Throws when the project can't be forecast, like `forecastProject`.
+ */
+export function resolveProjectSimulation(
+  project: Project,
+  sprints: Sprint[],
+  options: ForecastProjectOptions = {}
+): ResolvedProjectSimulation {
+  const projectSprints = sprints.filter((s) => s.projectId === project.id)
+  // Chronological order — the block bootstrap resamples runs of consecutive sprints
+  const includedSprints = projectSprints
+    .filter((s) => s.includedInForecast)
+    .sort((a, b) => a.sprintNumber - b.sprintNumber)
+  const canUseBootstrap = includedSprints.length >= MIN_SPRINTS_FOR_BOOTSTRAP
+  const completedSprintCount = projectSprints.reduce((max, s) => Math.max(max, s.sprintNumber), 0)
+
+  // Forecast sprints run the cadence in effect for the next sprint; history of other
+  // lengths is pooled per working day in forecast-sprint units
+  const cadence = project.sprintCadenceWeeks
+    ? cadenceWeeksForSprint(completedSprintCount + 1, project.sprintCadenceWeeks, project.cadenceChanges)
+    : undefined
+  const nonWorkingDays = resolveNonWorkingDays(project.holidaySets)
+  const workWeek = resolveWorkWeek(project.workWeek)
+  const normalization = resolveVelocityNormalization(
+    project, projectSprints, completedSprintCount + 1, nonWorkingDays, workWeek
+  )
+  const calculatedStats = calculateVelocityStats(includedSprints, normalization)
+  const historicalVelocities = includedSprints.map((s) => normalizedVelocity(s, normalization))
+
+  const teamMembers = project.teamMembers ?? []
+  const capacityBaseline = calculateCapacityBaseline(includedSprints, teamMembers, nonWorkingDays, workWeek)
+  const mode = resolveForecastMode(options.forecastMode, includedSprints.length, capacityBaseline !== null)
+  const isCapacityMode = mode === 'capacity'
+  const velocity = resolveEffectiveVelocity(
+    mode,
+    calculatedStats,
+    {
+      velocityMean: options.velocityMean !== undefined ? String(options.velocityMean) : '',
+      velocityStdDev: options.velocityStdDev !== undefined ? String(options.velocityStdDev) : '',
+      velocityEstimate: options.velocityEstimate !== undefined ? String(options.velocityEstimate) : '',
+      selectedCV: options.selectedCV ?? DEFAULT_CV,
+      volatilityMultiplier: options.volatilityMultiplier ?? DEFAULT_VOLATILITY_MULTIPLIER,
+    },
+    capacityBaseline
+  )
+
+  const startDate = project.sprintCadenceWeeks && project.firstSprintStartDate && projectSprints.length > 0
+    ? resolveAnchorDate(
+        project.firstSprintStartDate,
+        project.sprintCadenceWeeks,
+        projectSprints.map((s) => ({ sprintNumber: s.sprintNumber, customFinishDate: s.customFinishDate })),
+        workWeek,
+        project.cadenceChanges
+      )
+    : today()
+
+  const plannedCapacity = isCapacityMode && cadence
+    ? preCalculateSprintCapacity(startDate, cadence, 1, teamMembers, undefined, nonWorkingDays, workWeek)
+    : null
+
+  // PERT three-point estimate is in team-velocity units, so capacity mode keeps the default range
+  const pert = options.pertEstimate
+  const format = (value: number | undefined) => (value === undefined ? '' : String(value))
+  const pertResolution = pert && !isCapacityMode
+    ? resolvePertEstimate(
+        { min: format(pert.min), mostLikely: format(pert.mostLikely), max: format(pert.max) },
+        velocity.mean,
+        velocity.stdDev
+      )
+    : { error: null }
+
+  const remainingBacklog = options.remainingBacklog ?? getLastSprintBacklog(includedSprints)
+  const blockedReason = getRunForecastBlockedReason({
+    sprintCadenceWeeks: cadence,
+    firstSprintStartDate: project.firstSprintStartDate,
+    remainingBacklog: remainingBacklog !== undefined ? String(remainingBacklog) : '',
+    effectiveMean: velocity.mean,
+    steadyStateCapacity: plannedCapacity?.[plannedCapacity.length - 1],
+    pertEstimateError: pertResolution.error,
+  })
+  if (blockedReason) throw new Error(blockedReason)
+  if (!cadence) throw new Error('Set sprint cadence on the Sprint History tab.')
+  if (remainingBacklog === undefined || !(remainingBacklog > 0)) {
+    throw new Error('Enter a remaining backlog greater than 0.')
+  }
+  if (!Number.isFinite(velocity.stdDev) || velocity.stdDev < 0) {
+    throw new Error('Velocity standard deviation must be 0 or more.')
+  }
+
+  const config = {
+    remainingBacklog,
+    velocityMean: velocity.mean,
+    velocityStdDev: velocity.stdDev,
+    startDate,
+    trialCount: options.trialCount ?? DEFAULT_TRIAL_COUNT,
+    sprintCadenceWeeks: cadence,
+    nonWorkingDays,
+    workWeek,
+  }
+
+  const adjustmentIds = options.enabledAdjustmentIds
+  const enabledAdjustments = (project.productivityAdjustments ?? []).filter((a) =>
+    adjustmentIds ? adjustmentIds.includes(a.id) : a.enabled !== false
+  )
+  let productivityFactors = enabledAdjustments.length > 0 || nonWorkingDays
+    ? preCalculateSprintFactors(startDate, cadence, 1, enabledAdjustments, undefined, nonWorkingDays, workWeek).factors
+    : undefined
+
+  // Capacity mode: sprints scale per-person throughput by planned FTE, and Bootstrap
+  // resamples per-person throughput rather than raw team velocity.
+  let bootstrapVelocities = canUseBootstrap ? historicalVelocities : undefined
+  if (isCapacityMode && plannedCapacity && capacityBaseline) {
+    productivityFactors = combineCapacityFactors(plannedCapacity, productivityFactors)
+    const perPerson = capacityBaseline.perPersonVelocities
+    bootstrapVelocities = perPerson.length >= MIN_SPRINTS_FOR_BOOTSTRAP ? perPerson : undefined
+  }
+
+  const isHistoryMode = mode === 'history'
+  const autocorrelation =
+    isHistoryMode && options.modelAutocorrelation && includedSprints.length >= MIN_SPRINTS_FOR_AUTOCORRELATION
+      ? calculatedStats.lag1Autocorrelation ?? 0
+      : undefined
+  const trend = isHistoryMode && options.projectVelocityTrend
+    ? assessVelocityTrend(
+        includedSprints,
+        velocity.mean,
+        options.trendMinRSquared ?? DEFAULT_TREND_MIN_R_SQUARED,
+        completedSprintCount
+      ).trend ?? undefined
+    : undefined
+  const bootstrapWeighting =
+    isHistoryMode && canUseBootstrap && options.bootstrapWeighting?.mode !== 'uniform'
+      ? options.bootstrapWeighting
+      : undefined
+  const scopeChangeStats = calculateScopeChangeStats(projectSprints)
+  const scopeGrowthPerSprint = options.scopeGrowthPerSprint === 'calculated'
+    ? scopeChangeStats?.averageScopeInjection
+    : options.scopeGrowthPerSprint
+  const scopeGrowthVariability = resolveScopeGrowthVariability(
+    scopeGrowthPerSprint,
+    options.scopeGrowthSampling ?? 'fixed',
+    scopeChangeStats?.injections,
+    scopeChangeStats?.injectionVolatility
+  )
+
+  const seed = options.seed ?? generateRandomSeed()
+  const context: SimulationContext = {
+    config,
+    historicalVelocities: bootstrapVelocities,
+    productivityFactors,
+    scopeGrowthPerSprint,
+    scopeGrowthVariability,
+    seed,
+    autocorrelation,
+    trend,
+    bootstrapWeighting,
+    throughputMode: options.throughputMode || undefined,
+    pertEstimate: pertResolution.estimate,
+  }
+
+  return {
+    context,
+    seed,
+    forecastMode: mode,
+    startDate,
+    sprintCadenceWeeks: cadence,
+    nonWorkingDays,
+    workWeek,
+    laterCadenceChanges: laterCadenceChanges(completedSprintCount + 1, project.cadenceChanges),
+    remainingBacklog,
+    velocityMean: velocity.mean,
+    velocityStdDev: velocity.stdDev,
+    hasBootstrap: bootstrapVelocities !== undefined,
+  }
+}
+
+/**
+ * Forecast one project. `sprints` may hold other projects' sprints (e.g., every
+ * sprint in an export); only the project's own are used.
+ *
+ * Throws when the project can't be forecast (no cadence, no first sprint date,
+ * no remaining backlog, non-positive velocity, ...), with the same reason the
+ * Forecast tab shows under its Run button.
+ */
+export function forecastProject(
+  project: Project,
+  sprints: Sprint[],
+  options: ForecastProjectOptions = {}
+): ProjectForecast {
+  const resolved = resolveProjectSimulation(project, sprints, options)
+  const { context, seed, startDate, sprintCadenceWeeks: cadence, remainingBacklog } = resolved
+  const { config } = context
+
+  const adaptive = options.adaptiveTrials ? findAdaptiveTrialCount(context) : undefined
+  if (adaptive) context.config = { ...config, trialCount: adaptive.trialCount }
+
+  // One sorted series per scope: each milestone in order, or the whole backlog
+  const milestones = project.milestones ?? []
+  let scopeSeries: Array<{ milestone: string | null; backlog: number; data: QuadSimulationData }>
+  if (milestones.length > 0) {
+    const cumulativeThresholds = computeCumulativeScope(milestones)
+    const series = simulateTrials(context, { kind: 'milestones', cumulativeThresholds })
+    scopeSeries = milestones.map((m, i) => ({ milestone: m.name, backlog: cumulativeThresholds[i], data: series[i] }))
+  } else {
+    const [data] = simulateTrials(context, { kind: 'backlog' })
+    scopeSeries = [{ milestone: null, backlog: remainingBacklog, data }]
+  }
+
+  const distributions = getVisibleDistributions(resolved.forecastMode, resolved.hasBootstrap, options.distributions)
+  const percentiles = options.percentiles ?? DEFAULT_SELECTED_PERCENTILES
+
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    unitOfMeasure: project.unitOfMeasure,
+    forecastMode: resolved.forecastMode,
+    startDate,
+    sprintCadenceWeeks: cadence,
+    remainingBacklog,
+    velocityMean: resolved.velocityMean,
+    velocityStdDev: resolved.velocityStdDev,
+    trialCount: context.config.trialCount,
+    seed,
+    adaptive,
+    distributions,
+    ...(resolved.laterCadenceChanges.length > 0 ? { laterCadenceChanges: resolved.laterCadenceChanges } : {}),
+    scopes: scopeSeries.map(({ milestone, backlog, data }) => ({
+      milestone,
+      backlog,
+      rows: percentiles.map((percentile) => ({
+        percentile,
+        results: Object.fromEntries(
+          distributions.flatMap((d) => {
+            const sorted = data[d]
+            return sorted
+              ? [[d, calculatePercentileResult(sorted, percentile, startDate, cadence, resolved.nonWorkingDays, resolved.workWeek)]]
+              : []
+          })
+        ),
+      })),
+    })),
+  }
+}
+
+/**
+ * Outcome of forecasting one project in an export: a forecast, or why there is none
+ */
+export type ProjectForecastOutcome =
+  | { projectId: string; projectName: string; forecast: ProjectForecast; error?: undefined }
+  | { projectId: string; projectName: string; forecast?: undefined; error: string }
+
+/**
+ * Forecast every project in a Forecaster JSON export (validate it first with
+ * validateImportData). One project that can't be forecast doesn't stop the rest.
+ */
+export function forecastExportData(
+  data: ExportData,
+  options: ForecastProjectOptions = {}
+): ProjectForecastOutcome[] {
+  return data.projects.map((project) => {
+    const base = { projectId: project.id, projectName: project.name }
+    try {
+      return { ...base, forecast: forecastProject(project, data.sprints, options) }
+    } catch (err) {
+      return { ...base, error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+}
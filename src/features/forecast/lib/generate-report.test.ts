@@ -66,6 +66,17 @@ describe('buildReportHtml', () => {
     expect(html).toContain('Forecast summary text.')
   })
 
+  it('includes trial count and seed when provided', () => {
+    const html = buildReportHtml([section], { ...metadata, trialCount: 10000, seed: 12345 })
+    expect(html).toContain(`${(10000).toLocaleString()} trials per distribution · Random seed: 12345`)
+  })
+
+  it('omits run details when trial count and seed are absent', () => {
+    const html = buildReportHtml([section], metadata)
+    expect(html).not.toContain('Random seed')
+    expect(html).not.toContain('trials per distribution')
+  })
+
   it('includes section heading and image', () => {
     const html = buildReportHtml([section], metadata)
     expect(html).toContain('<h2>Forecast Results</h2>')
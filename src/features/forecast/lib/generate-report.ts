@@ -14,6 +14,10 @@ export interface ReportMetadata {
   projectName: string
   generationDate: string
   summaryText: string
+  /** Trials per distribution in the reported run */
+  trialCount?: number | null
+  /** PRNG seed of the reported run, so the forecast can be regenerated */
+  seed?: number | null
 }
 
 export function escHtml(str: string): string {
@@ -35,6 +39,14 @@ export function buildReportHtml(
     </div>
   `).join('')
 
+  const runDetails = [
+    metadata.trialCount != null ? `${metadata.trialCount.toLocaleString()} trials per distribution` : null,
+    metadata.seed != null ? `Random seed: ${metadata.seed}` : null,
+  ].filter((d): d is string => d !== null)
+  const runDetailsHtml = runDetails.length > 0
+    ? `\n    <div class="meta">${escHtml(runDetails.join(' · '))}</div>`
+    : ''
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -106,7 +118,7 @@ export function buildReportHtml(
 <body>
   <header>
     <h1>${escHtml(metadata.projectName)}</h1>
-    <div class="meta">Generated ${escHtml(metadata.generationDate)}</div>
+    <div class="meta">Generated ${escHtml(metadata.generationDate)}</div>${runDetailsHtml}
     <div class="summary">${escHtml(metadata.summaryText)}</div>
   </header>
   ${sectionsHtml}
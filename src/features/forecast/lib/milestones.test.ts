@@ -6,7 +6,10 @@ import { describe, it, expect } from 'vitest'
 import {
   computeCumulativeScope,
   computeMilestoneCompletionInfo,
+  computeStreamPredecessors,
   computeVisibleForecastMilestones,
+  finalMilestoneAmong,
+  finalMilestoneIndex,
 } from './milestones'
 import type { Milestone } from '@/shared/types'
 
@@ -17,6 +20,7 @@ function m(name: string, backlogSize: number, opts: Partial<Milestone> = {}): Mi
     backlogSize,
     color: opts.color ?? '#000000',
     showOnChart: opts.showOnChart ?? true,
+    capacityShare: opts.capacityShare,
     createdAt: opts.createdAt ?? '2026-01-01',
     updatedAt: opts.updatedAt ?? '2026-01-01',
   }
@@ -41,6 +45,42 @@ describe('computeCumulativeScope', () => {
     const milestones = [m('MVP', 0), m('Beta', 100), m('GA', 150)]
     expect(computeCumulativeScope(milestones)).toEqual([0, 100, 250])
   })
+
+  it('burns parallel streams down concurrently at their capacity shares', () => {
+    // MVP at 70%; Platform starts a 30% stream that Hardening follows. Platform's
+    // 30 takes 100 of total work; MVP's 140 is done at 200; Hardening then gets
+    // all the capacity for its last 30.
+    const milestones = [m('MVP', 140), m('Platform', 30, { capacityShare: 0.3 }), m('Hardening', 60)]
+    expect(computeCumulativeScope(milestones)).toEqual([200, 100, 230])
+  })
+
+  it('holds leading milestones back when the shares claim all capacity', () => {
+    const milestones = [m('Prep', 10), m('A', 50, { capacityShare: 0.5 }), m('B', 50, { capacityShare: 0.5 })]
+    expect(computeCumulativeScope(milestones)).toEqual([110, 100, 100])
+  })
+})
+
+describe('computeStreamPredecessors', () => {
+  it('chains milestones within each stream', () => {
+    expect(computeStreamPredecessors([m('MVP', 100), m('Beta', 50), m('GA', 20)])).toEqual([-1, 0, 1])
+    const milestones = [m('MVP', 140), m('Platform', 30, { capacityShare: 0.3 }), m('Hardening', 60)]
+    expect(computeStreamPredecessors(milestones)).toEqual([-1, -1, 1])
+  })
+})
+
+describe('finalMilestoneIndex', () => {
+  it('picks the milestone with the most cumulative scope, the later on ties', () => {
+    expect(finalMilestoneIndex([])).toBe(-1)
+    expect(finalMilestoneIndex([200, 100, 230])).toBe(2)
+    expect(finalMilestoneIndex([230, 100, 200])).toBe(0)
+    expect(finalMilestoneIndex([100, 100])).toBe(1)
+  })
+
+  it('restricts to the given milestones', () => {
+    const milestones = [m('MVP', 140), m('Platform', 30, { capacityShare: 0.3 }), m('Hardening', 60)]
+    expect(finalMilestoneAmong(milestones, [0, 1])).toBe(0)
+    expect(finalMilestoneAmong(milestones, [])).toBe(-1)
+  })
 })
 
 describe('computeMilestoneCompletionInfo', () => {
@@ -12,8 +12,9 @@
 //    change independently of sprint delivery (descopes, additions) and the user is
 //    the source of truth.
 //
-//  • cumulativeThresholds[i] = sum of remaining work to reach milestone i from current
-//    state = sum(milestone[0..i].backlogSize). This is what the Monte Carlo simulation
+//  • cumulativeThresholds[i] = total remaining work delivered when milestone i is
+//    reached = sum(milestone[0..i].backlogSize) for one serial stream (see work
+//    streams below for parallel ones). This is what the Monte Carlo simulation
 //    needs: the per-trial check "delivered-this-trial ≥ threshold" reads correctly
 //    as "have we delivered enough to cross this milestone?"
 //
@@ -25,6 +26,17 @@
 //    visually (italic in the breakdown, filtered from Scope picker and per-
 //    milestone forecast tables) but does not record *when* it completed — that
 //    history lives in GanttApp, which this tool feeds into.
+//
+//  • Work streams: milestones are burned down in list order (priority order) by one
+//    serial stream unless a milestone carries a capacityShare. A share starts a new
+//    stream at that milestone, and the milestones after it, up to the next share,
+//    follow it in that stream. Milestones before the first share form a leading
+//    stream with the capacity the shares leave (1 − Σ shares). Every sprint's work
+//    is split across the unfinished streams in proportion to their shares, so a
+//    finished stream's capacity flows to the rest. Because the split doesn't depend
+//    on how much work a sprint delivers, each milestone is reached at a fixed amount
+//    of total work delivered — its cumulative scope — and the simulation's
+//    threshold check holds for parallel streams as it does for a serial one.
 
 import type { Milestone } from '@/shared/types'
 
@@ -33,13 +45,113 @@ export interface MilestoneCompletionInfo {
   completed: boolean
 }
 
-/** Sum of backlogSize across milestones 0..i, returned per milestone (aligned by index). */
+/** Milestones grouped into work streams (see the stream model above) */
+interface WorkStream {
+  share: number
+  /** Milestone indices in priority order */
+  milestones: number[]
+}
+
+function computeWorkStreams(milestones: Milestone[]): WorkStream[] {
+  const shared = milestones.reduce((sum, m) => sum + (m.capacityShare ?? 0), 0)
+  const streams: WorkStream[] = [{ share: Math.max(0, 1 - shared), milestones: [] }]
+  milestones.forEach((m, idx) => {
+    if (m.capacityShare !== undefined) streams.push({ share: m.capacityShare, milestones: [] })
+    streams[streams.length - 1].milestones.push(idx)
+  })
+  return streams.filter((stream) => stream.milestones.length > 0)
+}
+
+/** Whether any milestone starts a parallel work stream */
+export function hasParallelStreams(milestones: Milestone[]): boolean {
+  return milestones.some((m) => m.capacityShare !== undefined)
+}
+
+/**
+ * Total work delivered when each milestone is reached, returned per milestone
+ * (aligned by index). With one serial stream this is the sum of backlogSize across
+ * milestones 0..i; with parallel streams, each stream burns down at its share of
+ * the work (see the stream model above). Not ascending by index when streams run
+ * in parallel.
+ */
 export function computeCumulativeScope(milestones: Milestone[]): number[] {
-  let cumulative = 0
-  return milestones.map((m) => {
-    cumulative += m.backlogSize
-    return cumulative
+  const streams = computeWorkStreams(milestones)
+  const result = new Array<number>(milestones.length).fill(0)
+  // Position in each stream, and the work left on its current milestone
+  const next = streams.map(() => 0)
+  const left = streams.map((stream) => milestones[stream.milestones[0]].backlogSize)
+  let delivered = 0
+
+  for (;;) {
+    // Record every current milestone with no work left (zero-size ones included)
+    let active = 0
+    let totalShare = 0
+    streams.forEach((stream, s) => {
+      while (next[s] < stream.milestones.length && left[s] <= 0) {
+        // Rounded so share arithmetic can't leave float noise in displayed scope
+        result[stream.milestones[next[s]]] = Math.round(delivered * 1e9) / 1e9
+        next[s]++
+        if (next[s] < stream.milestones.length) left[s] = milestones[stream.milestones[next[s]]].backlogSize
+      }
+      if (next[s] < stream.milestones.length) {
+        active++
+        totalShare += stream.share
+      }
+    })
+    if (active === 0) return result
+
+    // Streams with no share left wait for capacity; if only they remain, split evenly.
+    const rate = (s: number) => (totalShare > 0 ? streams[s].share / totalShare : 1 / active)
+    let step = Infinity
+    streams.forEach((stream, s) => {
+      if (next[s] < stream.milestones.length && rate(s) > 0) step = Math.min(step, left[s] / rate(s))
+    })
+    delivered += step
+    streams.forEach((stream, s) => {
+      if (next[s] >= stream.milestones.length || rate(s) === 0) return
+      // Snap the stream that set the step to exactly zero so rounding can't leave a sliver
+      left[s] = left[s] / rate(s) === step ? 0 : left[s] - step * rate(s)
+    })
+  }
+}
+
+/**
+ * The milestone each one follows in its work stream (−1 for a stream's first),
+ * aligned by index. A serial stream gives [−1, 0, 1, …].
+ */
+export function computeStreamPredecessors(milestones: Milestone[]): number[] {
+  const predecessors = new Array<number>(milestones.length).fill(-1)
+  for (const stream of computeWorkStreams(milestones)) {
+    stream.milestones.forEach((idx, k) => {
+      if (k > 0) predecessors[idx] = stream.milestones[k - 1]
+    })
+  }
+  return predecessors
+}
+
+/**
+ * Index of the milestone reached last — the one with the most cumulative scope
+ * (the later one on ties), or −1 without milestones. With one serial stream it is
+ * the last milestone.
+ */
+export function finalMilestoneIndex(cumulativeScope: number[]): number {
+  let final = -1
+  cumulativeScope.forEach((scope, idx) => {
+    if (final === -1 || scope >= cumulativeScope[final]) final = idx
   })
+  return final
+}
+
+/**
+ * Of the given milestone indices, the one reached last (as finalMilestoneIndex), or
+ * −1 when none are given. Milestone pickers label it "(Total)".
+ */
+export function finalMilestoneAmong(milestones: Milestone[], indices: number[]): number {
+  const cumulativeScope = computeCumulativeScope(milestones)
+  return indices.reduce(
+    (final, idx) => (final === -1 || cumulativeScope[idx] >= cumulativeScope[final] ? idx : final),
+    -1
+  )
 }
 
 /**
@@ -5,6 +5,8 @@
 import { describe, it, expect } from 'vitest'
 import {
   runTrial,
+  runInterpolatedTrial,
+  quantizeInterpolatedData,
   createSampler,
   createBootstrapSampler,
   runSimulation,
@@ -13,7 +15,34 @@ import {
   runForecast,
   runQuadrupleForecast,
   runQuadrupleForecastWithMilestones,
+  createDistributionRandom,
+  createAutocorrelatedSampler,
+  createBlockBootstrapSampler,
+  createTrendSampler,
+  projectTrendMean,
+  createCountSampler,
+  runWorkTrial,
+  runQuadrupleWorkForecast,
+  findAdaptiveTrialCount,
+  planSimulationChunks,
+  simulateChunk,
+  simulateTrials,
+  mergeSimulationChunks,
+  sortSprintCounts,
 } from './monte-carlo'
+import {
+  createSeededRandom,
+  mean,
+  standardDeviation,
+  lag1Autocorrelation,
+  percentileConfidenceInterval,
+} from '@/shared/lib/math'
+import {
+  ADAPTIVE_TRIAL_BATCH_SIZE,
+  ADAPTIVE_P85_TOLERANCE_SPRINTS,
+  SIMULATION_CHUNK_SIZE,
+  MAX_TRIAL_SPRINTS,
+} from '../constants'
 
 // ============================================================================
 // Shared test configs (DRY)
@@ -187,6 +216,20 @@ describe('calculatePercentileResult', () => {
     expect(result.sprintsRequired).toBe(5)
     expect(result.finishDate).toBeDefined()
   })
+
+  it('steps the finish date back from a holiday', () => {
+    // Sprint 2 of 1-week sprints from Monday Dec 14 ends Friday Dec 25
+    expect(calculatePercentileResult([2], 50, '2026-12-14', 1).finishDate).toBe('2026-12-25')
+    expect(calculatePercentileResult([2], 50, '2026-12-14', 1, new Set(['2026-12-25'])).finishDate)
+      .toBe('2026-12-24')
+  })
+
+  it('dates the finish on the project work week', () => {
+    // Sprint 1 of 2-week Sun-Thu sprints from Sunday May 17 ends Thursday May 28, not Friday May 29
+    expect(calculatePercentileResult([1], 50, '2026-05-17', 2).finishDate).toBe('2026-05-29')
+    expect(calculatePercentileResult([1], 50, '2026-05-17', 2, undefined, [0, 1, 2, 3, 4]).finishDate)
+      .toBe('2026-05-28')
+  })
 })
 
 // ============================================================================
@@ -319,12 +362,22 @@ describe('runQuadrupleForecast', () => {
 
   it('all distributions produce reasonable P50 results', () => {
     const result = runQuadrupleForecast({ ...stochasticConfig, trialCount: 10000 })
-    for (const dist of [result.truncatedNormal, result.lognormal, result.gamma, result.triangular, result.uniform]) {
+    for (const dist of [result.truncatedNormal, result.lognormal, result.gamma, result.triangular, result.pert, result.uniform]) {
       expect(dist.results.p50.sprintsRequired).toBeGreaterThanOrEqual(4)
       expect(dist.results.p50.sprintsRequired).toBeLessThanOrEqual(7)
       expect(dist.results.p90.sprintsRequired).toBeGreaterThanOrEqual(dist.results.p50.sprintsRequired)
     }
   })
+
+  it('PERT simulates the three-point estimate when one is given', () => {
+    // Velocity in [26, 32] → 100 points always takes exactly 4 sprints
+    const result = runQuadrupleForecast({ ...stochasticConfig, trialCount: 500 }, undefined, undefined, undefined, {
+      pertEstimate: { lower: 26, mode: 30, upper: 32 },
+    })
+    expect(new Set(result.pert.sprintsRequired)).toEqual(new Set([4]))
+    // Other distributions keep sampling around the mean/SD
+    expect(new Set(result.triangular.sprintsRequired).size).toBeGreaterThan(1)
+  })
 })
 
 // ============================================================================
@@ -413,6 +466,21 @@ describe('edge cases', () => {
     expect(uniMax).toBeLessThanOrEqual(40)
   })
 
+  it('PERT sampler stays within ±√7 SD and keeps the mean', () => {
+    // mean=30, sd=5 → bounds ≈ [16.77, 43.23]
+    const sampler = createSampler('pert', 30, 5)
+    let sum = 0
+    const n = 20000
+    for (let i = 0; i < n; i++) {
+      const v = sampler()
+      expect(v).toBeGreaterThanOrEqual(30 - 5 * Math.sqrt(7))
+      expect(v).toBeLessThanOrEqual(30 + 5 * Math.sqrt(7))
+      sum += v
+    }
+    expect(sum / n).toBeGreaterThan(29.5)
+    expect(sum / n).toBeLessThan(30.5)
+  })
+
   it('uniform bounds are symmetric when 2*sd <= mean', () => {
     // mean=30, sd=5 → 2*sd=10 < 30 → bounds = [20, 40]
     const sampler = createSampler('uniform', 30, 5)
@@ -633,6 +701,51 @@ describe('runQuadrupleForecast with scope growth', () => {
   })
 })
 
+describe('stochastic scope growth', () => {
+  const variability = { mode: 'normal' as const, stdDev: 8 }
+
+  it('runTrial draws a scope growth sampler once per sprint', () => {
+    const sampler = createSampler('truncatedNormal', 20, 0)
+    const growth = [10, 0, 10, 0, 10, 0, 10, 0]
+    let i = 0
+    // Net burn alternates 10, 20 → 100 done after 7 sprints
+    expect(runTrial(100, sampler, undefined, () => growth[i++])).toBe(7)
+  })
+
+  it('widens the P90 relative to fixed growth with the same mean', () => {
+    const config = { ...deterministicConfig, trialCount: 2000 }
+    const fixed = runQuadrupleForecast(config, undefined, undefined, 5, { seed: 11 })
+    const sampled = runQuadrupleForecast(config, undefined, undefined, 5, { seed: 11, scopeGrowthVariability: variability })
+    // Zero velocity SD: fixed growth gives one outcome, sampled growth spreads it
+    expect(fixed.truncatedNormal.results.p90.sprintsRequired).toBe(7)
+    expect(sampled.truncatedNormal.results.p90.sprintsRequired).toBeGreaterThan(7)
+    expect(sampled.truncatedNormal.results.p50.sprintsRequired).toBe(7)
+  })
+
+  it('is reproducible for the same seed', () => {
+    const options = { seed: 3, scopeGrowthVariability: { mode: 'bootstrap' as const, injections: [0, 4, 12, 2, 7] } }
+    const a = runQuadrupleForecast(stochasticConfig, [18, 22, 25, 15, 20], undefined, 5, options)
+    const b = runQuadrupleForecast(stochasticConfig, [18, 22, 25, 15, 20], undefined, 5, options)
+    expect(a).toEqual(b)
+  })
+
+  it('is ignored when no scope growth is modeled', () => {
+    const a = runQuadrupleForecast(stochasticConfig, undefined, undefined, undefined, { seed: 5 })
+    const b = runQuadrupleForecast(stochasticConfig, undefined, undefined, undefined, { seed: 5, scopeGrowthVariability: variability })
+    expect(b).toEqual(a)
+  })
+
+  it('applies to milestone simulations', () => {
+    const fixed = runQuadrupleForecastWithMilestones(deterministicConfig, [50, 100], undefined, undefined, 5, { seed: 8 })
+    const sampled = runQuadrupleForecastWithMilestones(
+      deterministicConfig, [50, 100], undefined, undefined, 5, { seed: 8, scopeGrowthVariability: variability }
+    )
+    const last = (r: typeof fixed) => r.truncatedNormal.milestoneResults[1].sprintsRequired
+    expect(new Set(last(fixed)).size).toBe(1)
+    expect(new Set(last(sampled)).size).toBeGreaterThan(1)
+  })
+})
+
 describe('runQuadrupleForecastWithMilestones with scope growth', () => {
   it('preserves milestone ordering with scope growth', () => {
     const thresholds = [40, 70, 100]
@@ -746,3 +859,458 @@ describe('runQuadrupleForecast — lognormal vs truncatedNormal at high CV (v0.3
     expect(result.lognormal.results.p50.sprintsRequired).toBeLessThanOrEqual(13)
   })
 })
+
+// ============================================================================
+// Seeded (reproducible) simulation
+// ============================================================================
+
+describe('seeded simulation', () => {
+  const history = [18, 22, 25, 15, 20, 24]
+
+  it('runQuadrupleForecast is bit-for-bit reproducible for the same seed', () => {
+    const a = runQuadrupleForecast(stochasticConfig, history, undefined, 2, { seed: 42 })
+    const b = runQuadrupleForecast(stochasticConfig, history, undefined, 2, { seed: 42 })
+    expect(a).toEqual(b)
+  })
+
+  it('different seeds produce different trial data', () => {
+    const a = runQuadrupleForecast({ ...stochasticConfig, trialCount: 500 }, history, undefined, undefined, { seed: 1 })
+    const b = runQuadrupleForecast({ ...stochasticConfig, trialCount: 500 }, history, undefined, undefined, { seed: 2 })
+    expect(a.lognormal.sprintsRequired).not.toEqual(b.lognormal.sprintsRequired)
+  })
+
+  it('each distribution is independent of whether bootstrap runs', () => {
+    const withBootstrap = runQuadrupleForecast(stochasticConfig, history, undefined, undefined, { seed: 7 })
+    const withoutBootstrap = runQuadrupleForecast(stochasticConfig, undefined, undefined, undefined, { seed: 7 })
+    expect(withBootstrap.gamma.sprintsRequired).toEqual(withoutBootstrap.gamma.sprintsRequired)
+    expect(withBootstrap.uniform.sprintsRequired).toEqual(withoutBootstrap.uniform.sprintsRequired)
+  })
+
+  it('milestone simulation is reproducible for the same seed', () => {
+    const config = { ...milestoneBaseConfig, velocityStdDev: 6 }
+    const a = runQuadrupleForecastWithMilestones(config, [200, 500], history, undefined, undefined, { seed: 99 })
+    const b = runQuadrupleForecastWithMilestones(config, [200, 500], history, undefined, undefined, { seed: 99 })
+    expect(a).toEqual(b)
+  })
+
+  it('runSimulation honors the seed on SimulationInput', () => {
+    const input = { ...stochasticConfig, distributionType: 'gamma' as const, seed: 123 }
+    expect(runSimulation(input).sprintsRequired).toEqual(runSimulation(input).sprintsRequired)
+  })
+
+  it('seeded bootstrap sampler only returns historical values', () => {
+    const sampler = createBootstrapSampler(history, createDistributionRandom('bootstrap', 5))
+    for (let i = 0; i < 50; i++) {
+      expect(history).toContain(sampler())
+    }
+  })
+})
+
+describe('velocity autocorrelation', () => {
+  const draw = (sampler: () => number, n: number) => Array.from({ length: n }, () => sampler())
+
+  it('AR(1) wrapper preserves mean and standard deviation', () => {
+    const base = createSampler('truncatedNormal', 20, 4, undefined, createSeededRandom(11))
+    const values = draw(createAutocorrelatedSampler(base, 20, 0.6), 20000)
+    expect(mean(values)).toBeCloseTo(20, 0)
+    expect(standardDeviation(values)).toBeGreaterThan(3.6)
+    expect(standardDeviation(values)).toBeLessThan(4.4)
+  })
+
+  it('AR(1) wrapper produces the requested lag-1 correlation', () => {
+    const base = createSampler('truncatedNormal', 20, 4, undefined, createSeededRandom(12))
+    const values = draw(createAutocorrelatedSampler(base, 20, 0.6), 20000)
+    expect(lag1Autocorrelation(values)).toBeCloseTo(0.6, 1)
+  })
+
+  it('AR(1) wrapper with ρ = 0 passes base draws through unchanged', () => {
+    const a = draw(createSampler('gamma', 20, 5, undefined, createSeededRandom(3)), 50)
+    const b = draw(createAutocorrelatedSampler(createSampler('gamma', 20, 5, undefined, createSeededRandom(3)), 20, 0), 50)
+    expect(b).toEqual(a)
+  })
+
+  it('reset restarts the AR(1) chain from a fresh draw', () => {
+    const base = () => 30
+    const sampler = createAutocorrelatedSampler(base, 20, 0.5)
+    expect(sampler()).toBe(30)
+    sampler.reset?.()
+    expect(sampler()).toBe(30)
+  })
+
+  it('block bootstrap only returns historical values', () => {
+    const history = [10, 14, 18, 22, 26]
+    const sampler = createBlockBootstrapSampler(history, 0.7, createSeededRandom(8))
+    for (const v of draw(sampler, 200)) {
+      expect(history).toContain(v)
+    }
+  })
+
+  it('block bootstrap follows historical order within a block', () => {
+    const history = [1, 2, 3, 4, 5, 6, 7, 8]
+    const values = draw(createBlockBootstrapSampler(history, 0.9, createSeededRandom(4)), 5000)
+    const steps = values.slice(1).filter((v, i) => v === values[i] + 1).length
+    // ~90% continuation minus forced restarts at the end of history
+    expect(steps / values.length).toBeGreaterThan(0.7)
+  })
+
+  it('block bootstrap throws on empty velocities', () => {
+    expect(() => createBlockBootstrapSampler([], 0.5)).toThrow('Bootstrap requires historical velocity data')
+  })
+
+  it('positive autocorrelation widens the forecast spread', () => {
+    const config = { ...stochasticConfig, remainingBacklog: 400, trialCount: 2000 }
+    const independent = runQuadrupleForecast(config, undefined, undefined, undefined, { seed: 21 })
+    const correlated = runQuadrupleForecast(config, undefined, undefined, undefined, { seed: 21, autocorrelation: 0.7 })
+    const spread = (sprints: Uint16Array) => sprints[Math.floor(sprints.length * 0.9)] - sprints[Math.floor(sprints.length * 0.1)]
+    expect(spread(correlated.lognormal.sprintsRequired)).toBeGreaterThan(spread(independent.lognormal.sprintsRequired))
+  })
+
+  it('autocorrelated milestone simulation is reproducible for the same seed', () => {
+    const options = { seed: 5, autocorrelation: 0.4 }
+    const a = runQuadrupleForecastWithMilestones(milestoneBaseConfig, [200, 500], [18, 22, 25, 15, 20, 24], undefined, undefined, options)
+    const b = runQuadrupleForecastWithMilestones(milestoneBaseConfig, [200, 500], [18, 22, 25, 15, 20, 24], undefined, undefined, options)
+    expect(a).toEqual(b)
+  })
+})
+
+describe('velocity trend projection', () => {
+  const trend = { slope: 2, startOffset: 0, plateau: 30, floor: 10 }
+
+  it('projects the mean along the slope and clamps to plateau and floor', () => {
+    expect(projectTrendMean(20, trend, 1)).toBe(22)
+    expect(projectTrendMean(20, trend, 3)).toBe(26)
+    expect(projectTrendMean(20, trend, 10)).toBe(30)
+    expect(projectTrendMean(20, { ...trend, slope: -4 }, 5)).toBe(10)
+  })
+
+  it('scales draws by projected / current mean and restarts on reset', () => {
+    const sampler = createTrendSampler(() => 20, 20, trend)
+    expect([sampler(), sampler(), sampler()]).toEqual([22, 24, 26])
+    sampler.reset?.()
+    expect(sampler()).toBe(22)
+  })
+
+  it('an improving trend shortens the forecast; a declining one lengthens it', () => {
+    const config = { ...stochasticConfig, remainingBacklog: 300, trialCount: 500 }
+    const flat = runQuadrupleForecast(config, undefined, undefined, undefined, { seed: 3 })
+    const up = runQuadrupleForecast(config, undefined, undefined, undefined, {
+      seed: 3, trend: { slope: 1, startOffset: 0, plateau: 30, floor: 10 },
+    })
+    const down = runQuadrupleForecast(config, undefined, undefined, undefined, {
+      seed: 3, trend: { slope: -1, startOffset: 0, plateau: 30, floor: 10 },
+    })
+    expect(up.lognormal.results.p50.sprintsRequired).toBeLessThan(flat.lognormal.results.p50.sprintsRequired)
+    expect(down.lognormal.results.p50.sprintsRequired).toBeGreaterThan(flat.lognormal.results.p50.sprintsRequired)
+  })
+})
+
+describe('weighted bootstrap', () => {
+  const history = [5, 5, 5, 5, 40, 40]
+
+  it('window weighting resamples only the most recent sprints', () => {
+    const config = { ...stochasticConfig, trialCount: 200 }
+    const result = runQuadrupleForecast(config, history, undefined, undefined, {
+      seed: 1, bootstrapWeighting: { mode: 'window', lastN: 2 },
+    })
+    // 100 backlog at a constant 40/sprint → always 3 sprints
+    expect(new Set(result.bootstrap!.sprintsRequired)).toEqual(new Set([3]))
+  })
+
+  it('recency weighting pulls the forecast toward recent velocity', () => {
+    const config = { ...stochasticConfig, trialCount: 1000 }
+    const uniform = runQuadrupleForecast(config, history, undefined, undefined, { seed: 2 })
+    const recent = runQuadrupleForecast(config, history, undefined, undefined, {
+      seed: 2, bootstrapWeighting: { mode: 'recency', halfLife: 1 },
+    })
+    expect(recent.bootstrap!.results.p50.sprintsRequired).toBeLessThan(uniform.bootstrap!.results.p50.sprintsRequired)
+  })
+
+  it('does not affect parametric distributions', () => {
+    const a = runQuadrupleForecast(stochasticConfig, history, undefined, undefined, { seed: 3 })
+    const b = runQuadrupleForecast(stochasticConfig, history, undefined, undefined, {
+      seed: 3, bootstrapWeighting: { mode: 'recency', halfLife: 2 },
+    })
+    expect(b.lognormal.sprintsRequired).toEqual(a.lognormal.sprintsRequired)
+  })
+
+  it('weighted bootstrap sampler never picks zero-weight sprints', () => {
+    const sampler = createBootstrapSampler([1, 2, 3], createSeededRandom(6), [0, 1, 0])
+    for (let i = 0; i < 50; i++) expect(sampler()).toBe(2)
+  })
+})
+
+describe('throughput (item count) mode', () => {
+  const countConfig = { ...deterministicConfig, remainingBacklog: 10, velocityMean: 2.5, trialCount: 2000 }
+
+  it('runTrial completes whole items and allows empty sprints', () => {
+    const rng = createSeededRandom(1)
+    expect(runTrial(10, createSampler('truncatedNormal', 3, 0), undefined, undefined, rng)).toBe(4)
+    // A zero-throughput sprint finishes nothing (continuous mode would floor at 0.1)
+    expect(runTrial(10, () => 0, undefined, undefined, rng)).toBe(1000)
+    expect(runTrial(10, () => 0)).toBeLessThan(1000)
+  })
+
+  it('rounds fractional work per sprint without changing its average', () => {
+    const rng = createSeededRandom(2)
+    const trials = Array.from({ length: 2000 }, () => runTrial(10, () => 2.5, undefined, undefined, rng))
+    expect(new Set(trials)).toEqual(new Set([4, 5]))
+    expect(runTrial(10, () => 2.5)).toBe(4) // continuous: 2.5 × 4 = 10
+  })
+
+  it('createCountSampler draws integers', () => {
+    const sampler = createCountSampler(6, 4, createSeededRandom(3))
+    for (let i = 0; i < 200; i++) {
+      expect(Number.isInteger(sampler())).toBe(true)
+    }
+  })
+
+  it('spreads a zero-SD forecast and leaves continuous mode untouched', () => {
+    const continuous = runQuadrupleForecast(countConfig, undefined, undefined, undefined, { seed: 4 })
+    const counted = runQuadrupleForecast(countConfig, undefined, undefined, undefined, { seed: 4, throughputMode: true })
+    expect(new Set(continuous.truncatedNormal.sprintsRequired)).toEqual(new Set([4]))
+    expect(new Set(counted.truncatedNormal.sprintsRequired).size).toBeGreaterThan(1)
+    // Gamma becomes Poisson(2.5) at zero SD, so empty sprints stretch the tail further
+    expect(counted.gamma.results.p90.sprintsRequired).toBeGreaterThan(counted.truncatedNormal.results.p90.sprintsRequired)
+  })
+
+  it('is reproducible for the same seed, including milestones', () => {
+    const options = { seed: 5, throughputMode: true }
+    expect(runQuadrupleForecast(countConfig, [2, 3, 2, 4, 1], undefined, 1, options))
+      .toEqual(runQuadrupleForecast(countConfig, [2, 3, 2, 4, 1], undefined, 1, options))
+    expect(runQuadrupleForecastWithMilestones(countConfig, [4, 10], undefined, undefined, undefined, options))
+      .toEqual(runQuadrupleForecastWithMilestones(countConfig, [4, 10], undefined, undefined, undefined, options))
+  })
+})
+
+describe('fixed-horizon work forecast', () => {
+  it('runWorkTrial sums work over the horizon and caps at the backlog', () => {
+    expect(runWorkTrial(100, 3, createSampler('truncatedNormal', 20, 0))).toBe(60)
+    expect(runWorkTrial(100, 3, createSampler('truncatedNormal', 20, 0), [1, 0.5, 1])).toBe(50)
+    expect(runWorkTrial(100, 10, createSampler('truncatedNormal', 20, 0))).toBe(100)
+    expect(runWorkTrial(100, 0, createSampler('truncatedNormal', 20, 0))).toBe(0)
+  })
+
+  it('runWorkTrial counts progress net of scope growth', () => {
+    // 20 done less 10 added per sprint: 30 of 100 after 3 sprints, all of it only after 10
+    expect(runWorkTrial(100, 3, createSampler('truncatedNormal', 20, 0), undefined, 10)).toBe(30)
+    expect(runWorkTrial(100, 9, createSampler('truncatedNormal', 20, 0), undefined, 10)).toBe(90)
+    expect(runWorkTrial(100, 10, createSampler('truncatedNormal', 20, 0), undefined, 10)).toBe(100)
+    // Growth outpacing the team never reports negative progress
+    expect(runWorkTrial(100, 3, createSampler('truncatedNormal', 5, 0), undefined, 10)).toBe(0)
+  })
+
+  it('returns sorted completed-work arrays for every distribution', () => {
+    const data = runQuadrupleWorkForecast(stochasticConfig, 3, [15, 18, 20, 22, 25], undefined, undefined, { seed: 6 })
+    for (const values of [data.truncatedNormal, data.lognormal, data.gamma, data.bootstrap!, data.triangular, data.uniform]) {
+      expect(values).toHaveLength(stochasticConfig.trialCount)
+      expect(values).toEqual(values.slice().sort())
+      expect(values.every((v) => v >= 0 && v <= stochasticConfig.remainingBacklog)).toBe(true)
+    }
+    expect(mean(Array.from(data.truncatedNormal))).toBeCloseTo(60, -1)
+  })
+
+  it('agrees with the sprints-required forecast on the chance of finishing', () => {
+    // Trials share a sampler, so the two runs diverge draw-by-draw after the first
+    // trial; they should still agree on P(finish within N sprints) statistically.
+    const config = { ...stochasticConfig, trialCount: 4000 }
+    const options = { seed: 7 }
+    const forecast = runQuadrupleForecast(config, undefined, undefined, undefined, options)
+    const work = runQuadrupleWorkForecast(config, 5, undefined, undefined, undefined, options)
+    const finishedBySprint5 = forecast.lognormal.sprintsRequired.filter((s) => s <= 5).length / config.trialCount
+    const completedAll = work.lognormal.filter((w) => w >= config.remainingBacklog).length / config.trialCount
+    expect(Math.abs(completedAll - finishedBySprint5)).toBeLessThan(0.04)
+  })
+
+  it('agrees with the sprints-required forecast when scope grows', () => {
+    const config = { ...stochasticConfig, trialCount: 4000 }
+    const options = { seed: 8 }
+    const forecast = runQuadrupleForecast(config, undefined, undefined, 5, options)
+    const work = runQuadrupleWorkForecast(config, 7, undefined, undefined, 5, options)
+    const finishedBySprint7 = forecast.lognormal.sprintsRequired.filter((s) => s <= 7).length / config.trialCount
+    const completedAll = work.lognormal.filter((w) => w >= config.remainingBacklog).length / config.trialCount
+    expect(finishedBySprint7).toBeGreaterThan(0.1)
+    expect(finishedBySprint7).toBeLessThan(0.9)
+    expect(Math.abs(completedAll - finishedBySprint7)).toBeLessThan(0.04)
+  })
+})
+
+describe('interpolated (day-level) backlog', () => {
+  it('runInterpolatedTrial records how far into the final sprint the backlog ran out', () => {
+    expect(runInterpolatedTrial(50, createSampler('truncatedNormal', 20, 0))).toBeCloseTo(2.5)
+    expect(runInterpolatedTrial(60, createSampler('truncatedNormal', 20, 0))).toBe(3)
+    // Net burn of the final sprint is 20 work less 10 growth: 10 left → the whole sprint
+    expect(runInterpolatedTrial(30, createSampler('truncatedNormal', 20, 0), undefined, 10)).toBeCloseTo(3)
+    expect(runInterpolatedTrial(25, createSampler('truncatedNormal', 20, 0), [1, 0.5])).toBeCloseTo(1.5)
+  })
+
+  it('keeps a capped trial whole', () => {
+    expect(runInterpolatedTrial(1e9, createSampler('truncatedNormal', 1, 0))).toBe(MAX_TRIAL_SPRINTS)
+  })
+
+  it('rounds up to the sprint-level forecast for the same seed', () => {
+    const ctx = {
+      config: stochasticConfig,
+      historicalVelocities: [15, 18, 20, 22, 25],
+      scopeGrowthPerSprint: 2,
+      seed: 9,
+    }
+    const [interpolated] = simulateTrials(ctx, { kind: 'interpolatedBacklog' })
+    const [sprints] = simulateTrials(ctx, { kind: 'backlog' })
+    expect(interpolated.lognormal).toBeInstanceOf(Float64Array)
+    expect(interpolated.bootstrap).toEqual(interpolated.bootstrap!.slice().sort())
+    expect(interpolated.gamma.some((v) => !Number.isInteger(v))).toBe(true)
+    expect(quantizeInterpolatedData(interpolated)).toEqual(sprints)
+  })
+
+  it('matches the sprint-level forecast in throughput mode', () => {
+    const ctx = { config: stochasticConfig, throughputMode: true, seed: 5 }
+    const [interpolated] = simulateTrials(ctx, { kind: 'interpolatedBacklog' })
+    expect(quantizeInterpolatedData(interpolated)).toEqual(simulateTrials(ctx, { kind: 'backlog' })[0])
+  })
+})
+
+describe('adaptive trial count', () => {
+  const noisyConfig = { ...stochasticConfig, remainingBacklog: 2000, velocityStdDev: 15 }
+
+  it('stops after the first batch when every trial agrees', () => {
+    expect(findAdaptiveTrialCount({ config: deterministicConfig, seed: 1 }))
+      .toEqual({ trialCount: ADAPTIVE_TRIAL_BATCH_SIZE, converged: true })
+  })
+
+  it('keeps adding batches until P85 stabilizes, reproducibly for a seed', () => {
+    const ctx = { config: noisyConfig, seed: 11 }
+    const adaptive = findAdaptiveTrialCount(ctx)
+    expect(adaptive.converged).toBe(true)
+    expect(adaptive.trialCount).toBeGreaterThan(ADAPTIVE_TRIAL_BATCH_SIZE)
+    expect(adaptive.trialCount % ADAPTIVE_TRIAL_BATCH_SIZE).toBe(0)
+    expect(findAdaptiveTrialCount(ctx)).toEqual(adaptive)
+  })
+
+  it('replays to a forecast whose P85 bands meet the tolerance', () => {
+    const options = { seed: 11 }
+    const { trialCount } = findAdaptiveTrialCount({ config: noisyConfig, ...options })
+    const forecast = runQuadrupleForecast({ ...noisyConfig, trialCount }, undefined, undefined, undefined, options)
+    for (const dist of [forecast.truncatedNormal, forecast.lognormal, forecast.gamma, forecast.triangular, forecast.uniform]) {
+      expect(dist.sprintsRequired).toHaveLength(trialCount)
+      const band = percentileConfidenceInterval(dist.sprintsRequired, 85)
+      expect(band.upper - band.lower).toBeLessThanOrEqual(ADAPTIVE_P85_TOLERANCE_SPRINTS)
+    }
+  })
+})
+
+describe('chunked simulation', () => {
+  const ctx = { config: { ...stochasticConfig, trialCount: 2500 }, historicalVelocities: [15, 18, 20, 22, 25], seed: 21 }
+
+  it('plans full chunks with a short final chunk', () => {
+    expect(planSimulationChunks(2500)).toEqual([
+      { index: 0, trialCount: SIMULATION_CHUNK_SIZE },
+      { index: 1, trialCount: SIMULATION_CHUNK_SIZE },
+      { index: 2, trialCount: 500 },
+    ])
+  })
+
+  it('plans one empty chunk for a zero-trial run', () => {
+    expect(planSimulationChunks(0)).toEqual([{ index: 0, trialCount: 0 }])
+  })
+
+  it('draws each chunk from its own stream, independent of run order', () => {
+    const target = { kind: 'backlog' as const }
+    const [first, , third] = planSimulationChunks(2500)
+    const thirdAlone = simulateChunk(ctx, target, third)
+    simulateChunk(ctx, target, first)
+    expect(simulateChunk(ctx, target, third)).toEqual(thirdAlone)
+    expect(thirdAlone[0].lognormal).not.toEqual(simulateChunk(ctx, target, first)[0].lognormal.slice(0, 500))
+  })
+
+  it('merges chunks to the same sorted result however they are grouped', () => {
+    const target = { kind: 'milestones' as const, cumulativeThresholds: [40, 100] }
+    const chunks = planSimulationChunks(2500).map((chunk) => simulateChunk(ctx, target, chunk))
+    const merged = mergeSimulationChunks(chunks)
+    const regrouped = mergeSimulationChunks([mergeSimulationChunks([chunks[2], chunks[0]]), chunks[1]])
+    expect(regrouped).toEqual(merged)
+    expect(merged).toHaveLength(2)
+    expect(merged[1].bootstrap).toHaveLength(2500)
+    expect(merged[1].pert).toEqual(merged[1].pert.slice().sort())
+    expect(simulateTrials(ctx, target)).toEqual(merged)
+  })
+
+  it('keeps Bootstrap null without sprint history', () => {
+    const [series] = simulateTrials({ config: stochasticConfig, seed: 3 }, { kind: 'backlog' })
+    expect(series.bootstrap).toBeNull()
+    expect(series.gamma).toHaveLength(stochasticConfig.trialCount)
+  })
+})
+
+describe('milestone gates', () => {
+  const ctx = { config: { ...deterministicConfig, trialCount: 50 }, seed: 9 }
+  const thresholds = [30, 90]
+  const constantReady = (sprints: number) => {
+    const ready = new Uint16Array(20).fill(sprints)
+    return {
+      truncatedNormal: ready, lognormal: ready, gamma: ready, bootstrap: null,
+      triangular: ready, pert: ready, uniform: ready,
+    }
+  }
+
+  it('holds a gated milestone until its upstream is ready and carries the wait forward', () => {
+    const ungated = simulateTrials(ctx, { kind: 'milestones', cumulativeThresholds: thresholds })
+    expect([ungated[0].lognormal[0], ungated[1].lognormal[0]]).toEqual([2, 5])
+
+    const second = simulateTrials(ctx, {
+      kind: 'milestones', cumulativeThresholds: thresholds, gates: [{ milestoneIndex: 1, readySprints: constantReady(4) }],
+    })
+    expect([second[0].lognormal[49], second[1].lognormal[0], second[1].lognormal[49]]).toEqual([2, 7, 7])
+
+    const first = simulateTrials(ctx, {
+      kind: 'milestones', cumulativeThresholds: thresholds, gates: [{ milestoneIndex: 0, readySprints: constantReady(3) }],
+    })
+    expect([first[0].lognormal[0], first[1].lognormal[0]]).toEqual([5, 8])
+  })
+
+  it('does not wait for an upstream ready before the preceding milestone', () => {
+    const [, final] = simulateTrials(ctx, {
+      kind: 'milestones', cumulativeThresholds: thresholds, gates: [{ milestoneIndex: 1, readySprints: constantReady(1) }],
+    })
+    expect(final.lognormal[49]).toBe(5)
+  })
+
+  it('leaves the own-velocity trials unchanged, so gated and ungated runs compare trial for trial', () => {
+    const stochastic = { config: { ...stochasticConfig, trialCount: 500 }, historicalVelocities: [15, 18, 20, 22, 25], seed: 4 }
+    const ungated = simulateTrials(stochastic, { kind: 'milestones', cumulativeThresholds: thresholds })
+    const gated = simulateTrials(stochastic, {
+      kind: 'milestones', cumulativeThresholds: thresholds, gates: [{ milestoneIndex: 1, readySprints: constantReady(0) }],
+    })
+    expect(gated).toEqual(ungated)
+  })
+
+  it('reaches thresholds out of list order and delays only the gated work stream', () => {
+    // Parallel streams: the second milestone needs less total work than the first
+    const parallel = [90, 30]
+    const ungated = simulateTrials(ctx, { kind: 'milestones', cumulativeThresholds: parallel })
+    expect([ungated[0].lognormal[0], ungated[1].lognormal[0]]).toEqual([5, 2])
+
+    const gated = simulateTrials(ctx, {
+      kind: 'milestones',
+      cumulativeThresholds: parallel,
+      gates: [{ milestoneIndex: 0, readySprints: constantReady(3) }],
+      predecessors: [-1, -1],
+    })
+    expect([gated[0].lognormal[0], gated[1].lognormal[0]]).toEqual([8, 2])
+  })
+})
+
+describe('typed-array samples', () => {
+  it('counting-sorts sprint counts in place, including the cap', () => {
+    const counts = Uint16Array.from([7, 0, MAX_TRIAL_SPRINTS, 3, 7, 1])
+    expect(sortSprintCounts(counts)).toBe(counts)
+    expect(Array.from(counts)).toEqual([0, 1, 3, 7, 7, MAX_TRIAL_SPRINTS])
+  })
+
+  it('stores sprint counts as Uint16Array and completed work as Float64Array', () => {
+    const forecast = runQuadrupleForecast(stochasticConfig, [15, 18, 20, 22, 25], undefined, undefined, { seed: 4 })
+    expect(forecast.gamma.sprintsRequired).toBeInstanceOf(Uint16Array)
+    expect(forecast.bootstrap?.sprintsRequired).toBeInstanceOf(Uint16Array)
+    const work = runQuadrupleWorkForecast(stochasticConfig, 3, [15, 18, 20, 22, 25], undefined, undefined, { seed: 4 })
+    expect(work.pert).toBeInstanceOf(Float64Array)
+  })
+})
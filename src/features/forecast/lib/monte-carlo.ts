@@ -7,13 +7,33 @@ import {
   randomLognormalFromMeanStdDev,
   randomGammaFromMeanStdDev,
   randomTriangular,
+  randomPert,
   randomUniform,
+  randomNegativeBinomialFromMeanStdDev,
+  stochasticRound,
   percentileFromSorted,
+  percentileConfidenceInterval,
+  createSeededRandom,
+  deriveSeed,
+  type RandomSource,
 } from '@/shared/lib/math'
-import { calculateSprintStartDate, calculateSprintFinishDate } from '@/shared/lib/dates'
+import {
+  calculateSprintStartDate,
+  calculateSprintFinishDate,
+  type NonWorkingDays,
+  type WorkWeek,
+} from '@/shared/lib/dates'
 import type { ForecastConfig, ForecastResult } from '@/shared/types'
 import type { DistributionType } from '../types'
-import { MAX_TRIAL_SPRINTS } from '../constants'
+import {
+  MAX_TRIAL_SPRINTS,
+  MAX_AUTOCORRELATION,
+  SIMULATION_CHUNK_SIZE,
+  ADAPTIVE_MAX_TRIALS,
+  ADAPTIVE_P85_TOLERANCE_SPRINTS,
+} from '../constants'
+import { applyBootstrapWeighting, createIndexPicker, type BootstrapWeighting } from './bootstrap-weighting'
+import { createScopeGrowthSampler, type ScopeGrowthVariability } from './scope-growth'
 
 export interface SimulationInput {
   remainingBacklog: number
@@ -23,10 +43,11 @@ export interface SimulationInput {
   sprintCadenceWeeks: number
   trialCount: number
   distributionType?: DistributionType
+  seed?: number // Optional PRNG seed; omitted → Math.random (non-reproducible)
 }
 
 export interface SimulationOutput {
-  sprintsRequired: number[] // Sorted array of sprint counts from each trial
+  sprintsRequired: Uint16Array // Sorted array of sprint counts from each trial
   distributionType: DistributionType
 }
 
@@ -41,16 +62,40 @@ export interface PercentileResults {
 /**
  * Velocity sampler function type.
  * Each distribution provides a sampler that returns a raw velocity sample.
+ * Stateful samplers (e.g., autocorrelated) expose `reset`, which the trial
+ * runners call at the start of every trial so state never leaks between trials.
+ */
+export type VelocitySampler = (() => number) & { reset?: () => void }
+
+/**
+ * Per-sprint scope growth: a fixed amount, or a sampler drawn once per simulated sprint.
  */
-export type VelocitySampler = () => number
+export type ScopeGrowth = number | (() => number)
+
+function scopeGrowthStep(scopeGrowth: ScopeGrowth, countRounding?: RandomSource): number {
+  const growth = typeof scopeGrowth === 'number' ? scopeGrowth : scopeGrowth()
+  return countRounding ? stochasticRound(growth, countRounding) : growth
+}
+
+/**
+ * Work completed in one sprint. Continuous velocities are floored at 0.1 so a trial
+ * always progresses; in throughput mode (`countRounding` given) the sprint completes
+ * a whole number of items, possibly none.
+ */
+function sprintWork(sampler: VelocitySampler, factor: number, countRounding?: RandomSource): number {
+  return countRounding
+    ? stochasticRound(Math.max(0, sampler()) * factor, countRounding)
+    : Math.max(0.1, sampler()) * factor
+}
 
 // ============================================================================
 // Sampler factories
 // ============================================================================
 
 /**
- * Bounds for triangular/uniform distributions.
- * Triangular uses ±3 SD; Uniform uses ±2 SD.
+ * Bounds for triangular/PERT/uniform distributions.
+ * Triangular uses ±3 SD; PERT uses ±√7 SD; Uniform uses ±2 SD.
+ * PERT bounds double as a user's three-point (min / most likely / max) estimate.
  */
 export interface DistributionBounds {
   lower: number
@@ -76,6 +121,15 @@ function triangularBounds(mean: number, stdDev: number): DistributionBounds {
   return computeBounds(mean, stdDev, 3)
 }
 
+/**
+ * PERT bounds: ±√7 SD.
+ * A symmetric Beta-PERT over [a, b] has SD (b − a)/√28, so this half-width
+ * reproduces the velocity SD exactly (before the non-negative cap).
+ */
+export function pertBounds(mean: number, stdDev: number): DistributionBounds {
+  return computeBounds(mean, stdDev, Math.sqrt(7))
+}
+
 /**
  * Uniform bounds: ±2 SD.
  * Uniform gives equal weight across the range, so tighter bounds
@@ -87,39 +141,222 @@ function uniformBounds(mean: number, stdDev: number): DistributionBounds {
 
 /**
  * Create a velocity sampler for a parametric distribution type.
- * Triangular defaults to ±3 SD bounds; Uniform defaults to ±2 SD bounds.
+ * Triangular defaults to ±3 SD bounds, PERT to ±√7 SD, Uniform to ±2 SD.
+ * Pass a seeded `rng` for reproducible draws (defaults to Math.random).
  */
 export function createSampler(
   distributionType: DistributionType,
   mean: number,
   stdDev: number,
-  bounds?: DistributionBounds
+  bounds?: DistributionBounds,
+  rng: RandomSource = Math.random
 ): VelocitySampler {
   switch (distributionType) {
     case 'lognormal':
-      return () => randomLognormalFromMeanStdDev(mean, stdDev)
+      return () => randomLognormalFromMeanStdDev(mean, stdDev, rng)
     case 'gamma':
-      return () => randomGammaFromMeanStdDev(mean, stdDev)
+      return () => randomGammaFromMeanStdDev(mean, stdDev, rng)
     case 'triangular': {
       const b = bounds ?? triangularBounds(mean, stdDev)
-      return () => randomTriangular(b.lower, b.mode, b.upper)
+      return () => randomTriangular(b.lower, b.mode, b.upper, rng)
+    }
+    case 'pert': {
+      const b = bounds ?? pertBounds(mean, stdDev)
+      return () => randomPert(b.lower, b.mode, b.upper, rng)
     }
     case 'uniform': {
       const b = bounds ?? uniformBounds(mean, stdDev)
-      return () => randomUniform(b.lower, b.upper)
+      return () => randomUniform(b.lower, b.upper, rng)
     }
     case 'truncatedNormal':
     default:
-      return () => randomTruncatedNormal(mean, stdDev, 0)
+      return () => randomTruncatedNormal(mean, stdDev, 0, rng)
   }
 }
 
+/**
+ * Create an integer throughput sampler for item-count forecasting: a negative binomial
+ * (Gamma–Poisson) fit to the mean and SD, or Poisson when the counts are not overdispersed.
+ */
+export function createCountSampler(
+  mean: number,
+  stdDev: number,
+  rng: RandomSource = Math.random
+): VelocitySampler {
+  return () => randomNegativeBinomialFromMeanStdDev(mean, stdDev, rng)
+}
+
 /**
  * Create a velocity sampler that randomly selects from historical velocities.
+ * Optional `weights` (1:1 with velocities) bias selection, e.g. toward recent sprints.
  */
-export function createBootstrapSampler(velocities: number[]): VelocitySampler {
+export function createBootstrapSampler(
+  velocities: number[],
+  rng: RandomSource = Math.random,
+  weights: number[] | null = null
+): VelocitySampler {
   if (velocities.length === 0) throw new Error('Bootstrap requires historical velocity data')
-  return () => velocities[Math.floor(Math.random() * velocities.length)]
+  const pick = createIndexPicker(velocities.length, weights, rng)
+  return () => velocities[pick()]
+}
+
+/**
+ * Clamp an estimated lag-1 autocorrelation into the range the samplers support.
+ * |ρ| → 1 would freeze velocity for an entire trial, so it is capped.
+ */
+function clampAutocorrelation(rho: number): number {
+  return Math.max(-MAX_AUTOCORRELATION, Math.min(MAX_AUTOCORRELATION, rho))
+}
+
+/**
+ * Wrap a sampler so consecutive draws within a trial follow a stationary AR(1) process:
+ *
+ *   v₁ = x₁
+ *   vₜ = μ + ρ(vₜ₋₁ − μ) + √(1 − ρ²)(xₜ − μ)
+ *
+ * where xₜ are independent draws from the base sampler. The blend preserves the
+ * base distribution's mean and variance while giving lag-1 correlation ρ, so a slow
+ * sprint tends to be followed by another slow sprint. Works for any parametric base.
+ */
+export function createAutocorrelatedSampler(
+  base: VelocitySampler,
+  mean: number,
+  autocorrelation: number
+): VelocitySampler {
+  const rho = clampAutocorrelation(autocorrelation)
+  const innovationScale = Math.sqrt(1 - rho * rho)
+  let prev: number | null = null
+  const sampler: VelocitySampler = () => {
+    const x = base()
+    const v = prev === null ? x : mean + rho * (prev - mean) + innovationScale * (x - mean)
+    prev = v
+    return v
+  }
+  sampler.reset = () => {
+    prev = null
+    base.reset?.()
+  }
+  return sampler
+}
+
+/**
+ * Block (stationary) bootstrap: resample historical sprints in runs that follow the
+ * recorded sprint order. After each draw the next sprint in history is taken with
+ * probability `continuation`, otherwise a new random starting sprint is picked.
+ * Mean block length is 1 / (1 − continuation), so continuation = 0 reduces to the
+ * plain i.i.d. bootstrap. Runs preserve the history's own serial dependence.
+ *
+ * @param velocities - Historical velocities in chronological (sprint-number) order
+ * @param continuation - Probability of continuing the current block (0 ≤ p < 1)
+ * @param weights - Optional block-start weights (1:1 with velocities)
+ */
+export function createBlockBootstrapSampler(
+  velocities: number[],
+  continuation: number,
+  rng: RandomSource = Math.random,
+  weights: number[] | null = null
+): VelocitySampler {
+  if (velocities.length === 0) throw new Error('Bootstrap requires historical velocity data')
+  const p = Math.max(0, Math.min(MAX_AUTOCORRELATION, continuation))
+  const pick = createIndexPicker(velocities.length, weights, rng)
+  let idx = -1
+  const sampler: VelocitySampler = () => {
+    if (idx < 0 || idx >= velocities.length - 1 || rng() >= p) {
+      idx = pick()
+    } else {
+      idx++
+    }
+    return velocities[idx]
+  }
+  sampler.reset = () => {
+    idx = -1
+  }
+  return sampler
+}
+
+/**
+ * Linear velocity trend projected into future sprints.
+ * The projected mean for future sprint k (1-based) is
+ * clamp(mean + slope × (startOffset + k), floor, plateau).
+ */
+export interface VelocityTrend {
+  slope: number // velocity change per sprint (regression slope)
+  startOffset: number // sprints from the history centroid to the last completed sprint
+  plateau: number // projected mean never rises above this
+  floor: number // projected mean never falls below this
+}
+
+/**
+ * Projected mean velocity for future sprint `sprint` (1-based) under a trend.
+ */
+export function projectTrendMean(mean: number, trend: VelocityTrend, sprint: number): number {
+  const projected = mean + trend.slope * (trend.startOffset + sprint)
+  return Math.max(trend.floor, Math.min(trend.plateau, projected))
+}
+
+/**
+ * Wrap a sampler so each future sprint's draw follows the projected trend mean.
+ * Draws are scaled by projectedMean / mean, which shifts the mean along the trend
+ * while keeping the coefficient of variation (and non-negativity) of the base.
+ * Composes with autocorrelated and bootstrap bases: the trend is applied last.
+ */
+export function createTrendSampler(
+  base: VelocitySampler,
+  mean: number,
+  trend: VelocityTrend
+): VelocitySampler {
+  let sprint = 0
+  const sampler: VelocitySampler = () => {
+    sprint++
+    const x = base()
+    return mean > 0 ? x * (projectTrendMean(mean, trend, sprint) / mean) : x
+  }
+  sampler.reset = () => {
+    sprint = 0
+    base.reset?.()
+  }
+  return sampler
+}
+
+/**
+ * Fixed PRNG sub-stream per distribution. Each distribution draws from its own
+ * seeded stream, so its results depend only on the seed — not on which other
+ * distributions ran before it or how many draws they consumed.
+ */
+const SEED_STREAMS: Record<DistributionType, number> = {
+  truncatedNormal: 0,
+  lognormal: 1,
+  gamma: 2,
+  bootstrap: 3,
+  triangular: 4,
+  uniform: 5,
+  pert: 6,
+}
+
+/**
+ * Random source for one distribution: seeded sub-stream when a seed is given,
+ * Math.random otherwise.
+ */
+export function createDistributionRandom(distributionType: DistributionType, seed?: number): RandomSource {
+  if (seed === undefined) return Math.random
+  return createSeededRandom(deriveSeed(seed, SEED_STREAMS[distributionType]))
+}
+
+/** Offsets that separate auxiliary sub-streams from the velocity sub-streams */
+const SCOPE_SEED_STREAM_OFFSET = 16
+const COUNT_SEED_STREAM_OFFSET = 32
+const GATE_SEED_STREAM_OFFSET = 48
+/** Offset for per-chunk seeds, clear of every per-distribution stream above */
+const CHUNK_SEED_STREAM_OFFSET = 64
+
+/**
+ * Random source for one distribution's auxiliary draws (scope growth, count rounding,
+ * milestone gates).
+ * Kept apart from the velocity stream so enabling either never shifts velocity draws.
+ */
+function createAuxiliaryRandom(distributionType: DistributionType, offset: number, seed?: number): RandomSource {
+  if (seed === undefined) return Math.random
+  return createSeededRandom(deriveSeed(seed, offset + SEED_STREAMS[distributionType]))
 }
 
 // ============================================================================
@@ -132,101 +369,219 @@ export function createBootstrapSampler(velocities: number[]): VelocitySampler {
  * @param remainingBacklog - Work remaining
  * @param sampler - Function that returns a velocity sample from the chosen distribution
  * @param productivityFactors - Optional per-sprint multipliers (index 0 = first sprint)
- * @param scopeGrowthPerSprint - Optional scope growth per sprint (positive = growing, negative = shrinking)
+ * @param scopeGrowthPerSprint - Optional scope growth per sprint (positive = growing, negative = shrinking);
+ *   a sampler is drawn once per sprint
+ * @param countRounding - Throughput mode: round each sprint's work (and scope growth) to whole
+ *   items with this random source; omitted → continuous velocities
  */
 export function runTrial(
   remainingBacklog: number,
   sampler: VelocitySampler,
   productivityFactors?: number[],
-  scopeGrowthPerSprint?: number
+  scopeGrowthPerSprint?: ScopeGrowth,
+  countRounding?: RandomSource
+): number {
+  let remaining = remainingBacklog
+  let sprints = 0
+  sampler.reset?.()
+
+  while (remaining > 0 && sprints < MAX_TRIAL_SPRINTS) {
+    if (scopeGrowthPerSprint !== undefined) remaining += scopeGrowthStep(scopeGrowthPerSprint, countRounding)
+    const factor = productivityFactors?.[sprints] ?? 1.0
+    remaining -= sprintWork(sampler, factor, countRounding)
+    sprints++
+  }
+
+  return sprints
+}
+
+/**
+ * Smallest final-sprint fraction an interpolated trial records, so rounding never
+ * moves a crossing back into the previous sprint
+ */
+const MIN_FINAL_SPRINT_FRACTION = 1e-6
+
+/**
+ * Interpolated trial runner: like runTrial, but records how far into its final
+ * sprint the backlog ran out — `(sprints − 1) + fraction`, where the fraction is the
+ * share of that sprint's net burn (work less scope growth) the remaining backlog
+ * needed. Draws match runTrial's, so `Math.ceil` of the result is runTrial's sprint
+ * count for the same sampler state; a trial that hits MAX_TRIAL_SPRINTS stays whole.
+ */
+export function runInterpolatedTrial(
+  remainingBacklog: number,
+  sampler: VelocitySampler,
+  productivityFactors?: number[],
+  scopeGrowthPerSprint?: ScopeGrowth,
+  countRounding?: RandomSource
 ): number {
   let remaining = remainingBacklog
   let sprints = 0
+  sampler.reset?.()
 
   while (remaining > 0 && sprints < MAX_TRIAL_SPRINTS) {
-    if (scopeGrowthPerSprint !== undefined) remaining += scopeGrowthPerSprint
-    const baseVelocity = Math.max(0.1, sampler())
+    const before = remaining
+    if (scopeGrowthPerSprint !== undefined) remaining += scopeGrowthStep(scopeGrowthPerSprint, countRounding)
     const factor = productivityFactors?.[sprints] ?? 1.0
-    remaining -= baseVelocity * factor
+    remaining -= sprintWork(sampler, factor, countRounding)
     sprints++
+    if (remaining <= 0) {
+      // The sprint burned before − remaining ≥ before > 0 net; the backlog hit zero partway
+      const fraction = before / (before - remaining)
+      return sprints - 1 + Math.min(1, Math.max(MIN_FINAL_SPRINT_FRACTION, fraction))
+    }
   }
 
   return sprints
 }
 
+/**
+ * Milestone indices in the order their thresholds are reached (ascending
+ * threshold, ties in index order). Parallel work streams can reach a later
+ * milestone before an earlier one.
+ */
+function thresholdOrder(cumulativeThresholds: number[]): number[] {
+  return cumulativeThresholds
+    .map((_, idx) => idx)
+    .sort((a, b) => cumulativeThresholds[a] - cumulativeThresholds[b] || a - b)
+}
+
 /**
  * Core trial runner with milestone checkpoints: records the sprint number
  * at which each cumulative backlog threshold is reached.
  *
  * @param remainingBacklog - Total work remaining (sum of all milestones)
- * @param cumulativeThresholds - Ascending cumulative backlog values for each milestone
+ * @param cumulativeThresholds - Cumulative backlog values for each milestone
+ * @param order - Milestone indices by ascending threshold (see thresholdOrder)
  * @param sampler - Function that returns a velocity sample from the chosen distribution
  * @param productivityFactors - Optional per-sprint multipliers (index 0 = first sprint)
- * @param scopeGrowthPerSprint - Optional scope growth per sprint (positive = growing, negative = shrinking)
+ * @param scopeGrowthPerSprint - Optional scope growth per sprint (fixed amount or per-sprint sampler)
+ * @param countRounding - Throughput mode: round work to whole items (see runTrial)
  * @returns Array of sprint counts, one per milestone
  */
 function runTrialWithMilestones(
   remainingBacklog: number,
   cumulativeThresholds: number[],
+  order: number[],
   sampler: VelocitySampler,
   productivityFactors?: number[],
-  scopeGrowthPerSprint?: number
+  scopeGrowthPerSprint?: ScopeGrowth,
+  countRounding?: RandomSource
 ): number[] {
   let remaining = remainingBacklog
   let sprints = 0
   let nextIdx = 0
   const results = new Array<number>(cumulativeThresholds.length).fill(MAX_TRIAL_SPRINTS)
+  sampler.reset?.()
 
   while (remaining > 0 && sprints < MAX_TRIAL_SPRINTS) {
-    if (scopeGrowthPerSprint !== undefined) remaining += scopeGrowthPerSprint
-    const baseVelocity = Math.max(0.1, sampler())
+    if (scopeGrowthPerSprint !== undefined) remaining += scopeGrowthStep(scopeGrowthPerSprint, countRounding)
     const factor = productivityFactors?.[sprints] ?? 1.0
-    const work = baseVelocity * factor
-    remaining -= work
+    remaining -= sprintWork(sampler, factor, countRounding)
     sprints++
 
-    // Check milestones (ascending order, pointer advances monotonically).
+    // Check milestones (threshold order, pointer advances monotonically).
     // Use remaining-based check so scope growth correctly delays milestones.
     // Without scope growth: remaining = B - completed, so
     // remaining <= B - T  ⟺  completed >= T (equivalent to old check).
-    while (nextIdx < cumulativeThresholds.length &&
-           remaining <= remainingBacklog - cumulativeThresholds[nextIdx]) {
-      results[nextIdx] = sprints
+    while (nextIdx < order.length &&
+           remaining <= remainingBacklog - cumulativeThresholds[order[nextIdx]]) {
+      results[order[nextIdx]] = sprints
       nextIdx++
     }
   }
 
   // Mark any remaining milestones as reached at the final sprint
-  while (nextIdx < cumulativeThresholds.length) {
-    results[nextIdx] = sprints
+  while (nextIdx < order.length) {
+    results[order[nextIdx]] = sprints
     nextIdx++
   }
 
   return results
 }
 
+/**
+ * Hold a milestone's work until an upstream project's milestone is done.
+ * `readySprints` holds, per distribution and sorted ascending, how many of this
+ * project's forecast sprints start on or before the upstream milestone's finish
+ * date — one value per upstream trial. Bootstrap falls back to the upstream
+ * Lognormal series when the upstream project has no history to resample.
+ */
+export interface MilestoneGate {
+  milestoneIndex: number
+  readySprints: DistributionMap<Uint16Array>
+}
+
+/**
+ * Delay one trial's milestone sprint counts (in place) by its gates. Each gate
+ * draws one upstream trial; a gated milestone's work starts once the milestone
+ * before it in its work stream is reached and every gate on it is ready, and the
+ * stream waits rather than working ahead, so the delay carries to every later
+ * milestone in that stream. `predecessors` gives each milestone's predecessor in
+ * its stream (−1 for none); omitted, milestones form one serial stream. A waiting
+ * stream's capacity isn't lent to the others.
+ */
+function applyMilestoneGates(
+  reached: number[],
+  gates: MilestoneGate[],
+  distribution: DistributionType,
+  random: RandomSource,
+  predecessors?: number[]
+): void {
+  const ready = new Array<number>(reached.length).fill(0)
+  for (const gate of gates) {
+    const samples = gate.readySprints[distribution] ?? gate.readySprints.lognormal
+    if (samples.length === 0 || gate.milestoneIndex >= reached.length) continue
+    const draw = samples[Math.floor(random() * samples.length)]
+    ready[gate.milestoneIndex] = Math.max(ready[gate.milestoneIndex], draw)
+  }
+  // Predecessors always come earlier in the list, so one pass sees them shifted.
+  const delay = new Array<number>(reached.length).fill(0)
+  for (let m = 0; m < reached.length; m++) {
+    const pred = predecessors ? predecessors[m] : m - 1
+    const start = pred < 0 ? 0 : reached[pred]
+    delay[m] = (pred < 0 ? 0 : delay[pred]) + Math.max(0, ready[m] - start)
+    reached[m] = Math.min(MAX_TRIAL_SPRINTS, reached[m] + delay[m])
+  }
+}
+
 // ============================================================================
 // Simulation functions
 // ============================================================================
 
+/**
+ * Sort sprint counts in place with a counting sort. Counts are integers in
+ * [0, MAX_TRIAL_SPRINTS], so this is linear in the trial count.
+ */
+export function sortSprintCounts(counts: Uint16Array): Uint16Array {
+  const tally = new Uint32Array(MAX_TRIAL_SPRINTS + 1)
+  for (let i = 0; i < counts.length; i++) tally[counts[i]]++
+  let next = 0
+  for (let sprints = 0; sprints < tally.length; sprints++) {
+    counts.fill(sprints, next, next + tally[sprints])
+    next += tally[sprints]
+  }
+  return counts
+}
+
 /**
  * Run N trials with a given sampler and return sorted sprint counts.
- * Common kernel used by all simulation entry points.
+ * Kernel for single-distribution simulations (runSimulation).
  */
 function runTrials(
   remainingBacklog: number,
   sampler: VelocitySampler,
   trialCount: number,
   productivityFactors?: number[],
-  scopeGrowthPerSprint?: number
-): number[] {
+  scopeGrowthPerSprint?: ScopeGrowth,
+  countRounding?: RandomSource
+): Uint16Array {
   const factors = productivityFactors && productivityFactors.length > 0 ? productivityFactors : undefined
-  const sprintsRequired: number[] = []
+  const sprintsRequired = new Uint16Array(trialCount)
   for (let i = 0; i < trialCount; i++) {
-    sprintsRequired.push(runTrial(remainingBacklog, sampler, factors, scopeGrowthPerSprint))
+    sprintsRequired[i] = runTrial(remainingBacklog, sampler, factors, scopeGrowthPerSprint, countRounding)
   }
-  sprintsRequired.sort((a, b) => a - b)
-  return sprintsRequired
+  return sortSprintCounts(sprintsRequired)
 }
 
 /**
@@ -236,7 +591,7 @@ function runTrials(
 export function runSimulation(
   input: SimulationInput,
   productivityFactors?: number[],
-  scopeGrowthPerSprint?: number
+  scopeGrowthPerSprint?: ScopeGrowth
 ): SimulationOutput {
   const {
     remainingBacklog,
@@ -244,9 +599,13 @@ export function runSimulation(
     velocityStdDev,
     trialCount,
     distributionType = 'lognormal',
+    seed,
   } = input
 
-  const sampler = createSampler(distributionType, velocityMean, velocityStdDev)
+  const sampler = createSampler(
+    distributionType, velocityMean, velocityStdDev, undefined,
+    createDistributionRandom(distributionType, seed)
+  )
 
   return {
     sprintsRequired: runTrials(remainingBacklog, sampler, trialCount, productivityFactors, scopeGrowthPerSprint),
@@ -259,13 +618,17 @@ export function runSimulation(
 // ============================================================================
 
 /**
- * Calculate the finish date for a given percentile
+ * Calculate the finish date for a given percentile. With `nonWorkingDays` and
+ * `workWeek`, the date steps back to the final sprint's last working day, as sprint
+ * history does.
  */
 export function calculatePercentileResult(
-  sortedSprintsRequired: number[],
+  sortedSprintsRequired: ArrayLike<number>,
   percentile: number,
   startDate: string,
-  sprintCadenceWeeks: number
+  sprintCadenceWeeks: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
 ): ForecastResult {
   const sprintsRequired = Math.ceil(
     percentileFromSorted(sortedSprintsRequired, percentile)
@@ -273,7 +636,7 @@ export function calculatePercentileResult(
   // Calculate the finish date as the last business day of the final sprint
   // startDate is when sprint 1 starts, so sprint N starts at startDate + (N-1) * cadence
   const finalSprintStart = calculateSprintStartDate(startDate, sprintsRequired, sprintCadenceWeeks)
-  const finishDate = calculateSprintFinishDate(finalSprintStart, sprintCadenceWeeks)
+  const finishDate = calculateSprintFinishDate(finalSprintStart, sprintCadenceWeeks, nonWorkingDays, workWeek)
 
   return {
     percentile,
@@ -296,7 +659,7 @@ export function calculatePercentileResult(
  * Empty simulation data yields 0 (no information, no confidence).
  */
 export function cumulativeProbabilityAtSprint(
-  sortedSprintsRequired: number[],
+  sortedSprintsRequired: ArrayLike<number>,
   sprints: number,
 ): number {
   if (sortedSprintsRequired.length === 0) return 0
@@ -304,8 +667,8 @@ export function cumulativeProbabilityAtSprint(
   // back, since most sims finish within a tight band around the median.
   // Even simpler: just filter. The arrays are typically 1k–10k entries; this is fine.
   let count = 0
-  for (const s of sortedSprintsRequired) {
-    if (s <= sprints) count++
+  for (let i = 0; i < sortedSprintsRequired.length; i++) {
+    if (sortedSprintsRequired[i] <= sprints) count++
     else break // sorted: no later entries can satisfy
   }
   return (count / sortedSprintsRequired.length) * 100
@@ -315,25 +678,29 @@ export function cumulativeProbabilityAtSprint(
  * Extract percentile results from a simulation
  */
 function extractPercentileResults(
-  sortedSprintsRequired: number[],
+  sortedSprintsRequired: ArrayLike<number>,
   startDate: string,
-  sprintCadenceWeeks: number
+  sprintCadenceWeeks: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
 ): PercentileResults {
+  const result = (percentile: number) =>
+    calculatePercentileResult(sortedSprintsRequired, percentile, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek)
   return {
-    p50: calculatePercentileResult(sortedSprintsRequired, 50, startDate, sprintCadenceWeeks),
-    p60: calculatePercentileResult(sortedSprintsRequired, 60, startDate, sprintCadenceWeeks),
-    p70: calculatePercentileResult(sortedSprintsRequired, 70, startDate, sprintCadenceWeeks),
-    p80: calculatePercentileResult(sortedSprintsRequired, 80, startDate, sprintCadenceWeeks),
-    p90: calculatePercentileResult(sortedSprintsRequired, 90, startDate, sprintCadenceWeeks),
+    p50: result(50),
+    p60: result(60),
+    p70: result(70),
+    p80: result(80),
+    p90: result(90),
   }
 }
 
 /**
  * Run a full forecast simulation and return results for standard percentiles.
  * Convenience wrapper that uses the v0.32.0 app default distribution (lognormal).
- * For a full sweep across all six distributions in one pass, use runQuadrupleForecast.
+ * For a full sweep across all seven distributions in one pass, use runQuadrupleForecast.
  */
-export function runForecast(config: ForecastConfig & { sprintCadenceWeeks: number }): PercentileResults {
+export function runForecast(config: SimulationConfig): PercentileResults {
   const simulation = runSimulation({
     remainingBacklog: config.remainingBacklog,
     velocityMean: config.velocityMean,
@@ -344,19 +711,66 @@ export function runForecast(config: ForecastConfig & { sprintCadenceWeeks: numbe
     distributionType: 'lognormal',
   })
 
-  return extractPercentileResults(simulation.sprintsRequired, config.startDate, config.sprintCadenceWeeks)
+  return extractPercentileResults(
+    simulation.sprintsRequired, config.startDate, config.sprintCadenceWeeks, config.nonWorkingDays, config.workWeek
+  )
 }
 
 // ============================================================================
 // Simulation context (R4 — replaces positional parameter threading)
 // ============================================================================
 
+/**
+ * Optional sampling behaviour shared by every simulation entry point.
+ */
+export interface SimulationOptions {
+  seed?: number // PRNG seed for reproducible runs; omitted → Math.random
+  /**
+   * Lag-1 velocity autocorrelation (ρ). When set (and non-zero), per-sprint draws within
+   * a trial are correlated: AR(1) for parametric distributions, block bootstrap for
+   * Bootstrap. Omitted → independent draws.
+   */
+  autocorrelation?: number
+  /** Projected velocity trend; omitted → stationary mean */
+  trend?: VelocityTrend
+  /** Bootstrap sprint weighting (recency decay or last-N window); omitted → uniform */
+  bootstrapWeighting?: BootstrapWeighting
+  /**
+   * Sample scope growth each sprint around `scopeGrowthPerSprint` instead of adding a
+   * constant. Ignored when no scope growth is modeled; omitted → fixed growth.
+   */
+  scopeGrowthVariability?: ScopeGrowthVariability
+  /**
+   * Throughput (item count) mode: every sprint completes a whole number of items.
+   * The Gamma slot samples a negative binomial (Gamma–Poisson) count, the other
+   * parametric draws are rounded stochastically, and the 0.1 velocity floor becomes 0.
+   */
+  throughputMode?: boolean
+  /**
+   * Three-point (min / most likely / max) velocity estimate for PERT.
+   * Omitted → ±√7 SD around the mean, which matches the velocity SD.
+   */
+  pertEstimate?: DistributionBounds
+}
+
+/**
+ * Forecast inputs at the forecast sprint cadence. `nonWorkingDays` (the project's
+ * holidays) and `workWeek` only date the results; productivity factors carry their
+ * effect on work.
+ */
+export type SimulationConfig = ForecastConfig & {
+  sprintCadenceWeeks: number
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
+}
+
 /**
  * Groups the parameters that flow together through the simulation pipeline.
  * Matches the shape of WorkerInput for seamless worker integration.
  */
-export interface SimulationContext {
-  config: ForecastConfig & { sprintCadenceWeeks: number }
+export interface SimulationContext extends SimulationOptions {
+  config: SimulationConfig
+  /** Historical velocities in chronological order (block bootstrap relies on it) */
   historicalVelocities?: number[]
   productivityFactors?: number[]
   scopeGrowthPerSprint?: number
@@ -366,6 +780,27 @@ export interface SimulationContext {
 // Quadruple distribution types and helpers
 // ============================================================================
 
+/**
+ * One value per distribution; Bootstrap is null without sprint history.
+ */
+export interface DistributionMap<T> {
+  truncatedNormal: T
+  lognormal: T
+  gamma: T
+  bootstrap: T | null
+  triangular: T
+  pert: T
+  uniform: T
+}
+
+/**
+ * Percentile results plus the sorted sprint counts they were read from, for one distribution
+ */
+export interface DistributionForecast {
+  results: PercentileResults
+  sprintsRequired: Uint16Array
+}
+
 /**
  * Percentile results for all distributions (used by results table, summary, etc.)
  */
@@ -375,20 +810,26 @@ export interface QuadResults {
   gamma: PercentileResults
   bootstrap: PercentileResults | null
   triangular: PercentileResults
+  pert: PercentileResults
   uniform: PercentileResults
 }
 
 /**
- * Simulation data structure (raw sprint counts from each distribution)
+ * Simulation data structure (sorted raw sprint counts from each distribution).
+ * Counts never exceed MAX_TRIAL_SPRINTS, so 16 bits per trial suffice.
  */
-export interface QuadSimulationData {
-  truncatedNormal: number[]
-  lognormal: number[]
-  gamma: number[]
-  bootstrap: number[] | null
-  triangular: number[]
-  uniform: number[]
-}
+export type QuadSimulationData = DistributionMap<Uint16Array>
+
+/**
+ * Fixed-horizon simulation data (sorted work completed per trial, per distribution)
+ */
+export type QuadWorkData = DistributionMap<Float64Array>
+
+/**
+ * Fractional sprints required per distribution (sorted ascending), from the
+ * `interpolatedBacklog` target
+ */
+export type QuadInterpolatedData = DistributionMap<Float64Array>
 
 /**
  * Custom percentile results for all distributions
@@ -399,6 +840,7 @@ export interface QuadCustomResults {
   gamma: ForecastResult | null
   bootstrap: ForecastResult | null
   triangular: ForecastResult | null
+  pert: ForecastResult | null
   uniform: ForecastResult | null
 }
 
@@ -409,17 +851,20 @@ export function calculateAllCustomPercentiles(
   data: QuadSimulationData,
   percentile: number,
   startDate: string,
-  sprintCadenceWeeks: number
+  sprintCadenceWeeks: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
 ): QuadCustomResults {
+  const result = (sorted: ArrayLike<number>) =>
+    calculatePercentileResult(sorted, percentile, startDate, sprintCadenceWeeks, nonWorkingDays, workWeek)
   return {
-    truncatedNormal: calculatePercentileResult(data.truncatedNormal, percentile, startDate, sprintCadenceWeeks),
-    lognormal: calculatePercentileResult(data.lognormal, percentile, startDate, sprintCadenceWeeks),
-    gamma: calculatePercentileResult(data.gamma, percentile, startDate, sprintCadenceWeeks),
-    bootstrap: data.bootstrap
-      ? calculatePercentileResult(data.bootstrap, percentile, startDate, sprintCadenceWeeks)
-      : null,
-    triangular: calculatePercentileResult(data.triangular, percentile, startDate, sprintCadenceWeeks),
-    uniform: calculatePercentileResult(data.uniform, percentile, startDate, sprintCadenceWeeks),
+    truncatedNormal: result(data.truncatedNormal),
+    lognormal: result(data.lognormal),
+    gamma: result(data.gamma),
+    bootstrap: data.bootstrap ? result(data.bootstrap) : null,
+    triangular: result(data.triangular),
+    pert: result(data.pert),
+    uniform: result(data.uniform),
   }
 }
 
@@ -429,58 +874,362 @@ export function calculateAllCustomPercentiles(
 
 /**
  * Run a callback for each distribution + optional bootstrap.
- * All 6 parametric distributions always run; the UI layer filters which to display.
+ * All six parametric distributions always run (plus Bootstrap with history); the UI layer filters which to display.
+ * Each run gets its own scope growth (a fresh sampler on its own seed stream when
+ * scope growth is stochastic) and, in throughput mode, its own count-rounding stream.
  */
 function runAllDistributions<T>(
   ctx: SimulationContext,
-  runOne: (sampler: VelocitySampler) => T,
-): { truncatedNormal: T; lognormal: T; gamma: T; bootstrap: T | null; triangular: T; uniform: T } {
-  const { config, historicalVelocities } = ctx
+  runOne: (
+    sampler: VelocitySampler,
+    scopeGrowth: ScopeGrowth | undefined,
+    countRounding: RandomSource | undefined,
+    distribution: DistributionType
+  ) => T,
+): DistributionMap<T> {
+  const {
+    config, historicalVelocities, seed, autocorrelation, trend, bootstrapWeighting,
+    scopeGrowthPerSprint, scopeGrowthVariability, throughputMode, pertEstimate,
+  } = ctx
   const { velocityMean: m, velocityStdDev: sd } = config
   const triBounds = triangularBounds(m, sd)
+  const pertRange = pertEstimate ?? pertBounds(m, sd)
   const uniBounds = uniformBounds(m, sd)
+  const rng = (d: DistributionType) => createDistributionRandom(d, seed)
+  const correlated = autocorrelation !== undefined && autocorrelation !== 0
+  const trended = (s: VelocitySampler) => (trend ? createTrendSampler(s, m, trend) : s)
+  const parametric = (d: DistributionType, bounds?: DistributionBounds): VelocitySampler => {
+    const base = throughputMode && d === 'gamma'
+      ? createCountSampler(m, sd, rng(d))
+      : createSampler(d, m, sd, bounds, rng(d))
+    return trended(correlated ? createAutocorrelatedSampler(base, m, autocorrelation) : base)
+  }
+  const scopeGrowth = (d: DistributionType): ScopeGrowth | undefined =>
+    scopeGrowthPerSprint !== undefined && scopeGrowthVariability
+      ? createScopeGrowthSampler(
+          scopeGrowthPerSprint, scopeGrowthVariability, createAuxiliaryRandom(d, SCOPE_SEED_STREAM_OFFSET, seed)
+        )
+      : scopeGrowthPerSprint
+  const countRounding = (d: DistributionType): RandomSource | undefined =>
+    throughputMode ? createAuxiliaryRandom(d, COUNT_SEED_STREAM_OFFSET, seed) : undefined
+  const run = (d: DistributionType, sampler: VelocitySampler) => runOne(sampler, scopeGrowth(d), countRounding(d), d)
 
-  const truncatedNormal = runOne(createSampler('truncatedNormal', m, sd))
-  const lognormal = runOne(createSampler('lognormal', m, sd))
-  const gamma = runOne(createSampler('gamma', m, sd))
-  const triangular = runOne(createSampler('triangular', m, sd, triBounds))
-  const uniform = runOne(createSampler('uniform', m, sd, uniBounds))
+  const truncatedNormal = run('truncatedNormal', parametric('truncatedNormal'))
+  const lognormal = run('lognormal', parametric('lognormal'))
+  const gamma = run('gamma', parametric('gamma'))
+  const triangular = run('triangular', parametric('triangular', triBounds))
+  const pert = run('pert', parametric('pert', pertRange))
+  const uniform = run('uniform', parametric('uniform', uniBounds))
 
   let bootstrap: T | null = null
   if (historicalVelocities && historicalVelocities.length > 0) {
-    bootstrap = runOne(createBootstrapSampler(historicalVelocities))
+    const { velocities, weights } = applyBootstrapWeighting(historicalVelocities, bootstrapWeighting)
+    bootstrap = run('bootstrap', trended(correlated
+      ? createBlockBootstrapSampler(velocities, Math.abs(autocorrelation), rng('bootstrap'), weights)
+      : createBootstrapSampler(velocities, rng('bootstrap'), weights)))
   }
 
-  return { truncatedNormal, lognormal, gamma, bootstrap, triangular, uniform }
+  return { truncatedNormal, lognormal, gamma, bootstrap, triangular, pert, uniform }
+}
+
+// ============================================================================
+// Chunked execution (progress, cancellation and worker sharding)
+// ============================================================================
+
+/**
+ * What each trial measures:
+ * - `backlog`: sprints to finish the whole backlog
+ * - `milestones`: sprints to reach each cumulative milestone threshold, held back
+ *   by any cross-project `gates`; `predecessors` links each milestone to the one
+ *   before it in its work stream (−1 for none; omitted → one serial stream)
+ * - `work`: work completed in a fixed number of sprints
+ * - `interpolatedBacklog`: as `backlog`, but fractional — how far into the final
+ *   sprint the backlog ran out (see runInterpolatedTrial)
+ */
+export type SimulationTarget =
+  | { kind: 'backlog' }
+  | { kind: 'interpolatedBacklog' }
+  | { kind: 'milestones'; cumulativeThresholds: number[]; gates?: MilestoneGate[]; predecessors?: number[] }
+  | { kind: 'work'; sprintCount: number }
+
+/** Per-trial samples: sprint counts, or fractional values for the `work` and `interpolatedBacklog` targets */
+export type SimulationSamples = Uint16Array | Float64Array
+
+/** Result series a target produces: sprint counts, work completed for `work`, or fractional sprints */
+export type TargetSimulationData<T extends SimulationTarget> =
+  T extends { kind: 'work' } ? QuadWorkData
+    : T extends { kind: 'interpolatedBacklog' } ? QuadInterpolatedData
+      : QuadSimulationData
+
+/**
+ * A block of consecutive trials. Chunks are the unit of progress reporting,
+ * cancellation and worker sharding.
+ */
+export interface SimulationChunk {
+  index: number
+  trialCount: number
+}
+
+/**
+ * Split a run into SIMULATION_CHUNK_SIZE-trial chunks (the last may be short).
+ * Always returns at least one chunk, so every run yields its result series.
+ */
+export function planSimulationChunks(trialCount: number): SimulationChunk[] {
+  const chunks: SimulationChunk[] = []
+  for (let start = 0; start < trialCount || chunks.length === 0; start += SIMULATION_CHUNK_SIZE) {
+    chunks.push({
+      index: chunks.length,
+      trialCount: Math.max(0, Math.min(SIMULATION_CHUNK_SIZE, trialCount - start)),
+    })
+  }
+  return chunks
+}
+
+/**
+ * Seed for one chunk. Chunk 0 keeps the run's seed, so a single-chunk run draws
+ * exactly what it did before chunking; later chunks get derived seeds. A chunk's
+ * draws depend only on the seed and its index, never on which worker ran it.
+ */
+function chunkSeed(seed: number | undefined, chunkIndex: number): number | undefined {
+  if (seed === undefined || chunkIndex === 0) return seed
+  return deriveSeed(seed, CHUNK_SEED_STREAM_OFFSET + chunkIndex)
+}
+
+/**
+ * Build a per-distribution map; Bootstrap is computed only when `withBootstrap`.
+ */
+function mapDistributions<T>(withBootstrap: boolean, fn: (distribution: DistributionType) => T): DistributionMap<T> {
+  return {
+    truncatedNormal: fn('truncatedNormal'),
+    lognormal: fn('lognormal'),
+    gamma: fn('gamma'),
+    bootstrap: withBootstrap ? fn('bootstrap') : null,
+    triangular: fn('triangular'),
+    pert: fn('pert'),
+    uniform: fn('uniform'),
+  }
+}
+
+/** Sort samples in place: counting sort for sprint counts, numeric sort for work */
+function sortSamples<S extends SimulationSamples>(samples: S): S {
+  if (samples instanceof Uint16Array) sortSprintCounts(samples)
+  else samples.sort()
+  return samples
+}
+
+/** Concatenate sorted sample arrays of one kind and re-sort */
+function mergeSamples<S extends SimulationSamples>(arrays: S[]): S {
+  const total = arrays.reduce((sum, samples) => sum + samples.length, 0)
+  const merged = (arrays[0] instanceof Float64Array ? new Float64Array(total) : new Uint16Array(total)) as S
+  let offset = 0
+  for (const samples of arrays) {
+    merged.set(samples, offset)
+    offset += samples.length
+  }
+  return sortSamples(merged)
+}
+
+/**
+ * Simulate one chunk across all distributions.
+ * Returns one data set per result series — one per milestone, otherwise a single
+ * series — with every array sorted ascending.
+ */
+export function simulateChunk<T extends SimulationTarget>(
+  ctx: SimulationContext,
+  target: T,
+  chunk: SimulationChunk
+): TargetSimulationData<T>[] {
+  const { config, productivityFactors } = ctx
+  const factors = productivityFactors && productivityFactors.length > 0 ? productivityFactors : undefined
+  const seriesCount = target.kind === 'milestones' ? target.cumulativeThresholds.length : 1
+  const createSamples = (): SimulationSamples =>
+    target.kind === 'work' || target.kind === 'interpolatedBacklog'
+      ? new Float64Array(chunk.trialCount)
+      : new Uint16Array(chunk.trialCount)
+
+  const seed = chunkSeed(ctx.seed, chunk.index)
+  const gates = target.kind === 'milestones' && target.gates && target.gates.length > 0 ? target.gates : undefined
+  const milestoneOrder = target.kind === 'milestones' ? thresholdOrder(target.cumulativeThresholds) : []
+
+  const runs = runAllDistributions(
+    { ...ctx, seed },
+    (sampler, scopeGrowth, countRounding, distribution) => {
+      const series = Array.from({ length: seriesCount }, createSamples)
+      // Gate draws use their own stream, so a gated run's own-velocity trials match
+      // an ungated run with the same seed trial for trial.
+      const gateRandom = gates ? createAuxiliaryRandom(distribution, GATE_SEED_STREAM_OFFSET, seed) : undefined
+      for (let i = 0; i < chunk.trialCount; i++) {
+        if (target.kind === 'milestones') {
+          const reached = runTrialWithMilestones(
+            config.remainingBacklog, target.cumulativeThresholds, milestoneOrder,
+            sampler, factors, scopeGrowth, countRounding
+          )
+          if (gates) applyMilestoneGates(reached, gates, distribution, gateRandom!, target.predecessors)
+          for (let m = 0; m < seriesCount; m++) series[m][i] = reached[m]
+        } else if (target.kind === 'work') {
+          series[0][i] = runWorkTrial(config.remainingBacklog, target.sprintCount, sampler, factors, scopeGrowth, countRounding)
+        } else if (target.kind === 'interpolatedBacklog') {
+          series[0][i] = runInterpolatedTrial(config.remainingBacklog, sampler, factors, scopeGrowth, countRounding)
+        } else {
+          series[0][i] = runTrial(config.remainingBacklog, sampler, factors, scopeGrowth, countRounding)
+        }
+      }
+      for (const samples of series) sortSamples(samples)
+      return series
+    }
+  )
+
+  return Array.from({ length: seriesCount }, (_, s) =>
+    mapDistributions(runs.bootstrap !== null, (d) => runs[d]![s])
+  ) as TargetSimulationData<T>[]
+}
+
+/**
+ * Merge chunk results (each as returned by simulateChunk, or an earlier merge) into
+ * one sorted array per series and distribution. Because the output is sorted, it
+ * does not depend on how the chunks were grouped across workers or the order they
+ * finished in.
+ */
+export function mergeSimulationChunks<D extends QuadSimulationData | QuadWorkData>(parts: D[][]): D[] {
+  if (parts.length === 0) return []
+  return parts[0].map((first, s) =>
+    mapDistributions(first.bootstrap !== null, (d) =>
+      mergeSamples(parts.map((part) => part[s][d]!))
+    )
+  ) as D[]
+}
+
+/**
+ * Run every chunk of `ctx.config.trialCount` trials in this thread and merge them.
+ * Gives the same result as running the chunks on any number of workers.
+ */
+export function simulateTrials<T extends SimulationTarget>(
+  ctx: SimulationContext,
+  target: T
+): TargetSimulationData<T>[] {
+  return mergeSimulationChunks(
+    planSimulationChunks(ctx.config.trialCount).map((chunk) => simulateChunk(ctx, target, chunk))
+  )
+}
+
+/**
+ * Percentile results for merged backlog (sprints-required) data.
+ */
+export function buildQuadForecast(
+  data: QuadSimulationData,
+  config: Pick<SimulationConfig, 'startDate' | 'sprintCadenceWeeks' | 'nonWorkingDays' | 'workWeek'>
+): DistributionMap<DistributionForecast> {
+  return mapDistributions(data.bootstrap !== null, (d) => {
+    const sprintsRequired = data[d]!
+    return {
+      results: extractPercentileResults(sprintsRequired, config.startDate, config.sprintCadenceWeeks, config.nonWorkingDays, config.workWeek),
+      sprintsRequired,
+    }
+  })
 }
 
 /**
- * Run forecasts across all distributions (T-Normal, Lognormal, Gamma, Triangular, Uniform + Bootstrap).
+ * Whole sprint counts from interpolated backlog data: each trial's final sprint,
+ * which is what the `backlog` target gives for the same seed. Rounding up keeps
+ * the arrays sorted.
+ */
+export function quantizeInterpolatedData(data: QuadInterpolatedData): QuadSimulationData {
+  return mapDistributions(data.bootstrap !== null, (d) => Uint16Array.from(data[d]!, (sprints) => Math.ceil(sprints)))
+}
+
+/**
+ * Per-milestone percentile results for merged milestone data (one series per milestone).
+ */
+export function buildQuadMilestoneForecast(
+  series: QuadSimulationData[],
+  config: Pick<SimulationConfig, 'startDate' | 'sprintCadenceWeeks' | 'nonWorkingDays' | 'workWeek'>
+): QuadMilestoneForecastResult {
+  const withBootstrap = series.length > 0 && series[0].bootstrap !== null
+  return mapDistributions(withBootstrap, (d) => ({
+    milestoneResults: series.map((data) => {
+      const sprintsRequired = data[d]!
+      return {
+        results: extractPercentileResults(sprintsRequired, config.startDate, config.sprintCadenceWeeks, config.nonWorkingDays, config.workWeek),
+        sprintsRequired,
+      }
+    }),
+  }))
+}
+
+/**
+ * Run forecasts across all distributions (T-Normal, Lognormal, Gamma, Triangular, PERT, Uniform + Bootstrap).
  * Bootstrap is only included if historical velocities are provided.
+ * When `options.seed` is given, the results are reproducible bit-for-bit.
  */
 export function runQuadrupleForecast(
-  config: ForecastConfig & { sprintCadenceWeeks: number },
+  config: SimulationConfig,
   historicalVelocities?: number[],
   productivityFactors?: number[],
-  scopeGrowthPerSprint?: number
-): {
-  truncatedNormal: { results: PercentileResults; sprintsRequired: number[] }
-  lognormal: { results: PercentileResults; sprintsRequired: number[] }
-  gamma: { results: PercentileResults; sprintsRequired: number[] }
-  bootstrap: { results: PercentileResults; sprintsRequired: number[] } | null
-  triangular: { results: PercentileResults; sprintsRequired: number[] }
-  uniform: { results: PercentileResults; sprintsRequired: number[] }
-} {
-  const ctx: SimulationContext = { config, historicalVelocities, productivityFactors, scopeGrowthPerSprint }
-  const factors = productivityFactors && productivityFactors.length > 0 ? productivityFactors : undefined
+  scopeGrowthPerSprint?: number,
+  options: SimulationOptions = {}
+): DistributionMap<DistributionForecast> {
+  const ctx: SimulationContext = { config, historicalVelocities, productivityFactors, scopeGrowthPerSprint, ...options }
+  return buildQuadForecast(simulateTrials(ctx, { kind: 'backlog' })[0], config)
+}
 
-  return runAllDistributions(ctx, (sampler) => {
-    const sprintsRequired = runTrials(
-      config.remainingBacklog, sampler, config.trialCount, factors, scopeGrowthPerSprint
-    )
-    const results = extractPercentileResults(sprintsRequired, config.startDate, config.sprintCadenceWeeks)
-    return { results, sprintsRequired }
-  })
+// ============================================================================
+// Adaptive trial count (convergence on P85)
+// ============================================================================
+
+/**
+ * Outcome of the adaptive convergence pass
+ */
+export interface AdaptiveTrialResult {
+  /** Trials per distribution needed for P85 to stabilize (a multiple of the batch size) */
+  trialCount: number
+  /** False when ADAPTIVE_MAX_TRIALS was reached before every P85 stabilized */
+  converged: boolean
+}
+
+/**
+ * Incremental convergence pass: each `step()` simulates one more batch (one chunk)
+ * across all distributions and returns the outcome once every P85 has stabilized
+ * or the trial cap is reached — null while more batches are needed. Lets a worker
+ * report progress and honour cancellation between batches.
+ */
+export function createAdaptiveTrialSearch(ctx: SimulationContext): { step: () => AdaptiveTrialResult | null } {
+  let merged: QuadSimulationData | null = null
+  let chunkIndex = 0
+
+  return {
+    step: () => {
+      const batch = simulateChunk(ctx, { kind: 'backlog' }, { index: chunkIndex++, trialCount: SIMULATION_CHUNK_SIZE })
+      const current: QuadSimulationData = mergeSimulationChunks(merged ? [[merged], batch] : [batch])[0]
+      merged = current
+      const trialCount = chunkIndex * SIMULATION_CHUNK_SIZE
+
+      const stable = Object.values(current)
+        .filter((values): values is Uint16Array => values !== null)
+        .every((values) => {
+          const band = percentileConfidenceInterval(values, 85)
+          return band.upper - band.lower <= ADAPTIVE_P85_TOLERANCE_SPRINTS
+        })
+      if (stable) return { trialCount, converged: true }
+      if (trialCount >= ADAPTIVE_MAX_TRIALS) return { trialCount, converged: false }
+      return null
+    },
+  }
+}
+
+/**
+ * Run trial batches across all distributions until each one's P85 sprint count has a
+ * 95% confidence band no wider than ADAPTIVE_P85_TOLERANCE_SPRINTS, or the trial cap
+ * is reached. P85 is checked on the total backlog — what the headline forecast reports.
+ *
+ * Only the count is returned: callers re-run their simulation at that count so every
+ * distribution (and every milestone) shares one trial count. Batches are whole chunks,
+ * so with a seed the re-run replays exactly the trials this pass drew.
+ */
+export function findAdaptiveTrialCount(ctx: SimulationContext): AdaptiveTrialResult {
+  const search = createAdaptiveTrialSearch(ctx)
+  let result = search.step()
+  while (result === null) result = search.step()
+  return result
 }
 
 // ============================================================================
@@ -492,20 +1241,13 @@ export function runQuadrupleForecast(
  */
 export interface MilestoneDistributionResult {
   /** Per-milestone results: milestoneResults[milestoneIdx] = { results, sprintsRequired } */
-  milestoneResults: Array<{ results: PercentileResults; sprintsRequired: number[] }>
+  milestoneResults: DistributionForecast[]
 }
 
 /**
  * Full forecast result with milestone data for all distributions
  */
-export interface QuadMilestoneForecastResult {
-  truncatedNormal: MilestoneDistributionResult
-  lognormal: MilestoneDistributionResult
-  gamma: MilestoneDistributionResult
-  bootstrap: MilestoneDistributionResult | null
-  triangular: MilestoneDistributionResult
-  uniform: MilestoneDistributionResult
-}
+export type QuadMilestoneForecastResult = DistributionMap<MilestoneDistributionResult>
 
 /**
  * Milestone-aware simulation data (raw sprint counts per milestone per distribution)
@@ -516,65 +1258,67 @@ export interface QuadMilestoneSimulationData {
 }
 
 /**
- * Run milestone-aware simulation for a single distribution.
+ * Run quadruple forecasts with milestone checkpoints.
  * Each trial records the sprint at which each cumulative milestone threshold is reached.
+ * Returns per-milestone percentile results and sorted sprint arrays for each distribution.
+ * When `options.seed` is given, the results are reproducible bit-for-bit.
  */
-function runMilestoneSimulationInternal(
-  remainingBacklog: number,
+export function runQuadrupleForecastWithMilestones(
+  config: SimulationConfig,
   cumulativeThresholds: number[],
-  sampler: VelocitySampler,
-  trialCount: number,
-  startDate: string,
-  sprintCadenceWeeks: number,
+  historicalVelocities?: number[],
   productivityFactors?: number[],
-  scopeGrowthPerSprint?: number
-): MilestoneDistributionResult {
-  const milestoneCount = cumulativeThresholds.length
+  scopeGrowthPerSprint?: number,
+  options: SimulationOptions = {}
+): QuadMilestoneForecastResult {
+  const ctx: SimulationContext = { config, historicalVelocities, productivityFactors, scopeGrowthPerSprint, ...options }
+  return buildQuadMilestoneForecast(simulateTrials(ctx, { kind: 'milestones', cumulativeThresholds }), config)
+}
 
-  // Collect per-milestone sprint counts across all trials
-  const milestoneSprintArrays: number[][] = Array.from(
-    { length: milestoneCount },
-    () => new Array<number>(trialCount)
-  )
+// ============================================================================
+// Fixed-horizon ("how much by date") simulation
+// ============================================================================
 
-  for (let i = 0; i < trialCount; i++) {
-    const trialResults = runTrialWithMilestones(
-      remainingBacklog, cumulativeThresholds, sampler, productivityFactors, scopeGrowthPerSprint
-    )
-    for (let m = 0; m < milestoneCount; m++) {
-      milestoneSprintArrays[m][i] = trialResults[m]
-    }
-  }
+/**
+ * Core fixed-horizon trial: progress on the original backlog after exactly
+ * `sprintCount` sprints. Scope growth is applied before each sprint's work,
+ * exactly as in runTrial, so progress is work done net of growth: the trial has
+ * "completed everything" only when the grown backlog is burned down, which keeps
+ * this distribution consistent with the sprints-required forecast. Capped at
+ * `remainingBacklog` and floored at 0; trials that finish early stop drawing.
+ */
+export function runWorkTrial(
+  remainingBacklog: number,
+  sprintCount: number,
+  sampler: VelocitySampler,
+  productivityFactors?: number[],
+  scopeGrowthPerSprint?: ScopeGrowth,
+  countRounding?: RandomSource
+): number {
+  let remaining = remainingBacklog
+  sampler.reset?.()
 
-  // Sort each milestone's array and extract percentile results
-  const milestoneResults = milestoneSprintArrays.map((sprintArray) => {
-    sprintArray.sort((a, b) => a - b)
-    const results = extractPercentileResults(sprintArray, startDate, sprintCadenceWeeks)
-    return { results, sprintsRequired: sprintArray }
-  })
+  for (let sprint = 0; sprint < sprintCount && remaining > 0; sprint++) {
+    if (scopeGrowthPerSprint !== undefined) remaining += scopeGrowthStep(scopeGrowthPerSprint, countRounding)
+    remaining -= sprintWork(sampler, productivityFactors?.[sprint] ?? 1.0, countRounding)
+  }
 
-  return { milestoneResults }
+  return Math.min(Math.max(remainingBacklog - remaining, 0), remainingBacklog)
 }
 
 /**
- * Run quadruple forecasts with milestone checkpoints.
- * Returns per-milestone percentile results and sorted sprint arrays for each distribution.
+ * Inverse forecast across all distributions: simulate a fixed number of sprints
+ * and return, per distribution, the sorted work completed in each trial.
+ * Uses the same samplers, seeds and options as runQuadrupleForecast.
  */
-export function runQuadrupleForecastWithMilestones(
-  config: ForecastConfig & { sprintCadenceWeeks: number },
-  cumulativeThresholds: number[],
+export function runQuadrupleWorkForecast(
+  config: SimulationConfig,
+  sprintCount: number,
   historicalVelocities?: number[],
   productivityFactors?: number[],
-  scopeGrowthPerSprint?: number
-): QuadMilestoneForecastResult {
-  const { remainingBacklog, startDate, sprintCadenceWeeks, trialCount } = config
-  const ctx: SimulationContext = { config, historicalVelocities, productivityFactors, scopeGrowthPerSprint }
-  const factors = productivityFactors && productivityFactors.length > 0 ? productivityFactors : undefined
-
-  return runAllDistributions(ctx, (sampler) =>
-    runMilestoneSimulationInternal(
-      remainingBacklog, cumulativeThresholds, sampler,
-      trialCount, startDate, sprintCadenceWeeks, factors, scopeGrowthPerSprint
-    )
-  )
+  scopeGrowthPerSprint?: number,
+  options: SimulationOptions = {}
+): QuadWorkData {
+  const ctx: SimulationContext = { config, historicalVelocities, productivityFactors, scopeGrowthPerSprint, ...options }
+  return simulateTrials(ctx, { kind: 'work', sprintCount })[0]
 }
@@ -2,24 +2,79 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import { runQuadrupleForecast, runQuadrupleForecastWithMilestones } from './monte-carlo'
-import type { SimulationContext } from './monte-carlo'
+import { runChunksCooperatively, findAdaptiveTrialCountCooperatively } from './simulation-pool'
+import type {
+  SimulationContext,
+  SimulationTarget,
+  SimulationChunk,
+  QuadSimulationData,
+  QuadWorkData,
+  AdaptiveTrialResult,
+} from './monte-carlo'
 
-export interface WorkerInput extends SimulationContext {
-  milestoneThresholds?: number[] // Cumulative backlog thresholds for milestone mode
-  _messageId?: number            // Correlation ID echoed back to caller
+/**
+ * Messages the simulation hook sends to a worker. `_messageId` correlates every
+ * response (and a later cancel) with the run that asked for it.
+ */
+export type WorkerRequest =
+  | { type: 'run'; _messageId: number; context: SimulationContext; target: SimulationTarget; chunks: SimulationChunk[] }
+  | { type: 'adaptive'; _messageId: number; context: SimulationContext } // Settle the trial count on P85
+  | { type: 'cancel'; _messageId: number }
+
+/**
+ * Messages a worker posts back. A run sends progress after each chunk, then exactly
+ * one of result / adaptive / cancelled / error.
+ */
+export type WorkerResponse =
+  | { type: 'progress'; _messageId: number; completedTrials: number }
+  | { type: 'result'; _messageId: number; series: Array<QuadSimulationData | QuadWorkData> }
+  | { type: 'adaptive'; _messageId: number; adaptive: AdaptiveTrialResult }
+  | { type: 'cancelled'; _messageId: number }
+  | { type: 'error'; _messageId: number; message: string }
+
+// Runs still in progress, and the subset asked to stop. Messages arrive in order, so a
+// run is registered before its cancel; cancels for finished runs are ignored.
+const inFlightRuns = new Set<number>()
+const cancelledRuns = new Set<number>()
+
+/**
+ * Post a response. Result sample arrays are transferred rather than copied — each
+ * owns its buffer, so the worker gives them up without cloning large trial sets.
+ */
+function post(response: WorkerResponse) {
+  const transfer = response.type === 'result'
+    ? response.series.flatMap((data) =>
+        Object.values(data).flatMap((samples) => (samples ? [samples.buffer as ArrayBuffer] : []))
+      )
+    : []
+  self.postMessage(response, { transfer })
 }
 
-self.onmessage = (e: MessageEvent<WorkerInput>) => {
-  const { config, historicalVelocities, productivityFactors, milestoneThresholds, scopeGrowthPerSprint, _messageId } = e.data
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data
+  const { _messageId } = request
+  if (request.type === 'cancel') {
+    if (inFlightRuns.has(_messageId)) cancelledRuns.add(_messageId)
+    return
+  }
 
-  let result
-  if (milestoneThresholds && milestoneThresholds.length > 0) {
-    result = runQuadrupleForecastWithMilestones(
-      config, milestoneThresholds, historicalVelocities, productivityFactors, scopeGrowthPerSprint
-    )
-  } else {
-    result = runQuadrupleForecast(config, historicalVelocities, productivityFactors, scopeGrowthPerSprint)
+  inFlightRuns.add(_messageId)
+  const control = {
+    onProgress: (completedTrials: number) => post({ type: 'progress', _messageId, completedTrials }),
+    isCancelled: () => cancelledRuns.has(_messageId),
+  }
+  try {
+    if (request.type === 'adaptive') {
+      const adaptive = await findAdaptiveTrialCountCooperatively(request.context, control)
+      post(adaptive ? { type: 'adaptive', _messageId, adaptive } : { type: 'cancelled', _messageId })
+    } else {
+      const series = await runChunksCooperatively(request.context, request.target, request.chunks, control)
+      post(series ? { type: 'result', _messageId, series } : { type: 'cancelled', _messageId })
+    }
+  } catch (err) {
+    post({ type: 'error', _messageId, message: err instanceof Error ? err.message : String(err) })
+  } finally {
+    inFlightRuns.delete(_messageId)
+    cancelledRuns.delete(_messageId)
   }
-  self.postMessage({ ...result, _messageId })
 }
@@ -0,0 +1,54 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import { resolvePertEstimate, empiricalPertInputs, EMPTY_PERT_INPUTS } from './pert'
+
+describe('resolvePertEstimate', () => {
+  it('leaves the engine default in place when every field is blank', () => {
+    expect(resolvePertEstimate(EMPTY_PERT_INPUTS, 20, 5)).toEqual({ error: null })
+  })
+
+  it('uses the typed three-point estimate', () => {
+    expect(resolvePertEstimate({ min: '12', mostLikely: '18', max: '30' }, 20, 5)).toEqual({
+      estimate: { lower: 12, mode: 18, upper: 30 },
+      error: null,
+    })
+  })
+
+  it('fills blank fields from the default range around the mean', () => {
+    const { estimate } = resolvePertEstimate({ min: '10', mostLikely: '', max: '' }, 20, 2)
+    expect(estimate!.lower).toBe(10)
+    expect(estimate!.mode).toBe(20)
+    expect(estimate!.upper).toBeCloseTo(20 + 2 * Math.sqrt(7))
+  })
+
+  it('rejects negative or non-numeric values', () => {
+    expect(resolvePertEstimate({ min: '-1', mostLikely: '5', max: '9' }, 5, 1).error).toMatch(/0 or more/)
+    expect(resolvePertEstimate({ min: 'abc', mostLikely: '5', max: '9' }, 5, 1).error).toMatch(/0 or more/)
+  })
+
+  it('rejects values out of order', () => {
+    expect(resolvePertEstimate({ min: '10', mostLikely: '8', max: '20' }, 15, 3).error).toMatch(/min ≤ most likely ≤ max/)
+  })
+
+  it('rejects a zero-width range', () => {
+    expect(resolvePertEstimate({ min: '10', mostLikely: '10', max: '10' }, 10, 0).error).toMatch(/greater than min/)
+  })
+})
+
+describe('empiricalPertInputs', () => {
+  it('takes the slowest, median and fastest sprint', () => {
+    expect(empiricalPertInputs([22, 15, 30, 18])).toEqual({ min: '15', mostLikely: '20', max: '30' })
+  })
+
+  it('rounds to one decimal place', () => {
+    expect(empiricalPertInputs([10.04, 12.26, 20.55])).toEqual({ min: '10', mostLikely: '12.3', max: '20.6' })
+  })
+
+  it('returns null without at least two distinct sprints', () => {
+    expect(empiricalPertInputs([12])).toBeNull()
+    expect(empiricalPertInputs([12, 12, 12])).toBeNull()
+  })
+})
@@ -0,0 +1,70 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Three-point (min / most likely / max) velocity estimate for the PERT distribution.
+ *
+ * Each field is optional: a blank field takes its value from the engine's default
+ * PERT range around the velocity mean, so a user can pin just a pessimistic floor.
+ */
+
+import { percentileFromSorted } from '@/shared/lib/math'
+import { pertBounds, type DistributionBounds } from './monte-carlo'
+
+/** Three-point inputs as typed; '' = use the default */
+export interface PertInputs {
+  min: string
+  mostLikely: string
+  max: string
+}
+
+export const EMPTY_PERT_INPUTS: PertInputs = { min: '', mostLikely: '', max: '' }
+
+export interface PertEstimateResolution {
+  /** Estimate to simulate; undefined → engine default (mean ± √7 SD) */
+  estimate?: DistributionBounds
+  /** User-facing problem with the typed values, or null */
+  error: string | null
+}
+
+/**
+ * Resolve typed three-point inputs against the default range for a mean/SD.
+ * All-blank inputs resolve to no estimate, so the engine keeps its default.
+ */
+export function resolvePertEstimate(inputs: PertInputs, mean: number, stdDev: number): PertEstimateResolution {
+  if (inputs.min === '' && inputs.mostLikely === '' && inputs.max === '') return { error: null }
+
+  const fallback = pertBounds(mean, stdDev)
+  const parse = (value: string, defaultValue: number) => (value === '' ? defaultValue : Number(value))
+  const estimate: DistributionBounds = {
+    lower: parse(inputs.min, fallback.lower),
+    mode: parse(inputs.mostLikely, fallback.mode),
+    upper: parse(inputs.max, fallback.upper),
+  }
+
+  if ([estimate.lower, estimate.mode, estimate.upper].some((v) => !Number.isFinite(v) || v < 0)) {
+    return { error: 'PERT velocities must be numbers of 0 or more.' }
+  }
+  if (estimate.lower > estimate.mode || estimate.mode > estimate.upper) {
+    return { error: 'PERT needs min ≤ most likely ≤ max.' }
+  }
+  if (estimate.upper <= estimate.lower) {
+    return { error: 'PERT max must be greater than min.' }
+  }
+  return { estimate, error: null }
+}
+
+/**
+ * Empirical three-point inputs from sprint history: the slowest sprint, the median
+ * sprint and the fastest sprint. Null with fewer than two sprints or no spread.
+ */
+export function empiricalPertInputs(velocities: number[]): PertInputs | null {
+  if (velocities.length < 2) return null
+  const sorted = [...velocities].sort((a, b) => a - b)
+  const min = sorted[0]
+  const max = sorted[sorted.length - 1]
+  if (max <= min) return null
+  const format = (v: number) => String(Math.round(v * 10) / 10)
+  return { min: format(min), mostLikely: format(percentileFromSorted(sorted, 50)), max: format(max) }
+}
@@ -0,0 +1,151 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildPortfolioPlan,
+  portfolioContexts,
+  combinePortfolio,
+  runPortfolioForecast,
+  type PortfolioPlan,
+  type PortfolioTeamPlan,
+} from './portfolio'
+import { calculatePercentileResult, type QuadSimulationData } from './monte-carlo'
+import type { Project, Sprint } from '@/shared/types'
+
+const TIMESTAMP = '2026-01-01T00:00:00Z'
+
+function makeProject(id: string, overrides: Partial<Project> = {}): Project {
+  return {
+    id,
+    name: `Team ${id}`,
+    unitOfMeasure: 'points',
+    sprintCadenceWeeks: 2,
+    firstSprintStartDate: '2026-01-05',
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    ...overrides,
+  }
+}
+
+function makeSprint(projectId: string, sprintNumber: number, doneValue: number, backlogAtSprintEnd?: number): Sprint {
+  return {
+    id: `${projectId}-s${sprintNumber}`,
+    projectId,
+    sprintNumber,
+    sprintStartDate: '',
+    sprintFinishDate: '',
+    doneValue,
+    backlogAtSprintEnd,
+    includedInForecast: true,
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+  }
+}
+
+function history(projectId: string, velocities: number[], backlog: number): Sprint[] {
+  return velocities.map((v, i) => makeSprint(projectId, i + 1, v, i === velocities.length - 1 ? backlog : undefined))
+}
+
+function quad(values: number[]): QuadSimulationData {
+  const sorted = Uint16Array.from(values).sort()
+  return {
+    truncatedNormal: sorted, lognormal: sorted, gamma: sorted, bootstrap: null,
+    triangular: sorted, pert: sorted, uniform: sorted,
+  }
+}
+
+function teamPlan(projectId: string, startDate: string, sprintCadenceWeeks: number): PortfolioTeamPlan {
+  return {
+    projectId,
+    projectName: `Team ${projectId}`,
+    forecastMode: 'history',
+    remainingBacklog: 100,
+    velocityMean: 20,
+    startDate,
+    sprintCadenceWeeks,
+    context: {} as PortfolioTeamPlan['context'],
+  }
+}
+
+describe('buildPortfolioPlan', () => {
+  it('resolves each team from its own history and lists teams it cannot forecast', () => {
+    const sprints = [...history('a', [18, 22, 20, 15, 25], 120), ...history('b', [10, 12], 40)]
+    const plan = buildPortfolioPlan(
+      [makeProject('a'), makeProject('b', { sprintCadenceWeeks: 3 }), makeProject('c', { firstSprintStartDate: undefined })],
+      sprints,
+      { seed: 7, trialCount: 200 }
+    )
+    expect(plan.teams.map((t) => t.projectId)).toEqual(['a', 'b'])
+    expect(plan.teams[0]).toMatchObject({ forecastMode: 'history', remainingBacklog: 120, velocityMean: 20 })
+    expect(plan.teams[1].sprintCadenceWeeks).toBe(3)
+    expect(plan.skipped).toEqual([
+      { projectId: 'c', projectName: 'Team c', reason: 'Set the first sprint start date on the Sprint History tab.' },
+    ])
+    expect(portfolioContexts(plan).map((c) => c.config.trialCount)).toEqual([200, 200])
+  })
+})
+
+describe('combinePortfolio', () => {
+  const plan: PortfolioPlan = {
+    trialCount: 1000,
+    seed: 11,
+    percentiles: [50, 85],
+    teams: [teamPlan('a', '2026-03-02', 2), teamPlan('b', '2026-03-09', 3)],
+    skipped: [],
+  }
+
+  it('converts each team to calendar dates on its own cadence before taking the latest', () => {
+    const result = combinePortfolio(plan, [quad([3, 3, 3]), quad([2, 2, 2])])
+    const finishA = calculatePercentileResult([3], 50, '2026-03-02', 2).finishDate
+    const finishB = calculatePercentileResult([2], 50, '2026-03-09', 3).finishDate
+    expect(result.teams[0].forecasts.lognormal?.finishDates).toEqual([finishA, finishA])
+    expect(result.teams[1].forecasts.lognormal?.finishDates).toEqual([finishB, finishB])
+    const latest = finishA > finishB ? finishA : finishB
+    expect(result.combined.lognormal?.finishDates).toEqual([latest, latest])
+    expect(result.teams[finishA > finishB ? 0 : 1].lastToFinish.lognormal).toBe(1)
+    expect(result.teams[finishA > finishB ? 1 : 0].lastToFinish.lognormal).toBe(0)
+  })
+
+  it("matches each team's own forecast dates and lands no earlier than any of them", () => {
+    const runs = [quad([2, 3, 3, 4, 4, 4, 5, 6]), quad([1, 2, 2, 3, 3, 4, 5, 5])]
+    const result = combinePortfolio(plan, runs)
+    expect(result.teams[0].forecasts.gamma?.finishDates[1]).toBe(
+      calculatePercentileResult(runs[0].gamma, 85, '2026-03-02', 2).finishDate
+    )
+    for (let j = 0; j < 2; j++) {
+      for (const team of result.teams) {
+        expect(result.combined.gamma!.finishDates[j] >= team.forecasts.gamma!.finishDates[j]).toBe(true)
+      }
+    }
+  })
+
+  it('only combines distributions every team forecast', () => {
+    const result = combinePortfolio(
+      { ...plan, teams: [plan.teams[0], { ...plan.teams[1], forecastMode: 'subjective' }] },
+      [{ ...quad([3]), bootstrap: Uint16Array.from([3]) }, quad([2])]
+    )
+    expect(result.distributions).not.toContain('bootstrap')
+    expect(result.distributions).toContain('lognormal')
+  })
+})
+
+describe('runPortfolioForecast', () => {
+  const projects = [makeProject('a'), makeProject('b', { sprintCadenceWeeks: 3, firstSprintStartDate: '2026-01-12' })]
+  const sprints = [...history('a', [18, 22, 20, 15, 25], 120), ...history('b', [10, 14, 12, 11], 60)]
+
+  it('forecasts the latest finish across teams, reproducibly for a seed', () => {
+    const result = runPortfolioForecast(projects, sprints, { seed: 3, trialCount: 500 })
+    expect(result.teams).toHaveLength(2)
+    expect(result.distributions).toContain('lognormal')
+    const shares = result.teams.map((t) => t.lastToFinish.lognormal!)
+    expect(shares[0] + shares[1]).toBeGreaterThanOrEqual(1)
+    expect(runPortfolioForecast(projects, sprints, { seed: 3, trialCount: 500 })).toEqual(result)
+  })
+
+  it("is a single team's own forecast when only one team is selected", () => {
+    const result = runPortfolioForecast(projects.slice(0, 1), sprints, { seed: 3, trialCount: 500 })
+    expect(result.combined.lognormal).toEqual(result.teams[0].forecasts.lognormal)
+  })
+})
@@ -0,0 +1,257 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+// Portfolio forecasting: when does the last of several teams finish?
+//
+// Each team (project) is forecast the way the headless forecastProject() does it,
+// then the runs are combined in one trial loop. A combined trial draws one trial
+// from every team, converts each to a calendar finish date with that team's own
+// start date and cadence, and keeps the latest — so teams on different cadences
+// combine correctly. Teams are forecast independently, so drawing each team's
+// trial at random is the same as simulating all of them in a single loop.
+
+import type { ForecastMode, Project, Sprint } from '@/shared/types'
+import { DISTRIBUTION_TYPES, type DistributionType } from '@/shared/types/burn-up'
+import { createSeededRandom, generateRandomSeed, percentileFromSorted } from '@/shared/lib/math'
+import {
+  calculateSprintStartDate,
+  calculateSprintFinishDate,
+  type NonWorkingDays,
+  type WorkWeek,
+} from '@/shared/lib/dates'
+import {
+  simulateTrials,
+  type QuadSimulationData,
+  type SimulationContext,
+} from './monte-carlo'
+import { resolveProjectSimulation } from './forecast-project'
+import { getVisibleDistributions } from '../types'
+import { dateToDayNumber, dayNumberToDate } from './forecast-accuracy'
+import { DEFAULT_TRIAL_COUNT } from '../constants'
+
+/** Percentiles reported per team and combined */
+export const PORTFOLIO_PERCENTILES: readonly number[] = [50, 85]
+
+export interface PortfolioOptions {
+  /** Trials per team and combined (default 10,000) */
+  trialCount?: number
+  /** Shared by every team's run and the combining loop (default random) */
+  seed?: number
+  /** Percentiles to report (default P50/P85) */
+  percentiles?: readonly number[]
+}
+
+/** One team resolved and ready to simulate */
+export interface PortfolioTeamPlan {
+  projectId: string
+  projectName: string
+  forecastMode: ForecastMode
+  remainingBacklog: number
+  velocityMean: number
+  /** First forecast sprint's start date */
+  startDate: string
+  sprintCadenceWeeks: number
+  /** The team's holidays and work week, which its finish dates step back from */
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
+  context: SimulationContext
+}
+
+/** A selected project that couldn't be forecast, and why */
+export interface SkippedTeam {
+  projectId: string
+  projectName: string
+  reason: string
+}
+
+export interface PortfolioPlan {
+  trialCount: number
+  seed: number
+  percentiles: readonly number[]
+  teams: PortfolioTeamPlan[]
+  skipped: SkippedTeam[]
+}
+
+/**
+ * Resolve every selected project's forecast inputs from its sprint history.
+ * Projects that can't be forecast are listed in `skipped` rather than failing
+ * the portfolio.
+ */
+export function buildPortfolioPlan(
+  projects: Project[],
+  sprints: Sprint[],
+  options: PortfolioOptions = {}
+): PortfolioPlan {
+  const trialCount = options.trialCount ?? DEFAULT_TRIAL_COUNT
+  const seed = options.seed ?? generateRandomSeed()
+  const teams: PortfolioTeamPlan[] = []
+  const skipped: SkippedTeam[] = []
+  for (const project of projects) {
+    try {
+      const resolved = resolveProjectSimulation(project, sprints, { trialCount, seed })
+      teams.push({
+        projectId: project.id,
+        projectName: project.name,
+        forecastMode: resolved.forecastMode,
+        remainingBacklog: resolved.remainingBacklog,
+        velocityMean: resolved.velocityMean,
+        startDate: resolved.startDate,
+        sprintCadenceWeeks: resolved.sprintCadenceWeeks,
+        nonWorkingDays: resolved.nonWorkingDays,
+        workWeek: resolved.workWeek,
+        context: resolved.context,
+      })
+    } catch (err) {
+      skipped.push({
+        projectId: project.id,
+        projectName: project.name,
+        reason: err instanceof Error ? err.message : String(err),
+      })
+    }
+  }
+  return { trialCount, seed, percentiles: options.percentiles ?? PORTFOLIO_PERCENTILES, teams, skipped }
+}
+
+/** The simulation contexts a plan runs, one per team */
+export function portfolioContexts(plan: PortfolioPlan): SimulationContext[] {
+  return plan.teams.map((team) => team.context)
+}
+
+/** One team's (or the combined) forecast for a distribution */
+export interface PortfolioForecast {
+  /** Finish dates at each reported percentile */
+  finishDates: string[]
+}
+
+export interface PortfolioTeamResult {
+  projectId: string
+  projectName: string
+  forecastMode: ForecastMode
+  remainingBacklog: number
+  startDate: string
+  sprintCadenceWeeks: number
+  forecasts: Partial<Record<DistributionType, PortfolioForecast>>
+  /** Share (0-1) of combined trials in which this team finished last (ties credit every tied team) */
+  lastToFinish: Partial<Record<DistributionType, number>>
+}
+
+export interface PortfolioResult {
+  trialCount: number
+  seed: number
+  percentiles: readonly number[]
+  /** Distributions every team's forecast mode shows (Bootstrap only when every team has enough history) */
+  distributions: DistributionType[]
+  teams: PortfolioTeamResult[]
+  /** The latest finish across teams */
+  combined: Partial<Record<DistributionType, PortfolioForecast>>
+  skipped: SkippedTeam[]
+}
+
+/**
+ * Finish day number (see `dateToDayNumber`) of every sprint count a team's trials
+ * reached, so the combining loop converts trials to dates with a lookup.
+ */
+function finishDayLookup(
+  sorted: ArrayLike<number>,
+  team: Pick<PortfolioTeamPlan, 'startDate' | 'sprintCadenceWeeks' | 'nonWorkingDays' | 'workWeek'>
+): Map<number, number> {
+  const lookup = new Map<number, number>()
+  for (let i = 0; i < sorted.length; i++) {
+    const sprints = sorted[i]
+    if (lookup.has(sprints)) continue
+    const finalSprintStart = calculateSprintStartDate(team.startDate, sprints, team.sprintCadenceWeeks)
+    const finishDate = calculateSprintFinishDate(finalSprintStart, team.sprintCadenceWeeks, team.nonWorkingDays, team.workWeek)
+    lookup.set(sprints, dateToDayNumber(finishDate))
+  }
+  return lookup
+}
+
+/**
+ * Date at a percentile of sorted finish days. The interpolated percentile is
+ * rounded up to a date some trial actually finished on, as per-team forecasts
+ * round up to a whole sprint.
+ */
+function percentileFinishDate(sortedDays: Int32Array, percentile: number): string {
+  const target = percentileFromSorted(sortedDays, percentile)
+  let lo = 0
+  let hi = sortedDays.length - 1
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (sortedDays[mid] < target) lo = mid + 1
+    else hi = mid
+  }
+  return dayNumberToDate(sortedDays[lo])
+}
+
+/** Combine each team's run (one per team, in plan order) into the portfolio forecast */
+export function combinePortfolio(plan: PortfolioPlan, runs: QuadSimulationData[]): PortfolioResult {
+  const { percentiles, trialCount } = plan
+  const distributions = DISTRIBUTION_TYPES.filter((d) =>
+    runs.length > 0 &&
+    runs.every((data, i) =>
+      (data[d]?.length ?? 0) > 0 &&
+      getVisibleDistributions(plan.teams[i].forecastMode, data.bootstrap !== null).includes(d)
+    )
+  )
+
+  const teams: PortfolioTeamResult[] = plan.teams.map((team) => ({
+    projectId: team.projectId,
+    projectName: team.projectName,
+    forecastMode: team.forecastMode,
+    remainingBacklog: team.remainingBacklog,
+    startDate: team.startDate,
+    sprintCadenceWeeks: team.sprintCadenceWeeks,
+    forecasts: {},
+    lastToFinish: {},
+  }))
+  const combined: PortfolioResult['combined'] = {}
+
+  for (const d of distributions) {
+    const samples = runs.map((data) => data[d]!)
+    const lookups = plan.teams.map((team, i) => finishDayLookup(samples[i], team))
+    const teamDays = samples.map((sorted, i) => Int32Array.from(sorted, (sprints) => lookups[i].get(sprints)!))
+    teamDays.forEach((days, i) => {
+      teams[i].forecasts[d] = { finishDates: percentiles.map((p) => percentileFinishDate(days, p)) }
+    })
+
+    // One shared stream per distribution, so every distribution pairs the same trials
+    const rng = createSeededRandom(plan.seed)
+    const latest = new Int32Array(trialCount)
+    const lastCounts = new Array<number>(teamDays.length).fill(0)
+    const draws = new Int32Array(teamDays.length)
+    for (let t = 0; t < trialCount; t++) {
+      let max = -Infinity
+      for (let i = 0; i < teamDays.length; i++) {
+        const days = teamDays[i]
+        draws[i] = days[Math.floor(rng() * days.length)]
+        if (draws[i] > max) max = draws[i]
+      }
+      latest[t] = max
+      for (let i = 0; i < teamDays.length; i++) {
+        if (draws[i] === max) lastCounts[i]++
+      }
+    }
+    latest.sort()
+    combined[d] = { finishDates: percentiles.map((p) => percentileFinishDate(latest, p)) }
+    lastCounts.forEach((count, i) => {
+      teams[i].lastToFinish[d] = count / trialCount
+    })
+  }
+
+  return { trialCount, seed: plan.seed, percentiles, distributions, teams, combined, skipped: plan.skipped }
+}
+
+/**
+ * Forecast a portfolio in the calling thread (scripts, tests). The Portfolio tab
+ * runs the same plan on the worker pool instead.
+ */
+export function runPortfolioForecast(
+  projects: Project[],
+  sprints: Sprint[],
+  options: PortfolioOptions = {}
+): PortfolioResult {
+  const plan = buildPortfolioPlan(projects, sprints, options)
+  const runs = plan.teams.map((team) => simulateTrials(team.context, { kind: 'backlog' })[0])
+  return combinePortfolio(plan, runs)
+}
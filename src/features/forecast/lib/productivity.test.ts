@@ -146,6 +146,23 @@ describe('preCalculateSprintFactors', () => {
   })
 })
 
+describe('preCalculateSprintFactors with non-working days', () => {
+  // Sprint 1: Jan 5 - Jan 16, 2026; Sprint 2: Jan 19 - Jan 30
+  it('reduces the factor of sprints containing holidays', () => {
+    const holidays = new Set(['2026-01-16', '2026-01-19', '2026-01-20'])
+    const result = preCalculateSprintFactors('2026-01-05', 2, 1, [], 4, holidays)
+    // A holiday on the last Friday still counts against its sprint
+    expect(result.factors[0]).toBeCloseTo(0.9)
+    expect(result.factors[1]).toBeCloseTo(0.8)
+    expect(result.factors[2]).toBe(1.0)
+  })
+
+  it('ignores holidays before the forecast period', () => {
+    const result = preCalculateSprintFactors('2026-01-05', 2, 3, [], 4, new Set(['2026-01-19']))
+    expect(result.factors.every((f) => f === 1.0)).toBe(true)
+  })
+})
+
 describe('hasActiveAdjustments', () => {
   it('returns false when all factors are 1.0', () => {
     expect(hasActiveAdjustments([1.0, 1.0, 1.0, 1.0])).toBe(false)
@@ -6,6 +6,8 @@ import {
   calculateSprintStartDate,
   calculateSprintFinishDate,
   calculateSprintProductivityFactor,
+  type NonWorkingDays,
+  type WorkWeek,
 } from '@/shared/lib/dates'
 import type { ProductivityAdjustment } from '@/shared/types'
 import { MAX_TRIAL_SPRINTS } from '../constants'
@@ -18,7 +20,8 @@ export interface SprintProductivityFactors {
  * Pre-calculate productivity factors for upcoming sprints.
  *
  * This function computes the productivity factor for each future sprint
- * based on the defined adjustment periods. The factors are returned as
+ * based on the defined adjustment periods and the project's non-working days
+ * (holidays count as zero-productivity days). The factors are returned as
  * an array indexed by relative sprint number (0 = first forecast sprint).
  *
  * @param firstSprintStartDate - Project's first sprint start date (ISO)
@@ -26,6 +29,8 @@ export interface SprintProductivityFactors {
  * @param startingSprintNumber - First sprint to calculate (typically completedSprintCount + 1)
  * @param adjustments - Productivity adjustments to apply
  * @param maxSprintsToCalculate - Maximum number of future sprints to pre-calculate (default 200)
+ * @param nonWorkingDays - Holidays and shutdowns from the project's working calendar
+ * @param workWeek - The project's working days of the week (default Mon-Fri)
  * @returns Object containing array of productivity factors
  */
 export function preCalculateSprintFactors(
@@ -33,12 +38,14 @@ export function preCalculateSprintFactors(
   sprintCadenceWeeks: number,
   startingSprintNumber: number,
   adjustments: ProductivityAdjustment[],
-  maxSprintsToCalculate: number = MAX_TRIAL_SPRINTS
+  maxSprintsToCalculate: number = MAX_TRIAL_SPRINTS,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
 ): SprintProductivityFactors {
   const factors: number[] = []
 
   // If no adjustments, return array of 1.0s for efficiency
-  if (!adjustments || adjustments.length === 0) {
+  if ((!adjustments || adjustments.length === 0) && !nonWorkingDays) {
     return { factors: new Array(maxSprintsToCalculate).fill(1.0) }
   }
 
@@ -51,17 +58,17 @@ export function preCalculateSprintFactors(
 
   // Filter to only include adjustments that could affect the forecast period
   // (adjustments whose end date is >= first forecast sprint start)
-  const relevantAdjustments = adjustments.filter((adj) => adj.endDate >= firstForecastStart)
+  const relevantAdjustments = (adjustments ?? []).filter((adj) => adj.endDate >= firstForecastStart)
+  const upcomingNonWorkingDays = [...(nonWorkingDays ?? [])].filter((date) => date >= firstForecastStart)
 
   // If no relevant adjustments, return array of 1.0s
-  if (relevantAdjustments.length === 0) {
+  if (relevantAdjustments.length === 0 && upcomingNonWorkingDays.length === 0) {
     return { factors: new Array(maxSprintsToCalculate).fill(1.0) }
   }
 
-  // Find the last adjustment end date to know when we can stop calculating
-  const lastAdjustmentEnd = relevantAdjustments.reduce(
-    (latest, adj) => (adj.endDate > latest ? adj.endDate : latest),
-    relevantAdjustments[0].endDate
+  // Find the last adjustment end date (or non-working day) to know when we can stop calculating
+  const lastAdjustmentEnd = [...relevantAdjustments.map((adj) => adj.endDate), ...upcomingNonWorkingDays].reduce(
+    (latest, date) => (date > latest ? date : latest)
   )
 
   // Calculate factor for each sprint, but stop early once past all adjustments
@@ -82,8 +89,11 @@ export function preCalculateSprintFactors(
       break
     }
 
-    const sprintEnd = calculateSprintFinishDate(sprintStart, sprintCadenceWeeks)
-    const factor = calculateSprintProductivityFactor(sprintStart, sprintEnd, relevantAdjustments)
+    // The work-week sprint window: a holiday on the last working day still counts against it
+    const sprintEnd = calculateSprintFinishDate(sprintStart, sprintCadenceWeeks, undefined, workWeek)
+    const factor = calculateSprintProductivityFactor(
+      sprintStart, sprintEnd, relevantAdjustments, nonWorkingDays, workWeek
+    )
 
     factors.push(factor)
   }
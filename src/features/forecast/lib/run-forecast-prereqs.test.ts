@@ -66,6 +66,17 @@ describe('getRunForecastBlockedReason', () => {
     const reason = getRunForecastBlockedReason({ ...fullyValid, effectiveMean: -5 })
     expect(reason).toBe('Velocity must be greater than 0.')
   })
+
+  it('flags a capacity-mode roster with no capacity after it ends', () => {
+    expect(getRunForecastBlockedReason({ ...fullyValid, steadyStateCapacity: 0 })).toMatch(/No team capacity/)
+    expect(getRunForecastBlockedReason({ ...fullyValid, steadyStateCapacity: 2.5 })).toBeNull()
+  })
+
+  it('surfaces an invalid PERT estimate', () => {
+    const pertEstimateError = 'PERT needs min ≤ most likely ≤ max.'
+    expect(getRunForecastBlockedReason({ ...fullyValid, pertEstimateError })).toBe(pertEstimateError)
+    expect(getRunForecastBlockedReason({ ...fullyValid, pertEstimateError: null })).toBeNull()
+  })
 })
 
 describe('canRunForecast', () => {
@@ -86,5 +97,7 @@ describe('canRunForecast', () => {
     expect(canRunForecast({ ...fullyValid, remainingBacklog: '' })).toBe(false)
     expect(canRunForecast({ ...fullyValid, effectiveMean: 0 })).toBe(false)
     expect(canRunForecast({ ...fullyValid, effectiveMean: -1 })).toBe(false)
+    expect(canRunForecast({ ...fullyValid, steadyStateCapacity: 0 })).toBe(false)
+    expect(canRunForecast({ ...fullyValid, pertEstimateError: 'PERT max must be greater than min.' })).toBe(false)
   })
 })
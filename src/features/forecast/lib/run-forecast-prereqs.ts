@@ -21,6 +21,10 @@ export interface RunForecastPrereqInputs {
   firstSprintStartDate: string | undefined
   remainingBacklog: string
   effectiveMean: number
+  /** Capacity mode only: planned FTE once the roster stops changing (undefined in other modes) */
+  steadyStateCapacity?: number
+  /** Problem with the PERT three-point estimate, when PERT is shown and one was typed */
+  pertEstimateError?: string | null
 }
 
 /**
@@ -37,28 +41,40 @@ export function getRunForecastBlockedReason({
   firstSprintStartDate,
   remainingBacklog,
   effectiveMean,
+  steadyStateCapacity,
+  pertEstimateError,
 }: RunForecastPrereqInputs): string | null {
   if (!sprintCadenceWeeks) return 'Set sprint cadence on the Sprint History tab.'
   if (!firstSprintStartDate) return 'Set the first sprint start date on the Sprint History tab.'
   if (remainingBacklog && effectiveMean <= 0) return 'Velocity must be greater than 0.'
+  if (steadyStateCapacity !== undefined && steadyStateCapacity <= 0) {
+    return 'No team capacity after the roster ends — extend a team member.'
+  }
+  if (pertEstimateError) return pertEstimateError
   return null
 }
 
 /**
  * True iff every prereq for a forecast run is satisfied: project has cadence and
  * first-sprint start date AND user has supplied a remaining backlog AND the
- * effective mean velocity is positive.
+ * effective mean velocity is positive AND (capacity mode) the team keeps some
+ * capacity once the roster stops changing — otherwise trials could never finish —
+ * AND any typed PERT estimate is valid.
  */
 export function canRunForecast({
   sprintCadenceWeeks,
   firstSprintStartDate,
   remainingBacklog,
   effectiveMean,
+  steadyStateCapacity,
+  pertEstimateError,
 }: RunForecastPrereqInputs): boolean {
   return (
     !!sprintCadenceWeeks &&
     !!firstSprintStartDate &&
     !!remainingBacklog &&
-    effectiveMean > 0
+    effectiveMean > 0 &&
+    (steadyStateCapacity === undefined || steadyStateCapacity > 0) &&
+    !pertEstimateError
   )
 }
@@ -0,0 +1,146 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import {
+  captureScenario,
+  scenarioFormState,
+  scenarioForecastOptions,
+  describeScenario,
+  comparisonDistributions,
+  buildScenarioCdfData,
+  buildScenarioPercentileRows,
+  type ScenarioComparison,
+  type ScenarioFormState,
+} from './scenarios'
+import type { ForecastScenario } from '@/shared/types'
+import type { QuadSimulationData } from './monte-carlo'
+
+const TIMESTAMP = '2026-01-01T00:00:00Z'
+
+const FORM: ScenarioFormState = {
+  remainingBacklog: '120',
+  forecastMode: 'history',
+  velocityMean: '',
+  velocityStdDev: '',
+  velocityEstimate: '',
+  selectedCV: 0.35,
+  volatilityMultiplier: 1.25,
+  modelScopeGrowth: true,
+  scopeGrowthMode: 'custom',
+  customScopeGrowth: '3',
+  scopeGrowthSampling: 'normal',
+  enabledAdjustmentIds: ['pa1'],
+}
+
+function makeScenario(overrides: Partial<ForecastScenario> = {}): ForecastScenario {
+  return {
+    id: 'sc1',
+    name: 'Current plan',
+    ...captureScenario(FORM),
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    ...overrides,
+  }
+}
+
+function sortedRun(values: number[]): Uint16Array {
+  return Uint16Array.from(values).sort()
+}
+
+function quad(values: number[], bootstrap = false): QuadSimulationData {
+  const sorted = sortedRun(values)
+  return {
+    truncatedNormal: sorted, lognormal: sorted, gamma: sorted, bootstrap: bootstrap ? sorted : null,
+    triangular: sorted, pert: sorted, uniform: sorted,
+  }
+}
+
+const COMPARISON: ScenarioComparison = {
+  startDate: '2026-06-01',
+  sprintCadenceWeeks: 2,
+  trialCount: 4,
+  seed: 7,
+  runs: [
+    { scenarioId: 'a', name: 'Current plan', forecastMode: 'history', remainingBacklog: 120, data: quad([5, 6, 6, 7], true) },
+    { scenarioId: 'b', name: 'Descope', forecastMode: 'history', remainingBacklog: 90, data: quad([4, 4, 5, 6]) },
+  ],
+}
+
+describe('captureScenario / scenarioFormState', () => {
+  it('round-trips the form', () => {
+    expect(scenarioFormState(makeScenario())).toEqual(FORM)
+  })
+
+  it('leaves blank fields unset and drops scope growth when off', () => {
+    const inputs = captureScenario({ ...FORM, remainingBacklog: '', modelScopeGrowth: false })
+    expect(inputs.remainingBacklog).toBeUndefined()
+    expect(inputs.velocityMean).toBeUndefined()
+    expect(inputs.scopeGrowth).toBeUndefined()
+  })
+
+  it('keeps only the sampling for calculated scope growth', () => {
+    expect(captureScenario({ ...FORM, scopeGrowthMode: 'calculated' }).scopeGrowth)
+      .toEqual({ mode: 'calculated', sampling: 'normal' })
+  })
+})
+
+describe('scenarioForecastOptions', () => {
+  it('layers the scenario over the shared options', () => {
+    const options = scenarioForecastOptions(makeScenario(), { seed: 7, trialCount: 2000, remainingBacklog: 1 })
+    expect(options).toMatchObject({
+      seed: 7,
+      trialCount: 2000,
+      remainingBacklog: 120,
+      forecastMode: 'history',
+      volatilityMultiplier: 1.25,
+      scopeGrowthPerSprint: 3,
+      scopeGrowthSampling: 'normal',
+      enabledAdjustmentIds: ['pa1'],
+    })
+  })
+
+  it('uses the historical injection for calculated growth', () => {
+    const scenario = makeScenario({ scopeGrowth: { mode: 'calculated', sampling: 'fixed' } })
+    expect(scenarioForecastOptions(scenario).scopeGrowthPerSprint).toBe('calculated')
+  })
+})
+
+describe('describeScenario', () => {
+  it('summarizes the inputs that differ from defaults', () => {
+    expect(describeScenario(makeScenario(), 'points', [{ id: 'pa1', name: 'Holidays' }, { id: 'pa2', name: 'Offsite' }]))
+      .toBe('History · 120 points · 1.25× volatility · growth 3/sprint · Holidays')
+  })
+})
+
+describe('comparisonDistributions', () => {
+  it('keeps distributions every run shows', () => {
+    expect(comparisonDistributions(COMPARISON)).not.toContain('bootstrap')
+    expect(comparisonDistributions(COMPARISON, ['lognormal', 'bootstrap'])).toEqual(['lognormal'])
+  })
+})
+
+describe('buildScenarioCdfData', () => {
+  it('overlays each run’s cumulative percentage per sprint', () => {
+    const data = buildScenarioCdfData(COMPARISON, 'lognormal')
+    expect(data.map((p) => p.sprints)).toEqual([4, 5, 6, 7])
+    expect(data[0]).toMatchObject({ s0: 0, s1: 50 })
+    expect(data[2]).toMatchObject({ s0: 75, s1: 100 })
+  })
+})
+
+describe('buildScenarioPercentileRows', () => {
+  it('reports finish dates with day deltas from the first scenario', () => {
+    const [p50, p95] = buildScenarioPercentileRows(COMPARISON, 'lognormal', [50, 95])
+    expect(p50.cells[0]?.deltaDays).toBeNull()
+    expect(p50.cells[1]?.sprintsRequired).toBe(p50.cells[0]!.sprintsRequired - 1)
+    expect(p50.cells[1]?.deltaDays).toBe(-14)
+    expect(p95.cells[1]?.deltaDays).toBe(-14)
+  })
+
+  it('leaves a cell empty when the run lacks the distribution', () => {
+    const [row] = buildScenarioPercentileRows(COMPARISON, 'bootstrap', [50])
+    expect(row.cells[1]).toBeNull()
+  })
+})
@@ -0,0 +1,285 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+// Named what-if scenarios ("current plan" vs "descope feature X" vs "add two devs").
+//
+// A scenario saves the Forecast tab's inputs — backlog, velocity overrides, mode, CV,
+// volatility, scope growth, and which adjustments apply — with the project. Compared
+// scenarios run with one shared seed, so their differences reflect the inputs rather
+// than sampling noise; the other modeling options (autocorrelation, trend, Bootstrap
+// weighting, throughput, PERT) come from the current session and apply to all of them.
+
+import type { ForecastMode, ForecastScenario, ProductivityAdjustment } from '@/shared/types'
+import {
+  calculateSprintStartDate,
+  calculateSprintFinishDate,
+  formatDateCompact,
+  type NonWorkingDays,
+  type WorkWeek,
+} from '@/shared/lib/dates'
+import { safeParseNumber } from '@/shared/lib/validation'
+import { DEFAULT_CV, DEFAULT_VOLATILITY_MULTIPLIER } from '../constants'
+import { getVisibleDistributions, type DistributionType } from '../types'
+import { calculatePercentileResult, type QuadSimulationData } from './monte-carlo'
+import { buildCdfPoints, calculateCumulativePercentage } from './cdf'
+import type { ForecastProjectOptions } from './forecast-project'
+import type { VelocityInputs } from './forecast-inputs'
+import type { ScopeGrowthSampling } from './scope-growth'
+
+/** Scenarios one comparison overlays (one line color each) */
+export const MAX_COMPARED_SCENARIOS = 4
+
+/** Percentiles in the side-by-side table */
+export const SCENARIO_COMPARISON_PERCENTILES = [50, 70, 85, 95] as const
+
+/** What a scenario records, without its identity */
+export type ScenarioInputs = Omit<ForecastScenario, 'id' | 'name' | 'createdAt' | 'updatedAt'>
+
+/**
+ * Forecast tab state a scenario captures and restores. Capture the resolved mode,
+ * so a scenario saved under auto-detect keeps the mode it ran in; undefined
+ * restores auto-detect.
+ */
+export interface ScenarioFormState extends VelocityInputs {
+  remainingBacklog: string
+  forecastMode: ForecastMode | undefined
+  modelScopeGrowth: boolean
+  scopeGrowthMode: 'calculated' | 'custom'
+  customScopeGrowth: string
+  scopeGrowthSampling: ScopeGrowthSampling
+  enabledAdjustmentIds: string[]
+}
+
+function optionalNumber(value: string): number | undefined {
+  return safeParseNumber(value) ?? undefined
+}
+
+function formatOptional(value: number | undefined): string {
+  return value === undefined ? '' : String(value)
+}
+
+/** Capture the form as scenario inputs (blank fields stay unset) */
+export function captureScenario(form: ScenarioFormState): ScenarioInputs {
+  const customPerSprint = form.scopeGrowthMode === 'custom' ? optionalNumber(form.customScopeGrowth) : undefined
+  return {
+    remainingBacklog: optionalNumber(form.remainingBacklog),
+    forecastMode: form.forecastMode,
+    velocityMean: optionalNumber(form.velocityMean),
+    velocityStdDev: optionalNumber(form.velocityStdDev),
+    velocityEstimate: optionalNumber(form.velocityEstimate),
+    selectedCV: form.selectedCV,
+    volatilityMultiplier: form.volatilityMultiplier,
+    scopeGrowth: form.modelScopeGrowth
+      ? {
+          mode: form.scopeGrowthMode,
+          ...(customPerSprint !== undefined ? { customPerSprint } : {}),
+          sampling: form.scopeGrowthSampling,
+        }
+      : undefined,
+    enabledAdjustmentIds: [...form.enabledAdjustmentIds],
+  }
+}
+
+/** The form state that reproduces a scenario (inverse of `captureScenario`) */
+export function scenarioFormState(scenario: ForecastScenario): ScenarioFormState {
+  const growth = scenario.scopeGrowth
+  return {
+    remainingBacklog: formatOptional(scenario.remainingBacklog),
+    forecastMode: scenario.forecastMode,
+    velocityMean: formatOptional(scenario.velocityMean),
+    velocityStdDev: formatOptional(scenario.velocityStdDev),
+    velocityEstimate: formatOptional(scenario.velocityEstimate),
+    selectedCV: scenario.selectedCV ?? DEFAULT_CV,
+    volatilityMultiplier: scenario.volatilityMultiplier ?? DEFAULT_VOLATILITY_MULTIPLIER,
+    modelScopeGrowth: growth !== undefined,
+    scopeGrowthMode: growth?.mode ?? 'calculated',
+    customScopeGrowth: formatOptional(growth?.customPerSprint),
+    scopeGrowthSampling: growth?.sampling ?? 'fixed',
+    enabledAdjustmentIds: [...scenario.enabledAdjustmentIds],
+  }
+}
+
+/**
+ * Headless forecast options for a scenario, layered over the options every
+ * compared scenario shares (seed, trials, session modeling settings)
+ */
+export function scenarioForecastOptions(
+  scenario: ForecastScenario,
+  shared: ForecastProjectOptions = {}
+): ForecastProjectOptions {
+  const growth = scenario.scopeGrowth
+  return {
+    ...shared,
+    remainingBacklog: scenario.remainingBacklog,
+    forecastMode: scenario.forecastMode,
+    velocityMean: scenario.velocityMean,
+    velocityStdDev: scenario.velocityStdDev,
+    velocityEstimate: scenario.velocityEstimate,
+    selectedCV: scenario.selectedCV,
+    volatilityMultiplier: scenario.volatilityMultiplier,
+    scopeGrowthPerSprint: growth ? (growth.mode === 'custom' ? growth.customPerSprint : 'calculated') : undefined,
+    scopeGrowthSampling: growth?.sampling,
+    enabledAdjustmentIds: scenario.enabledAdjustmentIds,
+  }
+}
+
+const MODE_LABELS: Record<ForecastMode, string> = {
+  history: 'History',
+  subjective: 'Subjective',
+  capacity: 'Capacity',
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 })
+}
+
+/**
+ * One-line summary for the scenario list, e.g.
+ * "History · 120 points · velocity 22 · growth 3/sprint · Holidays"
+ */
+export function describeScenario(
+  scenario: ForecastScenario,
+  unitOfMeasure: string,
+  adjustments: Pick<ProductivityAdjustment, 'id' | 'name'>[]
+): string {
+  const parts: string[] = []
+  if (scenario.forecastMode) parts.push(MODE_LABELS[scenario.forecastMode])
+  parts.push(
+    scenario.remainingBacklog !== undefined
+      ? `${formatNumber(scenario.remainingBacklog)} ${unitOfMeasure}`
+      : 'latest backlog'
+  )
+  const velocity = scenario.velocityMean ?? (scenario.forecastMode === 'subjective' ? scenario.velocityEstimate : undefined)
+  if (velocity !== undefined) parts.push(`velocity ${formatNumber(velocity)}`)
+  if (scenario.forecastMode === 'subjective' && scenario.selectedCV !== undefined && scenario.velocityStdDev === undefined) {
+    parts.push(`CV ${Math.round(scenario.selectedCV * 100)}%`)
+  }
+  if (scenario.forecastMode === 'history' && scenario.volatilityMultiplier !== undefined && scenario.volatilityMultiplier !== 1) {
+    parts.push(`${scenario.volatilityMultiplier.toLocaleString(undefined, { maximumFractionDigits: 2 })}× volatility`)
+  }
+  const growth = scenario.scopeGrowth
+  if (growth?.mode === 'calculated') parts.push('historical growth')
+  if (growth?.mode === 'custom' && growth.customPerSprint !== undefined) {
+    parts.push(`growth ${formatNumber(growth.customPerSprint)}/sprint`)
+  }
+  const names = adjustments.filter((a) => scenario.enabledAdjustmentIds.includes(a.id)).map((a) => a.name)
+  if (names.length > 0) parts.push(names.join(', '))
+  return parts.join(' · ')
+}
+
+/** One compared scenario's simulated sprints-to-finish */
+export interface ScenarioRun {
+  scenarioId: string
+  name: string
+  forecastMode: ForecastMode
+  remainingBacklog: number
+  data: QuadSimulationData
+}
+
+/** Scenarios simulated side by side; the first run is the baseline for deltas */
+export interface ScenarioComparison {
+  startDate: string
+  sprintCadenceWeeks: number
+  /** The project's holidays and work week, which finish dates step back from */
+  nonWorkingDays?: NonWorkingDays
+  workWeek?: WorkWeek
+  trialCount: number
+  seed: number
+  runs: ScenarioRun[]
+}
+
+/** Distributions every compared scenario shows (in display order) */
+export function comparisonDistributions(
+  comparison: ScenarioComparison,
+  enabledDistributions?: readonly DistributionType[]
+): DistributionType[] {
+  const [first, ...rest] = comparison.runs.map((run) =>
+    getVisibleDistributions(run.forecastMode, run.data.bootstrap !== null, enabledDistributions)
+  )
+  return (first ?? []).filter((d) => rest.every((visible) => visible.includes(d)))
+}
+
+/** CDF overlay point: cumulative % per scenario, keyed by run index (`s0`, `s1`, ...) */
+export interface ScenarioCdfPoint {
+  sprints: number
+  dateLabel: string
+  [scenarioKey: `s${number}`]: number
+}
+
+export function scenarioDataKey(index: number): `s${number}` {
+  return `s${index}`
+}
+
+/** Overlaid CDFs of the compared scenarios for one distribution */
+export function buildScenarioCdfData(
+  comparison: ScenarioComparison,
+  distribution: DistributionType
+): ScenarioCdfPoint[] {
+  const series = comparison.runs.map((run) => run.data[distribution])
+  const allSprints = new Set<number>()
+  for (const sorted of series) {
+    if (sorted && sorted.length > 0) buildCdfPoints(sorted).forEach((_, sprints) => allSprints.add(sprints))
+  }
+  return Array.from(allSprints)
+    .sort((a, b) => a - b)
+    .map((sprints) => {
+      const sprintStart = calculateSprintStartDate(comparison.startDate, sprints, comparison.sprintCadenceWeeks)
+      const point: ScenarioCdfPoint = {
+        sprints,
+        dateLabel: formatDateCompact(
+          calculateSprintFinishDate(sprintStart, comparison.sprintCadenceWeeks, comparison.nonWorkingDays, comparison.workWeek)
+        ),
+      }
+      series.forEach((sorted, i) => {
+        if (sorted && sorted.length > 0) point[scenarioDataKey(i)] = calculateCumulativePercentage(sorted, sprints)
+      })
+      return point
+    })
+}
+
+/** One scenario's finish at a percentile */
+export interface ScenarioPercentileCell {
+  finishDate: string
+  sprintsRequired: number
+  /** Calendar days later (+) or earlier (−) than the baseline; null for the baseline */
+  deltaDays: number | null
+}
+
+export interface ScenarioPercentileRow {
+  percentile: number
+  /** One cell per run, in comparison order; null when the run lacks the distribution */
+  cells: (ScenarioPercentileCell | null)[]
+}
+
+/** Side-by-side percentile table, with each scenario's shift from the first */
+export function buildScenarioPercentileRows(
+  comparison: ScenarioComparison,
+  distribution: DistributionType,
+  percentiles: readonly number[] = SCENARIO_COMPARISON_PERCENTILES
+): ScenarioPercentileRow[] {
+  const daysPerSprint = comparison.sprintCadenceWeeks * 7
+  return percentiles.map((percentile) => {
+    const results = comparison.runs.map((run) => {
+      const sorted = run.data[distribution]
+      return sorted && sorted.length > 0
+        ? calculatePercentileResult(
+            sorted, percentile, comparison.startDate, comparison.sprintCadenceWeeks, comparison.nonWorkingDays, comparison.workWeek
+          )
+        : null
+    })
+    const base = results[0]
+    return {
+      percentile,
+      cells: results.map((result, i) =>
+        result
+          ? {
+              finishDate: result.finishDate,
+              sprintsRequired: result.sprintsRequired,
+              deltaDays: i === 0 || !base ? null : (result.sprintsRequired - base.sprintsRequired) * daysPerSprint,
+            }
+          : null
+      ),
+    }
+  })
+}
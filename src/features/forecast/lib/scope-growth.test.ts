@@ -3,7 +3,13 @@
 // See LICENSE file in the project root for full license text.
 
 import { describe, it, expect } from 'vitest'
-import { resolveScopeGrowthPerSprint } from './scope-growth'
+import {
+  resolveScopeGrowthPerSprint,
+  resolveScopeGrowthVariability,
+  createScopeGrowthSampler,
+  describeScopeGrowthVariability,
+} from './scope-growth'
+import { createSeededRandom, mean, standardDeviation } from '@/shared/lib/math'
 
 describe('resolveScopeGrowthPerSprint', () => {
   it('returns undefined when scope growth is disabled', () => {
@@ -39,3 +45,55 @@ describe('resolveScopeGrowthPerSprint', () => {
     expect(resolveScopeGrowthPerSprint(true, 'custom', '.5', 5.0)).toBe(0.5)
   })
 })
+
+describe('resolveScopeGrowthVariability', () => {
+  const injections = [0, 10, 5, 15]
+
+  it('is fixed when growth is off or sampling is fixed', () => {
+    expect(resolveScopeGrowthVariability(undefined, 'normal', injections, 6)).toBeUndefined()
+    expect(resolveScopeGrowthVariability(5, 'fixed', injections, 6)).toBeUndefined()
+  })
+
+  it('uses the injection spread for normal and lognormal', () => {
+    expect(resolveScopeGrowthVariability(5, 'normal', injections, 6)).toEqual({ mode: 'normal', stdDev: 6 })
+    expect(resolveScopeGrowthVariability(5, 'lognormal', injections, 6)).toEqual({ mode: 'lognormal', stdDev: 6 })
+    expect(resolveScopeGrowthVariability(5, 'normal', injections, 0)).toBeUndefined()
+  })
+
+  it('resamples injections for bootstrap', () => {
+    expect(resolveScopeGrowthVariability(5, 'bootstrap', injections, 6)).toEqual({ mode: 'bootstrap', injections })
+    expect(resolveScopeGrowthVariability(5, 'bootstrap', [], 6)).toBeUndefined()
+  })
+})
+
+describe('createScopeGrowthSampler', () => {
+  const draw = (sampler: () => number, n: number) => Array.from({ length: n }, () => sampler())
+
+  it('normal draws match the requested mean and spread', () => {
+    const draws = draw(createScopeGrowthSampler(5, { mode: 'normal', stdDev: 3 }, createSeededRandom(1)), 20000)
+    expect(mean(draws)).toBeCloseTo(5, 1)
+    expect(standardDeviation(draws)).toBeCloseTo(3, 1)
+  })
+
+  it('lognormal draws are positive, and fall back to normal for shrinking scope', () => {
+    const positive = draw(createScopeGrowthSampler(5, { mode: 'lognormal', stdDev: 3 }, createSeededRandom(2)), 2000)
+    expect(positive.every((x) => x > 0)).toBe(true)
+    const shrinking = draw(createScopeGrowthSampler(-5, { mode: 'lognormal', stdDev: 3 }, createSeededRandom(3)), 20000)
+    expect(mean(shrinking)).toBeCloseTo(-5, 1)
+  })
+
+  it('bootstrap draws keep the historical shape, recentred on the mean', () => {
+    const sampler = createScopeGrowthSampler(12, { mode: 'bootstrap', injections: [0, 10, 20] }, createSeededRandom(4))
+    for (const x of draw(sampler, 100)) {
+      expect([2, 12, 22]).toContain(x)
+    }
+  })
+})
+
+describe('describeScopeGrowthVariability', () => {
+  it('labels each sampling mode', () => {
+    expect(describeScopeGrowthVariability(undefined)).toBe('Fixed')
+    expect(describeScopeGrowthVariability({ mode: 'normal', stdDev: 2 })).toBe('Normal (SD 2.0)')
+    expect(describeScopeGrowthVariability({ mode: 'bootstrap', injections: [1, 2, 3] })).toBe('Bootstrap (3 sprints)')
+  })
+})
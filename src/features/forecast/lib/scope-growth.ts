@@ -2,6 +2,13 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
+import {
+  mean as calculateMean,
+  randomNormal,
+  randomLognormalFromMeanStdDev,
+  type RandomSource,
+} from '@/shared/lib/math'
+
 /**
  * Resolve the effective scope growth per sprint from UI state.
  *
@@ -21,3 +28,73 @@ export function resolveScopeGrowthPerSprint(
   }
   return averageScopeInjection
 }
+
+/**
+ * How per-sprint scope growth is sampled in the simulation.
+ * - fixed: the same amount every sprint (no scope uncertainty)
+ * - normal / lognormal: drawn around the per-sprint amount with the observed injection SD
+ * - bootstrap: resampled from historical injections, recentred on the per-sprint amount
+ */
+export type ScopeGrowthSampling = 'fixed' | 'normal' | 'lognormal' | 'bootstrap'
+
+/**
+ * Engine input for stochastic scope growth. Omitted → fixed growth.
+ */
+export type ScopeGrowthVariability =
+  | { mode: 'normal' | 'lognormal'; stdDev: number }
+  | { mode: 'bootstrap'; injections: number[] }
+
+/**
+ * Resolve the engine's scope growth variability from UI state.
+ * Returns undefined (fixed growth) when growth isn't modeled, the sampling is fixed,
+ * or the history can't support the chosen sampling.
+ */
+export function resolveScopeGrowthVariability(
+  scopeGrowthPerSprint: number | undefined,
+  sampling: ScopeGrowthSampling,
+  injections: number[] | undefined,
+  injectionVolatility: number | undefined
+): ScopeGrowthVariability | undefined {
+  if (scopeGrowthPerSprint === undefined || sampling === 'fixed') return undefined
+  if (sampling === 'bootstrap') {
+    return injections && injections.length > 0 ? { mode: 'bootstrap', injections } : undefined
+  }
+  return injectionVolatility !== undefined && injectionVolatility > 0
+    ? { mode: sampling, stdDev: injectionVolatility }
+    : undefined
+}
+
+/**
+ * Create a per-sprint scope growth sampler with the given mean.
+ *
+ * Lognormal draws are strictly positive, so it falls back to normal when the mean
+ * is not positive (a shrinking backlog). Bootstrap draws are shifted so their
+ * average equals `mean`, which keeps a custom per-sprint value authoritative while
+ * preserving the shape of the historical spread.
+ */
+export function createScopeGrowthSampler(
+  mean: number,
+  variability: ScopeGrowthVariability,
+  rng: RandomSource = Math.random
+): () => number {
+  if (variability.mode === 'bootstrap') {
+    const { injections } = variability
+    const shift = mean - calculateMean(injections)
+    return () => injections[Math.floor(rng() * injections.length)] + shift
+  }
+  const { stdDev } = variability
+  if (variability.mode === 'lognormal' && mean > 0) {
+    return () => randomLognormalFromMeanStdDev(mean, stdDev, rng)
+  }
+  return () => randomNormal(mean, stdDev, rng)
+}
+
+/** Short label for exports and summaries, e.g. "Lognormal (SD 4.2)" */
+export function describeScopeGrowthVariability(variability: ScopeGrowthVariability | undefined): string {
+  if (!variability) return 'Fixed'
+  if (variability.mode === 'bootstrap') {
+    return `Bootstrap (${variability.injections.length} sprints)`
+  }
+  const label = variability.mode === 'lognormal' ? 'Lognormal' : 'Normal'
+  return `${label} (SD ${variability.stdDev.toFixed(1)})`
+}
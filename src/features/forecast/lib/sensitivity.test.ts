@@ -0,0 +1,152 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildSensitivityPlan,
+  sensitivityContexts,
+  summarizeSensitivity,
+  buildTornadoRows,
+  SENSITIVITY_MAX_TRIALS,
+  type SensitivityAnalysis,
+  type SensitivityInputs,
+} from './sensitivity'
+import { simulateTrials, type SimulationContext } from './monte-carlo'
+
+const CONTEXT: SimulationContext = {
+  config: {
+    remainingBacklog: 100,
+    velocityMean: 20,
+    velocityStdDev: 4,
+    startDate: '2026-06-01',
+    trialCount: 400,
+    sprintCadenceWeeks: 2,
+  },
+  historicalVelocities: [16, 20, 24, 18, 22],
+  seed: 42,
+}
+
+function makeInputs(overrides: Partial<SensitivityInputs> = {}): SensitivityInputs {
+  return {
+    context: CONTEXT,
+    volatilityMultiplier: 1,
+    adjustments: [],
+    productivityFactorsWithout: () => undefined,
+    ...overrides,
+  }
+}
+
+function factorIds(inputs: SensitivityInputs): string[] {
+  return buildSensitivityPlan(inputs).factors.map((f) => f.id)
+}
+
+describe('buildSensitivityPlan', () => {
+  it('nudges velocity mean, SD, and backlog, keeping the seed', () => {
+    const plan = buildSensitivityPlan(makeInputs())
+    expect(plan.factors.map((f) => f.id)).toEqual(['velocityMean', 'volatility', 'backlog'])
+    const [mean, sd, backlog] = plan.factors
+    expect(mean.low!.context.config.velocityMean).toBeCloseTo(18)
+    expect(mean.high!.context.config.velocityMean).toBeCloseTo(22)
+    expect(sd.low!.context.config.velocityStdDev).toBeCloseTo(3)
+    expect(sd.high!.context.config.velocityStdDev).toBeCloseTo(5)
+    expect(backlog.low!.context.config.remainingBacklog).toBeCloseTo(90)
+    expect(backlog.high!.context.config.remainingBacklog).toBeCloseTo(110)
+    for (const context of sensitivityContexts(plan)) expect(context.seed).toBe(42)
+  })
+
+  it('shifts Bootstrap history with the mean and scales it with the SD', () => {
+    const [mean, sd] = buildSensitivityPlan(makeInputs()).factors
+    expect(mean.high!.context.historicalVelocities).toEqual([18, 22, 26, 20, 24])
+    expect(sd.high!.context.historicalVelocities).toEqual([15, 20, 25, 17.5, 22.5])
+  })
+
+  it('steps the volatility multiplier from its current setting', () => {
+    const sd = buildSensitivityPlan(makeInputs({ volatilityMultiplier: 1.5 })).factors[1]
+    expect(sd.low!.label).toMatch(/^1\.25× volatility/)
+    expect(sd.high!.label).toMatch(/^1\.75× volatility/)
+    expect(sd.high!.context.config.velocityStdDev).toBeCloseTo(4 * 1.75 / 1.5)
+  })
+
+  it('adds scope growth only when it is modeled', () => {
+    expect(factorIds(makeInputs())).not.toContain('scopeGrowth')
+    const growth = buildSensitivityPlan(
+      makeInputs({ context: { ...CONTEXT, scopeGrowthPerSprint: 4 } })
+    ).factors.find((f) => f.id === 'scopeGrowth')!
+    expect(growth.low!.context.scopeGrowthPerSprint).toBe(2)
+    expect(growth.high!.context.scopeGrowthPerSprint).toBe(6)
+  })
+
+  it('analyses each adjustment by removing it', () => {
+    const plan = buildSensitivityPlan(makeInputs({
+      adjustments: [{ id: 'a1', name: 'Holidays' }],
+      productivityFactorsWithout: (id) => (id === 'a1' ? [1, 1] : undefined),
+    }))
+    const adjustment = plan.factors[plan.factors.length - 1]
+    expect(adjustment).toMatchObject({ id: 'adjustment:a1', name: 'Holidays' })
+    expect(adjustment.high).toBeUndefined()
+    expect(adjustment.low!.context.productivityFactors).toEqual([1, 1])
+  })
+
+  it('caps the trial count of every run', () => {
+    const inputs = makeInputs({ context: { ...CONTEXT, config: { ...CONTEXT.config, trialCount: 50000 } } })
+    for (const context of sensitivityContexts(buildSensitivityPlan(inputs))) {
+      expect(context.config.trialCount).toBe(SENSITIVITY_MAX_TRIALS)
+    }
+  })
+})
+
+describe('summarizeSensitivity', () => {
+  it('moves the P85 in the expected direction for each input', () => {
+    const plan = buildSensitivityPlan(makeInputs({ context: { ...CONTEXT, scopeGrowthPerSprint: 3 } }))
+    const runs = sensitivityContexts(plan).map((context) => simulateTrials(context, { kind: 'backlog' })[0])
+    const analysis = summarizeSensitivity(plan, runs)
+    const rows = buildTornadoRows(analysis, 'lognormal')
+    const byId = Object.fromEntries(rows.map((r) => [r.id, r]))
+
+    expect(byId.velocityMean.lowShiftDays).toBeGreaterThan(0)
+    expect(byId.velocityMean.highShiftDays).toBeLessThan(0)
+    expect(byId.backlog.lowShiftDays).toBeLessThan(0)
+    expect(byId.backlog.highShiftDays).toBeGreaterThan(0)
+    expect(byId.scopeGrowth.highShiftDays).toBeGreaterThan(0)
+    expect(analysis.baseline.bootstrap).toBeDefined()
+  })
+})
+
+describe('buildTornadoRows', () => {
+  const analysis: SensitivityAnalysis = {
+    sprintCadenceWeeks: 2,
+    trialCount: 1000,
+    baseline: { lognormal: { sprints: 6, finishDate: '2026-08-21' } },
+    factors: [
+      {
+        id: 'backlog',
+        name: 'Remaining backlog',
+        low: { label: '−10%', points: { lognormal: { sprints: 5.5, finishDate: '2026-08-21' } } },
+        high: { label: '+10%', points: { lognormal: { sprints: 6.6, finishDate: '2026-09-04' } } },
+      },
+      {
+        id: 'adjustment:a1',
+        name: 'Holidays',
+        low: { label: 'Removed', points: { lognormal: { sprints: 4, finishDate: '2026-07-24' } } },
+      },
+    ],
+  }
+
+  it('converts P85 shifts to days and sorts by swing', () => {
+    expect(buildTornadoRows(analysis, 'lognormal')).toEqual([
+      {
+        id: 'adjustment:a1', name: 'Holidays', lowLabel: 'Removed', highLabel: null,
+        lowShiftDays: -28, highShiftDays: null, lowFinishDate: '2026-07-24', highFinishDate: null, swingDays: 28,
+      },
+      {
+        id: 'backlog', name: 'Remaining backlog', lowLabel: '−10%', highLabel: '+10%',
+        lowShiftDays: -7, highShiftDays: 8, lowFinishDate: '2026-08-21', highFinishDate: '2026-09-04', swingDays: 15,
+      },
+    ])
+  })
+
+  it('is empty for a distribution the analysis did not run', () => {
+    expect(buildTornadoRows(analysis, 'bootstrap')).toEqual([])
+  })
+})
@@ -0,0 +1,310 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+// One-at-a-time sensitivity ("what moves the date the most?").
+//
+// Each forecast input is nudged down and up while everything else — seed included —
+// stays as the last forecast ran it, and the P85 finish of every variant is compared
+// with an unperturbed baseline. Sharing the seed gives every run the same random
+// draws (common random numbers), so the shifts reflect the input, not sampling noise.
+
+import { percentileFromSorted } from '@/shared/lib/math'
+import type { ProductivityAdjustment } from '@/shared/types'
+import { DISTRIBUTION_TYPES } from '@/shared/types/burn-up'
+import type { DistributionType } from '../types'
+import {
+  calculatePercentileResult,
+  type QuadSimulationData,
+  type SimulationConfig,
+  type SimulationContext,
+} from './monte-carlo'
+
+/** Percentile the tornado compares */
+export const SENSITIVITY_PERCENTILE = 85
+
+/** Trial cap per run — a full analysis is 1 + 2 × inputs runs */
+export const SENSITIVITY_MAX_TRIALS = 5000
+
+/** Relative nudges applied to each input */
+export const VELOCITY_MEAN_DELTA = 0.1
+export const VOLATILITY_MULTIPLIER_DELTA = 0.25
+export const BACKLOG_DELTA = 0.1
+export const SCOPE_GROWTH_DELTA = 0.5
+
+export interface SensitivityInputs {
+  /** Inputs of the forecast being analysed, as it ran */
+  context: SimulationContext
+  /** Volatility multiplier the velocity SD was scaled by (1 outside history mode) */
+  volatilityMultiplier: number
+  /** Enabled productivity adjustments, each analysed by removing it */
+  adjustments: Pick<ProductivityAdjustment, 'id' | 'name'>[]
+  /** Productivity factors the forecast would use without one adjustment */
+  productivityFactorsWithout: (adjustmentId: string) => number[] | undefined
+}
+
+export interface SensitivityScenario {
+  label: string
+  context: SimulationContext
+}
+
+/** One input: the variant that lowers it and/or the one that raises it */
+export interface SensitivityFactor {
+  id: string
+  name: string
+  low?: SensitivityScenario
+  high?: SensitivityScenario
+}
+
+export interface SensitivityPlan {
+  baseline: SimulationContext
+  factors: SensitivityFactor[]
+}
+
+/** P85 of one run for one distribution */
+export interface SensitivityPoint {
+  /** Interpolated P85 in sprints — small input changes register even within a sprint */
+  sprints: number
+  /** Finish date of the sprint the P85 lands in */
+  finishDate: string
+}
+
+export type SensitivityPoints = Partial<Record<DistributionType, SensitivityPoint>>
+
+export interface SensitivityAnalysis {
+  sprintCadenceWeeks: number
+  trialCount: number
+  baseline: SensitivityPoints
+  factors: {
+    id: string
+    name: string
+    low?: { label: string; points: SensitivityPoints }
+    high?: { label: string; points: SensitivityPoints }
+  }[]
+}
+
+/** One tornado bar, shifts in calendar days relative to the baseline P85 */
+export interface TornadoRow {
+  id: string
+  name: string
+  lowLabel: string | null
+  highLabel: string | null
+  lowShiftDays: number | null
+  highShiftDays: number | null
+  lowFinishDate: string | null
+  highFinishDate: string | null
+  /** Width of the bar: spread of the shifts, baseline (0) included */
+  swingDays: number
+}
+
+function formatPercent(delta: number): string {
+  return `${Math.round(delta * 100)}%`
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 })
+}
+
+function formatMultiplier(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+/**
+ * Move the whole velocity distribution by `delta` without changing its spread:
+ * the mean, Bootstrap's history, the trend's bounds, and a three-point estimate.
+ */
+function shiftVelocity(ctx: SimulationContext, delta: number): SimulationContext {
+  const pert = ctx.pertEstimate
+  return {
+    ...ctx,
+    config: { ...ctx.config, velocityMean: ctx.config.velocityMean + delta },
+    historicalVelocities: ctx.historicalVelocities?.map((v) => Math.max(0, v + delta)),
+    trend: ctx.trend && { ...ctx.trend, plateau: ctx.trend.plateau + delta, floor: Math.max(0, ctx.trend.floor + delta) },
+    pertEstimate: pert && {
+      lower: Math.max(0, pert.lower + delta),
+      mode: pert.mode + delta,
+      upper: pert.upper + delta,
+    },
+  }
+}
+
+/**
+ * Widen or narrow the velocity distribution by `ratio` around its centre: the SD,
+ * Bootstrap's history about its mean, and a three-point estimate about its mode.
+ */
+function scaleVolatility(ctx: SimulationContext, ratio: number): SimulationContext {
+  const pert = ctx.pertEstimate
+  const history = ctx.historicalVelocities
+  const historyMean = history && history.length > 0 ? history.reduce((sum, v) => sum + v, 0) / history.length : 0
+  return {
+    ...ctx,
+    config: { ...ctx.config, velocityStdDev: ctx.config.velocityStdDev * ratio },
+    historicalVelocities: history?.map((v) => Math.max(0, historyMean + (v - historyMean) * ratio)),
+    pertEstimate: pert && {
+      lower: Math.max(0, pert.mode - (pert.mode - pert.lower) * ratio),
+      mode: pert.mode,
+      upper: pert.mode + (pert.upper - pert.mode) * ratio,
+    },
+  }
+}
+
+/**
+ * Build the runs of a sensitivity analysis: a baseline and, per input, the
+ * variants that nudge it. Scope growth is only analysed when the forecast models
+ * it; each enabled productivity adjustment is analysed by removing it.
+ */
+export function buildSensitivityPlan(inputs: SensitivityInputs): SensitivityPlan {
+  const { config } = inputs.context
+  const baseline: SimulationContext = {
+    ...inputs.context,
+    config: { ...config, trialCount: Math.min(config.trialCount, SENSITIVITY_MAX_TRIALS) },
+  }
+  const factors: SensitivityFactor[] = []
+
+  const meanDelta = config.velocityMean * VELOCITY_MEAN_DELTA
+  factors.push({
+    id: 'velocityMean',
+    name: 'Velocity mean',
+    low: {
+      label: `−${formatPercent(VELOCITY_MEAN_DELTA)} (${formatNumber(config.velocityMean - meanDelta)})`,
+      context: shiftVelocity(baseline, -meanDelta),
+    },
+    high: {
+      label: `+${formatPercent(VELOCITY_MEAN_DELTA)} (${formatNumber(config.velocityMean + meanDelta)})`,
+      context: shiftVelocity(baseline, meanDelta),
+    },
+  })
+
+  const multiplier = inputs.volatilityMultiplier > 0 ? inputs.volatilityMultiplier : 1
+  const lowMultiplier = Math.max(0, multiplier - VOLATILITY_MULTIPLIER_DELTA)
+  const highMultiplier = multiplier + VOLATILITY_MULTIPLIER_DELTA
+  factors.push({
+    id: 'volatility',
+    name: 'Velocity SD',
+    low: {
+      label: `${formatMultiplier(lowMultiplier)}× volatility (${formatNumber(config.velocityStdDev * lowMultiplier / multiplier)})`,
+      context: scaleVolatility(baseline, lowMultiplier / multiplier),
+    },
+    high: {
+      label: `${formatMultiplier(highMultiplier)}× volatility (${formatNumber(config.velocityStdDev * highMultiplier / multiplier)})`,
+      context: scaleVolatility(baseline, highMultiplier / multiplier),
+    },
+  })
+
+  // Throughput mode counts whole items
+  const round = (value: number) => (baseline.throughputMode ? Math.round(value) : value)
+  const lowBacklog = round(config.remainingBacklog * (1 - BACKLOG_DELTA))
+  const highBacklog = round(config.remainingBacklog * (1 + BACKLOG_DELTA))
+  const withBacklog = (remainingBacklog: number): SimulationContext => ({
+    ...baseline,
+    config: { ...baseline.config, remainingBacklog },
+  })
+  factors.push({
+    id: 'backlog',
+    name: 'Remaining backlog',
+    low: { label: `−${formatPercent(BACKLOG_DELTA)} (${formatNumber(lowBacklog)})`, context: withBacklog(lowBacklog) },
+    high: { label: `+${formatPercent(BACKLOG_DELTA)} (${formatNumber(highBacklog)})`, context: withBacklog(highBacklog) },
+  })
+
+  const growth = baseline.scopeGrowthPerSprint
+  if (growth !== undefined && growth !== 0) {
+    const [lower, higher] = [growth * (1 - SCOPE_GROWTH_DELTA), growth * (1 + SCOPE_GROWTH_DELTA)].sort((a, b) => a - b)
+    factors.push({
+      id: 'scopeGrowth',
+      name: 'Scope growth per sprint',
+      low: { label: `${formatNumber(lower)} per sprint`, context: { ...baseline, scopeGrowthPerSprint: lower } },
+      high: { label: `${formatNumber(higher)} per sprint`, context: { ...baseline, scopeGrowthPerSprint: higher } },
+    })
+  }
+
+  for (const adjustment of inputs.adjustments) {
+    factors.push({
+      id: `adjustment:${adjustment.id}`,
+      name: adjustment.name,
+      low: {
+        label: 'Removed',
+        context: { ...baseline, productivityFactors: inputs.productivityFactorsWithout(adjustment.id) },
+      },
+    })
+  }
+
+  return { baseline, factors }
+}
+
+/** Every run of the plan, baseline first, then each factor's low and high variant */
+export function sensitivityContexts(plan: SensitivityPlan): SimulationContext[] {
+  const contexts = [plan.baseline]
+  for (const factor of plan.factors) {
+    if (factor.low) contexts.push(factor.low.context)
+    if (factor.high) contexts.push(factor.high.context)
+  }
+  return contexts
+}
+
+function summarizePoints(data: QuadSimulationData, config: SimulationConfig): SensitivityPoints {
+  const points: SensitivityPoints = {}
+  for (const distribution of DISTRIBUTION_TYPES) {
+    const sorted = data[distribution]
+    if (!sorted || sorted.length === 0) continue
+    points[distribution] = {
+      sprints: percentileFromSorted(sorted, SENSITIVITY_PERCENTILE),
+      finishDate: calculatePercentileResult(
+        sorted, SENSITIVITY_PERCENTILE, config.startDate, config.sprintCadenceWeeks, config.nonWorkingDays, config.workWeek
+      ).finishDate,
+    }
+  }
+  return points
+}
+
+/**
+ * Reduce the runs of a plan (in `sensitivityContexts` order) to P85 points
+ */
+export function summarizeSensitivity(plan: SensitivityPlan, runs: QuadSimulationData[]): SensitivityAnalysis {
+  const { sprintCadenceWeeks, trialCount } = plan.baseline.config
+  const summarize = (data: QuadSimulationData) => summarizePoints(data, plan.baseline.config)
+  let next = 1
+  return {
+    sprintCadenceWeeks,
+    trialCount,
+    baseline: summarize(runs[0]),
+    factors: plan.factors.map((factor) => ({
+      id: factor.id,
+      name: factor.name,
+      low: factor.low && { label: factor.low.label, points: summarize(runs[next++]) },
+      high: factor.high && { label: factor.high.label, points: summarize(runs[next++]) },
+    })),
+  }
+}
+
+/**
+ * Tornado bars for one distribution, widest swing first. Shifts are the P85
+ * difference in sprints converted to calendar days.
+ */
+export function buildTornadoRows(analysis: SensitivityAnalysis, distribution: DistributionType): TornadoRow[] {
+  const base = analysis.baseline[distribution]
+  if (!base) return []
+  const daysPerSprint = analysis.sprintCadenceWeeks * 7
+  const shift = (point: SensitivityPoint | undefined) =>
+    point ? Math.round((point.sprints - base.sprints) * daysPerSprint) : null
+
+  return analysis.factors
+    .map((factor) => {
+      const low = factor.low?.points[distribution]
+      const high = factor.high?.points[distribution]
+      const lowShiftDays = shift(low)
+      const highShiftDays = shift(high)
+      const shifts = [0, lowShiftDays ?? 0, highShiftDays ?? 0]
+      return {
+        id: factor.id,
+        name: factor.name,
+        lowLabel: factor.low?.label ?? null,
+        highLabel: factor.high?.label ?? null,
+        lowShiftDays,
+        highShiftDays,
+        lowFinishDate: low?.finishDate ?? null,
+        highFinishDate: high?.finishDate ?? null,
+        swingDays: Math.max(...shifts) - Math.min(...shifts),
+      }
+    })
+    .sort((a, b) => b.swingDays - a.swingDays)
+}
@@ -0,0 +1,104 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import {
+  simulationWorkerCount,
+  shardChunks,
+  runChunksCooperatively,
+  findAdaptiveTrialCountCooperatively,
+} from './simulation-pool'
+import {
+  planSimulationChunks,
+  mergeSimulationChunks,
+  simulateTrials,
+  findAdaptiveTrialCount,
+} from './monte-carlo'
+import { MAX_SIMULATION_WORKERS, SIMULATION_CHUNK_SIZE } from '../constants'
+
+const ctx = {
+  config: {
+    remainingBacklog: 300,
+    velocityMean: 20,
+    velocityStdDev: 6,
+    startDate: '2024-01-01',
+    sprintCadenceWeeks: 2,
+    trialCount: 5500,
+  },
+  historicalVelocities: [14, 22, 19, 25, 17],
+  seed: 8,
+}
+
+const idle = { onProgress: () => {}, isCancelled: () => false }
+
+describe('simulationWorkerCount', () => {
+  it('leaves one core for the page', () => {
+    expect(simulationWorkerCount(3)).toBe(2)
+  })
+
+  it('caps the pool size', () => {
+    expect(simulationWorkerCount(32)).toBe(MAX_SIMULATION_WORKERS)
+  })
+
+  it('falls back to one worker on small or unknown machines', () => {
+    expect(simulationWorkerCount(1)).toBe(1)
+    expect(simulationWorkerCount(undefined)).toBe(1)
+  })
+})
+
+describe('shardChunks', () => {
+  it('splits chunks into contiguous, near-equal shards', () => {
+    const chunks = planSimulationChunks(10 * SIMULATION_CHUNK_SIZE)
+    const shards = shardChunks(chunks, 4)
+    expect(shards.map((shard) => shard.length)).toEqual([3, 3, 2, 2])
+    expect(shards.flat()).toEqual(chunks)
+  })
+
+  it('never returns empty shards', () => {
+    expect(shardChunks(planSimulationChunks(500), 4)).toEqual([[{ index: 0, trialCount: 500 }]])
+  })
+})
+
+describe('runChunksCooperatively', () => {
+  it('merges to the same result for any number of workers', async () => {
+    const target = { kind: 'backlog' as const }
+    const chunks = planSimulationChunks(ctx.config.trialCount)
+    const expected = simulateTrials(ctx, target)
+    for (const workerCount of [1, 2, 4]) {
+      const parts = await Promise.all(
+        shardChunks(chunks, workerCount).map((shard) => runChunksCooperatively(ctx, target, shard, idle))
+      )
+      expect(mergeSimulationChunks(parts.map((part) => part!))).toEqual(expected)
+    }
+  })
+
+  it('reports completed trials after each chunk', async () => {
+    const progress: number[] = []
+    await runChunksCooperatively(ctx, { kind: 'work', sprintCount: 4 }, planSimulationChunks(ctx.config.trialCount), {
+      ...idle,
+      onProgress: (completed) => progress.push(completed),
+    })
+    expect(progress).toEqual([1000, 2000, 3000, 4000, 5000, 5500])
+  })
+
+  it('stops at the next chunk once cancelled', async () => {
+    let chunksRun = 0
+    const result = await runChunksCooperatively(ctx, { kind: 'backlog' }, planSimulationChunks(ctx.config.trialCount), {
+      onProgress: () => chunksRun++,
+      isCancelled: () => chunksRun >= 2,
+    })
+    expect(result).toBeNull()
+    expect(chunksRun).toBe(2)
+  })
+})
+
+describe('findAdaptiveTrialCountCooperatively', () => {
+  it('settles on the same trial count as the synchronous pass', async () => {
+    expect(await findAdaptiveTrialCountCooperatively(ctx, idle)).toEqual(findAdaptiveTrialCount(ctx))
+  })
+
+  it('returns null when cancelled', async () => {
+    expect(await findAdaptiveTrialCountCooperatively(ctx, { ...idle, isCancelled: () => true })).toBeNull()
+  })
+})
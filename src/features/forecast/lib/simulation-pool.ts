@@ -0,0 +1,108 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Sharded, cancellable simulation runs.
+ *
+ * The hook splits a run's chunks across a small pool of workers; each worker runs
+ * its shard one chunk at a time, reporting progress and checking for cancellation
+ * between chunks. Chunk draws depend only on the seed and chunk index, so the merged
+ * result is the same for any pool size.
+ */
+
+import { MAX_SIMULATION_WORKERS, ADAPTIVE_TRIAL_BATCH_SIZE } from '../constants'
+import {
+  simulateChunk,
+  mergeSimulationChunks,
+  createAdaptiveTrialSearch,
+  type SimulationContext,
+  type SimulationTarget,
+  type SimulationChunk,
+  type TargetSimulationData,
+  type AdaptiveTrialResult,
+} from './monte-carlo'
+
+/**
+ * Workers to spawn for a machine with `hardwareConcurrency` logical cores: one core is
+ * left for the page, capped at MAX_SIMULATION_WORKERS. Unknown core count → 1 worker.
+ */
+export function simulationWorkerCount(hardwareConcurrency?: number): number {
+  if (!hardwareConcurrency || !Number.isFinite(hardwareConcurrency)) return 1
+  return Math.max(1, Math.min(MAX_SIMULATION_WORKERS, Math.floor(hardwareConcurrency) - 1))
+}
+
+/**
+ * Split chunks into at most `workerCount` contiguous shards of near-equal size.
+ * Never returns an empty shard, so small runs use fewer workers.
+ */
+export function shardChunks(chunks: SimulationChunk[], workerCount: number): SimulationChunk[][] {
+  const shardCount = Math.max(1, Math.min(workerCount, chunks.length))
+  const baseSize = Math.floor(chunks.length / shardCount)
+  const extra = chunks.length % shardCount
+  const shards: SimulationChunk[][] = []
+  let start = 0
+  for (let i = 0; i < shardCount; i++) {
+    const size = baseSize + (i < extra ? 1 : 0)
+    shards.push(chunks.slice(start, start + size))
+    start += size
+  }
+  return shards
+}
+
+/**
+ * Hooks a cooperative run calls between chunks.
+ */
+export interface ChunkRunControl {
+  /** Trials completed so far (per distribution) in this run */
+  onProgress: (completedTrials: number) => void
+  /** Checked before every chunk; true stops the run */
+  isCancelled: () => boolean
+}
+
+/** Let queued messages (e.g., a cancel request) run before the next chunk */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+/**
+ * Run a shard chunk by chunk, yielding between chunks.
+ * Resolves to the merged result series, or null when cancelled.
+ */
+export async function runChunksCooperatively<T extends SimulationTarget>(
+  ctx: SimulationContext,
+  target: T,
+  chunks: SimulationChunk[],
+  control: ChunkRunControl
+): Promise<TargetSimulationData<T>[] | null> {
+  const parts: TargetSimulationData<T>[][] = []
+  let completedTrials = 0
+  for (const chunk of chunks) {
+    if (control.isCancelled()) return null
+    parts.push(simulateChunk(ctx, target, chunk))
+    completedTrials += chunk.trialCount
+    control.onProgress(completedTrials)
+    await yieldToEventLoop()
+  }
+  return mergeSimulationChunks(parts)
+}
+
+/**
+ * Adaptive convergence pass (see findAdaptiveTrialCount), yielding between batches.
+ * Resolves to the settled trial count, or null when cancelled.
+ */
+export async function findAdaptiveTrialCountCooperatively(
+  ctx: SimulationContext,
+  control: ChunkRunControl
+): Promise<AdaptiveTrialResult | null> {
+  const search = createAdaptiveTrialSearch(ctx)
+  let completedTrials = 0
+  for (;;) {
+    if (control.isCancelled()) return null
+    const result = search.step()
+    if (result) return result
+    completedTrials += ADAPTIVE_TRIAL_BATCH_SIZE
+    control.onProgress(completedTrials)
+    await yieldToEventLoop()
+  }
+}
@@ -3,7 +3,12 @@
 // See LICENSE file in the project root for full license text.
 
 import { describe, it, expect } from 'vitest'
-import { calculateVelocityStats, calculateScopeChangeStats } from './statistics'
+import {
+  calculateVelocityStats,
+  calculateScopeChangeStats,
+  normalizedVelocity,
+  resolveVelocityNormalization,
+} from './statistics'
 import type { Sprint } from '@/shared/types'
 
 const createSprint = (overrides: Partial<Sprint> = {}): Sprint => ({
@@ -53,6 +58,81 @@ describe('calculateVelocityStats', () => {
     expect(stats.count).toBe(0)
     expect(stats.mean).toBe(0)
     expect(stats.standardDeviation).toBe(0)
+    expect(stats.lag1Autocorrelation).toBe(0)
+  })
+
+  it('measures lag-1 autocorrelation in sprint-number order', () => {
+    // Out-of-order input: sorted series is 10, 12, 14, 16, 18 (smooth trend → positive)
+    const sprints: Sprint[] = [18, 10, 14, 12, 16].map((doneValue) =>
+      createSprint({ sprintNumber: (doneValue - 8) / 2, doneValue })
+    )
+
+    const stats = calculateVelocityStats(sprints)
+
+    expect(stats.lag1Autocorrelation).toBeCloseTo(0.4, 5)
+  })
+
+  it('reports negative autocorrelation for alternating velocities', () => {
+    const sprints: Sprint[] = [10, 30, 10, 30, 10, 30].map((doneValue, i) =>
+      createSprint({ sprintNumber: i + 1, doneValue })
+    )
+
+    const stats = calculateVelocityStats(sprints)
+
+    expect(stats.lag1Autocorrelation).toBeLessThan(-0.5)
+  })
+})
+
+describe('velocity normalization', () => {
+  // 2-week sprints 1-3 from Monday Jan 6 2025, then 1-week sprints from sprint 4
+  const project = {
+    sprintCadenceWeeks: 2 as const,
+    firstSprintStartDate: '2025-01-06',
+    cadenceChanges: [{ fromSprintNumber: 4, cadenceWeeks: 1 as const }],
+  }
+  const numbers = (...sprintNumbers: number[]) => sprintNumbers.map((sprintNumber) => ({ sprintNumber }))
+
+  it('is skipped without a sprint schedule', () => {
+    expect(resolveVelocityNormalization({ sprintCadenceWeeks: 2 }, numbers(1, 2), 3)).toBeUndefined()
+    expect(normalizedVelocity(createSprint({ doneValue: 12 }))).toBe(12)
+  })
+
+  it('targets the cadence of the next sprint', () => {
+    expect(resolveVelocityNormalization(project, numbers(1, 2), 3)).toMatchObject({
+      targetCadenceWeeks: 2, targetWorkingDays: 10,
+    })
+    expect(resolveVelocityNormalization(project, numbers(1, 2, 3, 4, 5, 6), 7)).toMatchObject({
+      targetCadenceWeeks: 1, targetWorkingDays: 5,
+    })
+  })
+
+  it('scales each sprint per working day to the target cadence', () => {
+    const normalization = resolveVelocityNormalization(project, numbers(1, 2, 3, 4, 5, 6), 7)
+    expect(normalizedVelocity(createSprint({ sprintNumber: 2, doneValue: 20 }), normalization)).toBe(10)
+    expect(normalizedVelocity(createSprint({ sprintNumber: 5, doneValue: 9 }), normalization)).toBe(9)
+  })
+
+  it('counts each sprint over its resolved dates: holidays, custom finishes and the work week', () => {
+    const fixed = { sprintCadenceWeeks: 2 as const, firstSprintStartDate: '2025-01-06' }
+    // Sprint 1 (Jan 6-17) loses Jan 8 to a holiday; sprint 2 finishes three working days late, on Feb 5
+    const sprints = [{ sprintNumber: 1 }, { sprintNumber: 2, customFinishDate: '2025-02-05' }]
+    const normalization = resolveVelocityNormalization(fixed, sprints, 3, new Set(['2025-01-08']))
+    expect(normalizedVelocity(createSprint({ sprintNumber: 1, doneValue: 18 }), normalization)).toBe(20)
+    expect(normalizedVelocity(createSprint({ sprintNumber: 2, doneValue: 26 }), normalization)).toBe(20)
+    // A four-day week forecasts 8-day sprints
+    const fourDay = resolveVelocityNormalization(fixed, numbers(1), 2, undefined, [1, 2, 3, 4])
+    expect(fourDay?.targetWorkingDays).toBe(8)
+    expect(normalizedVelocity(createSprint({ sprintNumber: 1, doneValue: 16 }), fourDay)).toBe(16)
+  })
+
+  it('pools sprints of different lengths in the stats', () => {
+    const sprints = [20, 22, 18, 10, 11, 9].map((doneValue, i) => createSprint({ sprintNumber: i + 1, doneValue }))
+
+    const pooled = calculateVelocityStats(sprints, resolveVelocityNormalization(project, sprints, 7))
+
+    expect(pooled.mean).toBeCloseTo(10)
+    expect(pooled.standardDeviation).toBeLessThan(1)
+    expect(calculateVelocityStats(sprints).standardDeviation).toBeGreaterThan(5)
   })
 })
 
@@ -97,6 +177,20 @@ describe('calculateScopeChangeStats', () => {
     expect(stats!.latestScope).toBe(140)
   })
 
+  it('exposes per-sprint injections and their spread', () => {
+    const sprints: Sprint[] = [
+      createSprint({ sprintNumber: 1, doneValue: 10, backlogAtSprintEnd: 100 }),
+      createSprint({ sprintNumber: 3, doneValue: 20, backlogAtSprintEnd: 100 }),
+      createSprint({ sprintNumber: 2, doneValue: 10, backlogAtSprintEnd: 90 }),
+    ]
+
+    const stats = calculateScopeChangeStats(sprints)!
+
+    // Sprint order: injection = (90-100+10), (100-90+20) = 0, 30
+    expect(stats.injections).toEqual([0, 30])
+    expect(stats.injectionVolatility).toBeCloseTo(Math.sqrt(450), 10)
+  })
+
   it('calculates shrinking trend correctly', () => {
     const sprints: Sprint[] = [
       createSprint({ sprintNumber: 1, doneValue: 10, backlogAtSprintEnd: 100 }),
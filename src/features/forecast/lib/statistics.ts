@@ -2,20 +2,83 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import { mean, standardDeviation } from '@/shared/lib/math'
-import type { Sprint, VelocityStats } from '@/shared/types'
+import { mean, standardDeviation, lag1Autocorrelation } from '@/shared/lib/math'
+import {
+  cadenceWeeksForSprint,
+  countWorkingDays,
+  resolveAllSprintDates,
+  DEFAULT_WORK_WEEK,
+  type NonWorkingDays,
+  type WorkWeek,
+} from '@/shared/lib/dates'
+import type { Project, Sprint, VelocityStats } from '@/shared/types'
 
 /**
- * Calculate velocity statistics from a list of sprints
+ * A project's sprint lengths in working days, for pooling velocities per working day
  */
-export function calculateVelocityStats(sprints: Sprint[]): VelocityStats {
-  const includedSprints = sprints.filter((s) => s.includedInForecast)
-  const velocities = includedSprints.map((s) => s.doneValue)
+export interface VelocityNormalization {
+  /** Each recorded sprint's working days, from its resolved start to its finish */
+  sprintWorkingDays: ReadonlyMap<number, number>
+  targetCadenceWeeks: number // The cadence forecast sprints run at
+  targetWorkingDays: number // A forecast sprint's working days (holidays count as lost productivity)
+}
+
+/**
+ * How to pool a project's velocities for forecasting from the given sprint on, or
+ * undefined for a project without a sprint schedule. Sprint lengths follow the
+ * resolved dates: custom finish dates, cadence changes, holidays and the work week.
+ */
+export function resolveVelocityNormalization(
+  project: Pick<Project, 'sprintCadenceWeeks' | 'firstSprintStartDate' | 'cadenceChanges'>,
+  sprints: Array<{ sprintNumber: number; customFinishDate?: string }>,
+  nextSprintNumber: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+): VelocityNormalization | undefined {
+  const { sprintCadenceWeeks, firstSprintStartDate, cadenceChanges } = project
+  if (!sprintCadenceWeeks || !firstSprintStartDate) return undefined
+  const resolved = resolveAllSprintDates(
+    firstSprintStartDate, sprintCadenceWeeks, sprints, nonWorkingDays, workWeek, cadenceChanges
+  )
+  const sprintWorkingDays = new Map<number, number>()
+  for (const [sprintNumber, { startDate, finishDate }] of resolved) {
+    sprintWorkingDays.set(sprintNumber, countWorkingDays(startDate, finishDate, nonWorkingDays, workWeek))
+  }
+  const targetCadenceWeeks = cadenceWeeksForSprint(nextSprintNumber, sprintCadenceWeeks, cadenceChanges)
+  return {
+    sprintWorkingDays,
+    targetCadenceWeeks,
+    targetWorkingDays: targetCadenceWeeks * (workWeek ?? DEFAULT_WORK_WEEK).length,
+  }
+}
+
+/**
+ * A sprint's velocity per working day, re-expressed as a forecast sprint: a
+ * 1-week sprint's 10 points pool as 20 in a 2-week forecast, and 18 points in a
+ * 2-week sprint that lost a day to a holiday pool as 20.
+ */
+export function normalizedVelocity(sprint: Sprint, normalization?: VelocityNormalization): number {
+  const workingDays = normalization?.sprintWorkingDays.get(sprint.sprintNumber)
+  if (!normalization || !workingDays || workingDays === normalization.targetWorkingDays) return sprint.doneValue
+  return (sprint.doneValue / workingDays) * normalization.targetWorkingDays
+}
+
+/**
+ * Calculate velocity statistics from a list of sprints.
+ * Autocorrelation is measured in sprint-number order, skipping excluded sprints.
+ * With a normalization, sprints are pooled per working day.
+ */
+export function calculateVelocityStats(sprints: Sprint[], normalization?: VelocityNormalization): VelocityStats {
+  const includedSprints = sprints
+    .filter((s) => s.includedInForecast)
+    .sort((a, b) => a.sprintNumber - b.sprintNumber)
+  const velocities = includedSprints.map((s) => normalizedVelocity(s, normalization))
 
   return {
     count: velocities.length,
     mean: mean(velocities),
     standardDeviation: standardDeviation(velocities),
+    lag1Autocorrelation: lag1Autocorrelation(velocities),
   }
 }
 
@@ -38,6 +101,11 @@ export interface ScopeChangeStats {
   averagePercentChange: number
   /** Net new scope added per sprint, accounting for completed work. Use for simulation input. */
   averageScopeInjection: number
+  /** Per-sprint scope injections in sprint order (sampled by bootstrap scope growth) */
+  injections: number[]
+  /** Standard deviation of per-sprint injections (spread for stochastic scope growth) */
+  injectionVolatility: number
+  /** Standard deviation of net backlog change per sprint */
   volatility: number
   trend: 'growing' | 'shrinking' | 'stable'
   sprintsWithData: number
@@ -100,6 +168,7 @@ export function calculateScopeChangeStats(sprints: Sprint[]): ScopeChangeStats |
   const averageChange = mean(changes)
   const averagePercentChange = mean(percentChanges)
   const averageScopeInjection = mean(injections)
+  const injectionVolatility = standardDeviation(injections)
   const volatility = standardDeviation(changes)
 
   // Determine trend based on average change relative to volatility
@@ -121,6 +190,8 @@ export function calculateScopeChangeStats(sprints: Sprint[]): ScopeChangeStats |
     averageChange,
     averagePercentChange,
     averageScopeInjection,
+    injections,
+    injectionVolatility,
     volatility,
     trend,
     sprintsWithData: sprintsWithBacklog.length,
@@ -0,0 +1,28 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import { selectCountModel, dispersionIndex, countFractionalValues } from './throughput'
+
+describe('selectCountModel', () => {
+  it('fits a negative binomial only when variance exceeds the mean', () => {
+    expect(selectCountModel(10, 5)).toBe('negativeBinomial')
+    expect(selectCountModel(10, 3)).toBe('poisson')
+    expect(selectCountModel(9, 3)).toBe('poisson') // variance == mean
+  })
+})
+
+describe('dispersionIndex', () => {
+  it('is variance over mean', () => {
+    expect(dispersionIndex(8, 4)).toBe(2)
+    expect(dispersionIndex(0, 4)).toBe(0)
+  })
+})
+
+describe('countFractionalValues', () => {
+  it('counts values that are not whole items', () => {
+    expect(countFractionalValues([3, 4.5, 0, 2.25])).toBe(2)
+    expect(countFractionalValues([])).toBe(0)
+  })
+})
@@ -0,0 +1,38 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Throughput (item count) mode helpers.
+ *
+ * In throughput mode the backlog and every sprint's done value are whole items.
+ * The engine's Gamma slot then samples a count model fit to the velocity mean/SD.
+ */
+
+export type CountModel = 'negativeBinomial' | 'poisson'
+
+export const COUNT_MODEL_LABELS: Record<CountModel, string> = {
+  negativeBinomial: 'Negative binomial',
+  poisson: 'Poisson',
+}
+
+/**
+ * Count model the engine fits for a given mean and SD. A negative binomial needs
+ * variance above the mean (overdispersion); otherwise Poisson is the closest fit.
+ */
+export function selectCountModel(mean: number, stdDev: number): CountModel {
+  return stdDev * stdDev > mean ? 'negativeBinomial' : 'poisson'
+}
+
+/**
+ * Variance-to-mean ratio of a velocity mean/SD (1 = Poisson-like, > 1 = overdispersed).
+ * Returns 0 when the mean is not positive.
+ */
+export function dispersionIndex(mean: number, stdDev: number): number {
+  return mean > 0 ? (stdDev * stdDev) / mean : 0
+}
+
+/** Number of values that are not whole item counts */
+export function countFractionalValues(values: number[]): number {
+  return values.filter((v) => !Number.isInteger(v)).length
+}
@@ -0,0 +1,66 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import { assessVelocityTrend, describeVelocityTrend } from './velocity-trend'
+import type { Sprint } from '@/shared/types'
+
+const sprintsFrom = (velocities: number[]): Sprint[] =>
+  velocities.map((doneValue, i) => ({
+    id: `s${i + 1}`,
+    projectId: 'p',
+    sprintNumber: i + 1,
+    sprintStartDate: '2025-01-06',
+    sprintFinishDate: '2025-01-17',
+    doneValue,
+    includedInForecast: true,
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+  }))
+
+describe('assessVelocityTrend', () => {
+  it('applies a clean linear trend anchored at the last sprint', () => {
+    // 10, 12, ..., 20 — slope 2, centroid at sprint 3.5
+    const a = assessVelocityTrend(sprintsFrom([10, 12, 14, 16, 18, 20]), 15, 0.3, 6)
+    expect(a.refusedReason).toBeNull()
+    expect(a.trend).not.toBeNull()
+    expect(a.trend!.slope).toBeCloseTo(2, 10)
+    expect(a.trend!.startOffset).toBeCloseTo(2.5, 10)
+    expect(a.trend!.plateau).toBeCloseTo(22.5, 10)
+    expect(a.trend!.floor).toBeCloseTo(7.5, 10)
+  })
+
+  it('refuses the trend when R² is below the threshold', () => {
+    const a = assessVelocityTrend(sprintsFrom([10, 30, 12, 28, 14, 26]), 20, 0.3, 6)
+    expect(a.trend).toBeNull()
+    expect(a.refusedReason).toMatch(/below the 0\.30 threshold/)
+  })
+
+  it('honors a zero threshold', () => {
+    const a = assessVelocityTrend(sprintsFrom([10, 30, 12, 28, 14, 26]), 20, 0, 6)
+    expect(a.trend).not.toBeNull()
+  })
+
+  it('refuses with too few sprints', () => {
+    const a = assessVelocityTrend(sprintsFrom([10, 12, 14]), 12, 0, 3)
+    expect(a.trend).toBeNull()
+    expect(a.refusedReason).toMatch(/included sprints/)
+  })
+
+  it('refuses a flat history', () => {
+    const a = assessVelocityTrend(sprintsFrom([15, 15, 15, 15]), 15, 0, 4)
+    expect(a.trend).toBeNull()
+  })
+})
+
+describe('describeVelocityTrend', () => {
+  it('describes an applied trend and returns null for a refused one', () => {
+    const applied = assessVelocityTrend(sprintsFrom([10, 12, 14, 16, 18, 20]), 15, 0.3, 6)
+    expect(describeVelocityTrend(applied, 'pts')).toBe(
+      'Trend-adjusted: +2.00 pts/sprint (R² 1.00), capped at 22.5, floored at 7.5'
+    )
+    const refused = assessVelocityTrend(sprintsFrom([10, 12, 14]), 12, 0, 3)
+    expect(describeVelocityTrend(refused, 'pts')).toBeNull()
+  })
+})
@@ -0,0 +1,93 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { linearRegression, type TrendResult } from '@/shared/lib/trend'
+import { mean } from '@/shared/lib/math'
+import type { Sprint } from '@/shared/types'
+import type { VelocityTrend } from './monte-carlo'
+import {
+  MIN_SPRINTS_FOR_TREND,
+  TREND_PLATEAU_MULTIPLIER,
+  TREND_FLOOR_MULTIPLIER,
+} from '../constants'
+
+/**
+ * Result of fitting the velocity trend and deciding whether it may be projected.
+ */
+export interface VelocityTrendAssessment {
+  fit: TrendResult
+  sprintCount: number
+  /** Trend to project into the forecast, or null when the fit is refused */
+  trend: VelocityTrend | null
+  /** User-facing reason the trend is refused; null when it can be applied */
+  refusedReason: string | null
+}
+
+/**
+ * Fit velocity over sprint number (same regression as the Sprint History chart) and
+ * build the trend projection relative to `forecastMean`.
+ *
+ * The projection passes through the forecast mean at the history centroid, so future
+ * sprint k is projected at forecastMean + slope × (lastSprintNumber − centroid + k),
+ * capped at a plateau and floored at a minimum proportional to the mean. Weak fits
+ * (R² below `minRSquared`) are refused rather than extrapolated.
+ *
+ * @param includedSprints - Included-in-forecast sprints
+ * @param forecastMean - Effective mean velocity used by the simulation
+ * @param minRSquared - Minimum R² required to apply the trend (Settings)
+ * @param lastSprintNumber - Last completed sprint number (forecast starts at the next one)
+ */
+export function assessVelocityTrend(
+  includedSprints: Sprint[],
+  forecastMean: number,
+  minRSquared: number,
+  lastSprintNumber: number
+): VelocityTrendAssessment {
+  const points = includedSprints.map((s) => ({ x: s.sprintNumber, y: s.doneValue }))
+  const fit = linearRegression(points)
+  const sprintCount = points.length
+
+  const refuse = (refusedReason: string): VelocityTrendAssessment => ({
+    fit, sprintCount, trend: null, refusedReason,
+  })
+
+  if (sprintCount < MIN_SPRINTS_FOR_TREND) {
+    return refuse(`Need ${MIN_SPRINTS_FOR_TREND}+ included sprints to fit a trend`)
+  }
+  if (fit.slope === 0) return refuse('Velocity shows no trend')
+  if (fit.rSquared < minRSquared) {
+    return refuse(`R² ${fit.rSquared.toFixed(2)} is below the ${minRSquared.toFixed(2)} threshold`)
+  }
+  if (!(forecastMean > 0)) return refuse('Velocity is required to project a trend')
+
+  const centroid = mean(points.map((p) => p.x))
+  return {
+    fit,
+    sprintCount,
+    trend: {
+      slope: fit.slope,
+      startOffset: lastSprintNumber - centroid,
+      plateau: forecastMean * TREND_PLATEAU_MULTIPLIER,
+      floor: forecastMean * TREND_FLOOR_MULTIPLIER,
+    },
+    refusedReason: null,
+  }
+}
+
+/**
+ * One-line description of an applied trend for results, charts and exports,
+ * e.g. "Trend-adjusted: +0.85 pts/sprint (R² 0.62), capped at 30.0, floored at 10.0".
+ */
+export function describeVelocityTrend(
+  assessment: VelocityTrendAssessment,
+  unitOfMeasure: string
+): string | null {
+  const { trend, fit } = assessment
+  if (!trend) return null
+  const sign = trend.slope > 0 ? '+' : ''
+  return (
+    `Trend-adjusted: ${sign}${trend.slope.toFixed(2)} ${unitOfMeasure}/sprint (R² ${fit.rSquared.toFixed(2)}), ` +
+    `capped at ${trend.plateau.toFixed(1)}, floored at ${trend.floor.toFixed(1)}`
+  )
+}
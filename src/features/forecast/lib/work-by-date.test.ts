@@ -0,0 +1,68 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import {
+  workAtConfidence,
+  probabilityOfCompleting,
+  classifyMilestoneCut,
+  buildWorkHistogramBins,
+} from './work-by-date'
+
+// 0, 10, 20, ..., 100
+const completed = Array.from({ length: 11 }, (_, i) => i * 10)
+
+describe('workAtConfidence', () => {
+  it('reads the lower tail for higher confidence', () => {
+    expect(workAtConfidence(completed, 50)).toBe(50)
+    expect(workAtConfidence(completed, 90)).toBeCloseTo(10, 10)
+    expect(workAtConfidence(completed, 85)).toBeCloseTo(15, 10)
+  })
+
+  it('returns 0 for an empty distribution', () => {
+    expect(workAtConfidence([], 85)).toBe(0)
+  })
+})
+
+describe('probabilityOfCompleting', () => {
+  it('counts trials that reach the amount, inclusive', () => {
+    expect(probabilityOfCompleting(completed, 0)).toBe(100)
+    expect(probabilityOfCompleting(completed, 50)).toBeCloseTo((6 / 11) * 100, 10)
+    expect(probabilityOfCompleting(completed, 55)).toBeCloseTo((5 / 11) * 100, 10)
+    expect(probabilityOfCompleting(completed, 101)).toBe(0)
+  })
+
+  it('handles ties and empty input', () => {
+    expect(probabilityOfCompleting([5, 5, 5, 5], 5)).toBe(100)
+    expect(probabilityOfCompleting([], 5)).toBe(0)
+  })
+})
+
+describe('classifyMilestoneCut', () => {
+  it('buckets by the likely and possible thresholds', () => {
+    expect(classifyMilestoneCut(85)).toBe('likely')
+    expect(classifyMilestoneCut(84.9)).toBe('possible')
+    expect(classifyMilestoneCut(50)).toBe('possible')
+    expect(classifyMilestoneCut(49.9)).toBe('unlikely')
+  })
+})
+
+describe('buildWorkHistogramBins', () => {
+  it('spreads every trial across equal-width bins', () => {
+    const bins = buildWorkHistogramBins(completed, 5)
+    expect(bins).toHaveLength(5)
+    expect(bins.map((b) => b.count)).toEqual([2, 2, 2, 2, 3])
+    expect(bins.reduce((sum, b) => sum + b.percentage, 0)).toBeCloseTo(100, 10)
+    expect(bins[1].binStart).toBe(20)
+  })
+
+  it('collapses to a single bin when every trial completed the same amount', () => {
+    const bins = buildWorkHistogramBins([100, 100, 100])
+    expect(bins).toEqual([{ binStart: 100, binEnd: 100, label: '100', count: 3, percentage: 100 }])
+  })
+
+  it('returns no bins for an empty distribution', () => {
+    expect(buildWorkHistogramBins([])).toEqual([])
+  })
+})
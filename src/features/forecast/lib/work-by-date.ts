@@ -0,0 +1,101 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+// "How much by date" primitives — the fixed-horizon counterpart to deadline.ts.
+//
+// Deadline Probability asks "what share of trials finish the backlog by date D?".
+// This module reads the output of `runQuadrupleWorkForecast` — per distribution,
+// the sorted work completed after a fixed number of sprints — and answers "how
+// much will be done by D?" and "which milestones make the cut?".
+
+import { percentileFromSorted } from '@/shared/lib/math'
+
+/** Confidence levels shown in the work-by-date table, lowest (most optimistic) first. */
+export const WORK_CONFIDENCE_LEVELS = [50, 70, 85, 95] as const
+
+/** Make-the-cut thresholds, in percent of trials that complete a milestone's cumulative scope. */
+export const MILESTONE_LIKELY_THRESHOLD = 85
+export const MILESTONE_POSSIBLE_THRESHOLD = 50
+
+export type MilestoneCutStatus = 'likely' | 'possible' | 'unlikely'
+
+export interface WorkHistogramBin {
+  /** Lower edge of the bin, in units of work */
+  binStart: number
+  binEnd: number
+  /** Bin label for the x-axis */
+  label: string
+  count: number
+  percentage: number
+}
+
+/**
+ * Work completed with at least `confidence` percent certainty: the value that
+ * `confidence` percent of trials meet or exceed. Higher confidence → less work,
+ * so this reads the (100 − confidence)th percentile of the ascending array.
+ */
+export function workAtConfidence(sortedCompleted: ArrayLike<number>, confidence: number): number {
+  return percentileFromSorted(sortedCompleted, 100 - confidence)
+}
+
+/**
+ * Percentage of trials (0–100) that complete at least `amount` units of work.
+ * Binary search for the first trial ≥ amount; everything from there up qualifies.
+ */
+export function probabilityOfCompleting(sortedCompleted: ArrayLike<number>, amount: number): number {
+  if (sortedCompleted.length === 0) return 0
+  let lo = 0
+  let hi = sortedCompleted.length
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1
+    if (sortedCompleted[mid] < amount) lo = mid + 1
+    else hi = mid
+  }
+  return ((sortedCompleted.length - lo) / sortedCompleted.length) * 100
+}
+
+/** Bucket a milestone's probability of completion into the panel's three cut labels. */
+export function classifyMilestoneCut(probability: number): MilestoneCutStatus {
+  if (probability >= MILESTONE_LIKELY_THRESHOLD) return 'likely'
+  if (probability >= MILESTONE_POSSIBLE_THRESHOLD) return 'possible'
+  return 'unlikely'
+}
+
+/**
+ * Equal-width histogram of completed work for one distribution. Work is
+ * continuous (unlike sprint counts), so bin widths are not rounded to integers;
+ * labels are, unless the range is too narrow for whole-unit labels to differ.
+ */
+export function buildWorkHistogramBins(sortedCompleted: ArrayLike<number>, binCount: number = 15): WorkHistogramBin[] {
+  const n = sortedCompleted.length
+  if (n === 0) return []
+
+  const min = sortedCompleted[0]
+  const max = sortedCompleted[n - 1]
+  // Degenerate case: every trial completed the same amount (e.g. all finished the backlog)
+  if (max - min < 1e-9) {
+    return [{ binStart: min, binEnd: max, label: formatWorkLabel(min, 0), count: n, percentage: 100 }]
+  }
+
+  const width = (max - min) / binCount
+  const decimals = width < 1 ? 1 : 0
+  const bins: WorkHistogramBin[] = Array.from({ length: binCount }, (_, i) => {
+    const binStart = min + i * width
+    return { binStart, binEnd: binStart + width, label: formatWorkLabel(binStart, decimals), count: 0, percentage: 0 }
+  })
+
+  for (let i = 0; i < n; i++) {
+    // The maximum lands exactly on the last edge — keep it in the last bin
+    const idx = Math.min(binCount - 1, Math.floor((sortedCompleted[i] - min) / width))
+    bins[idx].count++
+  }
+  for (const bin of bins) {
+    bin.percentage = (bin.count / n) * 100
+  }
+  return bins
+}
+
+function formatWorkLabel(value: number, decimals: number): string {
+  return value.toFixed(decimals)
+}
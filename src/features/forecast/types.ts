@@ -22,9 +22,9 @@ import type { ForecastMode } from '@/shared/types'
 /**
  * Returns the list of distributions to display for a given forecast mode.
  *
- * Both modes share: T-Normal, Lognormal, Gamma, Triangular (4 common)
- * Subjective adds: Uniform (5 total — no Bootstrap without history)
- * History adds:    Bootstrap if 5+ sprints (4-5 total — no Uniform)
+ * Both modes share: T-Normal, Lognormal, Gamma, Triangular, PERT (5 common)
+ * Subjective adds: Uniform (6 total — no Bootstrap without history)
+ * History adds:    Bootstrap if 5+ sprints (5-6 total — no Uniform); Capacity mode matches History
  */
 export function getVisibleDistributions(
   forecastMode: ForecastMode,
@@ -44,9 +44,9 @@ export function getVisibleDistributions(
   // for consistency.
   let dists: DistributionType[]
   if (forecastMode === 'subjective') {
-    dists = ['lognormal', 'truncatedNormal', 'gamma', 'triangular', 'uniform']
+    dists = ['lognormal', 'truncatedNormal', 'gamma', 'triangular', 'pert', 'uniform']
   } else {
-    dists = ['lognormal', 'truncatedNormal', 'gamma', 'triangular']
+    dists = ['lognormal', 'truncatedNormal', 'gamma', 'triangular', 'pert']
     if (hasBootstrap) dists.push('bootstrap')
   }
   if (enabledDistributions) {
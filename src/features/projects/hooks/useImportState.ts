@@ -233,8 +233,10 @@ export function useImportState() {
             showBanner({ kind: 'error', text: 'Import failed: Invalid JSON format.' })
             return
           }
+          let data: ExportData
           try {
-            validateImportData(raw)
+            if (!validateImportData(raw)) throw new Error('Invalid import data')
+            data = raw
           } catch (err) {
             showBanner({
               kind: 'error',
@@ -242,7 +244,7 @@ export function useImportState() {
             })
             return
           }
-          const imported = classifyImportData(raw as ExportData)
+          const imported = classifyImportData(data)
           if (imported.projects.length === 0) {
             showBanner({ kind: 'error', text: 'The file contains no projects to import.' })
             return
@@ -71,12 +71,15 @@ export function buildProjectSubsetExport(
   const sprints = state.sprints.filter((s) => idSet.has(s.projectId))
 
   // Filter changelog: keep dataset-level events (no `id`) and entries whose `id`
-  // matches an included project, sprint, adjustment, or milestone.
+  // matches an included project, sprint, adjustment, milestone, or team member.
   const relevantIds = new Set<string>()
   for (const p of projects) {
     relevantIds.add(p.id)
     for (const a of p.productivityAdjustments ?? []) relevantIds.add(a.id)
     for (const m of p.milestones ?? []) relevantIds.add(m.id)
+    for (const tm of p.teamMembers ?? []) relevantIds.add(tm.id)
+    for (const sc of p.forecastScenarios ?? []) relevantIds.add(sc.id)
+    for (const snap of p.forecastSnapshots ?? []) relevantIds.add(snap.id)
   }
   for (const s of sprints) relevantIds.add(s.id)
 
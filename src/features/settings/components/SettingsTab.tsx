@@ -7,7 +7,14 @@
 import { useSettingsStore, TRIAL_COUNT_OPTIONS, type TrialCount } from '@/shared/state/settings-store'
 import { CHART_FONT_SIZE_LABELS, type ChartFontSize, DISTRIBUTION_TYPES, DISTRIBUTION_LABELS, type DistributionType } from '@/shared/types/burn-up'
 import { useTheme, type Theme } from '@/shared/hooks/useTheme'
-import { MIN_PERCENTILE, MAX_PERCENTILE, SELECTABLE_PERCENTILES } from '@/features/forecast/constants'
+import {
+  MIN_PERCENTILE,
+  MAX_PERCENTILE,
+  SELECTABLE_PERCENTILES,
+  ADAPTIVE_TRIAL_BATCH_SIZE,
+  ADAPTIVE_MAX_TRIALS,
+} from '@/features/forecast/constants'
+import { MAX_RANDOM_SEED } from '@/shared/lib/math'
 import { cn } from '@/lib/utils'
 import { StorageModeSection } from '@/features/auth/components/StorageModeSection'
 import { ExportProjectsSection } from './ExportProjectsSection'
@@ -43,6 +50,8 @@ const DISTRIBUTION_DESCRIPTIONS: Record<DistributionType, string> = {
     'Bootstrap — resamples directly from your actual sprint history; the most data-driven option, assuming only that future sprints will look like past ones, but needs 5+ recorded sprints.',
   triangular:
     'Triangular — a simple peaked shape with hard limits at ±3 standard deviations from the mean; useful when you want a transparent, bounded forecast without long tails.',
+  pert:
+    'PERT — a smooth Beta-PERT curve over a minimum / most likely / maximum velocity you enter on the Forecast tab (or the mean ± about 2.6 standard deviations); weights the most likely value more heavily than Triangular.',
   uniform:
     'Uniform — every velocity in the range equally likely; the most conservative shape, useful when you have little basis to prefer any one value.',
 }
@@ -53,6 +62,12 @@ export function SettingsTab() {
     setAutoRecalculate,
     trialCount,
     setTrialCount,
+    adaptiveTrialCount,
+    setAdaptiveTrialCount,
+    simulationSeed,
+    setSimulationSeed,
+    trendMinRSquared,
+    setTrendMinRSquared,
     defaultChartFontSize,
     setDefaultChartFontSize,
     defaultCustomPercentile,
@@ -144,7 +159,8 @@ export function SettingsTab() {
                 id="trialCount"
                 value={trialCount}
                 onChange={(e) => setTrialCount(Number(e.target.value) as TrialCount)}
-                className={selectClass}
+                disabled={adaptiveTrialCount}
+                className={cn(selectClass, 'disabled:opacity-50 disabled:cursor-not-allowed')}
               >
                 {TRIAL_COUNT_OPTIONS.map((opt) => (
                   <option key={opt.value} value={opt.value}>
@@ -157,6 +173,84 @@ export function SettingsTab() {
               More trials produce smoother distributions but take longer. Each distribution runs this many trials.
             </p>
           </div>
+
+          {/* Adaptive trial count */}
+          <div className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              id="adaptiveTrialCount"
+              checked={adaptiveTrialCount}
+              onChange={(e) => setAdaptiveTrialCount(e.target.checked)}
+              className="mt-1 rounded border-gray-300 dark:border-gray-500 cursor-pointer"
+            />
+            <div>
+              <label htmlFor="adaptiveTrialCount" className={`${labelClass} cursor-pointer`}>
+                Adaptive number of simulations
+              </label>
+              <p className={descriptionClass}>
+                Run batches of {ADAPTIVE_TRIAL_BATCH_SIZE.toLocaleString()} trials until the P85 sprint count is stable
+                (its 95% confidence band spans at most one sprint), up to {ADAPTIVE_MAX_TRIALS.toLocaleString()}. The
+                number used is shown with the results.
+              </p>
+            </div>
+          </div>
+
+          {/* Random seed */}
+          <div>
+            <div className="flex items-center gap-3">
+              <label htmlFor="simulationSeed" className={labelClass}>
+                Random seed
+              </label>
+              <input
+                id="simulationSeed"
+                type="number"
+                min={0}
+                max={MAX_RANDOM_SEED}
+                step={1}
+                value={simulationSeed ?? ''}
+                placeholder="Random"
+                onChange={(e) => {
+                  if (e.target.value === '') {
+                    setSimulationSeed(null)
+                    return
+                  }
+                  const val = parseInt(e.target.value, 10)
+                  if (!isNaN(val)) setSimulationSeed(val)
+                }}
+                className={cn(inputClass, 'w-36')}
+              />
+            </div>
+            <p className={descriptionClass}>
+              Leave blank to draw a fresh seed for every run. Enter the seed shown with a forecast (or in its CSV export
+              or report) to regenerate that forecast exactly.
+            </p>
+          </div>
+
+          {/* Trend R² threshold */}
+          <div>
+            <div className="flex items-center gap-3">
+              <label htmlFor="trendMinRSquared" className={labelClass}>
+                Trend R² threshold
+              </label>
+              <input
+                id="trendMinRSquared"
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={trendMinRSquared}
+                onChange={(e) => {
+                  const val = parseFloat(e.target.value)
+                  if (!isNaN(val)) setTrendMinRSquared(val)
+                }}
+                className={cn(inputClass, 'w-24')}
+              />
+            </div>
+            <p className={descriptionClass}>
+              When &quot;Project velocity trend&quot; is on, the trend is only applied if the velocity regression fits at
+              least this well (0–1). Higher values refuse noisier trends.
+            </p>
+          </div>
         </div>
       </section>
 
@@ -0,0 +1,122 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useState } from 'react'
+import { cn } from '@/lib/utils'
+import { cadenceWeeksForSprint } from '@/shared/lib/dates'
+import { SPRINT_CADENCE_OPTIONS, type SprintCadence } from '@/features/projects/constants'
+import type { CadenceChange } from '@/shared/types'
+
+interface CadenceChangeEditorProps {
+  baseCadenceWeeks: SprintCadence
+  cadenceChanges: CadenceChange[]
+  nextSprintNumber: number // Default "from" sprint for a new change
+  onChange: (cadenceChanges: CadenceChange[]) => void
+}
+
+export function CadenceChangeEditor({
+  baseCadenceWeeks,
+  cadenceChanges,
+  nextSprintNumber,
+  onChange,
+}: CadenceChangeEditorProps) {
+  const [fromSprint, setFromSprint] = useState(String(Math.max(2, nextSprintNumber)))
+  const [cadenceWeeks, setCadenceWeeks] = useState<SprintCadence>(baseCadenceWeeks === 2 ? 1 : 2)
+
+  const fromSprintNumber = Number(fromSprint)
+  const isValidSprint = Number.isInteger(fromSprintNumber) && fromSprintNumber >= 2 && fromSprintNumber <= 999
+  // The change must differ from the cadence already in effect there, ignoring any change at that sprint
+  const otherChanges = cadenceChanges.filter((c) => c.fromSprintNumber !== fromSprintNumber)
+  const cadenceBefore = isValidSprint
+    ? cadenceWeeksForSprint(fromSprintNumber - 1, baseCadenceWeeks, otherChanges)
+    : undefined
+  const error = !isValidSprint
+    ? 'Enter a sprint number from 2 to 999'
+    : cadenceBefore === cadenceWeeks
+      ? `Sprints are already ${cadenceWeeks} wk${cadenceWeeks > 1 ? 's' : ''} by then`
+      : ''
+
+  const handleAdd = () => {
+    if (error) return
+    // A change at the same sprint replaces the earlier one
+    onChange(
+      [...otherChanges, { fromSprintNumber, cadenceWeeks }].sort((a, b) => a.fromSprintNumber - b.fromSprintNumber)
+    )
+  }
+
+  return (
+    <div className="mt-3 border-t border-spert-border-light dark:border-gray-700 pt-3">
+      <p className="text-sm font-semibold text-spert-text-secondary">Cadence Changes</p>
+      <p className="mb-2 text-xs text-spert-text-muted">
+        When the team changed sprint length. Sprint dates follow each change, and velocity is
+        pooled per working day so sprints of different lengths forecast together. Forecasts run
+        at the next sprint&apos;s length, so a later change applies once its sprint is next.
+      </p>
+      {cadenceChanges.length > 0 && (
+        <ul className="mb-2 space-y-1 text-sm dark:text-gray-100">
+          {cadenceChanges.map((change) => (
+            <li key={change.fromSprintNumber} className="flex items-center gap-2">
+              <span>
+                From sprint {change.fromSprintNumber}: {change.cadenceWeeks} wk{change.cadenceWeeks > 1 ? 's' : ''}
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(cadenceChanges.filter((c) => c !== change))}
+                aria-label={`Remove cadence change from sprint ${change.fromSprintNumber}`}
+                className="cursor-pointer text-xs text-spert-error hover:underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="cadenceChangeFromSprint" className="text-sm text-spert-text-secondary">
+          From sprint
+        </label>
+        <input
+          id="cadenceChangeFromSprint"
+          type="number"
+          min={2}
+          max={999}
+          step={1}
+          value={fromSprint}
+          onChange={(e) => setFromSprint(e.target.value)}
+          className={cn(
+            'w-[80px] rounded p-[0.4rem] text-[0.85rem] bg-white dark:bg-gray-700 dark:text-gray-100',
+            isValidSprint ? 'border border-spert-border dark:border-gray-600' : 'border border-spert-error'
+          )}
+        />
+        <label htmlFor="cadenceChangeWeeks" className="sr-only">
+          New cadence
+        </label>
+        <select
+          id="cadenceChangeWeeks"
+          value={cadenceWeeks}
+          onChange={(e) => setCadenceWeeks(Number(e.target.value) as SprintCadence)}
+          className="w-[90px] cursor-pointer rounded border border-spert-border dark:border-gray-600 p-[0.4rem] text-[0.85rem] bg-white dark:bg-gray-700 dark:text-gray-100"
+        >
+          {SPRINT_CADENCE_OPTIONS.map((weeks) => (
+            <option key={weeks} value={weeks}>
+              {weeks} wk{weeks > 1 ? 's' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!!error}
+          className={cn(
+            'rounded border-none px-3 py-1 text-[0.85rem] font-semibold text-white',
+            error ? 'cursor-not-allowed bg-spert-border-medium' : 'cursor-pointer bg-spert-blue'
+          )}
+        >
+          Add Change
+        </button>
+        {error && fromSprint !== '' && <span className="text-xs text-spert-error">{error}</span>}
+      </div>
+    </div>
+  )
+}
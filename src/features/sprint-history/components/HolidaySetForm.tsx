@@ -0,0 +1,203 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useState } from 'react'
+import { cn } from '@/lib/utils'
+import type { BuiltInHolidayCalendar, HolidaySet } from '@/shared/types'
+import {
+  BUILT_IN_CALENDAR_LABELS,
+  formatNonWorkingDayLines,
+  parseIcsNonWorkingDays,
+  parseNonWorkingDayLines,
+} from '@/shared/lib/holidays'
+
+type HolidaySetSource = BuiltInHolidayCalendar | 'custom'
+
+interface HolidaySetFormProps {
+  holidaySet: HolidaySet | null
+  onSubmit: (data: Omit<HolidaySet, 'id' | 'createdAt' | 'updatedAt'>) => void
+  onCancel: () => void
+}
+
+export function HolidaySetForm({ holidaySet, onSubmit, onCancel }: HolidaySetFormProps) {
+  const [name, setName] = useState(holidaySet?.name ?? '')
+  const [source, setSource] = useState<HolidaySetSource>(holidaySet?.builtIn ?? (holidaySet ? 'custom' : 'US'))
+  const [daysText, setDaysText] = useState(formatNonWorkingDayLines(holidaySet?.days ?? []))
+  const [importMessage, setImportMessage] = useState('')
+
+  const parsed = parseNonWorkingDayLines(daysText)
+
+  const handleIcsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // Allow re-importing the same file
+    if (!file) return
+    const imported = parseIcsNonWorkingDays(await file.text())
+    if (imported.length === 0) {
+      setImportMessage(`No events with dates between 2000 and 2050 found in ${file.name}.`)
+      return
+    }
+    const merged = parseNonWorkingDayLines(
+      [daysText, formatNonWorkingDayLines(imported)].filter(Boolean).join('\n')
+    )
+    setDaysText(formatNonWorkingDayLines(merged.days))
+    setImportMessage(`Imported ${imported.length} date${imported.length === 1 ? '' : 's'} from ${file.name}.`)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit({
+      name: name.trim(),
+      ...(source === 'custom' ? { days: parsed.days } : { builtIn: source }),
+      enabled: holidaySet?.enabled ?? true, // New sets apply immediately
+    })
+  }
+
+  const isValid =
+    name.trim().length > 0 &&
+    (source !== 'custom' || (parsed.days.length > 0 && parsed.errors.length === 0))
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-border dark:border-gray-700 p-4 bg-white dark:bg-gray-800">
+      <h4 className="font-medium text-[0.9rem] dark:text-gray-100">
+        {holidaySet ? 'Edit Holiday Set' : 'Add Holiday Set'}
+      </h4>
+
+      <div className="flex flex-wrap items-start gap-3">
+        {/* Name */}
+        <div className="min-w-[120px] flex-[1_1_180px]">
+          <label
+            htmlFor="holidaySetName"
+            className="mb-1 block text-[0.8rem] font-semibold text-spert-text-secondary"
+          >
+            Name <span className="text-spert-error">*</span>
+          </label>
+          <input
+            id="holidaySetName"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Company shutdowns"
+            autoFocus
+            className={cn(
+              'w-full rounded p-[0.4rem] text-[0.85rem] dark:text-gray-100',
+              name
+                ? 'border border-spert-border dark:border-gray-600 bg-white dark:bg-gray-700'
+                : 'border-2 border-spert-blue bg-spert-bg-highlight dark:bg-gray-700'
+            )}
+            required
+          />
+        </div>
+
+        {/* Source */}
+        <div className="flex-[0_1_260px]">
+          <label
+            htmlFor="holidaySetSource"
+            className="mb-1 block text-[0.8rem] font-semibold text-spert-text-secondary"
+          >
+            Dates
+          </label>
+          <select
+            id="holidaySetSource"
+            value={source}
+            onChange={(e) => setSource(e.target.value as HolidaySetSource)}
+            className="w-full rounded border border-spert-border dark:border-gray-600 p-[0.4rem] text-[0.85rem] bg-white dark:bg-gray-700 dark:text-gray-100"
+          >
+            {(Object.keys(BUILT_IN_CALENDAR_LABELS) as BuiltInHolidayCalendar[]).map((calendar) => (
+              <option key={calendar} value={calendar}>
+                {BUILT_IN_CALENDAR_LABELS[calendar]}
+              </option>
+            ))}
+            <option value="custom">Custom dates</option>
+          </select>
+        </div>
+      </div>
+
+      {source === 'custom' ? (
+        <div>
+          <label
+            htmlFor="holidaySetDays"
+            className="mb-1 block text-[0.8rem] font-semibold text-spert-text-secondary"
+          >
+            Non-working days <span className="text-spert-error">*</span>
+          </label>
+          <textarea
+            id="holidaySetDays"
+            value={daysText}
+            onChange={(e) => {
+              setDaysText(e.target.value)
+              setImportMessage('')
+            }}
+            rows={6}
+            placeholder={'2026-07-03 Summer Friday\n2026-12-24..2026-12-31 Year-end shutdown'}
+            className={cn(
+              'w-full rounded p-[0.4rem] font-mono text-[0.8rem] bg-white dark:bg-gray-700 dark:text-gray-100',
+              parsed.errors.length > 0
+                ? 'border border-spert-error'
+                : 'border border-spert-border dark:border-gray-600'
+            )}
+          />
+          <p className="mt-1 text-[0.7rem] text-spert-text-helper dark:text-gray-400">
+            One date per line (YYYY-MM-DD), or a range as start..end, followed by an optional name.
+          </p>
+          {parsed.errors.length > 0 && (
+            <ul className="mt-[0.2rem] text-[0.7rem] text-spert-error">
+              {parsed.errors.slice(0, 3).map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+              {parsed.errors.length > 3 && <li>…and {parsed.errors.length - 3} more.</li>}
+            </ul>
+          )}
+          <div className="mt-2 flex flex-wrap items-center gap-2 text-[0.8rem]">
+            <label
+              htmlFor="holidaySetIcs"
+              className="cursor-pointer rounded border border-spert-border dark:border-gray-600 px-3 py-1 text-spert-text-secondary hover:bg-muted/50"
+            >
+              Import .ics file…
+            </label>
+            <input
+              id="holidaySetIcs"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={handleIcsFile}
+              className="sr-only"
+            />
+            {importMessage && (
+              <span aria-live="polite" className="text-spert-text-muted">{importMessage}</span>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="text-[0.8rem] text-spert-text-muted dark:text-gray-400">
+          Public holidays are generated for every year from 2000 to 2050, moved to the observed
+          weekday where a holiday falls on a weekend.
+        </p>
+      )}
+
+      {/* Buttons */}
+      <div className="flex justify-end gap-2 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="cursor-pointer rounded border-none bg-spert-text-light px-4 py-2 text-[0.9rem] text-white"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!isValid}
+          className={cn(
+            'rounded border-none px-4 py-2 text-[0.9rem] font-semibold text-white',
+            isValid
+              ? 'cursor-pointer bg-spert-blue'
+              : 'cursor-not-allowed bg-spert-border-medium'
+          )}
+        >
+          {holidaySet ? 'Update' : 'Add'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,103 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { cn } from '@/lib/utils'
+import type { HolidaySet } from '@/shared/types'
+import { formatDate } from '@/shared/lib/dates'
+import { BUILT_IN_CALENDAR_LABELS } from '@/shared/lib/holidays'
+import { ListRowActions } from '@/shared/components/ListRowActions'
+
+interface HolidaySetListProps {
+  holidaySets: HolidaySet[]
+  onEdit: (holidaySet: HolidaySet) => void
+  onDelete: (id: string) => void
+  onToggleEnabled: (id: string) => void
+  editingId?: string | null
+}
+
+function describeDates(set: HolidaySet): string {
+  if (set.builtIn) return `Built-in: ${BUILT_IN_CALENDAR_LABELS[set.builtIn]}`
+  const days = set.days ?? []
+  if (days.length === 0) return 'No dates'
+  const first = days[0].date
+  const last = days[days.length - 1].date
+  const count = `${days.length} date${days.length === 1 ? '' : 's'}`
+  return first === last ? `${count} (${formatDate(first)})` : `${count} (${formatDate(first)} – ${formatDate(last)})`
+}
+
+export function HolidaySetList({
+  holidaySets,
+  onEdit,
+  onDelete,
+  onToggleEnabled,
+  editingId,
+}: HolidaySetListProps) {
+  if (holidaySets.length === 0) {
+    return (
+      <p className="text-sm italic text-spert-text-muted">
+        No holiday sets defined. Sprints skip weekends only.
+      </p>
+    )
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse text-sm">
+        <thead>
+          <tr className="border-b-2 border-spert-border-light">
+            <th className="w-[50px] p-2 text-center font-semibold text-spert-text-secondary">
+              On
+            </th>
+            <th className="p-2 text-left font-semibold text-spert-text-secondary">
+              Name
+            </th>
+            <th className="p-2 text-left font-semibold text-spert-text-secondary">
+              Dates
+            </th>
+            <th className="p-2 text-right font-semibold text-spert-text-secondary">
+              Actions
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {holidaySets.map((set) => {
+            const isEnabled = set.enabled !== false
+            return (
+              <tr
+                key={set.id}
+                className={cn(
+                  'border-b border-spert-border-light',
+                  !isEnabled && 'opacity-50'
+                )}
+              >
+                <td className="p-2 text-center">
+                  <input
+                    type="checkbox"
+                    name="holidaySetEnabled"
+                    checked={isEnabled}
+                    onChange={() => onToggleEnabled(set.id)}
+                    className="size-4 cursor-pointer"
+                    title={isEnabled ? 'Click to disable' : 'Click to enable'}
+                    aria-label={`${isEnabled ? 'Disable' : 'Enable'} ${set.name}`}
+                  />
+                </td>
+                <td className="p-2 font-medium">{set.name}</td>
+                <td className="p-2 text-[0.8rem] text-spert-text-muted">{describeDates(set)}</td>
+                <ListRowActions
+                  onEdit={() => onEdit(set)}
+                  onDelete={() => onDelete(set.id)}
+                  isEditing={set.id === editingId}
+                  editLabel={`Edit ${set.name}`}
+                  deleteLabel={`Delete ${set.name}`}
+                />
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -6,13 +6,19 @@
 
 import { useMemo } from 'react'
 import type { Sprint } from '@/shared/types'
-import { formatDateRange, resolveAllSprintDates } from '@/shared/lib/dates'
+import { formatDateRange, resolveAllSprintDates, type CadenceChanges, type NonWorkingDays, type WorkWeek } from '@/shared/lib/dates'
 
 interface RecentSprintsSummaryProps {
   sprints: Sprint[]
   unitOfMeasure: string
   firstSprintStartDate?: string
   sprintCadenceWeeks?: 1 | 2 | 3 | 4
+  /** Holidays from the working calendar, which pull computed finish dates back */
+  nonWorkingDays?: NonWorkingDays
+  /** The project's working days of the week; omitted for Mon-Fri */
+  workWeek?: WorkWeek
+  /** Sprint length changes after sprint 1 */
+  cadenceChanges?: CadenceChanges
 }
 
 const MAX_ROWS = 3
@@ -22,15 +28,21 @@ export function RecentSprintsSummary({
   unitOfMeasure,
   firstSprintStartDate,
   sprintCadenceWeeks,
+  nonWorkingDays,
+  workWeek,
+  cadenceChanges,
 }: RecentSprintsSummaryProps) {
   const resolvedDates = useMemo(() => {
     if (!firstSprintStartDate || !sprintCadenceWeeks) return null
     return resolveAllSprintDates(
       firstSprintStartDate,
       sprintCadenceWeeks,
-      sprints.map((s) => ({ sprintNumber: s.sprintNumber, customFinishDate: s.customFinishDate }))
+      sprints.map((s) => ({ sprintNumber: s.sprintNumber, customFinishDate: s.customFinishDate })),
+      nonWorkingDays,
+      workWeek,
+      cadenceChanges
     )
-  }, [firstSprintStartDate, sprintCadenceWeeks, sprints])
+  }, [firstSprintStartDate, sprintCadenceWeeks, sprints, nonWorkingDays, workWeek, cadenceChanges])
 
   const recentSprints = useMemo(
     () =>
@@ -4,27 +4,51 @@
 
 import { useState } from 'react'
 import { cn } from '@/lib/utils'
-import { isValidDateRange } from '@/shared/lib/dates'
+import { isValidDateRange, DEFAULT_WORK_WEEK } from '@/shared/lib/dates'
 import {
   SPRINT_CADENCE_OPTIONS,
   type SprintCadence,
 } from '@/features/projects/constants'
-import type { Project } from '@/shared/types'
+import type { CadenceChange, Project } from '@/shared/types'
+import { CadenceChangeEditor } from './CadenceChangeEditor'
 
 interface SprintConfigProps {
   project: Project
   canEdit: boolean
   onCadenceChange: (cadence: SprintCadence) => void
   onFirstSprintDateChange: (date: string) => void
+  onWorkWeekChange: (days: number[]) => void
+  onCadenceChangesChange: (cadenceChanges: CadenceChange[]) => void
+  nextSprintNumber: number
 }
 
+const WEEKDAYS = [
+  { day: 0, short: 'S', name: 'Sunday' },
+  { day: 1, short: 'M', name: 'Monday' },
+  { day: 2, short: 'T', name: 'Tuesday' },
+  { day: 3, short: 'W', name: 'Wednesday' },
+  { day: 4, short: 'T', name: 'Thursday' },
+  { day: 5, short: 'F', name: 'Friday' },
+  { day: 6, short: 'S', name: 'Saturday' },
+]
+
 export function SprintConfig({
   project,
   canEdit,
   onCadenceChange,
   onFirstSprintDateChange,
+  onWorkWeekChange,
+  onCadenceChangesChange,
+  nextSprintNumber,
 }: SprintConfigProps) {
   const [firstSprintDateError, setFirstSprintDateError] = useState('')
+  const workWeek = project.workWeek?.length ? project.workWeek : DEFAULT_WORK_WEEK
+
+  // At least one working day: the last one can't be switched off
+  const toggleWorkDay = (day: number) => {
+    const next = workWeek.includes(day) ? workWeek.filter((d) => d !== day) : [...workWeek, day]
+    if (next.length > 0) onWorkWeekChange(next.sort((a, b) => a - b))
+  }
 
   const isConfigComplete =
     project.sprintCadenceWeeks !== undefined &&
@@ -138,10 +162,50 @@ export function SprintConfig({
 
         {!canEdit && (
           <span className="text-xs text-spert-text-muted">
-            (Delete all sprints to change)
+            (Delete all sprints to change, or record a cadence change below)
           </span>
         )}
+
+        {/* Work Week — editable any time; finish dates and working-day counts follow it */}
+        <div className="flex items-center gap-2">
+          <span id="workWeekLabel" className="text-sm font-semibold text-spert-text-secondary">
+            Work Week
+          </span>
+          <div role="group" aria-labelledby="workWeekLabel" className="flex gap-1">
+            {WEEKDAYS.map(({ day, short, name }) => {
+              const isWorkDay = workWeek.includes(day)
+              return (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleWorkDay(day)}
+                  aria-pressed={isWorkDay}
+                  aria-label={name}
+                  title={isWorkDay ? `${name}: working day` : `${name}: day off`}
+                  className={cn(
+                    'size-7 rounded text-xs font-semibold cursor-pointer',
+                    isWorkDay
+                      ? 'bg-spert-blue text-white'
+                      : 'border border-spert-border dark:border-gray-600 bg-white dark:bg-gray-700 text-spert-text-muted'
+                  )}
+                >
+                  {short}
+                </button>
+              )
+            })}
+          </div>
+        </div>
       </div>
+
+      {/* Cadence changes — sprint 1 uses the cadence above */}
+      {project.sprintCadenceWeeks && (
+        <CadenceChangeEditor
+          baseCadenceWeeks={project.sprintCadenceWeeks}
+          cadenceChanges={project.cadenceChanges ?? []}
+          nextSprintNumber={nextSprintNumber}
+          onChange={onCadenceChangesChange}
+        />
+      )}
     </div>
   )
 }
@@ -11,8 +11,10 @@ import {
   calculateSprintFinishDate,
   formatDateRange,
   resolveAllSprintDates,
-  getNextBusinessDay,
+  cadenceWeeksForSprint,
+  resolveWorkWeek,
 } from '@/shared/lib/dates'
+import { resolveNonWorkingDays } from '@/shared/lib/holidays'
 
 interface SprintFormProps {
   sprint: Sprint | null
@@ -42,15 +44,22 @@ export function SprintForm({
   // Calculate the sprint number and dates
   const sprintNumber = sprint?.sprintNumber ?? existingSprintCount + 1
 
+  // Computed finish dates skip the working calendar's holidays
+  const nonWorkingDays = useMemo(() => resolveNonWorkingDays(project.holidaySets), [project.holidaySets])
+  const workWeek = useMemo(() => resolveWorkWeek(project.workWeek), [project.workWeek])
+
   // Resolve all sprint dates with cascade-forward logic
   const resolvedDates = useMemo(() => {
     if (!project.firstSprintStartDate || !project.sprintCadenceWeeks) return null
     return resolveAllSprintDates(
       project.firstSprintStartDate,
       project.sprintCadenceWeeks,
-      allSprints.map(s => ({ sprintNumber: s.sprintNumber, customFinishDate: s.customFinishDate }))
+      allSprints.map(s => ({ sprintNumber: s.sprintNumber, customFinishDate: s.customFinishDate })),
+      nonWorkingDays,
+      workWeek,
+      project.cadenceChanges
     )
-  }, [project.firstSprintStartDate, project.sprintCadenceWeeks, allSprints])
+  }, [project.firstSprintStartDate, project.sprintCadenceWeeks, project.cadenceChanges, allSprints, nonWorkingDays, workWeek])
 
   const { sprintStartDate, computedFinishDate, dateLabel } = useMemo(() => {
     if (sprint && resolvedDates) {
@@ -58,7 +67,12 @@ export function SprintForm({
       const resolved = resolvedDates.get(sprint.sprintNumber)
       const startDate = resolved?.startDate ?? sprint.sprintStartDate
       const computedFinish = project.sprintCadenceWeeks
-        ? calculateSprintFinishDate(startDate, project.sprintCadenceWeeks)
+        ? calculateSprintFinishDate(
+            startDate,
+            cadenceWeeksForSprint(sprint.sprintNumber, project.sprintCadenceWeeks, project.cadenceChanges),
+            nonWorkingDays,
+            workWeek
+          )
         : sprint.sprintFinishDate
       return {
         sprintStartDate: startDate,
@@ -83,20 +97,20 @@ export function SprintForm({
     let startDate: string
     if (resolvedDates && resolvedDates.size > 0) {
       const maxExistingSprint = Math.max(...Array.from(resolvedDates.keys()))
-      const lastResolved = resolvedDates.get(maxExistingSprint)!
-      startDate = getNextBusinessDay(lastResolved.finishDate)
+      startDate = resolvedDates.get(maxExistingSprint)!.nextStartDate
     } else {
       startDate = project.firstSprintStartDate
     }
 
-    const finishDate = calculateSprintFinishDate(startDate, project.sprintCadenceWeeks)
+    const cadenceWeeks = cadenceWeeksForSprint(sprintNumber, project.sprintCadenceWeeks, project.cadenceChanges)
+    const finishDate = calculateSprintFinishDate(startDate, cadenceWeeks, nonWorkingDays, workWeek)
 
     return {
       sprintStartDate: startDate,
       computedFinishDate: finishDate,
       dateLabel: `Sprint ${sprintNumber}: ${formatDateRange(startDate, finishDate)}`,
     }
-  }, [sprint, project.firstSprintStartDate, project.sprintCadenceWeeks, sprintNumber, resolvedDates])
+  }, [sprint, project.firstSprintStartDate, project.sprintCadenceWeeks, project.cadenceChanges, sprintNumber, resolvedDates, nonWorkingDays, workWeek])
 
   // Custom finish date state - initialized from sprint's custom date or empty (meaning use computed)
   const [customFinishDate, setCustomFinishDate] = useState(sprint?.customFinishDate ?? '')
@@ -11,15 +11,20 @@ import {
   selectViewingProject,
 } from '@/shared/state/project-store'
 import { useIsClient } from '@/shared/hooks'
+import { resolveWorkWeek } from '@/shared/lib/dates'
+import { resolveNonWorkingDays } from '@/shared/lib/holidays'
+import { resolveVelocityNormalization } from '@/features/forecast/lib/statistics'
 import { ConfirmDialog } from '@/shared/components/ConfirmDialog'
 import { SprintList } from './SprintList'
 import { SprintForm } from './SprintForm'
+import { SprintImportPanel } from './SprintImportPanel'
 import { RecentSprintsSummary } from './RecentSprintsSummary'
 import { SprintConfig } from './SprintConfig'
 import { VelocityStats } from './VelocityStats'
 import { VelocityChart } from './VelocityChart'
 import { ScopeAnalysis } from './ScopeAnalysis'
-import type { Sprint } from '@/shared/types'
+import { WorkingCalendar } from './WorkingCalendar'
+import type { CadenceChange, Sprint } from '@/shared/types'
 import type { SprintCadence } from '@/features/projects/constants'
 
 export function SprintHistoryTab() {
@@ -31,6 +36,7 @@ export function SprintHistoryTab() {
   const updateSprint = useProjectStore((state) => state.updateSprint)
   const deleteSprint = useProjectStore((state) => state.deleteSprint)
   const toggleSprintIncluded = useProjectStore((state) => state.toggleSprintIncluded)
+  const importSprints = useProjectStore((state) => state.importSprints)
   const updateProject = useProjectStore((state) => state.updateProject)
   const setViewingProjectId = useProjectStore((state) => state.setViewingProjectId)
 
@@ -39,7 +45,26 @@ export function SprintHistoryTab() {
     [allSprints, selectedProject]
   )
 
+  const nonWorkingDays = useMemo(
+    () => resolveNonWorkingDays(selectedProject?.holidaySets),
+    [selectedProject?.holidaySets]
+  )
+  const workWeek = useMemo(
+    () => resolveWorkWeek(selectedProject?.workWeek),
+    [selectedProject?.workWeek]
+  )
+
+  // Sprint History's velocity stats pool sprint lengths the way the forecast does
+  const nextSprintNumber = sprints.reduce((max, s) => Math.max(max, s.sprintNumber), 0) + 1
+  const velocityNormalization = useMemo(
+    () => selectedProject
+      ? resolveVelocityNormalization(selectedProject, sprints, nextSprintNumber, nonWorkingDays, workWeek)
+      : undefined,
+    [selectedProject, sprints, nextSprintNumber, nonWorkingDays, workWeek]
+  )
+
   const [isFormOpen, setIsFormOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
   const [editingSprint, setEditingSprint] = useState<Sprint | null>(null)
   const [sortAscending, setSortAscending] = useState(false) // Default: descending (most recent first)
   const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; sprintId: string | null }>({
@@ -50,8 +75,9 @@ export function SprintHistoryTab() {
   const handleProjectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const newProjectId = e.target.value
     setViewingProjectId(newProjectId)
-    // Close form if open when switching projects
+    // Close form and importer if open when switching projects
     setIsFormOpen(false)
+    setIsImportOpen(false)
     setEditingSprint(null)
   }
 
@@ -62,9 +88,17 @@ export function SprintHistoryTab() {
 
   const handleEdit = (sprint: Sprint) => {
     setEditingSprint(sprint)
+    setIsImportOpen(false)
     setIsFormOpen(true)
   }
 
+  const handleImport = (imported: Omit<Sprint, 'id' | 'projectId' | 'createdAt' | 'updatedAt'>[]) => {
+    if (selectedProject) {
+      importSprints(selectedProject.id, imported)
+    }
+    setIsImportOpen(false)
+  }
+
   const handleFormSubmit = (
     data: Omit<Sprint, 'id' | 'projectId' | 'createdAt' | 'updatedAt'>
   ) => {
@@ -94,6 +128,19 @@ export function SprintHistoryTab() {
     }
   }
 
+  const handleWorkWeekChange = (days: number[]) => {
+    if (selectedProject) {
+      // Mon-Fri is the default, so it isn't stored
+      updateProject(selectedProject.id, { workWeek: resolveWorkWeek(days) ? days : undefined })
+    }
+  }
+
+  const handleCadenceChangesChange = (cadenceChanges: CadenceChange[]) => {
+    if (selectedProject) {
+      updateProject(selectedProject.id, { cadenceChanges: cadenceChanges.length > 0 ? cadenceChanges : undefined })
+    }
+  }
+
   const handleToggleSortOrder = () => {
     setSortAscending(!sortAscending)
   }
@@ -154,20 +201,35 @@ export function SprintHistoryTab() {
             ))}
           </select>
         </h2>
-        {!isFormOpen && (
-          <button
-            onClick={handleCreate}
-            disabled={!isSprintConfigComplete}
-            title={!isSprintConfigComplete ? 'Set sprint cadence and first sprint start date first' : undefined}
-            className={cn(
-              'px-4 py-2 border-none rounded text-[0.9rem] font-semibold text-white',
-              isSprintConfigComplete
-                ? 'bg-spert-blue dark:bg-blue-700 cursor-pointer opacity-100'
-                : 'bg-[#ccc] cursor-not-allowed opacity-60'
-            )}
-          >
-            Add Sprint
-          </button>
+        {!isFormOpen && !isImportOpen && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => setIsImportOpen(true)}
+              disabled={!isSprintConfigComplete}
+              title={!isSprintConfigComplete ? 'Set sprint cadence and first sprint start date first' : undefined}
+              className={cn(
+                'px-4 py-2 rounded text-[0.9rem] font-semibold border',
+                isSprintConfigComplete
+                  ? 'border-spert-blue text-spert-blue dark:text-blue-400 bg-white dark:bg-gray-800 cursor-pointer opacity-100'
+                  : 'border-[#ccc] text-[#999] bg-white dark:bg-gray-800 cursor-not-allowed opacity-60'
+              )}
+            >
+              Import Sprints
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={!isSprintConfigComplete}
+              title={!isSprintConfigComplete ? 'Set sprint cadence and first sprint start date first' : undefined}
+              className={cn(
+                'px-4 py-2 border-none rounded text-[0.9rem] font-semibold text-white',
+                isSprintConfigComplete
+                  ? 'bg-spert-blue dark:bg-blue-700 cursor-pointer opacity-100'
+                  : 'bg-[#ccc] cursor-not-allowed opacity-60'
+              )}
+            >
+              Add Sprint
+            </button>
+          </div>
         )}
       </div>
 
@@ -180,6 +242,9 @@ export function SprintHistoryTab() {
             unitOfMeasure={selectedProject.unitOfMeasure}
             firstSprintStartDate={selectedProject.firstSprintStartDate}
             sprintCadenceWeeks={selectedProject.sprintCadenceWeeks}
+            nonWorkingDays={nonWorkingDays}
+            workWeek={workWeek}
+            cadenceChanges={selectedProject.cadenceChanges}
           />
           <SprintForm
             sprint={editingSprint}
@@ -192,6 +257,15 @@ export function SprintHistoryTab() {
         </>
       )}
 
+      {selectedProject && isImportOpen && (
+        <SprintImportPanel
+          project={selectedProject}
+          sprints={sprints}
+          onImport={handleImport}
+          onCancel={() => setIsImportOpen(false)}
+        />
+      )}
+
       {selectedProject && (
         <>
           <SprintConfig
@@ -199,21 +273,33 @@ export function SprintHistoryTab() {
             canEdit={canEditFirstSprintDate}
             onCadenceChange={handleCadenceChange}
             onFirstSprintDateChange={handleFirstSprintDateChange}
+            onWorkWeekChange={handleWorkWeekChange}
+            onCadenceChangesChange={handleCadenceChangesChange}
+            nextSprintNumber={nextSprintNumber}
           />
 
-          <VelocityStats sprints={sprints} unitOfMeasure={selectedProject.unitOfMeasure} />
+          <WorkingCalendar projectId={selectedProject.id} />
+
+          <VelocityStats
+            sprints={sprints}
+            unitOfMeasure={selectedProject.unitOfMeasure}
+            normalization={velocityNormalization}
+          />
 
           <VelocityChart sprints={sprints} unitOfMeasure={selectedProject.unitOfMeasure} />
 
           <ScopeAnalysis sprints={sprints} unitOfMeasure={selectedProject.unitOfMeasure} />
 
-          {!isFormOpen && (
+          {!isFormOpen && !isImportOpen && (
             <SprintList
               sprints={sprints}
               unitOfMeasure={selectedProject.unitOfMeasure}
               sortAscending={sortAscending}
               firstSprintStartDate={selectedProject.firstSprintStartDate}
               sprintCadenceWeeks={selectedProject.sprintCadenceWeeks}
+              nonWorkingDays={nonWorkingDays}
+              workWeek={workWeek}
+              cadenceChanges={selectedProject.cadenceChanges}
               editingSprintId={editingSprint?.id ?? null}
               onToggleSortOrder={handleToggleSortOrder}
               onEdit={handleEdit}
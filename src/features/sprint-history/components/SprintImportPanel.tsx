@@ -0,0 +1,247 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useState, useMemo } from 'react'
+import { cn } from '@/lib/utils'
+import type { Project, Sprint } from '@/shared/types'
+import { formatDateRange } from '@/shared/lib/dates'
+import {
+  SPRINT_IMPORT_FIELDS,
+  SPRINT_IMPORT_FIELD_LABELS,
+  buildSprintImport,
+  guessSprintImportMapping,
+  parseSprintImportText,
+  type SprintImportField,
+  type SprintImportMapping,
+  type SprintImportValues,
+  type SprintMergeMode,
+} from '../lib/sprint-import'
+
+interface SprintImportPanelProps {
+  project: Project
+  sprints: Sprint[] // The project's existing sprints
+  onImport: (sprints: SprintImportValues[]) => void
+  onCancel: () => void
+}
+
+/**
+ * Bulk sprint entry: paste or upload CSV/TSV, map its columns, preview each row
+ * with its validation error, then append or overwrite matching sprint numbers.
+ */
+export function SprintImportPanel({ project, sprints, onImport, onCancel }: SprintImportPanelProps) {
+  const [text, setText] = useState('')
+  const [mappingOverride, setMappingOverride] = useState<SprintImportMapping | null>(null)
+  const [mode, setMode] = useState<SprintMergeMode>('append')
+  const [fileMessage, setFileMessage] = useState('')
+
+  const table = useMemo(() => parseSprintImportText(text), [text])
+  const guessedMapping = useMemo(() => guessSprintImportMapping(table.headers), [table])
+  const mapping = mappingOverride ?? guessedMapping
+  const preview = useMemo(
+    () => buildSprintImport(table, mapping, mode, project, sprints),
+    [table, mapping, mode, project, sprints]
+  )
+
+  const errorCount = preview.rows.filter((r) => r.error).length
+  const importCount = preview.sprints.length
+
+  const handleTextChange = (value: string) => {
+    setText(value)
+    setMappingOverride(null) // New columns: guess the mapping again
+    setFileMessage('')
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // Allow re-importing the same file
+    if (!file) return
+    handleTextChange(await file.text())
+    setFileMessage(`Loaded ${file.name}.`)
+  }
+
+  const handleMappingChange = (field: SprintImportField, value: string) => {
+    const next = { ...mapping }
+    if (value === '') {
+      delete next[field]
+    } else {
+      next[field] = Number(value)
+    }
+    setMappingOverride(next)
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border dark:border-gray-700 p-4 bg-white dark:bg-gray-800">
+      <div>
+        <h3 className="font-medium dark:text-gray-100">Import Sprints</h3>
+        <p className="text-xs text-spert-text-muted">
+          Paste rows from a spreadsheet or a Jira velocity report, or upload a CSV/TSV file. Sprints
+          are identified by a sprint number column, or placed by their dates when there is none.
+        </p>
+      </div>
+
+      <div>
+        <label
+          htmlFor="sprintImportText"
+          className="mb-1 block text-[0.8rem] font-semibold text-spert-text-secondary"
+        >
+          Sprint rows
+        </label>
+        <textarea
+          id="sprintImportText"
+          value={text}
+          onChange={(e) => handleTextChange(e.target.value)}
+          rows={6}
+          placeholder={'Sprint\tDone\tBacklog at end\tIncluded\n1\t21\t180\tyes\n2\t18\t165\tyes'}
+          className="w-full rounded border border-spert-border dark:border-gray-600 p-[0.4rem] font-mono text-[0.8rem] bg-white dark:bg-gray-700 dark:text-gray-100"
+        />
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-[0.8rem]">
+          <label
+            htmlFor="sprintImportFile"
+            className="cursor-pointer rounded border border-spert-border dark:border-gray-600 px-3 py-1 text-spert-text-secondary hover:bg-muted/50"
+          >
+            Upload CSV/TSV file…
+          </label>
+          <input
+            id="sprintImportFile"
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+            onChange={handleFile}
+            className="sr-only"
+          />
+          {fileMessage && (
+            <span aria-live="polite" className="text-spert-text-muted">{fileMessage}</span>
+          )}
+        </div>
+      </div>
+
+      {table.headers.length > 0 && (
+        <>
+          {/* Column mapping */}
+          <div className="flex flex-wrap items-end gap-3">
+            {SPRINT_IMPORT_FIELDS.map((field) => (
+              <div key={field}>
+                <label
+                  htmlFor={`sprintImportColumn-${field}`}
+                  className="mb-1 block text-[0.8rem] font-semibold text-spert-text-secondary"
+                >
+                  {SPRINT_IMPORT_FIELD_LABELS[field]}
+                  {field === 'doneValue' && <span className="text-spert-error"> *</span>}
+                </label>
+                <select
+                  id={`sprintImportColumn-${field}`}
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  className="w-[140px] cursor-pointer rounded border border-spert-border dark:border-gray-600 p-[0.4rem] text-[0.85rem] bg-white dark:bg-gray-700 dark:text-gray-100"
+                >
+                  <option value="">—</option>
+                  {table.headers.map((header, column) => (
+                    <option key={column} value={column}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {/* Merge mode */}
+          <fieldset className="flex flex-wrap items-center gap-4 text-sm text-spert-text-secondary">
+            <legend className="sr-only">Merge mode</legend>
+            <label className="flex cursor-pointer items-center gap-2">
+              <input
+                type="radio"
+                name="sprintImportMode"
+                checked={mode === 'append'}
+                onChange={() => setMode('append')}
+              />
+              Append new sprints
+            </label>
+            <label className="flex cursor-pointer items-center gap-2">
+              <input
+                type="radio"
+                name="sprintImportMode"
+                checked={mode === 'overwrite'}
+                onChange={() => setMode('overwrite')}
+              />
+              Overwrite matching sprint numbers
+            </label>
+          </fieldset>
+
+          {/* Preview */}
+          {preview.error ? (
+            <p className="text-sm text-spert-error">{preview.error}</p>
+          ) : (
+            <div className="max-h-[320px] overflow-auto">
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="px-3 py-2 text-left text-sm font-medium text-muted-foreground">Row</th>
+                    <th className="px-3 py-2 text-left text-sm font-medium text-muted-foreground">Sprint</th>
+                    <th className="px-3 py-2 text-right text-sm font-medium text-muted-foreground">
+                      Done ({project.unitOfMeasure})
+                    </th>
+                    <th className="px-3 py-2 text-right text-sm font-medium text-muted-foreground">Backlog</th>
+                    <th className="px-3 py-2 text-left text-sm font-medium text-muted-foreground">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map(({ row, sprint, replacesExisting, error }) => (
+                    <tr
+                      key={row}
+                      className={cn('border-b border-border', sprint && !sprint.includedInForecast && 'opacity-50')}
+                    >
+                      <td className="px-3 py-2 text-sm text-muted-foreground">{row}</td>
+                      <td className="px-3 py-2 text-sm dark:text-gray-100">
+                        {sprint
+                          ? `Sprint ${sprint.sprintNumber}: ${formatDateRange(sprint.sprintStartDate, sprint.sprintFinishDate)}`
+                          : '—'}
+                      </td>
+                      <td className="px-3 py-2 text-right text-sm dark:text-gray-100">{sprint?.doneValue ?? '—'}</td>
+                      <td className="px-3 py-2 text-right text-sm text-muted-foreground">
+                        {sprint?.backlogAtSprintEnd ?? '—'}
+                      </td>
+                      <td className={cn('px-3 py-2 text-sm', error ? 'text-spert-error' : 'text-spert-text-muted')}>
+                        {error ?? (replacesExisting ? 'Overwrites existing sprint' : 'New')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-wrap items-center justify-end gap-2 pt-2">
+        {errorCount > 0 && (
+          <span className="mr-auto text-xs text-spert-error">
+            {errorCount} row{errorCount === 1 ? '' : 's'} with errors will be skipped.
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-gray-500 dark:bg-gray-600 text-white border-none rounded cursor-pointer text-[0.9rem]"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onImport(preview.sprints)}
+          disabled={importCount === 0}
+          className={cn(
+            'px-4 py-2 border-none rounded text-[0.9rem] font-semibold text-white',
+            importCount > 0
+              ? 'bg-spert-blue cursor-pointer'
+              : 'bg-gray-400 dark:bg-gray-600 cursor-not-allowed'
+          )}
+        >
+          Import {importCount} Sprint{importCount === 1 ? '' : 's'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -8,7 +8,7 @@ import { useMemo } from 'react'
 import { PencilIconButton } from '@/shared/components/PencilIconButton'
 import { TrashIconButton } from '@/shared/components/TrashIconButton'
 import type { Sprint } from '@/shared/types'
-import { formatDateRange, resolveAllSprintDates } from '@/shared/lib/dates'
+import { formatDateRange, resolveAllSprintDates, type CadenceChanges, type NonWorkingDays, type WorkWeek } from '@/shared/lib/dates'
 
 interface SprintListProps {
   sprints: Sprint[]
@@ -16,6 +16,12 @@ interface SprintListProps {
   sortAscending: boolean
   firstSprintStartDate?: string
   sprintCadenceWeeks?: 1 | 2 | 3 | 4
+  /** Holidays from the working calendar, which pull computed finish dates back */
+  nonWorkingDays?: NonWorkingDays
+  /** The project's working days of the week; omitted for Mon-Fri */
+  workWeek?: WorkWeek
+  /** Sprint length changes after sprint 1 */
+  cadenceChanges?: CadenceChanges
   editingSprintId?: string | null
   onToggleSortOrder: () => void
   onEdit: (sprint: Sprint) => void
@@ -29,6 +35,9 @@ export function SprintList({
   sortAscending,
   firstSprintStartDate,
   sprintCadenceWeeks,
+  nonWorkingDays,
+  workWeek,
+  cadenceChanges,
   editingSprintId,
   onToggleSortOrder,
   onEdit,
@@ -41,9 +50,12 @@ export function SprintList({
     return resolveAllSprintDates(
       firstSprintStartDate,
       sprintCadenceWeeks,
-      sprints.map(s => ({ sprintNumber: s.sprintNumber, customFinishDate: s.customFinishDate }))
+      sprints.map(s => ({ sprintNumber: s.sprintNumber, customFinishDate: s.customFinishDate })),
+      nonWorkingDays,
+      workWeek,
+      cadenceChanges
     )
-  }, [firstSprintStartDate, sprintCadenceWeeks, sprints])
+  }, [firstSprintStartDate, sprintCadenceWeeks, sprints, nonWorkingDays, workWeek, cadenceChanges])
 
   // Sort sprints by sprint number
   const sortedSprints = useMemo(() => {
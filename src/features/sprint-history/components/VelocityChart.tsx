@@ -17,7 +17,7 @@ import {
   ResponsiveContainer,
 } from 'recharts'
 import type { Sprint } from '@/shared/types'
-import { linearRegression, type TrendResult } from '../lib/trend'
+import { linearRegression, type TrendResult } from '@/shared/lib/trend'
 import { mean } from '@/shared/lib/math'
 import { COLORS } from '@/shared/lib/colors'
 
@@ -5,16 +5,21 @@
 'use client'
 
 import type { Sprint } from '@/shared/types'
-import { calculateVelocityStats } from '@/features/forecast/lib/statistics'
+import { calculateVelocityStats, type VelocityNormalization } from '@/features/forecast/lib/statistics'
 import { HelpTooltip } from '@/shared/components/HelpTooltip'
 
 interface VelocityStatsProps {
   sprints: Sprint[]
   unitOfMeasure: string
+  /** Set when the project changed cadence: velocity is pooled per working day */
+  normalization?: VelocityNormalization
 }
 
-export function VelocityStats({ sprints, unitOfMeasure }: VelocityStatsProps) {
-  const stats = calculateVelocityStats(sprints)
+export function VelocityStats({ sprints, unitOfMeasure, normalization }: VelocityStatsProps) {
+  const stats = calculateVelocityStats(sprints, normalization)
+  const sprintLabel = normalization
+    ? `${normalization.targetCadenceWeeks}-wk sprint`
+    : 'sprint'
 
   return (
     <div className="grid gap-4 sm:grid-cols-3">
@@ -24,7 +29,10 @@ export function VelocityStats({ sprints, unitOfMeasure }: VelocityStatsProps) {
       </div>
       <div className="rounded-lg border border-border dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
         <p className="text-sm text-muted-foreground">
-          Velocity ({unitOfMeasure}/sprint)
+          Velocity ({unitOfMeasure}/{sprintLabel})
+          {normalization && (
+            <HelpTooltip content="Each sprint is scaled per working day (after holidays, custom finish dates and cadence changes) to a full sprint of the current length." />
+          )}
         </p>
         <p className="text-2xl font-semibold dark:text-gray-100">
           {stats.count > 0 ? stats.mean.toFixed(1) : '—'}
@@ -0,0 +1,82 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+'use client'
+
+import { useMemo, useCallback } from 'react'
+import { useProjectStore } from '@/shared/state/project-store'
+import { CollapsibleCrudPanel } from '@/shared/components/CollapsibleCrudPanel'
+import type { HolidaySet } from '@/shared/types'
+import { HolidaySetForm } from './HolidaySetForm'
+import { HolidaySetList } from './HolidaySetList'
+
+interface WorkingCalendarProps {
+  projectId: string
+}
+
+export function WorkingCalendar({ projectId }: WorkingCalendarProps) {
+  const projects = useProjectStore((state) => state.projects)
+  const holidaySets = useMemo(() => {
+    const project = projects.find((p) => p.id === projectId)
+    return project?.holidaySets ?? []
+  }, [projects, projectId])
+  const addHolidaySet = useProjectStore((state) => state.addHolidaySet)
+  const updateHolidaySet = useProjectStore((state) => state.updateHolidaySet)
+  const deleteHolidaySet = useProjectStore((state) => state.deleteHolidaySet)
+
+  const handleDelete = useCallback(
+    (id: string) => deleteHolidaySet(projectId, id),
+    [deleteHolidaySet, projectId]
+  )
+
+  const handleToggleEnabled = useCallback(
+    (holidaySetId: string) => {
+      const holidaySet = holidaySets.find((hs) => hs.id === holidaySetId)
+      if (holidaySet) {
+        updateHolidaySet(projectId, holidaySetId, { enabled: holidaySet.enabled === false })
+      }
+    },
+    [holidaySets, updateHolidaySet, projectId]
+  )
+
+  return (
+    <CollapsibleCrudPanel<HolidaySet>
+      title="Working Calendar (Holidays & Shutdowns)"
+      description="Days off beyond weekends. Sprint finish dates skip them, and a sprint's forecast velocity is reduced by the share of its working days that fall on them — a two-week sprint with two holidays forecasts 80% of normal velocity. Sprint start dates stay on the cadence."
+      items={holidaySets}
+      onDelete={handleDelete}
+      renderForm={({ editingItem, onSubmitDone, onCancel }) => (
+        <HolidaySetForm
+          holidaySet={editingItem}
+          onSubmit={(data) => {
+            if (editingItem) {
+              // Switching between built-in and custom clears the other source
+              updateHolidaySet(projectId, editingItem.id, {
+                builtIn: undefined,
+                days: undefined,
+                ...data,
+              })
+            } else {
+              addHolidaySet(projectId, data)
+            }
+            onSubmitDone()
+          }}
+          onCancel={onCancel}
+        />
+      )}
+      renderList={({ items, onEdit, onDelete, editingItem }) => (
+        <HolidaySetList
+          holidaySets={items}
+          onEdit={onEdit}
+          onDelete={onDelete}
+          onToggleEnabled={handleToggleEnabled}
+          editingId={editingItem?.id ?? null}
+        />
+      )}
+      addButtonLabel="+ Add Holiday Set"
+      deleteDialogTitle="Delete Holiday Set"
+      panelId={`working-calendar-panel-${projectId}`}
+    />
+  )
+}
@@ -0,0 +1,235 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseSprintImportText,
+  guessSprintImportMapping,
+  buildSprintImport,
+  type SprintImportMapping,
+} from './sprint-import'
+import type { Project, Sprint } from '@/shared/types'
+
+const TIMESTAMP = '2026-01-01T00:00:00Z'
+
+// Sprint 1: Jan 5-16, sprint 2: Jan 19-30, sprint 3: Feb 2-13
+function makeProject(overrides: Partial<Project> = {}): Project {
+  return {
+    id: 'p1',
+    name: 'Alpha',
+    unitOfMeasure: 'points',
+    sprintCadenceWeeks: 2,
+    firstSprintStartDate: '2026-01-05',
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    ...overrides,
+  }
+}
+
+function makeSprint(sprintNumber: number, overrides: Partial<Sprint> = {}): Sprint {
+  return {
+    id: `s${sprintNumber}`,
+    projectId: 'p1',
+    sprintNumber,
+    sprintStartDate: '2026-01-05',
+    sprintFinishDate: '2026-01-16',
+    doneValue: 10,
+    includedInForecast: true,
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    ...overrides,
+  }
+}
+
+function preview(text: string, options: {
+  mapping?: SprintImportMapping
+  mode?: 'append' | 'overwrite'
+  existing?: Sprint[]
+  project?: Project
+} = {}) {
+  const table = parseSprintImportText(text)
+  return buildSprintImport(
+    table,
+    options.mapping ?? guessSprintImportMapping(table.headers),
+    options.mode ?? 'append',
+    options.project ?? makeProject(),
+    options.existing ?? []
+  )
+}
+
+describe('parseSprintImportText', () => {
+  it('reads comma-separated text with a header row', () => {
+    expect(parseSprintImportText('Sprint,Done\n1,20\n2,18\n')).toEqual({
+      headers: ['Sprint', 'Done'],
+      rows: [['1', '20'], ['2', '18']],
+    })
+  })
+
+  it('reads tab-separated text pasted from a spreadsheet', () => {
+    expect(parseSprintImportText('Sprint\tDone\tBacklog\r\n1\t1,200\t300')).toEqual({
+      headers: ['Sprint', 'Done', 'Backlog'],
+      rows: [['1', '1,200', '300']],
+    })
+  })
+
+  it('handles quoted cells with delimiters, quotes and line breaks', () => {
+    const table = parseSprintImportText('Sprint,Notes\n"Sprint 1","a, ""b""\nc"')
+    expect(table.rows).toEqual([['Sprint 1', 'a, "b"\nc']])
+  })
+
+  it('names columns when the first row is data, and skips blank lines', () => {
+    expect(parseSprintImportText('1,20\n\n2,18')).toEqual({
+      headers: ['Column 1', 'Column 2'],
+      rows: [['1', '20'], ['2', '18']],
+    })
+  })
+})
+
+describe('guessSprintImportMapping', () => {
+  it('maps common and Jira velocity report headers', () => {
+    expect(guessSprintImportMapping(['Sprint', 'Commitment', 'Completed'])).toEqual({ sprintNumber: 0, doneValue: 2 })
+    expect(guessSprintImportMapping(['Sprint #', 'Start Date', 'End Date', 'Done', 'Backlog at End', 'Included']))
+      .toEqual({
+        sprintNumber: 0,
+        sprintStartDate: 1,
+        sprintFinishDate: 2,
+        doneValue: 3,
+        backlogAtSprintEnd: 4,
+        includedInForecast: 5,
+      })
+  })
+
+  it('maps each field to its first matching column only', () => {
+    expect(guessSprintImportMapping(['Done', 'Velocity'])).toEqual({ doneValue: 0 })
+  })
+})
+
+describe('buildSprintImport', () => {
+  it('builds sprints with scheduled dates', () => {
+    const result = preview('Sprint,Done,Backlog,Included\nTeam Sprint 1,20,180,yes\nTeam Sprint 2,18,,no')
+    expect(result.error).toBeNull()
+    expect(result.sprints).toEqual([
+      {
+        sprintNumber: 1,
+        sprintStartDate: '2026-01-05',
+        sprintFinishDate: '2026-01-16',
+        customFinishDate: undefined,
+        doneValue: 20,
+        backlogAtSprintEnd: 180,
+        includedInForecast: true,
+      },
+      {
+        sprintNumber: 2,
+        sprintStartDate: '2026-01-19',
+        sprintFinishDate: '2026-01-30',
+        customFinishDate: undefined,
+        doneValue: 18,
+        backlogAtSprintEnd: undefined,
+        includedInForecast: false,
+      },
+    ])
+  })
+
+  it('reports a missing Done column or sprint schedule instead of rows', () => {
+    expect(preview('Sprint,Backlog\n1,100')).toMatchObject({ rows: [], error: 'Map a column to Done.' })
+    expect(preview('Sprint,Done\n1,10', { project: makeProject({ sprintCadenceWeeks: undefined }) }).error)
+      .toBe('Set sprint cadence and first sprint start date first.')
+  })
+
+  it('flags rows that break the JSON import rules', () => {
+    const result = preview('Sprint,Done,Backlog\n0,10,\n2,-1,\n3,abc,\n4,10,9999999')
+    expect(result.rows.map((r) => r.error)).toEqual([
+      'Row 1 has invalid sprintNumber (must be 1-10000).',
+      'Row 2 has invalid doneValue (must be 0-999999).',
+      'Row 3 has invalid doneValue (must be 0-999999).',
+      'Row 4 has invalid backlogAtSprintEnd (must be 0-999999).',
+    ])
+    expect(result.sprints).toEqual([])
+  })
+
+  it('reads thousands separators but rejects ambiguous commas', () => {
+    const result = preview('Sprint\tDone\tBacklog\n1\t1,5\t\n2\t12\t1,200\n3\t12,34\t')
+    expect(result.rows.map((r) => r.error)).toEqual([
+      'Row 1 has invalid doneValue (must be 0-999999).',
+      undefined,
+      'Row 3 has invalid doneValue (must be 0-999999).',
+    ])
+    expect(result.sprints[0]).toMatchObject({ sprintNumber: 2, backlogAtSprintEnd: 1200 })
+  })
+
+  it('flags unrecognized dates, included values and repeated sprints', () => {
+    const result = preview('Sprint,Finish,Done,Included\n1,soon,10,\n2,,10,maybe\n3,,10,\n3,,12,')
+    expect(result.rows.map((r) => r.error)).toEqual([
+      'Row 1 has an unrecognized date "soon" (use YYYY-MM-DD or M/D/YYYY).',
+      'Row 2 has invalid includedInForecast (use yes or no).',
+      undefined,
+      'Row 4 repeats sprint 3 from row 3.',
+    ])
+    expect(result.sprints.map((s) => s.sprintNumber)).toEqual([3])
+  })
+
+  it('places rows by start date when there is no sprint column', () => {
+    const result = preview('Start,Done\n1/19/2026,18\n2026-02-02,22\n2025-12-01,5')
+    expect(result.rows.map((r) => r.sprint?.sprintNumber)).toEqual([2, 3, undefined])
+    expect(result.rows[2].error).toBe('Row 3 is dated before the first sprint starts (2026-01-05).')
+  })
+
+  it('numbers rows on from the last sprint when neither number nor date is mapped', () => {
+    const result = preview('Done\n18\n22', { existing: [makeSprint(1), makeSprint(2)] })
+    expect(result.sprints.map((s) => s.sprintNumber)).toEqual([3, 4])
+  })
+
+  it('keeps a differing finish date as a custom finish that shifts later sprints', () => {
+    const result = preview('Sprint,Finish,Done\n1,20/Jan/26,10\n2,2026-02-02,12')
+    expect(result.sprints[0]).toMatchObject({ sprintFinishDate: '2026-01-20', customFinishDate: '2026-01-20' })
+    // Sprint 2 starts the day after sprint 1's custom finish, so Feb 2 is a day early
+    expect(result.sprints[1]).toMatchObject({
+      sprintStartDate: '2026-01-21',
+      sprintFinishDate: '2026-02-02',
+      customFinishDate: '2026-02-02',
+    })
+  })
+
+  it('drops a finish date that matches the schedule', () => {
+    const result = preview('Sprint,Finish,Done\n1,2026-01-16,10')
+    expect(result.sprints[0].customFinishDate).toBeUndefined()
+  })
+
+  it('flags a finish date before the sprint starts', () => {
+    const result = preview('Sprint,Finish,Done\n2,2026-01-10,10', { existing: [makeSprint(1)] })
+    expect(result.rows[0].error).toBe('Row 1 has a finish date before its sprint starts (2026-01-19).')
+    expect(result.sprints).toEqual([])
+  })
+
+  it('resolves later sprints without a rejected finish date', () => {
+    // Sprint 1's Jan 2 finish is rejected, so sprint 2 keeps its Jan 19 start and its Jan 10 finish is rejected too
+    const result = preview('Sprint,Finish,Done\n1,2026-01-02,10\n2,2026-01-10,12\n3,,14', {
+      existing: [makeSprint(1), makeSprint(2)],
+      mode: 'overwrite',
+    })
+    expect(result.rows.map((r) => r.error)).toEqual([
+      'Row 1 has a finish date before its sprint starts (2026-01-05).',
+      'Row 2 has a finish date before its sprint starts (2026-01-19).',
+      undefined,
+    ])
+    expect(result.sprints).toEqual([expect.objectContaining({ sprintNumber: 3, sprintStartDate: '2026-02-02' })])
+  })
+
+  describe('merge modes', () => {
+    const existing = [makeSprint(1, { backlogAtSprintEnd: 150, includedInForecast: false })]
+
+    it('append rejects sprint numbers that already exist', () => {
+      const result = preview('Sprint,Done\n1,20\n2,18', { existing })
+      expect(result.rows[0].error).toBe('Row 1 is sprint 1, which already exists (choose Overwrite to replace it).')
+      expect(result.sprints.map((s) => s.sprintNumber)).toEqual([2])
+    })
+
+    it('overwrite replaces matching sprints, keeping fields the row leaves blank', () => {
+      const result = preview('Sprint,Done,Backlog\n1,20,\n2,18,90', { existing, mode: 'overwrite' })
+      expect(result.rows.map((r) => r.replacesExisting)).toEqual([true, false])
+      expect(result.sprints[0]).toMatchObject({ doneValue: 20, backlogAtSprintEnd: 150, includedInForecast: false })
+      expect(result.sprints[1]).toMatchObject({ doneValue: 18, backlogAtSprintEnd: 90, includedInForecast: true })
+    })
+  })
+})
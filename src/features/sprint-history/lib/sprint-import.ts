@@ -0,0 +1,355 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Project, Sprint } from '@/shared/types'
+import {
+  calculateSprintFinishDate,
+  cadenceWeeksForSprint,
+  getNextBusinessDay,
+  resolveAllSprintDates,
+  resolveWorkWeek,
+} from '@/shared/lib/dates'
+import { resolveNonWorkingDays } from '@/shared/lib/holidays'
+import { validateSprintFields } from '@/shared/state/import-validation'
+
+// Bulk sprint entry from a spreadsheet: parse pasted or uploaded CSV/TSV, map its
+// columns to sprint fields, and turn each row into a sprint or a row error
+
+export type SprintImportField =
+  | 'sprintNumber'
+  | 'sprintStartDate'
+  | 'sprintFinishDate'
+  | 'doneValue'
+  | 'backlogAtSprintEnd'
+  | 'includedInForecast'
+
+/** Column index for each mapped field; unmapped fields are absent */
+export type SprintImportMapping = Partial<Record<SprintImportField, number>>
+
+/** append: rows must be new sprint numbers. overwrite: rows replace sprints with the same number */
+export type SprintMergeMode = 'append' | 'overwrite'
+
+export type SprintImportValues = Omit<Sprint, 'id' | 'projectId' | 'createdAt' | 'updatedAt'>
+
+export const SPRINT_IMPORT_FIELDS: SprintImportField[] = [
+  'sprintNumber',
+  'sprintStartDate',
+  'sprintFinishDate',
+  'doneValue',
+  'backlogAtSprintEnd',
+  'includedInForecast',
+]
+
+export const SPRINT_IMPORT_FIELD_LABELS: Record<SprintImportField, string> = {
+  sprintNumber: 'Sprint',
+  sprintStartDate: 'Start date',
+  sprintFinishDate: 'Finish date',
+  doneValue: 'Done',
+  backlogAtSprintEnd: 'Backlog at end',
+  includedInForecast: 'Included',
+}
+
+export interface SprintImportTable {
+  headers: string[]
+  rows: string[][]
+}
+
+export interface SprintImportRow {
+  row: number // 1-based, counting data rows only
+  sprint?: SprintImportValues
+  replacesExisting?: boolean
+  error?: string
+}
+
+export interface SprintImportPreview {
+  rows: SprintImportRow[]
+  sprints: SprintImportValues[] // Valid rows, ready for the store
+  error: string | null // A problem with the mapping itself; no rows are built
+}
+
+const MAX_IMPORT_ROWS = 1000
+const MAX_SCHEDULED_SPRINTS = 10000 // The import rules' highest sprint number
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const TRUE_CELLS = new Set(['', 'y', 'yes', 'true', '1', 'x', 'included'])
+const FALSE_CELLS = new Set(['n', 'no', 'false', '0', 'excluded'])
+
+// Header patterns, tried in order per column so "Backlog at end" isn't taken for a finish date
+const HEADER_PATTERNS: Array<[SprintImportField, RegExp]> = [
+  ['includedInForecast', /includ/i],
+  ['backlogAtSprintEnd', /backlog|remaining/i],
+  ['doneValue', /done|complet|velocity|delivered|actual/i],
+  ['sprintStartDate', /start/i],
+  ['sprintFinishDate', /end|finish/i],
+  ['sprintNumber', /sprint|iteration|^#$|^(no\.?|number)$/i],
+]
+
+function splitRecords(text: string, delimiter: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let cell = ''
+  let inQuotes = false
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        inQuotes = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"' && cell.trim() === '') {
+      inQuotes = true
+      cell = ''
+    } else if (ch === delimiter) {
+      record.push(cell.trim())
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      records.push([...record, cell.trim()])
+      record = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  records.push([...record, cell.trim()])
+  return records.filter((r) => r.some((c) => c !== ''))
+}
+
+/** A first row is a header when none of its cells look like data */
+function isHeaderRow(cells: string[]): boolean {
+  return cells.every((c) => c === '' || (!/^-?[\d.,]+$/.test(c) && parseDateCell(c) === undefined))
+}
+
+/**
+ * Parse pasted or uploaded spreadsheet text. Tab-separated when the first line
+ * has a tab (spreadsheet copy), comma-separated otherwise; quoted cells may hold
+ * delimiters, doubled quotes and line breaks. Without a header row, columns are
+ * named "Column 1", "Column 2", ...
+ */
+export function parseSprintImportText(text: string): SprintImportTable {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? ''
+  const records = splitRecords(text, firstLine.includes('\t') ? '\t' : ',')
+  if (records.length === 0) return { headers: [], rows: [] }
+  const width = Math.max(...records.map((r) => r.length))
+  const hasHeader = isHeaderRow(records[0])
+  const headers = Array.from({ length: width }, (_, i) =>
+    (hasHeader ? records[0][i] : '') || `Column ${i + 1}`
+  )
+  return { headers, rows: (hasHeader ? records.slice(1) : records).slice(0, MAX_IMPORT_ROWS) }
+}
+
+/** Guess each field's column from the header names; each column maps to at most one field */
+export function guessSprintImportMapping(headers: string[]): SprintImportMapping {
+  const mapping: SprintImportMapping = {}
+  headers.forEach((header, column) => {
+    const match = HEADER_PATTERNS.find(([field, pattern]) => mapping[field] === undefined && pattern.test(header))
+    if (match) mapping[match[0]] = column
+  })
+  return mapping
+}
+
+/** "12", "Sprint 12" or "Team Sprint 12": the cell's only run of digits */
+function parseSprintNumberCell(cell: string): number {
+  const match = /^\D*?(\d+)\D*$/.exec(cell)
+  return match ? Number(match[1]) : NaN
+}
+
+/**
+ * Numbers may carry thousands separators ("1,200"); any other comma ("1,5") is
+ * ambiguous and gives NaN. An empty cell is undefined
+ */
+function parseNumberCell(cell: string): number | undefined {
+  const cleaned = cell.replace(/\s/g, '')
+  if (cleaned === '') return undefined
+  if (!cleaned.includes(',')) return Number(cleaned)
+  return /^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(cleaned) ? Number(cleaned.replace(/,/g, '')) : NaN
+}
+
+/** YYYY-MM-DD (with an optional time), M/D/YYYY, or Jira's D/Mon/YY; undefined when unrecognized */
+function parseDateCell(cell: string): string | undefined {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const year = (y: string) => (y.length === 2 ? 2000 + Number(y) : Number(y))
+  const iso = /^(\d{4}-\d{2}-\d{2})(?:[T\s].*)?$/.exec(cell)
+  if (iso) return iso[1]
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})(?:\s.*)?$/.exec(cell)
+  if (us) return `${year(us[3])}-${pad(Number(us[1]))}-${pad(Number(us[2]))}`
+  const jira = /^(\d{1,2})\/([A-Za-z]{3})\/(\d{2}|\d{4})(?:\s.*)?$/.exec(cell)
+  const month = jira ? MONTHS.indexOf(jira[2].toLowerCase()) : -1
+  if (jira && month >= 0) return `${year(jira[3])}-${pad(month + 1)}-${pad(Number(jira[1]))}`
+  return undefined
+}
+
+/**
+ * Sprint number whose scheduled dates contain the given date, following the same
+ * cascade as resolveAllSprintDates with the project's existing custom finish dates.
+ * Undefined when the date falls before the first sprint.
+ */
+function sprintNumberForDate(
+  date: string,
+  project: Project,
+  customFinishDates: Map<number, string>
+): number | undefined {
+  const { firstSprintStartDate, sprintCadenceWeeks } = project
+  if (!firstSprintStartDate || !sprintCadenceWeeks || date < firstSprintStartDate) return undefined
+  const workWeek = resolveWorkWeek(project.workWeek)
+  let start = firstSprintStartDate
+  for (let sprintNumber = 1; sprintNumber <= MAX_SCHEDULED_SPRINTS; sprintNumber++) {
+    const cadence = cadenceWeeksForSprint(sprintNumber, sprintCadenceWeeks, project.cadenceChanges)
+    const finish = customFinishDates.get(sprintNumber) ?? calculateSprintFinishDate(start, cadence, undefined, workWeek)
+    const nextStart = getNextBusinessDay(finish, workWeek)
+    if (date < nextStart) return sprintNumber
+    start = nextStart
+  }
+  return undefined
+}
+
+/**
+ * Build sprints from the mapped rows. Each row's fields are checked with the
+ * JSON import's sprint rules; rows without a sprint column are placed by their
+ * start (or finish) date on the project's schedule, or numbered on from the last
+ * sprint when no date is mapped either. Start dates follow the schedule, and a
+ * finish date that differs from the computed one is kept as a custom finish date.
+ * In overwrite mode a row replaces the sprint with its number, keeping that
+ * sprint's values for optional fields the row leaves blank or unmapped.
+ */
+export function buildSprintImport(
+  table: SprintImportTable,
+  mapping: SprintImportMapping,
+  mode: SprintMergeMode,
+  project: Project,
+  existingSprints: Sprint[]
+): SprintImportPreview {
+  if (!project.firstSprintStartDate || !project.sprintCadenceWeeks) {
+    return { rows: [], sprints: [], error: 'Set sprint cadence and first sprint start date first.' }
+  }
+  if (mapping.doneValue === undefined) {
+    return { rows: [], sprints: [], error: 'Map a column to Done.' }
+  }
+
+  const existingByNumber = new Map(existingSprints.map((s) => [s.sprintNumber, s]))
+  const customFinishDates = new Map(
+    existingSprints.flatMap((s) => (s.customFinishDate ? [[s.sprintNumber, s.customFinishDate] as const] : []))
+  )
+  let nextSprintNumber = existingSprints.reduce((max, s) => Math.max(max, s.sprintNumber), 0) + 1
+  const firstRowForNumber = new Map<number, number>()
+  const cell = (cells: string[], field: SprintImportField) => {
+    const column = mapping[field]
+    return column === undefined ? '' : cells[column] ?? ''
+  }
+
+  const rows = table.rows.map((cells, i): SprintImportRow => {
+    const row = i + 1
+    const startCell = cell(cells, 'sprintStartDate')
+    const finishCell = cell(cells, 'sprintFinishDate')
+    const backlogCell = cell(cells, 'backlogAtSprintEnd')
+    const includedCell = cell(cells, 'includedInForecast').toLowerCase()
+    const startDate = startCell ? parseDateCell(startCell) : undefined
+    const finishDate = finishCell ? parseDateCell(finishCell) : undefined
+    const badDateCell = (startCell && !startDate && startCell) || (finishCell && !finishDate && finishCell)
+    if (badDateCell) {
+      return { row, error: `Row ${row} has an unrecognized date "${badDateCell}" (use YYYY-MM-DD or M/D/YYYY).` }
+    }
+
+    let sprintNumber: number
+    if (mapping.sprintNumber !== undefined) {
+      sprintNumber = parseSprintNumberCell(cell(cells, 'sprintNumber'))
+    } else if (startDate ?? finishDate) {
+      const placed = sprintNumberForDate((startDate ?? finishDate)!, project, customFinishDates)
+      if (placed === undefined) {
+        return { row, error: `Row ${row} is dated before the first sprint starts (${project.firstSprintStartDate}).` }
+      }
+      sprintNumber = placed
+    } else {
+      sprintNumber = nextSprintNumber
+    }
+    if (Number.isInteger(sprintNumber)) nextSprintNumber = Math.max(nextSprintNumber, sprintNumber + 1)
+
+    const values: Record<string, unknown> = {
+      sprintNumber,
+      doneValue: parseNumberCell(cell(cells, 'doneValue')) ?? NaN,
+      backlogAtSprintEnd: parseNumberCell(backlogCell),
+      sprintStartDate: startDate,
+      sprintFinishDate: finishDate,
+    }
+    const fieldError = validateSprintFields(values)
+    if (fieldError) return { row, error: `Row ${row} ${fieldError}` }
+    if (!TRUE_CELLS.has(includedCell) && !FALSE_CELLS.has(includedCell)) {
+      return { row, error: `Row ${row} has invalid includedInForecast (use yes or no).` }
+    }
+
+    const earlierRow = firstRowForNumber.get(sprintNumber)
+    if (earlierRow !== undefined) {
+      return { row, error: `Row ${row} repeats sprint ${sprintNumber} from row ${earlierRow}.` }
+    }
+    const existing = existingByNumber.get(sprintNumber)
+    if (existing && mode === 'append') {
+      return { row, error: `Row ${row} is sprint ${sprintNumber}, which already exists (choose Overwrite to replace it).` }
+    }
+    firstRowForNumber.set(sprintNumber, row)
+
+    return {
+      row,
+      replacesExisting: !!existing,
+      sprint: {
+        sprintNumber,
+        sprintStartDate: '', // Resolved below, once every row's custom finish date is known
+        sprintFinishDate: finishDate ?? '',
+        customFinishDate: finishDate ?? existing?.customFinishDate,
+        doneValue: values.doneValue as number,
+        backlogAtSprintEnd: backlogCell ? (values.backlogAtSprintEnd as number) : existing?.backlogAtSprintEnd,
+        includedInForecast: includedCell ? TRUE_CELLS.has(includedCell) : existing?.includedInForecast ?? true,
+      },
+    }
+  })
+
+  // Resolve dates over the merged history so imported finish dates cascade like SprintForm's.
+  // A finish date before its sprint starts rejects the row, and the rest resolve again
+  // without its custom finish, which would otherwise have shifted the sprints after it
+  const { firstSprintStartDate, sprintCadenceWeeks } = project
+  const nonWorkingDays = resolveNonWorkingDays(project.holidaySets)
+  const workWeek = resolveWorkWeek(project.workWeek)
+  const resolveRows = () => {
+    const imported = rows.flatMap((r) => (r.sprint ? [r.sprint] : []))
+    const importedNumbers = new Set(imported.map((s) => s.sprintNumber))
+    return resolveAllSprintDates(
+      firstSprintStartDate,
+      sprintCadenceWeeks,
+      [...existingSprints.filter((s) => !importedNumbers.has(s.sprintNumber)), ...imported],
+      nonWorkingDays,
+      workWeek,
+      project.cadenceChanges
+    )
+  }
+  let resolved = resolveRows()
+  for (;;) {
+    // Reject the earliest such sprint first: only earlier sprints move its start
+    const isBackwards = (r: SprintImportRow) => {
+      const dates = r.sprint && resolved.get(r.sprint.sprintNumber)!
+      return !!dates && dates.finishDate < dates.startDate
+    }
+    const backwards = rows
+      .filter(isBackwards)
+      .sort((a, b) => a.sprint!.sprintNumber - b.sprint!.sprintNumber)[0]
+    if (!backwards) break
+    const { startDate } = resolved.get(backwards.sprint!.sprintNumber)!
+    backwards.error = `Row ${backwards.row} has a finish date before its sprint starts (${startDate}).`
+    backwards.sprint = undefined
+    backwards.replacesExisting = undefined
+    resolved = resolveRows()
+  }
+  for (const r of rows) {
+    if (!r.sprint) continue
+    const { startDate, finishDate } = resolved.get(r.sprint.sprintNumber)!
+    const cadence = cadenceWeeksForSprint(r.sprint.sprintNumber, sprintCadenceWeeks, project.cadenceChanges)
+    const computedFinish = calculateSprintFinishDate(startDate, cadence, nonWorkingDays, workWeek)
+    r.sprint.sprintStartDate = startDate
+    r.sprint.sprintFinishDate = finishDate
+    if (r.sprint.customFinishDate === computedFinish) r.sprint.customFinishDate = undefined
+  }
+
+  return { rows, sprints: rows.flatMap((r) => (r.sprint ? [r.sprint] : [])), error: null }
+}
@@ -6,6 +6,7 @@ import { describe, it, expect } from 'vitest'
 import { projectToFirestoreDoc, firestoreDocToProject, firestoreDocToSprints, settingsToFirestoreDoc, firestoreDocToSettings } from './firestore-converters'
 import type { Project, Sprint } from '@/shared/types'
 import type { FirestoreProjectDoc, FirestoreSettingsDoc } from './types'
+import { DEFAULT_TREND_MIN_R_SQUARED } from '@/features/forecast/constants'
 
 const mockProject: Project = {
   id: 'p1',
@@ -123,6 +124,9 @@ describe('settingsToFirestoreDoc / firestoreDocToSettings', () => {
     const settings = {
       autoRecalculate: true,
       trialCount: 10000,
+      adaptiveTrialCount: true,
+      simulationSeed: 424242,
+      trendMinRSquared: 0.55,
       defaultChartFontSize: 'medium',
       defaultCustomPercentile: 85,
       defaultCustomPercentile2: 50,
@@ -136,12 +140,59 @@ describe('settingsToFirestoreDoc / firestoreDocToSettings', () => {
     const restored = firestoreDocToSettings(doc)
     expect(restored.autoRecalculate).toBe(true)
     expect(restored.trialCount).toBe(10000)
+    expect(restored.adaptiveTrialCount).toBe(true)
+    expect(restored.simulationSeed).toBe(424242)
+    expect(restored.trendMinRSquared).toBe(0.55)
     expect(restored.defaultChartFontSize).toBe('medium')
     expect(restored.defaultCustomPercentile).toBe(85)
     expect(restored.defaultResultsPercentiles).toEqual([50, 70, 80, 90])
     expect(restored.distributionsEnabled).toEqual(['truncatedNormal', 'lognormal'])
   })
 
+  describe('simulationSeed defensive coercion', () => {
+    const baseDoc: FirestoreSettingsDoc = {
+      autoRecalculate: true,
+      trialCount: 10000,
+      defaultChartFontSize: 'medium',
+      defaultCustomPercentile: 85,
+      defaultCustomPercentile2: 50,
+      defaultResultsPercentiles: [50],
+    }
+
+    it('falls back to null when the field is missing (pre-seed docs)', () => {
+      expect(firestoreDocToSettings(baseDoc).simulationSeed).toBeNull()
+    })
+
+    it('falls back to null for non-integer or negative values', () => {
+      expect(firestoreDocToSettings({ ...baseDoc, simulationSeed: 1.5 }).simulationSeed).toBeNull()
+      expect(firestoreDocToSettings({ ...baseDoc, simulationSeed: -3 }).simulationSeed).toBeNull()
+    })
+
+    it('preserves an explicit null', () => {
+      expect(firestoreDocToSettings({ ...baseDoc, simulationSeed: null }).simulationSeed).toBeNull()
+    })
+  })
+
+  describe('trendMinRSquared defensive coercion', () => {
+    const baseDoc: FirestoreSettingsDoc = {
+      autoRecalculate: true,
+      trialCount: 10000,
+      defaultChartFontSize: 'medium',
+      defaultCustomPercentile: 85,
+      defaultCustomPercentile2: 50,
+      defaultResultsPercentiles: [50],
+    }
+
+    it('falls back to the default when missing or out of range', () => {
+      expect(firestoreDocToSettings(baseDoc).trendMinRSquared).toBe(DEFAULT_TREND_MIN_R_SQUARED)
+      expect(firestoreDocToSettings({ ...baseDoc, trendMinRSquared: 2 }).trendMinRSquared).toBe(DEFAULT_TREND_MIN_R_SQUARED)
+    })
+
+    it('defaults adaptiveTrialCount to off for older docs', () => {
+      expect(firestoreDocToSettings(baseDoc).adaptiveTrialCount).toBe(false)
+    })
+  })
+
   describe('distributionsEnabled defensive coercion', () => {
     const baseDoc: FirestoreSettingsDoc = {
       autoRecalculate: true,
@@ -184,7 +235,7 @@ describe('settingsToFirestoreDoc / firestoreDocToSettings', () => {
       expect(restored.distributionsEnabled).toEqual(['lognormal'])
     })
 
-    it('preserves valid array with all six distributions', () => {
+    it('preserves valid array with all seven distributions', () => {
       const restored = firestoreDocToSettings({
         ...baseDoc,
         distributionsEnabled: [
@@ -193,6 +244,7 @@ describe('settingsToFirestoreDoc / firestoreDocToSettings', () => {
           'gamma',
           'bootstrap',
           'triangular',
+          'pert',
           'uniform',
         ],
       })
@@ -202,6 +254,7 @@ describe('settingsToFirestoreDoc / firestoreDocToSettings', () => {
         'gamma',
         'bootstrap',
         'triangular',
+        'pert',
         'uniform',
       ])
     })
@@ -13,6 +13,7 @@ import type { TrialCount } from '@/shared/state/settings-store'
 import type { ChartFontSize, DistributionType } from '@/shared/types/burn-up'
 import { DISTRIBUTION_TYPES } from '@/shared/types/burn-up'
 import { SCHEMA_VERSION } from './types'
+import { DEFAULT_TREND_MIN_R_SQUARED } from '@/features/forecast/constants'
 import { sanitizeForFirestore } from './firestore-sanitize'
 
 /** Convert a Zustand project + its sprints into a Firestore document (for saving). */
@@ -30,11 +31,17 @@ export function projectToFirestoreDoc(
     name: project.name,
     unitOfMeasure: project.unitOfMeasure,
     sprintCadenceWeeks: project.sprintCadenceWeeks,
+    cadenceChanges: project.cadenceChanges,
     projectStartDate: project.projectStartDate,
     projectFinishDate: project.projectFinishDate,
     firstSprintStartDate: project.firstSprintStartDate,
+    workWeek: project.workWeek,
     productivityAdjustments: project.productivityAdjustments || [],
     milestones: project.milestones || [],
+    teamMembers: project.teamMembers || [],
+    forecastScenarios: project.forecastScenarios || [],
+    forecastSnapshots: project.forecastSnapshots || [],
+    holidaySets: project.holidaySets || [],
     sprints: projectSprints,
     createdAt: project.createdAt,
     updatedAt: project.updatedAt,
@@ -56,11 +63,17 @@ export function firestoreDocToProject(
     name: doc.name,
     unitOfMeasure: doc.unitOfMeasure,
     sprintCadenceWeeks: doc.sprintCadenceWeeks as Project['sprintCadenceWeeks'],
+    cadenceChanges: doc.cadenceChanges as Project['cadenceChanges'],
     projectStartDate: doc.projectStartDate,
     projectFinishDate: doc.projectFinishDate,
     firstSprintStartDate: doc.firstSprintStartDate,
+    workWeek: doc.workWeek,
     productivityAdjustments: doc.productivityAdjustments || [],
     milestones: doc.milestones || [],
+    teamMembers: doc.teamMembers || [],
+    forecastScenarios: doc.forecastScenarios || [],
+    forecastSnapshots: doc.forecastSnapshots || [],
+    holidaySets: doc.holidaySets || [],
     createdAt: doc.createdAt,
     updatedAt: doc.updatedAt,
   }
@@ -75,6 +88,9 @@ export function firestoreDocToSprints(doc: FirestoreProjectDoc): Sprint[] {
 export function settingsToFirestoreDoc(settings: {
   autoRecalculate: boolean
   trialCount: number
+  adaptiveTrialCount: boolean
+  simulationSeed: number | null
+  trendMinRSquared: number
   defaultChartFontSize: string
   defaultCustomPercentile: number
   defaultCustomPercentile2: number
@@ -84,6 +100,9 @@ export function settingsToFirestoreDoc(settings: {
   return {
     autoRecalculate: settings.autoRecalculate,
     trialCount: settings.trialCount,
+    adaptiveTrialCount: settings.adaptiveTrialCount,
+    simulationSeed: settings.simulationSeed,
+    trendMinRSquared: settings.trendMinRSquared,
     defaultChartFontSize: settings.defaultChartFontSize,
     defaultCustomPercentile: settings.defaultCustomPercentile,
     defaultCustomPercentile2: settings.defaultCustomPercentile2,
@@ -96,6 +115,9 @@ export function settingsToFirestoreDoc(settings: {
 export function firestoreDocToSettings(doc: FirestoreSettingsDoc): {
   autoRecalculate: boolean
   trialCount: TrialCount
+  adaptiveTrialCount: boolean
+  simulationSeed: number | null
+  trendMinRSquared: number
   defaultChartFontSize: ChartFontSize
   defaultCustomPercentile: number
   defaultCustomPercentile2: number
@@ -116,9 +138,25 @@ export function firestoreDocToSettings(doc: FirestoreSettingsDoc): {
   const distributionsEnabled: DistributionType[] =
     filtered.length > 0 ? filtered : ['lognormal']
 
+  // Missing (older docs) or non-integer seeds fall back to null (random seed per run).
+  const simulationSeed =
+    typeof doc.simulationSeed === 'number' && Number.isInteger(doc.simulationSeed) && doc.simulationSeed >= 0
+      ? doc.simulationSeed
+      : null
+
+  // Missing (older docs) or out-of-range thresholds fall back to the default.
+  const trendMinRSquared =
+    typeof doc.trendMinRSquared === 'number' && doc.trendMinRSquared >= 0 && doc.trendMinRSquared <= 1
+      ? doc.trendMinRSquared
+      : DEFAULT_TREND_MIN_R_SQUARED
+
   return {
     autoRecalculate: doc.autoRecalculate,
     trialCount: doc.trialCount as TrialCount,
+    // Missing on older docs → fixed trial count
+    adaptiveTrialCount: doc.adaptiveTrialCount === true,
+    simulationSeed,
+    trendMinRSquared,
     defaultChartFontSize: doc.defaultChartFontSize as ChartFontSize,
     defaultCustomPercentile: doc.defaultCustomPercentile,
     defaultCustomPercentile2: doc.defaultCustomPercentile2,
@@ -4,7 +4,7 @@
 
 // Firestore document schemas and Firebase-related types
 
-import type { Sprint, ProductivityAdjustment, Milestone } from '@/shared/types'
+import type { Sprint, ProductivityAdjustment, Milestone, TeamMember, ForecastScenario, ForecastSnapshot, HolidaySet } from '@/shared/types'
 import type { ChangeLogEntry } from '@/shared/state/storage'
 
 export type ProjectRole = 'editor' | 'viewer'
@@ -19,11 +19,17 @@ export interface FirestoreProjectDoc {
   name: string
   unitOfMeasure: string
   sprintCadenceWeeks?: number
+  cadenceChanges?: { fromSprintNumber: number; cadenceWeeks: number }[]
   projectStartDate?: string
   projectFinishDate?: string
   firstSprintStartDate?: string
+  workWeek?: number[]
   productivityAdjustments?: ProductivityAdjustment[]
   milestones?: Milestone[]
+  teamMembers?: TeamMember[]
+  forecastScenarios?: ForecastScenario[]
+  forecastSnapshots?: ForecastSnapshot[]
+  holidaySets?: HolidaySet[]
   sprints: Sprint[]
   createdAt: string
   updatedAt: string
@@ -49,6 +55,11 @@ export interface FirestoreSettingsDoc {
   // Optional for backward compatibility — pre-v0.31.0 docs won't have this field.
   // firestoreDocToSettings coerces missing/empty/invalid to ['truncatedNormal'].
   distributionsEnabled?: string[]
+  // Optional for backward compatibility — pre-seed docs won't have this field.
+  // null (or missing) means "fresh random seed each run".
+  simulationSeed?: number | null
+  trendMinRSquared?: number
+  adaptiveTrialCount?: boolean
   // exportName/exportId NOT synced (local-only, per-device)
   // theme NOT synced (per-device preference)
 }
@@ -8,6 +8,8 @@
 // For DOM styling, prefer Tailwind classes (e.g., text-spert-blue, bg-spert-error)
 // which reference the same values via CSS custom properties in globals.css.
 
+import type { DistributionType } from '@/shared/types/burn-up'
+
 export const COLORS = {
   // Brand
   brand: {
@@ -70,6 +72,7 @@ export const COLORS = {
     gamma: '#f59e0b',
     bootstrap: '#8b5cf6',
     triangular: '#ec4899',
+    pert: '#06b6d4',
     uniform: '#6366f1',
   },
 
@@ -88,3 +91,15 @@ export const COLORS = {
     error: '#ef4444',
   },
 } as const
+
+// Chart color per distribution type. COLORS.chart keys T-Normal as `tNormal`;
+// every other distribution matches its type name.
+export const DISTRIBUTION_COLORS: Record<DistributionType, string> = {
+  truncatedNormal: COLORS.chart.tNormal,
+  lognormal: COLORS.chart.lognormal,
+  gamma: COLORS.chart.gamma,
+  bootstrap: COLORS.chart.bootstrap,
+  triangular: COLORS.chart.triangular,
+  pert: COLORS.chart.pert,
+  uniform: COLORS.chart.uniform,
+}
@@ -8,6 +8,7 @@ import {
   addWeeks,
   calculateSprintStartDate,
   calculateSprintFinishDate,
+  calculateFractionalSprintDate,
   getPrecedingBusinessDay,
   getWorkingDaysInRange,
   countWorkingDays,
@@ -18,8 +19,10 @@ import {
   formatDateRange,
   isValidDateRange,
   getNextBusinessDay,
+  cadenceWeeksForSprint,
   resolveAllSprintDates,
   resolveAnchorDate,
+  resolveWorkWeek,
 } from './dates'
 
 describe('addDays', () => {
@@ -141,6 +144,29 @@ describe('calculateSprintFinishDate', () => {
   })
 })
 
+describe('calculateFractionalSprintDate', () => {
+  // Sprint 1 runs Mon Jan 1 - Fri Jan 12, 2024: ten working days
+  it('gives the sprint finish date for whole sprint counts', () => {
+    expect(calculateFractionalSprintDate('2024-01-01', 1, 2)).toBe('2024-01-12')
+    expect(calculateFractionalSprintDate('2024-01-01', 3, 2)).toBe(
+      calculateSprintFinishDate(calculateSprintStartDate('2024-01-01', 3, 2), 2)
+    )
+  })
+
+  it('lands on the working day the fraction reaches inside the final sprint', () => {
+    expect(calculateFractionalSprintDate('2024-01-01', 0.05, 2)).toBe('2024-01-01')
+    expect(calculateFractionalSprintDate('2024-01-01', 0.5, 2)).toBe('2024-01-05')
+    expect(calculateFractionalSprintDate('2024-01-01', 0.51, 2)).toBe('2024-01-08') // skips the weekend
+    expect(calculateFractionalSprintDate('2024-01-01', 1.3, 2)).toBe('2024-01-17')
+  })
+
+  it('counts only the work week', () => {
+    // Mon-Thu: sprint 1 has eight working days; half-way is Thu Jan 4
+    expect(calculateFractionalSprintDate('2024-01-01', 0.5, 2, undefined, [1, 2, 3, 4])).toBe('2024-01-04')
+    expect(calculateFractionalSprintDate('2024-01-01', 1, 2, undefined, [1, 2, 3, 4])).toBe('2024-01-11')
+  })
+})
+
 describe('isWeekend', () => {
   it('identifies Saturday as weekend', () => {
     expect(isWeekend('2025-01-04')).toBe(true) // Saturday
@@ -537,3 +563,121 @@ describe('resolveAnchorDate', () => {
     expect(result).toBe(getNextBusinessDay(sprint2Finish))
   })
 })
+
+describe('non-working days', () => {
+  // 2-week sprint Mon Jan 5 – Fri Jan 16, 2026
+  const holidays = new Set(['2026-01-07', '2026-01-08'])
+
+  it('moves a finish date off a Friday holiday', () => {
+    expect(calculateSprintFinishDate('2026-01-05', 2, new Set(['2026-01-16']))).toBe('2026-01-15')
+    expect(calculateSprintFinishDate('2026-01-05', 2, new Set(['2026-01-15', '2026-01-16']))).toBe('2026-01-14')
+    expect(getPrecedingBusinessDay('2026-01-19', new Set(['2026-01-19']))).toBe('2026-01-16')
+  })
+
+  it('keeps the Mon-Fri finish for a sprint wholly inside a shutdown', () => {
+    const shutdown = new Set(getWorkingDaysInRange('2026-01-01', '2026-01-31'))
+    expect(calculateSprintFinishDate('2026-01-05', 2, shutdown)).toBe('2026-01-16')
+  })
+
+  it('subtracts weekday holidays from working-day counts', () => {
+    const withWeekend = new Set([...holidays, '2026-01-10', '2026-02-02'])
+    expect(countWorkingDays('2026-01-05', '2026-01-16', withWeekend)).toBe(8)
+    expect(getWorkingDaysInRange('2026-01-05', '2026-01-09', holidays)).toEqual([
+      '2026-01-05', '2026-01-06', '2026-01-09',
+    ])
+  })
+
+  it('reduces the productivity factor by the share of working days lost', () => {
+    expect(calculateSprintProductivityFactor('2026-01-05', '2026-01-16', [], holidays)).toBeCloseTo(0.8)
+    // Holidays combine with adjustments: 8 days at 0.5 over 10
+    expect(
+      calculateSprintProductivityFactor('2026-01-05', '2026-01-16', [
+        { startDate: '2026-01-01', endDate: '2026-01-31', factor: 0.5 },
+      ], holidays)
+    ).toBeCloseTo(0.4)
+    expect(calculateSprintProductivityFactor('2026-01-19', '2026-01-30', [], holidays)).toBe(1.0)
+  })
+
+  it('resolves finish dates without shifting later sprint starts', () => {
+    const result = resolveAllSprintDates('2026-01-05', 2, [{ sprintNumber: 1 }, { sprintNumber: 2 }], new Set(['2026-01-16']))
+    expect(result.get(1)).toEqual({ startDate: '2026-01-05', finishDate: '2026-01-15', nextStartDate: '2026-01-19' })
+    expect(result.get(2)?.startDate).toBe('2026-01-19')
+    expect(result.get(2)?.nextStartDate).toBe(calculateSprintStartDate('2026-01-05', 3, 2))
+  })
+})
+
+describe('work week', () => {
+  const SUN_THU = [0, 1, 2, 3, 4]
+  const MON_THU = [1, 2, 3, 4]
+
+  it('resolves a project work week, dropping the Mon-Fri default', () => {
+    expect(resolveWorkWeek(undefined)).toBeUndefined()
+    expect(resolveWorkWeek([5, 4, 3, 2, 1])).toBeUndefined()
+    expect(resolveWorkWeek([])).toBeUndefined()
+    expect(resolveWorkWeek([4, 0, 2, 1, 3, 3, 9])).toEqual(SUN_THU)
+  })
+
+  it('treats days outside the work week as weekends', () => {
+    expect(isWeekend('2026-01-09', SUN_THU)).toBe(true) // Friday
+    expect(isWeekend('2026-01-11', SUN_THU)).toBe(false) // Sunday
+    expect(getNextBusinessDay('2026-01-08', SUN_THU)).toBe('2026-01-11')
+    expect(getPrecedingBusinessDay('2026-01-10', undefined, SUN_THU)).toBe('2026-01-08')
+  })
+
+  it('finishes a Sun-Thu sprint on Thursday and starts the next on Sunday', () => {
+    expect(calculateSprintFinishDate('2026-01-04', 2, undefined, SUN_THU)).toBe('2026-01-15')
+    const result = resolveAllSprintDates('2026-01-04', 2, [{ sprintNumber: 1 }, { sprintNumber: 2 }], undefined, SUN_THU)
+    expect(result.get(2)).toEqual({ startDate: '2026-01-18', finishDate: '2026-01-29', nextStartDate: '2026-02-01' })
+    expect(resolveAnchorDate('2026-01-04', 2, [{ sprintNumber: 1 }], SUN_THU)).toBe('2026-01-18')
+  })
+
+  it('counts working days of a four-day week', () => {
+    expect(countWorkingDays('2026-01-05', '2026-01-16', undefined, MON_THU)).toBe(8)
+    expect(countWorkingDays('2026-01-04', '2026-01-17', undefined, SUN_THU)).toBe(10)
+    expect(getWorkingDaysInRange('2026-01-05', '2026-01-11', undefined, MON_THU)).toEqual([
+      '2026-01-05', '2026-01-06', '2026-01-07', '2026-01-08',
+    ])
+    // A Friday holiday is already a day off
+    expect(countWorkingDays('2026-01-05', '2026-01-16', new Set(['2026-01-09']), MON_THU)).toBe(8)
+  })
+
+  it('weights productivity factors over the work week', () => {
+    expect(
+      calculateSprintProductivityFactor('2026-01-05', '2026-01-15', [], new Set(['2026-01-05']), MON_THU)
+    ).toBeCloseTo(7 / 8)
+  })
+})
+
+describe('cadence changes', () => {
+  const TO_ONE_WEEK = [{ fromSprintNumber: 3, cadenceWeeks: 1 }]
+
+  it('finds the cadence in effect for a sprint', () => {
+    const changes = [{ fromSprintNumber: 5, cadenceWeeks: 3 }, { fromSprintNumber: 3, cadenceWeeks: 1 }]
+    expect(cadenceWeeksForSprint(2, 2, changes)).toBe(2)
+    expect(cadenceWeeksForSprint(3, 2, changes)).toBe(1)
+    expect(cadenceWeeksForSprint(4, 2, changes)).toBe(1)
+    expect(cadenceWeeksForSprint(9, 2, changes)).toBe(3)
+    expect(cadenceWeeksForSprint(9, 2)).toBe(2)
+  })
+
+  it('runs each sprint at its own cadence', () => {
+    // 2-week sprints from Mon Jan 5, then 1-week sprints from sprint 3
+    const sprints = [1, 2, 3, 4].map((sprintNumber) => ({ sprintNumber }))
+    const result = resolveAllSprintDates('2026-01-05', 2, sprints, undefined, undefined, TO_ONE_WEEK)
+    expect(result.get(2)).toEqual({ startDate: '2026-01-19', finishDate: '2026-01-30', nextStartDate: '2026-02-02' })
+    expect(result.get(3)).toEqual({ startDate: '2026-02-02', finishDate: '2026-02-06', nextStartDate: '2026-02-09' })
+    expect(result.get(4)?.finishDate).toBe('2026-02-13')
+  })
+
+  it('anchors the forecast after the last sprint at its cadence', () => {
+    const sprints = [1, 2, 3].map((sprintNumber) => ({ sprintNumber }))
+    expect(resolveAnchorDate('2026-01-05', 2, sprints, undefined, TO_ONE_WEEK)).toBe('2026-02-09')
+    expect(resolveAnchorDate('2026-01-05', 2, sprints)).toBe('2026-02-16')
+  })
+
+  it('shifts later sprints after a custom finish date at the new cadence', () => {
+    const sprints = [{ sprintNumber: 1 }, { sprintNumber: 2 }, { sprintNumber: 3, customFinishDate: '2026-02-10' }, { sprintNumber: 4 }]
+    const result = resolveAllSprintDates('2026-01-05', 2, sprints, undefined, undefined, TO_ONE_WEEK)
+    expect(result.get(4)).toEqual({ startDate: '2026-02-11', finishDate: '2026-02-17', nextStartDate: '2026-02-18' })
+  })
+})
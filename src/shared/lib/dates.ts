@@ -70,32 +70,103 @@ export function today(): string {
 }
 
 /**
- * Check if a date is a weekend (Saturday = 6, Sunday = 0)
+ * ISO dates (YYYY-MM-DD) that aren't worked besides weekends: public holidays,
+ * company shutdowns. Built from a project's working calendar by
+ * resolveNonWorkingDays(); functions taking one treat omitted as Mon-Fri only.
  */
-export function isWeekend(dateStr: string): boolean {
+export type NonWorkingDays = ReadonlySet<string>
+
+/**
+ * The days of the week a team works (0 = Sunday ... 6 = Saturday). Functions
+ * taking one default to Mon-Fri; pass resolveWorkWeek() output, never an empty list.
+ */
+export type WorkWeek = readonly number[]
+
+export const DEFAULT_WORK_WEEK: WorkWeek = [1, 2, 3, 4, 5]
+
+/**
+ * A project's work week, or undefined when it is the Mon-Fri default (or unset
+ * or invalid), so date math keeps its defaults.
+ */
+export function resolveWorkWeek(days: readonly number[] | undefined): WorkWeek | undefined {
+  if (!days) return undefined
+  const valid = [...new Set(days.filter((d) => Number.isInteger(d) && d >= 0 && d <= 6))].sort((a, b) => a - b)
+  if (valid.length === 0) return undefined
+  const isDefault = valid.length === DEFAULT_WORK_WEEK.length && valid.every((d, i) => d === DEFAULT_WORK_WEEK[i])
+  return isDefault ? undefined : valid
+}
+
+/**
+ * Cadence changes over a project's lifetime: from each sprint number on, sprints
+ * run the given number of weeks. Sprints before the first change use the
+ * project's sprint cadence. Functions taking one treat omitted as a fixed cadence.
+ */
+export type CadenceChanges = ReadonlyArray<{ fromSprintNumber: number; cadenceWeeks: number }>
+
+/**
+ * The cadence in weeks of a given sprint: the latest change effective on or
+ * before it, else the project's base cadence.
+ */
+export function cadenceWeeksForSprint(
+  sprintNumber: number,
+  baseCadenceWeeks: number,
+  cadenceChanges?: CadenceChanges
+): number {
+  let cadence = baseCadenceWeeks
+  let effectiveFrom = -Infinity
+  for (const change of cadenceChanges ?? []) {
+    if (change.fromSprintNumber <= sprintNumber && change.fromSprintNumber > effectiveFrom) {
+      cadence = change.cadenceWeeks
+      effectiveFrom = change.fromSprintNumber
+    }
+  }
+  return cadence
+}
+
+/**
+ * Cadence changes that start after `nextSprintNumber`. Forecasts run every future
+ * sprint at the next sprint's cadence, so these don't reach them yet.
+ */
+export function laterCadenceChanges(
+  nextSprintNumber: number,
+  cadenceChanges?: CadenceChanges
+): CadenceChanges {
+  return (cadenceChanges ?? []).filter((c) => c.fromSprintNumber > nextSprintNumber)
+}
+
+/**
+ * Check if a date is a weekend: a day outside the work week (Saturday and
+ * Sunday by default)
+ */
+export function isWeekend(dateStr: string, workWeek: WorkWeek = DEFAULT_WORK_WEEK): boolean {
   const date = new Date(dateStr + 'T00:00:00')
-  const day = date.getDay()
-  return day === 0 || day === 6
+  return !workWeek.includes(date.getDay())
 }
 
 /**
- * Get the preceding business day (Mon-Fri) for a given date.
+ * Check if a date is a working day: a work-week day that isn't a non-working day
+ */
+export function isWorkingDay(dateStr: string, nonWorkingDays?: NonWorkingDays, workWeek?: WorkWeek): boolean {
+  return !isWeekend(dateStr, workWeek) && !nonWorkingDays?.has(dateStr)
+}
+
+/**
+ * Get the preceding business day (Mon-Fri by default) for a given date.
  * If the date is already a business day, returns that date.
  * If it's Saturday, returns Friday. If it's Sunday, returns Friday.
+ * With `nonWorkingDays`, holidays are skipped too (a Friday holiday returns Thursday).
  */
-export function getPrecedingBusinessDay(dateStr: string): string {
-  const date = new Date(dateStr + 'T00:00:00')
-  const day = date.getDay()
-
-  if (day === 0) {
-    // Sunday -> Friday (subtract 2 days)
-    return addDays(dateStr, -2)
-  } else if (day === 6) {
-    // Saturday -> Friday (subtract 1 day)
-    return addDays(dateStr, -1)
+export function getPrecedingBusinessDay(
+  dateStr: string,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+): string {
+  let result = dateStr
+  // The work week is non-empty and the set finite, so stepping back always reaches a working day
+  while (!isWorkingDay(result, nonWorkingDays, workWeek)) {
+    result = addDays(result, -1)
   }
-  // Already a business day
-  return dateStr
+  return result
 }
 
 /**
@@ -114,18 +185,49 @@ export function calculateSprintStartDate(
 
 /**
  * Calculate the sprint finish date for a given sprint start date and cadence.
- * The finish date is the business day (Mon-Fri) immediately before the next sprint starts.
+ * The finish date is the business day (Mon-Fri, or the `workWeek`) immediately
+ * before the next sprint starts.
+ * With `nonWorkingDays`, it is the last working day instead; a sprint lying wholly
+ * in a shutdown keeps its work-week finish rather than finishing before it starts.
  */
 export function calculateSprintFinishDate(
   sprintStartDate: string,
-  cadenceWeeks: number
+  cadenceWeeks: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
 ): string {
   // Next sprint would start on sprintStartDate + cadenceWeeks
   const nextSprintStart = addWeeks(sprintStartDate, cadenceWeeks)
   // Day before next sprint starts
   const dayBeforeNextSprint = addDays(nextSprintStart, -1)
   // Ensure it's a business day
-  return getPrecedingBusinessDay(dayBeforeNextSprint)
+  const finishDate = getPrecedingBusinessDay(dayBeforeNextSprint, nonWorkingDays, workWeek)
+  return finishDate >= sprintStartDate
+    ? finishDate
+    : getPrecedingBusinessDay(dayBeforeNextSprint, undefined, workWeek)
+}
+
+/**
+ * Working day a fractional sprint count lands on: sprint ⌈x⌉ (1-based from
+ * `startDate`), at the working day the fraction x − (⌈x⌉ − 1) of the way through its
+ * working days (Mon-Fri, or the `workWeek`, less `nonWorkingDays`). Whole counts give
+ * the sprint finish date.
+ */
+export function calculateFractionalSprintDate(
+  startDate: string,
+  fractionalSprints: number,
+  cadenceWeeks: number,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+): string {
+  const sprintNumber = Math.max(1, Math.ceil(fractionalSprints))
+  const sprintStart = calculateSprintStartDate(startDate, sprintNumber, cadenceWeeks)
+  const days = getWorkingDaysInRange(sprintStart, addDays(addWeeks(sprintStart, cadenceWeeks), -1), nonWorkingDays, workWeek)
+  if (days.length === 0) return calculateSprintFinishDate(sprintStart, cadenceWeeks, nonWorkingDays, workWeek)
+  const fraction = fractionalSprints - (sprintNumber - 1)
+  // The tolerance keeps float noise (1.3 − 1 = 0.30000000000000004) from skipping a day
+  const index = Math.ceil(fraction * days.length - 1e-9) - 1
+  return days[Math.max(0, Math.min(days.length - 1, index))]
 }
 
 /**
@@ -158,10 +260,16 @@ export function formatDateRange(startDate: string, finishDate: string): string {
 }
 
 /**
- * Count working days (Mon-Fri) between two dates using O(1) math.
+ * Count working days (Mon-Fri, or the `workWeek`) between two dates using O(1) math.
  * Inclusive of both start and end dates if they are working days.
+ * Work-week `nonWorkingDays` in the range are subtracted (O(h) in the set's size).
  */
-export function countWorkingDays(startDate: string, endDate: string): number {
+export function countWorkingDays(
+  startDate: string,
+  endDate: string,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek: WorkWeek = DEFAULT_WORK_WEEK
+): number {
   const start = new Date(startDate + 'T00:00:00')
   const end = new Date(endDate + 'T00:00:00')
 
@@ -174,33 +282,44 @@ export function countWorkingDays(startDate: string, endDate: string): number {
   const completeWeeks = Math.floor(totalDays / 7)
   const remainingDays = totalDays % 7
 
-  // Complete weeks contribute 5 working days each
-  let workingDays = completeWeeks * 5
+  // Complete weeks contribute one working day per work-week day
+  let workingDays = completeWeeks * workWeek.length
 
   // Handle remaining days
   const startDay = start.getDay() // 0 = Sunday, 6 = Saturday
 
   for (let i = 0; i < remainingDays; i++) {
     const day = (startDay + i) % 7
-    if (day !== 0 && day !== 6) {
+    if (workWeek.includes(day)) {
       workingDays++
     }
   }
 
+  if (nonWorkingDays) {
+    for (const date of nonWorkingDays) {
+      if (date >= startDate && date <= endDate && !isWeekend(date, workWeek)) workingDays--
+    }
+  }
+
   return workingDays
 }
 
 /**
- * Get all working days (Mon-Fri) between two dates as ISO strings.
+ * Get all working days (Mon-Fri, or the `workWeek`) between two dates as ISO strings.
  * Inclusive of both start and end dates if they are working days.
  * Note: This iterates day-by-day, use countWorkingDays() for just the count.
  */
-export function getWorkingDaysInRange(startDate: string, endDate: string): string[] {
+export function getWorkingDaysInRange(
+  startDate: string,
+  endDate: string,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
+): string[] {
   const result: string[] = []
   let current = startDate
 
   while (current <= endDate) {
-    if (!isWeekend(current)) {
+    if (isWorkingDay(current, nonWorkingDays, workWeek)) {
       result.push(current)
     }
     current = addDays(current, 1)
@@ -210,40 +329,51 @@ export function getWorkingDaysInRange(startDate: string, endDate: string): strin
 }
 
 /**
- * Get the next business day (Mon-Fri) after a given date.
+ * Get the next business day (Mon-Fri, or the `workWeek`) after a given date.
  * If the day after the given date is a business day, returns that date.
  * If it's Saturday, returns Monday. If it's Sunday, returns Monday.
+ * Holidays don't move sprint starts, which stay on the cadence grid.
  */
-export function getNextBusinessDay(dateStr: string): string {
-  const nextDay = addDays(dateStr, 1)
-  const date = new Date(nextDay + 'T00:00:00')
-  const day = date.getDay()
-
-  if (day === 6) {
-    // Saturday -> Monday (add 2 days)
-    return addDays(nextDay, 2)
-  } else if (day === 0) {
-    // Sunday -> Monday (add 1 day)
-    return addDays(nextDay, 1)
+export function getNextBusinessDay(dateStr: string, workWeek?: WorkWeek): string {
+  let nextDay = addDays(dateStr, 1)
+  while (isWeekend(nextDay, workWeek)) {
+    nextDay = addDays(nextDay, 1)
   }
   return nextDay
 }
 
+/** A historical sprint's resolved dates */
+export interface ResolvedSprintDates {
+  startDate: string
+  finishDate: string
+  /** Where the following sprint starts: the next business day after the finish on the cadence grid */
+  nextStartDate: string
+}
+
 /**
  * Resolve all historical sprint dates with cascade-forward logic.
  * When a sprint has a customFinishDate, all subsequent sprint start dates shift.
+ * Non-working days pull a computed finish date back to the last working day but
+ * don't shift later sprints: only a custom finish date does. Each sprint runs the
+ * cadence in effect for its sprint number.
  *
  * @param firstSprintStartDate - The project's first sprint start date
  * @param cadenceWeeks - The project's sprint cadence in weeks
  * @param historicalSprints - Array of sprints (will be sorted by sprintNumber internally)
- * @returns Map of sprintNumber → { startDate, finishDate } with cascade applied
+ * @param nonWorkingDays - Holidays and shutdowns from the project's working calendar
+ * @param workWeek - The project's working days of the week (default Mon-Fri)
+ * @param cadenceChanges - Cadence changes effective from later sprints
+ * @returns Map of sprintNumber → { startDate, finishDate, nextStartDate } with cascade applied
  */
 export function resolveAllSprintDates(
   firstSprintStartDate: string,
   cadenceWeeks: number,
-  historicalSprints: Array<{ sprintNumber: number; customFinishDate?: string }>
-): Map<number, { startDate: string; finishDate: string }> {
-  const result = new Map<number, { startDate: string; finishDate: string }>()
+  historicalSprints: Array<{ sprintNumber: number; customFinishDate?: string }>,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek,
+  cadenceChanges?: CadenceChanges
+): Map<number, ResolvedSprintDates> {
+  const result = new Map<number, ResolvedSprintDates>()
 
   if (historicalSprints.length === 0) return result
 
@@ -259,17 +389,21 @@ export function resolveAllSprintDates(
       : null
 
     if (prevSprint) {
-      const prevResolved = result.get(prevSprint.sprintNumber)!
-      currentStart = getNextBusinessDay(prevResolved.finishDate)
+      currentStart = result.get(prevSprint.sprintNumber)!.nextStartDate
     } else {
       // First sprint: use project's first sprint start date
       currentStart = firstSprintStartDate
     }
 
-    const computedFinish = calculateSprintFinishDate(currentStart, cadenceWeeks)
+    const sprintCadence = cadenceWeeksForSprint(sprint.sprintNumber, cadenceWeeks, cadenceChanges)
+    const computedFinish = calculateSprintFinishDate(currentStart, sprintCadence, nonWorkingDays, workWeek)
     const finishDate = sprint.customFinishDate ?? computedFinish
+    const nextStartDate = getNextBusinessDay(
+      sprint.customFinishDate ?? calculateSprintFinishDate(currentStart, sprintCadence, undefined, workWeek),
+      workWeek
+    )
 
-    result.set(sprint.sprintNumber, { startDate: currentStart, finishDate })
+    result.set(sprint.sprintNumber, { startDate: currentStart, finishDate, nextStartDate })
   }
 
   return result
@@ -278,53 +412,68 @@ export function resolveAllSprintDates(
 /**
  * Derive the forecast start date from historical sprints with cascade-forward logic.
  * Returns the start date of the next sprint after the last historical sprint.
+ * Non-working days don't move it (see resolveAllSprintDates).
  *
  * @param firstSprintStartDate - The project's first sprint start date
  * @param cadenceWeeks - The project's sprint cadence in weeks
  * @param historicalSprints - Array of sprints (will be sorted internally)
+ * @param workWeek - The project's working days of the week (default Mon-Fri)
+ * @param cadenceChanges - Cadence changes effective from later sprints
  * @returns ISO date string for the next sprint's start date
  */
 export function resolveAnchorDate(
   firstSprintStartDate: string,
   cadenceWeeks: number,
-  historicalSprints: Array<{ sprintNumber: number; customFinishDate?: string }>
+  historicalSprints: Array<{ sprintNumber: number; customFinishDate?: string }>,
+  workWeek?: WorkWeek,
+  cadenceChanges?: CadenceChanges
 ): string {
   if (historicalSprints.length === 0) return firstSprintStartDate
 
-  const resolved = resolveAllSprintDates(firstSprintStartDate, cadenceWeeks, historicalSprints)
+  const resolved = resolveAllSprintDates(
+    firstSprintStartDate, cadenceWeeks, historicalSprints, undefined, workWeek, cadenceChanges
+  )
   const maxSprintNumber = Math.max(...historicalSprints.map(s => s.sprintNumber))
   const lastResolved = resolved.get(maxSprintNumber)
 
   if (!lastResolved) return firstSprintStartDate
 
-  return getNextBusinessDay(lastResolved.finishDate)
+  return lastResolved.nextStartDate
 }
 
 /**
  * Calculate the weighted average productivity factor for a sprint.
  *
  * For each working day in the sprint:
+ * - If the day is a non-working day (holiday, shutdown), use factor 0
  * - If the day falls within an adjustment period, use that period's factor
  * - If multiple adjustments overlap on a day, use the minimum (most restrictive)
  * - If no adjustment applies, use factor 1.0 (normal productivity)
  *
- * Uses O(a) complexity where a = number of adjustments, rather than O(d) where d = days.
+ * Days are the work-week days of the sprint's range (Mon-Fri by default), so a
+ * ten-day sprint with two holidays gets 0.8. Uses O(a) complexity where a = number of adjustments, rather
+ * than O(d) where d = days, when nothing applies.
  *
  * @returns Weighted average factor (0.0 to 1.0), or 1.0 if no working days
  */
 export function calculateSprintProductivityFactor(
   sprintStart: string,
   sprintEnd: string,
-  adjustments: Array<{ startDate: string; endDate: string; factor: number }>
+  adjustments: Array<{ startDate: string; endDate: string; factor: number }>,
+  nonWorkingDays?: NonWorkingDays,
+  workWeek?: WorkWeek
 ): number {
-  const totalWorkingDays = countWorkingDays(sprintStart, sprintEnd)
+  const totalWorkingDays = countWorkingDays(sprintStart, sprintEnd, undefined, workWeek)
 
   if (totalWorkingDays === 0) {
     return 1.0 // No working days means no adjustment needed
   }
 
+  const hasNonWorkingDays = nonWorkingDays !== undefined &&
+    countWorkingDays(sprintStart, sprintEnd, nonWorkingDays, workWeek) < totalWorkingDays
+
   // If no adjustments, return 1.0 immediately
-  if (adjustments.length === 0) {
+  if (adjustments.length === 0 && !hasNonWorkingDays) {
     return 1.0
   }
 
@@ -333,7 +482,7 @@ export function calculateSprintProductivityFactor(
     (adj) => adj.endDate >= sprintStart && adj.startDate <= sprintEnd
   )
 
-  if (relevantAdjustments.length === 0) {
+  if (relevantAdjustments.length === 0 && !hasNonWorkingDays) {
     return 1.0
   }
 
@@ -341,11 +490,13 @@ export function calculateSprintProductivityFactor(
   // but only if there are relevant adjustments. This is acceptable because:
   // 1. Most sprints won't have adjustments (early return above)
   // 2. Sprint durations are bounded (1-4 weeks = 5-20 working days max)
-  const workingDays = getWorkingDaysInRange(sprintStart, sprintEnd)
+  const workingDays = getWorkingDaysInRange(sprintStart, sprintEnd, undefined, workWeek)
 
   let totalFactor = 0
 
   for (const day of workingDays) {
+    if (nonWorkingDays?.has(day)) continue // A holiday contributes nothing
+
     // Find all adjustments that apply to this day
     const applicableFactors = relevantAdjustments
       .filter((adj) => day >= adj.startDate && day <= adj.endDate)
@@ -0,0 +1,146 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from 'vitest'
+import {
+  easterSunday,
+  generateBuiltInHolidays,
+  resolveNonWorkingDays,
+  parseNonWorkingDayLines,
+  formatNonWorkingDayLines,
+  parseIcsNonWorkingDays,
+} from './holidays'
+import type { HolidaySet } from '@/shared/types'
+
+const TIMESTAMP = '2026-01-01T00:00:00Z'
+
+function makeSet(overrides: Partial<HolidaySet> = {}): HolidaySet {
+  return { id: 'hs-1', name: 'Holidays', createdAt: TIMESTAMP, updatedAt: TIMESTAMP, ...overrides }
+}
+
+function dates(calendar: Parameters<typeof generateBuiltInHolidays>[0], year: number): string[] {
+  return generateBuiltInHolidays(calendar, year).map((d) => d.date)
+}
+
+describe('easterSunday', () => {
+  it('matches known Easter dates', () => {
+    expect(easterSunday(2024)).toBe('2024-03-31')
+    expect(easterSunday(2025)).toBe('2025-04-20')
+    expect(easterSunday(2026)).toBe('2026-04-05')
+  })
+})
+
+describe('generateBuiltInHolidays', () => {
+  it('generates US federal holidays with observed dates', () => {
+    expect(dates('US', 2026)).toEqual([
+      '2026-01-01', '2026-01-19', '2026-02-16', '2026-05-25', '2026-06-19',
+      '2026-07-03', // July 4th falls on a Saturday
+      '2026-09-07', '2026-10-12', '2026-11-11', '2026-11-26', '2026-12-25',
+    ])
+    expect(dates('US', 2020)).not.toContain('2020-06-19') // Juneteenth from 2021
+  })
+
+  it('substitutes English bank holidays that fall on a weekend', () => {
+    // Christmas on Saturday and Boxing Day on Sunday move to Monday and Tuesday
+    expect(dates('GB-ENG', 2021)).toEqual(expect.arrayContaining(['2021-12-27', '2021-12-28']))
+    expect(dates('GB-ENG', 2026)).toContain('2026-04-03') // Good Friday
+  })
+
+  it('generates German national holidays around Easter', () => {
+    expect(dates('DE', 2026)).toEqual(expect.arrayContaining([
+      '2026-04-03', '2026-04-06', '2026-05-14', '2026-05-25', '2026-10-03',
+    ]))
+  })
+})
+
+describe('resolveNonWorkingDays', () => {
+  it('returns undefined when no enabled set applies', () => {
+    expect(resolveNonWorkingDays(undefined)).toBeUndefined()
+    expect(resolveNonWorkingDays([makeSet({ builtIn: 'US', enabled: false })])).toBeUndefined()
+  })
+
+  it('merges built-in and custom sets', () => {
+    const days = resolveNonWorkingDays([
+      makeSet({ builtIn: 'US' }),
+      makeSet({ id: 'hs-2', days: [{ date: '2026-12-31', name: 'Shutdown' }] }),
+    ])!
+    expect(days.has('2026-12-25')).toBe(true)
+    expect(days.has('2040-12-25')).toBe(true)
+    expect(days.has('2026-12-31')).toBe(true)
+  })
+})
+
+describe('parseNonWorkingDayLines', () => {
+  it('reads single dates and ranges with names', () => {
+    const { days, errors } = parseNonWorkingDayLines('2026-07-03 Summer Friday\n\n2026-12-30..2027-01-01 Shutdown')
+    expect(errors).toEqual([])
+    expect(days).toEqual([
+      { date: '2026-07-03', name: 'Summer Friday' },
+      { date: '2026-12-30', name: 'Shutdown' },
+      { date: '2026-12-31', name: 'Shutdown' },
+      { date: '2027-01-01', name: 'Shutdown' },
+    ])
+  })
+
+  it('reports unreadable lines by number', () => {
+    const { errors } = parseNonWorkingDayLines('2026-02-30\nnext Friday\n2026-12-31..2026-12-01')
+    expect(errors).toHaveLength(3)
+    expect(errors[1]).toMatch(/^Line 2:/)
+    expect(errors[2]).toContain('on or after its start')
+  })
+
+  it('round-trips through formatNonWorkingDayLines', () => {
+    const text = '2026-07-03 Summer Friday\n2026-12-30..2027-01-01 Shutdown\n2027-01-04'
+    expect(formatNonWorkingDayLines(parseNonWorkingDayLines(text).days)).toBe(text)
+  })
+})
+
+describe('parseIcsNonWorkingDays', () => {
+  it('reads all-day events with an exclusive end date', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261224',
+      'DTEND;VALUE=DATE:20261227',
+      'SUMMARY:Christmas\\, Boxing',
+      '  Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=America/New_York:20260703T090000',
+      'SUMMARY:Offsite',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n')
+    expect(parseIcsNonWorkingDays(ics)).toEqual([
+      { date: '2026-07-03', name: 'Offsite' },
+      { date: '2026-12-24', name: 'Christmas, Boxing Day' },
+      { date: '2026-12-25', name: 'Christmas, Boxing Day' },
+      { date: '2026-12-26', name: 'Christmas, Boxing Day' },
+    ])
+  })
+
+  it('dates timed events on their own calendar day, not the UTC day', () => {
+    const event = (start: string) => ['BEGIN:VEVENT', `DTSTART${start}`, 'END:VEVENT']
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'X-WR-TIMEZONE:America/Los_Angeles',
+      ...event(';TZID=Australia/Sydney:20261225T083000'), // As written, not Dec 24 in UTC
+      ...event(':20261126T030000Z'), // 7 PM Nov 25 in Los Angeles
+      ...event(':20260101T235959'), // Floating time
+      'END:VCALENDAR',
+    ].join('\r\n')
+    expect(parseIcsNonWorkingDays(ics).map((d) => d.date)).toEqual(['2026-01-01', '2026-11-25', '2026-12-25'])
+  })
+
+  it('converts UTC times to the local date when the calendar names no time zone', () => {
+    const instant = new Date(Date.UTC(2026, 6, 3, 23, 30))
+    const local = [instant.getFullYear(), instant.getMonth() + 1, instant.getDate()]
+      .map((n) => String(n).padStart(2, '0')).join('-')
+    expect(parseIcsNonWorkingDays('BEGIN:VEVENT\nDTSTART:20260703T233000Z\nEND:VEVENT')).toEqual([{ date: local }])
+  })
+
+  it('ignores events without a start date', () => {
+    expect(parseIcsNonWorkingDays('BEGIN:VEVENT\nSUMMARY:Nothing\nEND:VEVENT')).toEqual([])
+  })
+})
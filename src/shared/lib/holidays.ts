@@ -0,0 +1,324 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+// Working calendars: the non-working days beyond weekends that sprint date math
+// skips. A project's calendar is a list of named holiday sets — built-in country
+// calendars generated from their rules (no network), or custom dates entered by
+// hand or imported from an ICS file.
+
+import type { BuiltInHolidayCalendar, HolidaySet, NonWorkingDay } from '@/shared/types'
+import { addDays, isWeekend, isValidDateRange, type NonWorkingDays } from './dates'
+
+/** Years the built-in calendars are generated for — the app's valid date range */
+export const CALENDAR_FIRST_YEAR = 2000
+export const CALENDAR_LAST_YEAR = 2050
+
+/** Longest range one custom line can span, so a typo can't generate years of dates */
+export const MAX_NON_WORKING_RANGE_DAYS = 366
+
+export const BUILT_IN_CALENDAR_LABELS: Record<BuiltInHolidayCalendar, string> = {
+  US: 'United States (federal)',
+  'GB-ENG': 'United Kingdom (England & Wales)',
+  DE: 'Germany (national)',
+}
+
+// ============================================================================
+// Built-in calendars
+// ============================================================================
+
+function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/** The nth given weekday (0 = Sunday) of a month; n = -1 for the last */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const firstDay = new Date(Date.UTC(year, month - 1, 1)).getUTCDay()
+    return isoDate(year, month, 1 + ((weekday - firstDay + 7) % 7) + (n - 1) * 7)
+  }
+  const lastDate = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  const lastDay = new Date(Date.UTC(year, month - 1, lastDate)).getUTCDay()
+  return isoDate(year, month, lastDate - ((lastDay - weekday + 7) % 7))
+}
+
+/** Western Easter Sunday (anonymous Gregorian algorithm) */
+export function easterSunday(year: number): string {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return isoDate(year, month, day)
+}
+
+/** US federal rule: a Saturday holiday is observed Friday, a Sunday one Monday */
+function observedUS(date: string, name: string): NonWorkingDay {
+  const day = new Date(date + 'T00:00:00Z').getUTCDay()
+  if (day === 6) return { date: addDays(date, -1), name: `${name} (observed)` }
+  if (day === 0) return { date: addDays(date, 1), name: `${name} (observed)` }
+  return { date, name }
+}
+
+/**
+ * UK substitute days: a holiday on a weekend moves to the next weekday that isn't
+ * already a holiday, in order (Christmas on Saturday → Monday, Boxing Day → Tuesday).
+ */
+function substituteForward(days: NonWorkingDay[]): NonWorkingDay[] {
+  const taken = new Set(days.filter((d) => !isWeekend(d.date)).map((d) => d.date))
+  return days.map((d) => {
+    if (!isWeekend(d.date)) return d
+    let date = d.date
+    while (isWeekend(date) || taken.has(date)) date = addDays(date, 1)
+    taken.add(date)
+    return { date, name: `${d.name} (substitute day)` }
+  })
+}
+
+const MONDAY = 1
+const THURSDAY = 4
+
+const GENERATORS: Record<BuiltInHolidayCalendar, (year: number) => NonWorkingDay[]> = {
+  US: (year) => [
+    observedUS(isoDate(year, 1, 1), "New Year's Day"),
+    { date: nthWeekday(year, 1, MONDAY, 3), name: 'Martin Luther King Jr. Day' },
+    { date: nthWeekday(year, 2, MONDAY, 3), name: "Washington's Birthday" },
+    { date: nthWeekday(year, 5, MONDAY, -1), name: 'Memorial Day' },
+    ...(year >= 2021 ? [observedUS(isoDate(year, 6, 19), 'Juneteenth')] : []),
+    observedUS(isoDate(year, 7, 4), 'Independence Day'),
+    { date: nthWeekday(year, 9, MONDAY, 1), name: 'Labor Day' },
+    { date: nthWeekday(year, 10, MONDAY, 2), name: 'Columbus Day' },
+    observedUS(isoDate(year, 11, 11), 'Veterans Day'),
+    { date: nthWeekday(year, 11, THURSDAY, 4), name: 'Thanksgiving Day' },
+    observedUS(isoDate(year, 12, 25), 'Christmas Day'),
+  ],
+  // Regular bank holidays only: one-offs (jubilees, coronations, moved Early May
+  // holidays) belong in a custom set.
+  'GB-ENG': (year) => {
+    const easter = easterSunday(year)
+    return [
+      ...substituteForward([{ date: isoDate(year, 1, 1), name: "New Year's Day" }]),
+      { date: addDays(easter, -2), name: 'Good Friday' },
+      { date: addDays(easter, 1), name: 'Easter Monday' },
+      { date: nthWeekday(year, 5, MONDAY, 1), name: 'Early May bank holiday' },
+      { date: nthWeekday(year, 5, MONDAY, -1), name: 'Spring bank holiday' },
+      { date: nthWeekday(year, 8, MONDAY, -1), name: 'Summer bank holiday' },
+      ...substituteForward([
+        { date: isoDate(year, 12, 25), name: 'Christmas Day' },
+        { date: isoDate(year, 12, 26), name: 'Boxing Day' },
+      ]),
+    ]
+  },
+  // Nationwide holidays only; each state adds its own.
+  DE: (year) => {
+    const easter = easterSunday(year)
+    return [
+      { date: isoDate(year, 1, 1), name: "New Year's Day" },
+      { date: addDays(easter, -2), name: 'Good Friday' },
+      { date: addDays(easter, 1), name: 'Easter Monday' },
+      { date: isoDate(year, 5, 1), name: 'Labour Day' },
+      { date: addDays(easter, 39), name: 'Ascension Day' },
+      { date: addDays(easter, 50), name: 'Whit Monday' },
+      { date: isoDate(year, 10, 3), name: 'German Unity Day' },
+      { date: isoDate(year, 12, 25), name: 'Christmas Day' },
+      { date: isoDate(year, 12, 26), name: 'Second Day of Christmas' },
+    ]
+  },
+}
+
+/** One year of a built-in calendar's holidays, in date order */
+export function generateBuiltInHolidays(calendar: BuiltInHolidayCalendar, year: number): NonWorkingDay[] {
+  return GENERATORS[calendar](year).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/** A holiday set's days: generated for every calendar year, or as stored */
+export function holidaySetDays(set: HolidaySet): NonWorkingDay[] {
+  if (!set.builtIn) return set.days ?? []
+  const days: NonWorkingDay[] = []
+  for (let year = CALENDAR_FIRST_YEAR; year <= CALENDAR_LAST_YEAR; year++) {
+    days.push(...generateBuiltInHolidays(set.builtIn, year))
+  }
+  return days
+}
+
+/**
+ * The non-working days of a project's enabled holiday sets, or undefined when
+ * none apply, so date math keeps its Mon-Fri fast paths.
+ */
+export function resolveNonWorkingDays(holidaySets: HolidaySet[] | undefined): NonWorkingDays | undefined {
+  const enabled = (holidaySets ?? []).filter((set) => set.enabled !== false)
+  if (enabled.length === 0) return undefined
+  const dates = new Set<string>()
+  for (const set of enabled) {
+    for (const day of holidaySetDays(set)) dates.add(day.date)
+  }
+  return dates.size > 0 ? dates : undefined
+}
+
+// ============================================================================
+// Custom dates
+// ============================================================================
+
+export interface ParsedNonWorkingDays {
+  days: NonWorkingDay[]
+  /** One message per line that couldn't be read */
+  errors: string[]
+}
+
+const DATE_LINE = /^(\d{4}-\d{2}-\d{2})(?:\s*(?:\.\.|to)\s*(\d{4}-\d{2}-\d{2}))?(?:\s+(.*))?$/
+
+/** In the app's date range and a real calendar date (no February 30th) */
+function isCalendarDate(dateStr: string): boolean {
+  const date = new Date(dateStr + 'T00:00:00Z')
+  return isValidDateRange(dateStr) && !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === dateStr
+}
+
+/**
+ * Read custom non-working days, one per line: "2026-07-03 Summer shutdown", or a
+ * range "2026-12-24..2026-12-31 Year-end shutdown" (weekends in a range are kept,
+ * harmlessly). Blank lines are skipped; repeated dates keep their first name.
+ */
+export function parseNonWorkingDayLines(text: string): ParsedNonWorkingDays {
+  const byDate = new Map<string, NonWorkingDay>()
+  const errors: string[] = []
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim()
+    if (!line) return
+    const match = DATE_LINE.exec(line)
+    const [, start, end = start, rawName] = match ?? []
+    if (!match || !isCalendarDate(start) || !isCalendarDate(end)) {
+      errors.push(`Line ${i + 1}: expected a date (YYYY-MM-DD between 2000 and 2050), optionally "..end date", then a name.`)
+      return
+    }
+    if (end < start || addDays(start, MAX_NON_WORKING_RANGE_DAYS - 1) < end) {
+      errors.push(`Line ${i + 1}: the range must end on or after its start and span at most ${MAX_NON_WORKING_RANGE_DAYS} days.`)
+      return
+    }
+    const name = rawName?.trim() || undefined
+    for (let date = start; date <= end; date = addDays(date, 1)) {
+      if (!byDate.has(date)) byDate.set(date, name ? { date, name } : { date })
+    }
+  })
+  const days = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date))
+  return { days, errors }
+}
+
+/** Write days back as lines for editing, folding consecutive same-named days into ranges */
+export function formatNonWorkingDayLines(days: NonWorkingDay[]): string {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date))
+  const lines: string[] = []
+  let i = 0
+  while (i < sorted.length) {
+    let j = i
+    while (
+      j + 1 < sorted.length &&
+      sorted[j + 1].name === sorted[i].name &&
+      sorted[j + 1].date === addDays(sorted[j].date, 1)
+    ) j++
+    const range = j > i ? `${sorted[i].date}..${sorted[j].date}` : sorted[i].date
+    lines.push(sorted[i].name ? `${range} ${sorted[i].name}` : range)
+    i = j + 1
+  }
+  return lines.join('\n')
+}
+
+// ============================================================================
+// ICS import
+// ============================================================================
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim()
+}
+
+/** The calendar date of a UTC instant in `timeZone`, or in local time without one */
+function zonedDate(utcMs: number, timeZone?: string): string {
+  if (timeZone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone, year: 'numeric', month: 'numeric', day: 'numeric',
+      }).formatToParts(utcMs)
+      const part = (type: string) => Number(parts.find((p) => p.type === type)?.value)
+      return isoDate(part('year'), part('month'), part('day'))
+    } catch {
+      // Unknown zone name: fall back to local time
+    }
+  }
+  const local = new Date(utcMs)
+  return isoDate(local.getFullYear(), local.getMonth() + 1, local.getDate())
+}
+
+/**
+ * "20261225" → "2026-12-25". DATE values, floating times and times with a TZID
+ * keep the date as written — it is already the event's own calendar day. A UTC
+ * time ("…T230000Z") is converted to the calendar's X-WR-TIMEZONE, or to the
+ * local date when the file names none.
+ */
+function icsDate(value: string, calendarTimeZone?: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?/.exec(value.trim())
+  if (!match) return null
+  const [, year, month, day, hour, minute, second, utc] = match
+  if (!utc) return `${year}-${month}-${day}`
+  const utcMs = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second))
+  return zonedDate(utcMs, calendarTimeZone)
+}
+
+/**
+ * Read the non-working days from an iCalendar (ICS) file's events. An all-day
+ * event covers DTSTART up to, not including, DTEND; a timed event marks its start
+ * date (see icsDate for time zones). Recurrence rules aren't expanded — holiday feeds list each year's dates.
+ * Dates outside 2000–2050 are dropped; repeated dates keep their first summary.
+ */
+export function parseIcsNonWorkingDays(text: string): NonWorkingDay[] {
+  // Unfold continuation lines (RFC 5545 §3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  const byDate = new Map<string, NonWorkingDay>()
+  let event: { start?: string; end?: string; allDay?: boolean; name?: string } | null = null
+  let calendarTimeZone: string | undefined
+
+  for (const line of lines) {
+    const colon = line.indexOf(':')
+    if (colon < 0) continue
+    const [property, ...params] = line.slice(0, colon).toUpperCase().split(';')
+    const value = line.slice(colon + 1)
+
+    if (property === 'X-WR-TIMEZONE') {
+      calendarTimeZone = value.trim() || undefined
+    } else if (property === 'BEGIN' && value.trim().toUpperCase() === 'VEVENT') {
+      event = {}
+    } else if (property === 'END' && value.trim().toUpperCase() === 'VEVENT' && event) {
+      const start = event.start
+      if (start) {
+        // An all-day DTEND is exclusive; without one the event is a single day
+        const last = event.allDay && event.end && event.end > start ? addDays(event.end, -1) : start
+        const span = Math.min(
+          MAX_NON_WORKING_RANGE_DAYS,
+          Math.round((Date.parse(last) - Date.parse(start)) / 86_400_000) + 1
+        )
+        for (let n = 0, date = start; n < span; n++, date = addDays(date, 1)) {
+          if (isValidDateRange(date) && !byDate.has(date)) {
+            byDate.set(date, event.name ? { date, name: event.name } : { date })
+          }
+        }
+      }
+      event = null
+    } else if (event && property === 'DTSTART') {
+      event.start = icsDate(value, calendarTimeZone) ?? undefined
+      event.allDay = params.includes('VALUE=DATE') || !value.includes('T')
+    } else if (event && property === 'DTEND') {
+      event.end = icsDate(value, calendarTimeZone) ?? undefined
+    } else if (event && property === 'SUMMARY') {
+      event.name = unescapeIcsText(value) || undefined
+    }
+  }
+
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
@@ -6,7 +6,9 @@ import { describe, it, expect } from 'vitest'
 import {
   mean,
   standardDeviation,
+  lag1Autocorrelation,
   percentileFromSorted,
+  percentileConfidenceInterval,
   normalToLognormalParams,
   normalToGammaParams,
   randomNormal,
@@ -16,7 +18,16 @@ import {
   randomGamma,
   randomGammaFromMeanStdDev,
   randomTriangular,
+  randomPert,
+  PERT_LAMBDA,
   randomUniform,
+  stochasticRound,
+  randomPoisson,
+  randomNegativeBinomialFromMeanStdDev,
+  createSeededRandom,
+  deriveSeed,
+  generateRandomSeed,
+  MAX_RANDOM_SEED,
 } from './math'
 
 describe('mean', () => {
@@ -39,6 +50,22 @@ describe('mean', () => {
   })
 })
 
+describe('lag1Autocorrelation', () => {
+  it('returns 0 for fewer than 3 values', () => {
+    expect(lag1Autocorrelation([])).toBe(0)
+    expect(lag1Autocorrelation([5, 10])).toBe(0)
+  })
+
+  it('returns 0 for a constant series', () => {
+    expect(lag1Autocorrelation([7, 7, 7, 7])).toBe(0)
+  })
+
+  it('is positive for a trending series and negative for an alternating one', () => {
+    expect(lag1Autocorrelation([10, 12, 14, 16, 18])).toBeCloseTo(0.4, 10)
+    expect(lag1Autocorrelation([10, 30, 10, 30])).toBeCloseTo(-0.75, 10)
+  })
+})
+
 describe('standardDeviation', () => {
   it('returns 0 for fewer than 2 values', () => {
     expect(standardDeviation([])).toBe(0)
@@ -100,6 +127,38 @@ describe('percentileFromSorted', () => {
   })
 })
 
+describe('percentileConfidenceInterval', () => {
+  // 1, 2, ..., 1000 — value equals its rank
+  const ranks = Array.from({ length: 1000 }, (_, i) => i + 1)
+
+  it('returns a zero-width interval for an empty array', () => {
+    expect(percentileConfidenceInterval([], 85)).toEqual({ lower: 0, upper: 0, standardError: 0 })
+  })
+
+  it('brackets the percentile by order statistics at n·p ± z·√(n·p·(1−p))', () => {
+    const ci = percentileConfidenceInterval(ranks, 85)
+    expect(ci.lower).toBe(827)
+    expect(ci.upper).toBe(873)
+    // Binomial SE of the rank: √(1000 · 0.85 · 0.15) ≈ 11.3
+    expect(ci.standardError).toBeCloseTo(11.7, 1)
+  })
+
+  it('narrows as the sample grows', () => {
+    const large = Array.from({ length: 10000 }, (_, i) => (i + 1) / 10)
+    const ci = percentileConfidenceInterval(large, 85)
+    expect(ci.upper - ci.lower).toBeLessThan(46 / Math.sqrt(10) + 1)
+  })
+
+  it('collapses to zero width when the sample is constant', () => {
+    expect(percentileConfidenceInterval(Array(500).fill(7), 50)).toEqual({ lower: 7, upper: 7, standardError: 0 })
+  })
+
+  it('stays within the sample at extreme percentiles', () => {
+    expect(percentileConfidenceInterval([1, 2, 3], 0).lower).toBe(1)
+    expect(percentileConfidenceInterval([1, 2, 3], 100).upper).toBe(3)
+  })
+})
+
 describe('normalToLognormalParams', () => {
   it('converts known values correctly', () => {
     const { muLn, sigmaLn } = normalToLognormalParams(10, 5)
@@ -335,6 +394,44 @@ describe('randomTriangular', () => {
   })
 })
 
+describe('randomPert', () => {
+  it('samples within bounds', () => {
+    const samples = Array.from({ length: 5000 }, () => randomPert(10, 30, 90))
+    expect(samples.every((s) => s >= 10 && s <= 90)).toBe(true)
+  })
+
+  it('floors lower bound at 0', () => {
+    const samples = Array.from({ length: 5000 }, () => randomPert(-20, 10, 50))
+    expect(samples.every((s) => s >= 0 && s <= 50)).toBe(true)
+  })
+
+  it('returns mode when upper <= lower (degenerate case)', () => {
+    expect(randomPert(50, 30, 10)).toBe(30)
+  })
+
+  it('has the PERT mean (a + λm + b) / (λ + 2)', () => {
+    // PERT(10, 30, 90): mean = (10 + 4·30 + 90) / 6 = 36.67
+    const rng = createSeededRandom(7)
+    const samples = Array.from({ length: 20000 }, () => randomPert(10, 30, 90, rng))
+    expect(mean(samples)).toBeCloseTo((10 + PERT_LAMBDA * 30 + 90) / (PERT_LAMBDA + 2), 0)
+  })
+
+  it('concentrates more mass near the mode than triangular', () => {
+    // Symmetric PERT over [a, b] is Beta(3, 3) with SD (b − a) / √28; triangular's is (b − a) / √24
+    const rng = createSeededRandom(11)
+    const pert = Array.from({ length: 20000 }, () => randomPert(20, 50, 80, rng))
+    const tri = Array.from({ length: 20000 }, () => randomTriangular(20, 50, 80, rng))
+    expect(standardDeviation(pert)).toBeCloseTo(60 / Math.sqrt(28), 0)
+    expect(standardDeviation(pert)).toBeLessThan(standardDeviation(tri))
+  })
+
+  it('is reproducible with a seeded random source', () => {
+    const a = createSeededRandom(3)
+    const b = createSeededRandom(3)
+    expect(randomPert(5, 8, 20, a)).toBe(randomPert(5, 8, 20, b))
+  })
+})
+
 describe('randomUniform', () => {
   it('samples within bounds', () => {
     const samples = Array.from({ length: 5000 }, () => randomUniform(10, 90))
@@ -362,3 +459,111 @@ describe('randomUniform', () => {
     expect(avg).toBeCloseTo(50, 0)
   })
 })
+
+describe('createSeededRandom', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = createSeededRandom(12345)
+    const b = createSeededRandom(12345)
+    for (let i = 0; i < 100; i++) {
+      expect(a()).toBe(b())
+    }
+  })
+
+  it('produces different sequences for different seeds', () => {
+    const a = createSeededRandom(1)
+    const b = createSeededRandom(2)
+    const seqA = Array.from({ length: 10 }, () => a())
+    const seqB = Array.from({ length: 10 }, () => b())
+    expect(seqA).not.toEqual(seqB)
+  })
+
+  it('returns values in [0, 1) with a roughly uniform mean', () => {
+    const rng = createSeededRandom(99)
+    const samples = Array.from({ length: 10000 }, () => rng())
+    for (const s of samples) {
+      expect(s).toBeGreaterThanOrEqual(0)
+      expect(s).toBeLessThan(1)
+    }
+    expect(mean(samples)).toBeCloseTo(0.5, 1)
+  })
+})
+
+describe('deriveSeed', () => {
+  it('is deterministic and differs per stream', () => {
+    expect(deriveSeed(7, 0)).toBe(deriveSeed(7, 0))
+    expect(deriveSeed(7, 0)).not.toBe(deriveSeed(7, 1))
+  })
+
+  it('returns an unsigned 32-bit integer', () => {
+    const s = deriveSeed(MAX_RANDOM_SEED, 5)
+    expect(Number.isInteger(s)).toBe(true)
+    expect(s).toBeGreaterThanOrEqual(0)
+    expect(s).toBeLessThanOrEqual(MAX_RANDOM_SEED)
+  })
+})
+
+describe('generateRandomSeed', () => {
+  it('returns a positive integer within range', () => {
+    const s = generateRandomSeed()
+    expect(Number.isInteger(s)).toBe(true)
+    expect(s).toBeGreaterThan(0)
+    expect(s).toBeLessThanOrEqual(MAX_RANDOM_SEED)
+  })
+})
+
+describe('samplers with a seeded random source', () => {
+  it.each([
+    ['randomNormal', (rng: () => number) => randomNormal(30, 5, rng)],
+    ['randomTruncatedNormal', (rng: () => number) => randomTruncatedNormal(30, 5, 0, rng)],
+    ['randomLognormalFromMeanStdDev', (rng: () => number) => randomLognormalFromMeanStdDev(30, 5, rng)],
+    ['randomGammaFromMeanStdDev', (rng: () => number) => randomGammaFromMeanStdDev(30, 5, rng)],
+    ['randomTriangular', (rng: () => number) => randomTriangular(15, 30, 45, rng)],
+    ['randomUniform', (rng: () => number) => randomUniform(20, 40, rng)],
+    ['randomNegativeBinomialFromMeanStdDev', (rng: () => number) => randomNegativeBinomialFromMeanStdDev(30, 8, rng)],
+  ])('%s is reproducible for the same seed', (_name, draw) => {
+    const a = createSeededRandom(2026)
+    const b = createSeededRandom(2026)
+    const seqA = Array.from({ length: 50 }, () => draw(a))
+    const seqB = Array.from({ length: 50 }, () => draw(b))
+    expect(seqA).toEqual(seqB)
+  })
+})
+
+describe('count samplers', () => {
+  const draw = (sample: () => number, n: number) => Array.from({ length: n }, sample)
+
+  it('stochasticRound preserves the mean and leaves integers alone', () => {
+    const rng = createSeededRandom(1)
+    expect(stochasticRound(4, rng)).toBe(4)
+    const draws = draw(() => stochasticRound(3.3, rng), 20000)
+    expect(draws.every((x) => x === 3 || x === 4)).toBe(true)
+    expect(mean(draws)).toBeCloseTo(3.3, 1)
+  })
+
+  it.each([2.5, 40])('randomPoisson(%s) returns counts with mean = variance = λ', (lambda) => {
+    const rng = createSeededRandom(7)
+    const draws = draw(() => randomPoisson(lambda, rng), 20000)
+    expect(draws.every((x) => Number.isInteger(x) && x >= 0)).toBe(true)
+    expect(mean(draws) / lambda).toBeCloseTo(1, 1)
+    expect(standardDeviation(draws) ** 2 / lambda).toBeCloseTo(1, 1)
+  })
+
+  it('randomPoisson returns 0 for a non-positive rate', () => {
+    expect(randomPoisson(0)).toBe(0)
+    expect(randomPoisson(-3)).toBe(0)
+  })
+
+  it('randomNegativeBinomialFromMeanStdDev matches an overdispersed mean and SD', () => {
+    const rng = createSeededRandom(11)
+    const draws = draw(() => randomNegativeBinomialFromMeanStdDev(12, 6, rng), 20000)
+    expect(draws.every((x) => Number.isInteger(x) && x >= 0)).toBe(true)
+    expect(mean(draws)).toBeCloseTo(12, 0)
+    expect(standardDeviation(draws) / 6).toBeCloseTo(1, 1)
+  })
+
+  it('randomNegativeBinomialFromMeanStdDev falls back to Poisson when variance ≤ mean', () => {
+    const rng = createSeededRandom(13)
+    const draws = draw(() => randomNegativeBinomialFromMeanStdDev(9, 1, rng), 20000)
+    expect(standardDeviation(draws)).toBeCloseTo(3, 1)
+  })
+})
@@ -4,6 +4,48 @@
 
 // General math utilities
 
+/**
+ * Source of uniform random numbers in [0, 1).
+ * Defaults to Math.random everywhere; pass a seeded source for reproducible runs.
+ */
+export type RandomSource = () => number
+
+/** Largest seed accepted by createSeededRandom (unsigned 32-bit). */
+export const MAX_RANDOM_SEED = 0xffffffff
+
+/**
+ * Create a seeded pseudo-random source (Mulberry32).
+ * Same seed → same sequence, on every platform, so a forecast can be regenerated
+ * bit-for-bit. Fast and well-distributed enough for Monte Carlo sampling; not
+ * suitable for anything cryptographic.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Derive an independent 32-bit seed for a named sub-stream (e.g., one per distribution)
+ * so that each stream is reproducible regardless of which other streams run.
+ */
+export function deriveSeed(seed: number, stream: number): number {
+  let h = (seed >>> 0) ^ Math.imul(stream + 1, 0x9e3779b9)
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b)
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35)
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+/** Generate a fresh random seed in [1, MAX_RANDOM_SEED]. */
+export function generateRandomSeed(): number {
+  return Math.floor(Math.random() * MAX_RANDOM_SEED) + 1
+}
+
 /**
  * Calculate the arithmetic mean of an array of numbers
  */
@@ -23,23 +65,42 @@ export function standardDeviation(values: number[]): number {
   return Math.sqrt(squaredDiffs.reduce((sum, v) => sum + v, 0) / (values.length - 1))
 }
 
+/**
+ * Calculate the lag-1 sample autocorrelation of an ordered series:
+ * r₁ = Σ(xₜ − x̄)(xₜ₊₁ − x̄) / Σ(xₜ − x̄)²
+ * Returns 0 for fewer than 3 values or a constant series (no measurable correlation).
+ */
+export function lag1Autocorrelation(values: number[]): number {
+  if (values.length < 3) return 0
+  const avg = mean(values)
+  let numerator = 0
+  let denominator = 0
+  for (let i = 0; i < values.length; i++) {
+    const d = values[i] - avg
+    denominator += d * d
+    if (i < values.length - 1) numerator += d * (values[i + 1] - avg)
+  }
+  return denominator === 0 ? 0 : numerator / denominator
+}
+
 /**
  * Generate a random number from a normal distribution
  * using the Box-Muller transform
  */
-export function randomNormal(mean: number, stdDev: number): number {
-  const u1 = Math.random()
-  const u2 = Math.random()
+export function randomNormal(mean: number, stdDev: number, rng: RandomSource = Math.random): number {
+  // 1 - u maps [0, 1) to (0, 1] so log() never sees zero
+  const u1 = 1 - rng()
+  const u2 = rng()
   const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
   return z0 * stdDev + mean
 }
 
 /**
  * Calculate the percentile value from a sorted array
- * @param sortedValues - Array of numbers, must be sorted ascending
+ * @param sortedValues - Array (or typed array) of numbers, must be sorted ascending
  * @param percentile - Percentile to calculate (0-100)
  */
-export function percentileFromSorted(sortedValues: number[], percentile: number): number {
+export function percentileFromSorted(sortedValues: ArrayLike<number>, percentile: number): number {
   if (sortedValues.length === 0) return 0
   const clamped = Math.max(0, Math.min(100, percentile))
   const index = (clamped / 100) * (sortedValues.length - 1)
@@ -50,6 +111,39 @@ export function percentileFromSorted(sortedValues: number[], percentile: number)
   return sortedValues[lower] * (1 - weight) + sortedValues[upper] * weight
 }
 
+/** z-score for a two-sided 95% interval */
+const Z_95 = 1.959964
+
+export interface PercentileConfidenceInterval {
+  lower: number
+  upper: number
+  /** Monte Carlo standard error of the percentile estimate, in the values' units */
+  standardError: number
+}
+
+/**
+ * Distribution-free 95% confidence interval for a percentile of a sorted sample.
+ * The count of draws below the true p-quantile is Binomial(n, p), so the interval
+ * is bounded by the order statistics at ranks n·p ± z·√(n·p·(1−p)). The standard
+ * error is read back from the interval width (width ≈ 2·z·SE).
+ * @param sortedValues - Array (or typed array) of numbers, must be sorted ascending
+ * @param percentile - Percentile (0-100)
+ */
+export function percentileConfidenceInterval(
+  sortedValues: ArrayLike<number>,
+  percentile: number
+): PercentileConfidenceInterval {
+  const n = sortedValues.length
+  if (n === 0) return { lower: 0, upper: 0, standardError: 0 }
+  const p = Math.max(0, Math.min(100, percentile)) / 100
+  const spread = Z_95 * Math.sqrt(n * p * (1 - p))
+  const lowerIdx = Math.max(0, Math.floor(n * p - spread) - 1)
+  const upperIdx = Math.min(n - 1, Math.ceil(n * p + spread) - 1)
+  const lower = sortedValues[lowerIdx]
+  const upper = sortedValues[Math.max(lowerIdx, upperIdx)]
+  return { lower, upper, standardError: (upper - lower) / (2 * Z_95) }
+}
+
 /**
  * Convert normal distribution parameters (mean, stdDev) to lognormal parameters (μ_ln, σ_ln)
  * so that the resulting lognormal distribution has the same mean and standard deviation.
@@ -82,10 +176,10 @@ export function normalToLognormalParams(
  * @param muLn - Mean of the underlying normal distribution (not the lognormal mean)
  * @param sigmaLn - Std dev of the underlying normal distribution (not the lognormal stdDev)
  */
-export function randomLognormal(muLn: number, sigmaLn: number): number {
+export function randomLognormal(muLn: number, sigmaLn: number, rng: RandomSource = Math.random): number {
   // Generate standard normal using Box-Muller
-  const u1 = Math.random()
-  const u2 = Math.random()
+  const u1 = 1 - rng()
+  const u2 = rng()
   const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
 
   // Transform to lognormal
@@ -98,9 +192,13 @@ export function randomLognormal(muLn: number, sigmaLn: number): number {
  *
  * This is a convenience function that converts normal params to lognormal params first.
  */
-export function randomLognormalFromMeanStdDev(mean: number, stdDev: number): number {
+export function randomLognormalFromMeanStdDev(
+  mean: number,
+  stdDev: number,
+  rng: RandomSource = Math.random
+): number {
   const { muLn, sigmaLn } = normalToLognormalParams(mean, stdDev)
-  return randomLognormal(muLn, sigmaLn)
+  return randomLognormal(muLn, sigmaLn, rng)
 }
 
 /**
@@ -112,18 +210,20 @@ export function randomLognormalFromMeanStdDev(mean: number, stdDev: number): num
  * @param mean - Mean of the underlying normal distribution
  * @param stdDev - Standard deviation of the underlying normal distribution
  * @param lowerBound - Lower bound for truncation (default 0)
+ * @param rng - Uniform random source (default Math.random)
  */
 export function randomTruncatedNormal(
   mean: number,
   stdDev: number,
-  lowerBound: number = 0
+  lowerBound: number = 0,
+  rng: RandomSource = Math.random
 ): number {
   // If mean is far above the lower bound (more than 4 std devs),
   // the probability of rejection is negligible, so use simple rejection sampling
   const maxAttempts = 1000
 
   for (let i = 0; i < maxAttempts; i++) {
-    const sample = randomNormal(mean, stdDev)
+    const sample = randomNormal(mean, stdDev, rng)
     if (sample >= lowerBound) {
       return sample
     }
@@ -171,13 +271,14 @@ export function normalToGammaParams(
  *
  * @param shape - Shape parameter (k or α), must be > 0
  * @param scale - Scale parameter (θ), must be > 0
+ * @param rng - Uniform random source (default Math.random)
  */
-export function randomGamma(shape: number, scale: number): number {
+export function randomGamma(shape: number, scale: number, rng: RandomSource = Math.random): number {
   // Handle shape < 1 by using the property that if X ~ Gamma(shape+1, 1),
   // then X * U^(1/shape) ~ Gamma(shape, 1) where U ~ Uniform(0,1)
   if (shape < 1) {
-    const u = Math.random()
-    return randomGamma(shape + 1, scale) * Math.pow(u, 1 / shape)
+    const u = rng()
+    return randomGamma(shape + 1, scale, rng) * Math.pow(u, 1 / shape)
   }
 
   // Marsaglia and Tsang's method for shape >= 1
@@ -191,14 +292,14 @@ export function randomGamma(shape: number, scale: number): number {
 
     do {
       // Generate standard normal
-      const u1 = Math.random()
-      const u2 = Math.random()
+      const u1 = 1 - rng()
+      const u2 = rng()
       x = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
       v = 1 + c * x
     } while (v <= 0)
 
     v = v * v * v
-    const u = Math.random()
+    const u = rng()
 
     // Check acceptance
     if (u < 1 - 0.0331 * (x * x) * (x * x)) {
@@ -221,9 +322,13 @@ export function randomGamma(shape: number, scale: number): number {
  *
  * This is a convenience function that converts normal params to gamma params first.
  */
-export function randomGammaFromMeanStdDev(mean: number, stdDev: number): number {
+export function randomGammaFromMeanStdDev(
+  mean: number,
+  stdDev: number,
+  rng: RandomSource = Math.random
+): number {
   const { shape, scale } = normalToGammaParams(mean, stdDev)
-  return randomGamma(shape, scale)
+  return randomGamma(shape, scale, rng)
 }
 
 /**
@@ -233,13 +338,19 @@ export function randomGammaFromMeanStdDev(mean: number, stdDev: number): number
  * @param lower - Lower bound (floored at 0 for velocity)
  * @param mode - Mode (most likely value)
  * @param upper - Upper bound
+ * @param rng - Uniform random source (default Math.random)
  */
-export function randomTriangular(lower: number, mode: number, upper: number): number {
+export function randomTriangular(
+  lower: number,
+  mode: number,
+  upper: number,
+  rng: RandomSource = Math.random
+): number {
   const lo = Math.max(0, lower)
   if (upper <= lo) return Math.max(0, mode)
   const m = Math.max(lo, Math.min(upper, mode))
 
-  const u = Math.random()
+  const u = rng()
   const fc = (m - lo) / (upper - lo)
 
   if (u < fc) {
@@ -249,14 +360,131 @@ export function randomTriangular(lower: number, mode: number, upper: number): nu
   }
 }
 
+/** Beta-PERT weight on the most likely value (the classic PERT mean (a + 4m + b) / 6) */
+export const PERT_LAMBDA = 4
+
+/**
+ * Generate a random number from a Beta-PERT distribution: a Beta distribution
+ * rescaled to [lower, upper] with shape parameters
+ * α = 1 + λ(mode − lower)/(upper − lower) and β = 1 + λ(upper − mode)/(upper − lower).
+ * The Beta draw is the ratio of two Gamma draws, X / (X + Y).
+ *
+ * @param lower - Minimum (floored at 0 for velocity)
+ * @param mode - Most likely value
+ * @param upper - Maximum
+ * @param rng - Uniform random source (default Math.random)
+ */
+export function randomPert(
+  lower: number,
+  mode: number,
+  upper: number,
+  rng: RandomSource = Math.random
+): number {
+  const lo = Math.max(0, lower)
+  if (upper <= lo) return Math.max(0, mode)
+  const m = Math.max(lo, Math.min(upper, mode))
+
+  const range = upper - lo
+  const alpha = 1 + (PERT_LAMBDA * (m - lo)) / range
+  const beta = 1 + (PERT_LAMBDA * (upper - m)) / range
+  const x = randomGamma(alpha, 1, rng)
+  const y = randomGamma(beta, 1, rng)
+  return lo + (x / (x + y)) * range
+}
+
 /**
  * Generate a random number from a uniform distribution.
  *
  * @param lower - Lower bound (floored at 0 for velocity)
  * @param upper - Upper bound
+ * @param rng - Uniform random source (default Math.random)
  */
-export function randomUniform(lower: number, upper: number): number {
+export function randomUniform(lower: number, upper: number, rng: RandomSource = Math.random): number {
   const lo = Math.max(0, lower)
   if (upper <= lo) return lo
-  return lo + Math.random() * (upper - lo)
+  return lo + rng() * (upper - lo)
+}
+
+/**
+ * Round to a neighbouring integer at random so the expected value is preserved:
+ * 3.3 → 4 with probability 0.3, otherwise 3. Integers pass through without a draw.
+ */
+export function stochasticRound(value: number, rng: RandomSource = Math.random): number {
+  const whole = Math.floor(value)
+  const fraction = value - whole
+  return fraction > 0 && rng() < fraction ? whole + 1 : whole
+}
+
+/**
+ * ln(k!) — exact sum for small k, Stirling series beyond (error < 1e-10 for k ≥ 10).
+ */
+function logFactorial(k: number): number {
+  if (k < 10) {
+    let sum = 0
+    for (let i = 2; i <= k; i++) sum += Math.log(i)
+    return sum
+  }
+  const k2 = k * k
+  return (k + 0.5) * Math.log(k) - k + 0.5 * Math.log(2 * Math.PI)
+    + 1 / (12 * k) - 1 / (360 * k * k2) + 1 / (1260 * k * k2 * k2)
+}
+
+/**
+ * Generate a Poisson-distributed count.
+ * Knuth's multiplication method for small λ; Hörmann's transformed rejection
+ * (PTRS) for λ ≥ 10, which stays O(1) and avoids underflow of e^−λ.
+ *
+ * @param lambda - Expected count (λ ≤ 0 returns 0)
+ * @param rng - Uniform random source (default Math.random)
+ */
+export function randomPoisson(lambda: number, rng: RandomSource = Math.random): number {
+  if (!(lambda > 0)) return 0
+
+  if (lambda < 10) {
+    const limit = Math.exp(-lambda)
+    let k = 0
+    let p = rng()
+    while (p > limit) {
+      k++
+      p *= rng()
+    }
+    return k
+  }
+
+  const logLambda = Math.log(lambda)
+  const b = 0.931 + 2.53 * Math.sqrt(lambda)
+  const a = -0.059 + 0.02483 * b
+  const invAlpha = 1.1239 + 1.1328 / (b - 3.4)
+  const vr = 0.9277 - 3.6224 / (b - 2)
+
+  for (;;) {
+    const u = rng() - 0.5
+    const v = 1 - rng() // (0, 1] so log() never sees zero
+    const us = 0.5 - Math.abs(u)
+    const k = Math.floor((2 * a / us + b) * u + lambda + 0.43)
+    if (us >= 0.07 && v <= vr) return k
+    if (k < 0 || (us < 0.013 && v > us)) continue
+    if (Math.log(v * invAlpha / (a / (us * us) + b)) <= -lambda + k * logLambda - logFactorial(k)) {
+      return k
+    }
+  }
+}
+
+/**
+ * Generate an integer count with the desired mean and standard deviation.
+ *
+ * Uses the negative binomial as a Gamma–Poisson mixture: λ ~ Gamma with variance
+ * σ² − μ, then k ~ Poisson(λ), giving mean μ and variance σ². Count data whose
+ * variance does not exceed its mean cannot be fit that way, so it falls back to
+ * a plain Poisson(μ).
+ */
+export function randomNegativeBinomialFromMeanStdDev(
+  mean: number,
+  stdDev: number,
+  rng: RandomSource = Math.random
+): number {
+  if (!(mean > 0)) return 0
+  const excessVariance = stdDev * stdDev - mean
+  if (excessVariance <= 0) return randomPoisson(mean, rng)
+  return randomPoisson(randomGammaFromMeanStdDev(mean, Math.sqrt(excessVariance), rng), rng)
 }
@@ -2,7 +2,7 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Project, Sprint } from '@/shared/types'
+import type { Project, Sprint, ForecastScenario } from '@/shared/types'
 import type { ExportData } from './import-validation'
 
 // Must match the private MAX_STRING_LENGTH in import-validation.ts. Exported
@@ -110,6 +110,23 @@ export interface ApplySmartImportArgs {
 
 // --- Shared normalization ---
 
+// Scenarios reference productivity adjustments by id, so a copied project's
+// scenarios must point at the copied adjustments. `adjustmentIds` maps source
+// id → copy id; ids with no copy (the adjustment was deleted) are dropped.
+// Shared by the import copy path and cloneProject.
+export function remapScenarioAdjustmentIds(
+  scenarios: ForecastScenario[] | undefined,
+  adjustmentIds: ReadonlyMap<string, string>
+): ForecastScenario[] {
+  return (scenarios ?? []).map((sc) => ({
+    ...sc,
+    enabledAdjustmentIds: sc.enabledAdjustmentIds.flatMap((id) => {
+      const copyId = adjustmentIds.get(id)
+      return copyId ? [copyId] : []
+    }),
+  }))
+}
+
 export function normalizeProjectName(name: string): string {
   return name.trim().toLowerCase()
 }
@@ -320,6 +337,7 @@ export function applyImportDecisions(
     const ts = timestamp()
     const newId = generateId()
     const copyName = nextCopyName(p.name, occupiedNames, MAX_STRING_LENGTH)
+    const adjustmentIds = new Map<string, string>()
     const copyProject: Project = {
       ...p,
       id: newId,
@@ -327,8 +345,19 @@ export function applyImportDecisions(
       updatedAt: ts,
       milestones: p.milestones?.map((m) => ({ ...m, id: generateId(), updatedAt: ts })) ?? [],
       productivityAdjustments:
-        p.productivityAdjustments?.map((a) => ({ ...a, id: generateId(), updatedAt: ts })) ?? [],
+        p.productivityAdjustments?.map((a) => {
+          const id = generateId()
+          adjustmentIds.set(a.id, id)
+          return { ...a, id, updatedAt: ts }
+        }) ?? [],
+      teamMembers: p.teamMembers?.map((tm) => ({ ...tm, id: generateId(), updatedAt: ts })) ?? [],
     }
+    copyProject.forecastScenarios = remapScenarioAdjustmentIds(p.forecastScenarios, adjustmentIds)
+      .map((sc) => ({ ...sc, id: generateId(), updatedAt: ts }))
+    copyProject.forecastSnapshots =
+      p.forecastSnapshots?.map((snap) => ({ ...snap, id: generateId(), updatedAt: ts })) ?? []
+    copyProject.holidaySets =
+      p.holidaySets?.map((hs) => ({ ...hs, id: generateId(), updatedAt: ts })) ?? []
     mergedProjects.push(copyProject)
     for (const s of incoming.sprints.filter((s) => s.projectId === p.id)) {
       mergedSprints.push({ ...s, id: generateId(), projectId: newId })
@@ -200,6 +200,41 @@ describe('validateImportData – project validation', () => {
       validateImportData(makeExportData([makeProject({ firstSprintStartDate: undefined })])),
     ).toBe(true)
   })
+
+  it('accepts a work week of distinct weekdays', () => {
+    expect(validateImportData(makeExportData([makeProject({ workWeek: [0, 1, 2, 3, 4] })]))).toBe(true)
+  })
+
+  it('rejects an empty, repeated or out-of-range work week', () => {
+    for (const workWeek of [[], [1, 1], [1, 7], [1.5], 'weekdays']) {
+      expect(() =>
+        validateImportData(makeExportData([makeProject({ workWeek })])),
+      ).toThrow('invalid "workWeek"')
+    }
+  })
+
+  it('accepts cadence changes and drops unknown keys', () => {
+    const data = makeExportData([
+      makeProject({ cadenceChanges: [{ fromSprintNumber: 4, cadenceWeeks: 1, note: 'x' }] }),
+    ]) as { projects: Array<{ cadenceChanges: unknown[] }> }
+    expect(validateImportData(data)).toBe(true)
+    expect(data.projects[0].cadenceChanges).toEqual([{ fromSprintNumber: 4, cadenceWeeks: 1 }])
+  })
+
+  it('rejects cadence changes from sprint 1, repeated, or with a bad cadence', () => {
+    const cases: [unknown, string][] = [
+      ['weekly', 'invalid "cadenceChanges"'],
+      [[{ fromSprintNumber: 1, cadenceWeeks: 1 }], 'invalid fromSprintNumber'],
+      [[{ fromSprintNumber: 2.5, cadenceWeeks: 1 }], 'invalid fromSprintNumber'],
+      [[{ fromSprintNumber: 3, cadenceWeeks: 1 }, { fromSprintNumber: 3, cadenceWeeks: 2 }], 'repeats sprint 3'],
+      [[{ fromSprintNumber: 3, cadenceWeeks: 0 }], 'invalid cadenceWeeks'],
+    ]
+    for (const [cadenceChanges, message] of cases) {
+      expect(() =>
+        validateImportData(makeExportData([makeProject({ cadenceChanges })])),
+      ).toThrow(message)
+    }
+  })
 })
 
 // ─── Milestone validation ──────────────────────────────────────────
@@ -383,6 +418,283 @@ describe('validateImportData – milestone validation', () => {
       validateImportData(makeExportData([makeProject({ milestones: [ms] })])),
     ).toBe(true)
   })
+
+  it('accepts dependencies on other projects and strips unknown dependency keys', () => {
+    const data = makeExportData([
+      makeProject({
+        milestones: [makeMilestone({ dependsOn: [{ projectId: 'proj-2', milestoneId: 'ms-9', note: 'x' }] })],
+      }),
+    ]) as { projects: { milestones: { dependsOn: unknown[] }[] }[] }
+    expect(validateImportData(data)).toBe(true)
+    expect(data.projects[0].milestones[0].dependsOn).toEqual([{ projectId: 'proj-2', milestoneId: 'ms-9' }])
+  })
+
+  it('rejects malformed dependencies', () => {
+    expect(() =>
+      validateImportData(
+        makeExportData([makeProject({ milestones: [makeMilestone({ dependsOn: [{ projectId: 'proj-2' }] })] })]),
+      ),
+    ).toThrow('has an invalid dependency')
+  })
+
+  it('rejects a dependency on the same project', () => {
+    expect(() =>
+      validateImportData(
+        makeExportData([
+          makeProject({ milestones: [makeMilestone({ dependsOn: [{ projectId: 'proj-1', milestoneId: 'ms-2' }] })] }),
+        ]),
+      ),
+    ).toThrow('depends on a milestone in its own project')
+  })
+
+  it('accepts a capacity share and rejects one outside (0, 1]', () => {
+    expect(
+      validateImportData(makeExportData([makeProject({ milestones: [makeMilestone({ capacityShare: 0.3 })] })])),
+    ).toBe(true)
+    for (const capacityShare of [0, 1.5, '30%']) {
+      expect(() =>
+        validateImportData(makeExportData([makeProject({ milestones: [makeMilestone({ capacityShare })] })])),
+      ).toThrow('has invalid "capacityShare"')
+    }
+  })
+})
+
+// ─── Team member validation ────────────────────────────────────────
+
+describe('validateImportData – team member validation', () => {
+  const makeMember = (overrides: Record<string, unknown> = {}) => ({
+    id: 'tm-1',
+    name: 'Alex',
+    startDate: '2026-01-05',
+    availability: 0.8,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  })
+
+  it('accepts an open-ended member and a dated one', () => {
+    expect(
+      validateImportData(
+        makeExportData([makeProject({ teamMembers: [makeMember(), makeMember({ id: 'tm-2', endDate: '2026-03-01' })] })]),
+      ),
+    ).toBe(true)
+  })
+
+  it('rejects availability outside 0-1', () => {
+    expect(() =>
+      validateImportData(makeExportData([makeProject({ teamMembers: [makeMember({ availability: 1.5 })] })])),
+    ).toThrow('invalid availability')
+  })
+
+  it('rejects an invalid startDate', () => {
+    expect(() =>
+      validateImportData(makeExportData([makeProject({ teamMembers: [makeMember({ startDate: 'soon' })] })])),
+    ).toThrow('invalid startDate')
+  })
+
+  it('strips unknown team member keys', () => {
+    const data = makeExportData([makeProject({ teamMembers: [makeMember({ salary: 1 })] })]) as {
+      projects: Array<{ teamMembers: Record<string, unknown>[] }>
+    }
+    validateImportData(data)
+    expect(data.projects[0].teamMembers[0]).not.toHaveProperty('salary')
+  })
+})
+
+// ─── Forecast scenario validation ──────────────────────────────────
+
+describe('validateImportData – forecast scenario validation', () => {
+  const makeScenario = (overrides: Record<string, unknown> = {}) => ({
+    id: 'sc-1',
+    name: 'Descope reporting',
+    remainingBacklog: 80,
+    forecastMode: 'history',
+    volatilityMultiplier: 1.25,
+    scopeGrowth: { mode: 'custom', customPerSprint: -2, sampling: 'fixed' },
+    enabledAdjustmentIds: ['pa-1'],
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  })
+
+  it('accepts a full scenario and one with only adjustments', () => {
+    expect(
+      validateImportData(
+        makeExportData([makeProject({
+          forecastScenarios: [
+            makeScenario(),
+            { id: 'sc-2', name: 'Current plan', enabledAdjustmentIds: [], createdAt: 'x', updatedAt: 'x' },
+          ],
+        })]),
+      ),
+    ).toBe(true)
+  })
+
+  it('rejects an unknown forecast mode', () => {
+    expect(() =>
+      validateImportData(makeExportData([makeProject({ forecastScenarios: [makeScenario({ forecastMode: 'gut' })] })])),
+    ).toThrow('invalid "forecastMode"')
+  })
+
+  it('rejects a negative backlog', () => {
+    expect(() =>
+      validateImportData(makeExportData([makeProject({ forecastScenarios: [makeScenario({ remainingBacklog: -5 })] })])),
+    ).toThrow('invalid remainingBacklog')
+  })
+
+  it('rejects an invalid scope growth sampling', () => {
+    expect(() =>
+      validateImportData(makeExportData([makeProject({
+        forecastScenarios: [makeScenario({ scopeGrowth: { mode: 'calculated', sampling: 'poisson' } })],
+      })])),
+    ).toThrow('invalid "scopeGrowth"')
+  })
+
+  it('requires the adjustment id list', () => {
+    expect(() =>
+      validateImportData(makeExportData([makeProject({
+        forecastScenarios: [makeScenario({ enabledAdjustmentIds: undefined })],
+      })])),
+    ).toThrow('invalid "enabledAdjustmentIds"')
+  })
+
+  it('strips unknown scenario and scope growth keys', () => {
+    const data = makeExportData([makeProject({
+      forecastScenarios: [makeScenario({ owner: 'x', scopeGrowth: { mode: 'calculated', sampling: 'normal', extra: 1 } })],
+    })]) as {
+      projects: Array<{ forecastScenarios: Record<string, unknown>[] }>
+    }
+    validateImportData(data)
+    expect(data.projects[0].forecastScenarios[0]).not.toHaveProperty('owner')
+    expect(data.projects[0].forecastScenarios[0].scopeGrowth).toEqual({ mode: 'calculated', sampling: 'normal' })
+  })
+})
+
+describe('validateImportData – forecast snapshot validation', () => {
+  const dates = { p50: '2026-06-12', p85: '2026-07-10', p95: '2026-07-24' }
+  const makeSnapshot = (overrides: Record<string, unknown> = {}) => ({
+    id: 'snap-1',
+    snapshotDate: '2026-03-02',
+    completedSprintCount: 6,
+    note: 'Steering committee',
+    inputs: {
+      forecastMode: 'history',
+      remainingBacklog: 120,
+      velocityMean: 21.5,
+      velocityStdDev: 4.2,
+      startDate: '2026-03-09',
+      sprintCadenceWeeks: 2,
+      trialCount: 10000,
+      seed: 42,
+      adjustmentNames: ['Holidays'],
+    },
+    finishDates: { lognormal: dates, bootstrap: dates },
+    milestones: [{ name: 'MVP', cumulativeBacklog: 60, finishDates: { lognormal: dates } }],
+    createdAt: '2026-03-02T00:00:00Z',
+    updatedAt: '2026-03-02T00:00:00Z',
+    ...overrides,
+  })
+
+  it('accepts a snapshot with milestone forecasts', () => {
+    expect(
+      validateImportData(makeExportData([makeProject({ forecastSnapshots: [makeSnapshot()] })])),
+    ).toBe(true)
+  })
+
+  it('rejects an invalid snapshot date', () => {
+    expect(() =>
+      validateImportData(makeExportData([makeProject({ forecastSnapshots: [makeSnapshot({ snapshotDate: '2026-02-30' })] })])),
+    ).toThrow('invalid snapshotDate')
+  })
+
+  it('rejects missing inputs', () => {
+    expect(() =>
+      validateImportData(makeExportData([makeProject({
+        forecastSnapshots: [makeSnapshot({ inputs: { forecastMode: 'history' } })],
+      })])),
+    ).toThrow('invalid "inputs"')
+  })
+
+  it('rejects an unknown distribution or a bad finish date', () => {
+    expect(() =>
+      validateImportData(makeExportData([makeProject({
+        forecastSnapshots: [makeSnapshot({ finishDates: { weibull: dates } })],
+      })])),
+    ).toThrow('invalid "finishDates"')
+    expect(() =>
+      validateImportData(makeExportData([makeProject({
+        forecastSnapshots: [makeSnapshot({ finishDates: { lognormal: { ...dates, p85: 'soon' } } })],
+      })])),
+    ).toThrow('invalid "finishDates"')
+  })
+
+  it('rejects an invalid milestone forecast', () => {
+    expect(() =>
+      validateImportData(makeExportData([makeProject({
+        forecastSnapshots: [makeSnapshot({ milestones: [{ name: 'MVP', cumulativeBacklog: -1, finishDates: {} }] })],
+      })])),
+    ).toThrow('invalid milestone forecast')
+  })
+
+  it('strips unknown keys at every level', () => {
+    const snapshot = makeSnapshot({ owner: 'x' })
+    const data = makeExportData([makeProject({
+      forecastSnapshots: [{
+        ...snapshot,
+        inputs: { ...snapshot.inputs, extra: 1 },
+        finishDates: { lognormal: { ...dates, p99: '2026-09-01' } },
+      }],
+    })]) as {
+      projects: Array<{ forecastSnapshots: Record<string, unknown>[] }>
+    }
+    validateImportData(data)
+    const picked = data.projects[0].forecastSnapshots[0]
+    expect(picked).not.toHaveProperty('owner')
+    expect(picked.inputs).not.toHaveProperty('extra')
+    expect(picked.finishDates).toEqual({ lognormal: dates })
+  })
+})
+
+describe('validateImportData – holiday set validation', () => {
+  const makeHolidaySet = (overrides: Record<string, unknown> = {}) => ({
+    id: 'hs-1',
+    name: 'Shutdowns',
+    days: [{ date: '2026-12-31', name: 'Year-end' }],
+    enabled: true,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  })
+
+  it('accepts built-in and custom holiday sets', () => {
+    expect(
+      validateImportData(makeExportData([makeProject({
+        holidaySets: [makeHolidaySet(), makeHolidaySet({ id: 'hs-2', builtIn: 'US', days: undefined })],
+      })])),
+    ).toBe(true)
+  })
+
+  it('rejects an unknown built-in calendar', () => {
+    expect(() =>
+      validateImportData(makeExportData([makeProject({ holidaySets: [makeHolidaySet({ builtIn: 'toString' })] })])),
+    ).toThrow('unknown built-in calendar')
+  })
+
+  it('rejects an invalid non-working day', () => {
+    expect(() =>
+      validateImportData(makeExportData([makeProject({ holidaySets: [makeHolidaySet({ days: [{ date: '2026-13-01' }] })] })])),
+    ).toThrow('invalid non-working day')
+  })
+
+  it('strips unknown keys from sets and days', () => {
+    const data = makeExportData([makeProject({
+      holidaySets: [makeHolidaySet({ owner: 'x', days: [{ date: '2026-12-31', extra: 1 }] })],
+    })]) as { projects: Array<{ holidaySets: Record<string, unknown>[] }> }
+    validateImportData(data)
+    const picked = data.projects[0].holidaySets[0]
+    expect(picked).not.toHaveProperty('owner')
+    expect(picked.days).toEqual([{ date: '2026-12-31' }])
+  })
 })
 
 // ─── Sprint validation ─────────────────────────────────────────────
@@ -2,7 +2,25 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Project, Sprint, Milestone, ProductivityAdjustment } from '@/shared/types'
+import type {
+  CadenceChange,
+  Project,
+  Sprint,
+  Milestone,
+  MilestoneDependency,
+  ProductivityAdjustment,
+  TeamMember,
+  ForecastScenario,
+  ScenarioScopeGrowth,
+  ForecastSnapshot,
+  ForecastSnapshotInputs,
+  SnapshotFinishDates,
+  SnapshotMilestoneForecast,
+  HolidaySet,
+  NonWorkingDay,
+} from '@/shared/types'
+import { DISTRIBUTION_TYPES } from '@/shared/types/burn-up'
+import { BUILT_IN_CALENDAR_LABELS } from '@/shared/lib/holidays'
 import type { ChangeLogEntry } from './storage'
 
 export interface ExportData {
@@ -24,6 +42,9 @@ const MAX_STRING_LENGTH = 200
 const MAX_NUMERIC_VALUE = 999999
 const MIN_SPRINT_NUMBER = 1
 const MAX_SPRINT_NUMBER = 10000
+const VALID_FORECAST_MODES = new Set(['history', 'subjective', 'capacity'])
+const VALID_SCENARIO_SCOPE_GROWTH_SAMPLINGS = new Set(['fixed', 'normal', 'lognormal', 'bootstrap'])
+const VALID_BUILT_IN_CALENDARS = new Set(Object.keys(BUILT_IN_CALENDAR_LABELS))
 const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
 
 /**
@@ -50,6 +71,58 @@ function isValidNumber(value: unknown, min: number, max: number): boolean {
   return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
 }
 
+/**
+ * Check a sprint's numeric and date fields against the import rules. Returns the
+ * first problem as a predicate ("has invalid doneValue (...)") for the caller to
+ * prefix with the sprint's position, or null when the fields are valid.
+ * Shared by the JSON import and the Sprint History spreadsheet importer.
+ */
+export function validateSprintFields(s: Record<string, unknown>): string | null {
+  // sprintNumber is a positive integer within range
+  if (!isValidNumber(s.sprintNumber, MIN_SPRINT_NUMBER, MAX_SPRINT_NUMBER)) {
+    return `has invalid sprintNumber (must be ${MIN_SPRINT_NUMBER}-${MAX_SPRINT_NUMBER}).`
+  }
+  if (!Number.isInteger(s.sprintNumber)) {
+    return 'has non-integer sprintNumber.'
+  }
+
+  // doneValue is non-negative and within range
+  if (!isValidNumber(s.doneValue, 0, MAX_NUMERIC_VALUE)) {
+    return `has invalid doneValue (must be 0-${MAX_NUMERIC_VALUE}).`
+  }
+
+  // Optional backlogAtSprintEnd
+  if (s.backlogAtSprintEnd !== undefined && !isValidNumber(s.backlogAtSprintEnd, 0, MAX_NUMERIC_VALUE)) {
+    return `has invalid backlogAtSprintEnd (must be 0-${MAX_NUMERIC_VALUE}).`
+  }
+
+  // Sprint dates
+  if (s.sprintStartDate !== undefined && !isValidIsoDate(s.sprintStartDate)) {
+    return 'has invalid sprintStartDate (must be YYYY-MM-DD format).'
+  }
+  if (s.sprintFinishDate !== undefined && !isValidIsoDate(s.sprintFinishDate)) {
+    return 'has invalid sprintFinishDate (must be YYYY-MM-DD format).'
+  }
+  if (s.customFinishDate !== undefined && !isValidIsoDate(s.customFinishDate)) {
+    return 'has invalid customFinishDate (must be YYYY-MM-DD format).'
+  }
+  return null
+}
+
+/**
+ * Validate a snapshot's per-distribution finish dates: an object keyed by known
+ * distributions, each with valid p50/p85/p95 ISO dates
+ */
+function isValidSnapshotFinishDates(value: unknown): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  return Object.entries(value as Record<string, unknown>).every(([key, dates]) => {
+    if (!(DISTRIBUTION_TYPES as readonly string[]).includes(key)) return false
+    if (!dates || typeof dates !== 'object') return false
+    const d = dates as Record<string, unknown>
+    return isValidIsoDate(d.p50) && isValidIsoDate(d.p85) && isValidIsoDate(d.p95)
+  })
+}
+
 // --- Field allowlists (M1, v0.28.3) ---
 //
 // Imported JSON only carries schema-defined fields into the store. Unknown
@@ -65,21 +138,50 @@ function isValidNumber(value: unknown, min: number, max: number): boolean {
 
 const ALLOWED_PROJECT_KEYS = new Set<keyof Project>([
   'id', 'name', 'sprintCadenceWeeks', 'projectStartDate', 'projectFinishDate',
-  'firstSprintStartDate', 'unitOfMeasure', 'productivityAdjustments',
-  'milestones', 'createdAt', 'updatedAt',
+  'cadenceChanges', 'firstSprintStartDate', 'workWeek', 'unitOfMeasure', 'productivityAdjustments',
+  'milestones', 'teamMembers', 'forecastScenarios', 'forecastSnapshots', 'holidaySets', 'createdAt', 'updatedAt',
 ])
+const ALLOWED_CADENCE_CHANGE_KEYS = new Set<keyof CadenceChange>(['fromSprintNumber', 'cadenceWeeks'])
 const ALLOWED_SPRINT_KEYS = new Set<keyof Sprint>([
   'id', 'projectId', 'sprintNumber', 'sprintStartDate', 'sprintFinishDate',
   'customFinishDate', 'doneValue', 'backlogAtSprintEnd', 'includedInForecast',
   'createdAt', 'updatedAt',
 ])
 const ALLOWED_MILESTONE_KEYS = new Set<keyof Milestone>([
-  'id', 'name', 'backlogSize', 'color', 'showOnChart', 'createdAt', 'updatedAt',
+  'id', 'name', 'backlogSize', 'color', 'showOnChart', 'dependsOn', 'capacityShare', 'createdAt', 'updatedAt',
 ])
+const ALLOWED_MILESTONE_DEPENDENCY_KEYS = new Set<keyof MilestoneDependency>(['projectId', 'milestoneId'])
 const ALLOWED_PA_KEYS = new Set<keyof ProductivityAdjustment>([
   'id', 'name', 'startDate', 'endDate', 'factor', 'enabled', 'reason',
   'createdAt', 'updatedAt',
 ])
+const ALLOWED_TEAM_MEMBER_KEYS = new Set<keyof TeamMember>([
+  'id', 'name', 'startDate', 'endDate', 'availability', 'createdAt', 'updatedAt',
+])
+const ALLOWED_SCENARIO_KEYS = new Set<keyof ForecastScenario>([
+  'id', 'name', 'remainingBacklog', 'forecastMode', 'velocityMean', 'velocityStdDev',
+  'velocityEstimate', 'selectedCV', 'volatilityMultiplier', 'scopeGrowth',
+  'enabledAdjustmentIds', 'createdAt', 'updatedAt',
+])
+const ALLOWED_SCENARIO_SCOPE_GROWTH_KEYS = new Set<keyof ScenarioScopeGrowth>([
+  'mode', 'customPerSprint', 'sampling',
+])
+const ALLOWED_SNAPSHOT_KEYS = new Set<keyof ForecastSnapshot>([
+  'id', 'snapshotDate', 'completedSprintCount', 'note', 'inputs', 'finishDates',
+  'milestones', 'createdAt', 'updatedAt',
+])
+const ALLOWED_SNAPSHOT_INPUT_KEYS = new Set<keyof ForecastSnapshotInputs>([
+  'forecastMode', 'remainingBacklog', 'velocityMean', 'velocityStdDev', 'startDate',
+  'sprintCadenceWeeks', 'trialCount', 'seed', 'scopeGrowthPerSprint', 'adjustmentNames',
+])
+const ALLOWED_SNAPSHOT_MILESTONE_KEYS = new Set<keyof SnapshotMilestoneForecast>([
+  'name', 'cumulativeBacklog', 'finishDates',
+])
+const ALLOWED_SNAPSHOT_FINISH_DATE_KEYS = new Set<keyof SnapshotFinishDates>(['p50', 'p85', 'p95'])
+const ALLOWED_HOLIDAY_SET_KEYS = new Set<keyof HolidaySet>([
+  'id', 'name', 'builtIn', 'days', 'enabled', 'createdAt', 'updatedAt',
+])
+const ALLOWED_NON_WORKING_DAY_KEYS = new Set<keyof NonWorkingDay>(['date', 'name'])
 const ALLOWED_CHANGELOG_KEYS = new Set<keyof ChangeLogEntry>([
   't', 'op', 'entity', 'id', 'count', 'source',
 ])
@@ -94,12 +196,29 @@ function pick<K extends string>(src: Record<string, unknown>, allowed: Set<K>):
 
 function pickProject(p: Record<string, unknown>): Project {
   const out = pick(p, ALLOWED_PROJECT_KEYS) as Record<string, unknown>
+  if (Array.isArray(out.cadenceChanges)) {
+    out.cadenceChanges = (out.cadenceChanges as Record<string, unknown>[]).map((c) =>
+      pick(c, ALLOWED_CADENCE_CHANGE_KEYS)
+    )
+  }
   if (Array.isArray(out.milestones)) {
     out.milestones = (out.milestones as Record<string, unknown>[]).map(pickMilestone)
   }
   if (Array.isArray(out.productivityAdjustments)) {
     out.productivityAdjustments = (out.productivityAdjustments as Record<string, unknown>[]).map(pickProductivityAdjustment)
   }
+  if (Array.isArray(out.teamMembers)) {
+    out.teamMembers = (out.teamMembers as Record<string, unknown>[]).map(pickTeamMember)
+  }
+  if (Array.isArray(out.forecastScenarios)) {
+    out.forecastScenarios = (out.forecastScenarios as Record<string, unknown>[]).map(pickForecastScenario)
+  }
+  if (Array.isArray(out.forecastSnapshots)) {
+    out.forecastSnapshots = (out.forecastSnapshots as Record<string, unknown>[]).map(pickForecastSnapshot)
+  }
+  if (Array.isArray(out.holidaySets)) {
+    out.holidaySets = (out.holidaySets as Record<string, unknown>[]).map(pickHolidaySet)
+  }
   return out as unknown as Project
 }
 
@@ -108,23 +227,79 @@ function pickSprint(s: Record<string, unknown>): Sprint {
 }
 
 function pickMilestone(m: Record<string, unknown>): Milestone {
-  return pick(m, ALLOWED_MILESTONE_KEYS) as unknown as Milestone
+  const out = pick(m, ALLOWED_MILESTONE_KEYS)
+  if (Array.isArray(out.dependsOn)) {
+    out.dependsOn = (out.dependsOn as Record<string, unknown>[]).map((dep) =>
+      pick(dep, ALLOWED_MILESTONE_DEPENDENCY_KEYS)
+    )
+  }
+  return out as unknown as Milestone
 }
 
 function pickProductivityAdjustment(a: Record<string, unknown>): ProductivityAdjustment {
   return pick(a, ALLOWED_PA_KEYS) as unknown as ProductivityAdjustment
 }
 
+function pickTeamMember(tm: Record<string, unknown>): TeamMember {
+  return pick(tm, ALLOWED_TEAM_MEMBER_KEYS) as unknown as TeamMember
+}
+
+function pickForecastScenario(sc: Record<string, unknown>): ForecastScenario {
+  const out = pick(sc, ALLOWED_SCENARIO_KEYS)
+  if (out.scopeGrowth && typeof out.scopeGrowth === 'object') {
+    out.scopeGrowth = pick(out.scopeGrowth as Record<string, unknown>, ALLOWED_SCENARIO_SCOPE_GROWTH_KEYS)
+  }
+  return out as unknown as ForecastScenario
+}
+
+// Keyed by distribution: keeps known distributions only, each trimmed to p50/p85/p95
+function pickSnapshotFinishDates(dates: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {}
+  for (const d of DISTRIBUTION_TYPES) {
+    if (dates[d] && typeof dates[d] === 'object') {
+      out[d] = pick(dates[d] as Record<string, unknown>, ALLOWED_SNAPSHOT_FINISH_DATE_KEYS)
+    }
+  }
+  return out
+}
+
+function pickForecastSnapshot(snap: Record<string, unknown>): ForecastSnapshot {
+  const out = pick(snap, ALLOWED_SNAPSHOT_KEYS)
+  if (out.inputs && typeof out.inputs === 'object') {
+    out.inputs = pick(out.inputs as Record<string, unknown>, ALLOWED_SNAPSHOT_INPUT_KEYS)
+  }
+  if (out.finishDates && typeof out.finishDates === 'object') {
+    out.finishDates = pickSnapshotFinishDates(out.finishDates as Record<string, unknown>)
+  }
+  if (Array.isArray(out.milestones)) {
+    out.milestones = (out.milestones as Record<string, unknown>[]).map((m) => {
+      const picked = pick(m, ALLOWED_SNAPSHOT_MILESTONE_KEYS)
+      picked.finishDates = pickSnapshotFinishDates(picked.finishDates as Record<string, unknown>)
+      return picked
+    })
+  }
+  return out as unknown as ForecastSnapshot
+}
+
+function pickHolidaySet(hs: Record<string, unknown>): HolidaySet {
+  const out = pick(hs, ALLOWED_HOLIDAY_SET_KEYS)
+  if (Array.isArray(out.days)) {
+    out.days = (out.days as Record<string, unknown>[]).map((day) => pick(day, ALLOWED_NON_WORKING_DAY_KEYS))
+  }
+  return out as unknown as HolidaySet
+}
+
 function pickChangeLogEntry(e: Record<string, unknown>): ChangeLogEntry {
   return pick(e, ALLOWED_CHANGELOG_KEYS) as unknown as ChangeLogEntry
 }
 
 /**
  * Validate that imported data has the expected shape before loading it into the store.
- * Throws a descriptive error if validation fails.
+ * Throws a descriptive error if validation fails, and otherwise returns true, so
+ * `if (validateImportData(raw))` narrows `raw` to ExportData without a cast.
  *
  * As of v0.28.3, this also strips unknown keys at every nesting level
- * (project, sprint, milestone, productivityAdjustment, _changeLog entries).
+ * (project, sprint, milestone, productivityAdjustment, teamMember, _changeLog entries).
  * Callers observe the normalized shape via in-place reassignment of the
  * `projects`, `sprints`, and `_changeLog` arrays on the validated `data`.
  */
@@ -181,6 +356,45 @@ export function validateImportData(data: unknown): data is ExportData {
       throw new Error(`Project at index ${i} has invalid firstSprintStartDate (must be YYYY-MM-DD format).`)
     }
 
+    // Validate optional work week: distinct weekdays, 0 = Sunday ... 6 = Saturday
+    if (p.workWeek !== undefined) {
+      if (
+        !Array.isArray(p.workWeek) || p.workWeek.length === 0 ||
+        !p.workWeek.every((d) => Number.isInteger(d) && isValidNumber(d, 0, 6)) ||
+        new Set(p.workWeek).size !== p.workWeek.length
+      ) {
+        throw new Error(`Project at index ${i} has invalid "workWeek" (must be distinct weekdays 0-6).`)
+      }
+    }
+
+    // Validate optional cadence changes: one per sprint, from sprint 2 on
+    if (p.cadenceChanges !== undefined) {
+      if (!Array.isArray(p.cadenceChanges)) {
+        throw new Error(`Project at index ${i} has invalid "cadenceChanges" (must be an array).`)
+      }
+      const fromSprints = new Set<number>()
+      for (let j = 0; j < p.cadenceChanges.length; j++) {
+        const c = p.cadenceChanges[j] as Record<string, unknown> | null
+        if (!c || typeof c !== 'object') {
+          throw new Error(`Project ${i}, cadence change at index ${j} is not a valid object.`)
+        }
+        if (
+          !isValidNumber(c.fromSprintNumber, MIN_SPRINT_NUMBER + 1, MAX_SPRINT_NUMBER) ||
+          !Number.isInteger(c.fromSprintNumber)
+        ) {
+          throw new Error(`Project ${i}, cadence change at index ${j} has invalid fromSprintNumber (must be an integer 2-${MAX_SPRINT_NUMBER}).`)
+        }
+        const fromSprintNumber = c.fromSprintNumber as number
+        if (fromSprints.has(fromSprintNumber)) {
+          throw new Error(`Project ${i}, cadence change at index ${j} repeats sprint ${fromSprintNumber}.`)
+        }
+        fromSprints.add(fromSprintNumber)
+        if (!isValidNumber(c.cadenceWeeks, 1, 52)) {
+          throw new Error(`Project ${i}, cadence change at index ${j} has invalid cadenceWeeks (must be 1-52).`)
+        }
+      }
+    }
+
     // Validate optional milestones
     if (p.milestones !== undefined) {
       if (!Array.isArray(p.milestones)) {
@@ -221,6 +435,206 @@ export function validateImportData(data: unknown): data is ExportData {
         if (m.showOnChart !== undefined && typeof m.showOnChart !== 'boolean') {
           throw new Error(`Project ${i}, milestone at index ${j} has invalid "showOnChart" (must be a boolean).`)
         }
+        if (m.capacityShare !== undefined && !(isValidNumber(m.capacityShare, 0, 1) && (m.capacityShare as number) > 0)) {
+          throw new Error(`Project ${i}, milestone at index ${j} has invalid "capacityShare" (must be > 0 and <= 1).`)
+        }
+        // Dependencies may name projects or milestones outside this file (partial
+        // exports); the forecast skips any it can't find.
+        if (m.dependsOn !== undefined) {
+          if (!Array.isArray(m.dependsOn)) {
+            throw new Error(`Project ${i}, milestone at index ${j} has invalid "dependsOn" (must be an array).`)
+          }
+          for (const dep of m.dependsOn as (Record<string, unknown> | null)[]) {
+            if (
+              !dep || typeof dep !== 'object' ||
+              typeof dep.projectId !== 'string' || !dep.projectId ||
+              typeof dep.milestoneId !== 'string' || !dep.milestoneId
+            ) {
+              throw new Error(`Project ${i}, milestone at index ${j} has an invalid dependency.`)
+            }
+            if (dep.projectId === p.id) {
+              throw new Error(`Project ${i}, milestone at index ${j} depends on a milestone in its own project.`)
+            }
+          }
+        }
+      }
+    }
+
+    // Validate optional team roster (capacity mode)
+    if (p.teamMembers !== undefined) {
+      if (!Array.isArray(p.teamMembers)) {
+        throw new Error(`Project at index ${i} has invalid "teamMembers" (must be an array).`)
+      }
+      for (let j = 0; j < p.teamMembers.length; j++) {
+        const tm = p.teamMembers[j] as Record<string, unknown> | null
+        if (!tm || typeof tm !== 'object') {
+          throw new Error(`Project ${i}, team member at index ${j} is not a valid object.`)
+        }
+        if (typeof tm.id !== 'string' || !tm.id) {
+          throw new Error(`Project ${i}, team member at index ${j} is missing a valid "id".`)
+        }
+        if (typeof tm.name !== 'string' || !tm.name || tm.name.length > MAX_STRING_LENGTH) {
+          throw new Error(`Project ${i}, team member at index ${j} is missing a valid "name".`)
+        }
+        if (!isValidIsoDate(tm.startDate)) {
+          throw new Error(`Project ${i}, team member at index ${j} has invalid startDate (must be YYYY-MM-DD format).`)
+        }
+        if (tm.endDate !== undefined && !isValidIsoDate(tm.endDate)) {
+          throw new Error(`Project ${i}, team member at index ${j} has invalid endDate (must be YYYY-MM-DD format).`)
+        }
+        if (!isValidNumber(tm.availability, 0, 1)) {
+          throw new Error(`Project ${i}, team member at index ${j} has invalid availability (must be 0-1).`)
+        }
+      }
+    }
+
+    // Validate optional saved forecast scenarios
+    if (p.forecastScenarios !== undefined) {
+      if (!Array.isArray(p.forecastScenarios)) {
+        throw new Error(`Project at index ${i} has invalid "forecastScenarios" (must be an array).`)
+      }
+      for (let j = 0; j < p.forecastScenarios.length; j++) {
+        const sc = p.forecastScenarios[j] as Record<string, unknown> | null
+        if (!sc || typeof sc !== 'object') {
+          throw new Error(`Project ${i}, scenario at index ${j} is not a valid object.`)
+        }
+        if (typeof sc.id !== 'string' || !sc.id) {
+          throw new Error(`Project ${i}, scenario at index ${j} is missing a valid "id".`)
+        }
+        if (typeof sc.name !== 'string' || !sc.name || sc.name.length > MAX_STRING_LENGTH) {
+          throw new Error(`Project ${i}, scenario at index ${j} is missing a valid "name".`)
+        }
+        if (sc.forecastMode !== undefined && !VALID_FORECAST_MODES.has(sc.forecastMode as string)) {
+          throw new Error(`Project ${i}, scenario at index ${j} has invalid "forecastMode".`)
+        }
+        for (const field of ['remainingBacklog', 'velocityMean', 'velocityStdDev', 'velocityEstimate'] as const) {
+          if (sc[field] !== undefined && !isValidNumber(sc[field], 0, MAX_NUMERIC_VALUE)) {
+            throw new Error(`Project ${i}, scenario at index ${j} has invalid ${field} (must be >= 0 and <= ${MAX_NUMERIC_VALUE}).`)
+          }
+        }
+        for (const field of ['selectedCV', 'volatilityMultiplier'] as const) {
+          if (sc[field] !== undefined && !isValidNumber(sc[field], 0, 10)) {
+            throw new Error(`Project ${i}, scenario at index ${j} has invalid ${field} (must be 0-10).`)
+          }
+        }
+        if (sc.scopeGrowth !== undefined) {
+          const growth = sc.scopeGrowth as Record<string, unknown> | null
+          if (
+            !growth || typeof growth !== 'object' ||
+            (growth.mode !== 'calculated' && growth.mode !== 'custom') ||
+            !VALID_SCENARIO_SCOPE_GROWTH_SAMPLINGS.has(growth.sampling as string) ||
+            (growth.customPerSprint !== undefined &&
+              !isValidNumber(growth.customPerSprint, -MAX_NUMERIC_VALUE, MAX_NUMERIC_VALUE))
+          ) {
+            throw new Error(`Project ${i}, scenario at index ${j} has invalid "scopeGrowth".`)
+          }
+        }
+        if (
+          !Array.isArray(sc.enabledAdjustmentIds) ||
+          !sc.enabledAdjustmentIds.every((id) => typeof id === 'string' && id)
+        ) {
+          throw new Error(`Project ${i}, scenario at index ${j} has invalid "enabledAdjustmentIds" (must be an array of ids).`)
+        }
+      }
+    }
+
+    // Validate optional forecast snapshots (published forecasts)
+    if (p.forecastSnapshots !== undefined) {
+      if (!Array.isArray(p.forecastSnapshots)) {
+        throw new Error(`Project at index ${i} has invalid "forecastSnapshots" (must be an array).`)
+      }
+      for (let j = 0; j < p.forecastSnapshots.length; j++) {
+        const snap = p.forecastSnapshots[j] as Record<string, unknown> | null
+        if (!snap || typeof snap !== 'object') {
+          throw new Error(`Project ${i}, snapshot at index ${j} is not a valid object.`)
+        }
+        if (typeof snap.id !== 'string' || !snap.id) {
+          throw new Error(`Project ${i}, snapshot at index ${j} is missing a valid "id".`)
+        }
+        if (!isValidIsoDate(snap.snapshotDate)) {
+          throw new Error(`Project ${i}, snapshot at index ${j} has invalid snapshotDate (must be YYYY-MM-DD).`)
+        }
+        if (!isValidNumber(snap.completedSprintCount, 0, MAX_SPRINT_NUMBER)) {
+          throw new Error(`Project ${i}, snapshot at index ${j} has invalid completedSprintCount (must be 0-${MAX_SPRINT_NUMBER}).`)
+        }
+        if (snap.note !== undefined && (typeof snap.note !== 'string' || snap.note.length > MAX_STRING_LENGTH)) {
+          throw new Error(`Project ${i}, snapshot at index ${j} has invalid "note" (max ${MAX_STRING_LENGTH} characters).`)
+        }
+        const inputs = snap.inputs as Record<string, unknown> | null
+        if (
+          !inputs || typeof inputs !== 'object' ||
+          !VALID_FORECAST_MODES.has(inputs.forecastMode as string) ||
+          !isValidNumber(inputs.remainingBacklog, 0, MAX_NUMERIC_VALUE) ||
+          !isValidNumber(inputs.velocityMean, 0, MAX_NUMERIC_VALUE) ||
+          !isValidNumber(inputs.velocityStdDev, 0, MAX_NUMERIC_VALUE) ||
+          !isValidIsoDate(inputs.startDate) ||
+          !isValidNumber(inputs.sprintCadenceWeeks, 1, 52) ||
+          !isValidNumber(inputs.trialCount, 1, MAX_NUMERIC_VALUE) ||
+          (inputs.seed !== undefined && !isValidNumber(inputs.seed, 0, Number.MAX_SAFE_INTEGER)) ||
+          (inputs.scopeGrowthPerSprint !== undefined &&
+            !isValidNumber(inputs.scopeGrowthPerSprint, -MAX_NUMERIC_VALUE, MAX_NUMERIC_VALUE)) ||
+          !Array.isArray(inputs.adjustmentNames) ||
+          !inputs.adjustmentNames.every((name) => typeof name === 'string' && name.length <= MAX_STRING_LENGTH)
+        ) {
+          throw new Error(`Project ${i}, snapshot at index ${j} has invalid "inputs".`)
+        }
+        if (!isValidSnapshotFinishDates(snap.finishDates)) {
+          throw new Error(`Project ${i}, snapshot at index ${j} has invalid "finishDates".`)
+        }
+        if (snap.milestones !== undefined) {
+          if (!Array.isArray(snap.milestones)) {
+            throw new Error(`Project ${i}, snapshot at index ${j} has invalid "milestones" (must be an array).`)
+          }
+          for (const m of snap.milestones as (Record<string, unknown> | null)[]) {
+            if (
+              !m || typeof m !== 'object' ||
+              typeof m.name !== 'string' || m.name.length > MAX_STRING_LENGTH ||
+              !isValidNumber(m.cumulativeBacklog, 0, MAX_NUMERIC_VALUE) ||
+              !isValidSnapshotFinishDates(m.finishDates)
+            ) {
+              throw new Error(`Project ${i}, snapshot at index ${j} has an invalid milestone forecast.`)
+            }
+          }
+        }
+      }
+    }
+
+    // Validate optional working calendar (holiday sets)
+    if (p.holidaySets !== undefined) {
+      if (!Array.isArray(p.holidaySets)) {
+        throw new Error(`Project at index ${i} has invalid "holidaySets" (must be an array).`)
+      }
+      for (let j = 0; j < p.holidaySets.length; j++) {
+        const hs = p.holidaySets[j] as Record<string, unknown> | null
+        if (!hs || typeof hs !== 'object') {
+          throw new Error(`Project ${i}, holiday set at index ${j} is not a valid object.`)
+        }
+        if (typeof hs.id !== 'string' || !hs.id) {
+          throw new Error(`Project ${i}, holiday set at index ${j} is missing a valid "id".`)
+        }
+        if (typeof hs.name !== 'string' || !hs.name || hs.name.length > MAX_STRING_LENGTH) {
+          throw new Error(`Project ${i}, holiday set at index ${j} is missing a valid "name".`)
+        }
+        if (hs.builtIn !== undefined && !VALID_BUILT_IN_CALENDARS.has(hs.builtIn as string)) {
+          throw new Error(`Project ${i}, holiday set at index ${j} has an unknown built-in calendar.`)
+        }
+        if (hs.enabled !== undefined && typeof hs.enabled !== 'boolean') {
+          throw new Error(`Project ${i}, holiday set at index ${j} has invalid "enabled" (must be a boolean).`)
+        }
+        if (hs.days !== undefined) {
+          if (!Array.isArray(hs.days)) {
+            throw new Error(`Project ${i}, holiday set at index ${j} has invalid "days" (must be an array).`)
+          }
+          for (const day of hs.days as (Record<string, unknown> | null)[]) {
+            if (
+              !day || typeof day !== 'object' ||
+              !isValidIsoDate(day.date) ||
+              (day.name !== undefined && (typeof day.name !== 'string' || day.name.length > MAX_STRING_LENGTH))
+            ) {
+              throw new Error(`Project ${i}, holiday set at index ${j} has an invalid non-working day.`)
+            }
+          }
+        }
       }
     }
   }
@@ -245,33 +659,9 @@ export function validateImportData(data: unknown): data is ExportData {
       throw new Error(`Sprint at index ${i} is missing a valid "projectId".`)
     }
 
-    // Validate sprintNumber is a positive integer within range
-    if (!isValidNumber(s.sprintNumber, MIN_SPRINT_NUMBER, MAX_SPRINT_NUMBER)) {
-      throw new Error(`Sprint at index ${i} has invalid sprintNumber (must be ${MIN_SPRINT_NUMBER}-${MAX_SPRINT_NUMBER}).`)
-    }
-    if (!Number.isInteger(s.sprintNumber)) {
-      throw new Error(`Sprint at index ${i} has non-integer sprintNumber.`)
-    }
-
-    // Validate doneValue is non-negative and within range
-    if (!isValidNumber(s.doneValue, 0, MAX_NUMERIC_VALUE)) {
-      throw new Error(`Sprint at index ${i} has invalid doneValue (must be 0-${MAX_NUMERIC_VALUE}).`)
-    }
-
-    // Validate optional backlogAtSprintEnd
-    if (s.backlogAtSprintEnd !== undefined && !isValidNumber(s.backlogAtSprintEnd, 0, MAX_NUMERIC_VALUE)) {
-      throw new Error(`Sprint at index ${i} has invalid backlogAtSprintEnd (must be 0-${MAX_NUMERIC_VALUE}).`)
-    }
-
-    // Validate sprint dates
-    if (s.sprintStartDate !== undefined && !isValidIsoDate(s.sprintStartDate)) {
-      throw new Error(`Sprint at index ${i} has invalid sprintStartDate (must be YYYY-MM-DD format).`)
-    }
-    if (s.sprintFinishDate !== undefined && !isValidIsoDate(s.sprintFinishDate)) {
-      throw new Error(`Sprint at index ${i} has invalid sprintFinishDate (must be YYYY-MM-DD format).`)
-    }
-    if (s.customFinishDate !== undefined && !isValidIsoDate(s.customFinishDate)) {
-      throw new Error(`Sprint at index ${i} has invalid customFinishDate (must be YYYY-MM-DD format).`)
+    const fieldError = validateSprintFields(s)
+    if (fieldError) {
+      throw new Error(`Sprint at index ${i} ${fieldError}`)
     }
   }
 
@@ -508,6 +508,42 @@ describe('toggleSprintIncluded', () => {
   })
 })
 
+describe('importSprints', () => {
+  const imported = (sprintNumber: number, doneValue: number) => ({
+    sprintNumber,
+    sprintStartDate: '2026-01-06',
+    sprintFinishDate: '2026-01-17',
+    doneValue,
+    includedInForecast: true,
+  })
+
+  it('overwrites matching sprint numbers in place and adds the rest', () => {
+    useProjectStore.setState({
+      sprints: [
+        makeSprint({ id: 's1', sprintNumber: 1, doneValue: 10 }),
+        makeSprint({ id: 's2', projectId: 'proj-2', sprintNumber: 2, doneValue: 5 }),
+      ],
+    })
+
+    useProjectStore.getState().importSprints('proj-1', [imported(1, 12), imported(2, 14)])
+
+    const sprints = useProjectStore.getState().sprints
+    expect(sprints).toHaveLength(3)
+    expect(sprints[0]).toMatchObject({ id: 's1', sprintNumber: 1, doneValue: 12 })
+    expect(sprints[1]).toMatchObject({ id: 's2', projectId: 'proj-2', doneValue: 5 })
+    expect(sprints[2]).toMatchObject({ projectId: 'proj-1', sprintNumber: 2, doneValue: 14 })
+    expect(sprints[2].id).toBeTruthy()
+  })
+
+  it('logs one import entry for the batch', () => {
+    useProjectStore.getState().importSprints('proj-1', [imported(1, 12), imported(2, 14)])
+
+    const log = useProjectStore.getState()._changeLog
+    expect(log).toHaveLength(1)
+    expect(log[0]).toMatchObject({ op: 'import', entity: 'sprint', id: 'proj-1', count: 2 })
+  })
+})
+
 // --- Productivity adjustments ---
 
 describe('addProductivityAdjustment', () => {
@@ -554,6 +590,23 @@ describe('deleteProductivityAdjustment', () => {
   })
 })
 
+describe('holiday sets', () => {
+  it('adds, toggles and deletes a holiday set', () => {
+    useProjectStore.setState({ projects: [makeProject({ id: 'proj-1' })] })
+
+    const { addHolidaySet, updateHolidaySet, deleteHolidaySet } = useProjectStore.getState()
+    addHolidaySet('proj-1', { name: 'US holidays', builtIn: 'US', enabled: true })
+    const id = useProjectStore.getState().projects[0].holidaySets![0].id
+    expect(id).toBeTruthy()
+
+    updateHolidaySet('proj-1', id, { enabled: false })
+    expect(useProjectStore.getState().projects[0].holidaySets![0].enabled).toBe(false)
+
+    deleteHolidaySet('proj-1', id)
+    expect(useProjectStore.getState().projects[0].holidaySets).toEqual([])
+  })
+})
+
 // --- Session state ---
 
 describe('forecastInputs', () => {
@@ -4,7 +4,17 @@
 
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import type { Project, Sprint, ProductivityAdjustment, Milestone, ForecastMode } from '@/shared/types'
+import type {
+  Project,
+  Sprint,
+  ProductivityAdjustment,
+  HolidaySet,
+  Milestone,
+  TeamMember,
+  ForecastScenario,
+  ForecastSnapshot,
+  ForecastMode,
+} from '@/shared/types'
 import { storage, STORAGE_KEY, getWorkspaceId, getStorageMode, appendChangeLogEntry, type ChangeLogEntry } from './storage'
 import { auth } from '@/shared/firebase/config'
 import { APP_VERSION } from '@/shared/constants'
@@ -12,11 +22,13 @@ import { type BurnUpConfig, DEFAULT_BURN_UP_CONFIG } from '@/shared/types/burn-u
 import { validateImportData, type ExportData } from './import-validation'
 import { useSettingsStore } from './settings-store'
 import { syncBus } from '@/shared/firebase/sync-bus'
+import type { BootstrapWeightingMode } from '@/features/forecast/lib/bootstrap-weighting'
 import {
   applyImportDecisions,
   conflictsEqual,
   detectImportConflicts,
   nextCopyName,
+  remapScenarioAdjustmentIds,
   type ApplySmartImportArgs,
   type SmartImportOutcome,
 } from './import-utils'
@@ -31,6 +43,16 @@ interface ForecastInputs {
   velocityEstimate?: string   // Subjective mode: user's velocity guess
   selectedCV?: number         // Subjective mode: selected coefficient of variation
   volatilityMultiplier?: number // History mode: SD multiplier (1.0 = match history)
+  modelAutocorrelation?: boolean // History mode: correlate consecutive sprint velocities (lag-1)
+  projectVelocityTrend?: boolean // History mode: project the fitted velocity trend forward
+  bootstrapWeightingMode?: BootstrapWeightingMode // History mode: how Bootstrap weights past sprints
+  bootstrapHalfLife?: number // Recency weighting half-life (sprints)
+  bootstrapWindow?: number // "Last N sprints" window size
+  throughputMode?: boolean // Backlog and velocity are item counts: simulate whole items per sprint
+  dayLevelDates?: boolean // Interpolate each trial's finish to a working day inside its final sprint
+  pertMin?: string // PERT three-point estimate; blank fields fall back to mean ± √7 SD
+  pertMostLikely?: string
+  pertMax?: string
 }
 
 interface ProjectState {
@@ -75,6 +97,7 @@ interface ProjectState {
   updateSprint: (id: string, updates: Partial<Omit<Sprint, 'id' | 'projectId' | 'createdAt'>>) => void
   deleteSprint: (id: string) => void
   toggleSprintIncluded: (id: string) => void
+  importSprints: (projectId: string, sprints: Omit<Sprint, 'id' | 'projectId' | 'createdAt' | 'updatedAt'>[]) => void
 
   // Productivity Adjustment actions
   addProductivityAdjustment: (
@@ -88,6 +111,30 @@ interface ProjectState {
   ) => void
   deleteProductivityAdjustment: (projectId: string, adjustmentId: string) => void
 
+  // Working calendar actions (holiday sets)
+  addHolidaySet: (
+    projectId: string,
+    holidaySet: Omit<HolidaySet, 'id' | 'createdAt' | 'updatedAt'>
+  ) => void
+  updateHolidaySet: (
+    projectId: string,
+    holidaySetId: string,
+    updates: Partial<Omit<HolidaySet, 'id' | 'createdAt'>>
+  ) => void
+  deleteHolidaySet: (projectId: string, holidaySetId: string) => void
+
+  // Team member actions (capacity mode roster)
+  addTeamMember: (
+    projectId: string,
+    member: Omit<TeamMember, 'id' | 'createdAt' | 'updatedAt'>
+  ) => void
+  updateTeamMember: (
+    projectId: string,
+    memberId: string,
+    updates: Partial<Omit<TeamMember, 'id' | 'createdAt'>>
+  ) => void
+  deleteTeamMember: (projectId: string, memberId: string) => void
+
   // Milestone actions
   addMilestone: (
     projectId: string,
@@ -101,6 +148,25 @@ interface ProjectState {
   deleteMilestone: (projectId: string, milestoneId: string) => void
   reorderMilestones: (projectId: string, milestoneIds: string[]) => void
 
+  // Forecast scenario actions (saved what-if inputs)
+  addForecastScenario: (
+    projectId: string,
+    scenario: Omit<ForecastScenario, 'id' | 'createdAt' | 'updatedAt'>
+  ) => void
+  updateForecastScenario: (
+    projectId: string,
+    scenarioId: string,
+    updates: Partial<Omit<ForecastScenario, 'id' | 'createdAt'>>
+  ) => void
+  deleteForecastScenario: (projectId: string, scenarioId: string) => void
+
+  // Forecast snapshot actions (published forecasts, for accuracy tracking)
+  addForecastSnapshot: (
+    projectId: string,
+    snapshot: Omit<ForecastSnapshot, 'id' | 'createdAt' | 'updatedAt'>
+  ) => void
+  deleteForecastSnapshot: (projectId: string, snapshotId: string) => void
+
   // Import/Export actions
   exportData: () => ExportData
   importDataAndSelectFirst: (data: ExportData, firstProjectId?: string) => void
@@ -210,8 +276,20 @@ export const useProjectStore = create<ProjectState>()(
             createdAt: nowTime,
             updatedAt: nowTime,
           }))
-          const clonedAdjustments = (src.productivityAdjustments || []).map((a) => ({
-            ...a,
+          const adjustmentIds = new Map<string, string>()
+          const clonedAdjustments = (src.productivityAdjustments || []).map((a) => {
+            const id = generateId()
+            adjustmentIds.set(a.id, id)
+            return { ...a, id, createdAt: nowTime, updatedAt: nowTime }
+          })
+          const clonedTeamMembers = (src.teamMembers || []).map((tm) => ({
+            ...tm,
+            id: generateId(),
+            createdAt: nowTime,
+            updatedAt: nowTime,
+          }))
+          const clonedScenarios = remapScenarioAdjustmentIds(src.forecastScenarios, adjustmentIds).map((sc) => ({
+            ...sc,
             id: generateId(),
             createdAt: nowTime,
             updatedAt: nowTime,
@@ -231,6 +309,20 @@ export const useProjectStore = create<ProjectState>()(
             name: newName,
             milestones: clonedMilestones,
             productivityAdjustments: clonedAdjustments,
+            holidaySets: (src.holidaySets || []).map((hs) => ({
+              ...hs,
+              id: generateId(),
+              createdAt: nowTime,
+              updatedAt: nowTime,
+            })),
+            teamMembers: clonedTeamMembers,
+            forecastScenarios: clonedScenarios,
+            forecastSnapshots: (src.forecastSnapshots || []).map((snap) => ({
+              ...snap,
+              id: generateId(),
+              createdAt: nowTime,
+              updatedAt: nowTime,
+            })),
             createdAt: nowTime,
             updatedAt: nowTime,
           }
@@ -338,6 +430,31 @@ export const useProjectStore = create<ProjectState>()(
         if (sprint) emitProjectSave(sprint.projectId, get()._isCloudUpdate)
       },
 
+      // Bulk sprint entry: a sprint number the project already has is overwritten
+      // in place (keeping its id); the rest are added
+      importSprints: (projectId, sprintData) => {
+        if (sprintData.length === 0) return
+        const byNumber = new Map(sprintData.map((s) => [s.sprintNumber, s]))
+        set((state) => {
+          const updated = state.sprints.map((s) => {
+            const incoming = s.projectId === projectId ? byNumber.get(s.sprintNumber) : undefined
+            if (!incoming) return s
+            byNumber.delete(s.sprintNumber)
+            return { ...s, ...incoming, updatedAt: now() }
+          })
+          const added = [...byNumber.values()].map((s) => ({
+            ...s, projectId, id: generateId(), createdAt: now(), updatedAt: now(),
+          }))
+          return {
+            sprints: [...updated, ...added],
+            _changeLog: appendChangeLogEntry(state._changeLog, {
+              op: 'import', entity: 'sprint', id: projectId, count: sprintData.length,
+            }),
+          }
+        })
+        emitProjectSave(projectId, get()._isCloudUpdate)
+      },
+
       addProductivityAdjustment: (projectId, adjustmentData) => {
         const id = generateId()
         set((state) => ({
@@ -395,6 +512,118 @@ export const useProjectStore = create<ProjectState>()(
         emitProjectSave(projectId, get()._isCloudUpdate)
       },
 
+      addHolidaySet: (projectId, holidaySetData) => {
+        const id = generateId()
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === projectId
+              ? {
+                  ...p,
+                  holidaySets: [
+                    ...(p.holidaySets || []),
+                    { ...holidaySetData, id, createdAt: now(), updatedAt: now() },
+                  ],
+                  updatedAt: now(),
+                }
+              : p
+          ),
+          _changeLog: appendChangeLogEntry(state._changeLog, { op: 'add', entity: 'holidaySet', id }),
+        }))
+        emitProjectSave(projectId, get()._isCloudUpdate)
+      },
+
+      updateHolidaySet: (projectId, holidaySetId, updates) => {
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === projectId
+              ? {
+                  ...p,
+                  holidaySets: (p.holidaySets || []).map((hs) =>
+                    hs.id === holidaySetId
+                      ? { ...hs, ...updates, updatedAt: now() }
+                      : hs
+                  ),
+                  updatedAt: now(),
+                }
+              : p
+          ),
+        }))
+        emitProjectSave(projectId, get()._isCloudUpdate)
+      },
+
+      deleteHolidaySet: (projectId, holidaySetId) => {
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === projectId
+              ? {
+                  ...p,
+                  holidaySets: (p.holidaySets || []).filter((hs) => hs.id !== holidaySetId),
+                  updatedAt: now(),
+                }
+              : p
+          ),
+          _changeLog: appendChangeLogEntry(state._changeLog, { op: 'delete', entity: 'holidaySet', id: holidaySetId }),
+        }))
+        emitProjectSave(projectId, get()._isCloudUpdate)
+      },
+
+      addTeamMember: (projectId, memberData) => {
+        const id = generateId()
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === projectId
+              ? {
+                  ...p,
+                  teamMembers: [
+                    ...(p.teamMembers || []),
+                    { ...memberData, id, createdAt: now(), updatedAt: now() },
+                  ],
+                  updatedAt: now(),
+                }
+              : p
+          ),
+          _changeLog: appendChangeLogEntry(state._changeLog, { op: 'add', entity: 'teamMember', id }),
+        }))
+        emitProjectSave(projectId, get()._isCloudUpdate)
+      },
+
+      updateTeamMember: (projectId, memberId, updates) => {
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === projectId
+              ? {
+                  ...p,
+                  teamMembers: (p.teamMembers || []).map((tm) =>
+                    tm.id === memberId
+                      ? { ...tm, ...updates, updatedAt: now() }
+                      : tm
+                  ),
+                  updatedAt: now(),
+                }
+              : p
+          ),
+        }))
+        emitProjectSave(projectId, get()._isCloudUpdate)
+      },
+
+      deleteTeamMember: (projectId, memberId) => {
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === projectId
+              ? {
+                  ...p,
+                  teamMembers: (p.teamMembers || []).filter(
+                    (tm) => tm.id !== memberId
+                  ),
+                  updatedAt: now(),
+                }
+              : p
+          ),
+          _changeLog: appendChangeLogEntry(state._changeLog, { op: 'delete', entity: 'teamMember', id: memberId }),
+        }))
+        emitProjectSave(projectId, get()._isCloudUpdate)
+      },
+
       addMilestone: (projectId, milestoneData) => {
         const id = generateId()
         set((state) => ({
@@ -469,6 +698,101 @@ export const useProjectStore = create<ProjectState>()(
         emitProjectSave(projectId, get()._isCloudUpdate)
       },
 
+      addForecastScenario: (projectId, scenarioData) => {
+        const id = generateId()
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === projectId
+              ? {
+                  ...p,
+                  forecastScenarios: [
+                    ...(p.forecastScenarios || []),
+                    { ...scenarioData, id, createdAt: now(), updatedAt: now() },
+                  ],
+                  updatedAt: now(),
+                }
+              : p
+          ),
+          _changeLog: appendChangeLogEntry(state._changeLog, { op: 'add', entity: 'scenario', id }),
+        }))
+        emitProjectSave(projectId, get()._isCloudUpdate)
+      },
+
+      updateForecastScenario: (projectId, scenarioId, updates) => {
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === projectId
+              ? {
+                  ...p,
+                  forecastScenarios: (p.forecastScenarios || []).map((sc) =>
+                    sc.id === scenarioId
+                      ? { ...sc, ...updates, updatedAt: now() }
+                      : sc
+                  ),
+                  updatedAt: now(),
+                }
+              : p
+          ),
+        }))
+        emitProjectSave(projectId, get()._isCloudUpdate)
+      },
+
+      deleteForecastScenario: (projectId, scenarioId) => {
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === projectId
+              ? {
+                  ...p,
+                  forecastScenarios: (p.forecastScenarios || []).filter(
+                    (sc) => sc.id !== scenarioId
+                  ),
+                  updatedAt: now(),
+                }
+              : p
+          ),
+          _changeLog: appendChangeLogEntry(state._changeLog, { op: 'delete', entity: 'scenario', id: scenarioId }),
+        }))
+        emitProjectSave(projectId, get()._isCloudUpdate)
+      },
+
+      addForecastSnapshot: (projectId, snapshotData) => {
+        const id = generateId()
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === projectId
+              ? {
+                  ...p,
+                  forecastSnapshots: [
+                    ...(p.forecastSnapshots || []),
+                    { ...snapshotData, id, createdAt: now(), updatedAt: now() },
+                  ],
+                  updatedAt: now(),
+                }
+              : p
+          ),
+          _changeLog: appendChangeLogEntry(state._changeLog, { op: 'add', entity: 'snapshot', id }),
+        }))
+        emitProjectSave(projectId, get()._isCloudUpdate)
+      },
+
+      deleteForecastSnapshot: (projectId, snapshotId) => {
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === projectId
+              ? {
+                  ...p,
+                  forecastSnapshots: (p.forecastSnapshots || []).filter(
+                    (snap) => snap.id !== snapshotId
+                  ),
+                  updatedAt: now(),
+                }
+              : p
+          ),
+          _changeLog: appendChangeLogEntry(state._changeLog, { op: 'delete', entity: 'snapshot', id: snapshotId }),
+        }))
+        emitProjectSave(projectId, get()._isCloudUpdate)
+      },
+
       exportData: (): ExportData => {
         const state = get()
         const settings = useSettingsStore.getState()
@@ -728,6 +1052,27 @@ export const selectProjectAdjustments =
     return project?.productivityAdjustments || []
   }
 
+export const selectProjectTeamMembers =
+  (projectId: string) =>
+  (state: ProjectState): TeamMember[] => {
+    const project = state.projects.find((p) => p.id === projectId)
+    return project?.teamMembers || []
+  }
+
+export const selectProjectForecastScenarios =
+  (projectId: string) =>
+  (state: ProjectState): ForecastScenario[] => {
+    const project = state.projects.find((p) => p.id === projectId)
+    return project?.forecastScenarios || []
+  }
+
+export const selectProjectForecastSnapshots =
+  (projectId: string) =>
+  (state: ProjectState): ForecastSnapshot[] => {
+    const project = state.projects.find((p) => p.id === projectId)
+    return project?.forecastSnapshots || []
+  }
+
 export const selectProjectMilestones =
   (projectId: string) =>
   (state: ProjectState): Milestone[] => {
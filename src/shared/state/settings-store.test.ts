@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { useSettingsStore } from './settings-store'
 import { syncBus } from '@/shared/firebase/sync-bus'
+import { DEFAULT_TREND_MIN_R_SQUARED } from '@/features/forecast/constants'
 
 describe('settings-store', () => {
   beforeEach(() => {
@@ -63,12 +64,54 @@ describe('settings-store', () => {
     })
   })
 
+  describe('setSimulationSeed', () => {
+    it('defaults to null (fresh random seed each run)', () => {
+      expect(useSettingsStore.getInitialState().simulationSeed).toBeNull()
+    })
+
+    it('stores an integer seed and clears back to null', () => {
+      useSettingsStore.getState().setSimulationSeed(12345)
+      expect(useSettingsStore.getState().simulationSeed).toBe(12345)
+      useSettingsStore.getState().setSimulationSeed(null)
+      expect(useSettingsStore.getState().simulationSeed).toBeNull()
+    })
+
+    it('truncates and clamps out-of-range values to an unsigned 32-bit seed', () => {
+      useSettingsStore.getState().setSimulationSeed(42.9)
+      expect(useSettingsStore.getState().simulationSeed).toBe(42)
+      useSettingsStore.getState().setSimulationSeed(-5)
+      expect(useSettingsStore.getState().simulationSeed).toBe(0)
+      useSettingsStore.getState().setSimulationSeed(2 ** 40)
+      expect(useSettingsStore.getState().simulationSeed).toBe(0xffffffff)
+    })
+  })
+
+  describe('setTrendMinRSquared', () => {
+    it('defaults to the forecast default threshold', () => {
+      expect(useSettingsStore.getInitialState().trendMinRSquared).toBe(DEFAULT_TREND_MIN_R_SQUARED)
+    })
+
+    it('clamps to [0, 1] and ignores non-finite input', () => {
+      useSettingsStore.getState().setTrendMinRSquared(0.45)
+      expect(useSettingsStore.getState().trendMinRSquared).toBe(0.45)
+      useSettingsStore.getState().setTrendMinRSquared(1.7)
+      expect(useSettingsStore.getState().trendMinRSquared).toBe(1)
+      useSettingsStore.getState().setTrendMinRSquared(-0.2)
+      expect(useSettingsStore.getState().trendMinRSquared).toBe(0)
+      useSettingsStore.getState().setTrendMinRSquared(NaN)
+      expect(useSettingsStore.getState().trendMinRSquared).toBe(0)
+    })
+  })
+
   describe('replaceSettingsFromCloud', () => {
     it('hydrates distributionsEnabled from cloud and does not echo emit', async () => {
       const spy = vi.spyOn(syncBus, 'emit')
       useSettingsStore.getState().replaceSettingsFromCloud({
         autoRecalculate: true,
         trialCount: 10000,
+        adaptiveTrialCount: false,
+        simulationSeed: null,
+        trendMinRSquared: 0.3,
         defaultChartFontSize: 'medium',
         defaultCustomPercentile: 85,
         defaultCustomPercentile2: 50,
@@ -6,8 +6,14 @@ import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { storage } from './storage'
 import { type ChartFontSize, DEFAULT_CHART_FONT_SIZE, type DistributionType } from '@/shared/types/burn-up'
-import { DEFAULT_TRIAL_COUNT, DEFAULT_SELECTED_PERCENTILES, SELECTABLE_PERCENTILES } from '@/features/forecast/constants'
+import {
+  DEFAULT_TRIAL_COUNT,
+  DEFAULT_SELECTED_PERCENTILES,
+  SELECTABLE_PERCENTILES,
+  DEFAULT_TREND_MIN_R_SQUARED,
+} from '@/features/forecast/constants'
 import { syncBus } from '@/shared/firebase/sync-bus'
+import { MAX_RANDOM_SEED } from '@/shared/lib/math'
 
 const SETTINGS_STORAGE_KEY = 'spert-settings'
 
@@ -25,6 +31,12 @@ interface SettingsState {
   // Simulation
   autoRecalculate: boolean
   trialCount: TrialCount
+  // Run trial batches until P85 stabilizes instead of a fixed trial count
+  adaptiveTrialCount: boolean
+  // Fixed PRNG seed for reproducible forecasts; null = fresh random seed each run
+  simulationSeed: number | null
+  // Minimum R² before an opted-in velocity trend is projected into the forecast (0-1)
+  trendMinRSquared: number
 
   // Chart defaults
   defaultChartFontSize: ChartFontSize
@@ -49,6 +61,9 @@ interface SettingsState {
   // Actions
   setAutoRecalculate: (value: boolean) => void
   setTrialCount: (value: TrialCount) => void
+  setAdaptiveTrialCount: (value: boolean) => void
+  setSimulationSeed: (value: number | null) => void
+  setTrendMinRSquared: (value: number) => void
   setDefaultChartFontSize: (value: ChartFontSize) => void
   setDefaultCustomPercentile: (value: number) => void
   setDefaultCustomPercentile2: (value: number) => void
@@ -62,6 +77,9 @@ interface SettingsState {
   replaceSettingsFromCloud: (settings: {
     autoRecalculate: boolean
     trialCount: TrialCount
+    adaptiveTrialCount: boolean
+    simulationSeed: number | null
+    trendMinRSquared: number
     defaultChartFontSize: ChartFontSize
     defaultCustomPercentile: number
     defaultCustomPercentile2: number
@@ -82,6 +100,9 @@ export const useSettingsStore = create<SettingsState>()(
       // Defaults
       autoRecalculate: true,
       trialCount: DEFAULT_TRIAL_COUNT as TrialCount,
+      adaptiveTrialCount: false,
+      simulationSeed: null,
+      trendMinRSquared: DEFAULT_TREND_MIN_R_SQUARED,
       defaultChartFontSize: DEFAULT_CHART_FONT_SIZE,
       defaultCustomPercentile: 85,
       defaultCustomPercentile2: 50,
@@ -114,6 +135,24 @@ export const useSettingsStore = create<SettingsState>()(
         set({ trialCount: value })
         emitSettingsSave(get()._isCloudUpdate)
       },
+      setAdaptiveTrialCount: (value) => {
+        set({ adaptiveTrialCount: value })
+        emitSettingsSave(get()._isCloudUpdate)
+      },
+      setSimulationSeed: (value) => {
+        // Non-integer / out-of-range values are clamped to a valid unsigned 32-bit seed
+        set({
+          simulationSeed: value === null || !Number.isFinite(value)
+            ? null
+            : Math.max(0, Math.min(MAX_RANDOM_SEED, Math.trunc(value))),
+        })
+        emitSettingsSave(get()._isCloudUpdate)
+      },
+      setTrendMinRSquared: (value) => {
+        if (!Number.isFinite(value)) return
+        set({ trendMinRSquared: Math.max(0, Math.min(1, value)) })
+        emitSettingsSave(get()._isCloudUpdate)
+      },
       setDefaultChartFontSize: (value) => {
         set({ defaultChartFontSize: value })
         emitSettingsSave(get()._isCloudUpdate)
@@ -45,7 +45,7 @@ export function getWorkspaceId(): string {
 export interface ChangeLogEntry {
   t: number       // Unix timestamp in seconds
   op: string      // 'add' | 'delete' | 'import' | 'merge-import'
-  entity: string  // 'project' | 'sprint' | 'adjustment' | 'milestone' | 'dataset'
+  entity: string  // 'project' | 'sprint' | 'adjustment' | 'milestone' | 'teamMember' | 'scenario' | 'snapshot' | 'holidaySet' | 'dataset'
   id?: string
   count?: number
   source?: string
@@ -7,7 +7,14 @@
 
 import { COLORS } from '@/shared/lib/colors'
 
-export type DistributionType = 'truncatedNormal' | 'lognormal' | 'gamma' | 'bootstrap' | 'triangular' | 'uniform'
+export type DistributionType =
+  | 'truncatedNormal'
+  | 'lognormal'
+  | 'gamma'
+  | 'bootstrap'
+  | 'triangular'
+  | 'pert'
+  | 'uniform'
 
 // Runtime list of all DistributionType values. Single source of truth for: Settings checkbox UI,
 // firestoreDocToSettings defensive coercion, and any test that needs to iterate all distributions.
@@ -24,6 +31,7 @@ export const DISTRIBUTION_TYPES: readonly DistributionType[] = [
   'gamma',
   'bootstrap',
   'triangular',
+  'pert',
   'uniform',
 ] as const
 
@@ -58,6 +66,7 @@ export const DISTRIBUTION_LABELS: Record<DistributionType, string> = {
   gamma: 'Gamma',
   bootstrap: 'Bootstrap',
   triangular: 'Triangular',
+  pert: 'PERT',
   uniform: 'Uniform',
 }
 
@@ -4,6 +4,8 @@
 
 // Core domain types for SPERT
 
+import type { DistributionType } from './burn-up'
+
 export interface ProductivityAdjustment {
   id: string
   name: string // e.g., "Holiday Season", "Team Vacation"
@@ -16,12 +18,114 @@ export interface ProductivityAdjustment {
   updatedAt: string
 }
 
+/** A built-in country holiday calendar, generated for any year without network access */
+export type BuiltInHolidayCalendar = 'US' | 'GB-ENG' | 'DE'
+
+/** One non-working day on a working calendar */
+export interface NonWorkingDay {
+  date: string // ISO date string (YYYY-MM-DD)
+  name?: string // e.g., "Christmas Day", "Year-end shutdown"
+}
+
+/** A named set of non-working days on a project's working calendar */
+export interface HolidaySet {
+  id: string
+  name: string // e.g., "US holidays", "Company shutdowns"
+  builtIn?: BuiltInHolidayCalendar // Generated for every year; `days` is unused
+  days?: NonWorkingDay[] // Custom or ICS-imported dates
+  enabled?: boolean // Whether sprint date math uses it (default true)
+  createdAt: string
+  updatedAt: string
+}
+
+/** A sprint length change: from this sprint number on, sprints run `cadenceWeeks` */
+export interface CadenceChange {
+  fromSprintNumber: number // First sprint at the new cadence (2 or later)
+  cadenceWeeks: 1 | 2 | 3 | 4
+}
+
 export interface Milestone {
   id: string
   name: string // e.g., "MVP", "Beta Release", "GA"
   backlogSize: number // Incremental work for this milestone (in project's unit of measure)
   color: string // Hex color for chart visualization
   showOnChart?: boolean // Whether to show reference line on burn-up chart (default true)
+  dependsOn?: MilestoneDependency[] // Other projects' milestones that must finish before this one's work starts
+  capacityShare?: number // 0-1 share of velocity; starts a parallel work stream at this milestone (omitted = continue the current stream)
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MilestoneDependency {
+  projectId: string // Upstream project
+  milestoneId: string // Milestone in the upstream project
+}
+
+export interface TeamMember {
+  id: string
+  name: string // Person's name; add another entry for the same person when their availability changes
+  startDate: string // ISO date string (YYYY-MM-DD) - first day at this availability
+  endDate?: string // ISO date string (YYYY-MM-DD) - last day at this availability (open-ended when omitted)
+  availability: number // 0.0 to 1.0 share of the person's time on this project (1 = full time)
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ScenarioScopeGrowth {
+  mode: 'calculated' | 'custom' // Average historical injection, or a custom amount
+  customPerSprint?: number // Custom mode: scope added per sprint (negative = descoping)
+  sampling: 'fixed' | 'normal' | 'lognormal' | 'bootstrap' // How per-sprint growth is drawn
+}
+
+export interface ForecastScenario {
+  id: string
+  name: string // e.g., "Current plan", "Descope reporting", "Add two devs"
+  remainingBacklog?: number // Omitted → latest sprint's backlog-at-end
+  forecastMode?: ForecastMode // Omitted → auto-detect
+  velocityMean?: number // Velocity overrides; omitted → calculated from history
+  velocityStdDev?: number
+  velocityEstimate?: number // Subjective mode velocity guess
+  selectedCV?: number // Subjective mode coefficient of variation
+  volatilityMultiplier?: number // History mode SD multiplier
+  scopeGrowth?: ScenarioScopeGrowth // Omitted → scope growth not modeled
+  enabledAdjustmentIds: string[] // Productivity adjustments applied in this scenario
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SnapshotFinishDates {
+  p50: string // ISO date string (YYYY-MM-DD) - forecast finish date at each percentile
+  p85: string
+  p95: string
+}
+
+export interface SnapshotMilestoneForecast {
+  name: string // Milestone name when the snapshot was taken
+  cumulativeBacklog: number // Work through this milestone at the time
+  finishDates: Partial<Record<DistributionType, SnapshotFinishDates>>
+}
+
+export interface ForecastSnapshotInputs {
+  forecastMode: ForecastMode
+  remainingBacklog: number
+  velocityMean: number // Effective velocity used for the run
+  velocityStdDev: number
+  startDate: string // ISO date string (YYYY-MM-DD) - first forecast sprint's start
+  sprintCadenceWeeks: number
+  trialCount: number
+  seed?: number
+  scopeGrowthPerSprint?: number // Modeled scope growth; omitted when not modeled
+  adjustmentNames: string[] // Productivity adjustments that were enabled
+}
+
+export interface ForecastSnapshot {
+  id: string
+  snapshotDate: string // ISO date string (YYYY-MM-DD) - when the forecast was published
+  completedSprintCount: number // Sprints of history behind the forecast
+  note?: string // e.g., "Steering committee update"
+  inputs: ForecastSnapshotInputs
+  finishDates: Partial<Record<DistributionType, SnapshotFinishDates>> // Whole remaining backlog
+  milestones?: SnapshotMilestoneForecast[] // Per-milestone forecasts, first ships first
   createdAt: string
   updatedAt: string
 }
@@ -29,13 +133,19 @@ export interface Milestone {
 export interface Project {
   id: string
   name: string
-  sprintCadenceWeeks?: 1 | 2 | 3 | 4 // Optional until configured on Sprint History tab
+  sprintCadenceWeeks?: 1 | 2 | 3 | 4 // Optional until configured on Sprint History tab; sprint 1's cadence
+  cadenceChanges?: CadenceChange[] // Later cadence changes, sorted by fromSprintNumber
   projectStartDate?: string // ISO date string (YYYY-MM-DD)
   projectFinishDate?: string // ISO date string (YYYY-MM-DD)
   firstSprintStartDate?: string // ISO date string (YYYY-MM-DD) - when the team started their first sprint
+  workWeek?: number[] // Working days of the week, 0 = Sunday ... 6 = Saturday (default Mon-Fri)
   unitOfMeasure: string
   productivityAdjustments?: ProductivityAdjustment[] // Periods of reduced productivity for forecasting
+  holidaySets?: HolidaySet[] // Working calendar: holidays and shutdowns skipped by sprint date math
   milestones?: Milestone[] // Ordered release milestones (first ships first)
+  teamMembers?: TeamMember[] // Team roster for capacity-based forecasting
+  forecastScenarios?: ForecastScenario[] // Saved what-if forecast inputs
+  forecastSnapshots?: ForecastSnapshot[] // Published forecasts, oldest first
   createdAt: string
   updatedAt: string
 }
@@ -58,6 +168,7 @@ export interface VelocityStats {
   count: number
   mean: number
   standardDeviation: number
+  lag1Autocorrelation?: number // -1..1, from included sprints in sprint-number order
 }
 
 export interface ForecastConfig {
@@ -83,4 +194,4 @@ export interface PercentileResult {
   custom?: ForecastResult
 }
 
-export type ForecastMode = 'history' | 'subjective'
+export type ForecastMode = 'history' | 'subjective' | 'capacity'
@@ -9,7 +9,7 @@ import { TabNavigation, type TabId } from './TabNavigation'
 import { Footer } from './Footer'
 import { ProjectsTab } from '@/features/projects'
 import { SprintHistoryTab } from '@/features/sprint-history'
-import { ForecastTab } from '@/features/forecast'
+import { ForecastTab, PortfolioTab } from '@/features/forecast'
 import { AboutTab } from '@/features/about'
 import { SettingsTab } from '@/features/settings'
 import { APP_DESCRIPTION } from '@/shared/constants'
@@ -61,11 +61,16 @@ export function AppShell() {
     },
     {
       key: '4',
+      description: 'Go to Portfolio tab',
+      action: () => setActiveTab('portfolio'),
+    },
+    {
+      key: '5',
       description: 'Go to Settings tab',
       action: () => setActiveTab('settings'),
     },
     {
-      key: '5',
+      key: '6',
       description: 'Go to About tab',
       action: () => setActiveTab('about'),
     },
@@ -119,6 +124,7 @@ export function AppShell() {
           {activeTab === 'projects' && <ErrorBoundary><ProjectsTab onViewHistory={handleViewHistory} /></ErrorBoundary>}
           {activeTab === 'sprint-history' && <ErrorBoundary><SprintHistoryTab /></ErrorBoundary>}
           {activeTab === 'forecast' && <ErrorBoundary><ForecastTab onTabChange={setActiveTab} /></ErrorBoundary>}
+          {activeTab === 'portfolio' && <ErrorBoundary><PortfolioTab /></ErrorBoundary>}
           {activeTab === 'about' && <ErrorBoundary><AboutTab /></ErrorBoundary>}
           {activeTab === 'settings' && <ErrorBoundary><SettingsTab /></ErrorBoundary>}
         </main>
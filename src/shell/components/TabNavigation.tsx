@@ -6,7 +6,7 @@
 
 import { cn } from '@/lib/utils'
 
-export type TabId = 'projects' | 'sprint-history' | 'forecast' | 'about' | 'settings'
+export type TabId = 'projects' | 'sprint-history' | 'forecast' | 'portfolio' | 'about' | 'settings'
 
 interface Tab {
   id: TabId
@@ -18,6 +18,7 @@ const TABS: Tab[] = [
   { id: 'projects', label: 'Projects' },
   { id: 'sprint-history', label: 'Sprint History' },
   { id: 'forecast', label: 'Forecast' },
+  { id: 'portfolio', label: 'Portfolio' },
   { id: 'settings', label: 'Settings' },
   { id: 'about', label: 'About' },
 ]